@@ -0,0 +1,392 @@
+const { getFirestore, getAuth, getStorage } = require('./firebaseAdmin');
+const AuditService = require('./auditService');
+const SessionService = require('./sessionService');
+const TotpService = require('./totpService');
+
+const DELETIONS_COLLECTION = 'account_deletions';
+
+// Days between a deletion request and the account actually being removed
+const DELETION_GRACE_PERIOD_DAYS = 30;
+
+// Most accounts processDueDeletions removes in one run
+const DELETION_BATCH_LIMIT = 25;
+
+// Top-level collections whose documents belong to one user through a `user_id` field.
+// Favorites and group chat are still served by the legacy API and browser storage;
+// their collections are listed so export and deletion cover them once they move here.
+const USER_OWNED_COLLECTIONS = ['certificates', 'favorites', 'learn_later', 'quiz_attempts', 'assignment_submissions', 'assignment_reviews', 'chat_messages'];
+
+// Per-user documents holding subcollections, removed with recursiveDelete
+const USER_DOCUMENT_TREES = ['progress', 'achievements', 'notifications'];
+
+// Cloud Storage folders keyed by user id
+const USER_STORAGE_PREFIXES = ['avatars', 'submissions'];
+
+// Stored spellings of the Super Admin role (see src/lib/roleStandardization.ts)
+const SUPER_ADMIN_ROLES = ['Super Admin', 'super_admin', 'SUPER_ADMIN', 'superadmin', 'admin'];
+
+const deletionError = (code, message) => {
+  const error = new Error(message);
+  error.code = code;
+  return error;
+};
+
+// Firestore Timestamps and nested values as plain JSON
+const toPlain = (value) => {
+  if (value && typeof value.toDate === 'function') {
+    return value.toDate().toISOString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(toPlain);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, toPlain(item)]));
+  }
+  return value;
+};
+
+const docsToPlain = (snapshot) => snapshot.docs.map(doc => toPlain({ id: doc.id, ...doc.data() }));
+
+/**
+ * Self-service data export and account deletion (GDPR / POPIA).
+ *
+ * Deletion is two-step: a request is recorded in account_deletions and the
+ * account stays usable (so the request can be cancelled) until the grace
+ * period ends, when processDueDeletions removes every record that belongs to
+ * the user. The audit trail is kept but anonymised, since deleting entries
+ * would break its hash chain.
+ */
+class AccountDataService {
+  /**
+   * Everything stored about a user, as JSON
+   */
+  static async exportUserData(userId) {
+    try {
+      const db = getFirestore();
+
+      const [userDoc, authUser] = await Promise.all([
+        db.collection('users').doc(userId).get(),
+        getAuth().getUser(userId).catch(error => {
+          if (error?.code === 'auth/user-not-found') return null;
+          throw error;
+        })
+      ]);
+
+      if (!userDoc.exists && !authUser) {
+        return null;
+      }
+
+      const progress = [];
+      const courseRefs = await db.collection('progress').doc(userId).collection('courses').listDocuments();
+      for (const courseRef of courseRefs) {
+        const [courseDoc, lessons] = await Promise.all([courseRef.get(), courseRef.collection('lessons').get()]);
+        progress.push({
+          course_id: courseRef.id,
+          ...(courseDoc.exists ? toPlain(courseDoc.data()) : {}),
+          lessons: docsToPlain(lessons)
+        });
+      }
+
+      const owned = {};
+      for (const collection of USER_OWNED_COLLECTIONS) {
+        owned[collection] = docsToPlain(await db.collection(collection).where('user_id', '==', userId).get());
+      }
+
+      const [achievements, notifications, sessions, devices, activity] = await Promise.all([
+        db.collection('achievements').doc(userId).collection('user_achievements').get(),
+        db.collection('notifications').doc(userId).collection('user_notifications').get(),
+        db.collection('user_sessions').where('user_id', '==', userId).get(),
+        db.collection('user_devices').where('user_id', '==', userId).get(),
+        AuditService.queryLogs({ user_id: userId }, { limit: 1000 })
+      ]);
+
+      const profile = userDoc.exists ? toPlain(userDoc.data()) : {};
+
+      return {
+        exported_at: new Date().toISOString(),
+        user_id: userId,
+        account: authUser ? {
+          email: authUser.email || null,
+          email_verified: authUser.emailVerified,
+          display_name: authUser.displayName || null,
+          created_at: authUser.metadata.creationTime,
+          last_sign_in_at: authUser.metadata.lastSignInTime,
+          sign_in_providers: authUser.providerData.map(provider => provider.providerId)
+        } : null,
+        profile,
+        progress,
+        certificates: owned.certificates,
+        achievements: docsToPlain(achievements),
+        notifications: docsToPlain(notifications),
+        favorites: owned.favorites,
+        learn_later: owned.learn_later,
+        quiz_attempts: owned.quiz_attempts,
+        assignment_submissions: owned.assignment_submissions,
+        assignment_reviews: owned.assignment_reviews,
+        chat_messages: owned.chat_messages,
+        sessions: sessions.docs.map(doc => {
+          // Token fingerprints are credentials, not personal data
+          const { token, previous_token, ...session } = doc.data();
+          return toPlain(session);
+        }),
+        devices: docsToPlain(devices),
+        two_factor: await TotpService.getStatus(userId),
+        activity: activity.logs.map(log => ({
+          action: log.action,
+          resource_type: log.resource_type,
+          resource_id: log.resource_id,
+          details: log.details,
+          ip_address: log.ip_address,
+          user_agent: log.user_agent,
+          created_at: log.created_at
+        })),
+        deletion: await this.getDeletionStatus(userId)
+      };
+    } catch (error) {
+      console.error('❌ Error exporting user data:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * The user's deletion request, if any
+   */
+  static async getDeletionStatus(userId) {
+    try {
+      const db = getFirestore();
+      const doc = await db.collection(DELETIONS_COLLECTION).doc(userId).get();
+      return doc.exists ? { id: doc.id, ...doc.data() } : null;
+    } catch (error) {
+      console.error('❌ Error fetching deletion status:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record a deletion request; the account is removed once the grace period ends
+   * @param {{userId: string, email: string}} requestedBy - The account owner or an administrator
+   */
+  static async scheduleDeletion(userId, requestedBy, reason = '') {
+    try {
+      const db = getFirestore();
+      const userDoc = await db.collection('users').doc(userId).get();
+      if (!userDoc.exists) {
+        throw deletionError('USER_NOT_FOUND', 'User not found');
+      }
+
+      const existing = await this.getDeletionStatus(userId);
+      if (existing && existing.status === 'scheduled') {
+        return existing;
+      }
+
+      await this.assertNotLastSuperAdmin(userId, userDoc.data().role);
+
+      const now = new Date();
+      const record = {
+        user_id: userId,
+        email: userDoc.data().email || '',
+        status: 'scheduled',
+        requested_by: requestedBy.userId,
+        requested_by_email: requestedBy.email || '',
+        self_requested: requestedBy.userId === userId,
+        reason: String(reason || '').slice(0, 500),
+        requested_at: now.toISOString(),
+        scheduled_for: new Date(now.getTime() + DELETION_GRACE_PERIOD_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+        cancelled_at: null,
+        cancelled_by: null,
+        completed_at: null
+      };
+
+      await db.collection(DELETIONS_COLLECTION).doc(userId).set(record);
+      return { id: userId, ...record };
+    } catch (error) {
+      console.error('❌ Error scheduling account deletion:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Withdraw a pending deletion request
+   * @returns {Promise<object|null>} The updated record, or null when nothing was scheduled
+   */
+  static async cancelDeletion(userId, cancelledBy) {
+    try {
+      const db = getFirestore();
+      const existing = await this.getDeletionStatus(userId);
+      if (!existing || existing.status !== 'scheduled') {
+        return null;
+      }
+
+      const update = {
+        status: 'cancelled',
+        cancelled_at: new Date().toISOString(),
+        cancelled_by: cancelledBy.userId
+      };
+      await db.collection(DELETIONS_COLLECTION).doc(userId).update(update);
+      return { ...existing, ...update };
+    } catch (error) {
+      console.error('❌ Error cancelling account deletion:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove every account whose grace period has ended
+   * @returns {Promise<{processed: number, failed: Array<{userId: string, error: string}>}>}
+   */
+  static async processDueDeletions(limitCount = DELETION_BATCH_LIMIT) {
+    try {
+      const db = getFirestore();
+      const snapshot = await db.collection(DELETIONS_COLLECTION)
+        .where('status', '==', 'scheduled')
+        .where('scheduled_for', '<=', new Date().toISOString())
+        .limit(limitCount)
+        .get();
+
+      let processed = 0;
+      const failed = [];
+
+      // One at a time: each deletion touches many collections and writes to the audit chain
+      for (const doc of snapshot.docs) {
+        try {
+          await this.deleteAccount(doc.id, { userId: '', email: '' });
+          processed += 1;
+        } catch (error) {
+          failed.push({ userId: doc.id, error: error.message });
+        }
+      }
+
+      return { processed, failed };
+    } catch (error) {
+      console.error('❌ Error processing account deletions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete an account and everything stored for it, now.
+   * @param {{userId: string, email: string}} deletedBy - The administrator, or empty for scheduled runs
+   * @returns {Promise<object>} Counts of what was removed
+   */
+  static async deleteAccount(userId, deletedBy) {
+    try {
+      const db = getFirestore();
+      const userDoc = await db.collection('users').doc(userId).get();
+      const userData = userDoc.exists ? userDoc.data() : {};
+
+      let email = userData.email || '';
+      try {
+        email = (await getAuth().getUser(userId)).email || email;
+      } catch (error) {
+        if (error?.code !== 'auth/user-not-found') throw error;
+      }
+
+      await this.assertNotLastSuperAdmin(userId, userData.role);
+
+      // End every session first so the account cannot be used while it is being removed
+      await SessionService.revokeAllUserSessions(userId, 'account_deleted');
+
+      const removed = {};
+
+      for (const collection of USER_DOCUMENT_TREES) {
+        await db.recursiveDelete(db.collection(collection).doc(userId));
+      }
+
+      const byUserId = [...USER_OWNED_COLLECTIONS, 'user_sessions', 'user_devices', 'password_resets'];
+      for (const collection of byUserId) {
+        const snapshot = await db.collection(collection).where('user_id', '==', userId).get();
+        for (let i = 0; i < snapshot.docs.length; i += 400) {
+          const batch = db.batch();
+          snapshot.docs.slice(i, i + 400).forEach(doc => batch.delete(doc.ref));
+          await batch.commit();
+        }
+        removed[collection] = snapshot.size;
+      }
+
+      // The invitation the account was created from holds its email address
+      const invitations = await db.collection('user_invitations').where('accepted_user_id', '==', userId).get();
+      await Promise.all(invitations.docs.map(doc => doc.ref.delete()));
+      removed.user_invitations = invitations.size;
+
+      await db.collection('user_mfa').doc(userId).delete();
+      await db.collection('users').doc(userId).delete();
+
+      const bucketName = process.env.FIREBASE_STORAGE_BUCKET || process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET;
+      if (bucketName) {
+        for (const prefix of USER_STORAGE_PREFIXES) {
+          try {
+            await getStorage().bucket(bucketName).deleteFiles({ prefix: `${prefix}/${userId}/` });
+          } catch (storageError) {
+            console.error(`⚠️ Failed to delete ${prefix} files for deleted account:`, storageError);
+          }
+        }
+      } else {
+        console.warn('⚠️ No storage bucket configured; uploaded files of deleted accounts are not removed');
+      }
+
+      const { pseudonym, anonymizedEntries } = await AuditService.anonymizeUserEntries(userId, email);
+
+      try {
+        await getAuth().deleteUser(userId);
+      } catch (error) {
+        if (error?.code !== 'auth/user-not-found') throw error;
+      }
+
+      const completedAt = new Date().toISOString();
+      const summary = { ...removed, audit_entries_anonymized: anonymizedEntries };
+
+      // The request record outlives the account as proof of deletion, without contact details
+      const existing = await this.getDeletionStatus(userId);
+      await db.collection(DELETIONS_COLLECTION).doc(userId).set({
+        user_id: userId,
+        email: '',
+        status: 'completed',
+        requested_by: existing?.self_requested ? pseudonym : (existing?.requested_by || deletedBy.userId),
+        requested_by_email: existing?.self_requested ? '' : (existing?.requested_by_email || deletedBy.email || ''),
+        self_requested: Boolean(existing?.self_requested),
+        reason: existing?.reason || '',
+        requested_at: existing?.requested_at || completedAt,
+        scheduled_for: existing?.scheduled_for || completedAt,
+        cancelled_at: null,
+        cancelled_by: null,
+        completed_at: completedAt,
+        pseudonym,
+        summary
+      });
+
+      await AuditService.createLog({
+        user_id: deletedBy.userId,
+        user_email: deletedBy.email,
+        action: 'ACCOUNT_DELETED',
+        resource_type: 'USER',
+        resource_id: pseudonym,
+        details: { scheduled: !deletedBy.userId, ...summary }
+      });
+
+      console.log(`🗑️ Deleted account ${pseudonym}`);
+      return { pseudonym, ...summary };
+    } catch (error) {
+      console.error('❌ Error deleting account:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * The platform must always keep one Super Admin
+   */
+  static async assertNotLastSuperAdmin(userId, role) {
+    if (!SUPER_ADMIN_ROLES.includes(role)) {
+      return;
+    }
+
+    const db = getFirestore();
+    const superAdmins = await db.collection('users').where('role', 'in', SUPER_ADMIN_ROLES).limit(2).get();
+    if (superAdmins.docs.filter(doc => doc.id !== userId).length === 0) {
+      throw deletionError('LAST_SUPER_ADMIN', 'The last Super Admin account cannot be deleted');
+    }
+  }
+}
+
+AccountDataService.DELETION_GRACE_PERIOD_DAYS = DELETION_GRACE_PERIOD_DAYS;
+
+module.exports = AccountDataService;
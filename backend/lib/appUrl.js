@@ -0,0 +1,13 @@
+const { isSecureRequest } = require('./authCookies');
+
+/**
+ * Public base URL of the app, used for emailed links and OAuth redirect URIs.
+ * NEXT_PUBLIC_APP_URL is preferred so a forged Host header cannot point users
+ * at someone else's site; the request's own host is the development fallback.
+ */
+const getAppBaseUrl = (req) => {
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || `${isSecureRequest(req) ? 'https' : 'http'}://${req.headers.host}`;
+  return baseUrl.replace(/\/$/, '');
+};
+
+module.exports = { getAppBaseUrl };
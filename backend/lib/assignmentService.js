@@ -0,0 +1,819 @@
+const crypto = require('crypto');
+const { getFirestore, getStorage } = require('./firebaseAdmin');
+const FirestoreService = require('./firestoreService');
+const NotificationService = require('./notificationService');
+const QuizService = require('./quizService');
+
+const ASSIGNMENTS_COLLECTION = 'assignments';
+const SUBMISSIONS_COLLECTION = 'assignment_submissions';
+const REVIEWS_COLLECTION = 'assignment_reviews';
+
+const MAX_CRITERIA = 20;
+const MAX_FILES = 5;
+const MAX_PEER_REVIEWS = 5;
+
+// A claimed peer review that is not handed in within this time goes back into the pool
+const REVIEW_CLAIM_HOURS = 48;
+
+// Download URLs issued by Firebase Storage: /v0/b/{bucket}/o/{url-encoded object path}
+const STORAGE_HOST = 'firebasestorage.googleapis.com';
+const STORAGE_URL_PATH = /^\/v0\/b\/([^/]+)\/o\/([^/]+)$/;
+
+const storageBucketName = () => process.env.FIREBASE_STORAGE_BUCKET || process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET || '';
+
+// Written to the lesson's progress document when the submission gets its final grade
+const ASSIGNMENT_PROGRESS_FIELDS = ['assignment_passed', 'assignment_score', 'assignment_graded_at'];
+
+const assignmentError = (code, message) => {
+  const error = new Error(message);
+  error.code = code;
+  return error;
+};
+
+const assignmentIdFor = (courseId, lessonId) => `lesson_${courseId}_${lessonId}`;
+
+const submissionIdFor = (assignmentId, userId) => `${assignmentId}_${userId}`;
+
+const lessonProgressRef = (db, userId, courseId, lessonId) =>
+  db.collection('progress').doc(userId).collection('courses').doc(courseId).collection('lessons').doc(lessonId);
+
+const wholeNumber = (value, fallback, min, max) => {
+  if (value === undefined || value === null || value === '') return fallback;
+  const number = Number(value);
+  return Number.isInteger(number) && number >= min && number <= max ? number : NaN;
+};
+
+const percentageOf = (total, max) => (max > 0 ? Math.round((total / max) * 100) : 0);
+
+const rubricMax = (rubric) => rubric.reduce((sum, criterion) => sum + criterion.max_points, 0);
+
+/**
+ * Rubric scores checked against the criteria: every criterion scored, within its range
+ */
+const scoreRubric = (rubric, scores) => {
+  const given = scores && typeof scores === 'object' ? scores : {};
+  const checked = {};
+
+  for (const criterion of rubric) {
+    const points = Number(given[criterion.id]);
+    if (!Number.isFinite(points) || points < 0 || points > criterion.max_points) {
+      throw assignmentError('INVALID_GRADE', `Score "${criterion.title}" from 0 to ${criterion.max_points}`);
+    }
+    checked[criterion.id] = points;
+  }
+
+  const total = Object.values(checked).reduce((sum, points) => sum + points, 0);
+  const max = rubricMax(rubric);
+  return { scores: checked, total, max, percentage: percentageOf(total, max) };
+};
+
+/**
+ * The object path of a Firebase Storage download URL in our bucket, or null
+ * for any other URL
+ */
+const storagePathOf = (url, bucketName) => {
+  let parsed;
+  try {
+    parsed = new URL(url);
+  } catch (error) {
+    return null;
+  }
+
+  const match = parsed.protocol === 'https:' && parsed.hostname === STORAGE_HOST && !parsed.port
+    ? STORAGE_URL_PATH.exec(parsed.pathname)
+    : null;
+  if (!match || !bucketName || decodeURIComponent(match[1]) !== bucketName) return null;
+
+  try {
+    return decodeURIComponent(match[2]);
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * Files handed in must have been uploaded to the learner's folder for this
+ * lesson (see uploadAssignmentFile in src/lib/firebaseStorage.ts)
+ */
+const normalizeFiles = (files, userId, courseId, lessonId) => {
+  const bucketName = storageBucketName();
+  const folder = `submissions/${userId}/${courseId}/${lessonId}/`;
+  const list = (Array.isArray(files) ? files : []).map(file => {
+    const url = typeof file?.url === 'string' ? file.url : '';
+    return {
+      name: typeof file?.name === 'string' ? file.name.trim().slice(0, 200) : '',
+      url,
+      path: storagePathOf(url, bucketName)
+    };
+  });
+
+  if (list.length === 0 || list.length > MAX_FILES) {
+    throw assignmentError('INVALID_SUBMISSION', `Attach between 1 and ${MAX_FILES} files`);
+  }
+  const inFolder = (path) => typeof path === 'string'
+    && path.startsWith(folder)
+    && path.length > folder.length
+    && !path.slice(folder.length).split('/').some(segment => segment === '' || segment === '.' || segment === '..');
+  if (list.some(file => !file.name || !inFolder(file.path))) {
+    throw assignmentError('INVALID_SUBMISSION', 'Upload your files before submitting');
+  }
+
+  return list;
+};
+
+/**
+ * Pin each file to the object generation stored now, with its real size and
+ * type; uploads cannot be overwritten, so graders and reviewers see this version
+ */
+const stampFiles = async (files) => {
+  const bucket = getStorage().bucket(storageBucketName());
+  return Promise.all(files.map(async (file) => {
+    let metadata;
+    try {
+      [metadata] = await bucket.file(file.path).getMetadata();
+    } catch (error) {
+      if (error?.code === 404) {
+        throw assignmentError('INVALID_SUBMISSION', 'Upload your files before submitting');
+      }
+      throw error;
+    }
+    return {
+      ...file,
+      generation: String(metadata.generation),
+      size: Number(metadata.size) || 0,
+      content_type: metadata.contentType || ''
+    };
+  }));
+};
+
+/**
+ * Assignments on lessons: learners hand in files, graded against a rubric by
+ * an instructor and, optionally, by anonymous peers.
+ *
+ * One assignment per lesson lives in assignments; each learner has one
+ * submission per assignment in assignment_submissions, resubmittable until it
+ * passes; peer reviews live in assignment_reviews. The final grade is the
+ * instructor's when there is one, else the calibrated peer score once enough
+ * reviews are in. It is written to the lesson's progress, completing the
+ * lesson on a pass, and required assignments gate the certificate.
+ */
+class AssignmentService {
+  static async getAssignment(courseId, lessonId) {
+    try {
+      const doc = await getFirestore().collection(ASSIGNMENTS_COLLECTION).doc(assignmentIdFor(courseId, lessonId)).get();
+      return doc.exists ? { id: doc.id, ...doc.data() } : null;
+    } catch (error) {
+      console.error('❌ Error fetching assignment:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create or replace the assignment on a lesson
+   */
+  static async saveAssignment(courseId, lessonId, input, actor) {
+    try {
+      const title = typeof input?.title === 'string' ? input.title.trim() : '';
+      if (!title) {
+        throw assignmentError('INVALID_ASSIGNMENT', 'Give the assignment a title');
+      }
+
+      const passMark = wholeNumber(input.pass_mark, 50, 0, 100);
+      if (Number.isNaN(passMark)) {
+        throw assignmentError('INVALID_ASSIGNMENT', 'Pass mark must be 0-100%');
+      }
+
+      let dueAt = null;
+      if (input.due_at) {
+        const due = new Date(input.due_at);
+        if (Number.isNaN(due.getTime())) {
+          throw assignmentError('INVALID_ASSIGNMENT', 'Due date is not a valid date');
+        }
+        dueAt = due.toISOString();
+      }
+
+      const rubricInput = Array.isArray(input.rubric) ? input.rubric : [];
+      if (rubricInput.length === 0 || rubricInput.length > MAX_CRITERIA) {
+        throw assignmentError('INVALID_ASSIGNMENT', `The rubric needs between 1 and ${MAX_CRITERIA} criteria`);
+      }
+      const rubric = rubricInput.map((criterion, index) => {
+        const criterionTitle = typeof criterion?.title === 'string' ? criterion.title.trim() : '';
+        const maxPoints = wholeNumber(criterion?.max_points, NaN, 1, 100);
+        if (!criterionTitle || Number.isNaN(maxPoints)) {
+          throw assignmentError('INVALID_ASSIGNMENT', `Criterion ${index + 1} needs a title and 1 to 100 points`);
+        }
+        return {
+          id: typeof criterion.id === 'string' && criterion.id ? criterion.id : `c_${crypto.randomBytes(6).toString('hex')}`,
+          title: criterionTitle,
+          description: typeof criterion.description === 'string' ? criterion.description.trim() : '',
+          max_points: maxPoints
+        };
+      });
+
+      const peerReviewsRequired = input.peer_review_enabled === true
+        ? wholeNumber(input.peer_reviews_required, 3, 1, MAX_PEER_REVIEWS)
+        : 0;
+      if (Number.isNaN(peerReviewsRequired)) {
+        throw assignmentError('INVALID_ASSIGNMENT', `Ask for 1 to ${MAX_PEER_REVIEWS} peer reviews per submission`);
+      }
+
+      const db = getFirestore();
+      const lessonDoc = await db.collection('courses').doc(courseId).collection('lessons').doc(lessonId).get();
+      if (!lessonDoc.exists) {
+        throw assignmentError('CONTENT_NOT_FOUND', 'Lesson not found');
+      }
+
+      const assignmentRef = db.collection(ASSIGNMENTS_COLLECTION).doc(assignmentIdFor(courseId, lessonId));
+      const existing = await assignmentRef.get();
+      const now = new Date().toISOString();
+
+      const assignment = {
+        course_id: courseId,
+        lesson_id: lessonId,
+        title,
+        instructions: typeof input.instructions === 'string' ? input.instructions.trim() : '',
+        due_at: dueAt,
+        allow_late: input.allow_late === true,
+        pass_mark: passMark,
+        required: input.required === true,
+        rubric,
+        peer_review_enabled: peerReviewsRequired > 0,
+        peer_reviews_required: peerReviewsRequired,
+        created_by: existing.exists ? existing.data().created_by : actor.userId,
+        created_at: existing.exists ? existing.data().created_at : now,
+        updated_by: actor.userId,
+        updated_at: now
+      };
+
+      await assignmentRef.set(assignment);
+      return { id: assignmentRef.id, ...assignment };
+    } catch (error) {
+      if (!['INVALID_ASSIGNMENT', 'CONTENT_NOT_FOUND'].includes(error.code)) {
+        console.error('❌ Error saving assignment:', error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Remove an assignment; submissions and reviews stay for the record
+   * @returns {Promise<boolean>} false when there was no assignment
+   */
+  static async deleteAssignment(courseId, lessonId) {
+    try {
+      const assignmentRef = getFirestore().collection(ASSIGNMENTS_COLLECTION).doc(assignmentIdFor(courseId, lessonId));
+      const doc = await assignmentRef.get();
+      if (!doc.exists) return false;
+
+      await assignmentRef.delete();
+      return true;
+    } catch (error) {
+      console.error('❌ Error deleting assignment:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * The learner's own submission with the peer feedback on its current
+   * version; reviewers stay anonymous
+   */
+  static async getLearnerSubmission(userId, assignment) {
+    try {
+      const db = getFirestore();
+      const doc = await db.collection(SUBMISSIONS_COLLECTION).doc(submissionIdFor(assignment.id, userId)).get();
+      if (!doc.exists) return null;
+
+      const submission = doc.data();
+      const reviews = await db.collection(REVIEWS_COLLECTION).where('submission_id', '==', doc.id).get();
+
+      return {
+        id: doc.id,
+        files: submission.files,
+        text: submission.text,
+        version: submission.version,
+        submitted_at: submission.submitted_at,
+        late: submission.late,
+        status: submission.status,
+        final_score: submission.final_score ?? null,
+        grade_source: submission.grade_source || null,
+        passed: submission.passed === true,
+        instructor_grade: submission.instructor_grade
+          ? { scores: submission.instructor_grade.scores, percentage: submission.instructor_grade.percentage, feedback: submission.instructor_grade.feedback }
+          : null,
+        peer_reviews: reviews.docs
+          .map(review => review.data())
+          .filter(review => review.status === 'completed' && review.submission_version === submission.version)
+          .map(review => ({ scores: review.scores, percentage: review.percentage, comment: review.comment }))
+      };
+    } catch (error) {
+      console.error('❌ Error fetching assignment submission:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Hand in (or replace) the learner's files. A new version clears any grade
+   * that has not passed; a passed submission is final.
+   */
+  static async submit(userId, courseId, lessonId, input, learner = {}) {
+    try {
+      const assignment = await this.getAssignment(courseId, lessonId);
+      if (!assignment) {
+        throw assignmentError('ASSIGNMENT_NOT_FOUND', 'Assignment not found');
+      }
+
+      const files = await stampFiles(normalizeFiles(input?.files, userId, courseId, lessonId));
+      const text = typeof input?.text === 'string' ? input.text.trim().slice(0, 5000) : '';
+      const now = new Date();
+      const late = !!assignment.due_at && now > new Date(assignment.due_at);
+      if (late && !assignment.allow_late) {
+        throw assignmentError('PAST_DUE', 'The due date for this assignment has passed');
+      }
+
+      const db = getFirestore();
+      const submissionRef = db.collection(SUBMISSIONS_COLLECTION).doc(submissionIdFor(assignment.id, userId));
+
+      return await db.runTransaction(async (transaction) => {
+        const existing = await transaction.get(submissionRef);
+        const previous = existing.exists ? existing.data() : null;
+        if (previous?.passed) {
+          throw assignmentError('ALREADY_PASSED', 'This assignment has already been passed');
+        }
+
+        const submission = {
+          assignment_id: assignment.id,
+          course_id: courseId,
+          lesson_id: lessonId,
+          user_id: userId,
+          user_email: learner.email || '',
+          user_name: learner.name || '',
+          files,
+          text,
+          version: (previous?.version || 0) + 1,
+          status: 'submitted',
+          late,
+          submitted_at: now.toISOString(),
+          first_submitted_at: previous?.first_submitted_at || now.toISOString(),
+          instructor_grade: null,
+          peer_score: null,
+          peer_reviews_completed: 0,
+          final_score: null,
+          grade_source: null,
+          passed: false,
+          graded_at: null
+        };
+        transaction.set(submissionRef, submission);
+
+        return { id: submissionRef.id, ...submission };
+      });
+    } catch (error) {
+      if (!['ASSIGNMENT_NOT_FOUND', 'INVALID_SUBMISSION', 'PAST_DUE', 'ALREADY_PASSED'].includes(error.code)) {
+        console.error('❌ Error submitting assignment:', error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Give the learner someone else's submission to review: their open claim if
+   * they have one, else the submission with the fewest reviews so far. Only
+   * learners who have submitted themselves can review.
+   * @returns {Promise<object | null>} the review task, or null when nothing needs reviewing
+   */
+  static async claimPeerReview(userId, courseId, lessonId) {
+    try {
+      const assignment = await this.getAssignment(courseId, lessonId);
+      if (!assignment || !assignment.peer_review_enabled) {
+        throw assignmentError('ASSIGNMENT_NOT_FOUND', 'This assignment has no peer review');
+      }
+
+      const db = getFirestore();
+      const ownSubmission = await db.collection(SUBMISSIONS_COLLECTION).doc(submissionIdFor(assignment.id, userId)).get();
+      if (!ownSubmission.exists) {
+        throw assignmentError('SUBMISSION_REQUIRED', 'Submit your own work before reviewing others');
+      }
+
+      const reviewsQuery = db.collection(REVIEWS_COLLECTION).where('assignment_id', '==', assignment.id);
+      const submissionsQuery = db.collection(SUBMISSIONS_COLLECTION).where('assignment_id', '==', assignment.id);
+
+      const review = await db.runTransaction(async (transaction) => {
+        const [reviewsSnapshot, submissionsSnapshot] = await Promise.all([
+          transaction.get(reviewsQuery),
+          transaction.get(submissionsQuery)
+        ]);
+        const reviews = reviewsSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }));
+
+        const open = reviews.find(item => item.user_id === userId && item.status === 'assigned');
+        if (open) return open;
+
+        const claimCutoff = Date.now() - REVIEW_CLAIM_HOURS * 60 * 60 * 1000;
+        const alreadyReviewed = new Set(reviews.filter(item => item.user_id === userId).map(item => item.submission_id));
+        const candidates = submissionsSnapshot.docs
+          .map(doc => ({ id: doc.id, ...doc.data() }))
+          .filter(submission => submission.user_id !== userId && submission.status === 'submitted' && !alreadyReviewed.has(submission.id))
+          .map(submission => ({
+            submission,
+            load: reviews.filter(item => item.submission_id === submission.id
+              && item.submission_version === submission.version
+              && (item.status === 'completed' || new Date(item.claimed_at).getTime() > claimCutoff)).length
+          }))
+          .filter(candidate => candidate.load < assignment.peer_reviews_required)
+          .sort((a, b) => a.load - b.load || a.submission.submitted_at.localeCompare(b.submission.submitted_at));
+
+        if (candidates.length === 0) return null;
+
+        const target = candidates[0].submission;
+        const created = {
+          assignment_id: assignment.id,
+          course_id: courseId,
+          lesson_id: lessonId,
+          submission_id: target.id,
+          submission_version: target.version,
+          user_id: userId,
+          status: 'assigned',
+          claimed_at: new Date().toISOString()
+        };
+        const reviewRef = db.collection(REVIEWS_COLLECTION).doc();
+        transaction.set(reviewRef, created);
+        return { id: reviewRef.id, ...created };
+      });
+
+      if (!review) return null;
+
+      const target = await db.collection(SUBMISSIONS_COLLECTION).doc(review.submission_id).get();
+      return {
+        review_id: review.id,
+        claimed_at: review.claimed_at,
+        rubric: assignment.rubric,
+        // Who handed it in is not shown to the reviewer: storage paths carry the author's id,
+        // so files are only offered through the review's own download route
+        submission: {
+          files: (target.data().files || []).map((file, index) => ({
+            name: file.name,
+            size: file.size,
+            content_type: file.content_type,
+            url: `/api/courses/${encodeURIComponent(courseId)}/assignment/peer-reviews/${review.id}/files/${index}`
+          })),
+          text: target.data().text,
+          submitted_at: target.data().submitted_at
+        }
+      };
+    } catch (error) {
+      if (!['ASSIGNMENT_NOT_FOUND', 'SUBMISSION_REQUIRED'].includes(error.code)) {
+        console.error('❌ Error claiming peer review:', error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * One file of the submission a peer review is about, at the generation that
+   * was handed in, for the reviewer who claimed it
+   * @returns {Promise<{ name: string, content_type: string, size: number, file: object }>} file is a Storage file to stream
+   */
+  static async getPeerReviewFile(userId, courseId, reviewId, index) {
+    try {
+      const db = getFirestore();
+      const reviewDoc = await db.collection(REVIEWS_COLLECTION).doc(reviewId).get();
+      if (!reviewDoc.exists || reviewDoc.data().user_id !== userId || reviewDoc.data().course_id !== courseId) {
+        throw assignmentError('REVIEW_NOT_FOUND', 'Peer review not found');
+      }
+
+      const review = reviewDoc.data();
+      const submissionDoc = await db.collection(SUBMISSIONS_COLLECTION).doc(review.submission_id).get();
+      // A newer version replaced the work this review was claimed for
+      if (!submissionDoc.exists || submissionDoc.data().version !== review.submission_version) {
+        throw assignmentError('REVIEW_NOT_FOUND', 'This submission has been replaced');
+      }
+
+      const stored = (submissionDoc.data().files || [])[index];
+      if (!stored?.path || !stored.generation) {
+        throw assignmentError('FILE_NOT_FOUND', 'File not found');
+      }
+
+      return {
+        name: stored.name,
+        content_type: stored.content_type || 'application/octet-stream',
+        size: stored.size,
+        file: getStorage().bucket(storageBucketName()).file(stored.path, { generation: stored.generation })
+      };
+    } catch (error) {
+      if (!['REVIEW_NOT_FOUND', 'FILE_NOT_FOUND'].includes(error.code)) {
+        console.error('❌ Error fetching peer review file:', error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Score a claimed submission against the rubric, then refresh that
+   * submission's calibrated peer score
+   */
+  static async submitPeerReview(userId, courseId, reviewId, input) {
+    try {
+      const db = getFirestore();
+      const reviewRef = db.collection(REVIEWS_COLLECTION).doc(reviewId);
+      const reviewDoc = await reviewRef.get();
+      if (!reviewDoc.exists || reviewDoc.data().user_id !== userId || reviewDoc.data().course_id !== courseId) {
+        throw assignmentError('REVIEW_NOT_FOUND', 'Peer review not found');
+      }
+
+      const review = reviewDoc.data();
+      if (review.status !== 'assigned') {
+        throw assignmentError('REVIEW_SUBMITTED', 'This review has already been handed in');
+      }
+
+      const assignmentDoc = await db.collection(ASSIGNMENTS_COLLECTION).doc(review.assignment_id).get();
+      if (!assignmentDoc.exists) {
+        throw assignmentError('ASSIGNMENT_NOT_FOUND', 'Assignment not found');
+      }
+
+      const graded = scoreRubric(assignmentDoc.data().rubric, input?.scores);
+      await reviewRef.update({
+        status: 'completed',
+        scores: graded.scores,
+        total: graded.total,
+        max: graded.max,
+        percentage: graded.percentage,
+        comment: typeof input?.comment === 'string' ? input.comment.trim().slice(0, 2000) : '',
+        completed_at: new Date().toISOString()
+      });
+
+      await this.refreshGrade(review.submission_id);
+      return { review_id: reviewId, percentage: graded.percentage };
+    } catch (error) {
+      if (!['REVIEW_NOT_FOUND', 'REVIEW_SUBMITTED', 'ASSIGNMENT_NOT_FOUND', 'INVALID_GRADE'].includes(error.code)) {
+        console.error('❌ Error submitting peer review:', error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Submissions waiting for an instructor ('pending') or already graded, oldest first
+   */
+  static async listGradingQueue({ status = 'pending', courseId } = {}) {
+    try {
+      let query = getFirestore().collection(SUBMISSIONS_COLLECTION)
+        .where('status', '==', status === 'graded' ? 'graded' : 'submitted');
+      if (courseId) {
+        query = query.where('course_id', '==', courseId);
+      }
+
+      const snapshot = await query.orderBy('submitted_at', 'asc').limit(200).get();
+      return snapshot.docs.map(doc => {
+        const submission = doc.data();
+        return {
+          id: doc.id,
+          assignment_id: submission.assignment_id,
+          course_id: submission.course_id,
+          lesson_id: submission.lesson_id,
+          user_id: submission.user_id,
+          user_email: submission.user_email,
+          user_name: submission.user_name,
+          version: submission.version,
+          submitted_at: submission.submitted_at,
+          late: submission.late,
+          peer_reviews_completed: submission.peer_reviews_completed || 0,
+          peer_score: submission.peer_score ?? null,
+          final_score: submission.final_score ?? null,
+          grade_source: submission.grade_source || null,
+          passed: submission.passed === true
+        };
+      });
+    } catch (error) {
+      console.error('❌ Error fetching grading queue:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * A submission as the grader sees it, with its assignment and peer reviews
+   */
+  static async getSubmissionForGrading(submissionId) {
+    try {
+      const db = getFirestore();
+      const doc = await db.collection(SUBMISSIONS_COLLECTION).doc(submissionId).get();
+      if (!doc.exists) return null;
+
+      const submission = { id: doc.id, ...doc.data() };
+      const [assignmentDoc, reviews] = await Promise.all([
+        db.collection(ASSIGNMENTS_COLLECTION).doc(submission.assignment_id).get(),
+        db.collection(REVIEWS_COLLECTION).where('submission_id', '==', submissionId).get()
+      ]);
+
+      return {
+        submission,
+        assignment: assignmentDoc.exists ? { id: assignmentDoc.id, ...assignmentDoc.data() } : null,
+        peer_reviews: reviews.docs
+          .map(review => ({ id: review.id, ...review.data() }))
+          .filter(review => review.status === 'completed' && review.submission_version === submission.version)
+      };
+    } catch (error) {
+      console.error('❌ Error fetching submission:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Instructor grade against the rubric; it takes precedence over peer scores
+   */
+  static async gradeSubmission(submissionId, input, actor) {
+    try {
+      const db = getFirestore();
+      const submissionRef = db.collection(SUBMISSIONS_COLLECTION).doc(submissionId);
+      const doc = await submissionRef.get();
+      if (!doc.exists) {
+        throw assignmentError('SUBMISSION_NOT_FOUND', 'Submission not found');
+      }
+
+      const assignmentDoc = await db.collection(ASSIGNMENTS_COLLECTION).doc(doc.data().assignment_id).get();
+      if (!assignmentDoc.exists) {
+        throw assignmentError('ASSIGNMENT_NOT_FOUND', 'Assignment not found');
+      }
+
+      const graded = scoreRubric(assignmentDoc.data().rubric, input?.scores);
+      await submissionRef.update({
+        instructor_grade: {
+          ...graded,
+          feedback: typeof input?.feedback === 'string' ? input.feedback.trim().slice(0, 5000) : '',
+          graded_by: actor.userId,
+          graded_by_email: actor.email || '',
+          graded_at: new Date().toISOString()
+        }
+      });
+
+      return await this.refreshGrade(submissionId);
+    } catch (error) {
+      if (!['SUBMISSION_NOT_FOUND', 'ASSIGNMENT_NOT_FOUND', 'INVALID_GRADE'].includes(error.code)) {
+        console.error('❌ Error grading submission:', error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Peer score with each reviewer's habitual leniency or harshness taken out.
+   * A reviewer's bias is how far their scores sat above or below the
+   * instructor's on other submissions both graded; reviewers with no such
+   * overlap count as unbiased.
+   * @param {Map<string, number>} instructorScores instructor percentage by submission id
+   * @returns {number|null} null when there are no reviews
+   */
+  static calibratedScore(reviews, allReviews, instructorScores) {
+    if (reviews.length === 0) return null;
+
+    const adjusted = reviews.map(review => {
+      const deviations = allReviews
+        .filter(other => other.user_id === review.user_id && other.submission_id !== review.submission_id)
+        .filter(other => instructorScores.has(other.submission_id))
+        .map(other => other.percentage - instructorScores.get(other.submission_id));
+      const bias = deviations.length > 0 ? deviations.reduce((sum, value) => sum + value, 0) / deviations.length : 0;
+      return Math.min(100, Math.max(0, review.percentage - bias));
+    });
+
+    return Math.round(adjusted.reduce((sum, value) => sum + value, 0) / adjusted.length);
+  }
+
+  /**
+   * Recompute a submission's peer score and final grade. Once there is a
+   * final grade it goes to the lesson's progress, a pass completes the lesson
+   * (unless a required quiz is still outstanding) and the learner is notified.
+   */
+  static async refreshGrade(submissionId) {
+    try {
+      const db = getFirestore();
+      const submissionRef = db.collection(SUBMISSIONS_COLLECTION).doc(submissionId);
+      const doc = await submissionRef.get();
+      const submission = doc.data();
+
+      const assignmentDoc = await db.collection(ASSIGNMENTS_COLLECTION).doc(submission.assignment_id).get();
+      const assignment = assignmentDoc.data();
+
+      const [reviewsSnapshot, submissionsSnapshot] = await Promise.all([
+        db.collection(REVIEWS_COLLECTION).where('assignment_id', '==', submission.assignment_id).get(),
+        db.collection(SUBMISSIONS_COLLECTION).where('assignment_id', '==', submission.assignment_id).get()
+      ]);
+      const allReviews = reviewsSnapshot.docs.map(review => review.data()).filter(review => review.status === 'completed');
+      const instructorScores = new Map(submissionsSnapshot.docs
+        .filter(other => other.data().instructor_grade)
+        .map(other => [other.id, other.data().instructor_grade.percentage]));
+
+      const ownReviews = allReviews.filter(review => review.submission_id === submissionId && review.submission_version === submission.version);
+      const peerScore = this.calibratedScore(ownReviews, allReviews, instructorScores);
+
+      let finalScore = null;
+      let gradeSource = null;
+      if (submission.instructor_grade) {
+        finalScore = submission.instructor_grade.percentage;
+        gradeSource = 'instructor';
+      } else if (assignment.peer_review_enabled && ownReviews.length >= assignment.peer_reviews_required) {
+        finalScore = peerScore;
+        gradeSource = 'peer';
+      }
+
+      const now = new Date().toISOString();
+      const passed = finalScore !== null && finalScore >= assignment.pass_mark;
+      const update = {
+        peer_score: peerScore,
+        peer_reviews_completed: ownReviews.length,
+        final_score: finalScore,
+        grade_source: gradeSource,
+        passed,
+        status: finalScore !== null ? 'graded' : 'submitted',
+        graded_at: finalScore !== null ? now : null
+      };
+      await submissionRef.update(update);
+
+      if (finalScore !== null && !submission.passed) {
+        await lessonProgressRef(db, submission.user_id, submission.course_id, submission.lesson_id).set({
+          user_id: submission.user_id,
+          course_id: submission.course_id,
+          lesson_id: submission.lesson_id,
+          assignment_passed: passed,
+          assignment_score: finalScore,
+          assignment_graded_at: now,
+          updated_at: now
+        }, { merge: true });
+
+        if (passed && !(await QuizService.getLessonGate(submission.user_id, submission.course_id, submission.lesson_id))) {
+          await FirestoreService.markLessonComplete(submission.user_id, submission.course_id, submission.lesson_id);
+        }
+
+        try {
+          await NotificationService.notifyUser(submission.user_id, {
+            title: `${assignment.title}: ${finalScore}%`,
+            message: passed
+              ? 'Your assignment passed.'
+              : `Your assignment needs ${assignment.pass_mark}% to pass. You can submit a new version.`,
+            type: passed ? 'success' : 'info',
+            category: 'assignments',
+            link: `/course/${submission.course_id}/lesson/${submission.lesson_id}`,
+            data: { submission_id: submissionId, course_id: submission.course_id, lesson_id: submission.lesson_id }
+          });
+        } catch (notifyError) {
+          console.error('⚠️ Failed to notify learner of assignment grade:', notifyError);
+        }
+      }
+
+      return { id: submissionId, ...submission, ...update };
+    } catch (error) {
+      console.error('❌ Error updating assignment grade:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * The required assignment a learner still has to pass before the lesson counts as complete
+   * @returns {Promise<object | null>} null when nothing stands in the way
+   */
+  static async getLessonGate(userId, courseId, lessonId) {
+    try {
+      const assignment = await this.getAssignment(courseId, lessonId);
+      if (!assignment || !assignment.required) return null;
+
+      const progressDoc = await lessonProgressRef(getFirestore(), userId, courseId, lessonId).get();
+      return progressDoc.exists && progressDoc.data().assignment_passed
+        ? null
+        : { assignment_id: assignment.id, title: assignment.title, pass_mark: assignment.pass_mark };
+    } catch (error) {
+      console.error('❌ Error checking lesson assignment gate:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Required assignments in a course the learner has not passed
+   */
+  static async getCertificateGate(userId, courseId) {
+    try {
+      const db = getFirestore();
+      const snapshot = await db.collection(ASSIGNMENTS_COLLECTION)
+        .where('course_id', '==', courseId)
+        .where('required', '==', true)
+        .get();
+
+      const outstanding = [];
+      for (const doc of snapshot.docs) {
+        const assignment = doc.data();
+        const progressDoc = await lessonProgressRef(db, userId, courseId, assignment.lesson_id).get();
+        if (!progressDoc.exists || !progressDoc.data().assignment_passed) {
+          outstanding.push({ assignment_id: doc.id, lesson_id: assignment.lesson_id, title: assignment.title, pass_mark: assignment.pass_mark });
+        }
+      }
+
+      return outstanding;
+    } catch (error) {
+      console.error('❌ Error checking certificate assignment gate:', error);
+      throw error;
+    }
+  }
+}
+
+AssignmentService.ASSIGNMENTS_COLLECTION = ASSIGNMENTS_COLLECTION;
+AssignmentService.SUBMISSIONS_COLLECTION = SUBMISSIONS_COLLECTION;
+AssignmentService.REVIEWS_COLLECTION = REVIEWS_COLLECTION;
+AssignmentService.MAX_FILES = MAX_FILES;
+AssignmentService.ASSIGNMENT_PROGRESS_FIELDS = ASSIGNMENT_PROGRESS_FIELDS;
+
+module.exports = AssignmentService;
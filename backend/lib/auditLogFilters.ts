@@ -0,0 +1,24 @@
+import { NextApiRequest } from 'next';
+
+/**
+ * Audit log filters shared by /api/audit-logs and /api/audit-logs/export,
+ * in the shape AuditService.queryLogs expects. Accepts the legacy `userId` too.
+ */
+export const readAuditLogFilters = (query: NextApiRequest['query']) => {
+  const value = (key: string) => (typeof query[key] === 'string' && query[key] ? query[key] as string : undefined);
+
+  return {
+    action: value('action'),
+    resource_type: value('resource_type'),
+    user_id: value('user_id') || value('userId'),
+    start_date: value('start_date'),
+    end_date: value('end_date')
+  };
+};
+
+export const invalidDateFilter = (filters: ReturnType<typeof readAuditLogFilters>): string | null => {
+  const invalid = (['start_date', 'end_date'] as const).find(key =>
+    filters[key] && Number.isNaN(new Date(filters[key] as string).getTime())
+  );
+  return invalid ? `Invalid ${invalid.replace('_', ' ')}` : null;
+};
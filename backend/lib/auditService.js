@@ -1,26 +1,126 @@
+const crypto = require('crypto');
 const { getFirestore } = require('./firebaseAdmin');
 const admin = require('firebase-admin');
+const { resolveClientIp } = require('../../src/lib/clientIp');
+
+// Heads of the hash chain shards: { shard, sequence, hash, log_id } of each shard's newest entry
+const CHAIN_COLLECTION = 'system_settings';
+const CHAIN_HEAD_DOC = 'audit_chain';
+
+// Every write updates its shard's head in a transaction, and a single document only takes
+// about one sustained write a second, so entries are spread over independent chains. Shard 0
+// continues the original chain (head `audit_chain`, entries without chain_shard). The count
+// can be raised but never lowered, or the heads of the dropped shards stop being checked.
+const CHAIN_SHARDS = 16;
+
+// prev_hash of the first entry
+const GENESIS_HASH = '0'.repeat(64);
+
+// Entries are read back in pages of this size when verifying
+const VERIFY_PAGE_SIZE = 500;
+
+// Largest page queryLogs will return
+const MAX_QUERY_LIMIT = 1000;
+
+// Anonymised entries are confirmed by AUDIT_ENTRIES_ANONYMIZED entries listing this many at a time
+const ANONYMIZE_CONFIRM_BATCH = 200;
+
+// Equality filters accepted by queryLogs; every combination of them is backed by a
+// (fields..., created_at desc) index in firestore.indexes.json
+const EQUALITY_FILTERS = ['action', 'resource_type', 'user_id'];
+
+// Fields covered by an entry's hash; `timestamp` is set by the server and is not
+const HASHED_FIELDS = [
+  'sequence', 'prev_hash', 'source', 'user_id', 'user_email', 'action', 'resource_type',
+  'resource_id', 'details', 'ip_address', 'user_agent', 'created_at'
+];
+
+// Entries are HMAC'd with a key that never touches Firestore, so database access alone
+// cannot rewrite an entry and recompute the chain; a dedicated env var or the JWT secret
+const CHAIN_KEY = process.env.AUDIT_CHAIN_SECRET || process.env.JWT_SECRET || 'dev-secret-key-change-in-production';
+
+// Actions clients may report through POST /api/audit-logs: lower snake case, and none the server writes itself.
+// Upper-case actions (LOGIN, MFA_ENABLED, AUDIT_ENTRIES_ANONYMIZED, ...) are all system actions.
+const CLIENT_ACTION_PATTERN = /^[a-z][a-z0-9_]{1,63}$/;
+const SERVER_ACTIONS = new Set([
+  'permissions_changed', 'session_family_revoked',
+  'create', 'update', 'delete', 'complete', 'submit', 'assign', 'publish',
+  'quiz_saved', 'quiz_submitted', 'quiz_deleted',
+  'assignment_saved', 'assignment_submitted', 'assignment_graded', 'assignment_deleted', 'peer_review_submitted',
+  'draft_discarded', 'version_published', 'rolled_back',
+  'schedule_updated', 'schedule_cancelled', 'workflow_reviewer_assigned'
+]);
+
+// JSON with object keys sorted, so the same entry always hashes the same way
+const canonicalize = (value) => {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalize).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${canonicalize(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value === undefined ? null : value);
+};
+
+const chainHeadDocFor = (shard) => (shard === 0 ? CHAIN_HEAD_DOC : `${CHAIN_HEAD_DOC}_${shard}`);
+
+// Entries chained before sharding have no chain_shard and belong to shard 0
+const shardOf = (entry) => (typeof entry.chain_shard === 'number' ? entry.chain_shard : 0);
+
+// Stable stand-in for a deleted user's id, so their entries can still be grouped
+const pseudonymFor = (userId) => `deleted:${crypto.createHash('sha256').update(String(userId)).digest('hex').slice(0, 16)}`;
 
 class AuditService {
   /**
-   * Create an audit log entry
+   * Create an audit log entry.
+   * Entries form hash chains: each goes to a random shard and carries its
+   * sequence number there, the previous entry's hash and its own hash, so
+   * edits and deletions show up in verifyChain.
    */
   static async createLog(auditData) {
     try {
       const db = getFirestore();
       const docRef = db.collection('audit_logs').doc();
+      const shard = crypto.randomInt(CHAIN_SHARDS);
+      const headRef = db.collection(CHAIN_COLLECTION).doc(chainHeadDocFor(shard));
 
-      await docRef.set({
+      const entry = {
+        // Only createClientLog writes client-reported entries
+        source: auditData.source === 'client' ? 'client' : 'server',
         user_id: auditData.user_id || '',
         user_email: auditData.user_email || '',
         action: auditData.action || '',
         resource_type: auditData.resource_type || '',
         resource_id: auditData.resource_id || '',
-        details: auditData.details || {},
+        // Round-trip through JSON so what is stored is exactly what was hashed (no Dates or undefined)
+        details: JSON.parse(JSON.stringify(auditData.details || {})),
         ip_address: auditData.ip_address || '',
         user_agent: auditData.user_agent || '',
-        created_at: auditData.created_at || new Date().toISOString(),
-        timestamp: admin.firestore.FieldValue.serverTimestamp()
+        created_at: auditData.created_at || new Date().toISOString()
+      };
+
+      await db.runTransaction(async (transaction) => {
+        const head = await transaction.get(headRef);
+        const sequence = (head.exists ? head.data().sequence : 0) + 1;
+        const chained = {
+          ...entry,
+          chain_shard: shard,
+          sequence,
+          prev_hash: head.exists ? head.data().hash : GENESIS_HASH
+        };
+        chained.hash = this.hashEntry(chained);
+
+        transaction.set(docRef, {
+          ...chained,
+          timestamp: admin.firestore.FieldValue.serverTimestamp()
+        });
+        transaction.set(headRef, {
+          shard,
+          sequence,
+          hash: chained.hash,
+          log_id: docRef.id,
+          updated_at: entry.created_at
+        });
       });
 
       return docRef.id;
@@ -30,10 +130,336 @@ class AuditService {
     }
   }
 
+  /**
+   * Whether a client may report this action: system actions only come from the server
+   */
+  static isClientAction(action) {
+    return typeof action === 'string' && CLIENT_ACTION_PATTERN.test(action) && !SERVER_ACTIONS.has(action);
+  }
+
+  /**
+   * Append an entry reported by a signed-in client (POST /api/audit-logs).
+   * The caller, IP address and user agent come from the request, never the body.
+   */
+  static async createClientLog(req, caller, report) {
+    if (!this.isClientAction(report.action)) {
+      const error = new Error('This action cannot be reported by clients');
+      error.code = 'RESERVED_ACTION';
+      throw error;
+    }
+
+    return this.createLog({
+      source: 'client',
+      user_id: caller.userId,
+      user_email: caller.email || '',
+      action: report.action,
+      resource_type: typeof report.resource_type === 'string' ? report.resource_type : '',
+      resource_id: typeof report.resource_id === 'string' ? report.resource_id : '',
+      details: report.details && typeof report.details === 'object' ? report.details : {},
+      ip_address: this.getClientIp(req),
+      user_agent: this.getUserAgent(req)
+    });
+  }
+
+  /**
+   * Newest-first page of audit entries.
+   * @param {{action?: string, resource_type?: string, user_id?: string, start_date?: string, end_date?: string}} filters -
+   *   dates are ISO timestamps or YYYY-MM-DD (end dates then cover the whole day, UTC)
+   * @param {{limit?: number, cursor?: string}} options - cursor is the id of the last entry of the previous page
+   * @returns {Promise<{logs: object[], nextCursor: string|null}>}
+   */
+  static async queryLogs(filters = {}, { limit = 100, cursor = null } = {}) {
+    try {
+      const db = getFirestore();
+      const pageSize = Math.min(Math.max(parseInt(limit, 10) || 100, 1), MAX_QUERY_LIMIT);
+
+      let query = db.collection('audit_logs');
+      EQUALITY_FILTERS.forEach(field => {
+        if (filters[field]) {
+          query = query.where(field, '==', filters[field]);
+        }
+      });
+
+      if (filters.start_date) {
+        query = query.where('created_at', '>=', new Date(filters.start_date).toISOString());
+      }
+      if (filters.end_date) {
+        const endDate = /^\d{4}-\d{2}-\d{2}$/.test(filters.end_date)
+          ? `${filters.end_date}T23:59:59.999Z`
+          : new Date(filters.end_date).toISOString();
+        query = query.where('created_at', '<=', endDate);
+      }
+
+      query = query.orderBy('created_at', 'desc').limit(pageSize);
+
+      if (cursor) {
+        const cursorDoc = await db.collection('audit_logs').doc(cursor).get();
+        if (!cursorDoc.exists) {
+          throw new Error('Invalid cursor');
+        }
+        query = query.startAfter(cursorDoc);
+      }
+
+      const snapshot = await query.get();
+      const logs = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }));
+
+      return {
+        logs,
+        nextCursor: snapshot.size === pageSize ? snapshot.docs[snapshot.size - 1].id : null
+      };
+    } catch (error) {
+      console.error('❌ Error querying audit logs:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * HMAC-SHA256 over the hashed fields of an entry, keyed with AUDIT_CHAIN_SECRET
+   */
+  static hashEntry(entry) {
+    const hashed = {};
+    HASHED_FIELDS.forEach(field => {
+      hashed[field] = entry[field] === undefined ? null : entry[field];
+    });
+    // Left out when absent, so entries chained before sharding keep their hashes
+    if (entry.chain_shard !== undefined) {
+      hashed.chain_shard = entry.chain_shard;
+    }
+    return crypto.createHmac('sha256', CHAIN_KEY).update(canonicalize(hashed)).digest('hex');
+  }
+
+  /**
+   * Walk every chain shard from its first entry and report the first broken link.
+   * Entries written before chaining was introduced have no sequence and are not checked.
+   * @returns {Promise<{valid: boolean, checkedEntries: number, heads: {shard: number, sequence: number, hash: string|null}[], firstBrokenLink: object|null, verifiedAt: string}>}
+   */
+  static async verifyChain() {
+    try {
+      const db = getFirestore();
+
+      // Entries come back in sequence order across all shards; each shard is followed on its own
+      const shards = new Map();
+      const stateOf = (shard) => {
+        if (!shards.has(shard)) {
+          shards.set(shard, { expectedSequence: 1, previousHash: GENESIS_HASH });
+        }
+        return shards.get(shard);
+      };
+
+      let checkedEntries = 0;
+      let firstBrokenLink = null;
+      let lastDoc = null;
+      let snapshot;
+      // Anonymised entries, and the rewrites vouched for by AUDIT_ENTRIES_ANONYMIZED entries, by `${shard}:${sequence}`
+      const pendingAnonymized = new Map();
+      const confirmedAnonymized = new Map();
+
+      const broken = (shard, sequence, logId, reason, message) => ({ shard, sequence, logId, reason, message });
+
+      do {
+        let query = db.collection('audit_logs').orderBy('sequence', 'asc').limit(VERIFY_PAGE_SIZE);
+        if (lastDoc) {
+          query = query.startAfter(lastDoc);
+        }
+
+        snapshot = await query.get();
+
+        for (const doc of snapshot.docs) {
+          const data = doc.data();
+          const shard = shardOf(data);
+          const state = stateOf(shard);
+          const label = `Entry ${data.sequence} of shard ${shard}`;
+
+          if (data.sequence !== state.expectedSequence) {
+            firstBrokenLink = data.sequence > state.expectedSequence
+              ? broken(shard, state.expectedSequence, null, 'missing_entry', `Entry ${state.expectedSequence} of shard ${shard} is missing`)
+              : broken(shard, data.sequence, doc.id, 'duplicate_sequence', `${label} appears more than once`);
+          } else if (data.prev_hash !== state.previousHash) {
+            firstBrokenLink = broken(shard, data.sequence, doc.id, 'prev_hash_mismatch', `${label} does not link to entry ${data.sequence - 1}`);
+          } else if (data.anonymized) {
+            // The original hash still links the chain; the scrubbed content is checked against
+            // the hash recorded for it, which an AUDIT_ENTRIES_ANONYMIZED entry must confirm
+            if (this.hashEntry(data) !== data.anonymized.content_hash) {
+              firstBrokenLink = broken(shard, data.sequence, doc.id, 'hash_mismatch', `${label} was modified after it was anonymised`);
+            } else {
+              pendingAnonymized.set(`${shard}:${data.sequence}`, { shard, sequence: data.sequence, logId: doc.id, contentHash: data.anonymized.content_hash });
+            }
+          } else if (this.hashEntry(data) !== data.hash) {
+            firstBrokenLink = broken(shard, data.sequence, doc.id, 'hash_mismatch', `${label} was modified after it was written`);
+          }
+
+          if (firstBrokenLink) break;
+
+          // Only the server's own markers vouch for rewritten entries
+          if (data.action === 'AUDIT_ENTRIES_ANONYMIZED' && data.source === 'server') {
+            (data.details?.entries || []).forEach(({ chain_shard, sequence, content_hash }) => {
+              confirmedAnonymized.set(`${typeof chain_shard === 'number' ? chain_shard : 0}:${sequence}`, content_hash);
+            });
+          }
+
+          state.previousHash = data.hash;
+          state.expectedSequence++;
+          checkedEntries++;
+        }
+
+        lastDoc = snapshot.docs[snapshot.docs.length - 1];
+      } while (!firstBrokenLink && snapshot.size === VERIFY_PAGE_SIZE);
+
+      if (!firstBrokenLink) {
+        const unconfirmed = [...pendingAnonymized.entries()]
+          .filter(([key, { contentHash }]) => confirmedAnonymized.get(key) !== contentHash)
+          .map(([, pending]) => pending)
+          .sort((a, b) => a.shard - b.shard || a.sequence - b.sequence);
+        if (unconfirmed.length > 0) {
+          const { shard, sequence, logId } = unconfirmed[0];
+          firstBrokenLink = broken(shard, sequence, logId, 'unconfirmed_anonymization', `Entry ${sequence} of shard ${shard} was rewritten without a matching anonymisation record`);
+        }
+      }
+
+      // Entries removed from the end of a shard leave its head pointing past the last one found
+      const shardIds = [...new Set([...Array.from({ length: CHAIN_SHARDS }, (_, shard) => shard), ...shards.keys()])].sort((a, b) => a - b);
+      const headDocs = await Promise.all(shardIds.map(shard => db.collection(CHAIN_COLLECTION).doc(chainHeadDocFor(shard)).get()));
+      const heads = [];
+
+      shardIds.forEach((shard, index) => {
+        const head = headDocs[index];
+        const headData = head.exists ? head.data() : { sequence: 0, hash: GENESIS_HASH };
+        const { expectedSequence, previousHash } = stateOf(shard);
+
+        if (head.exists) {
+          heads.push({ shard, sequence: headData.sequence, hash: headData.hash });
+        }
+
+        if (!firstBrokenLink && (headData.sequence !== expectedSequence - 1 || headData.hash !== previousHash)) {
+          const missing = headData.sequence > expectedSequence - 1;
+          firstBrokenLink = broken(
+            shard,
+            expectedSequence,
+            null,
+            missing ? 'missing_entry' : 'head_mismatch',
+            missing
+              ? `Entries ${expectedSequence} to ${headData.sequence} of shard ${shard} are missing`
+              : `The head of shard ${shard} does not match its last entry`
+          );
+        }
+      });
+
+      return {
+        valid: !firstBrokenLink,
+        checkedEntries,
+        heads,
+        firstBrokenLink,
+        verifiedAt: new Date().toISOString()
+      };
+    } catch (error) {
+      console.error('❌ Error verifying audit chain:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Strip a deleted user's personal data from the audit trail without breaking it.
+   * Entries by or about the user get a pseudonymous id and lose email, IP and user
+   * agent; each keeps its original hash (so the chain still links) and records the
+   * hash of its scrubbed content. AUDIT_ENTRIES_ANONYMIZED entries, chained like any
+   * other, list the rewritten shards and sequences so verifyChain can tell this apart from tampering.
+   * @returns {Promise<{pseudonym: string, anonymizedEntries: number}>}
+   */
+  static async anonymizeUserEntries(userId, userEmail) {
+    try {
+      const db = getFirestore();
+      const pseudonym = pseudonymFor(userId);
+      const anonymizedAt = new Date().toISOString();
+
+      const [byUser, aboutUser] = await Promise.all([
+        db.collection('audit_logs').where('user_id', '==', userId).get(),
+        db.collection('audit_logs').where('resource_id', '==', userId).get()
+      ]);
+      const docs = new Map();
+      [...byUser.docs, ...aboutUser.docs].forEach(doc => docs.set(doc.id, doc));
+
+      const scrub = (value) => {
+        let text = JSON.stringify(value).split(userId).join(pseudonym);
+        if (userEmail) {
+          text = text.replace(new RegExp(userEmail.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'gi'), '[deleted]');
+        }
+        return JSON.parse(text);
+      };
+
+      const rewrites = [];
+      docs.forEach(doc => {
+        const data = doc.data();
+        const ownEntry = data.user_id === userId;
+        const scrubbed = {
+          ...data,
+          user_id: ownEntry ? pseudonym : data.user_id,
+          user_email: ownEntry ? '' : data.user_email,
+          ip_address: ownEntry ? '' : data.ip_address,
+          user_agent: ownEntry ? '' : data.user_agent,
+          resource_id: data.resource_id === userId ? pseudonym : data.resource_id,
+          details: scrub(data.details || {})
+        };
+        const update = {
+          user_id: scrubbed.user_id,
+          user_email: scrubbed.user_email,
+          ip_address: scrubbed.ip_address,
+          user_agent: scrubbed.user_agent,
+          resource_id: scrubbed.resource_id,
+          details: scrubbed.details,
+          anonymized: { at: anonymizedAt, content_hash: this.hashEntry(scrubbed) }
+        };
+        // Entries without a sequence predate chaining and are simply rewritten
+        rewrites.push({ ref: doc.ref, shard: shardOf(data), sequence: data.sequence, update });
+      });
+
+      const chained = rewrites.filter(rewrite => typeof rewrite.sequence === 'number');
+      const parts = Math.ceil(chained.length / ANONYMIZE_CONFIRM_BATCH);
+
+      // Confirmations are written first: if the rewrite stops part way, the untouched entries still verify as they are
+      for (let i = 0; i < parts; i++) {
+        const slice = chained.slice(i * ANONYMIZE_CONFIRM_BATCH, (i + 1) * ANONYMIZE_CONFIRM_BATCH);
+        await this.createLog({
+          action: 'AUDIT_ENTRIES_ANONYMIZED',
+          resource_type: 'USER',
+          resource_id: pseudonym,
+          details: {
+            part: i + 1,
+            parts,
+            entries: slice.map(({ shard, sequence, update }) => ({ chain_shard: shard, sequence, content_hash: update.anonymized.content_hash }))
+          },
+          created_at: anonymizedAt
+        });
+      }
+
+      for (let i = 0; i < rewrites.length; i += 400) {
+        const batch = db.batch();
+        rewrites.slice(i, i + 400).forEach(({ ref, update }) => batch.update(ref, update));
+        await batch.commit();
+      }
+
+      const events = await db.collection('security_events').where('user_id', '==', userId).get();
+      for (let i = 0; i < events.docs.length; i += 400) {
+        const batch = db.batch();
+        events.docs.slice(i, i + 400).forEach(doc => batch.update(doc.ref, {
+          user_id: pseudonym,
+          ip_address: '',
+          user_agent: '',
+          details: scrub(doc.data().details || {})
+        }));
+        await batch.commit();
+      }
+
+      return { pseudonym, anonymizedEntries: rewrites.length };
+    } catch (error) {
+      console.error('❌ Error anonymising audit entries:', error);
+      throw error;
+    }
+  }
+
   /**
    * Log a login attempt
    */
-  static async logLogin(userId, userEmail, success, ipAddress, userAgent, failureReason = null) {
+  static async logLogin(userId, userEmail, success, ipAddress, userAgent, failureReason = null, method = 'email_password') {
     return this.createLog({
       user_id: userId || '',
       user_email: userEmail || '',
@@ -42,13 +468,91 @@ class AuditService {
       details: {
         success,
         failure_reason: failureReason,
-        method: 'email_password'
+        method
       },
       ip_address: ipAddress,
       user_agent: userAgent
     });
   }
 
+  /**
+   * Log a two-factor authentication event (enrolment, verification, recovery codes)
+   */
+  static async logMfaEvent(action, userId, userEmail, details, ipAddress, userAgent) {
+    return this.createLog({
+      user_id: userId || '',
+      user_email: userEmail || '',
+      action,
+      resource_type: 'AUTH',
+      details: details || {},
+      ip_address: ipAddress,
+      user_agent: userAgent
+    });
+  }
+
+  /**
+   * Log a password reset request or completion
+   */
+  static async logPasswordReset(action, userId, userEmail, details, ipAddress, userAgent) {
+    return this.createLog({
+      user_id: userId || '',
+      user_email: userEmail || '',
+      action,
+      resource_type: 'AUTH',
+      details: details || {},
+      ip_address: ipAddress,
+      user_agent: userAgent
+    });
+  }
+
+  /**
+   * Log a data export or deletion request for an account (by its owner or an administrator)
+   */
+  static async logAccountDataAction(action, userId, userEmail, targetUserId, details, ipAddress, userAgent) {
+    return this.createLog({
+      user_id: userId || '',
+      user_email: userEmail || '',
+      action,
+      resource_type: 'USER',
+      resource_id: targetUserId,
+      details: details || {},
+      ip_address: ipAddress,
+      user_agent: userAgent
+    });
+  }
+
+  /**
+   * Log an invitation being sent, resent, revoked or accepted
+   */
+  static async logInvitationAction(action, userId, userEmail, invitationId, details, ipAddress, userAgent) {
+    return this.createLog({
+      user_id: userId || '',
+      user_email: userEmail || '',
+      action,
+      resource_type: 'INVITATION',
+      resource_id: invitationId,
+      details: details || {},
+      ip_address: ipAddress,
+      user_agent: userAgent
+    });
+  }
+
+  /**
+   * Log a learning path being created, updated or deleted
+   */
+  static async logLearningPathAction(action, userId, userEmail, pathId, details, ipAddress, userAgent) {
+    return this.createLog({
+      user_id: userId || '',
+      user_email: userEmail || '',
+      action,
+      resource_type: 'LEARNING_PATH',
+      resource_id: pathId,
+      details: details || {},
+      ip_address: ipAddress,
+      user_agent: userAgent
+    });
+  }
+
   /**
    * Log a logout
    */
@@ -64,6 +568,51 @@ class AuditService {
     });
   }
 
+  /**
+   * Log a change to a user's effective permissions (same details shape as logPermissionChange in src/utils/auditLogger.ts)
+   */
+  static async logPermissionChange(adminUserId, adminEmail, targetUserId, oldPermissions, newPermissions, ipAddress, userAgent, details = {}) {
+    return this.createLog({
+      user_id: adminUserId,
+      user_email: adminEmail,
+      action: 'permissions_changed',
+      resource_type: 'user',
+      resource_id: targetUserId,
+      details: {
+        target_user_id: targetUserId,
+        old_permissions: oldPermissions,
+        new_permissions: newPermissions,
+        added_permissions: newPermissions.filter(p => !oldPermissions.includes(p)),
+        removed_permissions: oldPermissions.filter(p => !newPermissions.includes(p)),
+        ...details
+      },
+      ip_address: ipAddress,
+      user_agent: userAgent
+    });
+  }
+
+  /**
+   * Log an impersonation event under the support agent's own identity
+   * @param {{ userId: string, email: string }} impersonator
+   * @param {{ userId: string, email: string }} target - The user being viewed
+   */
+  static async logImpersonation(action, impersonator, target, details, ipAddress, userAgent) {
+    return this.createLog({
+      user_id: impersonator.userId,
+      user_email: impersonator.email,
+      action,
+      resource_type: 'user',
+      resource_id: target.userId,
+      details: {
+        impersonated_user_id: target.userId,
+        impersonated_user_email: target.email,
+        ...details
+      },
+      ip_address: ipAddress,
+      user_agent: userAgent
+    });
+  }
+
   /**
    * Log a course action
    */
@@ -142,14 +691,41 @@ class AuditService {
   }
 
   /**
-   * Get client IP from request
+   * Record a security event (security_events collection)
+   * @param {string} severity - LOW | MEDIUM | HIGH | CRITICAL
+   */
+  static async logSecurityEvent(eventType, userId, details, ipAddress, userAgent, severity = 'LOW') {
+    try {
+      const db = getFirestore();
+      const docRef = db.collection('security_events').doc();
+
+      await docRef.set({
+        user_id: userId || '',
+        event_type: eventType,
+        ip_address: ipAddress || '',
+        user_agent: userAgent || '',
+        details: details || {},
+        severity,
+        created_at: new Date().toISOString(),
+        timestamp: admin.firestore.FieldValue.serverTimestamp()
+      });
+
+      return docRef.id;
+    } catch (error) {
+      console.error('❌ Error creating security event:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get client IP from request: the platform header or trusted proxy hop (see src/lib/clientIp)
    */
   static getClientIp(req) {
-    const forwarded = req.headers['x-forwarded-for'];
-    return (typeof forwarded === 'string' ? forwarded.split(',')[0] : forwarded) || 
-           req.headers['x-real-ip'] ||
-           req.socket?.remoteAddress ||
-           'unknown';
+    const readHeader = (name) => {
+      const value = req.headers[name];
+      return Array.isArray(value) ? value.join(',') : value;
+    };
+    return resolveClientIp(readHeader, req.socket?.remoteAddress) || 'unknown';
   }
 
   /**
@@ -160,4 +736,6 @@ class AuditService {
   }
 }
 
+AuditService.pseudonymFor = pseudonymFor;
+
 module.exports = AuditService;
@@ -0,0 +1,76 @@
+/**
+ * Auth cookie helpers
+ * Builds the Set-Cookie values for the access token (app_user) and the
+ * rotating refresh token (app_refresh) so every auth route uses the same attributes.
+ */
+
+const ACCESS_COOKIE = 'app_user';
+const REFRESH_COOKIE = 'app_refresh';
+// The refresh token is only ever needed by /api/auth/* routes
+const REFRESH_COOKIE_PATH = '/api/auth';
+// Carries state, nonce and PKCE verifier between the SSO start and callback routes
+const SSO_STATE_COOKIE = 'app_sso';
+const SSO_STATE_COOKIE_PATH = '/api/auth/sso';
+// Random id that tells the sign-in routes whether a browser has been used with an account before
+const DEVICE_COOKIE = 'app_device';
+const DEVICE_COOKIE_PATH = '/api/auth';
+const DEVICE_COOKIE_MAX_AGE = 400 * 24 * 3600; // the longest browsers allow
+
+// Production OR inside Builder.io iframe → must use SameSite=None; Secure
+const isSecureRequest = (req) => {
+  return process.env.NODE_ENV === 'production' ||
+    Boolean(req.headers.host && req.headers.host.includes('fly.dev')) ||
+    req.headers['x-forwarded-proto'] === 'https';
+};
+
+const buildCookie = (name, value, { path, maxAge, httpOnly }, req) => {
+  const secure = isSecureRequest(req);
+  return [
+    `${name}=${value}`,
+    `Path=${path}`,
+    secure ? 'SameSite=None' : 'SameSite=Lax',
+    secure ? 'Secure' : '',
+    // Access cookie must stay readable by document.cookie; the refresh cookie never is
+    httpOnly ? 'HttpOnly' : '',
+    `Max-Age=${maxAge}`
+  ].filter(Boolean).join('; ');
+};
+
+const accessTokenCookie = (token, maxAgeSeconds, req) =>
+  buildCookie(ACCESS_COOKIE, token, { path: '/', maxAge: maxAgeSeconds, httpOnly: false }, req);
+
+const refreshTokenCookie = (token, maxAgeSeconds, req) =>
+  buildCookie(REFRESH_COOKIE, token, { path: REFRESH_COOKIE_PATH, maxAge: maxAgeSeconds, httpOnly: true }, req);
+
+// Drops only the access token, keeping the refresh token (e.g. when impersonation ends)
+const clearedAccessTokenCookie = (req) =>
+  buildCookie(ACCESS_COOKIE, '', { path: '/', maxAge: 0, httpOnly: false }, req);
+
+const ssoStateCookie = (token, maxAgeSeconds, req) =>
+  buildCookie(SSO_STATE_COOKIE, token, { path: SSO_STATE_COOKIE_PATH, maxAge: maxAgeSeconds, httpOnly: true }, req);
+
+const clearedSsoStateCookie = (req) =>
+  buildCookie(SSO_STATE_COOKIE, '', { path: SSO_STATE_COOKIE_PATH, maxAge: 0, httpOnly: true }, req);
+
+const deviceCookie = (deviceId, req) =>
+  buildCookie(DEVICE_COOKIE, deviceId, { path: DEVICE_COOKIE_PATH, maxAge: DEVICE_COOKIE_MAX_AGE, httpOnly: true }, req);
+
+const clearedAuthCookies = (req) => [
+  buildCookie(ACCESS_COOKIE, '', { path: '/', maxAge: 0, httpOnly: false }, req),
+  buildCookie(REFRESH_COOKIE, '', { path: REFRESH_COOKIE_PATH, maxAge: 0, httpOnly: true }, req)
+];
+
+module.exports = {
+  ACCESS_COOKIE,
+  REFRESH_COOKIE,
+  SSO_STATE_COOKIE,
+  DEVICE_COOKIE,
+  isSecureRequest,
+  accessTokenCookie,
+  refreshTokenCookie,
+  clearedAccessTokenCookie,
+  ssoStateCookie,
+  clearedSsoStateCookie,
+  deviceCookie,
+  clearedAuthCookies
+};
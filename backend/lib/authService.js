@@ -1,5 +1,6 @@
 const admin = require('firebase-admin');
 const JWTManager = require('./jwtManager');
+const SessionService = require('./sessionService');
 
 // Initialize Firebase Admin if not already done
 const initFirebaseAdmin = () => {
@@ -80,8 +81,12 @@ class AuthService {
         role: role
       };
 
+      const sessionId = await SessionService.createSession({ userId: userRecord.uid });
+      tokenPayload.sid = sessionId;
+
       const accessToken = JWTManager.createToken(tokenPayload);
-      const refreshToken = JWTManager.createRefreshToken(userRecord.uid);
+      const refreshToken = JWTManager.createRefreshToken(userRecord.uid, sessionId);
+      await SessionService.attachToken(sessionId, refreshToken);
 
       return {
         accessToken,
@@ -144,8 +149,12 @@ class AuthService {
         role
       };
 
+      const sessionId = await SessionService.createSession({ userId: userRecord.uid });
+      tokenPayload.sid = sessionId;
+
       const accessToken = JWTManager.createToken(tokenPayload);
-      const refreshToken = JWTManager.createRefreshToken(userRecord.uid);
+      const refreshToken = JWTManager.createRefreshToken(userRecord.uid, sessionId);
+      await SessionService.attachToken(sessionId, refreshToken);
 
       return {
         accessToken,
@@ -205,11 +214,21 @@ class AuthService {
         email: userRecord.email,
         displayName: userRecord.displayName || '',
         photoURL: userRecord.photoURL || null,
-        role: role
+        role: role,
+        sid: payload.sid
       };
 
+      const newRefreshToken = JWTManager.createRefreshToken(userRecord.uid, payload.sid);
+      const outcome = await SessionService.rotateRefreshToken(payload.sid, refreshToken, newRefreshToken);
+      if (outcome !== 'rotated') {
+        const reasons = {
+          reuse: 'Refresh token reuse detected',
+          idle: 'Session expired after inactivity'
+        };
+        throw new Error(reasons[outcome] || 'Session revoked or expired');
+      }
+
       const newAccessToken = JWTManager.createToken(tokenPayload);
-      const newRefreshToken = JWTManager.createRefreshToken(userRecord.uid);
 
       return {
         accessToken: newAccessToken,
@@ -225,7 +244,7 @@ class AuthService {
   // Verify JWT token and get user data
   static async verifyTokenAndGetUser(token) {
     try {
-      const payload = JWTManager.verifyToken(token);
+      const payload = await JWTManager.verifyToken(token);
 
       const adminApp = initFirebaseAdmin();
       const userRecord = await adminApp.auth().getUser(payload.userId);
@@ -330,11 +349,10 @@ class AuthService {
     }
   }
 
-  // Logout user (invalidate refresh token if stored server-side)
+  // Logout user by revoking all of their server-side sessions
   static async logoutUser(userId) {
     try {
-      // In this implementation, tokens are stateless, so logout is mainly client-side
-      // You could store revoked tokens in a blacklist if needed
+      await SessionService.revokeAllUserSessions(userId, 'logout');
       console.log(`User ${userId} logged out`);
       return { success: true, message: 'Logged out successfully' };
     } catch (error) {
@@ -0,0 +1,475 @@
+const { getFirestore } = require('./firebaseAdmin');
+const FirestoreService = require('./firestoreService');
+const NotificationService = require('./notificationService');
+const LearnLaterService = require('./learnLaterService');
+const ContentWorkflowService = require('./contentWorkflowService');
+const CourseVersionService = require('./courseVersionService');
+
+const SCHEDULES_COLLECTION = 'content_schedules';
+
+const EXPIRE_ACTIONS = ['unpublish', 'archive'];
+
+// Most due schedules processDueSchedules handles in one run
+const SCHEDULE_BATCH_LIMIT = 50;
+
+// A claimed schedule comes due again after this long, so a run that died part way is retried
+const SCHEDULE_CLAIM_LEASE_MS = 10 * 60 * 1000;
+
+// Most schedules listEvents reads per date field, and the widest range it serves
+const SCHEDULE_LIST_LIMIT = 500;
+const MAX_RANGE_DAYS = 100;
+
+// Workflow history and notifications show scheduled changes as made by this actor
+const SCHEDULER_ACTOR = { userId: 'system', email: 'scheduler', name: 'Scheduled publishing', canApproveOwn: false };
+
+const LOCAL_DATE_TIME = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})$/;
+
+const scheduleError = (code, message) => {
+  const error = new Error(message);
+  error.code = code;
+  return error;
+};
+
+const scheduleIdFor = (contentType, courseId, lessonId) => (
+  contentType === 'lesson' ? `lesson_${courseId}_${lessonId}` : `course_${courseId}`
+);
+
+const isValidTimeZone = (timeZone) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+// Milliseconds the zone's wall clock is ahead of UTC at an instant
+const zoneOffsetAt = (instant, timeZone) => {
+  const parts = Object.fromEntries(new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(new Date(instant)).map(part => [part.type, part.value]));
+
+  const wallClock = Date.UTC(+parts.year, +parts.month - 1, +parts.day, +parts.hour, +parts.minute, +parts.second);
+  return wallClock - Math.floor(instant / 1000) * 1000;
+};
+
+/**
+ * A wall-clock time ('2025-03-01T09:00') in an IANA time zone as a UTC ISO
+ * string, or null when it is not a valid local date and time. The offset is
+ * looked up twice so times next to a DST change land on the right side of it.
+ */
+const zonedTimeToUtc = (localDateTime, timeZone) => {
+  const match = LOCAL_DATE_TIME.exec(localDateTime || '');
+  if (!match) return null;
+
+  const [year, month, day, hour, minute] = match.slice(1).map(Number);
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute);
+  if (Number.isNaN(asUtc) || new Date(asUtc).getUTCDate() !== day) return null;
+
+  const firstGuess = asUtc - zoneOffsetAt(asUtc, timeZone);
+  return new Date(asUtc - zoneOffsetAt(firstGuess, timeZone)).toISOString();
+};
+
+// The step a schedule runs next, and when
+const nextStep = (schedule) => {
+  if (schedule.publish_at && !schedule.publish_done_at) return { step: 'publish', at: schedule.publish_at };
+  if (schedule.expire_at && !schedule.expire_done_at) return { step: 'expire', at: schedule.expire_at };
+  return null;
+};
+
+/**
+ * Timed releases: publish a course or lesson at its release time and
+ * unpublish or archive it when it expires.
+ *
+ * Schedules live in content_schedules, one per course or lesson, with the
+ * times entered in the author's time zone kept next to their UTC instants.
+ * processDueSchedules is run by a cron job; it moves content through the
+ * review workflow like a publisher would, so only approved content goes live.
+ */
+class ContentScheduleService {
+  /**
+   * @returns {Promise<object | null>} null when nothing is scheduled
+   */
+  static async getSchedule(contentType, courseId, lessonId) {
+    try {
+      const doc = await getFirestore().collection(SCHEDULES_COLLECTION).doc(scheduleIdFor(contentType, courseId, lessonId)).get();
+      return doc.exists ? { id: doc.id, ...doc.data() } : null;
+    } catch (error) {
+      console.error('❌ Error fetching content schedule:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create or replace the schedule of a course or lesson. Times are local to
+   * `timezone` ('YYYY-MM-DDTHH:mm'); either may be left out but not both.
+   * @param {{ contentType: 'course'|'lesson', courseId: string, lessonId?: string, publishAt?: string | null,
+   *   expireAt?: string | null, expireAction?: 'unpublish'|'archive', timezone: string,
+   *   actor: { userId: string, email: string, name?: string } }} input
+   */
+  static async saveSchedule({ contentType, courseId, lessonId, publishAt, expireAt, expireAction = 'unpublish', timezone, actor }) {
+    try {
+      if (!timezone || !isValidTimeZone(timezone)) {
+        throw scheduleError('INVALID_TIMEZONE', 'Choose a valid time zone, such as Africa/Lagos');
+      }
+      if (!EXPIRE_ACTIONS.includes(expireAction)) {
+        throw scheduleError('INVALID_SCHEDULE', 'Expired content can only be unpublished or archived');
+      }
+      if (!publishAt && !expireAt) {
+        throw scheduleError('INVALID_SCHEDULE', 'Set a release time, an expiry time or both');
+      }
+
+      const publishUtc = publishAt ? zonedTimeToUtc(publishAt, timezone) : null;
+      const expireUtc = expireAt ? zonedTimeToUtc(expireAt, timezone) : null;
+      if ((publishAt && !publishUtc) || (expireAt && !expireUtc)) {
+        throw scheduleError('INVALID_SCHEDULE', 'Times must be valid dates and times');
+      }
+
+      const now = new Date().toISOString();
+      if ((publishUtc && publishUtc <= now) || (expireUtc && expireUtc <= now)) {
+        throw scheduleError('INVALID_SCHEDULE', 'Scheduled times must be in the future');
+      }
+      if (publishUtc && expireUtc && expireUtc <= publishUtc) {
+        throw scheduleError('INVALID_SCHEDULE', 'The expiry time must be after the release time');
+      }
+
+      const db = getFirestore();
+      const courseRef = db.collection('courses').doc(courseId);
+      const [courseDoc, lessonDoc] = await Promise.all([
+        courseRef.get(),
+        contentType === 'lesson' ? courseRef.collection('lessons').doc(lessonId).get() : null
+      ]);
+      const contentDoc = contentType === 'lesson' ? lessonDoc : courseDoc;
+      if (!courseDoc.exists || !contentDoc.exists) {
+        throw scheduleError('CONTENT_NOT_FOUND', `${contentType === 'lesson' ? 'Lesson' : 'Course'} not found`);
+      }
+
+      const scheduleRef = db.collection(SCHEDULES_COLLECTION).doc(scheduleIdFor(contentType, courseId, lessonId));
+      const existing = await scheduleRef.get();
+
+      const schedule = {
+        content_type: contentType,
+        course_id: courseId,
+        lesson_id: contentType === 'lesson' ? lessonId : null,
+        title: contentDoc.data().title || '',
+        course_title: courseDoc.data().title || '',
+        timezone,
+        publish_local: publishUtc ? publishAt : null,
+        publish_at: publishUtc,
+        publish_done_at: null,
+        expire_local: expireUtc ? expireAt : null,
+        expire_at: expireUtc,
+        expire_action: expireAction,
+        expire_done_at: null,
+        status: 'scheduled',
+        failed_step: null,
+        last_error: null,
+        next_run_at: publishUtc || expireUtc,
+        created_by: existing.exists ? existing.data().created_by : actor.userId,
+        created_at: existing.exists ? existing.data().created_at : now,
+        updated_by: actor.userId,
+        updated_by_name: actor.name || actor.email,
+        updated_at: now
+      };
+
+      await scheduleRef.set(schedule);
+      return { id: scheduleRef.id, ...schedule };
+    } catch (error) {
+      console.error('❌ Error saving content schedule:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * @returns {Promise<object | null>} the cancelled schedule, null when there was none
+   */
+  static async cancelSchedule(contentType, courseId, lessonId) {
+    try {
+      const scheduleRef = getFirestore().collection(SCHEDULES_COLLECTION).doc(scheduleIdFor(contentType, courseId, lessonId));
+      const doc = await scheduleRef.get();
+      if (!doc.exists) return null;
+
+      await scheduleRef.delete();
+      return { id: doc.id, ...doc.data() };
+    } catch (error) {
+      console.error('❌ Error cancelling content schedule:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Releases and expiries between two instants, soonest first; the admin calendar
+   * @returns {Promise<object[]>} one event per step, with the schedule it belongs to
+   */
+  static async listEvents(from, to) {
+    try {
+      const fromIso = new Date(from).toISOString();
+      const toIso = new Date(to).toISOString();
+      if (toIso <= fromIso || new Date(to).getTime() - new Date(from).getTime() > MAX_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+        throw scheduleError('INVALID_RANGE', `Choose a range of up to ${MAX_RANGE_DAYS} days`);
+      }
+
+      const collection = getFirestore().collection(SCHEDULES_COLLECTION);
+      const inRange = (field) => collection
+        .where(field, '>=', fromIso)
+        .where(field, '<', toIso)
+        .orderBy(field)
+        .limit(SCHEDULE_LIST_LIMIT)
+        .get();
+      const [releases, expiries] = await Promise.all([inRange('publish_at'), inRange('expire_at')]);
+
+      const schedules = new Map();
+      [...releases.docs, ...expiries.docs].forEach(doc => schedules.set(doc.id, { id: doc.id, ...doc.data() }));
+
+      const events = [];
+      schedules.forEach(schedule => {
+        [
+          { step: 'publish', at: schedule.publish_at, local: schedule.publish_local, doneAt: schedule.publish_done_at },
+          { step: 'expire', at: schedule.expire_at, local: schedule.expire_local, doneAt: schedule.expire_done_at }
+        ].forEach(({ step, at, local, doneAt }) => {
+          if (!at || at < fromIso || at >= toIso) return;
+          events.push({
+            id: `${schedule.id}_${step}`,
+            schedule_id: schedule.id,
+            step,
+            action: step === 'publish' ? 'publish' : schedule.expire_action,
+            at,
+            local,
+            timezone: schedule.timezone,
+            status: doneAt ? 'done' : (schedule.status === 'failed' ? 'failed' : 'scheduled'),
+            error: !doneAt && schedule.failed_step === step ? schedule.last_error : null,
+            content_type: schedule.content_type,
+            course_id: schedule.course_id,
+            lesson_id: schedule.lesson_id,
+            title: schedule.title,
+            course_title: schedule.course_title
+          });
+        });
+      });
+
+      return events.sort((a, b) => a.at.localeCompare(b.at));
+    } catch (error) {
+      console.error('❌ Error listing scheduled releases:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Run every schedule step that has come due. Each schedule is claimed in a
+   * transaction first, so overlapping runs never apply the same step twice.
+   * The claim moves next_run_at to the end of a lease rather than clearing it:
+   * a schedule left 'running' by a crashed run is picked up once the lease
+   * ends, and the publish and expire steps are safe to repeat.
+   * @returns {Promise<{ published: string[], expired: string[], failed: { id: string, step: string, error: string }[] }>}
+   */
+  static async processDueSchedules(now = new Date()) {
+    try {
+      const db = getFirestore();
+      const nowIso = now.toISOString();
+      const result = { published: [], expired: [], failed: [] };
+
+      const due = await db.collection(SCHEDULES_COLLECTION)
+        .where('next_run_at', '<=', nowIso)
+        .orderBy('next_run_at')
+        .limit(SCHEDULE_BATCH_LIMIT)
+        .get();
+
+      for (const doc of due.docs) {
+        const claimed = await db.runTransaction(async (transaction) => {
+          const fresh = await transaction.get(doc.ref);
+          const schedule = fresh.exists ? fresh.data() : null;
+          const next = schedule && nextStep(schedule);
+          if (!next || !schedule.next_run_at || schedule.next_run_at > nowIso) return null;
+
+          const leaseEnd = new Date(now.getTime() + SCHEDULE_CLAIM_LEASE_MS).toISOString();
+          transaction.update(doc.ref, { status: 'running', next_run_at: leaseEnd, updated_at: nowIso });
+          return { schedule: { id: doc.id, ...schedule }, step: next.step };
+        });
+
+        if (!claimed) continue;
+        const { schedule, step } = claimed;
+
+        if (schedule.status === 'running') {
+          console.warn(`⚠️ Retrying scheduled ${step} for ${doc.id} after an interrupted run`);
+        }
+
+        try {
+          if (step === 'publish') {
+            await this.releaseContent(schedule);
+          } else {
+            await this.expireContent(schedule);
+          }
+
+          const done = { ...schedule, [`${step}_done_at`]: nowIso };
+          const following = nextStep(done);
+          await doc.ref.update({
+            [`${step}_done_at`]: nowIso,
+            status: following ? 'scheduled' : 'completed',
+            next_run_at: following ? following.at : null,
+            failed_step: null,
+            last_error: null,
+            updated_at: new Date().toISOString()
+          });
+
+          result[step === 'publish' ? 'published' : 'expired'].push(doc.id);
+        } catch (error) {
+          console.error(`❌ Scheduled ${step} failed for ${doc.id}:`, error);
+          await doc.ref.update({
+            status: 'failed',
+            next_run_at: null,
+            failed_step: step,
+            last_error: error.message,
+            updated_at: new Date().toISOString()
+          });
+          result.failed.push({ id: doc.id, step, error: error.message });
+          await this.notifyFailure(schedule, step, error.message);
+        }
+      }
+
+      return result;
+    } catch (error) {
+      console.error('❌ Error processing scheduled releases:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Publish approved content and take a course out of coming soon. Learners
+   * who saved the course hear about it when something actually went live.
+   */
+  static async releaseContent(schedule) {
+    const isLesson = schedule.content_type === 'lesson';
+    const courseRef = getFirestore().collection('courses').doc(schedule.course_id);
+    const [courseDoc, lessonDoc] = await Promise.all([
+      courseRef.get(),
+      isLesson ? courseRef.collection('lessons').doc(schedule.lesson_id).get() : null
+    ]);
+    const contentDoc = isLesson ? lessonDoc : courseDoc;
+    if (!courseDoc.exists || !contentDoc.exists) {
+      throw scheduleError('CONTENT_NOT_FOUND', `${isLesson ? 'Lesson' : 'Course'} no longer exists`);
+    }
+
+    const content = contentDoc.data();
+    let released = false;
+
+    if (content.workflow_status === 'approved') {
+      await ContentWorkflowService.transition({
+        contentType: schedule.content_type,
+        courseId: schedule.course_id,
+        lessonId: schedule.lesson_id || undefined,
+        action: 'publish',
+        actor: SCHEDULER_ACTOR,
+        notes: 'Published on schedule'
+      });
+      released = true;
+
+      if (!isLesson) {
+        try {
+          await CourseVersionService.recordVersion(schedule.course_id, SCHEDULER_ACTOR, 'Published on schedule');
+        } catch (versionError) {
+          console.error('⚠️ Failed to record course version:', versionError);
+        }
+      }
+    } else if (!ContentWorkflowService.isPublished(content)) {
+      throw scheduleError(
+        'NOT_APPROVED',
+        `The ${isLesson ? 'lesson' : 'course'} was still ${content.workflow_status} at its release time; only approved content is published on schedule`
+      );
+    }
+
+    if (!isLesson && (content.coming_soon === true || content.coming_soon === 1)) {
+      await FirestoreService.updateCourse(schedule.course_id, { coming_soon: false });
+      released = true;
+    }
+
+    const courseLive = isLesson ? ContentWorkflowService.isPublished(courseDoc.data()) : true;
+    if (released && courseLive) {
+      await this.notifyLearners(schedule);
+    }
+  }
+
+  static async expireContent(schedule) {
+    const isLesson = schedule.content_type === 'lesson';
+    const courseRef = getFirestore().collection('courses').doc(schedule.course_id);
+    const contentDoc = await (isLesson ? courseRef.collection('lessons').doc(schedule.lesson_id) : courseRef).get();
+    if (!contentDoc.exists) {
+      throw scheduleError('CONTENT_NOT_FOUND', `${isLesson ? 'Lesson' : 'Course'} no longer exists`);
+    }
+
+    // Already hidden (unpublished by hand, or archived) is as good as expired
+    const content = contentDoc.data();
+    const shouldRun = schedule.expire_action === 'archive'
+      ? content.workflow_status !== 'archived'
+      : ContentWorkflowService.isPublished(content);
+    if (!shouldRun) return;
+
+    await ContentWorkflowService.transition({
+      contentType: schedule.content_type,
+      courseId: schedule.course_id,
+      lessonId: schedule.lesson_id || undefined,
+      action: schedule.expire_action,
+      actor: SCHEDULER_ACTOR,
+      notes: 'Expired on schedule'
+    });
+  }
+
+  /**
+   * Tell learners who saved the course (learn later or favorites) that it, or
+   * a new lesson in it, is available
+   * @returns {Promise<number>} Number of learners notified
+   */
+  static async notifyLearners(schedule) {
+    try {
+      const [learnLaterIds, favorites] = await Promise.all([
+        LearnLaterService.getUserIdsForCourse(schedule.course_id),
+        getFirestore().collection('favorites').where('course_id', '==', schedule.course_id).get()
+      ]);
+      const userIds = [...learnLaterIds, ...favorites.docs.map(doc => doc.data().user_id)];
+      if (userIds.length === 0) return 0;
+
+      const isLesson = schedule.content_type === 'lesson';
+      return await NotificationService.notifyUsers(userIds, {
+        title: isLesson ? 'New lesson available' : 'Course now available',
+        message: isLesson
+          ? `"${schedule.title}" is now available in "${schedule.course_title}".`
+          : `"${schedule.title}" is now available. Start learning today!`,
+        type: 'success',
+        category: 'course_release',
+        link: isLesson ? `/course/${schedule.course_id}/lesson/${schedule.lesson_id}` : `/course/${schedule.course_id}`,
+        data: { course_id: schedule.course_id, lesson_id: schedule.lesson_id || null }
+      });
+    } catch (error) {
+      console.error('⚠️ Failed to notify learners of release:', error);
+      return 0;
+    }
+  }
+
+  static async notifyFailure(schedule, step, reason) {
+    try {
+      const verb = step === 'publish' ? 'published' : (schedule.expire_action === 'archive' ? 'archived' : 'unpublished');
+      await NotificationService.notifyUser(schedule.updated_by, {
+        title: 'Scheduled release failed',
+        message: `"${schedule.title}" was not ${verb} as scheduled. ${reason}`,
+        type: 'error',
+        category: 'content_review',
+        link: '/admin/release-calendar',
+        data: { schedule_id: schedule.id, course_id: schedule.course_id, lesson_id: schedule.lesson_id || null, step }
+      });
+    } catch (error) {
+      console.error('⚠️ Failed to send schedule failure notification:', error);
+    }
+  }
+}
+
+ContentScheduleService.SCHEDULES_COLLECTION = SCHEDULES_COLLECTION;
+ContentScheduleService.EXPIRE_ACTIONS = EXPIRE_ACTIONS;
+ContentScheduleService.zonedTimeToUtc = zonedTimeToUtc;
+
+module.exports = ContentScheduleService;
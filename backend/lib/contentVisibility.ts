@@ -0,0 +1,21 @@
+import { NextApiRequest } from 'next';
+import { authenticateRequest } from './serverAuth';
+import { hasAnyPermission } from '../../src/types';
+
+/**
+ * Who is calling a public course route: their user id when signed in, and
+ * whether they may see content that is not published yet (staff who edit or
+ * review it). Learners and anonymous visitors only ever get published
+ * courses and lessons.
+ */
+export const resolveContentViewer = async (req: NextApiRequest): Promise<{ userId: string | null; canViewUnpublished: boolean }> => {
+  const caller = await authenticateRequest(req);
+  return {
+    userId: caller?.userId || null,
+    canViewUnpublished: Boolean(caller && hasAnyPermission(caller.permissions, ['courses:edit', 'content:review']))
+  };
+};
+
+export const canViewUnpublishedContent = async (req: NextApiRequest): Promise<boolean> => {
+  return (await resolveContentViewer(req)).canViewUnpublished;
+};
@@ -0,0 +1,383 @@
+const { getFirestore } = require('./firebaseAdmin');
+const NotificationService = require('./notificationService');
+
+const WORKFLOWS_COLLECTION = 'content_workflows';
+
+const WORKFLOW_STATUSES = ['draft', 'review', 'approved', 'published', 'archived'];
+
+// Fields only transitions may write on course and lesson documents
+const WORKFLOW_FIELDS = ['workflow_status', 'published_at', 'archived_at'];
+
+// Content created before the workflow existed has no status and was already live
+const LEGACY_STATUS = 'published';
+
+// Most workflows listWorkflows returns
+const WORKFLOW_LIST_LIMIT = 200;
+
+/**
+ * The state machine. `permission` is what the caller needs, per content type;
+ * requiresNotes transitions must explain themselves to the author.
+ */
+const TRANSITIONS = {
+  submit: { from: ['draft'], to: 'review', permission: { course: 'courses:edit', lesson: 'content:edit' } },
+  request_changes: { from: ['review', 'approved'], to: 'draft', permission: 'content:review', requiresNotes: true },
+  approve: { from: ['review'], to: 'approved', permission: 'content:review' },
+  publish: { from: ['approved'], to: 'published', permission: { course: 'courses:publish', lesson: 'content:publish' } },
+  unpublish: { from: ['published'], to: 'approved', permission: { course: 'courses:publish', lesson: 'content:publish' } },
+  archive: { from: ['draft', 'review', 'approved', 'published'], to: 'archived', permission: { course: 'courses:publish', lesson: 'content:publish' } },
+  restore: { from: ['archived'], to: 'draft', permission: { course: 'courses:edit', lesson: 'content:edit' } }
+};
+
+// Assigning a reviewer changes no status; it is recorded in the history all the same
+const ASSIGN_PERMISSION = 'content:workflow';
+
+const AUTHOR_MESSAGES = {
+  request_changes: 'needs changes before it can be approved',
+  approve: 'was approved and is ready to publish',
+  publish: 'is now live for learners',
+  unpublish: 'was unpublished and is hidden from learners until it is published again',
+  archive: 'was archived and is hidden from learners',
+  restore: 'was restored to draft'
+};
+
+const workflowError = (code, message) => {
+  const error = new Error(message);
+  error.code = code;
+  return error;
+};
+
+const workflowIdFor = (contentType, courseId, lessonId) => (
+  contentType === 'lesson' ? `lesson_${courseId}_${lessonId}` : `course_${courseId}`
+);
+
+const contentRefFor = (db, contentType, courseId, lessonId) => {
+  const courseRef = db.collection('courses').doc(courseId);
+  return contentType === 'lesson' ? courseRef.collection('lessons').doc(lessonId) : courseRef;
+};
+
+const statusOf = (content) => content?.workflow_status || LEGACY_STATUS;
+
+/**
+ * Review workflow for courses and lessons: draft -> review -> approved ->
+ * published, with archive/restore and a way back to draft from review.
+ *
+ * The workflow (reviewer, deadline, notes) lives in content_workflows with
+ * its history in a subcollection; the current status is also written onto
+ * the course or lesson as workflow_status, in the same transaction, so the
+ * catalogue routes and Firestore rules can hide anything unpublished.
+ */
+class ContentWorkflowService {
+  /**
+   * The permission a transition needs for this kind of content
+   */
+  static requiredPermission(action, contentType) {
+    if (action === 'assign') return ASSIGN_PERMISSION;
+    const transition = TRANSITIONS[action];
+    if (!transition) return null;
+    return typeof transition.permission === 'string' ? transition.permission : transition.permission[contentType];
+  }
+
+  static isPublished(content) {
+    return statusOf(content) === 'published';
+  }
+
+  /**
+   * What a viewer may see of a list of courses: everything for staff who
+   * edit or review content, otherwise only published courses and lessons
+   */
+  static filterVisible(courses, canViewUnpublished) {
+    if (canViewUnpublished) return courses;
+    return courses
+      .filter(course => this.isPublished(course))
+      .map(course => (Array.isArray(course.lessons)
+        ? { ...course, lessons: course.lessons.filter(lesson => this.isPublished(lesson)) }
+        : course));
+  }
+
+  /**
+   * The workflow of a course or lesson with its history, newest first.
+   * Content without a workflow document reports its stored (or legacy) status.
+   * @returns {Promise<{ workflow: object, history: object[] } | null>} null when the content does not exist
+   */
+  static async getWorkflow(contentType, courseId, lessonId) {
+    try {
+      const db = getFirestore();
+      const workflowId = workflowIdFor(contentType, courseId, lessonId);
+      const [contentDoc, workflowDoc] = await Promise.all([
+        contentRefFor(db, contentType, courseId, lessonId).get(),
+        db.collection(WORKFLOWS_COLLECTION).doc(workflowId).get()
+      ]);
+
+      if (!contentDoc.exists) {
+        return null;
+      }
+
+      const content = contentDoc.data();
+      const workflow = workflowDoc.exists
+        ? { id: workflowDoc.id, ...workflowDoc.data() }
+        : {
+          id: workflowId,
+          content_id: contentType === 'lesson' ? lessonId : courseId,
+          content_type: contentType,
+          course_id: courseId,
+          title: content.title || '',
+          status: statusOf(content),
+          author_id: content.created_by || null,
+          current_reviewer_id: null,
+          review_notes: '',
+          review_deadline: null,
+          published_at: content.published_at || null,
+          archived_at: content.archived_at || null
+        };
+
+      const history = workflowDoc.exists
+        ? (await workflowDoc.ref.collection('history').orderBy('created_at', 'desc').get())
+          .docs.map(doc => ({ id: doc.id, workflow_id: workflowId, ...doc.data() }))
+        : [];
+
+      return { workflow, history };
+    } catch (error) {
+      console.error('❌ Error fetching content workflow:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Workflows in a status, most recently changed first; the review queue
+   * @param {{ status?: string, reviewerId?: string }} filters
+   */
+  static async listWorkflows({ status, reviewerId } = {}) {
+    try {
+      let query = getFirestore().collection(WORKFLOWS_COLLECTION);
+      if (status) {
+        query = query.where('status', '==', status);
+      }
+
+      const snapshot = await query.orderBy('updated_at', 'desc').limit(WORKFLOW_LIST_LIMIT).get();
+      const workflows = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }));
+
+      return reviewerId ? workflows.filter(workflow => workflow.current_reviewer_id === reviewerId) : workflows;
+    } catch (error) {
+      console.error('❌ Error listing content workflows:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Move content through the state machine. The caller's permission for the
+   * action is checked by the route (see requiredPermission).
+   * @param {{ contentType: 'course'|'lesson', courseId: string, lessonId?: string, action: string,
+   *   actor: { userId: string, email: string, name?: string, canApproveOwn?: boolean }, notes?: string }} input
+   * @returns {Promise<{ workflow: object, from: string, to: string }>}
+   */
+  static async transition({ contentType, courseId, lessonId, action, actor, notes = '' }) {
+    try {
+      const transition = TRANSITIONS[action];
+      if (!transition) {
+        throw workflowError('INVALID_ACTION', `Unknown workflow action: ${action}`);
+      }
+      if (transition.requiresNotes && !notes.trim()) {
+        throw workflowError('NOTES_REQUIRED', 'Explain what needs to change so the author can act on it');
+      }
+
+      const db = getFirestore();
+      const workflowId = workflowIdFor(contentType, courseId, lessonId);
+      const workflowRef = db.collection(WORKFLOWS_COLLECTION).doc(workflowId);
+      const contentRef = contentRefFor(db, contentType, courseId, lessonId);
+
+      const result = await db.runTransaction(async (transaction) => {
+        const [contentDoc, workflowDoc] = await Promise.all([transaction.get(contentRef), transaction.get(workflowRef)]);
+        if (!contentDoc.exists) {
+          throw workflowError('CONTENT_NOT_FOUND', `${contentType === 'lesson' ? 'Lesson' : 'Course'} not found`);
+        }
+
+        const content = contentDoc.data();
+        const existing = workflowDoc.exists ? workflowDoc.data() : null;
+        const from = existing?.status || statusOf(content);
+
+        if (!transition.from.includes(from)) {
+          throw workflowError('INVALID_TRANSITION', `Cannot ${action.replace('_', ' ')} content that is ${from}`);
+        }
+
+        const authorId = action === 'submit' ? actor.userId : (existing?.author_id || content.created_by || null);
+
+        // Separation of duties: whoever submitted the content cannot sign it off
+        if (action === 'approve' && authorId === actor.userId && !actor.canApproveOwn) {
+          throw workflowError('SELF_APPROVAL', 'You cannot approve content you submitted for review');
+        }
+
+        const now = new Date().toISOString();
+        const workflow = {
+          content_id: contentType === 'lesson' ? lessonId : courseId,
+          content_type: contentType,
+          course_id: courseId,
+          title: content.title || '',
+          status: transition.to,
+          author_id: authorId,
+          current_reviewer_id: existing?.current_reviewer_id || null,
+          current_reviewer_name: existing?.current_reviewer_name || null,
+          review_notes: transition.requiresNotes || action === 'approve' ? notes.trim() : (existing?.review_notes || ''),
+          review_deadline: existing?.review_deadline || null,
+          submitted_at: action === 'submit' ? now : (existing?.submitted_at || null),
+          published_at: transition.to === 'published' ? now : (existing?.published_at || content.published_at || null),
+          archived_at: transition.to === 'archived' ? now : null,
+          created_at: existing?.created_at || now,
+          updated_at: now
+        };
+
+        transaction.set(workflowRef, workflow);
+        transaction.update(contentRef, {
+          workflow_status: transition.to,
+          published_at: workflow.published_at,
+          archived_at: workflow.archived_at
+        });
+        transaction.set(workflowRef.collection('history').doc(), {
+          action,
+          from_status: from,
+          to_status: transition.to,
+          changed_by: actor.userId,
+          changed_by_name: actor.name || actor.email,
+          notes: notes.trim(),
+          created_at: now
+        });
+
+        return { workflow: { id: workflowId, ...workflow }, from, to: transition.to };
+      });
+
+      await this.notifyTransition(action, result.workflow, actor);
+      return result;
+    } catch (error) {
+      console.error('❌ Error changing content workflow status:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Assign (or clear) the reviewer and review deadline
+   * @param {{ reviewer: { userId: string, name: string } | null, deadline: string | null }} assignment
+   */
+  static async assignReviewer({ contentType, courseId, lessonId, actor, reviewer, deadline, notes = '' }) {
+    try {
+      if (deadline && Number.isNaN(new Date(deadline).getTime())) {
+        throw workflowError('INVALID_DEADLINE', 'Review deadline must be a valid date');
+      }
+
+      const db = getFirestore();
+      const workflowId = workflowIdFor(contentType, courseId, lessonId);
+      const workflowRef = db.collection(WORKFLOWS_COLLECTION).doc(workflowId);
+      const contentRef = contentRefFor(db, contentType, courseId, lessonId);
+
+      const workflow = await db.runTransaction(async (transaction) => {
+        const [contentDoc, workflowDoc] = await Promise.all([transaction.get(contentRef), transaction.get(workflowRef)]);
+        if (!contentDoc.exists) {
+          throw workflowError('CONTENT_NOT_FOUND', `${contentType === 'lesson' ? 'Lesson' : 'Course'} not found`);
+        }
+
+        const content = contentDoc.data();
+        const existing = workflowDoc.exists ? workflowDoc.data() : null;
+        const status = existing?.status || statusOf(content);
+        if (status === 'published' || status === 'archived') {
+          throw workflowError('INVALID_TRANSITION', `Content that is ${status} has no review to assign`);
+        }
+
+        const now = new Date().toISOString();
+        const updated = {
+          content_id: contentType === 'lesson' ? lessonId : courseId,
+          content_type: contentType,
+          course_id: courseId,
+          title: content.title || '',
+          status,
+          author_id: existing?.author_id || content.created_by || null,
+          review_notes: existing?.review_notes || '',
+          submitted_at: existing?.submitted_at || null,
+          published_at: existing?.published_at || null,
+          archived_at: existing?.archived_at || null,
+          created_at: existing?.created_at || now,
+          current_reviewer_id: reviewer ? reviewer.userId : null,
+          current_reviewer_name: reviewer ? reviewer.name : null,
+          review_deadline: deadline ? new Date(deadline).toISOString() : null,
+          updated_at: now
+        };
+
+        transaction.set(workflowRef, updated);
+        if (!content.workflow_status) {
+          transaction.update(contentRef, { workflow_status: status });
+        }
+        transaction.set(workflowRef.collection('history').doc(), {
+          action: 'assign',
+          from_status: status,
+          to_status: status,
+          changed_by: actor.userId,
+          changed_by_name: actor.name || actor.email,
+          notes: notes.trim() || (reviewer
+            ? `Assigned to ${reviewer.name}${updated.review_deadline ? `, due ${updated.review_deadline.slice(0, 10)}` : ''}`
+            : 'Reviewer unassigned'),
+          created_at: now
+        });
+
+        return { id: workflowId, ...updated };
+      });
+
+      if (reviewer && reviewer.userId !== actor.userId) {
+        try {
+          await NotificationService.notifyUser(reviewer.userId, {
+            title: 'Review assigned to you',
+            message: `"${workflow.title}" is waiting for your review${workflow.review_deadline ? ` by ${workflow.review_deadline.slice(0, 10)}` : ''}.`,
+            type: 'info',
+            category: 'content_review',
+            link: '/admin/content-review',
+            data: { workflow_id: workflow.id, course_id: courseId, lesson_id: lessonId || null }
+          });
+        } catch (notifyError) {
+          console.error('⚠️ Failed to notify reviewer:', notifyError);
+        }
+      }
+
+      return workflow;
+    } catch (error) {
+      console.error('❌ Error assigning content reviewer:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Tell the author what happened to their content, and the reviewer when it is submitted
+   */
+  static async notifyTransition(action, workflow, actor) {
+    const link = `/admin/upload-course?edit=${workflow.course_id}`;
+    const data = { workflow_id: workflow.id, course_id: workflow.course_id, action };
+
+    try {
+      if (action === 'submit' && workflow.current_reviewer_id && workflow.current_reviewer_id !== actor.userId) {
+        await NotificationService.notifyUser(workflow.current_reviewer_id, {
+          title: 'Content submitted for review',
+          message: `"${workflow.title}" is waiting for your review.`,
+          type: 'info',
+          category: 'content_review',
+          link: '/admin/content-review',
+          data
+        });
+      }
+
+      if (AUTHOR_MESSAGES[action] && workflow.author_id && workflow.author_id !== actor.userId) {
+        await NotificationService.notifyUser(workflow.author_id, {
+          title: action === 'request_changes' ? 'Changes requested' : 'Content review update',
+          message: `"${workflow.title}" ${AUTHOR_MESSAGES[action]}.${workflow.review_notes && action === 'request_changes' ? ` Notes: ${workflow.review_notes}` : ''}`,
+          type: action === 'request_changes' ? 'warning' : 'success',
+          category: 'content_review',
+          link,
+          data
+        });
+      }
+    } catch (error) {
+      console.error('⚠️ Failed to send workflow notification:', error);
+    }
+  }
+}
+
+ContentWorkflowService.WORKFLOWS_COLLECTION = WORKFLOWS_COLLECTION;
+ContentWorkflowService.WORKFLOW_STATUSES = WORKFLOW_STATUSES;
+ContentWorkflowService.WORKFLOW_FIELDS = WORKFLOW_FIELDS;
+ContentWorkflowService.TRANSITIONS = TRANSITIONS;
+
+module.exports = ContentWorkflowService;
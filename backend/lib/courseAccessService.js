@@ -0,0 +1,297 @@
+const { getFirestore } = require('./firebaseAdmin');
+const FirestoreService = require('./firestoreService');
+const ContentWorkflowService = require('./contentWorkflowService');
+const CourseVersionService = require('./courseVersionService');
+
+const MAX_PREREQUISITES = 10;
+const MAX_DRIP_DAYS = 365;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Lesson content withheld from learners while the lesson is locked
+const LOCKED_LESSON_FIELDS = ['video_url', 'videoUrl', 'transcript', 'resources'];
+
+const accessError = (code, message) => {
+  const error = new Error(message);
+  error.code = code;
+  return error;
+};
+
+const courseProgressRef = (db, userId, courseId) =>
+  db.collection('progress').doc(userId).collection('courses').doc(courseId);
+
+const prerequisitesOf = (course) => (Array.isArray(course?.prerequisite_course_ids) ? course.prerequisite_course_ids : []);
+
+const dripDaysOf = (lesson) => {
+  const days = Number(lesson?.drip_days);
+  return Number.isInteger(days) && days > 0 ? days : 0;
+};
+
+const hasAccessRules = (course) => prerequisitesOf(course).length > 0
+  || course.sequential_lessons === true
+  || (course.lessons || []).some(lesson => dripDaysOf(lesson) > 0);
+
+/**
+ * Who may open which lessons of a course.
+ *
+ * A course can require other courses to be finished first
+ * (prerequisite_course_ids), make its lessons unlock one after another
+ * (sequential_lessons), and hold a lesson back until drip_days after the
+ * learner enrolled. Enrolment is the learner's first progress write in the
+ * course, recorded as enrolled_at on progress/{userId}/courses/{courseId}.
+ * Locked lessons keep their title and duration but lose their content.
+ */
+class CourseAccessService {
+  /**
+   * Check the access settings in a course create or update body, in place
+   */
+  static async normalizeSettings(data, courseId = null) {
+    try {
+      if (data.prerequisite_course_ids !== undefined) {
+        const ids = Array.isArray(data.prerequisite_course_ids) ? data.prerequisite_course_ids : [];
+        if (ids.some(id => typeof id !== 'string' || !id) || ids.length > MAX_PREREQUISITES) {
+          throw accessError('INVALID_ACCESS', `Choose up to ${MAX_PREREQUISITES} prerequisite courses`);
+        }
+        if (courseId && ids.includes(courseId)) {
+          throw accessError('INVALID_ACCESS', 'A course cannot be its own prerequisite');
+        }
+
+        const unique = [...new Set(ids)];
+        const db = getFirestore();
+        const docs = await Promise.all(unique.map(id => db.collection('courses').doc(id).get()));
+        const missing = docs.filter(doc => !doc.exists).map(doc => doc.id);
+        if (missing.length > 0) {
+          throw accessError('INVALID_ACCESS', `Prerequisite courses not found: ${missing.join(', ')}`);
+        }
+
+        // Walk the prerequisites' own prerequisites so two courses never wait on each other
+        if (courseId) {
+          const seen = new Set();
+          let frontier = docs.map(doc => doc.data());
+          while (frontier.length > 0) {
+            const next = [...new Set(frontier.flatMap(prerequisitesOf))].filter(id => !seen.has(id));
+            if (next.includes(courseId)) {
+              throw accessError('INVALID_ACCESS', 'These prerequisites would make the course depend on itself');
+            }
+            next.forEach(id => seen.add(id));
+            const nextDocs = await Promise.all(next.map(id => db.collection('courses').doc(id).get()));
+            frontier = nextDocs.filter(doc => doc.exists).map(doc => doc.data());
+          }
+        }
+
+        data.prerequisite_course_ids = unique;
+      }
+
+      if (data.sequential_lessons !== undefined) {
+        data.sequential_lessons = data.sequential_lessons === true;
+      }
+
+      if (Array.isArray(data.lessons)) {
+        data.lessons.forEach((lesson, index) => {
+          if (lesson?.drip_days === undefined || lesson.drip_days === null || lesson.drip_days === '') return;
+          const days = Number(lesson.drip_days);
+          if (!Number.isInteger(days) || days < 0 || days > MAX_DRIP_DAYS) {
+            throw accessError('INVALID_ACCESS', `Lesson ${index + 1}: unlock after 0 to ${MAX_DRIP_DAYS} days`);
+          }
+          // Learners enrol by starting the first lesson, so it cannot wait on enrolment
+          if (index === 0 && days > 0) {
+            throw accessError('INVALID_ACCESS', 'The first lesson is always available from enrolment');
+          }
+          lesson.drip_days = days;
+        });
+      }
+
+      return data;
+    } catch (error) {
+      if (error.code !== 'INVALID_ACCESS') {
+        console.error('❌ Error checking course access settings:', error);
+      }
+      throw error;
+    }
+  }
+
+  static async getCompletedLessonIds(userId, courseId) {
+    try {
+      const snapshot = await courseProgressRef(getFirestore(), userId, courseId)
+        .collection('lessons')
+        .where('completed', '==', true)
+        .get();
+      return new Set(snapshot.docs.map(doc => doc.id));
+    } catch (error) {
+      console.error('❌ Error fetching completed lessons:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record when the learner enrolled, on their first progress in the course
+   */
+  static async enroll(userId, courseId) {
+    try {
+      const db = getFirestore();
+      const progressRef = courseProgressRef(db, userId, courseId);
+
+      await db.runTransaction(async (transaction) => {
+        const progressDoc = await transaction.get(progressRef);
+        if (progressDoc.exists && progressDoc.data().enrolled_at) return;
+
+        transaction.set(progressRef, { enrolled_at: new Date().toISOString() }, { merge: true });
+      });
+    } catch (error) {
+      console.error('❌ Error recording course enrolment:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Whether the learner has finished every lesson of a course, as they see it
+   */
+  static async isCourseComplete(userId, courseId) {
+    try {
+      const stored = await FirestoreService.getCourseById(courseId);
+      const [course] = stored ? ContentWorkflowService.filterVisible([stored], false) : [];
+      // A prerequisite nobody can take does not hold anyone back
+      if (!course) return true;
+
+      const pinned = await CourseVersionService.getPinnedLessons(userId, course);
+      const lessons = pinned ? pinned.lessons : (course.lessons || []);
+      if (lessons.length === 0) return true;
+
+      const completed = await this.getCompletedLessonIds(userId, courseId);
+      return lessons.every(lesson => completed.has(lesson.id));
+    } catch (error) {
+      console.error('❌ Error checking course completion:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Locks on a course's lessons (as given, in order) for a learner, or an
+   * anonymous visitor when userId is null
+   * @param {Map<string, Promise<boolean>>} [completionCache] - shared across courses in one request
+   * @returns {Promise<{ locked: boolean, missing_prerequisites: object[], enrolled_at: string | null, lessons: Record<string, object | null> }>}
+   */
+  static async getAccess(userId, course, completionCache = new Map()) {
+    try {
+      const db = getFirestore();
+      const prerequisiteIds = prerequisitesOf(course);
+
+      const completionOf = (courseId) => {
+        if (!completionCache.has(courseId)) {
+          completionCache.set(courseId, userId ? this.isCourseComplete(userId, courseId) : Promise.resolve(false));
+        }
+        return completionCache.get(courseId);
+      };
+
+      const [prerequisiteStates, completed, progressDoc] = await Promise.all([
+        Promise.all(prerequisiteIds.map(completionOf)),
+        userId ? this.getCompletedLessonIds(userId, course.id) : new Set(),
+        userId ? courseProgressRef(db, userId, course.id).get() : null
+      ]);
+
+      const missingIds = prerequisiteIds.filter((id, index) => !prerequisiteStates[index]);
+      const missingDocs = await Promise.all(missingIds.map(id => db.collection('courses').doc(id).get()));
+      const missing = missingDocs.map(doc => ({ course_id: doc.id, title: doc.exists ? doc.data().title : doc.id }));
+      const enrolledAt = progressDoc?.exists ? progressDoc.data().enrolled_at || null : null;
+
+      const lessons = {};
+      (course.lessons || []).forEach((lesson, index) => {
+        lessons[lesson.id] = null;
+        // Finished lessons stay open whatever the rules say now
+        if (completed.has(lesson.id)) return;
+
+        if (missing.length > 0) {
+          lessons[lesson.id] = { reason: 'prerequisites', unlocks_at: null, requires: missing.map(item => ({ id: item.course_id, title: item.title })) };
+          return;
+        }
+
+        const previous = index > 0 ? course.lessons[index - 1] : null;
+        if (course.sequential_lessons === true && previous && !completed.has(previous.id)) {
+          lessons[lesson.id] = { reason: 'sequence', unlocks_at: null, requires: [{ id: previous.id, title: previous.title }] };
+          return;
+        }
+
+        const dripDays = dripDaysOf(lesson);
+        if (dripDays > 0) {
+          const unlocksAt = enrolledAt ? new Date(new Date(enrolledAt).getTime() + dripDays * DAY_MS) : null;
+          if (!unlocksAt || unlocksAt.getTime() > Date.now()) {
+            lessons[lesson.id] = { reason: 'drip', unlocks_at: unlocksAt ? unlocksAt.toISOString() : null, drip_days: dripDays, requires: [] };
+          }
+        }
+      });
+
+      return { locked: missing.length > 0, missing_prerequisites: missing, enrolled_at: enrolledAt, lessons };
+    } catch (error) {
+      console.error('❌ Error working out course access:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * The course as the learner may see it: access summary attached, each
+   * lesson with its lock, and locked lessons without their content
+   */
+  static applyLocks(course, access) {
+    return {
+      ...course,
+      access: { locked: access.locked, missing_prerequisites: access.missing_prerequisites, enrolled_at: access.enrolled_at },
+      lessons: (course.lessons || []).map(lesson => {
+        const lock = access.lessons[lesson.id] || null;
+        if (!lock) return { ...lesson, lock: null };
+
+        const withheld = { ...lesson, lock };
+        LOCKED_LESSON_FIELDS.forEach(field => delete withheld[field]);
+        return withheld;
+      })
+    };
+  }
+
+  /**
+   * applyLocks for a course listing; courses without access rules are passed through
+   */
+  static async applyToCourses(userId, courses) {
+    try {
+      const completionCache = new Map();
+      return await Promise.all(courses.map(async (course) => {
+        if (!hasAccessRules(course)) return course;
+        return this.applyLocks(course, await this.getAccess(userId, course, completionCache));
+      }));
+    } catch (error) {
+      console.error('❌ Error applying course access to a listing:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * The lock on one lesson for a learner, or null when they may open it
+   * @throws {Error} LESSON_NOT_FOUND when the lesson is not a published lesson
+   *   of the learner's version of a published course
+   */
+  static async getLessonLock(userId, courseId, lessonId) {
+    try {
+      const course = await FirestoreService.getCourseById(courseId);
+      if (!course) {
+        throw accessError('LESSON_NOT_FOUND', 'Lesson not found');
+      }
+
+      const pinned = await CourseVersionService.getPinnedLessons(userId, course);
+      const [visible] = ContentWorkflowService.filterVisible([pinned ? { ...course, lessons: pinned.lessons } : course], false);
+      if (!visible || !(visible.lessons || []).some(lesson => lesson.id === lessonId)) {
+        throw accessError('LESSON_NOT_FOUND', 'Lesson not found');
+      }
+      if (!hasAccessRules(visible)) return null;
+
+      const access = await this.getAccess(userId, visible);
+      return access.lessons[lessonId] || null;
+    } catch (error) {
+      if (error.code !== 'LESSON_NOT_FOUND') {
+        console.error('❌ Error checking lesson lock:', error);
+      }
+      throw error;
+    }
+  }
+}
+
+CourseAccessService.LOCKED_LESSON_FIELDS = LOCKED_LESSON_FIELDS;
+CourseAccessService.MAX_DRIP_DAYS = MAX_DRIP_DAYS;
+
+module.exports = CourseAccessService;
@@ -0,0 +1,524 @@
+const { getFirestore } = require('./firebaseAdmin');
+const ContentWorkflowService = require('./contentWorkflowService');
+
+const COURSES_COLLECTION = 'courses';
+const DRAFTS_COLLECTION = 'course_drafts';
+const VERSIONS_SUBCOLLECTION = 'versions';
+const LESSONS_SUBCOLLECTION = 'lessons';
+
+// Bookkeeping on the course document, written only by this service
+const VERSION_FIELDS = ['current_version', 'has_draft'];
+
+// Never part of a snapshot: identity, timestamps, workflow state and bookkeeping
+const COURSE_SYSTEM_FIELDS = new Set([
+  'id', 'lessons', 'instructor', 'created_at', 'updated_at', 'created_by',
+  ...ContentWorkflowService.WORKFLOW_FIELDS, ...VERSION_FIELDS
+]);
+
+// Lesson workflow state stays with the live lesson; a snapshot only carries its content
+const LESSON_SYSTEM_FIELDS = new Set([
+  'id', 'course_id', 'order', 'order_index', 'created_at', 'updated_at',
+  ...ContentWorkflowService.WORKFLOW_FIELDS
+]);
+
+// Listed first in diffs; every other changed field follows alphabetically
+const LEADING_FIELDS = ['title', 'description'];
+
+// Most versions listVersions returns
+const VERSION_LIST_LIMIT = 100;
+
+const versionError = (code, message) => {
+  const error = new Error(message);
+  error.code = code;
+  return error;
+};
+
+const omit = (data, fields) => Object.fromEntries(
+  Object.entries(data || {}).filter(([key, value]) => !fields.has(key) && value !== undefined)
+);
+
+const pick = (data, fields) => Object.fromEntries(
+  fields.filter(field => data && data[field] !== undefined).map(field => [field, data[field]])
+);
+
+const sameValue = (a, b) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+const changedFields = (before, after) => {
+  const keys = [...new Set([...Object.keys(before || {}), ...Object.keys(after || {})])]
+    .filter(key => !sameValue(before?.[key], after?.[key]));
+  const leading = LEADING_FIELDS.filter(key => keys.includes(key));
+  const rest = keys.filter(key => !LEADING_FIELDS.includes(key)).sort();
+
+  return [...leading, ...rest].map(field => ({ field, before: before?.[field] ?? null, after: after?.[field] ?? null }));
+};
+
+const versionRef = (courseRef, version) => courseRef.collection(VERSIONS_SUBCOLLECTION).doc(String(version));
+
+const versionMeta = (doc) => {
+  const { course, lessons, ...meta } = doc.data();
+  return { ...meta, title: course?.title || '', lesson_count: (lessons || []).length };
+};
+
+/**
+ * Drafts and numbered versions of a course.
+ *
+ * courses/{id} and its lessons subcollection are what learners see. Once a
+ * course is published, edits go to course_drafts/{id} instead, and publishing
+ * the draft applies it and records an immutable snapshot in
+ * courses/{id}/versions/{n}. Rolling back publishes an older snapshot as a new
+ * version, so the numbering only ever grows. Learners who have started a
+ * course keep the lesson list of the version they started on.
+ */
+class CourseVersionService {
+  /**
+   * The live course as a snapshot: { course, lessons }, lessons in order.
+   * Courses whose lessons are still embedded in the course document fall
+   * back to that array; applying a snapshot moves them to the subcollection.
+   * @returns {Promise<{ data: object, snapshot: object, liveLessons: object[], embedded: boolean } | null>}
+   */
+  static async readLive(courseRef, transaction) {
+    const read = (ref) => (transaction ? transaction.get(ref) : ref.get());
+    const [courseDoc, lessonsSnapshot] = await Promise.all([
+      read(courseRef),
+      read(courseRef.collection(LESSONS_SUBCOLLECTION))
+    ]);
+    if (!courseDoc.exists) return null;
+
+    const data = courseDoc.data();
+    const liveLessons = lessonsSnapshot.docs
+      .map(doc => ({ id: doc.id, ...doc.data() }))
+      .sort((a, b) => (a.order || 0) - (b.order || 0));
+    const embedded = liveLessons.length === 0 && Array.isArray(data.lessons) && data.lessons.length > 0;
+    const lessons = embedded
+      ? data.lessons.map((lesson, index) => ({ ...lesson, id: lesson.id || `lesson_${index + 1}` }))
+      : liveLessons;
+
+    return {
+      data,
+      liveLessons,
+      embedded,
+      snapshot: {
+        course: omit(data, COURSE_SYSTEM_FIELDS),
+        lessons: lessons.map(lesson => ({ id: lesson.id, ...omit(lesson, LESSON_SYSTEM_FIELDS) }))
+      }
+    };
+  }
+
+  /**
+   * Make a snapshot live: course fields are merged onto the course document,
+   * the lessons subcollection is replaced in the snapshot's order (keeping
+   * each surviving lesson's workflow state), and embedded lessons are dropped
+   */
+  static applySnapshot(transaction, courseRef, live, snapshot, extra = {}) {
+    const liveById = new Map(live.liveLessons.map(lesson => [lesson.id, lesson]));
+    const keep = new Set(snapshot.lessons.map(lesson => lesson.id));
+    const now = new Date().toISOString();
+
+    live.liveLessons
+      .filter(lesson => !keep.has(lesson.id))
+      .forEach(lesson => transaction.delete(courseRef.collection(LESSONS_SUBCOLLECTION).doc(lesson.id)));
+
+    snapshot.lessons.forEach(({ id, ...lesson }, index) => {
+      const existing = liveById.get(id);
+      transaction.set(courseRef.collection(LESSONS_SUBCOLLECTION).doc(id), {
+        ...lesson,
+        ...pick(existing, ContentWorkflowService.WORKFLOW_FIELDS),
+        course_id: courseRef.id,
+        order: index,
+        created_at: existing?.created_at || now,
+        updated_at: now
+      });
+    });
+
+    const courseUpdate = { ...snapshot.course, ...extra, updated_at: now };
+    if (live.data.lessons !== undefined) {
+      courseUpdate.lessons = [];
+    }
+    transaction.update(courseRef, courseUpdate);
+  }
+
+  /**
+   * Field-level differences between two snapshots: course fields, then lessons
+   * added, removed, edited and moved (relative to the lessons both share)
+   */
+  static diffSnapshots(before, after) {
+    const beforeLessons = before?.lessons || [];
+    const afterLessons = after?.lessons || [];
+    const beforeById = new Map(beforeLessons.map(lesson => [lesson.id, lesson]));
+    const afterById = new Map(afterLessons.map(lesson => [lesson.id, lesson]));
+
+    const added = afterLessons
+      .map((lesson, index) => ({ id: lesson.id, title: lesson.title || '', position: index + 1 }))
+      .filter(lesson => !beforeById.has(lesson.id));
+    const removed = beforeLessons
+      .map((lesson, index) => ({ id: lesson.id, title: lesson.title || '', position: index + 1 }))
+      .filter(lesson => !afterById.has(lesson.id));
+
+    const changed = afterLessons
+      .filter(lesson => beforeById.has(lesson.id))
+      .map(lesson => {
+        const { id: _beforeId, ...previous } = beforeById.get(lesson.id);
+        const { id, ...current } = lesson;
+        return { id, title: current.title || previous.title || '', fields: changedFields(previous, current) };
+      })
+      .filter(lesson => lesson.fields.length > 0);
+
+    const sharedBefore = beforeLessons.filter(lesson => afterById.has(lesson.id)).map(lesson => lesson.id);
+    const sharedAfter = afterLessons.filter(lesson => beforeById.has(lesson.id)).map(lesson => lesson.id);
+    const moved = sharedAfter
+      .map((id, index) => ({ id, title: afterById.get(id).title || '', from: sharedBefore.indexOf(id) + 1, to: index + 1 }))
+      .filter(lesson => lesson.from !== lesson.to);
+
+    const fields = changedFields(before?.course, after?.course);
+
+    return {
+      fields,
+      lessons: { added, removed, changed, moved },
+      has_changes: fields.length + added.length + removed.length + changed.length + moved.length > 0
+    };
+  }
+
+  /**
+   * Save edits to a published course as its draft, leaving the live course
+   * untouched. The first draft also records the live course as version 1.
+   * @param {object} input - course fields from the editor; `lessons` replaces the draft's lesson list
+   * @param {{ userId: string, email: string, name?: string }} actor
+   */
+  static async saveDraft(courseId, input, actor) {
+    try {
+      const db = getFirestore();
+      const courseRef = db.collection(COURSES_COLLECTION).doc(courseId);
+      const draftRef = db.collection(DRAFTS_COLLECTION).doc(courseId);
+
+      return await db.runTransaction(async (transaction) => {
+        const [live, draftDoc] = await Promise.all([this.readLive(courseRef, transaction), transaction.get(draftRef)]);
+        if (!live) {
+          throw versionError('COURSE_NOT_FOUND', 'Course not found');
+        }
+
+        const existing = draftDoc.exists ? draftDoc.data() : null;
+        const base = existing || live.snapshot;
+        const baseLessons = new Map(base.lessons.map(lesson => [lesson.id, lesson]));
+
+        const lessons = Array.isArray(input.lessons)
+          ? input.lessons.map(lesson => {
+            const id = typeof lesson.id === 'string' && baseLessons.has(lesson.id)
+              ? lesson.id
+              : courseRef.collection(LESSONS_SUBCOLLECTION).doc().id;
+            return { ...baseLessons.get(id), ...omit(lesson, LESSON_SYSTEM_FIELDS), id };
+          })
+          : base.lessons;
+
+        const now = new Date().toISOString();
+        let currentVersion = live.data.current_version || 0;
+
+        if (!currentVersion) {
+          currentVersion = 1;
+          transaction.set(versionRef(courseRef, currentVersion), {
+            version: currentVersion,
+            ...live.snapshot,
+            source: 'baseline',
+            notes: 'Live course before the first draft',
+            published_at: now,
+            published_by: actor.userId,
+            published_by_name: actor.name || actor.email
+          });
+        }
+
+        const draft = {
+          course: { ...base.course, ...omit(input, COURSE_SYSTEM_FIELDS) },
+          lessons,
+          based_on_version: existing?.based_on_version || currentVersion,
+          created_at: existing?.created_at || now,
+          created_by: existing?.created_by || actor.userId,
+          updated_at: now,
+          updated_by: actor.userId,
+          updated_by_name: actor.name || actor.email
+        };
+
+        transaction.set(draftRef, draft);
+        transaction.update(courseRef, { current_version: currentVersion, has_draft: true });
+
+        return draft;
+      });
+    } catch (error) {
+      console.error('❌ Error saving course draft:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * The course's draft with its changes against the live course
+   * @returns {Promise<{ draft: object|null, live: object, diff: object|null, current_version: number } | null>} null when the course does not exist
+   */
+  static async getDraft(courseId) {
+    try {
+      const db = getFirestore();
+      const courseRef = db.collection(COURSES_COLLECTION).doc(courseId);
+      const [live, draftDoc] = await Promise.all([
+        this.readLive(courseRef),
+        db.collection(DRAFTS_COLLECTION).doc(courseId).get()
+      ]);
+      if (!live) return null;
+
+      const draft = draftDoc.exists ? draftDoc.data() : null;
+      return {
+        draft,
+        live: live.snapshot,
+        diff: draft ? this.diffSnapshots(live.snapshot, draft) : null,
+        current_version: live.data.current_version || 0
+      };
+    } catch (error) {
+      console.error('❌ Error fetching course draft:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * @returns {Promise<object>} the discarded draft
+   */
+  static async discardDraft(courseId) {
+    try {
+      const db = getFirestore();
+      const courseRef = db.collection(COURSES_COLLECTION).doc(courseId);
+      const draftRef = db.collection(DRAFTS_COLLECTION).doc(courseId);
+
+      return await db.runTransaction(async (transaction) => {
+        const [courseDoc, draftDoc] = await Promise.all([transaction.get(courseRef), transaction.get(draftRef)]);
+        if (!draftDoc.exists) {
+          throw versionError('DRAFT_NOT_FOUND', 'This course has no draft');
+        }
+
+        transaction.delete(draftRef);
+        if (courseDoc.exists) {
+          transaction.update(courseRef, { has_draft: false });
+        }
+        return draftDoc.data();
+      });
+    } catch (error) {
+      console.error('❌ Error discarding course draft:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Make the draft live and record it as the next version
+   * @returns {Promise<object>} the new version's metadata
+   */
+  static async publishDraft(courseId, actor, notes = '') {
+    try {
+      const db = getFirestore();
+      const courseRef = db.collection(COURSES_COLLECTION).doc(courseId);
+      const draftRef = db.collection(DRAFTS_COLLECTION).doc(courseId);
+
+      return await db.runTransaction(async (transaction) => {
+        const [live, draftDoc] = await Promise.all([this.readLive(courseRef, transaction), transaction.get(draftRef)]);
+        if (!live) {
+          throw versionError('COURSE_NOT_FOUND', 'Course not found');
+        }
+        if (!draftDoc.exists) {
+          throw versionError('DRAFT_NOT_FOUND', 'This course has no draft');
+        }
+
+        const draft = draftDoc.data();
+        const snapshot = { course: draft.course, lessons: draft.lessons };
+        const version = this.writeVersion(transaction, courseRef, live, snapshot, actor, {
+          source: 'draft',
+          notes,
+          based_on_version: draft.based_on_version || null
+        });
+
+        this.applySnapshot(transaction, courseRef, live, snapshot, { current_version: version.version, has_draft: false });
+        transaction.delete(draftRef);
+
+        return version;
+      });
+    } catch (error) {
+      console.error('❌ Error publishing course draft:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record the live course as the next version, e.g. when the review
+   * workflow publishes it. Embedded lessons are moved to the subcollection.
+   */
+  static async recordVersion(courseId, actor, notes = '') {
+    try {
+      const db = getFirestore();
+      const courseRef = db.collection(COURSES_COLLECTION).doc(courseId);
+
+      return await db.runTransaction(async (transaction) => {
+        const live = await this.readLive(courseRef, transaction);
+        if (!live) {
+          throw versionError('COURSE_NOT_FOUND', 'Course not found');
+        }
+
+        const version = this.writeVersion(transaction, courseRef, live, live.snapshot, actor, { source: 'publish', notes });
+        if (live.embedded) {
+          this.applySnapshot(transaction, courseRef, live, live.snapshot, { current_version: version.version });
+        } else {
+          transaction.update(courseRef, { current_version: version.version });
+        }
+
+        return version;
+      });
+    } catch (error) {
+      console.error('❌ Error recording course version:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Publish an earlier version's snapshot again, as a new version
+   */
+  static async rollback(courseId, targetVersion, actor, notes = '') {
+    try {
+      const db = getFirestore();
+      const courseRef = db.collection(COURSES_COLLECTION).doc(courseId);
+      const targetRef = versionRef(courseRef, targetVersion);
+
+      return await db.runTransaction(async (transaction) => {
+        const [live, targetDoc] = await Promise.all([this.readLive(courseRef, transaction), transaction.get(targetRef)]);
+        if (!live) {
+          throw versionError('COURSE_NOT_FOUND', 'Course not found');
+        }
+        if (!targetDoc.exists) {
+          throw versionError('VERSION_NOT_FOUND', `Version ${targetVersion} does not exist`);
+        }
+
+        const target = targetDoc.data();
+        const snapshot = { course: target.course, lessons: target.lessons };
+        const version = this.writeVersion(transaction, courseRef, live, snapshot, actor, {
+          source: 'rollback',
+          notes: notes || `Rolled back to version ${target.version}`,
+          restored_from: target.version
+        });
+
+        this.applySnapshot(transaction, courseRef, live, snapshot, { current_version: version.version });
+        return version;
+      });
+    } catch (error) {
+      console.error('❌ Error rolling back course:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Add the next numbered version inside a transaction
+   * @returns {object} the version's metadata
+   */
+  static writeVersion(transaction, courseRef, live, snapshot, actor, details) {
+    const version = (live.data.current_version || 0) + 1;
+    const meta = {
+      version,
+      ...details,
+      published_at: new Date().toISOString(),
+      published_by: actor.userId,
+      published_by_name: actor.name || actor.email
+    };
+
+    transaction.set(versionRef(courseRef, version), { ...meta, ...snapshot });
+    return { ...meta, title: snapshot.course.title || '', lesson_count: snapshot.lessons.length };
+  }
+
+  /**
+   * Versions of a course, newest first, without their snapshots
+   */
+  static async listVersions(courseId) {
+    try {
+      const snapshot = await getFirestore()
+        .collection(COURSES_COLLECTION).doc(courseId)
+        .collection(VERSIONS_SUBCOLLECTION)
+        .orderBy('version', 'desc')
+        .limit(VERSION_LIST_LIMIT)
+        .get();
+
+      return snapshot.docs.map(versionMeta);
+    } catch (error) {
+      console.error('❌ Error listing course versions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * A version's snapshot and what it changed compared with the version before it
+   * @returns {Promise<{ version: object, diff: object } | null>}
+   */
+  static async getVersion(courseId, version) {
+    try {
+      const courseRef = getFirestore().collection(COURSES_COLLECTION).doc(courseId);
+      const [doc, previousDoc] = await Promise.all([
+        versionRef(courseRef, version).get(),
+        version > 1 ? versionRef(courseRef, version - 1).get() : Promise.resolve(null)
+      ]);
+      if (!doc.exists) return null;
+
+      const data = doc.data();
+      const previous = previousDoc && previousDoc.exists ? previousDoc.data() : { course: {}, lessons: [] };
+      return { version: data, diff: this.diffSnapshots(previous, data) };
+    } catch (error) {
+      console.error('❌ Error fetching course version:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Pin a learner to the course's current version the first time they record progress
+   */
+  static async pinLearner(userId, courseId) {
+    try {
+      const db = getFirestore();
+      const progressRef = db.collection('progress').doc(userId).collection('courses').doc(courseId);
+
+      await db.runTransaction(async (transaction) => {
+        const [progressDoc, courseDoc] = await Promise.all([
+          transaction.get(progressRef),
+          transaction.get(db.collection(COURSES_COLLECTION).doc(courseId))
+        ]);
+        const currentVersion = courseDoc.exists ? courseDoc.data().current_version : null;
+        if (!currentVersion || (progressDoc.exists && progressDoc.data().course_version)) return;
+
+        transaction.set(progressRef, {
+          course_version: currentVersion,
+          pinned_at: new Date().toISOString()
+        }, { merge: true });
+      });
+    } catch (error) {
+      console.error('❌ Error pinning learner to course version:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * The lessons a learner should see: those of the version they started on,
+   * when the course has moved on since
+   * @returns {Promise<{ version: number, lessons: object[] } | null>} null when the live lessons apply
+   */
+  static async getPinnedLessons(userId, course) {
+    try {
+      if (!course.current_version) return null;
+
+      const db = getFirestore();
+      const progressDoc = await db.collection('progress').doc(userId).collection('courses').doc(course.id).get();
+      const pinned = progressDoc.exists ? progressDoc.data().course_version : null;
+      if (!pinned || pinned >= course.current_version) return null;
+
+      const versionDoc = await versionRef(db.collection(COURSES_COLLECTION).doc(course.id), pinned).get();
+      if (!versionDoc.exists) return null;
+
+      return {
+        version: pinned,
+        lessons: versionDoc.data().lessons.map((lesson, index) => ({ ...lesson, course_id: course.id, order: index }))
+      };
+    } catch (error) {
+      console.error('❌ Error fetching pinned course version:', error);
+      throw error;
+    }
+  }
+}
+
+CourseVersionService.DRAFTS_COLLECTION = DRAFTS_COLLECTION;
+CourseVersionService.VERSION_FIELDS = VERSION_FIELDS;
+
+module.exports = CourseVersionService;
@@ -0,0 +1,78 @@
+/**
+ * Device and location details for sessions, derived from request headers.
+ * Good enough to tell a user's own devices apart; not a fingerprint.
+ */
+
+/**
+ * @returns {{ type: 'desktop'|'mobile'|'tablet', browser: string, os: string }}
+ */
+const parseUserAgent = (userAgent) => {
+  const ua = typeof userAgent === 'string' ? userAgent : '';
+
+  const type = /iPad|Tablet/i.test(ua) || (/Android/i.test(ua) && !/Mobile/i.test(ua))
+    ? 'tablet'
+    : /Mobi|iPhone|iPod|Android/i.test(ua) ? 'mobile' : 'desktop';
+
+  // Order matters: Edge and Opera also announce Chrome, and Chrome announces Safari
+  const browser = /Edg\//.test(ua) ? 'Edge'
+    : /OPR\/|Opera/.test(ua) ? 'Opera'
+    : /SamsungBrowser\//.test(ua) ? 'Samsung Internet'
+    : /Firefox\/|FxiOS\//.test(ua) ? 'Firefox'
+    : /Chrome\/|CriOS\//.test(ua) ? 'Chrome'
+    : /Safari\//.test(ua) ? 'Safari'
+    : 'Unknown browser';
+
+  const os = /Windows/.test(ua) ? 'Windows'
+    : /Android/.test(ua) ? 'Android'
+    : /iPhone|iPad|iPod/.test(ua) ? 'iOS'
+    : /Mac OS X|Macintosh/.test(ua) ? 'macOS'
+    : /CrOS/.test(ua) ? 'ChromeOS'
+    : /Linux/.test(ua) ? 'Linux'
+    : 'Unknown OS';
+
+  return { type, browser, os };
+};
+
+const describeDevice = (userAgent) => {
+  const { browser, os } = parseUserAgent(userAgent);
+  return `${browser} on ${os}`;
+};
+
+const headerValue = (req, name) => {
+  const value = req.headers[name];
+  if (typeof value !== 'string' || !value) return '';
+  try {
+    return decodeURIComponent(value);
+  } catch (error) {
+    return value;
+  }
+};
+
+/**
+ * City/region/country from the geolocation headers added by the hosting edge
+ * (Vercel or Cloudflare), or null when the app runs without one
+ * @returns {{ city: string, region: string, country: string } | null}
+ */
+const getApproximateLocation = (req) => {
+  const city = headerValue(req, 'x-vercel-ip-city');
+  const region = headerValue(req, 'x-vercel-ip-country-region');
+  const country = headerValue(req, 'x-vercel-ip-country') || headerValue(req, 'cf-ipcountry');
+
+  if (!city && !region && (!country || country === 'XX')) {
+    return null;
+  }
+
+  return { city, region, country: country === 'XX' ? '' : country };
+};
+
+const describeLocation = (location) => {
+  if (!location) return '';
+  return [location.city, location.region, location.country].filter(Boolean).join(', ');
+};
+
+module.exports = {
+  parseUserAgent,
+  describeDevice,
+  getApproximateLocation,
+  describeLocation
+};
@@ -146,6 +146,7 @@ declare class FirestoreService {
   // Certificates
   static getUserCertificates(userId: string): Promise<CertificateData[]>;
   static createCertificate(certificateData: Partial<CertificateData>): Promise<string>;
+  static issueCourseCertificate(userId: string, course: CourseData): Promise<{ id: string; created: boolean }>;
 
   // Achievements
   static getUserAchievements(userId: string): Promise<AchievementData[]>;
@@ -156,7 +157,13 @@ declare class FirestoreService {
 
   // Audit Logs
   static createAuditLog(auditData: Partial<AuditLogData>): Promise<string>;
-  static getAuditLogs(limitCount?: number): Promise<AuditLogData[]>;
+  static getAuditLogs(limitCount?: number, filters?: {
+    action?: string;
+    resource_type?: string;
+    user_id?: string;
+    start_date?: string;
+    end_date?: string;
+  }): Promise<AuditLogData[]>;
 
   // Users
   static getUserData(userId: string): Promise<UserData | null>;
@@ -165,6 +172,8 @@ declare class FirestoreService {
   static getUsers(): Promise<UserData[]>;
 
   // Progress
+  /** Written only by markLessonComplete, which also sets progress_percentage to 100 */
+  static readonly COMPLETION_PROGRESS_FIELDS: string[];
   static getUserProgress(userId: string, courseId: string): Promise<any[]>;
   static updateUserProgress(userId: string, courseId: string, lessonId: string, progressData: any): Promise<void>;
   static markLessonComplete(userId: string, courseId: string, lessonId: string): Promise<void>;
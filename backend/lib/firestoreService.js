@@ -1,5 +1,9 @@
 const { getFirestore } = require('./firebaseAdmin');
 const admin = require('firebase-admin');
+const AuditService = require('./auditService');
+
+// Written only by markLessonComplete, once the lesson's locks and gates have been checked
+const COMPLETION_PROGRESS_FIELDS = ['completed', 'completed_at'];
 
 class FirestoreService {
   // ============================================================================
@@ -579,6 +583,41 @@ class FirestoreService {
     }
   }
 
+  /**
+   * The learner's certificate for a course, issued once: every request for the
+   * same learner and course returns the first certificate.
+   * Display fields come from the stored course and user, never the request.
+   * @returns {Promise<{ id: string, created: boolean }>}
+   */
+  static async issueCourseCertificate(userId, course) {
+    try {
+      const db = getFirestore();
+      const certificateRef = db.collection('certificates').doc(`course_${course.id}_${userId}`);
+      const learner = await this.getUserData(userId);
+
+      const created = await db.runTransaction(async (transaction) => {
+        const current = await transaction.get(certificateRef);
+        if (current.exists) return false;
+
+        transaction.set(certificateRef, {
+          user_id: userId,
+          type: 'course',
+          course_id: course.id,
+          course_title: course.title || '',
+          instructor_name: course.instructor?.name || '',
+          student_name: learner?.full_name || learner?.displayName || '',
+          issued_at: admin.firestore.FieldValue.serverTimestamp()
+        });
+        return true;
+      });
+
+      return { id: certificateRef.id, created };
+    } catch (error) {
+      console.error('❌ Error issuing course certificate:', error);
+      throw error;
+    }
+  }
+
   static async createCertificate(certificateData) {
     try {
       const db = getFirestore();
@@ -667,40 +706,13 @@ class FirestoreService {
   // ============================================================================
 
   static async createAuditLog(auditData) {
-    try {
-      const db = getFirestore();
-      const docRef = db.collection('audit_logs').doc();
-
-      await docRef.set({
-        ...auditData,
-        timestamp: admin.firestore.FieldValue.serverTimestamp()
-      });
-
-      return docRef.id;
-    } catch (error) {
-      console.error('❌ Error creating audit log:', error);
-      throw error;
-    }
+    // Audit entries are hash-chained, so every write goes through AuditService
+    return AuditService.createLog(auditData);
   }
 
-  static async getAuditLogs(limitCount = 100) {
-    try {
-      const db = getFirestore();
-      const snapshot = await db.collection('audit_logs')
-        .orderBy('timestamp', 'desc')
-        .limit(limitCount)
-        .get();
-
-      const logs = [];
-      snapshot.forEach(doc => {
-        logs.push({ id: doc.id, ...doc.data() });
-      });
-
-      return logs;
-    } catch (error) {
-      console.error('❌ Error fetching audit logs:', error);
-      throw error;
-    }
+  static async getAuditLogs(limitCount = 100, filters = {}) {
+    const { logs } = await AuditService.queryLogs(filters, { limit: limitCount });
+    return logs;
   }
 
   // ============================================================================
@@ -885,4 +897,6 @@ class FirestoreService {
   }
 }
 
+FirestoreService.COMPLETION_PROGRESS_FIELDS = COMPLETION_PROGRESS_FIELDS;
+
 module.exports = FirestoreService;
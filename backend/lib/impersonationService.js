@@ -0,0 +1,145 @@
+const JWTManager = require('./jwtManager');
+const SessionService = require('./sessionService');
+const AuditService = require('./auditService');
+const PermissionOverrideService = require('./permissionOverrideService');
+
+const DEFAULT_DURATION_MINUTES = 30;
+const MIN_DURATION_MINUTES = 5;
+const MAX_DURATION_MINUTES = 60;
+
+/**
+ * "View as user" for support staff. An impersonation is a session of the
+ * target user, time-boxed and tagged with the support agent, whose access
+ * token carries an `impersonator` claim. withAuth keeps such tokens read-only,
+ * away from staff routes, and audits every request under the agent's identity.
+ * The agent's own refresh token is left untouched, so ending the impersonation
+ * is a matter of dropping the access cookie and refreshing.
+ */
+class ImpersonationService {
+  /**
+   * Clamp a requested duration to the allowed window
+   */
+  static resolveDurationMinutes(requested) {
+    const minutes = Number(requested);
+    if (!Number.isInteger(minutes)) {
+      return DEFAULT_DURATION_MINUTES;
+    }
+    return Math.min(MAX_DURATION_MINUTES, Math.max(MIN_DURATION_MINUTES, minutes));
+  }
+
+  /**
+   * Open an impersonation session and issue its access token
+   * @param {{ userId: string, email: string, role: string, sessionId: string }} impersonator
+   * @param {{ userRecord: object, userRole: string, userData: object }} target - As returned by LoginService.loadUser
+   * @returns {Promise<{ token: string, sessionId: string, expiresAt: string, maxAgeSeconds: number }>}
+   */
+  static async start(impersonator, { userRecord, userRole, userData }, { reason, durationMinutes, ipAddress, userAgent }) {
+    try {
+      const maxAgeSeconds = this.resolveDurationMinutes(durationMinutes) * 60;
+
+      const sessionId = await SessionService.createSession({
+        userId: userRecord.uid,
+        ipAddress,
+        userAgent,
+        impersonatorId: impersonator.userId,
+        maxAgeSeconds
+      });
+
+      // No refresh token: the session cannot outlive its time box
+      const token = JWTManager.createToken({
+        userId: userRecord.uid,
+        email: userRecord.email,
+        displayName: userRecord.displayName || '',
+        photoURL: userRecord.photoURL || null,
+        role: userRole,
+        permission_overrides: PermissionOverrideService.toClaim(userData.permission_overrides),
+        sid: sessionId,
+        impersonator: {
+          userId: impersonator.userId,
+          email: impersonator.email,
+          role: impersonator.role,
+          sid: impersonator.sessionId
+        }
+      }, maxAgeSeconds);
+
+      const expiresAt = new Date(Date.now() + maxAgeSeconds * 1000).toISOString();
+
+      try {
+        await AuditService.logImpersonation(
+          'IMPERSONATION_STARTED',
+          impersonator,
+          { userId: userRecord.uid, email: userRecord.email },
+          { reason, session_id: sessionId, expires_at: expiresAt, impersonated_role: userRole },
+          ipAddress,
+          userAgent
+        );
+      } catch (auditError) {
+        console.error('⚠️ Failed to log impersonation start:', auditError);
+      }
+
+      return { token, sessionId, expiresAt, maxAgeSeconds };
+    } catch (error) {
+      console.error('❌ Error starting impersonation:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Close an impersonation session
+   * @param {object} claims - The impersonation access token payload
+   * @param {string} reason - Why it ended, e.g. 'ended_by_agent' or 'logout'
+   */
+  static async end(claims, reason, ipAddress, userAgent) {
+    try {
+      const revoked = await SessionService.revokeSession(claims.sid, 'impersonation_ended');
+
+      try {
+        await AuditService.logImpersonation(
+          'IMPERSONATION_ENDED',
+          claims.impersonator,
+          { userId: claims.userId, email: claims.email },
+          { reason, session_id: claims.sid, already_closed: !revoked },
+          ipAddress,
+          userAgent
+        );
+      } catch (auditError) {
+        console.error('⚠️ Failed to log impersonation end:', auditError);
+      }
+
+      return revoked;
+    } catch (error) {
+      console.error('❌ Error ending impersonation:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record one API request made while impersonating
+   * @param {string|null} blockedCode - The error code when the request was refused
+   */
+  static async logRequest(req, claims, blockedCode = null) {
+    try {
+      await AuditService.logImpersonation(
+        'IMPERSONATION_REQUEST',
+        claims.impersonator,
+        { userId: claims.userId, email: claims.email },
+        {
+          method: (req.method || 'GET').toUpperCase(),
+          path: (req.url || '').split('?')[0],
+          session_id: claims.sid,
+          blocked: blockedCode
+        },
+        AuditService.getClientIp(req),
+        AuditService.getUserAgent(req)
+      );
+    } catch (auditError) {
+      console.error('⚠️ Failed to log impersonated request:', auditError);
+    }
+  }
+}
+
+ImpersonationService.DEFAULT_DURATION_MINUTES = DEFAULT_DURATION_MINUTES;
+ImpersonationService.MIN_DURATION_MINUTES = MIN_DURATION_MINUTES;
+ImpersonationService.MAX_DURATION_MINUTES = MAX_DURATION_MINUTES;
+
+module.exports = ImpersonationService;
@@ -0,0 +1,320 @@
+const crypto = require('crypto');
+const { getFirestore, getAuth } = require('./firebaseAdmin');
+const JWTManager = require('./jwtManager');
+
+const INVITATIONS_COLLECTION = 'user_invitations';
+
+// Most invitations listInvitations returns
+const INVITATION_LIST_LIMIT = 200;
+
+const invitationError = (code, message) => {
+  const error = new Error(message);
+  error.code = code;
+  return error;
+};
+
+const hashNonce = (nonce) => crypto.createHash('sha256').update(String(nonce)).digest('hex');
+
+const isExpired = (invitation) => new Date(invitation.expires_at).getTime() <= Date.now();
+
+// Stored invitation as returned to admins; the nonce hash never leaves the server
+const toInvitation = (doc) => {
+  const { nonce_hash, ...data } = doc.data();
+  return {
+    id: doc.id,
+    ...data,
+    status: data.status === 'pending' && isExpired(data) ? 'expired' : data.status
+  };
+};
+
+/**
+ * Email invitations for staff accounts (admins, managers, instructors).
+ *
+ * The invitee gets a signed link (see JWTManager.createInviteToken) and
+ * chooses their own password on the invite page, so no administrator ever
+ * knows it. Each link carries a nonce whose hash is stored on the
+ * invitation; resending replaces the nonce and revoking clears the
+ * invitation, so only the most recently sent link of a pending invitation
+ * can be accepted.
+ */
+class InvitationService {
+  /**
+   * Record an invitation and issue its link token
+   * @param {{ email: string, role: string, fullName?: string, invitedBy: { userId: string, email: string } }} input
+   * @returns {Promise<{ invitation: object, token: string }>}
+   */
+  static async createInvitation({ email, role, fullName, invitedBy }) {
+    try {
+      const db = getFirestore();
+      const normalizedEmail = email.trim().toLowerCase();
+
+      try {
+        await getAuth().getUserByEmail(normalizedEmail);
+        throw invitationError('ACCOUNT_EXISTS', 'An account with this email already exists');
+      } catch (error) {
+        if (error?.code !== 'auth/user-not-found') {
+          throw error;
+        }
+      }
+
+      const pending = await db.collection(INVITATIONS_COLLECTION)
+        .where('email', '==', normalizedEmail)
+        .where('status', '==', 'pending')
+        .get();
+      if (pending.docs.some(doc => !isExpired(doc.data()))) {
+        throw invitationError('INVITATION_PENDING', 'This email already has a pending invitation. Resend it instead.');
+      }
+
+      const now = new Date();
+      const nonce = crypto.randomBytes(16).toString('hex');
+      const docRef = db.collection(INVITATIONS_COLLECTION).doc();
+
+      await docRef.set({
+        email: normalizedEmail,
+        role,
+        full_name: (fullName || '').trim(),
+        status: 'pending',
+        nonce_hash: hashNonce(nonce),
+        invited_by: invitedBy.userId,
+        invited_by_email: invitedBy.email,
+        created_at: now.toISOString(),
+        expires_at: new Date(now.getTime() + JWTManager.getInviteExpiry()).toISOString(),
+        last_sent_at: now.toISOString(),
+        send_count: 1,
+        accepted_at: null,
+        accepted_user_id: null,
+        revoked_at: null,
+        revoked_by: null
+      });
+
+      return {
+        invitation: toInvitation(await docRef.get()),
+        token: JWTManager.createInviteToken(docRef.id, nonce)
+      };
+    } catch (error) {
+      console.error('❌ Error creating invitation:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Invitations, newest first. Pending invitations past their expiry are reported as 'expired'.
+   * @param {{ status?: string }} filters
+   */
+  static async listInvitations({ status } = {}) {
+    try {
+      const snapshot = await getFirestore().collection(INVITATIONS_COLLECTION)
+        .orderBy('created_at', 'desc')
+        .limit(INVITATION_LIST_LIMIT)
+        .get();
+
+      const invitations = snapshot.docs.map(toInvitation);
+      return status ? invitations.filter(invitation => invitation.status === status) : invitations;
+    } catch (error) {
+      console.error('❌ Error listing invitations:', error);
+      throw error;
+    }
+  }
+
+  static async getInvitation(invitationId) {
+    try {
+      const doc = await getFirestore().collection(INVITATIONS_COLLECTION).doc(invitationId).get();
+      return doc.exists ? toInvitation(doc) : null;
+    } catch (error) {
+      console.error('❌ Error getting invitation:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Issue a fresh link for a pending or expired invitation, retiring the previous one
+   * @returns {Promise<{ invitation: object, token: string }>}
+   */
+  static async resendInvitation(invitationId) {
+    try {
+      const db = getFirestore();
+      const docRef = db.collection(INVITATIONS_COLLECTION).doc(invitationId);
+      const nonce = crypto.randomBytes(16).toString('hex');
+
+      await db.runTransaction(async (transaction) => {
+        const doc = await transaction.get(docRef);
+        if (!doc.exists) {
+          throw invitationError('INVITATION_NOT_FOUND', 'Invitation not found');
+        }
+        if (doc.data().status !== 'pending') {
+          throw invitationError('INVITATION_NOT_PENDING', `This invitation has already been ${doc.data().status}`);
+        }
+
+        const now = new Date();
+        transaction.update(docRef, {
+          nonce_hash: hashNonce(nonce),
+          expires_at: new Date(now.getTime() + JWTManager.getInviteExpiry()).toISOString(),
+          last_sent_at: now.toISOString(),
+          send_count: (doc.data().send_count || 1) + 1
+        });
+      });
+
+      return {
+        invitation: toInvitation(await docRef.get()),
+        token: JWTManager.createInviteToken(invitationId, nonce)
+      };
+    } catch (error) {
+      console.error('❌ Error resending invitation:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Withdraw a pending invitation; its link stops working immediately
+   */
+  static async revokeInvitation(invitationId, revokedBy) {
+    try {
+      const db = getFirestore();
+      const docRef = db.collection(INVITATIONS_COLLECTION).doc(invitationId);
+
+      await db.runTransaction(async (transaction) => {
+        const doc = await transaction.get(docRef);
+        if (!doc.exists) {
+          throw invitationError('INVITATION_NOT_FOUND', 'Invitation not found');
+        }
+        if (doc.data().status !== 'pending') {
+          throw invitationError('INVITATION_NOT_PENDING', `This invitation has already been ${doc.data().status}`);
+        }
+
+        transaction.update(docRef, {
+          status: 'revoked',
+          nonce_hash: null,
+          revoked_at: new Date().toISOString(),
+          revoked_by: revokedBy.userId
+        });
+      });
+
+      return toInvitation(await docRef.get());
+    } catch (error) {
+      console.error('❌ Error revoking invitation:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * The pending invitation an emailed link belongs to
+   * @returns {Promise<object | null>} null when the link is forged, expired, superseded or already used
+   */
+  static async getInvitationForToken(token) {
+    try {
+      if (!token || typeof token !== 'string') {
+        return null;
+      }
+
+      let payload;
+      try {
+        payload = JWTManager.verifyInviteToken(token);
+      } catch (error) {
+        return null;
+      }
+
+      const doc = await getFirestore().collection(INVITATIONS_COLLECTION).doc(String(payload.inviteId)).get();
+      if (!doc.exists) {
+        return null;
+      }
+
+      const data = doc.data();
+      if (data.status !== 'pending' || isExpired(data) || data.nonce_hash !== hashNonce(payload.nonce)) {
+        return null;
+      }
+
+      return toInvitation(doc);
+    } catch (error) {
+      console.error('❌ Error checking invitation token:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create the invitee's account with the password they chose and mark the
+   * invitation accepted. The invitation is claimed in a transaction first so
+   * a link can only ever create one account.
+   * @returns {Promise<{ invitation: object, userRecord: import('firebase-admin').auth.UserRecord } | null>} null when the link is no longer valid
+   */
+  static async acceptInvitation(token, { password, fullName }) {
+    const invitation = await this.getInvitationForToken(token);
+    if (!invitation) {
+      return null;
+    }
+
+    const db = getFirestore();
+    const docRef = db.collection(INVITATIONS_COLLECTION).doc(invitation.id);
+    const { nonce } = JWTManager.verifyInviteToken(token);
+
+    const claimed = await db.runTransaction(async (transaction) => {
+      const doc = await transaction.get(docRef);
+      const data = doc.data();
+      if (!doc.exists || data.status !== 'pending' || isExpired(data) || data.nonce_hash !== hashNonce(nonce)) {
+        return false;
+      }
+      transaction.update(docRef, { status: 'accepting', nonce_hash: null });
+      return true;
+    });
+
+    if (!claimed) {
+      return null;
+    }
+
+    const name = (fullName || invitation.full_name || '').trim();
+
+    let userRecord;
+    try {
+      userRecord = await getAuth().createUser({
+        email: invitation.email,
+        password,
+        displayName: name || undefined,
+        // Following the emailed link proves control of the mailbox
+        emailVerified: true
+      });
+
+      await getAuth().setCustomUserClaims(userRecord.uid, { role: invitation.role });
+
+      const now = new Date().toISOString();
+      await db.collection('users').doc(userRecord.uid).set({
+        email: invitation.email,
+        full_name: name,
+        displayName: name,
+        role: invitation.role,
+        invited_by: invitation.invited_by,
+        invitation_id: invitation.id,
+        created_at: now,
+        updated_at: now,
+        suspended: false,
+        is_active: true,
+        status: 'active'
+      }, { merge: true });
+
+      await docRef.update({
+        status: 'accepted',
+        accepted_at: now,
+        accepted_user_id: userRecord.uid
+      });
+
+      return { invitation: { ...invitation, status: 'accepted', accepted_at: now, accepted_user_id: userRecord.uid }, userRecord };
+    } catch (error) {
+      console.error('❌ Error accepting invitation:', error);
+
+      // Put the invitation back so the link can be retried, and drop a half-created account
+      if (userRecord) {
+        await getAuth().deleteUser(userRecord.uid).catch(deleteError => {
+          console.warn('⚠️ Could not delete user from Firebase Auth:', deleteError);
+        });
+      }
+      await docRef.update({ status: 'pending', nonce_hash: hashNonce(nonce) }).catch(() => {});
+
+      if (error?.code === 'auth/email-already-exists') {
+        throw invitationError('ACCOUNT_EXISTS', 'An account with this email already exists');
+      }
+      throw error;
+    }
+  }
+}
+
+InvitationService.INVITATIONS_COLLECTION = INVITATIONS_COLLECTION;
+
+module.exports = InvitationService;
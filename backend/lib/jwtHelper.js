@@ -3,6 +3,8 @@
  * Extracts user information from JWT tokens in requests
  */
 
+const { resolveClientIp } = require('../../src/lib/clientIp');
+
 class JWTHelper {
   /**
    * Extract user info from Authorization header or cookies
@@ -43,14 +45,14 @@ class JWTHelper {
   }
 
   /**
-   * Get client IP from request
+   * Get client IP from request: the platform header or trusted proxy hop (see src/lib/clientIp)
    */
   static getClientIp(req) {
-    const forwarded = req.headers['x-forwarded-for'];
-    return (typeof forwarded === 'string' ? forwarded.split(',')[0] : forwarded) ||
-      req.headers['x-real-ip'] ||
-      req.socket?.remoteAddress ||
-      'unknown';
+    const readHeader = (name) => {
+      const value = req.headers[name];
+      return Array.isArray(value) ? value.join(',') : value;
+    };
+    return resolveClientIp(readHeader, req.socket?.remoteAddress) || 'unknown';
   }
 
   /**
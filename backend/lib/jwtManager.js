@@ -1,10 +1,14 @@
 const crypto = require('crypto');
+const SessionService = require('./sessionService');
 
 // Use a secret key from environment or generate one for development
 const JWT_SECRET = process.env.JWT_SECRET || 'dev-secret-key-change-in-production';
 const JWT_REFRESH_SECRET = process.env.JWT_REFRESH_SECRET || 'dev-refresh-secret-key-change-in-production';
-const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || 3600; // 1 hour
-const JWT_REFRESH_EXPIRES_IN = process.env.JWT_REFRESH_EXPIRES_IN || 7 * 24 * 3600; // 7 days
+const JWT_EXPIRES_IN = Number(process.env.JWT_EXPIRES_IN) || 3600; // 1 hour
+const JWT_REFRESH_EXPIRES_IN = Number(process.env.JWT_REFRESH_EXPIRES_IN) || 7 * 24 * 3600; // 7 days
+const MFA_CHALLENGE_EXPIRES_IN = 5 * 60; // 5 minutes to enter the second factor
+const SSO_STATE_EXPIRES_IN = 10 * 60; // 10 minutes to finish signing in at the identity provider
+const INVITE_EXPIRES_IN = 7 * 24 * 3600; // 7 days to accept an invitation
 
 // Simple JWT implementation (header.payload.signature)
 class JWTManager {
@@ -63,8 +67,8 @@ class JWTManager {
     return token;
   }
 
-  // Verify and decode JWT token
-  static verifyToken(token) {
+  // Verify signature and expiry only, without consulting the session store
+  static verifyTokenSignature(token) {
     try {
       const parts = token.split('.');
       if (parts.length !== 3) {
@@ -96,10 +100,31 @@ class JWTManager {
     }
   }
 
-  // Create refresh token
-  static createRefreshToken(userId) {
+  // Verify and decode JWT token; the session it was issued for must still be active
+  static async verifyToken(token) {
+    const payload = this.verifyTokenSignature(token);
+
+    if (!payload.sid) {
+      throw new Error('Token verification failed: Token is not bound to a session');
+    }
+
+    const { active, reason } = await SessionService.validateSession(payload.sid);
+    if (!active) {
+      throw new Error(reason === 'idle_timeout'
+        ? 'Token verification failed: Session expired after inactivity'
+        : 'Token verification failed: Session revoked or expired');
+    }
+
+    return payload;
+  }
+
+  // Create refresh token. Refresh tokens are single-use: the session (token family)
+  // only accepts the most recently issued one, see SessionService.rotateRefreshToken
+  static createRefreshToken(userId, sessionId) {
     const payload = {
       userId,
+      sid: sessionId,
+      jti: crypto.randomBytes(16).toString('hex'),
       type: 'refresh'
     };
 
@@ -164,6 +189,56 @@ class JWTManager {
     }
   }
 
+  // Short-lived token proving the password step succeeded; it carries no session,
+  // so verifyToken never accepts it as an access token
+  static createMfaChallengeToken(userId, email) {
+    return this.createToken({ userId, email, type: 'mfa_challenge' }, MFA_CHALLENGE_EXPIRES_IN);
+  }
+
+  static verifyMfaChallengeToken(token) {
+    const payload = this.verifyTokenSignature(token);
+    if (payload.type !== 'mfa_challenge') {
+      throw new Error('Token verification failed: Invalid token type');
+    }
+    return payload;
+  }
+
+  // Signed OIDC login state (state, nonce, PKCE verifier) kept in the app_sso cookie
+  // between the redirect to the identity provider and its callback
+  static createSsoStateToken(state) {
+    return this.createToken({ ...state, type: 'sso_state' }, SSO_STATE_EXPIRES_IN);
+  }
+
+  static verifySsoStateToken(token) {
+    const payload = this.verifyTokenSignature(token);
+    if (payload.type !== 'sso_state') {
+      throw new Error('Token verification failed: Invalid token type');
+    }
+    return payload;
+  }
+
+  static getSsoStateExpiry() {
+    return SSO_STATE_EXPIRES_IN * 1000;
+  }
+
+  // Emailed invitation link; the nonce must still match the stored invitation,
+  // so resending or revoking an invite retires links that were already sent
+  static createInviteToken(inviteId, nonce) {
+    return this.createToken({ inviteId, nonce, type: 'invite' }, INVITE_EXPIRES_IN);
+  }
+
+  static verifyInviteToken(token) {
+    const payload = this.verifyTokenSignature(token);
+    if (payload.type !== 'invite') {
+      throw new Error('Token verification failed: Invalid token type');
+    }
+    return payload;
+  }
+
+  static getInviteExpiry() {
+    return INVITE_EXPIRES_IN * 1000;
+  }
+
   // Extract token from Authorization header
   static extractTokenFromHeader(authHeader) {
     if (!authHeader || !authHeader.startsWith('Bearer ')) {
@@ -175,12 +250,27 @@ class JWTManager {
   // Get token expiry time in milliseconds
   static getTokenExpiryMs(token) {
     try {
-      const payload = this.verifyToken(token);
+      const payload = this.verifyTokenSignature(token);
       return payload.exp * 1000;
     } catch (error) {
       return null;
     }
   }
+
+  // Access token lifetime in milliseconds
+  static getTokenExpiry() {
+    return JWT_EXPIRES_IN * 1000;
+  }
+
+  // Refresh token lifetime in milliseconds
+  static getRefreshTokenExpiry() {
+    return JWT_REFRESH_EXPIRES_IN * 1000;
+  }
+
+  // Extract token from Authorization header, falling back to the app_user cookie
+  static extractTokenFromRequest(req) {
+    return this.extractTokenFromHeader(req.headers.authorization) || req.cookies?.app_user || null;
+  }
 }
 
 module.exports = JWTManager;
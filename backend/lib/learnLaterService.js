@@ -0,0 +1,99 @@
+const { getFirestore } = require('./firebaseAdmin');
+
+const LEARN_LATER_COLLECTION = 'learn_later';
+
+const learnLaterError = (code, message) => {
+  const error = new Error(message);
+  error.code = code;
+  return error;
+};
+
+/**
+ * Courses and lessons a learner saved to come back to, one document per
+ * item in learn_later with the owner in user_id
+ */
+class LearnLaterService {
+  /**
+   * A user's saved items, newest first
+   */
+  static async listForUser(userId) {
+    try {
+      const snapshot = await getFirestore().collection(LEARN_LATER_COLLECTION)
+        .where('user_id', '==', userId)
+        .orderBy('created_at', 'desc')
+        .get();
+
+      return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }));
+    } catch (error) {
+      console.error('❌ Error fetching learn later items:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Save a course, or one of its lessons. A course counts as saved once any
+   * item for it exists.
+   */
+  static async addItem(userId, courseId, lessonId) {
+    try {
+      const collection = getFirestore().collection(LEARN_LATER_COLLECTION);
+      const existing = await collection.where('user_id', '==', userId).where('course_id', '==', courseId).get();
+
+      if (existing.docs.some(doc => !lessonId || doc.data().lesson_id === lessonId)) {
+        throw learnLaterError('ALREADY_SAVED', 'Item already in learn later list');
+      }
+
+      const item = {
+        user_id: userId,
+        course_id: courseId,
+        lesson_id: lessonId || null,
+        created_at: new Date().toISOString()
+      };
+      const docRef = await collection.add(item);
+
+      return { id: docRef.id, ...item };
+    } catch (error) {
+      if (error.code !== 'ALREADY_SAVED') {
+        console.error('❌ Error adding learn later item:', error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * @returns {Promise<boolean>} false when the user has no such item
+   */
+  static async removeItem(userId, itemId) {
+    try {
+      const docRef = getFirestore().collection(LEARN_LATER_COLLECTION).doc(itemId);
+      const doc = await docRef.get();
+
+      if (!doc.exists || doc.data().user_id !== userId) {
+        return false;
+      }
+
+      await docRef.delete();
+      return true;
+    } catch (error) {
+      console.error('❌ Error removing learn later item:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Everyone who saved the course or any of its lessons
+   */
+  static async getUserIdsForCourse(courseId) {
+    try {
+      const snapshot = await getFirestore().collection(LEARN_LATER_COLLECTION).where('course_id', '==', courseId).get();
+      return [...new Set(snapshot.docs.map(doc => doc.data().user_id))];
+    } catch (error) {
+      console.error('❌ Error fetching learn later users for course:', error);
+      throw error;
+    }
+  }
+}
+
+LearnLaterService.LEARN_LATER_COLLECTION = LEARN_LATER_COLLECTION;
+
+module.exports = LearnLaterService;
@@ -0,0 +1,401 @@
+const { getFirestore } = require('./firebaseAdmin');
+const admin = require('firebase-admin');
+const FirestoreService = require('./firestoreService');
+const ContentWorkflowService = require('./contentWorkflowService');
+const CourseVersionService = require('./courseVersionService');
+const NotificationService = require('./notificationService');
+const QuizService = require('./quizService');
+const AssignmentService = require('./assignmentService');
+
+const PATHS_COLLECTION = 'learning_paths';
+const CERTIFICATES_COLLECTION = 'certificates';
+
+const MAX_PATH_COURSES = 20;
+
+const pathError = (code, message) => {
+  const error = new Error(message);
+  error.code = code;
+  return error;
+};
+
+// One path certificate per learner, so issuing twice returns the first
+const certificateIdFor = (pathId, userId) => `path_${pathId}_${userId}`;
+
+/**
+ * Lesson durations are stored as "MM:SS" or "H:MM:SS"; anything else counts as zero
+ */
+const durationSeconds = (duration) => {
+  if (typeof duration === 'number') return Number.isFinite(duration) ? Math.max(0, duration) : 0;
+  if (typeof duration !== 'string' || !duration.trim()) return 0;
+  const parts = duration.trim().split(':').map(Number);
+  if (parts.some(part => !Number.isFinite(part))) return 0;
+  return parts.reduce((total, part) => total * 60 + part, 0);
+};
+
+const minutesOf = (lessons) => Math.round(lessons.reduce((sum, lesson) => sum + durationSeconds(lesson.duration), 0) / 60);
+
+/**
+ * The lessons a learner has to finish for a course to count as complete, as in
+ * CourseAccessService.isCourseComplete: those of the version they are pinned
+ * to, else the published ones
+ */
+const countedLessons = async (userId, course) => {
+  const pinned = await CourseVersionService.getPinnedLessons(userId, course);
+  if (pinned) return pinned.lessons;
+
+  const [published] = ContentWorkflowService.filterVisible([course], false);
+  return (published || course).lessons || [];
+};
+
+/**
+ * Curated learning paths: ordered tracks of existing courses.
+ *
+ * Each path in learning_paths lists its courses in order, each with the
+ * earlier courses it needs finished first. A learner's progress is rolled up
+ * from their lesson progress in every member course; finishing them all, with
+ * each course's required quizzes and assignments passed, earns a certificate
+ * for the whole path.
+ */
+class LearningPathService {
+  /**
+   * Paths for the catalogue, by title. Unpublished paths are only listed for
+   * editors; courseId narrows the list to paths that include that course.
+   */
+  static async listPaths({ includeUnpublished = false, courseId } = {}) {
+    try {
+      let query = getFirestore().collection(PATHS_COLLECTION);
+      if (courseId) {
+        query = query.where('course_ids', 'array-contains', courseId);
+      }
+
+      const snapshot = await query.get();
+      return snapshot.docs
+        .map(doc => ({ id: doc.id, ...doc.data() }))
+        .filter(path => includeUnpublished || path.published)
+        .sort((a, b) => a.title.localeCompare(b.title));
+    } catch (error) {
+      console.error('❌ Error listing learning paths:', error);
+      throw error;
+    }
+  }
+
+  static async getPath(pathId) {
+    try {
+      const doc = await getFirestore().collection(PATHS_COLLECTION).doc(pathId).get();
+      return doc.exists ? { id: doc.id, ...doc.data() } : null;
+    } catch (error) {
+      console.error('❌ Error fetching learning path:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a path, or replace one when pathId is given. Courses must exist,
+   * appear once each, and only have prerequisites that come before them.
+   */
+  static async savePath(pathId, input, actor) {
+    try {
+      const title = typeof input?.title === 'string' ? input.title.trim() : '';
+      if (!title) {
+        throw pathError('INVALID_PATH', 'Give the learning path a title');
+      }
+
+      const coursesInput = Array.isArray(input.courses) ? input.courses : [];
+      if (coursesInput.length === 0 || coursesInput.length > MAX_PATH_COURSES) {
+        throw pathError('INVALID_PATH', `A learning path needs between 1 and ${MAX_PATH_COURSES} courses`);
+      }
+
+      const seen = new Set();
+      const courses = coursesInput.map((entry, index) => {
+        const courseId = typeof entry?.course_id === 'string' ? entry.course_id : '';
+        if (!courseId || seen.has(courseId)) {
+          throw pathError('INVALID_PATH', `Course ${index + 1} is missing or already in the path`);
+        }
+
+        const prerequisites = [...new Set(Array.isArray(entry.prerequisite_course_ids) ? entry.prerequisite_course_ids : [])];
+        if (prerequisites.some(prerequisite => !seen.has(prerequisite))) {
+          throw pathError('INVALID_PATH', `Prerequisites of course ${index + 1} must come earlier in the path`);
+        }
+
+        seen.add(courseId);
+        return { course_id: courseId, prerequisite_course_ids: prerequisites };
+      });
+
+      const db = getFirestore();
+      const courseDocs = await Promise.all(courses.map(entry => db.collection('courses').doc(entry.course_id).get()));
+      const missing = courseDocs.filter(doc => !doc.exists).map(doc => doc.id);
+      if (missing.length > 0) {
+        throw pathError('INVALID_PATH', `Courses not found: ${missing.join(', ')}`);
+      }
+
+      const pathRef = pathId ? db.collection(PATHS_COLLECTION).doc(pathId) : db.collection(PATHS_COLLECTION).doc();
+      const existing = pathId ? await pathRef.get() : null;
+      if (pathId && !existing.exists) {
+        throw pathError('PATH_NOT_FOUND', 'Learning path not found');
+      }
+      const now = new Date().toISOString();
+
+      const path = {
+        title,
+        description: typeof input.description === 'string' ? input.description.trim() : '',
+        thumbnail: typeof input.thumbnail === 'string' ? input.thumbnail.trim() : '',
+        courses,
+        // Kept alongside courses so paths can be looked up by a member course
+        course_ids: courses.map(entry => entry.course_id),
+        published: input.published === true,
+        created_by: existing ? existing.data().created_by : actor.userId,
+        created_at: existing ? existing.data().created_at : now,
+        updated_by: actor.userId,
+        updated_at: now
+      };
+
+      await pathRef.set(path);
+      return { id: pathRef.id, ...path };
+    } catch (error) {
+      if (!['INVALID_PATH', 'PATH_NOT_FOUND'].includes(error.code)) {
+        console.error('❌ Error saving learning path:', error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a path; certificates already issued for it stay valid
+   * @returns {Promise<boolean>} false when there was no path
+   */
+  static async deletePath(pathId) {
+    try {
+      const pathRef = getFirestore().collection(PATHS_COLLECTION).doc(pathId);
+      const doc = await pathRef.get();
+      if (!doc.exists) return false;
+
+      await pathRef.delete();
+      return true;
+    } catch (error) {
+      console.error('❌ Error deleting learning path:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * The path with its member courses filled in as the viewer sees them, and,
+   * for a signed-in viewer, their progress through it. Courses the viewer
+   * cannot see yet are left out.
+   */
+  static async getPathDetail(path, viewer) {
+    try {
+      const stored = await Promise.all(path.courses.map(entry => FirestoreService.getCourseById(entry.course_id)));
+      const visible = ContentWorkflowService.filterVisible(stored.filter(Boolean), viewer.canViewUnpublished);
+      const coursesById = new Map(visible.map(course => [course.id, course]));
+
+      const courses = [];
+      for (const entry of path.courses) {
+        const course = coursesById.get(entry.course_id);
+        if (!course) continue;
+
+        let lessons = course.lessons || [];
+        const counted = viewer.userId ? await countedLessons(viewer.userId, course) : lessons;
+        // Learners see the lessons they are counted on; editors keep the live outline
+        if (viewer.userId && !viewer.canViewUnpublished) {
+          lessons = counted;
+        }
+
+        courses.push({
+          course_id: course.id,
+          title: course.title,
+          description: course.description || '',
+          thumbnail: course.thumbnail || '',
+          lesson_count: lessons.length,
+          duration_minutes: minutesOf(lessons),
+          prerequisite_course_ids: entry.prerequisite_course_ids.filter(id => coursesById.has(id)),
+          lesson_ids: counted.map(lesson => lesson.id)
+        });
+      }
+
+      const progress = viewer.userId ? await this.getProgress(viewer.userId, path.id, courses) : null;
+
+      return {
+        ...path,
+        // Lesson ids were only needed for the progress roll-up
+        courses: courses.map(({ lesson_ids: _lessonIds, ...course }) => course),
+        estimated_minutes: courses.reduce((sum, course) => sum + course.duration_minutes, 0),
+        progress
+      };
+    } catch (error) {
+      console.error('❌ Error building learning path detail:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Progress rolled up from lesson progress: a course is complete once every
+   * lesson counted for the learner is (so a course without lessons holds
+   * nobody back, as for prerequisites), and locked while any prerequisite is not
+   */
+  static async getProgress(userId, pathId, courses) {
+    try {
+      const db = getFirestore();
+      const perCourse = await Promise.all(courses.map(async (course) => {
+        const snapshot = await db.collection('progress').doc(userId)
+          .collection('courses').doc(course.course_id)
+          .collection('lessons')
+          .where('completed', '==', true)
+          .get();
+        const done = new Set(snapshot.docs.map(doc => doc.id));
+        const completedLessons = course.lesson_ids.filter(id => done.has(id)).length;
+
+        return {
+          course_id: course.course_id,
+          completed_lessons: completedLessons,
+          total_lessons: course.lesson_ids.length,
+          percentage: course.lesson_ids.length > 0 ? Math.round((completedLessons / course.lesson_ids.length) * 100) : 0,
+          completed: completedLessons === course.lesson_ids.length
+        };
+      }));
+
+      const completedIds = new Set(perCourse.filter(course => course.completed).map(course => course.course_id));
+      const byId = new Map(courses.map(course => [course.course_id, course]));
+      const totalLessons = perCourse.reduce((sum, course) => sum + course.total_lessons, 0);
+      const completedLessons = perCourse.reduce((sum, course) => sum + course.completed_lessons, 0);
+      const certificate = await db.collection(CERTIFICATES_COLLECTION).doc(certificateIdFor(pathId, userId)).get();
+
+      return {
+        courses: perCourse.map(course => ({
+          ...course,
+          locked: byId.get(course.course_id).prerequisite_course_ids.some(id => !completedIds.has(id))
+        })),
+        completed_courses: completedIds.size,
+        total_courses: courses.length,
+        percentage: totalLessons > 0 ? Math.round((completedLessons / totalLessons) * 100) : 0,
+        completed: courses.length > 0 && completedIds.size === courses.length,
+        next_course_id: perCourse.find(course => !course.completed)?.course_id || null,
+        certificate_id: certificate.exists ? certificate.id : null
+      };
+    } catch (error) {
+      console.error('❌ Error rolling up learning path progress:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * What to suggest at the end of a course: for each published path that
+   * includes it, the next course the learner has not finished, or none when
+   * the path is complete
+   */
+  static async getUpNext(userId, courseId, viewer) {
+    try {
+      const paths = await this.listPaths({ includeUnpublished: viewer.canViewUnpublished, courseId });
+
+      const suggestions = [];
+      for (const path of paths) {
+        const detail = await this.getPathDetail(path, { ...viewer, userId });
+        const progress = detail.progress;
+        const position = detail.courses.findIndex(course => course.course_id === courseId);
+        if (position === -1) continue;
+
+        // Prefer what follows this course; fall back to anything earlier still unfinished
+        const ordered = [...detail.courses.slice(position + 1), ...detail.courses.slice(0, position)];
+        const next = ordered.find(course => !progress.courses.find(item => item.course_id === course.course_id).completed);
+        const nextProgress = next ? progress.courses.find(item => item.course_id === next.course_id) : null;
+
+        suggestions.push({
+          path_id: path.id,
+          path_title: path.title,
+          completed_courses: progress.completed_courses,
+          total_courses: progress.total_courses,
+          path_completed: progress.completed,
+          certificate_id: progress.certificate_id,
+          next_course: next
+            ? { course_id: next.course_id, title: next.title, thumbnail: next.thumbnail, locked: nextProgress.locked }
+            : null
+        });
+      }
+
+      return suggestions;
+    } catch (error) {
+      console.error('❌ Error finding the next course in learning paths:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Issue the learner's certificate for a finished path. Every course must be
+   * complete with its required quizzes and assignments passed.
+   * @returns {Promise<{ id: string, created: boolean }>} created is false when it was already issued
+   */
+  static async issueCertificate(userId, pathId, learner = {}) {
+    try {
+      const path = await this.getPath(pathId);
+      if (!path || !path.published) {
+        throw pathError('PATH_NOT_FOUND', 'Learning path not found');
+      }
+
+      const db = getFirestore();
+      const certificateRef = db.collection(CERTIFICATES_COLLECTION).doc(certificateIdFor(pathId, userId));
+      const existing = await certificateRef.get();
+      if (existing.exists) {
+        return { id: existing.id, created: false };
+      }
+
+      const detail = await this.getPathDetail(path, { userId, canViewUnpublished: false });
+      if (!detail.progress.completed || detail.courses.length !== path.courses.length) {
+        const unfinished = detail.courses
+          .filter(course => !detail.progress.courses.find(item => item.course_id === course.course_id).completed)
+          .map(course => course.title);
+        throw pathError('PATH_INCOMPLETE', unfinished.length > 0
+          ? `Finish these courses first: ${unfinished.join(', ')}`
+          : 'Some courses in this path are not available yet');
+      }
+
+      for (const course of detail.courses) {
+        const [quizzes, assignments] = await Promise.all([
+          QuizService.getCertificateGate(userId, course.course_id),
+          AssignmentService.getCertificateGate(userId, course.course_id)
+        ]);
+        const outstanding = [...quizzes, ...assignments].map(item => item.title);
+        if (outstanding.length > 0) {
+          throw pathError('PATH_INCOMPLETE', `Pass these in "${course.title}" first: ${outstanding.join(', ')}`);
+        }
+      }
+
+      const created = await db.runTransaction(async (transaction) => {
+        const current = await transaction.get(certificateRef);
+        if (current.exists) return false;
+
+        transaction.set(certificateRef, {
+          user_id: userId,
+          type: 'learning_path',
+          path_id: pathId,
+          course_title: path.title,
+          course_ids: path.course_ids,
+          student_name: learner.name || '',
+          issued_at: admin.firestore.FieldValue.serverTimestamp()
+        });
+        return true;
+      });
+
+      if (created) {
+        await NotificationService.notifyUser(userId, {
+          title: 'Learning path complete',
+          message: `You finished "${path.title}" and earned its certificate.`,
+          type: 'success',
+          category: 'certificates',
+          link: `/path/${pathId}`,
+          data: { path_id: pathId, certificate_id: certificateRef.id }
+        });
+      }
+
+      return { id: certificateRef.id, created };
+    } catch (error) {
+      if (!['PATH_NOT_FOUND', 'PATH_INCOMPLETE'].includes(error.code)) {
+        console.error('❌ Error issuing learning path certificate:', error);
+      }
+      throw error;
+    }
+  }
+}
+
+LearningPathService.PATHS_COLLECTION = PATHS_COLLECTION;
+LearningPathService.MAX_PATH_COURSES = MAX_PATH_COURSES;
+
+module.exports = LearningPathService;
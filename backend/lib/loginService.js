@@ -0,0 +1,182 @@
+const { getAuth, getFirestore } = require('./firebaseAdmin');
+const JWTManager = require('./jwtManager');
+const SessionService = require('./sessionService');
+const AuditService = require('./auditService');
+const PermissionOverrideService = require('./permissionOverrideService');
+const crypto = require('crypto');
+const { sendNewDeviceLoginEmail } = require('./mailer');
+const { getAppBaseUrl } = require('./appUrl');
+const { describeDevice, describeLocation, getApproximateLocation } = require('./deviceInfo');
+const { DEVICE_COOKIE, accessTokenCookie, refreshTokenCookie, deviceCookie, isSecureRequest } = require('./authCookies');
+
+const DEVICE_ID_PATTERN = /^[a-f0-9]{32}$/;
+
+/**
+ * Final step of every sign-in path (password, password + TOTP, SSO): opens a
+ * session, issues the token pair and sets the auth cookies. Sign-ins from a
+ * browser the account has not used before are reported to its owner by email.
+ */
+class LoginService {
+  /**
+   * Check an email and password against Firebase Auth (REST sign-in).
+   * Throws INVALID_PASSWORD or EMAIL_NOT_FOUND for bad credentials.
+   */
+  static async verifyPassword(email, password, apiKey = process.env.FIREBASE_API_KEY) {
+    if (!apiKey) {
+      throw new Error('FIREBASE_API_KEY is not configured');
+    }
+
+    const url = `https://identitytoolkit.googleapis.com/v1/accounts:signInWithPassword?key=${apiKey}`;
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        email,
+        password,
+        returnSecureToken: true
+      })
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      if (error.error?.message === 'INVALID_PASSWORD') {
+        throw new Error('INVALID_PASSWORD');
+      }
+      if (error.error?.message === 'EMAIL_NOT_FOUND') {
+        throw new Error('EMAIL_NOT_FOUND');
+      }
+      throw new Error(error.error?.message || 'Password verification failed');
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Load the Firebase Auth record together with the Firestore profile (source of truth for role)
+   */
+  static async loadUser(userId) {
+    const userRecord = await getAuth().getUser(userId);
+
+    let userRole = 'user';
+    let userData = {};
+
+    try {
+      const userDoc = await getFirestore().collection('users').doc(userId).get();
+      if (userDoc.exists) {
+        userData = userDoc.data() || {};
+        userRole = userData.role || 'user';
+      }
+    } catch (error) {
+      console.warn('Could not fetch user role from Firestore:', error);
+    }
+
+    return { userRecord, userRole, userData };
+  }
+
+  static buildResponseUser(userRecord, userRole, userData) {
+    return {
+      id: userRecord.uid,
+      email: userRecord.email,
+      full_name: userRecord.displayName || '',
+      displayName: userRecord.displayName || '',
+      photoURL: userRecord.photoURL || null,
+      role: userRole,
+      ...userData
+    };
+  }
+
+  /**
+   * Email the account owner when a browser signs in for the first time.
+   * Failures are logged, never surfaced: the sign-in itself has already succeeded.
+   */
+  static async alertNewDevice(req, userRecord, { ipAddress, userAgent, location }) {
+    try {
+      await sendNewDeviceLoginEmail(userRecord.email, {
+        device: describeDevice(userAgent),
+        location: describeLocation(location),
+        ipAddress,
+        signedInAt: new Date().toUTCString(),
+        manageLink: `${getAppBaseUrl(req)}/profile`
+      });
+    } catch (mailError) {
+      console.error('❌ Failed to send new device sign-in email:', mailError);
+    }
+
+    try {
+      await AuditService.logSecurityEvent('NEW_DEVICE_LOGIN', userRecord.uid, {
+        device: describeDevice(userAgent),
+        location: describeLocation(location)
+      }, ipAddress, userAgent, 'LOW');
+    } catch (auditError) {
+      console.error('⚠️ Failed to log new device sign-in:', auditError);
+    }
+  }
+
+  /**
+   * @returns {Promise<{ token: string, user: object }>}
+   */
+  static async completeLogin(req, res, { userRecord, userRole, userData, method = 'email_password' }) {
+    const ipAddress = AuditService.getClientIp(req);
+    const userAgent = AuditService.getUserAgent(req);
+
+    const presentedDeviceId = req.cookies?.[DEVICE_COOKIE];
+    const deviceId = DEVICE_ID_PATTERN.test(presentedDeviceId || '') ? presentedDeviceId : crypto.randomBytes(16).toString('hex');
+    const location = getApproximateLocation(req);
+
+    // Register a server-side session so the token can be revoked later
+    const sessionId = await SessionService.createSession({
+      userId: userRecord.uid,
+      ipAddress,
+      userAgent,
+      deviceId,
+      location
+    });
+
+    const { isNew: isNewDevice } = await SessionService.recordDevice(userRecord.uid, deviceId, { userAgent, location });
+    if (isNewDevice) {
+      await this.alertNewDevice(req, userRecord, { ipAddress, userAgent, location });
+    }
+
+    // Create JWT token with user information, role and session id
+    const jwtToken = JWTManager.createToken({
+      userId: userRecord.uid,
+      email: userRecord.email,
+      displayName: userRecord.displayName || '',
+      photoURL: userRecord.photoURL || null,
+      role: userRole,
+      permission_overrides: PermissionOverrideService.toClaim(userData.permission_overrides),
+      sid: sessionId
+    });
+
+    // Start the session's refresh token family
+    const refreshToken = JWTManager.createRefreshToken(userRecord.uid, sessionId);
+    await SessionService.attachToken(sessionId, refreshToken);
+
+    // Set JWT token in cookie (accessible to JavaScript) and the refresh token in an HttpOnly cookie
+    // Critical: DO NOT set Domain attribute - let browser use current domain only
+    const maxAge = Math.floor(JWTManager.getTokenExpiry() / 1000);
+    const refreshMaxAge = Math.floor(JWTManager.getRefreshTokenExpiry() / 1000);
+
+    console.log(`🔐 Login: Setting app_user cookie (max-age: ${maxAge}s, secure: ${isSecureRequest(req)})`);
+    res.setHeader('Set-Cookie', [
+      accessTokenCookie(jwtToken, maxAge, req),
+      refreshTokenCookie(refreshToken, refreshMaxAge, req),
+      deviceCookie(deviceId, req)
+    ]);
+
+    try {
+      await AuditService.logLogin(userRecord.uid, userRecord.email, true, ipAddress, userAgent, null, method);
+    } catch (auditError) {
+      console.error('⚠️ Failed to log login audit event:', auditError);
+      // Don't fail the login if audit logging fails
+    }
+
+    return {
+      token: jwtToken,
+      user: this.buildResponseUser(userRecord, userRole, userData)
+    };
+  }
+}
+
+module.exports = LoginService;
@@ -2,6 +2,11 @@ const nodemailer = require('nodemailer');
 
 let transporter = null;
 
+// Values that come from request headers are escaped before going into HTML
+const escapeHtml = (value) => String(value ?? '').replace(/[&<>"']/g, (char) => ({
+  '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;'
+}[char]));
+
 const initializeMailer = () => {
   if (transporter) return transporter;
 
@@ -146,7 +151,380 @@ const sendOTPEmail = async (email, otp) => {
   }
 };
 
+const sendPasswordResetEmail = async (email, resetLink, expiresInMinutes) => {
+  try {
+    const mailer = initializeMailer();
+
+    const mailOptions = {
+      from: process.env.SMTP_EMAIL,
+      to: email,
+      subject: 'Reset your password - Forward Africa',
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <meta charset="UTF-8">
+          <style>
+            body {
+              font-family: Arial, sans-serif;
+              background-color: #f4f4f4;
+              padding: 20px;
+            }
+            .container {
+              max-width: 500px;
+              margin: 0 auto;
+              background-color: #ffffff;
+              border-radius: 8px;
+              padding: 30px;
+              box-shadow: 0 2px 10px rgba(0,0,0,0.1);
+            }
+            .header {
+              text-align: center;
+              margin-bottom: 30px;
+            }
+            .logo {
+              display: inline-block;
+              width: 60px;
+              height: 60px;
+              background: linear-gradient(to right, #dc2626, #ef4444);
+              border-radius: 12px;
+              display: flex;
+              align-items: center;
+              justify-content: center;
+              color: white;
+              font-weight: bold;
+              font-size: 24px;
+              margin-bottom: 15px;
+            }
+            h1 {
+              color: #1f2937;
+              font-size: 24px;
+              margin: 0;
+            }
+            p {
+              color: #6b7280;
+              line-height: 1.6;
+              margin: 15px 0;
+            }
+            .button-box {
+              text-align: center;
+              margin: 25px 0;
+            }
+            .button {
+              display: inline-block;
+              background-color: #dc2626;
+              color: #ffffff !important;
+              text-decoration: none;
+              font-weight: bold;
+              padding: 14px 28px;
+              border-radius: 8px;
+            }
+            .expiry {
+              color: #ef4444;
+              font-size: 14px;
+              margin-top: 15px;
+              font-weight: bold;
+            }
+            .link {
+              word-break: break-all;
+              font-size: 12px;
+              color: #9ca3af;
+            }
+            .footer {
+              color: #9ca3af;
+              font-size: 12px;
+              text-align: center;
+              margin-top: 30px;
+              border-top: 1px solid #e5e7eb;
+              padding-top: 20px;
+            }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <div class="logo">FA</div>
+              <h1>Reset Your Password</h1>
+            </div>
+            
+            <p>We received a request to reset the password for your Forward Africa account. Use the button below to choose a new one:</p>
+            
+            <div class="button-box">
+              <a class="button" href="${resetLink}">Reset Password</a>
+              <div class="expiry">This link expires in ${expiresInMinutes} minutes and can only be used once</div>
+            </div>
+            
+            <p class="link">If the button doesn't work, copy this link into your browser:<br>${resetLink}</p>
+            
+            <p>If you didn't request a password reset, you can safely ignore this email; your password will not change.</p>
+            
+            <p>Best regards,<br>Forward Africa Team</p>
+            
+            <div class="footer">
+              <p>Forward Africa © 2024. All rights reserved.</p>
+            </div>
+          </div>
+        </body>
+        </html>
+      `,
+    };
+
+    const info = await mailer.sendMail(mailOptions);
+    console.log('Password reset email sent successfully:', info.messageId);
+    return { success: true, messageId: info.messageId };
+  } catch (error) {
+    console.error('Error sending password reset email:', error);
+    throw error;
+  }
+};
+
+const sendNewDeviceLoginEmail = async (email, { device, location, ipAddress, signedInAt, manageLink }) => {
+  try {
+    const mailer = initializeMailer();
+
+    const mailOptions = {
+      from: process.env.SMTP_EMAIL,
+      to: email,
+      subject: 'New sign-in to your account - Forward Africa',
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <meta charset="UTF-8">
+          <style>
+            body {
+              font-family: Arial, sans-serif;
+              background-color: #f4f4f4;
+              padding: 20px;
+            }
+            .container {
+              max-width: 500px;
+              margin: 0 auto;
+              background-color: #ffffff;
+              border-radius: 8px;
+              padding: 30px;
+              box-shadow: 0 2px 10px rgba(0,0,0,0.1);
+            }
+            .header {
+              text-align: center;
+              margin-bottom: 30px;
+            }
+            .logo {
+              display: inline-block;
+              width: 60px;
+              height: 60px;
+              background: linear-gradient(to right, #dc2626, #ef4444);
+              border-radius: 12px;
+              display: flex;
+              align-items: center;
+              justify-content: center;
+              color: white;
+              font-weight: bold;
+              font-size: 24px;
+              margin-bottom: 15px;
+            }
+            h1 {
+              color: #1f2937;
+              font-size: 24px;
+              margin: 0;
+            }
+            p {
+              color: #6b7280;
+              line-height: 1.6;
+              margin: 15px 0;
+            }
+            .button-box {
+              text-align: center;
+              margin: 25px 0;
+            }
+            .button {
+              display: inline-block;
+              background-color: #dc2626;
+              color: #ffffff !important;
+              text-decoration: none;
+              font-weight: bold;
+              padding: 14px 28px;
+              border-radius: 8px;
+            }
+            .details {
+              background-color: #f9fafb;
+              border-radius: 8px;
+              padding: 15px 20px;
+              color: #374151;
+              font-size: 14px;
+              line-height: 1.8;
+            }
+            .footer {
+              color: #9ca3af;
+              font-size: 12px;
+              text-align: center;
+              margin-top: 30px;
+              border-top: 1px solid #e5e7eb;
+              padding-top: 20px;
+            }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <div class="logo">FA</div>
+              <h1>New Sign-In Detected</h1>
+            </div>
+            
+            <p>Your Forward Africa account was just used to sign in from a browser we haven't seen before:</p>
+            
+            <div class="details">
+              <strong>Device:</strong> ${escapeHtml(device)}<br>
+              ${location ? `<strong>Approximate location:</strong> ${escapeHtml(location)}<br>` : ''}
+              <strong>IP address:</strong> ${escapeHtml(ipAddress)}<br>
+              <strong>Time:</strong> ${escapeHtml(signedInAt)}
+            </div>
+            
+            <p>If this was you, there's nothing to do. If not, sign that device out and change your password right away:</p>
+            
+            <div class="button-box">
+              <a class="button" href="${manageLink}">Review Your Devices</a>
+            </div>
+            
+            <p>Best regards,<br>Forward Africa Team</p>
+            
+            <div class="footer">
+              <p>Forward Africa © 2024. All rights reserved.</p>
+            </div>
+          </div>
+        </body>
+        </html>
+      `,
+    };
+
+    const info = await mailer.sendMail(mailOptions);
+    console.log('New device sign-in email sent successfully:', info.messageId);
+    return { success: true, messageId: info.messageId };
+  } catch (error) {
+    console.error('Error sending new device sign-in email:', error);
+    throw error;
+  }
+};
+
+const sendInvitationEmail = async (email, { inviteLink, role, invitedBy, expiresInDays }) => {
+  try {
+    const mailer = initializeMailer();
+
+    const mailOptions = {
+      from: process.env.SMTP_EMAIL,
+      to: email,
+      subject: "You've been invited to Forward Africa",
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <meta charset="UTF-8">
+          <style>
+            body {
+              font-family: Arial, sans-serif;
+              background-color: #f4f4f4;
+              padding: 20px;
+            }
+            .container {
+              max-width: 500px;
+              margin: 0 auto;
+              background-color: #ffffff;
+              border-radius: 8px;
+              padding: 30px;
+              box-shadow: 0 2px 10px rgba(0,0,0,0.1);
+            }
+            .header {
+              text-align: center;
+              margin-bottom: 30px;
+            }
+            .logo {
+              display: inline-block;
+              width: 60px;
+              height: 60px;
+              background: linear-gradient(to right, #dc2626, #ef4444);
+              border-radius: 12px;
+              display: flex;
+              align-items: center;
+              justify-content: center;
+              color: white;
+              font-weight: bold;
+              font-size: 24px;
+              margin-bottom: 15px;
+            }
+            h1 {
+              color: #1f2937;
+              font-size: 24px;
+              margin: 0;
+            }
+            p {
+              color: #6b7280;
+              line-height: 1.6;
+              margin: 15px 0;
+            }
+            .button-box {
+              text-align: center;
+              margin: 25px 0;
+            }
+            .button {
+              display: inline-block;
+              background-color: #dc2626;
+              color: #ffffff !important;
+              text-decoration: none;
+              font-weight: bold;
+              padding: 14px 28px;
+              border-radius: 8px;
+            }
+            .footer {
+              color: #9ca3af;
+              font-size: 12px;
+              text-align: center;
+              margin-top: 30px;
+              border-top: 1px solid #e5e7eb;
+              padding-top: 20px;
+            }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <div class="logo">FA</div>
+              <h1>You're Invited</h1>
+            </div>
+            
+            <p>${escapeHtml(invitedBy)} has invited you to join Forward Africa as <strong>${escapeHtml(role)}</strong>.</p>
+            
+            <p>Click the button below to choose your password and finish setting up your account:</p>
+            
+            <div class="button-box">
+              <a class="button" href="${inviteLink}">Accept Invitation</a>
+            </div>
+            
+            <p>This invitation expires in ${expiresInDays} days and can only be used once. If you weren't expecting it, you can ignore this email.</p>
+            
+            <p>Best regards,<br>Forward Africa Team</p>
+            
+            <div class="footer">
+              <p>Forward Africa © 2024. All rights reserved.</p>
+            </div>
+          </div>
+        </body>
+        </html>
+      `,
+    };
+
+    const info = await mailer.sendMail(mailOptions);
+    console.log('Invitation email sent successfully:', info.messageId);
+    return { success: true, messageId: info.messageId };
+  } catch (error) {
+    console.error('Error sending invitation email:', error);
+    throw error;
+  }
+};
+
 module.exports = {
   initializeMailer,
   sendOTPEmail,
+  sendPasswordResetEmail,
+  sendNewDeviceLoginEmail,
+  sendInvitationEmail,
 };
@@ -0,0 +1,112 @@
+const crypto = require('crypto');
+const SystemConfigService = require('./systemConfigService');
+const NotificationService = require('./notificationService');
+
+const formatUtc = (iso) => `${new Date(iso).toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+
+/**
+ * Scheduled maintenance windows, stored as `maintenanceWindows` in the system config.
+ * Whether maintenance is active right now is worked out by src/lib/maintenance.ts.
+ */
+class MaintenanceService {
+  static async getSettings() {
+    const config = await SystemConfigService.getConfig();
+    return {
+      maintenanceMode: config.maintenanceMode === true,
+      maintenanceMessage: config.maintenanceMessage || '',
+      maintenanceEndsAt: config.maintenanceEndsAt || null,
+      maintenanceWindows: Array.isArray(config.maintenanceWindows) ? config.maintenanceWindows : []
+    };
+  }
+
+  /**
+   * Add a window; finished windows are dropped at the same time
+   */
+  static async scheduleWindow({ start, end, message }, createdBy) {
+    try {
+      const { maintenanceWindows } = await this.getSettings();
+      const now = Date.now();
+
+      const window = {
+        id: crypto.randomUUID(),
+        start: new Date(start).toISOString(),
+        end: new Date(end).toISOString(),
+        message: message || '',
+        created_by: createdBy || '',
+        created_at: new Date(now).toISOString(),
+        announced_at: null
+      };
+
+      await SystemConfigService.updateConfig({
+        maintenanceWindows: [
+          ...maintenanceWindows.filter(existing => new Date(existing.end).getTime() > now),
+          window
+        ]
+      });
+
+      return window;
+    } catch (error) {
+      console.error('❌ Error scheduling maintenance window:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * @returns {Promise<object|null>} The removed window, or null if it did not exist
+   */
+  static async cancelWindow(windowId) {
+    try {
+      const { maintenanceWindows } = await this.getSettings();
+      const window = maintenanceWindows.find(existing => existing.id === windowId);
+
+      if (!window) {
+        return null;
+      }
+
+      await SystemConfigService.updateConfig({
+        maintenanceWindows: maintenanceWindows.filter(existing => existing.id !== windowId)
+      });
+
+      return window;
+    } catch (error) {
+      console.error('❌ Error cancelling maintenance window:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Tell every user about a window through in-app notifications
+   * @returns {Promise<number>} Number of users notified
+   */
+  static async announceWindow(window, { cancelled = false } = {}) {
+    try {
+      const period = `from ${formatUtc(window.start)} to ${formatUtc(window.end)}`;
+
+      const notified = await NotificationService.notifyAllUsers({
+        title: cancelled ? 'Scheduled maintenance cancelled' : 'Scheduled maintenance',
+        message: cancelled
+          ? `The maintenance planned ${period} has been cancelled.`
+          : `Forward Africa will be unavailable ${period}.${window.message ? ` ${window.message}` : ''}`,
+        type: cancelled ? 'info' : 'warning',
+        category: 'maintenance',
+        data: { window_id: window.id, start: window.start, end: window.end }
+      });
+
+      if (!cancelled) {
+        const { maintenanceWindows } = await this.getSettings();
+        await SystemConfigService.updateConfig({
+          maintenanceWindows: maintenanceWindows.map(existing => (
+            existing.id === window.id ? { ...existing, announced_at: new Date().toISOString() } : existing
+          ))
+        });
+      }
+
+      return notified;
+    } catch (error) {
+      console.error('❌ Error announcing maintenance window:', error);
+      throw error;
+    }
+  }
+}
+
+module.exports = MaintenanceService;
@@ -0,0 +1,96 @@
+const { getFirestore } = require('./firebaseAdmin');
+const admin = require('firebase-admin');
+
+// Firestore batches are limited to 500 writes
+const BATCH_SIZE = 450;
+
+/**
+ * Writes in-app notifications to notifications/{userId}/user_notifications,
+ * the collection read by /api/notifications/[userId].
+ */
+class NotificationService {
+  static buildNotification({ title, message, type = 'info', link = null, category = 'general', data = {} }) {
+    return {
+      title,
+      message,
+      type,
+      link,
+      category,
+      data,
+      read: false,
+      created_at: new Date().toISOString(),
+      timestamp: admin.firestore.FieldValue.serverTimestamp()
+    };
+  }
+
+  static async notifyUser(userId, notification) {
+    try {
+      const db = getFirestore();
+      const docRef = db.collection('notifications').doc(userId).collection('user_notifications').doc();
+      await docRef.set(this.buildNotification(notification));
+      return docRef.id;
+    } catch (error) {
+      console.error('❌ Error creating notification:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * @returns {Promise<number>} Number of notifications written
+   */
+  static async notifyUsers(userIds, notification) {
+    try {
+      const db = getFirestore();
+      const uniqueIds = [...new Set(userIds.filter(Boolean))];
+      const payload = this.buildNotification(notification);
+
+      for (let i = 0; i < uniqueIds.length; i += BATCH_SIZE) {
+        const batch = db.batch();
+        uniqueIds.slice(i, i + BATCH_SIZE).forEach(userId => {
+          batch.set(db.collection('notifications').doc(userId).collection('user_notifications').doc(), payload);
+        });
+        await batch.commit();
+      }
+
+      return uniqueIds.length;
+    } catch (error) {
+      console.error('❌ Error creating notifications:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Notify every user account, paging through the users collection
+   * @returns {Promise<number>} Number of notifications written
+   */
+  static async notifyAllUsers(notification) {
+    try {
+      const db = getFirestore();
+      let total = 0;
+      let lastDoc = null;
+      let snapshot;
+
+      do {
+        let query = db.collection('users').orderBy(admin.firestore.FieldPath.documentId()).limit(BATCH_SIZE);
+        if (lastDoc) {
+          query = query.startAfter(lastDoc);
+        }
+
+        snapshot = await query.get();
+        if (snapshot.empty) {
+          break;
+        }
+
+        total += await this.notifyUsers(snapshot.docs.map(doc => doc.id), notification);
+        lastDoc = snapshot.docs[snapshot.docs.length - 1];
+      } while (snapshot.size === BATCH_SIZE);
+
+      return total;
+    } catch (error) {
+      console.error('❌ Error notifying all users:', error);
+      throw error;
+    }
+  }
+}
+
+module.exports = NotificationService;
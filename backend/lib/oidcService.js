@@ -0,0 +1,490 @@
+const crypto = require('crypto');
+const admin = require('firebase-admin');
+const { getAuth, getFirestore } = require('./firebaseAdmin');
+const SystemConfigService = require('./systemConfigService');
+const AuditService = require('./auditService');
+const TOTPService = require('./totpService');
+const RoleService = require('./roleService').default;
+const { standardizeRole } = require('../../src/lib/roleStandardization');
+
+const DEFAULT_SCOPES = ['openid', 'email', 'profile'];
+const PROVIDER_ID_PATTERN = /^[a-z0-9][a-z0-9-]{1,39}$/;
+const ENV_NAME_PATTERN = /^[A-Z][A-Z0-9_]*$/;
+// Discovery documents and signing keys are re-fetched at most this often (keys also on an unknown kid)
+const METADATA_CACHE_TTL_MS = 60 * 60 * 1000;
+const CLOCK_SKEW_SECONDS = 60;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+const SIGNATURE_ALGORITHMS = {
+  RS256: { hash: 'sha256' },
+  RS384: { hash: 'sha384' },
+  RS512: { hash: 'sha512' },
+  PS256: { hash: 'sha256', padding: crypto.constants.RSA_PKCS1_PSS_PADDING },
+  ES256: { hash: 'sha256', dsaEncoding: 'ieee-p1363' },
+  ES384: { hash: 'sha384', dsaEncoding: 'ieee-p1363' }
+};
+
+const discoveryCache = new Map();
+const jwksCache = new Map();
+
+const base64Url = (buffer) => buffer.toString('base64')
+  .replace(/\+/g, '-')
+  .replace(/\//g, '_')
+  .replace(/=/g, '');
+
+const decodeSegment = (segment) => JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+
+// Plain http is only accepted for identity providers on this machine (e.g. a mock provider in development)
+const isLocalHttp = (url) => url.protocol === 'http:' && ['localhost', '127.0.0.1', '[::1]'].includes(url.hostname);
+
+const ssoError = (code, message) => {
+  const error = new Error(message);
+  error.code = code;
+  return error;
+};
+
+const fetchJson = async (url, options = {}) => {
+  const response = await fetch(url, { ...options, signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    const detail = body?.error_description || body?.error || response.statusText;
+    throw ssoError('SSO_PROVIDER_ERROR', `Identity provider request to ${url} failed: ${detail}`);
+  }
+  return body;
+};
+
+/**
+ * OpenID Connect single sign-on (authorization code flow with PKCE).
+ * Providers live in the system configuration (`ssoProviders`); client secrets
+ * never do, only the name of the environment variable holding them. Users are
+ * linked by verified email from the provider's allowed domains and, where the
+ * provider allows it, created on first sign-in with the provider's default role.
+ * Accounts above that role or with two-factor enrolled are only linked by their
+ * signed-in owner. LoginService issues the session.
+ */
+class OIDCService {
+  /**
+   * Validate and normalise the ssoProviders list submitted with the system configuration
+   * @throws {Error} With a message suitable for the admin when an entry is invalid
+   */
+  static normalizeProviders(input) {
+    if (input === undefined || input === null) {
+      return [];
+    }
+    if (!Array.isArray(input)) {
+      throw new Error('SSO providers must be a list');
+    }
+
+    const seen = new Set();
+
+    return input.map((provider, index) => {
+      const label = `SSO provider ${index + 1}`;
+      const id = String(provider?.id || '').trim().toLowerCase();
+      const name = String(provider?.name || '').trim();
+      const issuer = String(provider?.issuer || '').trim().replace(/\/$/, '');
+      const clientId = String(provider?.clientId || '').trim();
+      const clientSecretEnv = String(provider?.clientSecretEnv || '').trim();
+
+      if (!PROVIDER_ID_PATTERN.test(id)) {
+        throw new Error(`${label}: the id must be 2-40 lowercase letters, numbers or dashes`);
+      }
+      if (seen.has(id)) {
+        throw new Error(`${label}: the id "${id}" is used twice`);
+      }
+      seen.add(id);
+
+      if (!name) {
+        throw new Error(`${label}: a display name is required`);
+      }
+
+      let issuerUrl;
+      try {
+        issuerUrl = new URL(issuer);
+      } catch (error) {
+        throw new Error(`${label}: the issuer must be a URL`);
+      }
+      if (issuerUrl.protocol !== 'https:' && !isLocalHttp(issuerUrl)) {
+        throw new Error(`${label}: the issuer must use https`);
+      }
+
+      if (!clientId) {
+        throw new Error(`${label}: a client id is required`);
+      }
+      if (clientSecretEnv && !ENV_NAME_PATTERN.test(clientSecretEnv)) {
+        throw new Error(`${label}: the client secret must name an environment variable, e.g. OIDC_${id.toUpperCase().replace(/-/g, '_')}_SECRET`);
+      }
+
+      const allowedDomains = (Array.isArray(provider.allowedDomains) ? provider.allowedDomains : [])
+        .map(domain => String(domain).trim().toLowerCase().replace(/^@/, ''))
+        .filter(Boolean);
+      // Any provider can assert any email, so it may only speak for the domains it owns
+      if (allowedDomains.length === 0) {
+        throw new Error(`${label}: list the email domains this provider may sign in`);
+      }
+
+      const scopes = Array.isArray(provider.scopes) && provider.scopes.length > 0
+        ? provider.scopes.map(scope => String(scope).trim()).filter(Boolean)
+        : DEFAULT_SCOPES;
+
+      return {
+        id,
+        name,
+        enabled: provider.enabled !== false,
+        issuer,
+        clientId,
+        clientSecretEnv: clientSecretEnv || null,
+        scopes: scopes.includes('openid') ? scopes : ['openid', ...scopes],
+        allowedDomains,
+        autoProvision: provider.autoProvision !== false,
+        defaultRole: String(provider.defaultRole || 'user').trim() || 'user'
+      };
+    });
+  }
+
+  static async listProviders({ includeDisabled = false } = {}) {
+    const config = await SystemConfigService.getConfig();
+    const providers = Array.isArray(config.ssoProviders) ? config.ssoProviders : [];
+    return includeDisabled ? providers : providers.filter(provider => provider.enabled !== false);
+  }
+
+  static async getProvider(providerId) {
+    const providers = await this.listProviders();
+    return providers.find(provider => provider.id === providerId) || null;
+  }
+
+  /**
+   * Fetch (and cache) the provider's discovery document
+   */
+  static async discover(provider) {
+    const cached = discoveryCache.get(provider.issuer);
+    if (cached && Date.now() - cached.fetchedAt < METADATA_CACHE_TTL_MS) {
+      return cached.metadata;
+    }
+
+    const metadata = await fetchJson(`${provider.issuer}/.well-known/openid-configuration`);
+    if (String(metadata?.issuer || '').replace(/\/$/, '') !== provider.issuer) {
+      throw ssoError('SSO_PROVIDER_ERROR', `Discovery document issuer does not match ${provider.issuer}`);
+    }
+    if (!metadata.authorization_endpoint || !metadata.token_endpoint || !metadata.jwks_uri) {
+      throw ssoError('SSO_PROVIDER_ERROR', 'Discovery document is missing required endpoints');
+    }
+
+    discoveryCache.set(provider.issuer, { metadata, fetchedAt: Date.now() });
+    return metadata;
+  }
+
+  static async getSigningKey(jwksUri, kid) {
+    const findKey = (keys) => keys.find(key => (kid ? key.kid === kid : key.use !== 'enc'));
+
+    let cached = jwksCache.get(jwksUri);
+    let key = cached && Date.now() - cached.fetchedAt < METADATA_CACHE_TTL_MS ? findKey(cached.keys) : null;
+
+    // Unknown kid: the provider may have rotated its keys since we cached them
+    if (!key) {
+      const jwks = await fetchJson(jwksUri);
+      cached = { keys: Array.isArray(jwks?.keys) ? jwks.keys : [], fetchedAt: Date.now() };
+      jwksCache.set(jwksUri, cached);
+      key = findKey(cached.keys);
+    }
+
+    if (!key) {
+      throw ssoError('SSO_INVALID_TOKEN', 'No signing key matches the ID token');
+    }
+    return crypto.createPublicKey({ key, format: 'jwk' });
+  }
+
+  /**
+   * Random state, nonce and PKCE pair for one sign-in attempt
+   */
+  static createLoginState() {
+    const codeVerifier = base64Url(crypto.randomBytes(32));
+    return {
+      state: base64Url(crypto.randomBytes(16)),
+      nonce: base64Url(crypto.randomBytes(16)),
+      codeVerifier,
+      codeChallenge: base64Url(crypto.createHash('sha256').update(codeVerifier).digest())
+    };
+  }
+
+  static async buildAuthorizationUrl(provider, { redirectUri, state, nonce, codeChallenge }) {
+    const metadata = await this.discover(provider);
+    const url = new URL(metadata.authorization_endpoint);
+
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', provider.clientId);
+    url.searchParams.set('redirect_uri', redirectUri);
+    url.searchParams.set('scope', provider.scopes.join(' '));
+    url.searchParams.set('state', state);
+    url.searchParams.set('nonce', nonce);
+    url.searchParams.set('code_challenge', codeChallenge);
+    url.searchParams.set('code_challenge_method', 'S256');
+
+    return url.toString();
+  }
+
+  /**
+   * Exchange the authorization code and return the verified ID token claims,
+   * completed from the userinfo endpoint when the ID token omits the email
+   */
+  static async completeAuthorization(provider, { code, redirectUri, codeVerifier, nonce }) {
+    const metadata = await this.discover(provider);
+
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: redirectUri,
+      client_id: provider.clientId,
+      code_verifier: codeVerifier
+    });
+
+    // Confidential clients authenticate with client_secret_post; public clients rely on PKCE alone
+    if (provider.clientSecretEnv) {
+      const clientSecret = process.env[provider.clientSecretEnv];
+      if (!clientSecret) {
+        throw ssoError('SSO_PROVIDER_ERROR', `${provider.clientSecretEnv} is not set`);
+      }
+      body.set('client_secret', clientSecret);
+    }
+
+    const tokens = await fetchJson(metadata.token_endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+      body: body.toString()
+    });
+
+    if (!tokens?.id_token) {
+      throw ssoError('SSO_INVALID_TOKEN', 'The identity provider did not return an ID token');
+    }
+
+    const claims = await this.verifyIdToken(provider, metadata, tokens.id_token, nonce);
+
+    if (!claims.email && tokens.access_token && metadata.userinfo_endpoint) {
+      const userInfo = await fetchJson(metadata.userinfo_endpoint, {
+        headers: { Authorization: `Bearer ${tokens.access_token}`, Accept: 'application/json' }
+      });
+      // userinfo must describe the same subject as the ID token
+      if (userInfo?.sub === claims.sub) {
+        return { ...userInfo, ...claims, email: userInfo.email, email_verified: userInfo.email_verified };
+      }
+    }
+
+    return claims;
+  }
+
+  static async verifyIdToken(provider, metadata, idToken, nonce) {
+    const parts = String(idToken).split('.');
+    if (parts.length !== 3) {
+      throw ssoError('SSO_INVALID_TOKEN', 'Malformed ID token');
+    }
+
+    let header;
+    let claims;
+    try {
+      header = decodeSegment(parts[0]);
+      claims = decodeSegment(parts[1]);
+    } catch (error) {
+      throw ssoError('SSO_INVALID_TOKEN', 'Malformed ID token');
+    }
+
+    const algorithm = SIGNATURE_ALGORITHMS[header.alg];
+    if (!algorithm) {
+      throw ssoError('SSO_INVALID_TOKEN', `Unsupported ID token algorithm: ${header.alg}`);
+    }
+
+    const key = await this.getSigningKey(metadata.jwks_uri, header.kid);
+    const verifyKey = { key, padding: algorithm.padding, dsaEncoding: algorithm.dsaEncoding };
+    const valid = crypto.verify(
+      algorithm.hash,
+      Buffer.from(`${parts[0]}.${parts[1]}`),
+      verifyKey,
+      Buffer.from(parts[2], 'base64url')
+    );
+    if (!valid) {
+      throw ssoError('SSO_INVALID_TOKEN', 'ID token signature is invalid');
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+
+    if (String(claims.iss || '').replace(/\/$/, '') !== provider.issuer) {
+      throw ssoError('SSO_INVALID_TOKEN', 'ID token issuer does not match');
+    }
+    if (!audiences.includes(provider.clientId) || (audiences.length > 1 && claims.azp !== provider.clientId)) {
+      throw ssoError('SSO_INVALID_TOKEN', 'ID token was not issued for this client');
+    }
+    if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW_SECONDS < now) {
+      throw ssoError('SSO_INVALID_TOKEN', 'ID token has expired');
+    }
+    if (typeof claims.iat === 'number' && claims.iat - CLOCK_SKEW_SECONDS > now) {
+      throw ssoError('SSO_INVALID_TOKEN', 'ID token was issued in the future');
+    }
+    if (!nonce || claims.nonce !== nonce) {
+      throw ssoError('SSO_INVALID_TOKEN', 'ID token nonce does not match');
+    }
+    if (!claims.sub) {
+      throw ssoError('SSO_INVALID_TOKEN', 'ID token has no subject');
+    }
+
+    return claims;
+  }
+
+  /**
+   * Whether an existing account may be linked on sign-in without its owner
+   * asking for it: only accounts no higher than the role the provider gives new
+   * users, and without a second factor the provider would otherwise bypass
+   */
+  static async canAutoLink(provider, userRecord, userRole) {
+    const hierarchy = await RoleService.getHierarchy();
+    const levelOf = (role) => hierarchy[standardizeRole(role)] ?? 0;
+
+    if (levelOf(userRole) > levelOf(provider.defaultRole || 'user')) {
+      return false;
+    }
+    return !(await TOTPService.isEnabled(userRecord.uid));
+  }
+
+  /**
+   * Find the account for a verified identity, linking it by email, or create
+   * it when the provider allows just-in-time provisioning
+   * @param {{ ipAddress: string, userAgent: string, linkUserId?: string }} context -
+   *   linkUserId is the signed-in user who started the sign-in to link this provider
+   * @returns {Promise<{ userRecord: object, userRole: string, userData: object, provisioned: boolean }>}
+   */
+  static async resolveUser(provider, claims, { ipAddress, userAgent, linkUserId = null }) {
+    const email = typeof claims.email === 'string' ? claims.email.trim().toLowerCase() : '';
+
+    // Some providers send email_verified as the string "true"
+    if (!email || (claims.email_verified !== true && claims.email_verified !== 'true')) {
+      throw ssoError('SSO_EMAIL_UNVERIFIED', 'The identity provider did not return a verified email address');
+    }
+
+    const domain = email.split('@')[1];
+    // Providers saved before allowedDomains was required sign nobody in until it is set
+    const allowedDomains = Array.isArray(provider.allowedDomains) ? provider.allowedDomains : [];
+    if (!allowedDomains.includes(domain)) {
+      throw ssoError('SSO_DOMAIN_NOT_ALLOWED', `${domain} accounts cannot sign in with ${provider.name}`);
+    }
+
+    const db = getFirestore();
+    let userRecord = null;
+    try {
+      userRecord = await getAuth().getUserByEmail(email);
+    } catch (error) {
+      if (error?.code !== 'auth/user-not-found') {
+        throw error;
+      }
+    }
+
+    if (linkUserId && userRecord?.uid !== linkUserId) {
+      throw ssoError('SSO_IDENTITY_MISMATCH', `Your ${provider.name} identity belongs to a different email address`);
+    }
+
+    if (!userRecord) {
+      if (!provider.autoProvision) {
+        throw ssoError('SSO_NOT_PROVISIONED', `No account exists for ${email}`);
+      }
+      return this.provisionUser(provider, claims, email, { ipAddress, userAgent });
+    }
+
+    const userRef = db.collection('users').doc(userRecord.uid);
+    const userDoc = await userRef.get();
+    const userData = userDoc.exists ? userDoc.data() || {} : {};
+
+    // Once linked, an account only accepts the subject it was first linked to
+    const linkedSubject = userData.sso_identities?.[provider.id]?.sub;
+    if (linkedSubject && linkedSubject !== claims.sub) {
+      throw ssoError('SSO_IDENTITY_MISMATCH', `This account is linked to a different ${provider.name} identity`);
+    }
+
+    if (!linkedSubject) {
+      if (!linkUserId && !(await this.canAutoLink(provider, userRecord, userData.role || 'user'))) {
+        throw ssoError('SSO_LINK_REQUIRED', `Sign in with your password and link ${provider.name} from your profile first`);
+      }
+
+      const identity = { sub: claims.sub, linked_at: new Date().toISOString() };
+      await userRef.set({ sso_identities: { [provider.id]: identity } }, { merge: true });
+      userData.sso_identities = { ...(userData.sso_identities || {}), [provider.id]: identity };
+
+      try {
+        await AuditService.createLog({
+          user_id: userRecord.uid,
+          user_email: userRecord.email,
+          action: 'SSO_ACCOUNT_LINKED',
+          resource_type: 'AUTH',
+          details: { provider: provider.id, subject: claims.sub, explicit: Boolean(linkUserId) },
+          ip_address: ipAddress,
+          user_agent: userAgent
+        });
+      } catch (auditError) {
+        console.error('⚠️ Failed to log SSO account link:', auditError);
+      }
+    }
+
+    return { userRecord, userRole: userData.role || 'user', userData, provisioned: false };
+  }
+
+  static async provisionUser(provider, claims, email, { ipAddress, userAgent }) {
+    try {
+      const fullName = String(claims.name || [claims.given_name, claims.family_name].filter(Boolean).join(' ') || email.split('@')[0]);
+      const userRole = provider.defaultRole || 'user';
+
+      const userRecord = await getAuth().createUser({
+        email,
+        emailVerified: true,
+        displayName: fullName,
+        photoURL: typeof claims.picture === 'string' && claims.picture.startsWith('https://') ? claims.picture : undefined
+      });
+
+      try {
+        await getAuth().setCustomUserClaims(userRecord.uid, { role: userRole });
+      } catch (error) {
+        console.warn('Could not set custom claims:', error);
+      }
+
+      const userData = {
+        uid: userRecord.uid,
+        email,
+        displayName: fullName,
+        full_name: fullName,
+        photoURL: userRecord.photoURL || null,
+        avatar_url: userRecord.photoURL || null,
+        role: userRole,
+        onboarding_completed: false,
+        sso_identities: {
+          [provider.id]: { sub: claims.sub, linked_at: new Date().toISOString() }
+        },
+        provisioned_by: `sso:${provider.id}`
+      };
+
+      await getFirestore().collection('users').doc(userRecord.uid).set({
+        ...userData,
+        created_at: admin.firestore.FieldValue.serverTimestamp(),
+        updated_at: admin.firestore.FieldValue.serverTimestamp()
+      });
+
+      try {
+        await AuditService.createLog({
+          user_id: userRecord.uid,
+          user_email: email,
+          action: 'SSO_USER_PROVISIONED',
+          resource_type: 'user',
+          resource_id: userRecord.uid,
+          details: { provider: provider.id, subject: claims.sub, role: userRole },
+          ip_address: ipAddress,
+          user_agent: userAgent
+        });
+      } catch (auditError) {
+        console.error('⚠️ Failed to log SSO provisioning:', auditError);
+      }
+
+      return { userRecord, userRole, userData, provisioned: true };
+    } catch (error) {
+      console.error('❌ Error provisioning SSO user:', error);
+      throw error;
+    }
+  }
+}
+
+OIDCService.DEFAULT_SCOPES = DEFAULT_SCOPES;
+
+module.exports = OIDCService;
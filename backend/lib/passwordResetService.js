@@ -0,0 +1,95 @@
+const crypto = require('crypto');
+const { getFirestore } = require('./firebaseAdmin');
+
+const RESETS_COLLECTION = 'password_resets';
+const RESET_TOKEN_TTL_MINUTES = 30;
+
+/**
+ * Single-use password reset tokens. The raw token only ever exists in the
+ * emailed link; Firestore keeps its SHA-256 hash as the document id, so a
+ * leaked collection cannot be used to reset anyone's password. Issuing a new
+ * token supersedes any the user still has outstanding.
+ */
+class PasswordResetService {
+  static hashToken(token) {
+    return crypto.createHash('sha256').update(String(token)).digest('hex');
+  }
+
+  /**
+   * Issue a reset token for a user
+   * @returns {Promise<{ token: string, expiresAt: string }>}
+   */
+  static async createToken({ userId, email, ipAddress, userAgent }) {
+    try {
+      const db = getFirestore();
+      const now = new Date();
+      const token = crypto.randomBytes(32).toString('hex');
+      const expiresAt = new Date(now.getTime() + RESET_TOKEN_TTL_MINUTES * 60 * 1000).toISOString();
+
+      const outstanding = await db.collection(RESETS_COLLECTION)
+        .where('user_id', '==', userId)
+        .where('used_at', '==', null)
+        .get();
+
+      const batch = db.batch();
+      outstanding.forEach(doc => {
+        batch.update(doc.ref, { used_at: now.toISOString(), used_reason: 'superseded' });
+      });
+
+      batch.set(db.collection(RESETS_COLLECTION).doc(this.hashToken(token)), {
+        user_id: userId,
+        email,
+        ip_address: ipAddress || '',
+        user_agent: userAgent || '',
+        created_at: now.toISOString(),
+        expires_at: expiresAt,
+        used_at: null,
+        used_reason: null
+      });
+
+      await batch.commit();
+
+      return { token, expiresAt };
+    } catch (error) {
+      console.error('❌ Error creating password reset token:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Redeem a reset token inside a transaction so it can only be used once
+   * @returns {Promise<{ userId: string, email: string } | null>} null when the token is unknown, used or expired
+   */
+  static async consumeToken(token) {
+    try {
+      if (!token || typeof token !== 'string') {
+        return null;
+      }
+
+      const db = getFirestore();
+      const docRef = db.collection(RESETS_COLLECTION).doc(this.hashToken(token));
+
+      return await db.runTransaction(async (transaction) => {
+        const doc = await transaction.get(docRef);
+        if (!doc.exists) {
+          return null;
+        }
+
+        const reset = doc.data();
+        if (reset.used_at || new Date(reset.expires_at).getTime() <= Date.now()) {
+          return null;
+        }
+
+        transaction.update(docRef, { used_at: new Date().toISOString(), used_reason: 'password_reset' });
+        return { userId: reset.user_id, email: reset.email };
+      });
+    } catch (error) {
+      console.error('❌ Error consuming password reset token:', error);
+      throw error;
+    }
+  }
+}
+
+PasswordResetService.RESET_TOKEN_TTL_MINUTES = RESET_TOKEN_TTL_MINUTES;
+
+module.exports = PasswordResetService;
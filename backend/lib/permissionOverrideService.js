@@ -0,0 +1,129 @@
+const { getFirestore } = require('./firebaseAdmin');
+
+const USERS_COLLECTION = 'users';
+const OVERRIDES_FIELD = 'permission_overrides';
+
+// Same shape as the Permission union in src/types/index.ts
+const PERMISSION_PATTERN = /^[a-z_]+:[a-z_]+$/;
+
+// Every authenticated request resolves the caller's role and overrides, so keep them briefly in memory
+const ACCESS_CACHE_TTL_MS = 30 * 1000;
+const ACCESS_CACHE_MAX_ENTRIES = 5000;
+
+const accessCache = new Map();
+
+const uniqueList = (value) => {
+  if (!Array.isArray(value)) return [];
+  return [...new Set(value.filter(item => typeof item === 'string' && PERMISSION_PATTERN.test(item)))].sort();
+};
+
+/**
+ * Per-user grant/deny permission overrides. They are stored on the users
+ * document and merged with the role's permissions by
+ * resolveEffectivePermissions. The copy signed into the access token is
+ * informational: requests are authorised with the stored role and overrides
+ * (getAccess), so a change applies within the cache window, not at the next refresh.
+ */
+class PermissionOverrideService {
+  /**
+   * Clean an overrides object: known-shape strings only, no duplicates,
+   * and a permission listed in both lists stays denied
+   */
+  static normalize(overrides = {}) {
+    const deny = uniqueList(overrides && overrides.deny);
+    const grant = uniqueList(overrides && overrides.grant).filter(permission => !deny.includes(permission));
+    return { grant, deny };
+  }
+
+  static isEmpty(overrides) {
+    return !overrides || ((overrides.grant || []).length === 0 && (overrides.deny || []).length === 0);
+  }
+
+  /**
+   * Token claim for a user document's overrides, or undefined to leave the claim out
+   */
+  static toClaim(stored) {
+    const overrides = this.normalize(stored);
+    return this.isEmpty(overrides) ? undefined : overrides;
+  }
+
+  /**
+   * @returns {Promise<{ role: string, overrides: { grant: string[], deny: string[] }, updated_at: string|null, updated_by: string|null } | null>}
+   */
+  static async getOverrides(userId) {
+    try {
+      const doc = await getFirestore().collection(USERS_COLLECTION).doc(userId).get();
+      if (!doc.exists) return null;
+
+      const data = doc.data() || {};
+      const stored = data[OVERRIDES_FIELD] || {};
+      return {
+        role: data.role || 'user',
+        overrides: this.normalize(stored),
+        updated_at: stored.updated_at || null,
+        updated_by: stored.updated_by || null
+      };
+    } catch (error) {
+      console.error('❌ Error fetching permission overrides:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Role and overrides currently stored for a user, cached for a few seconds.
+   * Returns null when the user document does not exist.
+   * @returns {Promise<{ role: string, overrides: { grant: string[], deny: string[] } } | null>}
+   */
+  static async getAccess(userId) {
+    const cached = accessCache.get(userId);
+    if (cached && Date.now() - cached.cachedAt < ACCESS_CACHE_TTL_MS) {
+      return cached.access;
+    }
+
+    try {
+      const doc = await getFirestore().collection(USERS_COLLECTION).doc(userId).get();
+      const data = doc.exists ? doc.data() || {} : null;
+      const access = data ? { role: data.role || 'user', overrides: this.normalize(data[OVERRIDES_FIELD] || {}) } : null;
+
+      if (accessCache.size >= ACCESS_CACHE_MAX_ENTRIES) {
+        accessCache.clear();
+      }
+      accessCache.set(userId, { access, cachedAt: Date.now() });
+      return access;
+    } catch (error) {
+      console.error('❌ Error fetching user access:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Drop a user's cached access after their role or overrides change
+   */
+  static invalidate(userId) {
+    accessCache.delete(userId);
+  }
+
+  /**
+   * Replace a user's overrides. Returns the normalised overrides that were stored.
+   */
+  static async setOverrides(userId, overrides, updatedBy) {
+    try {
+      const normalized = this.normalize(overrides);
+      await getFirestore().collection(USERS_COLLECTION).doc(userId).update({
+        [OVERRIDES_FIELD]: {
+          ...normalized,
+          updated_at: new Date().toISOString(),
+          updated_by: updatedBy || ''
+        },
+        updated_at: new Date().toISOString()
+      });
+      this.invalidate(userId);
+      return normalized;
+    } catch (error) {
+      console.error('❌ Error saving permission overrides:', error);
+      throw error;
+    }
+  }
+}
+
+module.exports = PermissionOverrideService;
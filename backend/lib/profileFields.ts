@@ -0,0 +1,35 @@
+/**
+ * Fields of a users document its owner may write, shared by the self-service
+ * paths of /api/users/profile, /api/users/[userId] and /api/users/data/[userId].
+ * Everything else (role, suspension, email, SSO links, deletion state,
+ * passwords) is changed through its own route and permission.
+ */
+export const SELF_EDITABLE_PROFILE_FIELDS = [
+  'full_name',
+  'displayName',
+  'avatar_url',
+  'photoURL',
+  'education_level',
+  'job_title',
+  'topics_of_interest',
+  'industry',
+  'experience_level',
+  'business_stage',
+  'country',
+  'state_province',
+  'city',
+  'onboarding_completed'
+] as const;
+
+/**
+ * The allowlisted profile fields present in a request body; anything else is dropped
+ */
+export const pickProfileFields = (body: Record<string, any> | null | undefined): Record<string, any> => {
+  const picked: Record<string, any> = {};
+  SELF_EDITABLE_PROFILE_FIELDS.forEach(field => {
+    if (body && body[field] !== undefined) {
+      picked[field] = body[field];
+    }
+  });
+  return picked;
+};
@@ -0,0 +1,488 @@
+const crypto = require('crypto');
+const { getFirestore } = require('./firebaseAdmin');
+
+const QUIZZES_COLLECTION = 'quizzes';
+const ATTEMPTS_COLLECTION = 'quiz_attempts';
+
+const QUESTION_TYPES = ['multiple_choice', 'multi_select', 'true_false', 'short_answer'];
+
+const TRUE_FALSE_OPTIONS = [{ id: 'true', text: 'True' }, { id: 'false', text: 'False' }];
+
+const MAX_QUESTIONS = 100;
+const MAX_OPTIONS = 10;
+
+// Written to the lesson's progress document (or the course's, for a final quiz) when the learner passes
+const QUIZ_PROGRESS_FIELDS = ['quiz_passed', 'quiz_best_score', 'quiz_xp', 'quiz_passed_at'];
+
+const quizError = (code, message) => {
+  const error = new Error(message);
+  error.code = code;
+  return error;
+};
+
+const quizIdFor = (courseId, lessonId) => (lessonId ? `lesson_${courseId}_${lessonId}` : `course_${courseId}`);
+
+const newId = (prefix) => `${prefix}_${crypto.randomBytes(6).toString('hex')}`;
+
+const progressRefFor = (db, userId, courseId, lessonId) => {
+  const courseProgress = db.collection('progress').doc(userId).collection('courses').doc(courseId);
+  return lessonId ? courseProgress.collection('lessons').doc(lessonId) : courseProgress;
+};
+
+const normalizeAnswer = (value) => String(value || '').trim().toLowerCase().replace(/\s+/g, ' ');
+
+const wholeNumber = (value, fallback, min, max) => {
+  if (value === undefined || value === null || value === '') return fallback;
+  const number = Number(value);
+  return Number.isInteger(number) && number >= min && number <= max ? number : NaN;
+};
+
+// Fisher-Yates with a cryptographic source, so the order cannot be predicted from earlier attempts
+const shuffle = (items) => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = crypto.randomInt(i + 1);
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+/**
+ * One question as authored, checked and with ids filled in
+ */
+const normalizeQuestion = (input, index) => {
+  const label = `Question ${index + 1}`;
+  const type = input?.type;
+  const prompt = typeof input?.prompt === 'string' ? input.prompt.trim() : '';
+
+  if (!QUESTION_TYPES.includes(type)) {
+    throw quizError('INVALID_QUIZ', `${label} has an unknown type`);
+  }
+  if (!prompt) {
+    throw quizError('INVALID_QUIZ', `${label} needs a prompt`);
+  }
+
+  const points = wholeNumber(input.points, 1, 1, 100);
+  if (Number.isNaN(points)) {
+    throw quizError('INVALID_QUIZ', `${label} must be worth 1 to 100 points`);
+  }
+
+  const question = {
+    id: typeof input.id === 'string' && input.id ? input.id : newId('q'),
+    type,
+    prompt,
+    explanation: typeof input.explanation === 'string' ? input.explanation.trim() : '',
+    points,
+    options: [],
+    correct_option_ids: [],
+    accepted_answers: []
+  };
+
+  if (type === 'short_answer') {
+    question.accepted_answers = (Array.isArray(input.accepted_answers) ? input.accepted_answers : [])
+      .map(answer => String(answer || '').trim())
+      .filter(Boolean);
+    if (question.accepted_answers.length === 0) {
+      throw quizError('INVALID_QUIZ', `${label} needs at least one accepted answer`);
+    }
+    return question;
+  }
+
+  question.options = type === 'true_false'
+    ? TRUE_FALSE_OPTIONS
+    : (Array.isArray(input.options) ? input.options : [])
+      .map(option => ({
+        id: typeof option?.id === 'string' && option.id ? option.id : newId('o'),
+        text: typeof option?.text === 'string' ? option.text.trim() : ''
+      }))
+      .filter(option => option.text);
+
+  if (question.options.length < 2 || question.options.length > MAX_OPTIONS) {
+    throw quizError('INVALID_QUIZ', `${label} needs between 2 and ${MAX_OPTIONS} options`);
+  }
+
+  const optionIds = question.options.map(option => option.id);
+  question.correct_option_ids = [...new Set(Array.isArray(input.correct_option_ids) ? input.correct_option_ids : [])]
+    .filter(id => optionIds.includes(id));
+
+  if (type === 'multi_select' ? question.correct_option_ids.length === 0 : question.correct_option_ids.length !== 1) {
+    throw quizError('INVALID_QUIZ', type === 'multi_select'
+      ? `${label} needs at least one correct option`
+      : `${label} needs exactly one correct option`);
+  }
+
+  return question;
+};
+
+const isCorrect = (question, answer) => {
+  if (question.type === 'short_answer') {
+    const given = normalizeAnswer(Array.isArray(answer) ? answer[0] : answer);
+    return !!given && question.accepted_answers.some(accepted => normalizeAnswer(accepted) === given);
+  }
+
+  const chosen = [...new Set((Array.isArray(answer) ? answer : [answer]).filter(id => typeof id === 'string'))];
+  return chosen.length === question.correct_option_ids.length
+    && chosen.every(id => question.correct_option_ids.includes(id));
+};
+
+/**
+ * Quizzes after a lesson or at the end of a course, graded on the server.
+ *
+ * A quiz lives in quizzes under a deterministic id (one per lesson, one final
+ * quiz per course). Learner attempts live in quiz_attempts; each starts with
+ * the question order fixed on the server and is graded once on submit.
+ * Passing writes the quiz_* progress fields, which is what gates lesson
+ * completion and certificates when the quiz is required.
+ */
+class QuizService {
+  /**
+   * The quiz with its answer key, or null
+   */
+  static async getQuiz(courseId, lessonId) {
+    try {
+      const doc = await getFirestore().collection(QUIZZES_COLLECTION).doc(quizIdFor(courseId, lessonId)).get();
+      return doc.exists ? { id: doc.id, ...doc.data() } : null;
+    } catch (error) {
+      console.error('❌ Error fetching quiz:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * What a learner sees: questions and options without the answer key
+   */
+  static toLearnerQuiz(quiz, questions = quiz.questions) {
+    return {
+      id: quiz.id,
+      course_id: quiz.course_id,
+      lesson_id: quiz.lesson_id,
+      title: quiz.title,
+      description: quiz.description,
+      pass_mark: quiz.pass_mark,
+      max_attempts: quiz.max_attempts,
+      required: quiz.required,
+      xp_points: quiz.xp_points,
+      question_count: quiz.questions.length,
+      questions: questions.map(({ id, type, prompt, points, options }) => ({ id, type, prompt, points, options }))
+    };
+  }
+
+  /**
+   * Create or replace the quiz after a lesson, or the course's final quiz without lessonId
+   */
+  static async saveQuiz(courseId, lessonId, input, actor) {
+    try {
+      const title = typeof input?.title === 'string' ? input.title.trim() : '';
+      if (!title) {
+        throw quizError('INVALID_QUIZ', 'Give the quiz a title');
+      }
+
+      const passMark = wholeNumber(input.pass_mark, 70, 0, 100);
+      const maxAttempts = wholeNumber(input.max_attempts, 0, 0, 100);
+      const xpPoints = wholeNumber(input.xp_points, 0, 0, 10000);
+      if ([passMark, maxAttempts, xpPoints].some(Number.isNaN)) {
+        throw quizError('INVALID_QUIZ', 'Pass mark must be 0-100%, attempts 0-100 (0 for unlimited) and XP a whole number');
+      }
+
+      const questionsInput = Array.isArray(input.questions) ? input.questions : [];
+      if (questionsInput.length === 0 || questionsInput.length > MAX_QUESTIONS) {
+        throw quizError('INVALID_QUIZ', `A quiz needs between 1 and ${MAX_QUESTIONS} questions`);
+      }
+      const questions = questionsInput.map(normalizeQuestion);
+
+      const db = getFirestore();
+      const courseRef = db.collection('courses').doc(courseId);
+      const contentDoc = await (lessonId ? courseRef.collection('lessons').doc(lessonId) : courseRef).get();
+      if (!contentDoc.exists) {
+        throw quizError('CONTENT_NOT_FOUND', `${lessonId ? 'Lesson' : 'Course'} not found`);
+      }
+
+      const quizRef = db.collection(QUIZZES_COLLECTION).doc(quizIdFor(courseId, lessonId));
+      const existing = await quizRef.get();
+      const now = new Date().toISOString();
+
+      const quiz = {
+        course_id: courseId,
+        lesson_id: lessonId || null,
+        title,
+        description: typeof input.description === 'string' ? input.description.trim() : '',
+        pass_mark: passMark,
+        max_attempts: maxAttempts,
+        shuffle_questions: input.shuffle_questions === true,
+        required: input.required === true,
+        xp_points: xpPoints,
+        questions,
+        created_by: existing.exists ? existing.data().created_by : actor.userId,
+        created_at: existing.exists ? existing.data().created_at : now,
+        updated_by: actor.userId,
+        updated_at: now
+      };
+
+      await quizRef.set(quiz);
+      return { id: quizRef.id, ...quiz };
+    } catch (error) {
+      console.error('❌ Error saving quiz:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a quiz; attempts stay for the record
+   * @returns {Promise<boolean>} false when there was no quiz
+   */
+  static async deleteQuiz(courseId, lessonId) {
+    try {
+      const quizRef = getFirestore().collection(QUIZZES_COLLECTION).doc(quizIdFor(courseId, lessonId));
+      const doc = await quizRef.get();
+      if (!doc.exists) return false;
+
+      await quizRef.delete();
+      return true;
+    } catch (error) {
+      console.error('❌ Error deleting quiz:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * A learner's standing on a quiz: attempts used and left, best score, and
+   * the attempt they have open (if any)
+   */
+  static async getLearnerSummary(userId, quiz) {
+    try {
+      const snapshot = await getFirestore().collection(ATTEMPTS_COLLECTION)
+        .where('user_id', '==', userId)
+        .where('quiz_id', '==', quiz.id)
+        .get();
+      const attempts = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }));
+      const submitted = attempts.filter(attempt => attempt.status === 'submitted');
+      const open = attempts.find(attempt => attempt.status === 'in_progress') || null;
+
+      return {
+        attempts_used: attempts.length,
+        attempts_remaining: quiz.max_attempts ? Math.max(quiz.max_attempts - attempts.length, 0) : null,
+        best_score: submitted.length > 0 ? Math.max(...submitted.map(attempt => attempt.percentage)) : null,
+        passed: submitted.some(attempt => attempt.passed),
+        open_attempt_id: open ? open.id : null
+      };
+    } catch (error) {
+      console.error('❌ Error fetching quiz attempts:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Start an attempt, or resume the one already open. The question order is
+   * fixed here (shuffled when the quiz asks for it) and kept on the attempt.
+   * @returns {Promise<{ attempt: object, quiz: object }>} the quiz as the learner sees it, in attempt order
+   */
+  static async startAttempt(userId, courseId, lessonId) {
+    try {
+      const quiz = await this.getQuiz(courseId, lessonId);
+      if (!quiz) {
+        throw quizError('QUIZ_NOT_FOUND', 'Quiz not found');
+      }
+
+      const db = getFirestore();
+      const attemptsQuery = db.collection(ATTEMPTS_COLLECTION)
+        .where('user_id', '==', userId)
+        .where('quiz_id', '==', quiz.id);
+
+      const attempt = await db.runTransaction(async (transaction) => {
+        const snapshot = await transaction.get(attemptsQuery);
+        const open = snapshot.docs.find(doc => doc.data().status === 'in_progress');
+        if (open) {
+          return { id: open.id, ...open.data() };
+        }
+
+        if (quiz.max_attempts && snapshot.size >= quiz.max_attempts) {
+          throw quizError('ATTEMPTS_EXHAUSTED', `You have used all ${quiz.max_attempts} attempts at this quiz`);
+        }
+
+        const questionIds = quiz.questions.map(question => question.id);
+        const created = {
+          user_id: userId,
+          quiz_id: quiz.id,
+          course_id: courseId,
+          lesson_id: lessonId || null,
+          attempt_number: snapshot.size + 1,
+          question_order: quiz.shuffle_questions ? shuffle(questionIds) : questionIds,
+          status: 'in_progress',
+          started_at: new Date().toISOString()
+        };
+        const attemptRef = db.collection(ATTEMPTS_COLLECTION).doc();
+        transaction.set(attemptRef, created);
+
+        return { id: attemptRef.id, ...created };
+      });
+
+      const byId = new Map(quiz.questions.map(question => [question.id, question]));
+      const ordered = attempt.question_order.map(id => byId.get(id)).filter(Boolean);
+
+      return {
+        attempt: { id: attempt.id, attempt_number: attempt.attempt_number, started_at: attempt.started_at },
+        quiz: this.toLearnerQuiz(quiz, ordered)
+      };
+    } catch (error) {
+      if (!['QUIZ_NOT_FOUND', 'ATTEMPTS_EXHAUSTED'].includes(error.code)) {
+        console.error('❌ Error starting quiz attempt:', error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Grade an open attempt. The first pass writes the quiz_* fields and the
+   * quiz's XP to the learner's progress; later passes only raise the best score.
+   * @param {Record<string, string | string[]>} answers option id(s) or text, by question id
+   */
+  static async submitAttempt(userId, courseId, attemptId, answers) {
+    try {
+      const db = getFirestore();
+      const attemptRef = db.collection(ATTEMPTS_COLLECTION).doc(attemptId);
+
+      return await db.runTransaction(async (transaction) => {
+        const attemptDoc = await transaction.get(attemptRef);
+        if (!attemptDoc.exists || attemptDoc.data().user_id !== userId || attemptDoc.data().course_id !== courseId) {
+          throw quizError('ATTEMPT_NOT_FOUND', 'Quiz attempt not found');
+        }
+
+        const attempt = attemptDoc.data();
+        if (attempt.status !== 'in_progress') {
+          throw quizError('ATTEMPT_SUBMITTED', 'This attempt has already been submitted');
+        }
+
+        const quizDoc = await transaction.get(db.collection(QUIZZES_COLLECTION).doc(attempt.quiz_id));
+        if (!quizDoc.exists) {
+          throw quizError('QUIZ_NOT_FOUND', 'Quiz not found');
+        }
+
+        const quiz = quizDoc.data();
+        const progressRef = progressRefFor(db, userId, attempt.course_id, attempt.lesson_id);
+        const progressDoc = await transaction.get(progressRef);
+        const progress = progressDoc.exists ? progressDoc.data() : {};
+
+        const given = answers && typeof answers === 'object' ? answers : {};
+        const results = quiz.questions.map(question => {
+          const correct = isCorrect(question, given[question.id]);
+          return {
+            question_id: question.id,
+            correct,
+            points_awarded: correct ? question.points : 0,
+            explanation: question.explanation || ''
+          };
+        });
+
+        const maxScore = quiz.questions.reduce((sum, question) => sum + question.points, 0);
+        const score = results.reduce((sum, result) => sum + result.points_awarded, 0);
+        const percentage = maxScore > 0 ? Math.round((score / maxScore) * 100) : 0;
+        const passed = percentage >= quiz.pass_mark;
+        const firstPass = passed && !progress.quiz_passed;
+        const now = new Date().toISOString();
+
+        // Only answers to this quiz's questions are kept, and short answers are capped
+        const stored = Object.fromEntries(quiz.questions.map(question => {
+          const answer = given[question.id];
+          return [question.id, typeof answer === 'string' ? answer.slice(0, 500) : (Array.isArray(answer) ? answer.slice(0, MAX_OPTIONS) : null)];
+        }));
+
+        transaction.update(attemptRef, {
+          status: 'submitted',
+          answers: stored,
+          results,
+          score,
+          max_score: maxScore,
+          percentage,
+          passed,
+          xp_awarded: firstPass ? quiz.xp_points : 0,
+          submitted_at: now
+        });
+
+        const progressUpdate = {
+          user_id: userId,
+          course_id: attempt.course_id,
+          quiz_best_score: Math.max(progress.quiz_best_score || 0, percentage),
+          updated_at: now
+        };
+        if (attempt.lesson_id) {
+          progressUpdate.lesson_id = attempt.lesson_id;
+        }
+        if (firstPass) {
+          Object.assign(progressUpdate, { quiz_passed: true, quiz_passed_at: now, quiz_xp: quiz.xp_points });
+        }
+        transaction.set(progressRef, progressUpdate, { merge: true });
+
+        return {
+          attempt_id: attemptId,
+          attempt_number: attempt.attempt_number,
+          score,
+          max_score: maxScore,
+          percentage,
+          pass_mark: quiz.pass_mark,
+          passed,
+          xp_awarded: firstPass ? quiz.xp_points : 0,
+          results,
+          attempts_remaining: quiz.max_attempts ? Math.max(quiz.max_attempts - attempt.attempt_number, 0) : null
+        };
+      });
+    } catch (error) {
+      if (!['ATTEMPT_NOT_FOUND', 'ATTEMPT_SUBMITTED', 'QUIZ_NOT_FOUND'].includes(error.code)) {
+        console.error('❌ Error submitting quiz attempt:', error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * The required quiz a learner still has to pass before the lesson counts as complete
+   * @returns {Promise<object | null>} null when nothing stands in the way
+   */
+  static async getLessonGate(userId, courseId, lessonId) {
+    try {
+      const quiz = await this.getQuiz(courseId, lessonId);
+      if (!quiz || !quiz.required) return null;
+
+      const progressDoc = await progressRefFor(getFirestore(), userId, courseId, lessonId).get();
+      return progressDoc.exists && progressDoc.data().quiz_passed
+        ? null
+        : { quiz_id: quiz.id, title: quiz.title, pass_mark: quiz.pass_mark };
+    } catch (error) {
+      console.error('❌ Error checking lesson quiz gate:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Required quizzes in a course (lesson quizzes and the final quiz) the learner has not passed
+   */
+  static async getCertificateGate(userId, courseId) {
+    try {
+      const db = getFirestore();
+      const snapshot = await db.collection(QUIZZES_COLLECTION)
+        .where('course_id', '==', courseId)
+        .where('required', '==', true)
+        .get();
+
+      const outstanding = [];
+      for (const doc of snapshot.docs) {
+        const quiz = doc.data();
+        const progressDoc = await progressRefFor(db, userId, courseId, quiz.lesson_id).get();
+        if (!progressDoc.exists || !progressDoc.data().quiz_passed) {
+          outstanding.push({ quiz_id: doc.id, lesson_id: quiz.lesson_id, title: quiz.title, pass_mark: quiz.pass_mark });
+        }
+      }
+
+      return outstanding;
+    } catch (error) {
+      console.error('❌ Error checking certificate quiz gate:', error);
+      throw error;
+    }
+  }
+}
+
+QuizService.QUIZZES_COLLECTION = QUIZZES_COLLECTION;
+QuizService.ATTEMPTS_COLLECTION = ATTEMPTS_COLLECTION;
+QuizService.QUESTION_TYPES = QUESTION_TYPES;
+QuizService.QUIZ_PROGRESS_FIELDS = QUIZ_PROGRESS_FIELDS;
+
+module.exports = QuizService;
@@ -0,0 +1,189 @@
+const { getFirestore } = require('./firebaseAdmin');
+const SystemConfigService = require('./systemConfigService');
+const { RATE_LIMITS_COLLECTION, createRateLimitStore, docIdForKey } = require('./rateLimitStore');
+
+const MINUTE = 60 * 1000;
+
+/**
+ * Per-account limits for the sensitive unauthenticated endpoints. Every action
+ * is also limited per IP to `maxRequestsPerMinute` from the system config.
+ *
+ * countOn 'failure' only counts attempts reported through recordFailure
+ * (e.g. wrong passwords); 'request' counts every call.
+ */
+const POLICIES = {
+  login: { account: { max: 5, windowMs: 15 * MINUTE, countOn: 'failure' } },
+  mfa_verify: { account: { max: 10, windowMs: 15 * MINUTE, countOn: 'failure' } },
+  otp_send: { account: { max: 3, windowMs: 10 * MINUTE, countOn: 'request' } },
+  otp_verify: { account: { max: 10, windowMs: 15 * MINUTE, countOn: 'failure' } },
+  register: { account: { max: 3, windowMs: 60 * MINUTE, countOn: 'request' } },
+  password_reset: { account: { max: 3, windowMs: 60 * MINUTE, countOn: 'request' } }
+};
+
+const store = createRateLimitStore();
+
+const keyFor = (action, scope, identifier) => `${action}:${scope}:${identifier}`;
+
+const normalizeAccount = (account) => (typeof account === 'string' ? account.trim().toLowerCase() : '');
+
+class RateLimitService {
+  /**
+   * Resolve the limits for an action, or null when rate limiting is switched off
+   */
+  static async getLimits(action) {
+    const policy = POLICIES[action];
+    if (!policy) {
+      throw new Error(`Unknown rate limit action: ${action}`);
+    }
+
+    const config = await SystemConfigService.getConfig();
+    if (config.rateLimiting === false) {
+      return null;
+    }
+
+    return {
+      ip: { max: Number(config.maxRequestsPerMinute) || 100, windowMs: MINUTE },
+      account: policy.account
+    };
+  }
+
+  /**
+   * Count a request against the IP (and, for request-counted actions, the account)
+   * window and report whether it may proceed.
+   *
+   * @returns {Promise<{ allowed: boolean, scope?: 'ip' | 'account', retryAfter?: number }>}
+   */
+  static async consume(action, { ip, account } = {}) {
+    try {
+      const limits = await this.getLimits(action);
+      if (!limits) {
+        return { allowed: true };
+      }
+
+      const now = Date.now();
+
+      if (ip) {
+        const result = await store.hit(keyFor(action, 'ip', ip), { ...limits.ip, now }, { identifier: ip, scope: 'ip', endpoint: action });
+        if (!result.allowed) {
+          return this.blocked(action, 'ip', ip, result, limits.ip);
+        }
+      }
+
+      const accountId = normalizeAccount(account);
+      if (accountId) {
+        const key = keyFor(action, 'account', accountId);
+        const options = { ...limits.account, now };
+        const result = limits.account.countOn === 'failure'
+          ? await store.peek(key, options)
+          : await store.hit(key, options, { identifier: accountId, scope: 'account', endpoint: action });
+
+        if (!result.allowed) {
+          return this.blocked(action, 'account', accountId, result, limits.account);
+        }
+      }
+
+      return { allowed: true };
+    } catch (error) {
+      // Fail open: a store outage must not lock everyone out of signing in
+      console.error('❌ Rate limit check failed:', error);
+      return { allowed: true };
+    }
+  }
+
+  /**
+   * Count a failed attempt (wrong password, wrong code) against the account
+   */
+  static async recordFailure(action, account) {
+    try {
+      const limits = await this.getLimits(action);
+      const accountId = normalizeAccount(account);
+      if (!limits || !accountId) {
+        return;
+      }
+
+      await store.hit(
+        keyFor(action, 'account', accountId),
+        { ...limits.account, now: Date.now() },
+        { identifier: accountId, scope: 'account', endpoint: action }
+      );
+    } catch (error) {
+      console.error('❌ Error recording rate limit failure:', error);
+    }
+  }
+
+  /**
+   * Clear an account's failures after a successful attempt
+   */
+  static async reset(action, account) {
+    try {
+      const accountId = normalizeAccount(account);
+      if (accountId) {
+        await store.reset(keyFor(action, 'account', accountId));
+      }
+    } catch (error) {
+      console.error('❌ Error resetting rate limit:', error);
+    }
+  }
+
+  /**
+   * Current standing of an IP/account without counting a request
+   */
+  static async getStatus(action, { ip, account } = {}) {
+    const limits = await this.getLimits(action);
+    if (!limits) {
+      return { enabled: false };
+    }
+
+    const now = Date.now();
+    const accountId = normalizeAccount(account);
+
+    return {
+      enabled: true,
+      ip: ip ? await store.peek(keyFor(action, 'ip', ip), { ...limits.ip, now }) : null,
+      account: accountId ? await store.peek(keyFor(action, 'account', accountId), { ...limits.account, now }) : null
+    };
+  }
+
+  static async blocked(action, scope, identifier, result, limit) {
+    const retryAfter = Math.max(1, Math.ceil(result.retryAfterMs / 1000));
+    await this.recordBlock(action, scope, identifier, retryAfter, limit);
+    return { allowed: false, scope, retryAfter };
+  }
+
+  /**
+   * Record the blocked identifier in `rate_limits` so lockouts are visible to admins
+   */
+  static async recordBlock(action, scope, identifier, retryAfter, limit) {
+    try {
+      const now = Date.now();
+      await getFirestore().collection(RATE_LIMITS_COLLECTION).doc(docIdForKey(keyFor(action, scope, identifier))).set({
+        identifier,
+        scope,
+        endpoint: action,
+        limit: limit.max,
+        window_ms: limit.windowMs,
+        blocked_at: new Date(now).toISOString(),
+        blocked_until: new Date(now + retryAfter * 1000).toISOString(),
+        updated_at: new Date(now).toISOString()
+      }, { merge: true });
+    } catch (error) {
+      console.error('⚠️ Failed to record rate limit block:', error);
+    }
+  }
+
+  /**
+   * Send a 429 with Retry-After for a blocked result from consume()
+   */
+  static sendRateLimited(res, result, message = 'Too many requests. Please try again later.') {
+    res.setHeader('Retry-After', String(result.retryAfter));
+    return res.status(429).json({
+      error: message,
+      code: 'RATE_LIMITED',
+      retryAfter: result.retryAfter
+    });
+  }
+}
+
+RateLimitService.POLICIES = POLICIES;
+
+module.exports = RateLimitService;
@@ -0,0 +1,141 @@
+const crypto = require('crypto');
+const { getFirestore } = require('./firebaseAdmin');
+
+const RATE_LIMITS_COLLECTION = 'rate_limits';
+const MEMORY_SWEEP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Sliding-window log shared by both stores: drop hits older than the window,
+ * then either record the new hit or report how long until the oldest expires.
+ */
+const applyWindow = (hits, { max, windowMs, now, record }) => {
+  const live = (hits || []).filter(timestamp => now - timestamp < windowMs);
+
+  if (live.length >= max) {
+    return {
+      hits: live,
+      result: { allowed: false, count: live.length, retryAfterMs: live[live.length - max] + windowMs - now }
+    };
+  }
+
+  if (record) {
+    live.push(now);
+  }
+
+  return {
+    hits: live,
+    result: { allowed: true, count: live.length, retryAfterMs: 0 }
+  };
+};
+
+const docIdForKey = (key) => crypto.createHash('sha256').update(key).digest('hex').slice(0, 40);
+
+/**
+ * Per-process store. Fine for a single instance and for development; limits
+ * reset on restart and are not shared between instances. Keys that are not
+ * hit again are swept once their window has passed, at most once a minute.
+ */
+class MemoryRateLimitStore {
+  constructor() {
+    // key -> { hits, expiresAt }
+    this.windows = new Map();
+    this.lastSweepAt = 0;
+  }
+
+  async hit(key, options) {
+    return this.apply(key, { ...options, record: true });
+  }
+
+  async peek(key, options) {
+    return this.apply(key, { ...options, record: false });
+  }
+
+  async reset(key) {
+    this.windows.delete(key);
+  }
+
+  apply(key, options) {
+    this.sweep(options.now);
+
+    const { hits, result } = applyWindow(this.windows.get(key)?.hits, options);
+
+    if (hits.length > 0) {
+      this.windows.set(key, { hits, expiresAt: hits[hits.length - 1] + options.windowMs });
+    } else {
+      this.windows.delete(key);
+    }
+
+    return result;
+  }
+
+  sweep(now) {
+    if (now - this.lastSweepAt < MEMORY_SWEEP_INTERVAL_MS) return;
+    this.lastSweepAt = now;
+
+    for (const [key, entry] of this.windows) {
+      if (entry.expiresAt <= now) {
+        this.windows.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Firestore-backed store. Each key is one `rate_limits` document updated in a
+ * transaction, so limits hold across deploys and instances.
+ */
+class FirestoreRateLimitStore {
+  async hit(key, options, meta = {}) {
+    return this.apply(key, { ...options, record: true }, meta);
+  }
+
+  async peek(key, options) {
+    const doc = await getFirestore().collection(RATE_LIMITS_COLLECTION).doc(docIdForKey(key)).get();
+    return applyWindow(doc.exists ? doc.data().hits : [], { ...options, record: false }).result;
+  }
+
+  async reset(key) {
+    await getFirestore().collection(RATE_LIMITS_COLLECTION).doc(docIdForKey(key)).delete();
+  }
+
+  async apply(key, options, meta) {
+    const db = getFirestore();
+    const docRef = db.collection(RATE_LIMITS_COLLECTION).doc(docIdForKey(key));
+
+    return db.runTransaction(async (transaction) => {
+      const doc = await transaction.get(docRef);
+      const { hits, result } = applyWindow(doc.exists ? doc.data().hits : [], options);
+
+      if (result.allowed) {
+        transaction.set(docRef, {
+          ...meta,
+          hits,
+          request_count: hits.length,
+          window_start: new Date(hits[0] || options.now).toISOString(),
+          window_end: new Date((hits[0] || options.now) + options.windowMs).toISOString(),
+          updated_at: new Date(options.now).toISOString()
+        }, { merge: true });
+      }
+
+      return result;
+    });
+  }
+}
+
+/**
+ * Pick the store from RATE_LIMIT_STORE ('memory' by default, or 'firestore')
+ */
+const createRateLimitStore = () => {
+  if ((process.env.RATE_LIMIT_STORE || '').toLowerCase() === 'firestore') {
+    return new FirestoreRateLimitStore();
+  }
+  return new MemoryRateLimitStore();
+};
+
+module.exports = {
+  RATE_LIMITS_COLLECTION,
+  MemoryRateLimitStore,
+  FirestoreRateLimitStore,
+  createRateLimitStore,
+  docIdForKey
+};
@@ -0,0 +1,263 @@
+import {
+  BUILT_IN_ROLES,
+  Permission,
+  ROLE_HIERARCHY,
+  ROLE_PERMISSIONS,
+  RoleDefinition,
+  UserRole,
+  canManageRole,
+  resolveEffectivePermissions
+} from '../../src/types';
+import { getRoleDescription } from '../../src/utils/permissions';
+import { standardizeRole } from '../../src/lib/roleStandardization';
+import { getFirestore } from './firebaseAdmin';
+
+const ROLES_COLLECTION = 'roles';
+const USERS_COLLECTION = 'users';
+
+// Role names double as document ids and as the role stored on users
+const ROLE_NAME_PATTERN = /^[A-Za-z][A-Za-z0-9 _-]{1,39}$/;
+
+// Levels custom roles may use; Super Admin alone sits at the top
+export const MIN_ROLE_LEVEL = 1;
+export const MAX_CUSTOM_ROLE_LEVEL = ROLE_HIERARCHY['Super Admin'] - 1;
+
+// Super Admin holds every permission, so its list doubles as the catalogue
+const KNOWN_PERMISSIONS = new Set<Permission>(ROLE_PERMISSIONS['Super Admin']);
+
+// Every authenticated request resolves its role, so keep the definitions briefly in memory
+const CACHE_TTL_MS = 30 * 1000;
+
+let cachedRoles: RoleDefinition[] | null = null;
+let cachedAt = 0;
+
+export interface RoleInput {
+  name?: string;
+  description?: string;
+  permissions?: Permission[];
+  level?: number;
+}
+
+const builtInDefinition = (name: (typeof BUILT_IN_ROLES)[number]): RoleDefinition => ({
+  name,
+  description: getRoleDescription(name),
+  permissions: ROLE_PERMISSIONS[name],
+  level: ROLE_HIERARCHY[name],
+  built_in: true
+});
+
+const fromDoc = (name: string, data: Record<string, any>): RoleDefinition => ({
+  name,
+  description: data.description || '',
+  permissions: Array.isArray(data.permissions) ? data.permissions : [],
+  level: Number(data.level) || MIN_ROLE_LEVEL,
+  built_in: data.built_in === true,
+  created_at: data.created_at || null,
+  updated_at: data.updated_at || null,
+  updated_by: data.updated_by || null
+});
+
+// The name is the document id, so it is not repeated in the document
+const toDoc = ({ name, ...data }: RoleDefinition) => data;
+
+/**
+ * Role definitions stored in the roles collection. Built-in roles are seeded
+ * from ROLE_PERMISSIONS and ROLE_HIERARCHY the first time the roles are read,
+ * can be edited but never deleted, and Super Admin always keeps full access.
+ */
+export default class RoleService {
+  static invalidate() {
+    cachedRoles = null;
+    cachedAt = 0;
+  }
+
+  /**
+   * All roles ordered by level (highest first), seeding any missing built-in role
+   */
+  static async listRoles(): Promise<RoleDefinition[]> {
+    if (cachedRoles && Date.now() - cachedAt < CACHE_TTL_MS) {
+      return cachedRoles;
+    }
+
+    try {
+      const db = getFirestore();
+      const snapshot = await db.collection(ROLES_COLLECTION).get();
+      const stored = new Map<string, RoleDefinition>();
+      snapshot.forEach((doc: any) => {
+        stored.set(doc.id, fromDoc(doc.id, doc.data()));
+      });
+
+      const missing = BUILT_IN_ROLES.filter(name => !stored.has(name));
+      if (missing.length > 0) {
+        const batch = db.batch();
+        const now = new Date().toISOString();
+        missing.forEach(name => {
+          const definition = { ...builtInDefinition(name), created_at: now, updated_at: now, updated_by: 'system' };
+          batch.set(db.collection(ROLES_COLLECTION).doc(name), toDoc(definition));
+          stored.set(name, definition);
+        });
+        await batch.commit();
+        console.log(`✅ Seeded built-in roles: ${missing.join(', ')}`);
+      }
+
+      // Super Admin cannot be narrowed or moved, whatever the stored document says
+      stored.set('Super Admin', { ...stored.get('Super Admin')!, ...builtInDefinition('Super Admin'), built_in: true });
+
+      cachedRoles = Array.from(stored.values()).sort((a, b) => b.level - a.level || a.name.localeCompare(b.name));
+      cachedAt = Date.now();
+      return cachedRoles;
+    } catch (error) {
+      console.error('❌ Error fetching roles:', error);
+      throw error;
+    }
+  }
+
+  static async getRole(name: UserRole): Promise<RoleDefinition | null> {
+    const roles = await this.listRoles();
+    return roles.find(role => role.name === name) || null;
+  }
+
+  /**
+   * Permissions of a stored role. Falls back to the built-in matrix when the
+   * roles cannot be read, and to 'user' for names without a definition.
+   */
+  static async getRolePermissions(name: UserRole): Promise<Permission[]> {
+    try {
+      const role = await this.getRole(name);
+      return role ? role.permissions : ROLE_PERMISSIONS.user;
+    } catch (error) {
+      console.warn('⚠️ Falling back to built-in role permissions:', error);
+      return ROLE_PERMISSIONS[name] || ROLE_PERMISSIONS.user;
+    }
+  }
+
+  /**
+   * Effective permissions of a stored user: their role's, with per-user overrides applied
+   */
+  static async getUserPermissions(userData: { role?: string; permission_overrides?: any; [key: string]: any }): Promise<Permission[]> {
+    const role = standardizeRole(userData.role);
+    return resolveEffectivePermissions(role, userData.permission_overrides, await this.getRolePermissions(role)).permissions;
+  }
+
+  /**
+   * Role name -> level for every stored role
+   */
+  static async getHierarchy(): Promise<Record<string, number>> {
+    const roles = await this.listRoles();
+    return roles.reduce<Record<string, number>>((hierarchy, role) => {
+      hierarchy[role.name] = role.level;
+      return hierarchy;
+    }, {});
+  }
+
+  /**
+   * canManageRole against the stored hierarchy
+   */
+  static async canManageRole(currentRole: UserRole, targetRole: UserRole): Promise<boolean> {
+    return canManageRole(currentRole, targetRole, await this.getHierarchy());
+  }
+
+  /**
+   * Check a create/update payload. Returns an error message, or null when valid.
+   */
+  static validate(input: RoleInput, { creating }: { creating: boolean }): string | null {
+    if (creating && (typeof input.name !== 'string' || !ROLE_NAME_PATTERN.test(input.name.trim()))) {
+      return 'Role name must be 2-40 characters: letters, numbers, spaces, hyphens or underscores, starting with a letter';
+    }
+    // Names such as 'admin' or 'content_manager' are aliases of built-in roles
+    if (creating && standardizeRole(input.name) !== (input.name as string).trim()) {
+      return `"${(input.name as string).trim()}" is reserved for the ${standardizeRole(input.name)} role`;
+    }
+    if (input.description !== undefined && (typeof input.description !== 'string' || input.description.length > 300)) {
+      return 'Description must be text of at most 300 characters';
+    }
+    if (input.level !== undefined &&
+      (!Number.isInteger(input.level) || input.level < MIN_ROLE_LEVEL || input.level > MAX_CUSTOM_ROLE_LEVEL)) {
+      return `Level must be a whole number from ${MIN_ROLE_LEVEL} to ${MAX_CUSTOM_ROLE_LEVEL}`;
+    }
+    if (input.permissions !== undefined) {
+      if (!Array.isArray(input.permissions)) {
+        return 'Permissions must be a list';
+      }
+      const unknown = input.permissions.filter(permission => !KNOWN_PERMISSIONS.has(permission));
+      if (unknown.length > 0) {
+        return `Unknown permissions: ${unknown.join(', ')}`;
+      }
+      if (input.permissions.includes('system:full_access')) {
+        return 'Full system access comes only with the Super Admin role';
+      }
+    }
+    return null;
+  }
+
+  static async createRole(input: RoleInput, updatedBy: string): Promise<RoleDefinition> {
+    try {
+      const now = new Date().toISOString();
+      const name = (input.name || '').trim();
+      const definition: RoleDefinition = {
+        name,
+        description: (input.description || '').trim(),
+        permissions: Array.from(new Set(input.permissions || [])),
+        level: input.level ?? MIN_ROLE_LEVEL,
+        built_in: false,
+        created_at: now,
+        updated_at: now,
+        updated_by: updatedBy || ''
+      };
+
+      // create() fails if the name is taken, including by a built-in role
+      await getFirestore().collection(ROLES_COLLECTION).doc(name).create(toDoc(definition));
+      this.invalidate();
+      return definition;
+    } catch (error) {
+      console.error('❌ Error creating role:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a role's description, permissions or level. Built-in roles keep their level.
+   */
+  static async updateRole(existing: RoleDefinition, input: RoleInput, updatedBy: string): Promise<RoleDefinition> {
+    try {
+      const updated: RoleDefinition = {
+        ...existing,
+        description: input.description !== undefined ? input.description.trim() : existing.description,
+        permissions: input.permissions !== undefined ? Array.from(new Set(input.permissions)) : existing.permissions,
+        level: existing.built_in || input.level === undefined ? existing.level : input.level,
+        updated_at: new Date().toISOString(),
+        updated_by: updatedBy || ''
+      };
+
+      await getFirestore().collection(ROLES_COLLECTION).doc(existing.name).set(toDoc(updated));
+      this.invalidate();
+      return updated;
+    } catch (error) {
+      console.error('❌ Error updating role:', error);
+      throw error;
+    }
+  }
+
+  static async deleteRole(name: UserRole): Promise<void> {
+    try {
+      await getFirestore().collection(ROLES_COLLECTION).doc(name).delete();
+      this.invalidate();
+    } catch (error) {
+      console.error('❌ Error deleting role:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Whether any user document still carries the role
+   */
+  static async isRoleAssigned(name: UserRole): Promise<boolean> {
+    try {
+      const snapshot = await getFirestore().collection(USERS_COLLECTION).where('role', '==', name).limit(1).get();
+      return !snapshot.empty;
+    } catch (error) {
+      console.error('❌ Error checking role assignments:', error);
+      throw error;
+    }
+  }
+}
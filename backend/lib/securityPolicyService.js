@@ -0,0 +1,112 @@
+const { getFirestore } = require('./firebaseAdmin');
+
+const SETTINGS_COLLECTION = 'system_settings';
+const POLICY_DOC = 'security_policy';
+
+// Mirrors the SecurityPolicy type in src/types/index.ts
+const DEFAULT_POLICY = {
+  passwordPolicy: {
+    minLength: 8,
+    requireUppercase: true,
+    requireLowercase: true,
+    requireNumbers: true,
+    requireSpecialChars: true
+  },
+  sessionSettings: {
+    sessionTimeout: 30,
+    maxConcurrentSessions: 3,
+    requireReauth: true
+  },
+  ipWhitelist: [],
+  twoFactorAuth: {
+    enabled: true,
+    requiredRoles: []
+  },
+  auditSettings: {
+    logRetention: 90,
+    logLevel: 'detailed'
+  }
+};
+
+// Every authenticated request consults the policy, so keep it briefly in memory
+const CACHE_TTL_MS = 30 * 1000;
+
+let cachedPolicy = null;
+let cachedAt = 0;
+
+const mergePolicy = (stored = {}) => ({
+  passwordPolicy: { ...DEFAULT_POLICY.passwordPolicy, ...(stored.passwordPolicy || {}) },
+  sessionSettings: { ...DEFAULT_POLICY.sessionSettings, ...(stored.sessionSettings || {}) },
+  ipWhitelist: Array.isArray(stored.ipWhitelist) ? stored.ipWhitelist : DEFAULT_POLICY.ipWhitelist,
+  twoFactorAuth: { ...DEFAULT_POLICY.twoFactorAuth, ...(stored.twoFactorAuth || {}) },
+  auditSettings: { ...DEFAULT_POLICY.auditSettings, ...(stored.auditSettings || {}) }
+});
+
+class SecurityPolicyService {
+  /**
+   * Load the platform security policy, filling in defaults for anything unset
+   */
+  static async getPolicy() {
+    if (cachedPolicy && Date.now() - cachedAt < CACHE_TTL_MS) {
+      return cachedPolicy;
+    }
+
+    try {
+      const db = getFirestore();
+      const doc = await db.collection(SETTINGS_COLLECTION).doc(POLICY_DOC).get();
+      const stored = doc.exists ? doc.data() : {};
+
+      cachedPolicy = {
+        ...mergePolicy(stored),
+        updated_at: stored.updated_at || null,
+        updated_by: stored.updated_by || null
+      };
+      cachedAt = Date.now();
+      return cachedPolicy;
+    } catch (error) {
+      console.error('❌ Error fetching security policy:', error);
+      throw error;
+    }
+  }
+
+  static async updatePolicy(policy, updatedBy) {
+    try {
+      const db = getFirestore();
+      const merged = {
+        ...mergePolicy(policy),
+        updated_at: new Date().toISOString(),
+        updated_by: updatedBy || ''
+      };
+
+      await db.collection(SETTINGS_COLLECTION).doc(POLICY_DOC).set(merged);
+
+      cachedPolicy = merged;
+      cachedAt = Date.now();
+      return merged;
+    } catch (error) {
+      console.error('❌ Error updating security policy:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Idle timeout in milliseconds; 0 disables idle expiry
+   */
+  static async getIdleTimeoutMs() {
+    const policy = await this.getPolicy();
+    const minutes = Number(policy.sessionSettings.sessionTimeout);
+    return minutes > 0 ? minutes * 60 * 1000 : 0;
+  }
+
+  /**
+   * Whether members of a role must complete TOTP two-factor authentication to sign in
+   */
+  static async isMfaRequiredForRole(role) {
+    const policy = await this.getPolicy();
+    return policy.twoFactorAuth.enabled === true && policy.twoFactorAuth.requiredRoles.includes(role);
+  }
+}
+
+SecurityPolicyService.DEFAULT_POLICY = DEFAULT_POLICY;
+
+module.exports = SecurityPolicyService;
@@ -1,2 +1,240 @@
-// REMOVED: server auth helpers
-export default {};
+/**
+ * Server Auth Helpers
+ * Declarative authentication and permission checks for Next.js API routes.
+ *
+ * Usage:
+ *   export default withAuth({ permissions: ['users:view'], selfOnly: 'userId' }, handler);
+ *
+ * Permissions are resolved from the role and per-user overrides stored on the
+ * users document of the verified JWT subject (PermissionOverrideService.getAccess,
+ * cached for a few seconds) through the stored role definitions (RoleService),
+ * so demotions and new denies apply without waiting for a token refresh. Nothing
+ * else the client sends is trusted. Impersonation
+ * tokens ("view as user") are read-only, cannot reach staff routes, and every
+ * request made with one is audited under the support agent. The sign-in endpoints under /api/auth
+ * (login, register, refresh, logout, OTP), the /api/register signup and
+ * /api/health stay unwrapped because they run before a session exists.
+ */
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import JWTManager from './jwtManager';
+import RoleService from './roleService';
+import ImpersonationService from './impersonationService';
+import SessionService from './sessionService';
+import PermissionOverrideService from './permissionOverrideService';
+import { Permission, PermissionOverrides, ROLE_PERMISSIONS, UserRole, hasAllPermissions, hasPermission, resolveEffectivePermissions } from '../../src/types';
+import { standardizeRole } from '../../src/lib/roleStandardization';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+// Methods an impersonation session may use on any route
+const READ_METHODS: string[] = ['GET', 'HEAD', 'OPTIONS'];
+
+export interface ImpersonatorContext {
+  userId: string;
+  email: string;
+  role: UserRole;
+  sessionId: string;
+}
+
+export interface AuthContext {
+  userId: string;
+  email: string;
+  role: UserRole;
+  sessionId: string;
+  permissions: Permission[];
+  /** True when the request targets the caller's own `selfOnly` resource */
+  isSelf: boolean;
+  /** The verified token payload, for profile claims such as displayName */
+  claims: Record<string, any>;
+  /** The support agent when this is a "view as user" session; the rest of the context is the viewed user */
+  impersonator?: ImpersonatorContext;
+}
+
+export interface AuthenticatedRequest extends NextApiRequest {
+  auth: AuthContext;
+}
+
+export interface WithAuthOptions {
+  /**
+   * Permissions the caller must hold (all of them). Pass a per-method map when
+   * verbs on the same route need different permissions; methods missing from
+   * the map only require a valid session.
+   */
+  permissions?: Permission[] | Partial<Record<HttpMethod, Permission[]>>;
+  /**
+   * Query parameter that names the owning user (e.g. 'userId'). Owners may use
+   * the route without the permissions above; everyone else needs them, and
+   * with no permissions configured nobody else gets in.
+   */
+  selfOnly?: 'userId';
+  /** Methods served without authentication, e.g. public catalogue reads */
+  publicMethods?: HttpMethod[];
+  /** Write methods an impersonation session may still use, e.g. ending the impersonation */
+  impersonationMethods?: HttpMethod[];
+}
+
+type AuthenticatedHandler = (req: AuthenticatedRequest, res: NextApiResponse) => unknown | Promise<unknown>;
+
+export const AUTH_ERRORS = {
+  UNAUTHENTICATED: { status: 401, error: 'Authentication required' },
+  INVALID_TOKEN: { status: 401, error: 'Invalid or expired token' },
+  FORBIDDEN: { status: 403, error: 'Insufficient permissions' },
+  IMPERSONATION_READ_ONLY: { status: 403, error: 'Changes are not allowed while viewing as another user' },
+  IMPERSONATION_RESTRICTED: { status: 403, error: 'Staff tools are not available while viewing as another user' }
+} as const;
+
+export const sendAuthError = (res: NextApiResponse, code: keyof typeof AUTH_ERRORS) => {
+  const { status, error } = AUTH_ERRORS[code];
+  return res.status(status).json({ success: false, error, code });
+};
+
+/**
+ * Check a single permission against an authenticated request
+ * (for field-level rules inside a handler, e.g. changing a role)
+ */
+export const authHasPermission = (auth: AuthContext, permission: Permission): boolean => {
+  return hasPermission(auth.permissions, permission);
+};
+
+const requiredPermissionsFor = (
+  method: string | undefined,
+  permissions: WithAuthOptions['permissions']
+): Permission[] => {
+  if (!permissions) return [];
+  if (Array.isArray(permissions)) return permissions;
+  return permissions[(method || 'GET').toUpperCase() as HttpMethod] || [];
+};
+
+/**
+ * Resolve the caller from the request token. Returns null when there is no
+ * token or it does not verify against an active session.
+ */
+export const authenticateRequest = async (req: NextApiRequest): Promise<Omit<AuthContext, 'isSelf'> | null> => {
+  const token = JWTManager.extractTokenFromRequest(req);
+  if (!token) return null;
+
+  try {
+    const payload = await JWTManager.verifyToken(token);
+
+    // The token's role and overrides may be up to an hour old; the stored ones decide
+    const access = await PermissionOverrideService.getAccess(payload.userId);
+    if (!access) return null;
+    const role = standardizeRole(access.role);
+
+    // An impersonation ends as soon as the agent's own session does
+    let impersonator: ImpersonatorContext | undefined;
+    if (payload.impersonator) {
+      if (!(await SessionService.isSessionActive(payload.impersonator.sid))) {
+        return null;
+      }
+      impersonator = {
+        userId: payload.impersonator.userId,
+        email: payload.impersonator.email,
+        role: standardizeRole(payload.impersonator.role),
+        sessionId: payload.impersonator.sid
+      };
+    }
+
+    return {
+      userId: payload.userId,
+      email: payload.email,
+      role,
+      sessionId: payload.sid,
+      permissions: resolveEffectivePermissions(role, access.overrides as Partial<PermissionOverrides>, await RoleService.getRolePermissions(role)).permissions,
+      claims: payload,
+      impersonator
+    };
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * Why an impersonation session may not make this request, or null. Reads of
+ * learner-level routes (and of the viewed user's own resources) are allowed.
+ */
+const impersonationRestriction = (
+  method: HttpMethod,
+  required: Permission[],
+  isSelf: boolean,
+  options: WithAuthOptions
+): 'IMPERSONATION_READ_ONLY' | 'IMPERSONATION_RESTRICTED' | null => {
+  if (!READ_METHODS.includes(method) && !options.impersonationMethods?.includes(method)) {
+    return 'IMPERSONATION_READ_ONLY';
+  }
+  if (!isSelf && required.some(permission => !ROLE_PERMISSIONS.user.includes(permission))) {
+    return 'IMPERSONATION_RESTRICTED';
+  }
+  return null;
+};
+
+/**
+ * Signature-only check for public routes, which skip the session lookup:
+ * the claims of an impersonation token, or null
+ */
+const readImpersonationClaims = (req: NextApiRequest): Record<string, any> | null => {
+  const token = JWTManager.extractTokenFromRequest(req);
+  if (!token) return null;
+
+  try {
+    const payload = JWTManager.verifyTokenSignature(token);
+    return payload.impersonator ? payload : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+export function withAuth(options: WithAuthOptions, handler: AuthenticatedHandler) {
+  return async (req: NextApiRequest, res: NextApiResponse) => {
+    const method = (req.method || 'GET').toUpperCase() as HttpMethod;
+
+    if (options.publicMethods?.includes(method)) {
+      const impersonation = readImpersonationClaims(req);
+      if (impersonation) {
+        const blocked = READ_METHODS.includes(method) ? null : 'IMPERSONATION_READ_ONLY';
+        await ImpersonationService.logRequest(req, impersonation, blocked);
+        if (blocked) {
+          return sendAuthError(res, blocked);
+        }
+      }
+      return handler(req as AuthenticatedRequest, res);
+    }
+
+    if (!JWTManager.extractTokenFromRequest(req)) {
+      return sendAuthError(res, 'UNAUTHENTICATED');
+    }
+
+    const caller = await authenticateRequest(req);
+    if (!caller) {
+      return sendAuthError(res, 'INVALID_TOKEN');
+    }
+
+    const ownerId = options.selfOnly ? req.query[options.selfOnly] : undefined;
+    const isSelf = typeof ownerId === 'string' && ownerId === caller.userId;
+    const required = requiredPermissionsFor(method, options.permissions);
+
+    if (caller.impersonator) {
+      const blocked = impersonationRestriction(method, required, isSelf, options);
+      await ImpersonationService.logRequest(req, caller.claims, blocked);
+      if (blocked) {
+        return sendAuthError(res, blocked);
+      }
+    }
+
+    if (!isSelf) {
+      // selfOnly routes with nothing configured for this verb belong to the owner alone
+      if (options.selfOnly && required.length === 0) {
+        return sendAuthError(res, 'FORBIDDEN');
+      }
+      if (!hasAllPermissions(caller.permissions, required)) {
+        return sendAuthError(res, 'FORBIDDEN');
+      }
+    }
+
+    (req as AuthenticatedRequest).auth = { ...caller, isSelf };
+    return handler(req as AuthenticatedRequest, res);
+  };
+}
+
+export default withAuth;
@@ -0,0 +1,388 @@
+const crypto = require('crypto');
+const { getFirestore } = require('./firebaseAdmin');
+const SecurityPolicyService = require('./securityPolicyService');
+const AuditService = require('./auditService');
+
+const SESSIONS_COLLECTION = 'user_sessions';
+// One document per (user, browser) pair that has signed in, keyed `${userId}_${deviceId}`
+const DEVICES_COLLECTION = 'user_devices';
+const SESSION_MAX_AGE_SECONDS = Number(process.env.JWT_REFRESH_EXPIRES_IN) || 7 * 24 * 3600; // 7 days
+// Window in which the refresh token that was just rotated out is still honoured,
+// so tabs that raced the same refresh don't trip reuse detection
+const REFRESH_REUSE_GRACE_MS = 30 * 1000;
+// last_activity is written at most this often, not on every request
+const ACTIVITY_WRITE_INTERVAL_MS = 60 * 1000;
+
+class SessionService {
+  /**
+   * Fingerprint a token so the raw value is never persisted
+   */
+  static hashToken(token) {
+    return crypto.createHash('sha256').update(String(token)).digest('hex');
+  }
+
+  /**
+   * Create a new session and return its id. The id is embedded in every
+   * token issued for the session as the `sid` claim.
+   * @param {string|null} impersonatorId - Set for "view as user" sessions opened by support staff
+   * @param {number} maxAgeSeconds - Absolute lifetime of the session
+   * @param {string|null} deviceId - The browser's app_device cookie
+   * @param {{city: string, region: string, country: string}|null} location - Approximate, from edge headers
+   */
+  static async createSession({ userId, ipAddress, userAgent, impersonatorId = null, maxAgeSeconds = SESSION_MAX_AGE_SECONDS, deviceId = null, location = null }) {
+    try {
+      const db = getFirestore();
+      const docRef = db.collection(SESSIONS_COLLECTION).doc();
+      const now = new Date();
+
+      await docRef.set({
+        id: docRef.id,
+        user_id: userId,
+        impersonator_id: impersonatorId,
+        token: '',
+        previous_token: null,
+        token_rotated_at: null,
+        ip_address: ipAddress || '',
+        user_agent: userAgent || '',
+        device_id: deviceId,
+        location,
+        is_active: true,
+        created_at: now.toISOString(),
+        last_activity: now.toISOString(),
+        expires_at: new Date(now.getTime() + maxAgeSeconds * 1000).toISOString(),
+        revoked_at: null,
+        revoked_reason: null
+      });
+
+      return docRef.id;
+    } catch (error) {
+      console.error('❌ Error creating session:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remember that a user signed in from a browser
+   * @returns {Promise<{ isNew: boolean }>} isNew is false for the first browser an account ever uses
+   */
+  static async recordDevice(userId, deviceId, { userAgent, location }) {
+    try {
+      const db = getFirestore();
+      const docRef = db.collection(DEVICES_COLLECTION).doc(`${userId}_${deviceId}`);
+      const now = new Date().toISOString();
+
+      const doc = await docRef.get();
+      if (doc.exists) {
+        await docRef.update({ user_agent: userAgent || '', location, last_seen_at: now });
+        return { isNew: false };
+      }
+
+      const existing = await db.collection(DEVICES_COLLECTION).where('user_id', '==', userId).limit(1).get();
+      await docRef.set({
+        user_id: userId,
+        device_id: deviceId,
+        user_agent: userAgent || '',
+        location,
+        first_seen_at: now,
+        last_seen_at: now
+      });
+
+      return { isNew: !existing.empty };
+    } catch (error) {
+      console.error('❌ Error recording sign-in device:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record the fingerprint of the refresh token issued for a session at login
+   */
+  static async attachToken(sessionId, token) {
+    try {
+      const db = getFirestore();
+      await db.collection(SESSIONS_COLLECTION).doc(sessionId).update({
+        token: this.hashToken(token),
+        last_activity: new Date().toISOString()
+      });
+    } catch (error) {
+      console.error('❌ Error attaching token to session:', error);
+      throw error;
+    }
+  }
+
+  static async getSession(sessionId) {
+    try {
+      const db = getFirestore();
+      const doc = await db.collection(SESSIONS_COLLECTION).doc(sessionId).get();
+
+      if (!doc.exists) {
+        return null;
+      }
+
+      return { id: doc.id, ...doc.data() };
+    } catch (error) {
+      console.error('❌ Error fetching session:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * A session is usable while it has not been revoked and has not passed its absolute expiry
+   */
+  static isSessionUsable(session) {
+    if (!session || session.is_active !== true) {
+      return false;
+    }
+    return new Date(session.expires_at).getTime() > Date.now();
+  }
+
+  /**
+   * Idle sessions are those without activity for longer than the security policy's sessionTimeout
+   */
+  static isSessionIdle(session, idleTimeoutMs, now = Date.now()) {
+    if (!idleTimeoutMs || !session.last_activity) {
+      return false;
+    }
+    return now - new Date(session.last_activity).getTime() > idleTimeoutMs;
+  }
+
+  /**
+   * Check that a session can still be used, expiring it when idle and recording activity otherwise
+   * @returns {Promise<{ active: boolean, reason?: 'not_found'|'revoked'|'expired'|'idle_timeout' }>}
+   */
+  static async validateSession(sessionId) {
+    if (!sessionId) {
+      return { active: false, reason: 'not_found' };
+    }
+
+    const session = await this.getSession(sessionId);
+    if (!session) {
+      return { active: false, reason: 'not_found' };
+    }
+    if (session.is_active !== true) {
+      return { active: false, reason: 'revoked' };
+    }
+    if (!this.isSessionUsable(session)) {
+      return { active: false, reason: 'expired' };
+    }
+
+    const now = Date.now();
+    const idleTimeoutMs = await SecurityPolicyService.getIdleTimeoutMs();
+
+    if (this.isSessionIdle(session, idleTimeoutMs, now)) {
+      await this.expireIdleSession(session, idleTimeoutMs);
+      return { active: false, reason: 'idle_timeout' };
+    }
+
+    if (!session.last_activity || now - new Date(session.last_activity).getTime() > ACTIVITY_WRITE_INTERVAL_MS) {
+      await this.touchSession(sessionId);
+    }
+
+    return { active: true };
+  }
+
+  static async isSessionActive(sessionId) {
+    const { active } = await this.validateSession(sessionId);
+    return active;
+  }
+
+  static async expireIdleSession(session, idleTimeoutMs) {
+    const revoked = await this.revokeSession(session.id, 'idle_timeout');
+    if (!revoked) {
+      return;
+    }
+
+    try {
+      await AuditService.createLog({
+        user_id: session.user_id,
+        action: 'SESSION_IDLE_TIMEOUT',
+        resource_type: 'session',
+        resource_id: session.id,
+        details: {
+          last_activity: session.last_activity,
+          idle_timeout_minutes: Math.round(idleTimeoutMs / 60000)
+        },
+        ip_address: session.ip_address,
+        user_agent: session.user_agent
+      });
+    } catch (auditError) {
+      console.error('⚠️ Failed to log idle session timeout:', auditError);
+    }
+  }
+
+  /**
+   * Rotate the refresh token of a session (token family) inside a transaction.
+   * Presenting anything other than the current refresh token revokes the whole
+   * family, except for the previous token within the short grace window.
+   * Sessions idle past the policy's timeout are expired instead of rotated.
+   * @returns {Promise<'rotated'|'grace'|'reuse'|'idle'|'invalid'>}
+   */
+  static async rotateRefreshToken(sessionId, presentedToken, newToken) {
+    try {
+      const idleTimeoutMs = await SecurityPolicyService.getIdleTimeoutMs();
+      const db = getFirestore();
+      const docRef = db.collection(SESSIONS_COLLECTION).doc(sessionId);
+      const presentedHash = this.hashToken(presentedToken);
+
+      let idleSession = null;
+
+      const outcome = await db.runTransaction(async (transaction) => {
+        const doc = await transaction.get(docRef);
+        if (!doc.exists) {
+          return 'invalid';
+        }
+
+        const session = doc.data();
+        if (!this.isSessionUsable(session)) {
+          return 'invalid';
+        }
+
+        const now = new Date();
+
+        if (this.isSessionIdle(session, idleTimeoutMs, now.getTime())) {
+          idleSession = { id: doc.id, ...session };
+          return 'idle';
+        }
+
+        if (session.token === presentedHash) {
+          transaction.update(docRef, {
+            token: this.hashToken(newToken),
+            previous_token: presentedHash,
+            token_rotated_at: now.toISOString(),
+            last_activity: now.toISOString()
+          });
+          return 'rotated';
+        }
+
+        const rotatedAt = session.token_rotated_at ? new Date(session.token_rotated_at).getTime() : 0;
+        if (session.previous_token === presentedHash && now.getTime() - rotatedAt < REFRESH_REUSE_GRACE_MS) {
+          transaction.update(docRef, { last_activity: now.toISOString() });
+          return 'grace';
+        }
+
+        transaction.update(docRef, {
+          is_active: false,
+          revoked_at: now.toISOString(),
+          revoked_reason: 'refresh_token_reuse'
+        });
+        return 'reuse';
+      });
+
+      if (outcome === 'idle') {
+        await this.expireIdleSession(idleSession, idleTimeoutMs);
+      }
+
+      return outcome;
+    } catch (error) {
+      console.error('❌ Error rotating refresh token:', error);
+      throw error;
+    }
+  }
+
+  static async touchSession(sessionId) {
+    try {
+      const db = getFirestore();
+      await db.collection(SESSIONS_COLLECTION).doc(sessionId).update({
+        last_activity: new Date().toISOString()
+      });
+    } catch (error) {
+      console.warn('⚠️ Could not update session activity:', error);
+    }
+  }
+
+  /**
+   * Revoke a single session
+   */
+  static async revokeSession(sessionId, reason = 'logout') {
+    try {
+      const db = getFirestore();
+      const docRef = db.collection(SESSIONS_COLLECTION).doc(sessionId);
+      const doc = await docRef.get();
+
+      if (!doc.exists || doc.data().is_active !== true) {
+        return false;
+      }
+
+      await docRef.update({
+        is_active: false,
+        revoked_at: new Date().toISOString(),
+        revoked_reason: reason
+      });
+
+      return true;
+    } catch (error) {
+      console.error('❌ Error revoking session:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Revoke every active session of a user, optionally keeping one (e.g. the caller's own)
+   * @returns {Promise<number>} Number of sessions revoked
+   */
+  static async revokeAllUserSessions(userId, reason, exceptSessionId = null) {
+    try {
+      const db = getFirestore();
+      const snapshot = await db.collection(SESSIONS_COLLECTION)
+        .where('user_id', '==', userId)
+        .where('is_active', '==', true)
+        .get();
+
+      const batch = db.batch();
+      const revokedAt = new Date().toISOString();
+      let count = 0;
+
+      snapshot.forEach(doc => {
+        if (doc.id === exceptSessionId) {
+          return;
+        }
+        batch.update(doc.ref, {
+          is_active: false,
+          revoked_at: revokedAt,
+          revoked_reason: reason
+        });
+        count += 1;
+      });
+
+      if (count > 0) {
+        await batch.commit();
+      }
+
+      return count;
+    } catch (error) {
+      console.error('❌ Error revoking user sessions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * List active, unexpired sessions, newest activity first
+   * @param {string|null} userId - Restrict to one user, or null for all users
+   */
+  static async getActiveSessions(userId = null, limitCount = 200) {
+    try {
+      const db = getFirestore();
+      let q = db.collection(SESSIONS_COLLECTION).where('is_active', '==', true);
+
+      if (userId) {
+        q = q.where('user_id', '==', userId);
+      }
+
+      const snapshot = await q.limit(limitCount).get();
+      const sessions = [];
+      snapshot.forEach(doc => {
+        const session = { id: doc.id, ...doc.data() };
+        if (this.isSessionUsable(session)) {
+          sessions.push(session);
+        }
+      });
+
+      return sessions.sort((a, b) => (b.last_activity || '').localeCompare(a.last_activity || ''));
+    } catch (error) {
+      console.error('❌ Error fetching active sessions:', error);
+      throw error;
+    }
+  }
+}
+
+module.exports = SessionService;
@@ -0,0 +1,85 @@
+const path = require('path');
+const { promises: fsPromises } = require('fs');
+
+// System configuration file path
+const CONFIG_FILE = path.join(process.cwd(), 'data', 'system-config.json');
+
+// Re-read the file at most this often; writes through this service refresh it immediately
+const CACHE_TTL_MS = 30 * 1000;
+
+// Default system configuration
+const DEFAULT_CONFIG = {
+  siteName: 'Forward Africa',
+  siteDescription: 'Empowering African professionals through expert-led courses',
+  maintenanceMode: false,
+  maintenanceMessage: '',
+  maintenanceEndsAt: null,
+  maintenanceWindows: [],
+  debugMode: false,
+  maxUploadSize: 50,
+  emailNotifications: true,
+  autoBackup: true,
+  backupFrequency: 'daily',
+  securityLevel: 'high',
+  rateLimiting: true,
+  maxRequestsPerMinute: 100,
+  databaseConnectionPool: 10,
+  cacheEnabled: true,
+  cacheTTL: 3600,
+  cdnEnabled: false,
+  sslEnabled: true,
+  corsEnabled: true,
+  allowedOrigins: ['https://forwardafrica.com', 'https://www.forwardafrica.com'],
+  // OpenID Connect identity providers offered on the login page (see OIDCService)
+  ssoProviders: []
+};
+
+let cachedConfig = null;
+let cachedAt = 0;
+
+/**
+ * Platform configuration persisted in data/system-config.json
+ */
+class SystemConfigService {
+  static async getConfig() {
+    if (cachedConfig && Date.now() - cachedAt < CACHE_TTL_MS) {
+      return cachedConfig;
+    }
+
+    try {
+      const configData = await fsPromises.readFile(CONFIG_FILE, 'utf8');
+      cachedConfig = { ...DEFAULT_CONFIG, ...JSON.parse(configData) };
+    } catch (error) {
+      // If file doesn't exist or is invalid, use the defaults
+      console.log('No existing system config found, using defaults');
+      cachedConfig = { ...DEFAULT_CONFIG };
+    }
+
+    cachedAt = Date.now();
+    return cachedConfig;
+  }
+
+  /**
+   * Merge updates into the stored configuration and persist it
+   */
+  static async updateConfig(updates) {
+    try {
+      const currentConfig = await this.getConfig();
+      const mergedConfig = { ...currentConfig, ...updates };
+
+      await fsPromises.mkdir(path.dirname(CONFIG_FILE), { recursive: true });
+      await fsPromises.writeFile(CONFIG_FILE, JSON.stringify(mergedConfig, null, 2));
+
+      cachedConfig = mergedConfig;
+      cachedAt = Date.now();
+      return mergedConfig;
+    } catch (error) {
+      console.error('❌ Error saving system config:', error);
+      throw error;
+    }
+  }
+}
+
+SystemConfigService.DEFAULT_CONFIG = DEFAULT_CONFIG;
+
+module.exports = SystemConfigService;
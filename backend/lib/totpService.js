@@ -0,0 +1,339 @@
+const crypto = require('crypto');
+const { getFirestore } = require('./firebaseAdmin');
+
+const MFA_COLLECTION = 'user_mfa';
+const ISSUER = process.env.MFA_ISSUER || 'Forward Africa';
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+// RFC 6238 parameters (the defaults every authenticator app understands)
+const TOTP_DIGITS = 6;
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_WINDOW = 1; // accept one step of clock drift either side
+
+const RECOVERY_CODE_COUNT = 10;
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_DURATION = 15 * 60 * 1000; // 15 minutes
+
+// Secrets are encrypted at rest; the key is derived from a dedicated env var or the JWT secret
+const ENCRYPTION_KEY = crypto
+  .createHash('sha256')
+  .update(process.env.MFA_ENCRYPTION_KEY || process.env.JWT_SECRET || 'dev-secret-key-change-in-production')
+  .digest();
+
+class TOTPService {
+  static base32Encode(buffer) {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+
+    for (const byte of buffer) {
+      value = (value << 8) | byte;
+      bits += 8;
+      while (bits >= 5) {
+        output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+        bits -= 5;
+      }
+    }
+
+    if (bits > 0) {
+      output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+
+    return output;
+  }
+
+  static base32Decode(str) {
+    const cleaned = String(str).toUpperCase().replace(/[^A-Z2-7]/g, '');
+    let bits = 0;
+    let value = 0;
+    const bytes = [];
+
+    for (const char of cleaned) {
+      value = (value << 5) | BASE32_ALPHABET.indexOf(char);
+      bits += 5;
+      if (bits >= 8) {
+        bytes.push((value >>> (bits - 8)) & 255);
+        bits -= 8;
+      }
+    }
+
+    return Buffer.from(bytes);
+  }
+
+  static encryptSecret(secret) {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', ENCRYPTION_KEY, iv);
+    const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+    return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64')).join('.');
+  }
+
+  static decryptSecret(payload) {
+    const [iv, tag, encrypted] = String(payload).split('.').map(part => Buffer.from(part, 'base64'));
+    const decipher = crypto.createDecipheriv('aes-256-gcm', ENCRYPTION_KEY, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+  }
+
+  static hashRecoveryCode(code) {
+    return crypto.createHash('sha256').update(String(code).replace(/[\s-]/g, '').toLowerCase()).digest('hex');
+  }
+
+  /**
+   * HOTP value (RFC 4226) for a base32 secret and counter
+   */
+  static generateCode(secret, counter) {
+    const buffer = Buffer.alloc(8);
+    buffer.writeUInt32BE(Math.floor(counter / 0x100000000), 0);
+    buffer.writeUInt32BE(counter % 0x100000000, 4);
+
+    const hmac = crypto.createHmac('sha1', this.base32Decode(secret)).update(buffer).digest();
+    const offset = hmac[hmac.length - 1] & 0x0f;
+    const binary = ((hmac[offset] & 0x7f) << 24) |
+      (hmac[offset + 1] << 16) |
+      (hmac[offset + 2] << 8) |
+      hmac[offset + 3];
+
+    return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+  }
+
+  static currentStep(now = Date.now()) {
+    return Math.floor(now / 1000 / TOTP_PERIOD_SECONDS);
+  }
+
+  /**
+   * Match a code against the current time step and its neighbours
+   * @returns {number|null} The matching time step, or null
+   */
+  static matchCode(secret, code, now = Date.now()) {
+    const normalized = String(code || '').replace(/\s/g, '');
+    if (!/^\d{6}$/.test(normalized)) {
+      return null;
+    }
+
+    const step = this.currentStep(now);
+    for (let offset = -TOTP_WINDOW; offset <= TOTP_WINDOW; offset++) {
+      const candidate = this.generateCode(secret, step + offset);
+      if (crypto.timingSafeEqual(Buffer.from(candidate), Buffer.from(normalized))) {
+        return step + offset;
+      }
+    }
+
+    return null;
+  }
+
+  static buildProvisioningUri(accountName, secret) {
+    const label = encodeURIComponent(`${ISSUER}:${accountName}`);
+    const params = new URLSearchParams({
+      secret,
+      issuer: ISSUER,
+      algorithm: 'SHA1',
+      digits: String(TOTP_DIGITS),
+      period: String(TOTP_PERIOD_SECONDS)
+    });
+    return `otpauth://totp/${label}?${params.toString()}`;
+  }
+
+  static generateRecoveryCodes() {
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const raw = crypto.randomBytes(5).toString('hex');
+      return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+  }
+
+  static async getEnrollment(userId) {
+    try {
+      const db = getFirestore();
+      const doc = await db.collection(MFA_COLLECTION).doc(userId).get();
+      return doc.exists ? { id: doc.id, ...doc.data() } : null;
+    } catch (error) {
+      console.error('❌ Error fetching MFA enrollment:', error);
+      throw error;
+    }
+  }
+
+  static async isEnabled(userId) {
+    const enrollment = await this.getEnrollment(userId);
+    return Boolean(enrollment && enrollment.enabled === true);
+  }
+
+  /**
+   * Status safe to return to the client (never includes secrets or code hashes)
+   */
+  static async getStatus(userId) {
+    const enrollment = await this.getEnrollment(userId);
+    return {
+      enabled: Boolean(enrollment && enrollment.enabled === true),
+      enrolled_at: enrollment?.enrolled_at || null,
+      recovery_codes_remaining: enrollment?.recovery_codes ? enrollment.recovery_codes.length : 0
+    };
+  }
+
+  /**
+   * Start (or restart) enrolment with a fresh secret. The secret stays pending
+   * until a code from the authenticator app confirms it.
+   */
+  static async beginEnrollment(userId, accountName) {
+    try {
+      const db = getFirestore();
+      const secret = this.base32Encode(crypto.randomBytes(20));
+
+      await db.collection(MFA_COLLECTION).doc(userId).set({
+        user_id: userId,
+        pending_secret: this.encryptSecret(secret),
+        pending_created_at: new Date().toISOString()
+      }, { merge: true });
+
+      return {
+        secret,
+        otpauth_url: this.buildProvisioningUri(accountName, secret)
+      };
+    } catch (error) {
+      console.error('❌ Error starting MFA enrollment:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Confirm the pending secret with a code and switch 2FA on
+   * @returns {Promise<string[]|null>} Plain recovery codes (shown once), or null if the code is wrong
+   */
+  static async confirmEnrollment(userId, code) {
+    try {
+      const db = getFirestore();
+      const docRef = db.collection(MFA_COLLECTION).doc(userId);
+      const doc = await docRef.get();
+      const enrollment = doc.exists ? doc.data() : null;
+
+      if (!enrollment || !enrollment.pending_secret) {
+        return null;
+      }
+
+      const secret = this.decryptSecret(enrollment.pending_secret);
+      const step = this.matchCode(secret, code);
+      if (step === null) {
+        return null;
+      }
+
+      const recoveryCodes = this.generateRecoveryCodes();
+      const now = new Date().toISOString();
+
+      await docRef.set({
+        user_id: userId,
+        enabled: true,
+        secret: this.encryptSecret(secret),
+        pending_secret: null,
+        pending_created_at: null,
+        recovery_codes: recoveryCodes.map(c => this.hashRecoveryCode(c)),
+        last_used_step: step,
+        failed_attempts: 0,
+        locked_until: null,
+        enrolled_at: now,
+        updated_at: now
+      }, { merge: true });
+
+      return recoveryCodes;
+    } catch (error) {
+      console.error('❌ Error confirming MFA enrollment:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Verify a second-factor code (TOTP or single-use recovery code).
+   * Codes are single use: a time step that has already been accepted is rejected.
+   * @returns {Promise<{ valid: boolean, method?: 'totp'|'recovery_code', locked?: boolean }>}
+   */
+  static async verify(userId, { code, recoveryCode }) {
+    try {
+      const db = getFirestore();
+      const docRef = db.collection(MFA_COLLECTION).doc(userId);
+
+      return await db.runTransaction(async (transaction) => {
+        const doc = await transaction.get(docRef);
+        const enrollment = doc.exists ? doc.data() : null;
+
+        if (!enrollment || enrollment.enabled !== true) {
+          return { valid: false };
+        }
+
+        const now = Date.now();
+        if (enrollment.locked_until && new Date(enrollment.locked_until).getTime() > now) {
+          return { valid: false, locked: true };
+        }
+
+        const fail = () => {
+          const failedAttempts = (enrollment.failed_attempts || 0) + 1;
+          const locked = failedAttempts >= MAX_FAILED_ATTEMPTS;
+          transaction.update(docRef, {
+            failed_attempts: locked ? 0 : failedAttempts,
+            locked_until: locked ? new Date(now + LOCKOUT_DURATION).toISOString() : null
+          });
+          return { valid: false, locked };
+        };
+
+        if (recoveryCode) {
+          const hash = this.hashRecoveryCode(recoveryCode);
+          const remaining = (enrollment.recovery_codes || []).filter(h => h !== hash);
+          if (remaining.length === (enrollment.recovery_codes || []).length) {
+            return fail();
+          }
+
+          transaction.update(docRef, {
+            recovery_codes: remaining,
+            failed_attempts: 0,
+            locked_until: null,
+            updated_at: new Date(now).toISOString()
+          });
+          return { valid: true, method: 'recovery_code' };
+        }
+
+        const step = this.matchCode(this.decryptSecret(enrollment.secret), code, now);
+        if (step === null || (typeof enrollment.last_used_step === 'number' && step <= enrollment.last_used_step)) {
+          return fail();
+        }
+
+        transaction.update(docRef, {
+          last_used_step: step,
+          failed_attempts: 0,
+          locked_until: null
+        });
+        return { valid: true, method: 'totp' };
+      });
+    } catch (error) {
+      console.error('❌ Error verifying MFA code:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replace the recovery codes (the old ones stop working immediately)
+   */
+  static async regenerateRecoveryCodes(userId) {
+    try {
+      const db = getFirestore();
+      const recoveryCodes = this.generateRecoveryCodes();
+
+      await db.collection(MFA_COLLECTION).doc(userId).update({
+        recovery_codes: recoveryCodes.map(c => this.hashRecoveryCode(c)),
+        updated_at: new Date().toISOString()
+      });
+
+      return recoveryCodes;
+    } catch (error) {
+      console.error('❌ Error regenerating recovery codes:', error);
+      throw error;
+    }
+  }
+
+  static async disable(userId) {
+    try {
+      const db = getFirestore();
+      await db.collection(MFA_COLLECTION).doc(userId).delete();
+    } catch (error) {
+      console.error('❌ Error disabling MFA:', error);
+      throw error;
+    }
+  }
+}
+
+module.exports = TOTPService;
@@ -1,5 +1,8 @@
-// REMOVED: Rate limiter placeholder
+// Rate limiting is implemented by backend/lib/rateLimitService.js; this module
+// keeps the old middleware entry points pointing at it.
+const RateLimitService = require('../lib/rateLimitService');
+
 module.exports = {
-  rateLimiters: {},
-  getRateLimitStatus: () => ({})
+  rateLimiters: RateLimitService.POLICIES,
+  getRateLimitStatus: (action, identifiers) => RateLimitService.getStatus(action, identifiers)
 };
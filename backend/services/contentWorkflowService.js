@@ -1,2 +1,2 @@
-// REMOVED: content workflow service
-module.exports = {};
+// Kept for older imports; the implementation lives in backend/lib
+module.exports = require('../lib/contentWorkflowService');
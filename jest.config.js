@@ -0,0 +1,13 @@
+const nextJest = require('next/jest');
+
+const createJestConfig = nextJest({ dir: './' });
+
+// The security rules suites need the emulators, which `npm run test:rules` starts
+const rulesEmulatorRunning = Boolean(process.env.FIRESTORE_EMULATOR_HOST);
+
+module.exports = createJestConfig({
+  testEnvironment: 'node',
+  testMatch: ['<rootDir>/tests/**/*.test.ts'],
+  testPathIgnorePatterns: ['/node_modules/', ...(rulesEmulatorRunning ? [] : ['<rootDir>/tests/rules/'])],
+  passWithNoTests: true
+});
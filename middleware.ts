@@ -0,0 +1,207 @@
+import { NextFetchEvent, NextRequest, NextResponse } from 'next/server';
+import { isIpAllowed } from './src/lib/ipAllowlist';
+import { resolveClientIp } from './src/lib/clientIp';
+import { createInternalSignature, INTERNAL_SIGNATURE_HEADER } from './src/lib/internalRequest';
+import { isImpersonationToken, isSuperAdminToken, readTokenClaims } from './src/lib/edgeAuth';
+import {
+  getRetryAfterSeconds,
+  isMaintenanceExemptPath,
+  MaintenanceSettings,
+  resolveMaintenance
+} from './src/lib/maintenance';
+
+/**
+ * Admin IP allowlist, impersonation limits and maintenance mode.
+ *
+ * Admin pages and admin APIs are refused for clients outside the security
+ * policy's `ipWhitelist` (an empty list allows everyone), and for support
+ * staff while they view the platform as another user (except to end that
+ * view). The client address comes from src/lib/clientIp, which only trusts
+ * the hop our own proxy appends to X-Forwarded-For. While maintenance is
+ * active (the manual switch or a scheduled window), pages are rewritten to
+ * /maintenance and APIs answer 503 with Retry-After; Super Admins and clients
+ * on a non-empty allowlist pass through. Both settings live server-side, which
+ * the edge runtime cannot reach, so they are read through the signed
+ * /api/internal/security-policy route and cached briefly per instance.
+ * Idle session expiry is enforced server-side by SessionService.
+ */
+
+const POLICY_CACHE_TTL_MS = 30 * 1000;
+const INTERNAL_POLICY_PATH = '/api/internal/security-policy';
+
+const ADMIN_PATH_PREFIXES = [
+  '/admin',
+  '/api/admin/',
+  '/api/analytics/',
+  '/api/audit-logs',
+  '/api/auth/impersonation',
+  '/api/content-workflow',
+  '/api/roles',
+  '/api/security/',
+  '/api/system/',
+  '/api/users/list'
+];
+
+// Admin APIs nested under a learner-facing path
+const ADMIN_PATH_PATTERNS = [
+  /^\/api\/users\/[^/]+\/permissions\/?$/
+];
+
+interface EdgePolicy {
+  ipWhitelist: string[];
+  maintenance: MaintenanceSettings;
+}
+
+let cachedPolicy: EdgePolicy | null = null;
+let cachedAt = 0;
+
+const isAdminPath = (request: NextRequest): boolean => {
+  const { pathname } = request.nextUrl;
+
+  // The maintenance status is public so learners can see when the platform is back
+  if (pathname === '/api/system/maintenance' && request.method === 'GET') {
+    return false;
+  }
+
+  return ADMIN_PATH_PREFIXES.some(prefix =>
+    pathname === prefix || pathname.startsWith(prefix.endsWith('/') ? prefix : `${prefix}/`)
+  ) || ADMIN_PATH_PATTERNS.some(pattern => pattern.test(pathname));
+};
+
+// Agents end a "view as user" session from inside it
+const isImpersonationExit = (request: NextRequest): boolean =>
+  request.nextUrl.pathname === '/api/auth/impersonation' && request.method === 'DELETE';
+
+// The platform's own address when it reports one, else the trusted proxy hop (never the client-written X-Forwarded-For entry)
+const getClientIp = (request: NextRequest): string | null =>
+  request.ip || resolveClientIp(name => request.headers.get(name), null);
+
+const loadPolicy = async (request: NextRequest): Promise<EdgePolicy> => {
+  if (cachedPolicy && Date.now() - cachedAt < POLICY_CACHE_TTL_MS) {
+    return cachedPolicy;
+  }
+
+  try {
+    const response = await fetch(new URL(INTERNAL_POLICY_PATH, request.url), {
+      headers: { [INTERNAL_SIGNATURE_HEADER]: await createInternalSignature() },
+      cache: 'no-store'
+    });
+
+    if (!response.ok) {
+      throw new Error(`Policy request failed with ${response.status}`);
+    }
+
+    const body = await response.json();
+    cachedPolicy = {
+      ipWhitelist: Array.isArray(body.data?.ipWhitelist) ? body.data.ipWhitelist : [],
+      maintenance: body.data?.maintenance || {}
+    };
+    cachedAt = Date.now();
+  } catch (error) {
+    // Keep enforcing the last known policy; with none yet, fail open rather than lock out every admin
+    console.error('❌ Middleware could not load security policy:', error);
+  }
+
+  return cachedPolicy || { ipWhitelist: [], maintenance: {} };
+};
+
+const reportRejection = async (request: NextRequest, ip: string | null) => {
+  // Best-effort attribution from the (unverified) access token cookie
+  const identity = readTokenClaims(request.cookies.get('app_user')?.value) || {};
+
+  try {
+    await fetch(new URL(INTERNAL_POLICY_PATH, request.url), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        [INTERNAL_SIGNATURE_HEADER]: await createInternalSignature()
+      },
+      body: JSON.stringify({
+        ip,
+        path: request.nextUrl.pathname,
+        method: request.method,
+        userAgent: request.headers.get('user-agent') || '',
+        claimedUserId: identity.userId,
+        claimedEmail: identity.email
+      })
+    });
+  } catch (error) {
+    console.error('⚠️ Middleware could not record rejected request:', error);
+  }
+};
+
+const rejectIp = (request: NextRequest, event: NextFetchEvent, ip: string | null) => {
+  console.warn('⛔ Admin request from IP outside allowlist:', ip, request.nextUrl.pathname);
+  event.waitUntil(reportRejection(request, ip));
+
+  if (request.nextUrl.pathname.startsWith('/api/')) {
+    return NextResponse.json(
+      { success: false, error: 'Access from your network is not allowed', code: 'IP_NOT_ALLOWED' },
+      { status: 403 }
+    );
+  }
+
+  return new NextResponse('Access to the admin area is not allowed from your network.', {
+    status: 403,
+    headers: { 'Content-Type': 'text/plain; charset=utf-8' }
+  });
+};
+
+// Read-only "view as user" sessions stay on the learner side of the platform
+const rejectImpersonation = (request: NextRequest) => {
+  if (request.nextUrl.pathname.startsWith('/api/')) {
+    return NextResponse.json(
+      { success: false, error: 'Staff tools are not available while viewing as another user', code: 'IMPERSONATION_RESTRICTED' },
+      { status: 403 }
+    );
+  }
+
+  return NextResponse.redirect(new URL('/home', request.url));
+};
+
+const canBypassMaintenance = async (request: NextRequest, ip: string | null, ipWhitelist: string[]) =>
+  (ipWhitelist.length > 0 && isIpAllowed(ip, ipWhitelist)) ||
+  isSuperAdminToken(request.cookies.get('app_user')?.value);
+
+export async function middleware(request: NextRequest, event: NextFetchEvent) {
+  const { pathname } = request.nextUrl;
+  const ip = getClientIp(request);
+  const policy = await loadPolicy(request);
+
+  if (isAdminPath(request) && !isIpAllowed(ip, policy.ipWhitelist)) {
+    return rejectIp(request, event, ip);
+  }
+
+  if (isAdminPath(request) && !isImpersonationExit(request) && await isImpersonationToken(request.cookies.get('app_user')?.value)) {
+    return rejectImpersonation(request);
+  }
+
+  const maintenance = resolveMaintenance(policy.maintenance);
+  if (!maintenance.active || isMaintenanceExemptPath(pathname) || await canBypassMaintenance(request, ip, policy.ipWhitelist)) {
+    return NextResponse.next();
+  }
+
+  const retryAfter = getRetryAfterSeconds(maintenance).toString();
+
+  if (pathname.startsWith('/api/')) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: maintenance.message,
+        code: 'MAINTENANCE',
+        endsAt: maintenance.endsAt
+      },
+      { status: 503, headers: { 'Retry-After': retryAfter } }
+    );
+  }
+
+  return NextResponse.rewrite(new URL('/maintenance', request.url), {
+    status: 503,
+    headers: { 'Retry-After': retryAfter }
+  });
+}
+
+export const config = {
+  // Everything except build assets and the internal routes the middleware itself calls
+  matcher: ['/((?!_next/static|_next/image|favicon.ico|api/internal).*)']
+};
@@ -1,10 +1,12 @@
 import React, { useEffect, useState } from 'react';
 import { useRouter } from 'next/router';
-import { ArrowLeft, Search, Filter, Download, RefreshCw, Calendar, User, Activity } from 'lucide-react';
+import { ArrowLeft, Search, Filter, Download, RefreshCw, Calendar, User, Activity, ShieldCheck, ShieldAlert } from 'lucide-react';
 import Button from '../../src/components/ui/Button';
 import { useAuthEnhanced } from '../../src/hooks/useAuthEnhanced';
 import { usePermissions } from '../../src/contexts/PermissionContext';
 import AuthGuard from '../../src/components/ui/AuthGuard';
+import { AuditChainVerification } from '../../src/types';
+import { auditLogsAPI } from '../../src/lib/api';
 
 interface AuditLog {
   id: string;
@@ -17,6 +19,7 @@ interface AuditLog {
   ip_address: string;
   user_agent: string;
   created_at: string;
+  sequence?: number;
 }
 
 const AuditLogsPage: React.FC = () => {
@@ -25,7 +28,11 @@ const AuditLogsPage: React.FC = () => {
   const { userRole, hasPermission } = usePermissions();
   const [auditLogs, setAuditLogs] = useState<AuditLog[]>([]);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [verifying, setVerifying] = useState(false);
+  const [verification, setVerification] = useState<AuditChainVerification | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedAction, setSelectedAction] = useState<string>('all');
   const [selectedUser, setSelectedUser] = useState<string>('all');
@@ -36,6 +43,7 @@ const AuditLogsPage: React.FC = () => {
 
   // Check permissions
   const canViewAuditLogs = hasPermission('audit:view_logs') || isSuperAdmin;
+  const canExportAuditLogs = hasPermission('audit:export_logs') || isSuperAdmin;
 
   useEffect(() => {
     if (!canViewAuditLogs) {
@@ -47,75 +55,78 @@ const AuditLogsPage: React.FC = () => {
     fetchAuditLogs();
   }, [canViewAuditLogs, dateRange, selectedAction, selectedUser]);
 
+  const currentFilters = () => ({
+    start_date: dateRange.start || undefined,
+    end_date: dateRange.end || undefined,
+    action: selectedAction !== 'all' ? selectedAction : undefined,
+    user_id: selectedUser !== 'all' ? selectedUser : undefined
+  });
+
   const fetchAuditLogs = async () => {
     try {
       setLoading(true);
       setError(null);
 
-      const params = new URLSearchParams();
-      if (dateRange.start) params.append('start_date', dateRange.start);
-      if (dateRange.end) params.append('end_date', dateRange.end);
-      if (selectedAction !== 'all') params.append('action', selectedAction);
-      if (selectedUser !== 'all') params.append('user_id', selectedUser);
-      params.append('limit', '100');
-
-      console.log('📋 Fetching audit logs with params:', params.toString());
-
-      const response = await fetch(`/api/audit-logs?${params.toString()}`, {
-        method: 'GET',
-        credentials: 'include'
-      });
-
-      if (!response.ok) {
-        throw new Error(`Failed to fetch audit logs: ${response.statusText}`);
-      }
-
-      const data = await response.json();
-      console.log('📋 Audit logs response:', data);
-
-      setAuditLogs(data.data || []);
+      const page = await auditLogsAPI.getAuditLogPage({ ...currentFilters(), limit: 100 });
+      setAuditLogs(page.logs);
+      setNextCursor(page.nextCursor);
     } catch (err) {
       console.error('Failed to fetch audit logs:', err);
       setError('Failed to load audit logs. Please try again.');
       setAuditLogs([]);
+      setNextCursor(null);
     } finally {
       setLoading(false);
     }
   };
 
-  const handleExport = async () => {
+  const handleLoadMore = async () => {
+    if (!nextCursor) return;
+
+    try {
+      setLoadingMore(true);
+      const page = await auditLogsAPI.getAuditLogPage({ ...currentFilters(), limit: 100, cursor: nextCursor });
+      setAuditLogs(prev => [...prev, ...page.logs]);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      console.error('Failed to load more audit logs:', err);
+      setError('Failed to load more audit logs. Please try again.');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  // The export is streamed by the server; let the browser download it directly
+  const handleExport = (format: 'csv' | 'ndjson') => {
+    const a = document.createElement('a');
+    a.href = auditLogsAPI.getExportUrl(currentFilters(), format);
+    a.download = `audit-logs-${new Date().toISOString().split('T')[0]}.${format}`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+  };
+
+  const handleVerify = async () => {
     try {
-      const params = new URLSearchParams();
-      if (dateRange.start) params.append('start_date', dateRange.start);
-      if (dateRange.end) params.append('end_date', dateRange.end);
-      if (selectedAction !== 'all') params.append('action', selectedAction);
-      if (selectedUser !== 'all') params.append('user_id', selectedUser);
-      params.append('format', 'csv');
+      setVerifying(true);
+      setError(null);
 
-      const response = await fetch(`/api/audit-logs?${params.toString()}`, {
+      const response = await fetch('/api/audit-logs/verify', {
         method: 'GET',
         credentials: 'include'
       });
 
       if (!response.ok) {
-        throw new Error(`Failed to export audit logs: ${response.statusText}`);
+        throw new Error(`Failed to verify audit logs: ${response.statusText}`);
       }
 
-      const csvData = await response.text();
-
-      // Create and download CSV file
-      const blob = new Blob([csvData], { type: 'text/csv' });
-      const url = window.URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `audit-logs-${new Date().toISOString().split('T')[0]}.csv`;
-      document.body.appendChild(a);
-      a.click();
-      window.URL.revokeObjectURL(url);
-      document.body.removeChild(a);
+      const data = await response.json();
+      setVerification(data.data);
     } catch (err) {
-      console.error('Failed to export audit logs:', err);
-      setError('Failed to export audit logs. Please try again.');
+      console.error('Failed to verify audit logs:', err);
+      setError('Failed to verify audit log integrity. Please try again.');
+    } finally {
+      setVerifying(false);
     }
   };
 
@@ -190,13 +201,38 @@ const AuditLogsPage: React.FC = () => {
               Refresh
             </Button>
             <Button
-              variant="primary"
-              onClick={handleExport}
+              variant="outline"
+              onClick={handleVerify}
+              disabled={verifying}
               className="flex items-center"
             >
-              <Download className="h-4 w-4 mr-2" />
-              Export CSV
+              {verifying ? (
+                <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <ShieldCheck className="h-4 w-4 mr-2" />
+              )}
+              Verify Integrity
             </Button>
+            {canExportAuditLogs && (
+              <>
+                <Button
+                  variant="outline"
+                  onClick={() => handleExport('ndjson')}
+                  className="flex items-center"
+                >
+                  <Download className="h-4 w-4 mr-2" />
+                  Export NDJSON
+                </Button>
+                <Button
+                  variant="primary"
+                  onClick={() => handleExport('csv')}
+                  className="flex items-center"
+                >
+                  <Download className="h-4 w-4 mr-2" />
+                  Export CSV
+                </Button>
+              </>
+            )}
           </div>
         </div>
 
@@ -252,6 +288,36 @@ const AuditLogsPage: React.FC = () => {
           </div>
         </div>
 
+        {/* Integrity Check Result */}
+        {verification && (
+          verification.valid ? (
+            <div className="mb-6 p-4 bg-green-600/20 border border-green-500/30 rounded-lg flex items-start">
+              <ShieldCheck className="h-5 w-5 text-green-400 mr-2 mt-0.5" />
+              <div>
+                <p className="text-green-300">
+                  Audit log chain intact: {verification.checkedEntries} entries verified.
+                </p>
+                <p className="text-xs text-gray-400 mt-1">
+                  Checked {new Date(verification.verifiedAt).toLocaleString()} · {verification.heads.length} chain shard(s)
+                </p>
+              </div>
+            </div>
+          ) : (
+            <div className="mb-6 p-4 bg-red-600/20 border border-red-500/30 rounded-lg flex items-start">
+              <ShieldAlert className="h-5 w-5 text-red-400 mr-2 mt-0.5" />
+              <div>
+                <p className="text-red-300">
+                  Audit log chain broken at entry #{verification.firstBrokenLink?.sequence}: {verification.firstBrokenLink?.message}
+                </p>
+                <p className="text-xs text-gray-400 mt-1">
+                  {verification.checkedEntries} entries verified before the break
+                  {verification.firstBrokenLink?.logId ? ` · log ID ${verification.firstBrokenLink.logId}` : ''}
+                </p>
+              </div>
+            </div>
+          )
+        )}
+
         {/* Error Message */}
         {error && (
           <div className="mb-6 p-4 bg-red-600/20 border border-red-500/30 rounded-lg">
@@ -343,9 +409,22 @@ const AuditLogsPage: React.FC = () => {
           </div>
         </div>
 
-        {/* Pagination Info */}
-        <div className="mt-6 text-center text-sm text-gray-400">
-          Showing {filteredLogs.length} of {auditLogs.length} audit logs
+        {/* Pagination */}
+        <div className="mt-6 flex flex-col items-center space-y-3 text-sm text-gray-400">
+          <span>
+            Showing {filteredLogs.length} of {auditLogs.length} loaded audit logs{nextCursor ? '' : ' (end of results)'}
+          </span>
+          {nextCursor && (
+            <Button
+              variant="outline"
+              onClick={handleLoadMore}
+              disabled={loadingMore}
+              className="flex items-center"
+            >
+              {loadingMore && <RefreshCw className="h-4 w-4 mr-2 animate-spin" />}
+              Load More
+            </Button>
+          )}
         </div>
       </div>
     </div>
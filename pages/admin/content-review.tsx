@@ -0,0 +1,10 @@
+import React from 'react'
+import dynamic from 'next/dynamic'
+
+const ContentReviewPage = dynamic(() => import('../../src/pages/ContentReviewPage'), {
+  ssr: false
+})
+
+export default function ContentReview() {
+  return <ContentReviewPage />
+}
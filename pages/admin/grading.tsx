@@ -0,0 +1,10 @@
+import React from 'react'
+import dynamic from 'next/dynamic'
+
+const GradingQueuePage = dynamic(() => import('../../src/pages/GradingQueuePage'), {
+  ssr: false
+})
+
+export default function Grading() {
+  return <GradingQueuePage />
+}
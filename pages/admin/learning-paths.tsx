@@ -0,0 +1,10 @@
+import React from 'react'
+import dynamic from 'next/dynamic'
+
+const LearningPathEditorPage = dynamic(() => import('../../src/pages/LearningPathEditorPage'), {
+  ssr: false
+})
+
+export default function LearningPaths() {
+  return <LearningPathEditorPage />
+}
@@ -0,0 +1,10 @@
+import React from 'react'
+import dynamic from 'next/dynamic'
+
+const ReleaseCalendarPage = dynamic(() => import('../../src/pages/ReleaseCalendarPage'), {
+  ssr: false
+})
+
+export default function ReleaseCalendar() {
+  return <ReleaseCalendarPage />
+}
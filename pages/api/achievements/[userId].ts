@@ -1,7 +1,8 @@
-import { NextApiRequest, NextApiResponse } from 'next';
+import { NextApiResponse } from 'next';
 import FirestoreService from '../../../backend/lib/firestoreService';
+import { withAuth, AuthenticatedRequest } from '../../../backend/lib/serverAuth';
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
   const { userId } = req.query;
 
   if (!userId || typeof userId !== 'string') {
@@ -28,3 +29,5 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     });
   }
 }
+
+export default withAuth({ permissions: ['users:view'], selfOnly: 'userId' }, handler);
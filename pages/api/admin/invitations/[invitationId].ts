@@ -0,0 +1,106 @@
+import { NextApiResponse } from 'next';
+import { withAuth, AuthenticatedRequest } from '../../../../backend/lib/serverAuth';
+import FirestoreService from '../../../../backend/lib/firestoreService';
+import RoleService from '../../../../backend/lib/roleService';
+import JWTManager from '../../../../backend/lib/jwtManager';
+import { sendInvitationEmail } from '../../../../backend/lib/mailer';
+
+const AuditService = require('../../../../backend/lib/auditService');
+const InvitationService = require('../../../../backend/lib/invitationService');
+const { getAppBaseUrl } = require('../../../../backend/lib/appUrl');
+
+/**
+ * One staff invitation.
+ *
+ * POST   -> email a fresh invite link; earlier links stop working
+ * DELETE -> revoke a pending invitation
+ */
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  const { invitationId } = req.query;
+
+  if (!invitationId || typeof invitationId !== 'string') {
+    return res.status(400).json({ success: false, error: 'Invitation ID is required' });
+  }
+
+  if (req.method !== 'POST' && req.method !== 'DELETE') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    const existing = await InvitationService.getInvitation(invitationId);
+    if (!existing) {
+      return res.status(404).json({ success: false, error: 'Invitation not found' });
+    }
+
+    // Same rule as sending: only invitations for roles below the caller's own
+    if (req.auth.role !== 'Super Admin' && !(await RoleService.canManageRole(req.auth.role, existing.role))) {
+      return res.status(403).json({ success: false, error: 'You can only manage invitations for roles below your own' });
+    }
+
+    const ipAddress = AuditService.getClientIp(req);
+    const userAgent = AuditService.getUserAgent(req);
+
+    if (req.method === 'POST') {
+      const { invitation, token } = await InvitationService.resendInvitation(invitationId);
+
+      const inviter = await FirestoreService.getUserData(req.auth.userId);
+      let emailSent = true;
+      try {
+        await sendInvitationEmail(invitation.email, {
+          inviteLink: `${getAppBaseUrl(req)}/invite?token=${encodeURIComponent(token)}`,
+          role: invitation.role,
+          invitedBy: inviter?.full_name || req.auth.email,
+          expiresInDays: Math.round(JWTManager.getInviteExpiry() / (24 * 60 * 60 * 1000))
+        });
+      } catch (mailError) {
+        console.error('❌ Failed to resend invitation email:', mailError);
+        emailSent = false;
+      }
+
+      try {
+        await AuditService.logInvitationAction(
+          'INVITATION_RESENT',
+          req.auth.userId,
+          req.auth.email,
+          invitationId,
+          { email: invitation.email, role: invitation.role, send_count: invitation.send_count, email_sent: emailSent },
+          ipAddress,
+          userAgent
+        );
+      } catch (auditError) {
+        console.error('⚠️ Failed to log invitation resend:', auditError);
+      }
+
+      return res.status(200).json({ success: true, data: invitation, emailSent });
+    }
+
+    const invitation = await InvitationService.revokeInvitation(invitationId, { userId: req.auth.userId });
+
+    try {
+      await AuditService.logInvitationAction(
+        'INVITATION_REVOKED',
+        req.auth.userId,
+        req.auth.email,
+        invitationId,
+        { email: invitation.email, role: invitation.role },
+        ipAddress,
+        userAgent
+      );
+    } catch (auditError) {
+      console.error('⚠️ Failed to log invitation revocation:', auditError);
+    }
+
+    return res.status(200).json({ success: true, data: invitation });
+  } catch (error: any) {
+    if (error?.code === 'INVITATION_NOT_FOUND') {
+      return res.status(404).json({ success: false, error: error.message });
+    }
+    if (error?.code === 'INVITATION_NOT_PENDING') {
+      return res.status(409).json({ success: false, error: error.message, code: error.code });
+    }
+    console.error('❌ Invitation API error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to process invitation request' });
+  }
+}
+
+export default withAuth({ permissions: ['users:create', 'users:assign_roles'] }, handler);
@@ -0,0 +1,109 @@
+import { NextApiResponse } from 'next';
+import { withAuth, AuthenticatedRequest } from '../../../../backend/lib/serverAuth';
+import FirestoreService from '../../../../backend/lib/firestoreService';
+import RoleService from '../../../../backend/lib/roleService';
+import { standardizeRole } from '../../../../src/lib/roleStandardization';
+import { validateEmail } from '../../../../src/utils/validation';
+import JWTManager from '../../../../backend/lib/jwtManager';
+import { sendInvitationEmail } from '../../../../backend/lib/mailer';
+
+const AuditService = require('../../../../backend/lib/auditService');
+const InvitationService = require('../../../../backend/lib/invitationService');
+const { getAppBaseUrl } = require('../../../../backend/lib/appUrl');
+
+const INVITATION_STATUSES = ['pending', 'expired', 'accepted', 'revoked'];
+
+/**
+ * Staff invitations.
+ *
+ * GET  ?status=                  -> invitations, newest first
+ * POST { email, role, fullName? } -> record an invitation and email the invite link
+ */
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  try {
+    if (req.method === 'GET') {
+      const { status } = req.query;
+      const invitations = await InvitationService.listInvitations({
+        status: typeof status === 'string' && INVITATION_STATUSES.includes(status) ? status : undefined
+      });
+      return res.status(200).json({ success: true, data: invitations });
+    }
+
+    if (req.method !== 'POST') {
+      return res.status(405).json({ success: false, error: 'Method not allowed' });
+    }
+
+    const { email, role, fullName } = req.body || {};
+
+    if (!email || typeof email !== 'string' || !role || typeof role !== 'string') {
+      return res.status(400).json({ success: false, error: 'Email and role are required' });
+    }
+
+    const emailValidation = validateEmail(email);
+    if (!emailValidation.isValid) {
+      return res.status(400).json({ success: false, error: emailValidation.message });
+    }
+
+    // Learners sign up themselves; invitations are for the stored staff roles
+    const roleDefinition = await RoleService.getRole(standardizeRole(role));
+    if (!roleDefinition || roleDefinition.name === 'user') {
+      return res.status(400).json({ success: false, error: 'Invalid role selected' });
+    }
+
+    // Super Admins may invite any role; everyone else only roles below their own
+    if (req.auth.role !== 'Super Admin' && !(await RoleService.canManageRole(req.auth.role, roleDefinition.name))) {
+      return res.status(403).json({ success: false, error: 'You can only invite users with roles below your own' });
+    }
+
+    const { invitation, token } = await InvitationService.createInvitation({
+      email,
+      role: roleDefinition.name,
+      fullName: typeof fullName === 'string' ? fullName : '',
+      invitedBy: { userId: req.auth.userId, email: req.auth.email }
+    });
+
+    const inviter = await FirestoreService.getUserData(req.auth.userId);
+    let emailSent = true;
+    try {
+      await sendInvitationEmail(invitation.email, {
+        inviteLink: `${getAppBaseUrl(req)}/invite?token=${encodeURIComponent(token)}`,
+        role: invitation.role,
+        invitedBy: inviter?.full_name || req.auth.email,
+        expiresInDays: Math.round(JWTManager.getInviteExpiry() / (24 * 60 * 60 * 1000))
+      });
+    } catch (mailError) {
+      // The invitation stands; the admin can resend it once mail is working
+      console.error('❌ Failed to send invitation email:', mailError);
+      emailSent = false;
+    }
+
+    try {
+      await AuditService.logInvitationAction(
+        'INVITATION_SENT',
+        req.auth.userId,
+        req.auth.email,
+        invitation.id,
+        { email: invitation.email, role: invitation.role, expires_at: invitation.expires_at, email_sent: emailSent },
+        AuditService.getClientIp(req),
+        AuditService.getUserAgent(req)
+      );
+    } catch (auditError) {
+      console.error('⚠️ Failed to log invitation:', auditError);
+    }
+
+    return res.status(201).json({ success: true, data: invitation, emailSent });
+  } catch (error: any) {
+    if (error?.code === 'ACCOUNT_EXISTS' || error?.code === 'INVITATION_PENDING') {
+      return res.status(409).json({ success: false, error: error.message, code: error.code });
+    }
+    console.error('❌ Invitations API error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to process invitation request' });
+  }
+}
+
+export default withAuth({
+  permissions: {
+    GET: ['users:view'],
+    POST: ['users:create', 'users:assign_roles']
+  }
+}, handler);
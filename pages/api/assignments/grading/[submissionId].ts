@@ -0,0 +1,61 @@
+import { NextApiResponse } from 'next';
+import { withAuth, AuthenticatedRequest } from '../../../../backend/lib/serverAuth';
+
+const AuditService = require('../../../../backend/lib/auditService');
+const AssignmentService = require('../../../../backend/lib/assignmentService');
+
+/**
+ * GET  -> { submission, assignment, peer_reviews }
+ * POST { scores: { [criterionId]: points }, feedback } -> instructor grade, which overrides peer scores
+ */
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  const { submissionId } = req.query;
+
+  if (!submissionId || typeof submissionId !== 'string') {
+    return res.status(400).json({ success: false, error: 'Submission ID is required' });
+  }
+
+  try {
+    if (req.method === 'GET') {
+      const detail = await AssignmentService.getSubmissionForGrading(submissionId);
+      if (!detail) {
+        return res.status(404).json({ success: false, error: 'Submission not found' });
+      }
+      return res.status(200).json({ success: true, data: detail });
+    }
+
+    if (req.method !== 'POST') {
+      return res.status(405).json({ success: false, error: 'Method not allowed' });
+    }
+
+    const submission = await AssignmentService.gradeSubmission(submissionId, req.body || {}, { userId: req.auth.userId, email: req.auth.email });
+
+    try {
+      await AuditService.logCourseAction(
+        'assignment_graded',
+        req.auth.userId,
+        req.auth.email,
+        submission.course_id,
+        '',
+        { submission_id: submissionId, learner_id: submission.user_id, final_score: submission.final_score, passed: submission.passed },
+        AuditService.getClientIp(req),
+        AuditService.getUserAgent(req)
+      );
+    } catch (auditError) {
+      console.error('⚠️ Failed to log assignment grade:', auditError);
+    }
+
+    return res.status(200).json({ success: true, data: submission });
+  } catch (error: any) {
+    if (error?.code === 'SUBMISSION_NOT_FOUND' || error?.code === 'ASSIGNMENT_NOT_FOUND') {
+      return res.status(404).json({ success: false, error: error.message });
+    }
+    if (error?.code === 'INVALID_GRADE') {
+      return res.status(400).json({ success: false, error: error.message, code: error.code });
+    }
+    console.error('❌ Grading API error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to grade the submission' });
+  }
+}
+
+export default withAuth({ permissions: ['courses:edit'] }, handler);
@@ -0,0 +1,28 @@
+import { NextApiResponse } from 'next';
+import { withAuth, AuthenticatedRequest } from '../../../../backend/lib/serverAuth';
+
+const AssignmentService = require('../../../../backend/lib/assignmentService');
+
+/**
+ * GET ?status=pending|graded&courseId= -> the instructor grading queue, oldest submission first
+ */
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  const { status, courseId } = req.query;
+
+  try {
+    const submissions = await AssignmentService.listGradingQueue({
+      status: status === 'graded' ? 'graded' : 'pending',
+      courseId: typeof courseId === 'string' && courseId ? courseId : undefined
+    });
+    return res.status(200).json({ success: true, data: submissions });
+  } catch (error) {
+    console.error('❌ Grading queue API error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to load the grading queue' });
+  }
+}
+
+export default withAuth({ permissions: ['courses:edit'] }, handler);
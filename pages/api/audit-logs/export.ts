@@ -0,0 +1,140 @@
+import { NextApiResponse } from 'next';
+import { withAuth, AuthenticatedRequest } from '../../../backend/lib/serverAuth';
+import { invalidDateFilter, readAuditLogFilters } from '../../../backend/lib/auditLogFilters';
+
+const AuditService = require('../../../backend/lib/auditService');
+
+// Entries fetched per Firestore query while streaming
+const EXPORT_PAGE_SIZE = 1000;
+
+const CSV_COLUMNS: Array<[string, (log: any) => unknown]> = [
+  ['ID', log => log.id],
+  ['Chain Shard', log => (typeof log.sequence === 'number' ? log.chain_shard ?? 0 : '')],
+  ['Sequence', log => log.sequence],
+  ['User ID', log => log.user_id],
+  ['User Email', log => log.user_email],
+  ['Action', log => log.action],
+  ['Resource Type', log => log.resource_type],
+  ['Resource ID', log => log.resource_id],
+  ['Details', log => (typeof log.details === 'string' ? log.details : JSON.stringify(log.details || ''))],
+  ['IP Address', log => log.ip_address],
+  ['User Agent', log => log.user_agent],
+  ['Created At', log => log.created_at],
+  ['Hash', log => log.hash]
+];
+
+// Spreadsheets run cells starting with these as formulas, and log fields carry user input
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const csvCell = (value: unknown) => {
+  const text = String(value ?? '');
+  return `"${(FORMULA_PREFIX.test(text) ? `'${text}` : text).replace(/"/g, '""')}"`;
+};
+
+const toCsvRow = (log: any) => `${CSV_COLUMNS.map(([, read]) => csvCell(read(log))).join(',')}\n`;
+
+// Resolves when the client is ready for more, or has gone away
+const waitForDrain = (res: NextApiResponse) => new Promise<void>(resolve => {
+  const done = () => {
+    res.off('drain', done);
+    res.off('close', done);
+    resolve();
+  };
+  res.once('drain', done);
+  res.once('close', done);
+});
+
+// Server timestamps do not serialise usefully; created_at carries the same instant
+const toNdjsonRow = ({ timestamp, ...log }: any) => `${JSON.stringify(log)}\n`;
+
+/**
+ * GET -> stream every audit entry matching the filters as CSV (default) or NDJSON (?format=ndjson).
+ * Pages through Firestore and writes as it goes, so memory use does not grow with the export.
+ */
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const format = req.query.format === 'ndjson' ? 'ndjson' : 'csv';
+  const filters = readAuditLogFilters(req.query);
+  const dateError = invalidDateFilter(filters);
+  if (dateError) {
+    return res.status(400).json({ success: false, error: dateError });
+  }
+
+  let rows = 0;
+  let completed = false;
+
+  try {
+    // Fetch the first page before committing to a 200 so query errors can still be reported
+    let page = await AuditService.queryLogs(filters, { limit: EXPORT_PAGE_SIZE });
+
+    res.setHeader('Content-Type', format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="audit-logs-${new Date().toISOString().split('T')[0]}.${format}"`);
+    res.setHeader('Cache-Control', 'no-store');
+    res.status(200);
+
+    if (format === 'csv') {
+      res.write(`${CSV_COLUMNS.map(([header]) => csvCell(header)).join(',')}\n`);
+    }
+
+    while (true) {
+      for (const log of page.logs) {
+        if (res.destroyed) break;
+
+        // Respect backpressure so slow clients do not make the buffer grow
+        if (!res.write(format === 'csv' ? toCsvRow(log) : toNdjsonRow(log))) {
+          await waitForDrain(res);
+        }
+        rows++;
+      }
+
+      // The client went away mid-page
+      if (res.destroyed) break;
+
+      if (!page.nextCursor) {
+        completed = true;
+        break;
+      }
+
+      page = await AuditService.queryLogs(filters, { limit: EXPORT_PAGE_SIZE, cursor: page.nextCursor });
+    }
+
+    res.end();
+  } catch (error: any) {
+    console.error('❌ Audit log export error:', error);
+    if (!res.headersSent) {
+      return res.status(500).json({
+        success: false,
+        error: error.message || 'Failed to export audit logs'
+      });
+    }
+    // Headers are gone; cut the download short so it is not mistaken for a complete file
+    res.destroy(error);
+  }
+
+  try {
+    await AuditService.createLog({
+      user_id: req.auth.userId,
+      user_email: req.auth.email,
+      action: 'AUDIT_LOGS_EXPORTED',
+      resource_type: 'AUDIT_LOG',
+      resource_id: '',
+      details: { format, filters, rows, completed },
+      ip_address: AuditService.getClientIp(req),
+      user_agent: AuditService.getUserAgent(req)
+    });
+  } catch (auditError) {
+    console.error('⚠️ Failed to log audit export:', auditError);
+  }
+}
+
+export const config = {
+  api: {
+    // Exports are streamed and can be far larger than the default response warning size
+    responseLimit: false
+  }
+};
+
+export default withAuth({ permissions: ['audit:export_logs'] }, handler);
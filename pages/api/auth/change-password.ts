@@ -1,5 +1,14 @@
-import { NextApiRequest, NextApiResponse } from 'next';
+import { NextApiResponse } from 'next';
 import admin from 'firebase-admin';
+import { withAuth, AuthenticatedRequest, authHasPermission, sendAuthError } from '../../../backend/lib/serverAuth';
+import RoleService from '../../../backend/lib/roleService';
+import { standardizeRole } from '../../../src/lib/roleStandardization';
+import { validatePassword } from '../../../src/utils/validation';
+
+const SessionService = require('../../../backend/lib/sessionService');
+const LoginService = require('../../../backend/lib/loginService');
+const AuditService = require('../../../backend/lib/auditService');
+const RateLimitService = require('../../../backend/lib/rateLimitService');
 
 // Initialize Firebase Admin
 const initFirebaseAdmin = () => {
@@ -25,14 +34,7 @@ const initFirebaseAdmin = () => {
   }
 };
 
-// Validation utilities
-const validation = {
-  validatePassword: (password: string): boolean => {
-    return Boolean(password && password.length >= 6);
-  }
-};
-
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
@@ -40,18 +42,55 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   try {
     initFirebaseAdmin();
 
-    const { userId, newPassword } = req.body;
+    // Without a userId the caller is changing their own password
+    const { userId = req.auth.userId, currentPassword, newPassword } = req.body || {};
+    const isSelf = userId === req.auth.userId;
 
-    if (!userId || !newPassword) {
+    if (typeof userId !== 'string' || !userId || !newPassword) {
       return res.status(400).json({
-        error: 'User ID and new password are required'
+        error: 'New password is required'
       });
     }
 
-    if (!validation.validatePassword(newPassword)) {
-      return res.status(400).json({
-        error: 'Password must be at least 6 characters'
-      });
+    // Users may change their own password; anyone else's needs users:edit over a lower role
+    if (!isSelf) {
+      if (!authHasPermission(req.auth, 'users:edit')) {
+        return sendAuthError(res, 'FORBIDDEN');
+      }
+      if (req.auth.role !== 'Super Admin') {
+        const target = await admin.firestore().collection('users').doc(userId).get();
+        if (target.exists && !(await RoleService.canManageRole(req.auth.role, standardizeRole(target.data()?.role)))) {
+          return res.status(403).json({ error: 'You can only change passwords of accounts below your own role' });
+        }
+      }
+    }
+
+    const passwordValidation = validatePassword(typeof newPassword === 'string' ? newPassword : '');
+    if (!passwordValidation.isValid) {
+      return res.status(400).json({ error: passwordValidation.message });
+    }
+
+    // Owners prove they know the current password, counted against the same limit as sign-in
+    if (isSelf) {
+      if (!currentPassword || typeof currentPassword !== 'string') {
+        return res.status(400).json({ error: 'Current password is required' });
+      }
+
+      const userRecord = await admin.auth().getUser(userId);
+      const limit = await RateLimitService.consume('login', { ip: AuditService.getClientIp(req), account: userRecord.email });
+      if (!limit.allowed) {
+        return RateLimitService.sendRateLimited(res, limit, 'Too many attempts. Please try again later.');
+      }
+
+      try {
+        await LoginService.verifyPassword(userRecord.email, currentPassword);
+      } catch (error: any) {
+        if (error.message === 'INVALID_PASSWORD' || error.message === 'EMAIL_NOT_FOUND') {
+          await RateLimitService.recordFailure('login', userRecord.email);
+          return res.status(400).json({ error: 'Current password is incorrect' });
+        }
+        throw error;
+      }
     }
 
     console.log('🔐 Changing password for user:', userId);
@@ -64,6 +103,11 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
       console.log('✅ Password changed successfully for user:', userId);
 
+      // Sign the user out everywhere, keeping only the caller's own session
+      const currentSessionId = isSelf ? req.auth.sessionId : null;
+      const revokedCount = await SessionService.revokeAllUserSessions(userId, 'password_change', currentSessionId);
+      console.log(`🔒 Revoked ${revokedCount} session(s) after password change for user:`, userId);
+
       return res.status(200).json({
         success: true,
         message: 'Password changed successfully'
@@ -92,3 +136,5 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     });
   }
 }
+
+export default withAuth({}, handler);
@@ -0,0 +1,115 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { sendPasswordResetEmail } from '../../../backend/lib/mailer';
+import { validateEmail } from '../../../src/utils/validation';
+
+const AuditService = require('../../../backend/lib/auditService');
+const RateLimitService = require('../../../backend/lib/rateLimitService');
+const PasswordResetService = require('../../../backend/lib/passwordResetService');
+const { getAuth } = require('../../../backend/lib/firebaseAdmin');
+const { getAppBaseUrl } = require('../../../backend/lib/appUrl');
+
+// Same answer whether or not the address has an account, so emails can't be enumerated
+const RESET_REQUESTED_MESSAGE = "If an account exists for that email, we've sent a link to reset the password.";
+
+// ...and in the same time: both paths answer once this long has passed since the request arrived.
+// Sending the link that takes longer carries on after the response.
+const RESPONSE_TIME_MS = 1500;
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, Math.max(ms, 0)));
+
+/**
+ * POST { email } -> email a single-use reset link when the account exists
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const receivedAt = Date.now();
+
+  try {
+    const { email } = req.body || {};
+
+    if (!email || typeof email !== 'string') {
+      return res.status(400).json({ error: 'Email is required' });
+    }
+
+    const emailValidation = validateEmail(email);
+    if (!emailValidation.isValid) {
+      return res.status(400).json({ error: emailValidation.message });
+    }
+
+    const normalizedEmail = email.trim().toLowerCase();
+    const ipAddress = AuditService.getClientIp(req);
+    const userAgent = AuditService.getUserAgent(req);
+
+    const limit = await RateLimitService.consume('password_reset', { ip: ipAddress, account: normalizedEmail });
+    if (!limit.allowed) {
+      return RateLimitService.sendRateLimited(res, limit, 'Too many password reset requests. Please try again later.');
+    }
+
+    let userRecord = null;
+    try {
+      userRecord = await getAuth().getUserByEmail(normalizedEmail);
+    } catch (error: any) {
+      if (error?.code !== 'auth/user-not-found') {
+        throw error;
+      }
+    }
+
+    const respond = async () => {
+      await sleep(RESPONSE_TIME_MS - (Date.now() - receivedAt));
+      return res.status(200).json({ success: true, message: RESET_REQUESTED_MESSAGE });
+    };
+
+    if (!userRecord || userRecord.disabled) {
+      console.log('🔐 Password reset requested for unknown or disabled account');
+      return respond();
+    }
+
+    const account = userRecord;
+    const deliver = async () => {
+      try {
+        const { token, expiresAt } = await PasswordResetService.createToken({
+          userId: account.uid,
+          email: account.email,
+          ipAddress,
+          userAgent
+        });
+
+        try {
+          await sendPasswordResetEmail(
+            account.email,
+            `${getAppBaseUrl(req)}/reset-password?token=${encodeURIComponent(token)}`,
+            PasswordResetService.RESET_TOKEN_TTL_MINUTES
+          );
+        } catch (mailError) {
+          // Reported the same way as success; a failed send must not reveal the account exists
+          console.error('❌ Failed to send password reset email:', mailError);
+        }
+
+        try {
+          await AuditService.logPasswordReset(
+            'PASSWORD_RESET_REQUESTED',
+            account.uid,
+            account.email,
+            { expires_at: expiresAt },
+            ipAddress,
+            userAgent
+          );
+        } catch (auditError) {
+          console.error('⚠️ Failed to log password reset request:', auditError);
+        }
+      } catch (error) {
+        console.error('❌ Failed to issue password reset link:', error);
+      }
+    };
+
+    // Whichever comes first; a slow mail server must not make known accounts answer later
+    await Promise.race([deliver(), sleep(RESPONSE_TIME_MS - (Date.now() - receivedAt))]);
+    return respond();
+  } catch (error: any) {
+    console.error('❌ Forgot password error:', error);
+    return res.status(500).json({ error: 'Failed to process password reset request' });
+  }
+}
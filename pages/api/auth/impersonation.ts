@@ -0,0 +1,111 @@
+import { NextApiResponse } from 'next';
+import { withAuth, AuthenticatedRequest } from '../../../backend/lib/serverAuth';
+import RoleService from '../../../backend/lib/roleService';
+import { standardizeRole } from '../../../src/lib/roleStandardization';
+
+const AuditService = require('../../../backend/lib/auditService');
+const LoginService = require('../../../backend/lib/loginService');
+const ImpersonationService = require('../../../backend/lib/impersonationService');
+const { accessTokenCookie, clearedAccessTokenCookie } = require('../../../backend/lib/authCookies');
+
+const MIN_REASON_LENGTH = 5;
+const MAX_REASON_LENGTH = 500;
+
+/**
+ * POST   -> start viewing as a user { userId, reason, duration_minutes? }
+ *           (replaces the access cookie; the agent's refresh cookie is kept)
+ * DELETE -> end the current impersonation; the client then refreshes back
+ *           into the agent's own session
+ */
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  try {
+    if (req.method === 'POST') {
+      const { userId, reason, duration_minutes } = req.body || {};
+
+      if (!userId || typeof userId !== 'string') {
+        return res.status(400).json({ success: false, error: 'User ID is required' });
+      }
+      if (typeof reason !== 'string' || reason.trim().length < MIN_REASON_LENGTH || reason.length > MAX_REASON_LENGTH) {
+        return res.status(400).json({
+          success: false,
+          error: `Give a reason of ${MIN_REASON_LENGTH}-${MAX_REASON_LENGTH} characters, e.g. the ticket you are working on`
+        });
+      }
+      if (userId === req.auth.userId) {
+        return res.status(400).json({ success: false, error: 'You cannot view as yourself' });
+      }
+
+      let target;
+      try {
+        target = await LoginService.loadUser(userId);
+      } catch (error: any) {
+        if (error?.code === 'auth/user-not-found') {
+          return res.status(404).json({ success: false, error: 'User not found' });
+        }
+        throw error;
+      }
+
+      const targetRole = standardizeRole(target.userRole);
+      if (targetRole === 'Super Admin' || !(await RoleService.canManageRole(req.auth.role, targetRole))) {
+        return res.status(403).json({ success: false, error: 'You can only view as users below your own role' });
+      }
+
+      const { token, expiresAt, maxAgeSeconds } = await ImpersonationService.start(
+        req.auth,
+        { ...target, userRole: targetRole },
+        {
+          reason: reason.trim(),
+          durationMinutes: duration_minutes,
+          ipAddress: AuditService.getClientIp(req),
+          userAgent: AuditService.getUserAgent(req)
+        }
+      );
+
+      res.setHeader('Set-Cookie', accessTokenCookie(token, maxAgeSeconds, req));
+
+      return res.status(200).json({
+        success: true,
+        data: {
+          user: {
+            id: target.userRecord.uid,
+            email: target.userRecord.email,
+            full_name: target.userRecord.displayName || '',
+            role: targetRole
+          },
+          expires_at: expiresAt
+        }
+      });
+    }
+
+    if (req.method === 'DELETE') {
+      if (!req.auth.impersonator) {
+        return res.status(400).json({ success: false, error: 'You are not viewing as another user' });
+      }
+
+      await ImpersonationService.end(
+        req.auth.claims,
+        'ended_by_agent',
+        AuditService.getClientIp(req),
+        AuditService.getUserAgent(req)
+      );
+
+      res.setHeader('Set-Cookie', clearedAccessTokenCookie(req));
+      return res.status(200).json({ success: true, message: 'Impersonation ended' });
+    }
+
+    return res.status(405).json({ error: 'Method not allowed' });
+  } catch (error: any) {
+    console.error('❌ Impersonation API error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to process impersonation request'
+    });
+  }
+}
+
+export default withAuth({
+  permissions: {
+    POST: ['support:impersonate_users']
+  },
+  impersonationMethods: ['DELETE']
+}, handler);
@@ -0,0 +1,115 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import JWTManager from '../../../../backend/lib/jwtManager';
+import { validatePassword } from '../../../../src/utils/validation';
+
+const AuditService = require('../../../../backend/lib/auditService');
+const LoginService = require('../../../../backend/lib/loginService');
+const InvitationService = require('../../../../backend/lib/invitationService');
+const SecurityPolicyService = require('../../../../backend/lib/securityPolicyService');
+
+const INVALID_INVITATION_MESSAGE = 'This invitation link is invalid, has expired or has already been used. Ask your administrator to send a new one.';
+
+/**
+ * Public endpoint behind the emailed invite link.
+ *
+ * GET  ?token=                        -> { email, role, full_name, expires_at } of the pending invitation
+ * POST { token, password, fullName? } -> create the account; then either sign in, or
+ *                                        { mfaRequired, enrollmentRequired, mfaToken } when the
+ *                                        platform has 2FA enabled, finished at /api/auth/mfa/enroll
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    if (req.method === 'GET') {
+      const invitation = await InvitationService.getInvitationForToken(req.query.token);
+      if (!invitation) {
+        return res.status(400).json({ error: INVALID_INVITATION_MESSAGE, code: 'INVALID_INVITATION' });
+      }
+
+      return res.status(200).json({
+        success: true,
+        data: {
+          email: invitation.email,
+          role: invitation.role,
+          full_name: invitation.full_name,
+          expires_at: invitation.expires_at
+        }
+      });
+    }
+
+    if (req.method !== 'POST') {
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const { token, password, fullName } = req.body || {};
+
+    if (!token || typeof token !== 'string') {
+      return res.status(400).json({ error: 'Invitation token is required' });
+    }
+
+    if (typeof fullName === 'string' && fullName.trim() && fullName.trim().length < 2) {
+      return res.status(400).json({ error: 'Full name must be at least 2 characters long' });
+    }
+
+    // Checked before the invitation is redeemed so a weak password doesn't burn the link
+    const passwordValidation = validatePassword(typeof password === 'string' ? password : '');
+    if (!passwordValidation.isValid) {
+      return res.status(400).json({ error: passwordValidation.message });
+    }
+
+    const accepted = await InvitationService.acceptInvitation(token, {
+      password,
+      fullName: typeof fullName === 'string' ? fullName : ''
+    });
+    if (!accepted) {
+      return res.status(400).json({ error: INVALID_INVITATION_MESSAGE, code: 'INVALID_INVITATION' });
+    }
+
+    const { invitation, userRecord } = accepted;
+    console.log('✅ Invitation accepted:', invitation.email, 'as', invitation.role);
+
+    try {
+      await AuditService.logInvitationAction(
+        'INVITATION_ACCEPTED',
+        userRecord.uid,
+        userRecord.email,
+        invitation.id,
+        { role: invitation.role, invited_by: invitation.invited_by },
+        AuditService.getClientIp(req),
+        AuditService.getUserAgent(req)
+      );
+    } catch (auditError) {
+      console.error('⚠️ Failed to log invitation acceptance:', auditError);
+    }
+
+    // Staff accounts enrol a second factor before their first session whenever the platform offers one
+    const policy = await SecurityPolicyService.getPolicy();
+    if (policy.twoFactorAuth.enabled) {
+      return res.status(200).json({
+        message: 'Two-factor enrollment required',
+        mfaRequired: true,
+        enrollmentRequired: true,
+        mfaToken: JWTManager.createMfaChallengeToken(userRecord.uid, userRecord.email)
+      });
+    }
+
+    const { userRole, userData } = await LoginService.loadUser(userRecord.uid);
+    const { token: accessToken, user } = await LoginService.completeLogin(req, res, {
+      userRecord,
+      userRole,
+      userData,
+      method: 'invitation'
+    });
+
+    return res.status(200).json({
+      message: 'Login successful',
+      user,
+      token: accessToken
+    });
+  } catch (error: any) {
+    if (error?.code === 'ACCOUNT_EXISTS') {
+      return res.status(409).json({ error: error.message, code: error.code });
+    }
+    console.error('❌ Accept invitation error:', error);
+    return res.status(500).json({ error: 'Failed to accept invitation' });
+  }
+}
@@ -1,8 +1,14 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import admin from 'firebase-admin';
+import JWTManager from '../../../backend/lib/jwtManager';
+import { standardizeRole } from '../../../src/lib/roleStandardization';
 
 // Import audit service for logging
 const AuditService = require('../../../backend/lib/auditService');
+const LoginService = require('../../../backend/lib/loginService');
+const TOTPService = require('../../../backend/lib/totpService');
+const SecurityPolicyService = require('../../../backend/lib/securityPolicyService');
+const RateLimitService = require('../../../backend/lib/rateLimitService');
 
 // Initialize Firebase Admin
 const initFirebaseAdmin = () => {
@@ -28,78 +34,6 @@ const initFirebaseAdmin = () => {
   }
 };
 
-// Verify password using Firebase REST API
-const verifyPasswordWithFirebase = async (email: string, password: string, apiKey: string): Promise<any> => {
-  const url = `https://identitytoolkit.googleapis.com/v1/accounts:signInWithPassword?key=${apiKey}`;
-
-  const response = await fetch(url, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      email,
-      password,
-      returnSecureToken: true
-    })
-  });
-
-  if (!response.ok) {
-    const error = await response.json();
-    if (error.error?.message === 'INVALID_PASSWORD') {
-      throw new Error('INVALID_PASSWORD');
-    }
-    if (error.error?.message === 'EMAIL_NOT_FOUND') {
-      throw new Error('EMAIL_NOT_FOUND');
-    }
-    throw new Error(error.error?.message || 'Password verification failed');
-  }
-
-  return response.json();
-};
-
-// JWT utilities
-class JWTManager {
-  private static JWT_SECRET = process.env.JWT_SECRET || 'dev-secret-key-change-in-production';
-  private static JWT_EXPIRES_IN = Number(process.env.JWT_EXPIRES_IN) || 3600; // 1 hour
-
-  static base64UrlEncode(str: string): string {
-    return Buffer.from(str)
-      .toString('base64')
-      .replace(/\+/g, '-')
-      .replace(/\//g, '_')
-      .replace(/=/g, '');
-  }
-
-  static generateSignature(message: string): string {
-    const crypto = require('crypto');
-    return crypto
-      .createHmac('sha256', this.JWT_SECRET)
-      .update(message)
-      .digest('base64')
-      .replace(/\+/g, '-')
-      .replace(/\//g, '_')
-      .replace(/=/g, '');
-  }
-
-  static createToken(payload: any): string {
-    const header = { alg: 'HS256', typ: 'JWT' };
-    const iat = Math.floor(Date.now() / 1000);
-    const exp = iat + this.JWT_EXPIRES_IN;
-
-    const tokenPayload = { ...payload, iat, exp };
-
-    const headerEncoded = this.base64UrlEncode(JSON.stringify(header));
-    const payloadEncoded = this.base64UrlEncode(JSON.stringify(tokenPayload));
-    const message = `${headerEncoded}.${payloadEncoded}`;
-    const signature = this.generateSignature(message);
-
-    return `${message}.${signature}`;
-  }
-
-  static getTokenExpiry(): number {
-    return this.JWT_EXPIRES_IN * 1000; // in milliseconds
-  }
-}
-
 // Validation utilities
 const validation = {
   validateEmail: (email: string): boolean => {
@@ -126,39 +60,6 @@ const validation = {
   }
 };
 
-// Rate limiting
-const loginAttempts = new Map<string, { count: number; lastAttempt: number }>();
-const MAX_ATTEMPTS = 5;
-const LOCKOUT_DURATION = 15 * 60 * 1000; // 15 minutes
-
-const rateLimit = {
-  checkRateLimit: (email: string): void => {
-    const now = Date.now();
-    const attempts = loginAttempts.get(email);
-
-    if (attempts && now - attempts.lastAttempt < LOCKOUT_DURATION) {
-      if (attempts.count >= MAX_ATTEMPTS) {
-        throw new Error('RATE_LIMITED');
-      }
-    } else if (attempts) {
-      loginAttempts.delete(email);
-    }
-  },
-
-  recordAttempt: (email: string, success: boolean): void => {
-    const now = Date.now();
-
-    if (success) {
-      loginAttempts.delete(email);
-    } else {
-      const attempts = loginAttempts.get(email) || { count: 0, lastAttempt: 0 };
-      attempts.count += 1;
-      attempts.lastAttempt = now;
-      loginAttempts.set(email, attempts);
-    }
-  }
-};
-
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
@@ -177,17 +78,20 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     // Validate input
     validation.validateCredentials(email, password);
 
-    // Check rate limiting
-    rateLimit.checkRateLimit(email);
+    // Check rate limiting (per IP, and failed attempts per account)
+    const limit = await RateLimitService.consume('login', { ip: AuditService.getClientIp(req), account: email });
+    if (!limit.allowed) {
+      return RateLimitService.sendRateLimited(res, limit, 'Too many login attempts. Please try again later.');
+    }
 
     console.log('🔐 Login attempt for:', email);
 
     // Verify password using Firebase REST API
     let authResponse;
     try {
-      authResponse = await verifyPasswordWithFirebase(email, password, apiKey);
+      authResponse = await LoginService.verifyPassword(email, password, apiKey);
     } catch (error: any) {
-      rateLimit.recordAttempt(email, false);
+      await RateLimitService.recordFailure('login', email);
       // Log failed login attempt
       try {
         const ipAddress = AuditService.getClientIp(req);
@@ -207,7 +111,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     try {
       userRecord = await admin.auth().getUserByEmail(email);
     } catch (error: any) {
-      rateLimit.recordAttempt(email, false);
+      await RateLimitService.recordFailure('login', email);
       if (error.code === 'auth/user-not-found') {
         return res.status(401).json({ error: 'Invalid email or password' });
       }
@@ -228,7 +132,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       if (userDoc.exists) {
         const data = userDoc.data();
         userRole = data?.role || 'user';
-        isSuspended = data?.suspended === true;
+        // A deactivated account is refused like a suspended one
+        isSuspended = data?.suspended === true || data?.is_active === false;
         console.log('📋 User document found:', { role: userRole, suspended: isSuspended, userData: data });
         userData = data || {};
       }
@@ -239,7 +144,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     // Check if user is suspended
     if (isSuspended) {
       console.log('⛔ Login attempt for suspended user:', email);
-      rateLimit.recordAttempt(email, false);
+      await RateLimitService.recordFailure('login', email);
 
       // Log failed login attempt for suspended account
       try {
@@ -265,67 +170,30 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       console.warn('⚠️ Could not update Firebase Auth custom claims:', error);
     }
 
-    // Create JWT token with user information and role
-    const tokenPayload = {
-      userId: userRecord.uid,
-      email: userRecord.email,
-      displayName: userRecord.displayName || '',
-      photoURL: userRecord.photoURL || null,
-      role: userRole
-    };
-
-    const jwtToken = JWTManager.createToken(tokenPayload);
-    const tokenExpiryMs = JWTManager.getTokenExpiry();
-
-    // Prepare user data for response
-    const responseUser = {
-      id: userRecord.uid,
-      email: userRecord.email,
-      full_name: userRecord.displayName || '',
-      displayName: userRecord.displayName || '',
-      photoURL: userRecord.photoURL || null,
-      role: userRole,
-      ...userData
-    };
+    await RateLimitService.reset('login', email);
 
-    // Set JWT token in cookie (accessible to JavaScript)
-    // Critical: DO NOT set Domain attribute - let browser use current domain only
-    // This ensures document.cookie can access the token
-    const maxAge = Math.floor(tokenExpiryMs / 1000); // Convert ms to seconds
-    const isProduction = process.env.NODE_ENV === 'production' ||
-                         req.headers.host?.includes('fly.dev') ||
-                         req.headers['x-forwarded-proto'] === 'https';
+    // Accounts with TOTP enabled, or whose role requires it, finish signing in at /api/auth/mfa/*
+    const mfaEnabled = await TOTPService.isEnabled(userRecord.uid);
+    const mfaRequired = mfaEnabled || await SecurityPolicyService.isMfaRequiredForRole(standardizeRole(userRole));
 
-    const cookieString = [
-      `app_user=${jwtToken}`,
-      "Path=/",
-      // When in production OR inside Builder.io iframe → must use None; Secure
-      isProduction ? "SameSite=None" : "SameSite=Lax",
-      isProduction ? "Secure" : "",
-      `Max-Age=${maxAge}`
-    ].filter(Boolean).join("; ");
-
-    console.log(`🔐 Login: Setting app_user cookie (max-age: ${maxAge}s, secure: ${isProduction})`);
-    res.setHeader('Set-Cookie', cookieString);
+    if (mfaRequired) {
+      console.log('🔐 Password accepted, second factor required for:', email);
+      return res.status(200).json({
+        message: mfaEnabled ? 'Two-factor authentication required' : 'Two-factor enrollment required',
+        mfaRequired: true,
+        enrollmentRequired: !mfaEnabled,
+        mfaToken: JWTManager.createMfaChallengeToken(userRecord.uid, userRecord.email)
+      });
+    }
 
-    rateLimit.recordAttempt(email, true);
+    const { token, user } = await LoginService.completeLogin(req, res, { userRecord, userRole, userData });
 
     console.log('✅ Login successful for:', email, 'with role:', userRole);
 
-    // Log successful login
-    try {
-      const ipAddress = AuditService.getClientIp(req);
-      const userAgent = AuditService.getUserAgent(req);
-      await AuditService.logLogin(userRecord.uid, email, true, ipAddress, userAgent);
-    } catch (auditError) {
-      console.error('⚠️ Failed to log login audit event:', auditError);
-      // Don't fail the login if audit logging fails
-    }
-
     return res.status(200).json({
       message: 'Login successful',
-      user: responseUser,
-      token: jwtToken // Also return token for client-side storage if needed
+      user,
+      token // Also return token for client-side storage if needed
     });
 
   } catch (error: any) {
@@ -335,7 +203,6 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       'MISSING_CREDENTIALS': { status: 400, message: 'Email and password are required' },
       'INVALID_EMAIL': { status: 400, message: 'Please enter a valid email address' },
       'WEAK_PASSWORD': { status: 400, message: 'Password must be at least 6 characters' },
-      'RATE_LIMITED': { status: 429, message: 'Too many login attempts. Please try again later.' },
       'FIREBASE_API_KEY is not configured': { status: 500, message: 'Server configuration error - FIREBASE_API_KEY missing' }
     };
 
@@ -1,7 +1,11 @@
 import { NextApiRequest, NextApiResponse } from 'next';
+import JWTManager from '../../../backend/lib/jwtManager';
 
 // Import audit service for logging
 const AuditService = require('../../../backend/lib/auditService');
+const SessionService = require('../../../backend/lib/sessionService');
+const ImpersonationService = require('../../../backend/lib/impersonationService');
+const { clearedAuthCookies, REFRESH_COOKIE } = require('../../../backend/lib/authCookies');
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
@@ -9,8 +13,48 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 
   try {
-    // Get user info from request body or auth header
-    const { userId, userEmail } = req.body;
+    // Get user info from the token, falling back to the request body
+    let { userId, userEmail } = req.body || {};
+
+    // Revoke the server-side session so the access and refresh tokens stop working immediately
+    const token = JWTManager.extractTokenFromRequest(req);
+    let sessionId: string | null = null;
+    if (token) {
+      try {
+        const payload = JWTManager.verifyTokenSignature(token);
+        userId = payload.userId || userId;
+        userEmail = payload.email || userEmail;
+        sessionId = payload.sid || null;
+
+        // Signing out while viewing as a user closes the impersonation and the agent's own session
+        if (payload.impersonator) {
+          await ImpersonationService.end(payload, 'logout', AuditService.getClientIp(req), AuditService.getUserAgent(req));
+          userId = payload.impersonator.userId;
+          userEmail = payload.impersonator.email;
+          sessionId = payload.impersonator.sid || null;
+        }
+      } catch (error: any) {
+        console.warn('⚠️ Could not read access token on logout:', error?.message || error);
+      }
+    }
+
+    // An expired access token still leaves the refresh cookie to identify the session
+    const refreshToken = req.cookies[REFRESH_COOKIE];
+    if (!sessionId && refreshToken) {
+      try {
+        sessionId = JWTManager.verifyRefreshToken(refreshToken).sid || null;
+      } catch (error: any) {
+        console.warn('⚠️ Could not read refresh token on logout:', error?.message || error);
+      }
+    }
+
+    if (sessionId) {
+      try {
+        await SessionService.revokeSession(sessionId, 'logout');
+      } catch (error: any) {
+        console.warn('⚠️ Could not revoke session on logout:', error?.message || error);
+      }
+    }
 
     // Log logout attempt
     if (userId && userEmail) {
@@ -24,20 +68,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       }
     }
 
-    // Clear app_user cookie by setting it to an empty value with past expiration
-    // Match the cookie format used in login (SameSite=Lax, no HttpOnly flag, no Domain)
-    const isProduction = process.env.NODE_ENV === 'production' ||
-                         req.headers.host?.includes('fly.dev') ||
-                         req.headers['x-forwarded-proto'] === 'https';
-
-    const cookieOptions = [
-      'Path=/',
-      isProduction ? "SameSite=None" : "SameSite=Lax",
-      'Max-Age=0', // Immediately expires the cookie
-      isProduction ? 'Secure' : ''
-    ].filter(Boolean).join('; ');
-
-    res.setHeader('Set-Cookie', `app_user=; ${cookieOptions}`);
+    // Clear app_user and app_refresh cookies by setting them to empty values with past expiration
+    res.setHeader('Set-Cookie', clearedAuthCookies(req));
 
     return res.status(200).json({
       message: 'Logged out successfully'
@@ -0,0 +1,118 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import JWTManager from '../../../../backend/lib/jwtManager';
+import { authenticateRequest, sendAuthError } from '../../../../backend/lib/serverAuth';
+
+const AuditService = require('../../../../backend/lib/auditService');
+const ImpersonationService = require('../../../../backend/lib/impersonationService');
+const LoginService = require('../../../../backend/lib/loginService');
+const TOTPService = require('../../../../backend/lib/totpService');
+const SecurityPolicyService = require('../../../../backend/lib/securityPolicyService');
+
+/**
+ * TOTP enrolment. Callable with a session (self-service) or with the mfaToken
+ * from /api/auth/login when the caller's role requires 2FA and they have not
+ * enrolled yet; in that case confirming the code also completes the sign-in.
+ *
+ * POST {}               -> { secret, otpauth_url }
+ * POST { code }         -> { recoveryCodes } (+ user/token when signing in)
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { mfaToken, code } = req.body || {};
+
+    let caller: { userId: string; email: string } | null = null;
+    let signingIn = false;
+
+    if (mfaToken) {
+      try {
+        const challenge = JWTManager.verifyMfaChallengeToken(mfaToken);
+        caller = { userId: challenge.userId, email: challenge.email };
+        signingIn = true;
+      } catch (error) {
+        return res.status(401).json({ error: 'Your sign-in attempt has expired. Please log in again.', code: 'MFA_CHALLENGE_EXPIRED' });
+      }
+    } else {
+      const session = await authenticateRequest(req);
+      // Not wrapped in withAuth (the mfaToken path has no session), so "view as user" is refused here
+      if (session?.impersonator) {
+        await ImpersonationService.logRequest(req, session.claims, 'IMPERSONATION_READ_ONLY');
+        return sendAuthError(res, 'IMPERSONATION_READ_ONLY');
+      }
+      caller = session;
+    }
+
+    if (!caller) {
+      return sendAuthError(res, 'UNAUTHENTICATED');
+    }
+
+    // A sign-in challenge may only enrol accounts that have no second factor yet
+    if (await TOTPService.isEnabled(caller.userId)) {
+      return res.status(409).json({ error: 'Two-factor authentication is already enabled' });
+    }
+
+    const policy = await SecurityPolicyService.getPolicy();
+    if (!policy.twoFactorAuth.enabled) {
+      return res.status(403).json({ error: 'Two-factor authentication is disabled on this platform' });
+    }
+
+    if (!code) {
+      const enrollment = await TOTPService.beginEnrollment(caller.userId, caller.email);
+      return res.status(200).json({
+        success: true,
+        data: enrollment
+      });
+    }
+
+    const recoveryCodes = await TOTPService.confirmEnrollment(caller.userId, code);
+    if (!recoveryCodes) {
+      return res.status(400).json({ error: 'Invalid verification code. Check your authenticator app and try again.' });
+    }
+
+    const ipAddress = AuditService.getClientIp(req);
+    const userAgent = AuditService.getUserAgent(req);
+
+    try {
+      await AuditService.logMfaEvent('MFA_ENABLED', caller.userId, caller.email, { method: 'totp' }, ipAddress, userAgent);
+    } catch (auditError) {
+      console.error('⚠️ Failed to log MFA enrollment audit event:', auditError);
+    }
+
+    if (!signingIn) {
+      return res.status(200).json({
+        success: true,
+        data: { recoveryCodes }
+      });
+    }
+
+    const { userRecord, userRole, userData } = await LoginService.loadUser(caller.userId);
+    if (userData.suspended === true) {
+      return res.status(403).json({ error: 'Your account has been suspended. Please contact User Support.' });
+    }
+
+    const { token, user } = await LoginService.completeLogin(req, res, {
+      userRecord,
+      userRole,
+      userData,
+      method: 'email_password+totp'
+    });
+
+    return res.status(200).json({
+      success: true,
+      message: 'Login successful',
+      data: { recoveryCodes },
+      user,
+      token
+    });
+  } catch (error: any) {
+    console.error('❌ MFA enrollment error:', error?.message || error);
+    return res.status(500).json({ error: 'Failed to set up two-factor authentication' });
+  }
+}
+
+export const config = {
+  api: { bodyParser: { sizeLimit: '1mb' } }
+};
@@ -0,0 +1,81 @@
+import { NextApiResponse } from 'next';
+import { withAuth, AuthenticatedRequest, authHasPermission, sendAuthError } from '../../../../backend/lib/serverAuth';
+import { standardizeRole } from '../../../../src/lib/roleStandardization';
+import RoleService from '../../../../backend/lib/roleService';
+
+const AuditService = require('../../../../backend/lib/auditService');
+const FirestoreService = require('../../../../backend/lib/firestoreService');
+const TOTPService = require('../../../../backend/lib/totpService');
+const SecurityPolicyService = require('../../../../backend/lib/securityPolicyService');
+
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  try {
+    if (req.method === 'GET') {
+      const status = await TOTPService.getStatus(req.auth.userId);
+      const required = await SecurityPolicyService.isMfaRequiredForRole(req.auth.role);
+
+      return res.status(200).json({
+        success: true,
+        data: { ...status, required }
+      });
+    }
+
+    if (req.method === 'DELETE') {
+      const targetUserId = typeof req.query.userId === 'string' ? req.query.userId : req.auth.userId;
+      const ipAddress = AuditService.getClientIp(req);
+      const userAgent = AuditService.getUserAgent(req);
+
+      if (targetUserId === req.auth.userId) {
+        // Turning off your own second factor needs a current code and is not allowed where the role requires it
+        if (await SecurityPolicyService.isMfaRequiredForRole(req.auth.role)) {
+          return res.status(400).json({ error: 'Two-factor authentication is required for your role and cannot be disabled' });
+        }
+
+        const { code } = req.body || {};
+        const result = await TOTPService.verify(req.auth.userId, { code });
+        if (!result.valid) {
+          return res.status(result.locked ? 429 : 400).json({ error: 'Invalid verification code' });
+        }
+      } else {
+        // Resetting someone else's 2FA (lost device) is limited to roles that can manage theirs
+        const target = await FirestoreService.getUserData(targetUserId);
+        if (!target) {
+          return res.status(404).json({ success: false, error: 'User not found' });
+        }
+        if (!authHasPermission(req.auth, 'users:edit') || !(await RoleService.canManageRole(req.auth.role, standardizeRole(target.role)))) {
+          return sendAuthError(res, 'FORBIDDEN');
+        }
+      }
+
+      await TOTPService.disable(targetUserId);
+
+      try {
+        await AuditService.logMfaEvent(
+          'MFA_DISABLED',
+          req.auth.userId,
+          req.auth.email,
+          { target_user_id: targetUserId, reset_by_admin: targetUserId !== req.auth.userId },
+          ipAddress,
+          userAgent
+        );
+      } catch (auditError) {
+        console.error('⚠️ Failed to log MFA disable audit event:', auditError);
+      }
+
+      return res.status(200).json({
+        success: true,
+        message: 'Two-factor authentication disabled'
+      });
+    }
+
+    return res.status(405).json({ error: 'Method not allowed' });
+  } catch (error: any) {
+    console.error('❌ MFA API error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to process two-factor request'
+    });
+  }
+}
+
+export default withAuth({}, handler);
@@ -0,0 +1,49 @@
+import { NextApiResponse } from 'next';
+import { withAuth, AuthenticatedRequest } from '../../../../backend/lib/serverAuth';
+
+const AuditService = require('../../../../backend/lib/auditService');
+const TOTPService = require('../../../../backend/lib/totpService');
+
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { code } = req.body || {};
+
+    // A fresh code proves the authenticator is still in the caller's hands
+    const result = await TOTPService.verify(req.auth.userId, { code });
+    if (!result.valid) {
+      return res.status(result.locked ? 429 : 400).json({ error: 'Invalid verification code' });
+    }
+
+    const recoveryCodes = await TOTPService.regenerateRecoveryCodes(req.auth.userId);
+
+    try {
+      await AuditService.logMfaEvent(
+        'MFA_RECOVERY_CODES_REGENERATED',
+        req.auth.userId,
+        req.auth.email,
+        {},
+        AuditService.getClientIp(req),
+        AuditService.getUserAgent(req)
+      );
+    } catch (auditError) {
+      console.error('⚠️ Failed to log recovery code audit event:', auditError);
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: { recoveryCodes }
+    });
+  } catch (error: any) {
+    console.error('❌ Recovery codes API error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to regenerate recovery codes'
+    });
+  }
+}
+
+export default withAuth({}, handler);
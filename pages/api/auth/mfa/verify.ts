@@ -0,0 +1,96 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import JWTManager from '../../../../backend/lib/jwtManager';
+
+const AuditService = require('../../../../backend/lib/auditService');
+const LoginService = require('../../../../backend/lib/loginService');
+const TOTPService = require('../../../../backend/lib/totpService');
+const RateLimitService = require('../../../../backend/lib/rateLimitService');
+
+/**
+ * Second login step: exchange the mfaToken from /api/auth/login plus a TOTP
+ * (or recovery) code for a full session.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { mfaToken, code, recoveryCode } = req.body || {};
+
+    if (!mfaToken || (!code && !recoveryCode)) {
+      return res.status(400).json({ error: 'Verification code is required' });
+    }
+
+    let challenge;
+    try {
+      challenge = JWTManager.verifyMfaChallengeToken(mfaToken);
+    } catch (error) {
+      return res.status(401).json({ error: 'Your sign-in attempt has expired. Please log in again.', code: 'MFA_CHALLENGE_EXPIRED' });
+    }
+
+    const ipAddress = AuditService.getClientIp(req);
+    const userAgent = AuditService.getUserAgent(req);
+
+    const limit = await RateLimitService.consume('mfa_verify', { ip: ipAddress, account: challenge.userId });
+    if (!limit.allowed) {
+      return RateLimitService.sendRateLimited(res, limit, 'Too many verification attempts. Please try again later.');
+    }
+
+    const result = await TOTPService.verify(challenge.userId, { code, recoveryCode });
+
+    if (!result.valid) {
+      await RateLimitService.recordFailure('mfa_verify', challenge.userId);
+
+      try {
+        await AuditService.logMfaEvent('MFA_FAILED', challenge.userId, challenge.email, { locked: Boolean(result.locked) }, ipAddress, userAgent);
+      } catch (auditError) {
+        console.error('⚠️ Failed to log MFA failure audit event:', auditError);
+      }
+
+      if (result.locked) {
+        return res.status(429).json({ error: 'Too many incorrect codes. Please try again in 15 minutes.' });
+      }
+      return res.status(401).json({ error: 'Invalid verification code' });
+    }
+
+    await RateLimitService.reset('mfa_verify', challenge.userId);
+
+    const { userRecord, userRole, userData } = await LoginService.loadUser(challenge.userId);
+
+    // The account may have been suspended since the password step
+    if (userData.suspended === true) {
+      return res.status(403).json({ error: 'Your account has been suspended. Please contact User Support.' });
+    }
+
+    if (result.method === 'recovery_code') {
+      try {
+        await AuditService.logMfaEvent('MFA_RECOVERY_CODE_USED', userRecord.uid, userRecord.email, {}, ipAddress, userAgent);
+      } catch (auditError) {
+        console.error('⚠️ Failed to log recovery code audit event:', auditError);
+      }
+    }
+
+    const { token, user } = await LoginService.completeLogin(req, res, {
+      userRecord,
+      userRole,
+      userData,
+      method: result.method === 'recovery_code' ? 'email_password+recovery_code' : 'email_password+totp'
+    });
+
+    console.log('✅ Login with second factor successful for:', userRecord.email);
+
+    return res.status(200).json({
+      message: 'Login successful',
+      user,
+      token
+    });
+  } catch (error: any) {
+    console.error('❌ MFA verify error:', error?.message || error);
+    return res.status(500).json({ error: 'Verification failed. Please try again.' });
+  }
+}
+
+export const config = {
+  api: { bodyParser: { sizeLimit: '1mb' } }
+};
@@ -1,5 +1,11 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import admin from 'firebase-admin';
+import JWTManager from '../../../backend/lib/jwtManager';
+
+const AuditService = require('../../../backend/lib/auditService');
+const SessionService = require('../../../backend/lib/sessionService');
+const PermissionOverrideService = require('../../../backend/lib/permissionOverrideService');
+const { accessTokenCookie, refreshTokenCookie, clearedAuthCookies, REFRESH_COOKIE } = require('../../../backend/lib/authCookies');
 
 const initFirebaseAdmin = () => {
   if (!admin.apps.length) {
@@ -24,86 +30,6 @@ const initFirebaseAdmin = () => {
   }
 };
 
-class JWTManager {
-  private static JWT_SECRET = process.env.JWT_SECRET || 'dev-secret-key-change-in-production';
-  private static JWT_EXPIRES_IN = Number(process.env.JWT_EXPIRES_IN) || 3600;
-
-  static base64UrlEncode(str: string): string {
-    return Buffer.from(str)
-      .toString('base64')
-      .replace(/\+/g, '-')
-      .replace(/\//g, '_')
-      .replace(/=/g, '');
-  }
-
-  static base64UrlDecode(str: string): string {
-    str += new Array(5 - str.length % 4).join('=');
-    return Buffer.from(
-      str.replace(/-/g, '+').replace(/_/g, '/'),
-      'base64'
-    ).toString('utf8');
-  }
-
-  static generateSignature(message: string): string {
-    const crypto = require('crypto');
-    return crypto
-      .createHmac('sha256', this.JWT_SECRET)
-      .update(message)
-      .digest('base64')
-      .replace(/\+/g, '-')
-      .replace(/\//g, '_')
-      .replace(/=/g, '');
-  }
-
-  static verifyToken(token: string): any {
-    try {
-      const parts = token.split('.');
-      if (parts.length !== 3) {
-        throw new Error('Invalid token format');
-      }
-
-      const [headerEncoded, payloadEncoded, signature] = parts;
-      const message = `${headerEncoded}.${payloadEncoded}`;
-
-      const expectedSignature = this.generateSignature(message);
-      if (signature !== expectedSignature) {
-        throw new Error('Invalid signature');
-      }
-
-      const payloadJson = this.base64UrlDecode(payloadEncoded);
-      const payload = JSON.parse(payloadJson);
-
-      const currentTime = Math.floor(Date.now() / 1000);
-      if (payload.exp < currentTime) {
-        throw new Error('Token expired');
-      }
-
-      return payload;
-    } catch (error) {
-      throw new Error(`Token verification failed: ${(error as any).message}`);
-    }
-  }
-
-  static createToken(payload: any): string {
-    const header = { alg: 'HS256', typ: 'JWT' };
-    const iat = Math.floor(Date.now() / 1000);
-    const exp = iat + this.JWT_EXPIRES_IN;
-
-    const tokenPayload = { ...payload, iat, exp };
-
-    const headerEncoded = this.base64UrlEncode(JSON.stringify(header));
-    const payloadEncoded = this.base64UrlEncode(JSON.stringify(tokenPayload));
-    const message = `${headerEncoded}.${payloadEncoded}`;
-    const signature = this.generateSignature(message);
-
-    return `${message}.${signature}`;
-  }
-
-  static getTokenExpiry(): number {
-    return this.JWT_EXPIRES_IN * 1000;
-  }
-}
-
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
@@ -112,19 +38,19 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   try {
     initFirebaseAdmin();
 
-    // Get token from cookie only (secure approach)
-    const token = req.cookies.app_user;
+    // Refresh token comes from the HttpOnly cookie (body is accepted for non-browser clients)
+    const refreshToken = req.cookies[REFRESH_COOKIE] || req.body?.refreshToken;
 
-    if (!token) {
-      return res.status(401).json({ error: 'No token provided - authentication required' });
+    if (!refreshToken) {
+      return res.status(401).json({ error: 'No refresh token provided - authentication required' });
     }
 
-    // Verify and decode the token
     let payload;
     try {
-      payload = JWTManager.verifyToken(token);
+      payload = JWTManager.verifyRefreshToken(refreshToken);
     } catch (error: any) {
-      return res.status(401).json({ error: 'Invalid or expired token' });
+      res.setHeader('Set-Cookie', clearedAuthCookies(req));
+      return res.status(401).json({ error: 'Invalid or expired refresh token' });
     }
 
     // Get updated user data from Firebase
@@ -147,34 +73,67 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       console.warn('Could not fetch user data:', error);
     }
 
-    // Create new JWT token
+    // Suspended or deactivated users must not be able to extend an existing session
+    if (userData.suspended === true || userData.is_active === false) {
+      await SessionService.revokeSession(payload.sid, userData.suspended === true ? 'suspended' : 'deactivated');
+      res.setHeader('Set-Cookie', clearedAuthCookies(req));
+      return res.status(403).json({ error: 'Your account has been suspended. Please contact User Support.' });
+    }
+
+    // Rotate: the presented refresh token is spent and a new one takes its place
+    const newRefreshToken = JWTManager.createRefreshToken(userRecord.uid, payload.sid);
+    const outcome = await SessionService.rotateRefreshToken(payload.sid, refreshToken, newRefreshToken);
+
+    if (outcome === 'reuse') {
+      console.warn('🚨 Refresh token reuse detected, revoked session:', payload.sid);
+      try {
+        await AuditService.logSecurityEvent(
+          'REFRESH_TOKEN_REUSE',
+          userRecord.uid,
+          { session_id: payload.sid, action: 'session_family_revoked' },
+          AuditService.getClientIp(req),
+          AuditService.getUserAgent(req),
+          'HIGH'
+        );
+      } catch (auditError) {
+        console.error('⚠️ Failed to log refresh token reuse event:', auditError);
+      }
+      res.setHeader('Set-Cookie', clearedAuthCookies(req));
+      return res.status(401).json({ error: 'Refresh token has already been used. Please log in again.', code: 'REFRESH_TOKEN_REUSED' });
+    }
+
+    if (outcome === 'idle') {
+      res.setHeader('Set-Cookie', clearedAuthCookies(req));
+      return res.status(401).json({ error: 'Your session expired due to inactivity. Please log in again.', code: 'SESSION_IDLE_TIMEOUT' });
+    }
+
+    if (outcome === 'invalid') {
+      res.setHeader('Set-Cookie', clearedAuthCookies(req));
+      return res.status(401).json({ error: 'Session revoked or expired' });
+    }
+
+    // Create new JWT token for the same session
     const tokenPayload = {
       userId: userRecord.uid,
       email: userRecord.email,
       displayName: userRecord.displayName || '',
       photoURL: userRecord.photoURL || null,
-      role: userRole
+      role: userRole,
+      // Re-read on every refresh so override changes reach the token within one access-token lifetime
+      permission_overrides: PermissionOverrideService.toClaim(userData.permission_overrides),
+      sid: payload.sid
     };
 
     const newToken = JWTManager.createToken(tokenPayload);
-    const tokenExpiryMs = JWTManager.getTokenExpiry();
-
-    // Set new token in cookie (match login endpoint configuration)
-    const maxAge = Math.floor(tokenExpiryMs / 1000);
-    const isProduction = process.env.NODE_ENV === 'production' ||
-                         req.headers.host?.includes('fly.dev') ||
-                         req.headers['x-forwarded-proto'] === 'https';
-
-    const cookieString = [
-      `app_user=${newToken}`,
-      'Path=/',
-      isProduction ? "SameSite=None" : "SameSite=Lax",
-      `Max-Age=${maxAge}`,
-      isProduction ? 'Secure' : ''
-      // CRITICAL: Omitting Domain and HttpOnly - Domain prevents JS access, HttpOnly blocks reading
-    ].filter(Boolean).join('; ');
-
-    res.setHeader('Set-Cookie', cookieString);
+    const maxAge = Math.floor(JWTManager.getTokenExpiry() / 1000);
+
+    // Match login endpoint configuration. In the grace window another tab has already
+    // received the rotated refresh cookie, so only the access token is reissued.
+    const cookies = [accessTokenCookie(newToken, maxAge, req)];
+    if (outcome === 'rotated') {
+      cookies.push(refreshTokenCookie(newRefreshToken, Math.floor(JWTManager.getRefreshTokenExpiry() / 1000), req));
+    }
+    res.setHeader('Set-Cookie', cookies);
 
     const responseUser = {
       id: userRecord.uid,
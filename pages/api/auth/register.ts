@@ -1,5 +1,11 @@
 import { NextApiRequest, NextApiResponse } from 'next';
 import admin from 'firebase-admin';
+import JWTManager from '../../../backend/lib/jwtManager';
+
+const AuditService = require('../../../backend/lib/auditService');
+const SessionService = require('../../../backend/lib/sessionService');
+const RateLimitService = require('../../../backend/lib/rateLimitService');
+const { accessTokenCookie, refreshTokenCookie } = require('../../../backend/lib/authCookies');
 
 const initFirebaseAdmin = () => {
   if (!admin.apps.length) {
@@ -24,49 +30,6 @@ const initFirebaseAdmin = () => {
   }
 };
 
-class JWTManager {
-  private static JWT_SECRET = process.env.JWT_SECRET || 'dev-secret-key-change-in-production';
-  private static JWT_EXPIRES_IN = Number(process.env.JWT_EXPIRES_IN) || 3600;
-
-  static base64UrlEncode(str: string): string {
-    return Buffer.from(str)
-      .toString('base64')
-      .replace(/\+/g, '-')
-      .replace(/\//g, '_')
-      .replace(/=/g, '');
-  }
-
-  static generateSignature(message: string): string {
-    const crypto = require('crypto');
-    return crypto
-      .createHmac('sha256', this.JWT_SECRET)
-      .update(message)
-      .digest('base64')
-      .replace(/\+/g, '-')
-      .replace(/\//g, '_')
-      .replace(/=/g, '');
-  }
-
-  static createToken(payload: any): string {
-    const header = { alg: 'HS256', typ: 'JWT' };
-    const iat = Math.floor(Date.now() / 1000);
-    const exp = iat + this.JWT_EXPIRES_IN;
-
-    const tokenPayload = { ...payload, iat, exp };
-
-    const headerEncoded = this.base64UrlEncode(JSON.stringify(header));
-    const payloadEncoded = this.base64UrlEncode(JSON.stringify(tokenPayload));
-    const message = `${headerEncoded}.${payloadEncoded}`;
-    const signature = this.generateSignature(message);
-
-    return `${message}.${signature}`;
-  }
-
-  static getTokenExpiry(): number {
-    return this.JWT_EXPIRES_IN * 1000;
-  }
-}
-
 const validation = {
   validateEmail: (email: string): boolean => {
     const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
@@ -128,6 +91,11 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       });
     }
 
+    const limit = await RateLimitService.consume('register', { ip: AuditService.getClientIp(req), account: email });
+    if (!limit.allowed) {
+      return RateLimitService.sendRateLimited(res, limit, 'Too many registration attempts. Please try again later.');
+    }
+
     console.log('📝 Registration attempt for:', email);
 
     // Create Firebase Auth user
@@ -186,27 +154,35 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       console.warn('Could not create Firestore user profile:', error);
     }
 
-    // Create JWT token with user information and role
+    // Register a server-side session so the token can be revoked later
+    const sessionId = await SessionService.createSession({
+      userId: userRecord.uid,
+      ipAddress: AuditService.getClientIp(req),
+      userAgent: AuditService.getUserAgent(req)
+    });
+
+    // Create JWT token with user information, role and session id
     const tokenPayload = {
       userId: userRecord.uid,
       email: userRecord.email,
       displayName: full_name,
       photoURL: null,
-      role: userRole
+      role: userRole,
+      sid: sessionId
     };
 
     const jwtToken = JWTManager.createToken(tokenPayload);
     const tokenExpiryMs = JWTManager.getTokenExpiry();
 
-    // Set JWT token in cookie (accessible to JavaScript for security checks)
-    const cookieOptions = [
-      'Path=/',
-      'SameSite=Strict',
-      `Max-Age=${tokenExpiryMs / 1000}`,
-      process.env.NODE_ENV === 'production' ? 'Secure' : ''
-    ].filter(Boolean).join('; ');
+    // Start the session's refresh token family
+    const refreshToken = JWTManager.createRefreshToken(userRecord.uid, sessionId);
+    await SessionService.attachToken(sessionId, refreshToken);
 
-    res.setHeader('Set-Cookie', `app_user=${jwtToken}; ${cookieOptions}`);
+    // Set JWT token in cookie (accessible to JavaScript for security checks) and the refresh token in an HttpOnly cookie
+    res.setHeader('Set-Cookie', [
+      accessTokenCookie(jwtToken, Math.floor(tokenExpiryMs / 1000), req),
+      refreshTokenCookie(refreshToken, Math.floor(JWTManager.getRefreshTokenExpiry() / 1000), req)
+    ]);
 
     console.log('✅ Registration successful for:', email);
 
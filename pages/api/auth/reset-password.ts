@@ -0,0 +1,82 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { validatePassword } from '../../../src/utils/validation';
+
+const AuditService = require('../../../backend/lib/auditService');
+const RateLimitService = require('../../../backend/lib/rateLimitService');
+const SessionService = require('../../../backend/lib/sessionService');
+const PasswordResetService = require('../../../backend/lib/passwordResetService');
+const { getAuth } = require('../../../backend/lib/firebaseAdmin');
+
+/**
+ * POST { token, newPassword } -> set a new password with an emailed reset
+ * token and sign the account out everywhere
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { token, newPassword } = req.body || {};
+
+    if (!token || typeof token !== 'string') {
+      return res.status(400).json({ error: 'Reset token is required' });
+    }
+
+    // Checked before the token is redeemed so a weak password doesn't burn the link
+    const passwordValidation = validatePassword(typeof newPassword === 'string' ? newPassword : '');
+    if (!passwordValidation.isValid) {
+      return res.status(400).json({ error: passwordValidation.message });
+    }
+
+    const reset = await PasswordResetService.consumeToken(token);
+    if (!reset) {
+      return res.status(400).json({
+        error: 'This reset link is invalid or has expired. Please request a new one.',
+        code: 'INVALID_RESET_TOKEN'
+      });
+    }
+
+    const ipAddress = AuditService.getClientIp(req);
+    const userAgent = AuditService.getUserAgent(req);
+
+    try {
+      await getAuth().updateUser(reset.userId, { password: newPassword });
+    } catch (error: any) {
+      if (error?.code === 'auth/user-not-found') {
+        return res.status(400).json({
+          error: 'This reset link is invalid or has expired. Please request a new one.',
+          code: 'INVALID_RESET_TOKEN'
+        });
+      }
+      throw error;
+    }
+
+    const revokedCount = await SessionService.revokeAllUserSessions(reset.userId, 'password_reset');
+    console.log(`🔒 Revoked ${revokedCount} session(s) after password reset for user:`, reset.userId);
+
+    // The owner has proven control of the mailbox, so lift any login lockout
+    await RateLimitService.reset('login', reset.email);
+
+    try {
+      await AuditService.logPasswordReset(
+        'PASSWORD_RESET_COMPLETED',
+        reset.userId,
+        reset.email,
+        { sessions_revoked: revokedCount },
+        ipAddress,
+        userAgent
+      );
+    } catch (auditError) {
+      console.error('⚠️ Failed to log password reset:', auditError);
+    }
+
+    return res.status(200).json({
+      success: true,
+      message: 'Password reset successfully. Please sign in with your new password.'
+    });
+  } catch (error: any) {
+    console.error('❌ Reset password error:', error);
+    return res.status(500).json({ error: 'Failed to reset password' });
+  }
+}
@@ -3,6 +3,9 @@ import { sendOTPEmail } from '../../../backend/lib/mailer';
 import otpService from '../../../backend/lib/otpService';
 import { validateEmail } from '../../../src/utils/validation';
 
+const AuditService = require('../../../backend/lib/auditService');
+const RateLimitService = require('../../../backend/lib/rateLimitService');
+
 interface SendOTPRequest {
   email: string;
 }
@@ -11,6 +14,8 @@ interface SendOTPResponse {
   message?: string;
   error?: string;
   timeRemainingSeconds?: number;
+  code?: string;
+  retryAfter?: number;
 }
 
 export default async function handler(
@@ -33,6 +38,11 @@ export default async function handler(
       return res.status(400).json({ error: emailValidation.message });
     }
 
+    const limit = await RateLimitService.consume('otp_send', { ip: AuditService.getClientIp(req), account: email });
+    if (!limit.allowed) {
+      return RateLimitService.sendRateLimited(res, limit, 'Too many verification emails requested. Please try again later.');
+    }
+
     const otpStatus = otpService.getOTPStatus(email);
     if (otpStatus.exists && otpStatus.timeRemainingSeconds !== undefined && otpStatus.timeRemainingSeconds > 0) {
       return res.status(429).json({
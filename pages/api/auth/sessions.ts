@@ -0,0 +1,96 @@
+import { NextApiResponse } from 'next';
+import { withAuth, AuthenticatedRequest } from '../../../backend/lib/serverAuth';
+
+const AuditService = require('../../../backend/lib/auditService');
+const SessionService = require('../../../backend/lib/sessionService');
+const { parseUserAgent } = require('../../../backend/lib/deviceInfo');
+
+/**
+ * The caller's own devices.
+ *
+ * GET                -> active sessions with device, approximate location and last activity
+ * DELETE ?sessionId= -> sign one device out
+ * DELETE             -> sign out every device except this one
+ */
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  const { userId, email, sessionId: currentSessionId } = req.auth;
+
+  try {
+    if (req.method === 'GET') {
+      const sessions = await SessionService.getActiveSessions(userId);
+
+      const data = sessions.map((session: any) => ({
+        id: session.id,
+        device: parseUserAgent(session.user_agent),
+        location: session.location || null,
+        ip_address: session.ip_address,
+        created_at: session.created_at,
+        last_activity: session.last_activity,
+        is_current: session.id === currentSessionId,
+        is_support_session: Boolean(session.impersonator_id)
+      }));
+
+      return res.status(200).json({ success: true, data });
+    }
+
+    if (req.method === 'DELETE') {
+      const ipAddress = AuditService.getClientIp(req);
+      const userAgent = AuditService.getUserAgent(req);
+      const { sessionId } = req.query;
+
+      if (typeof sessionId === 'string' && sessionId) {
+        if (sessionId === currentSessionId) {
+          return res.status(400).json({ success: false, error: 'Use sign out to end the current session' });
+        }
+
+        // Only the caller's own sessions; anything else looks the same as a missing one
+        const session = await SessionService.getSession(sessionId);
+        if (!session || session.user_id !== userId || !(await SessionService.revokeSession(sessionId, 'signed_out_by_user'))) {
+          return res.status(404).json({ success: false, error: 'Session not found or already ended' });
+        }
+
+        try {
+          await AuditService.createLog({
+            user_id: userId,
+            user_email: email,
+            action: 'SESSION_SIGNED_OUT',
+            resource_type: 'AUTH',
+            resource_id: sessionId,
+            details: {},
+            ip_address: ipAddress,
+            user_agent: userAgent
+          });
+        } catch (auditError) {
+          console.error('⚠️ Failed to log device sign-out:', auditError);
+        }
+
+        return res.status(200).json({ success: true, message: 'Device signed out' });
+      }
+
+      const revokedCount = await SessionService.revokeAllUserSessions(userId, 'signed_out_by_user', currentSessionId);
+
+      try {
+        await AuditService.createLog({
+          user_id: userId,
+          user_email: email,
+          action: 'OTHER_SESSIONS_SIGNED_OUT',
+          resource_type: 'AUTH',
+          details: { sessions_revoked: revokedCount },
+          ip_address: ipAddress,
+          user_agent: userAgent
+        });
+      } catch (auditError) {
+        console.error('⚠️ Failed to log device sign-out:', auditError);
+      }
+
+      return res.status(200).json({ success: true, data: { revoked: revokedCount } });
+    }
+
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  } catch (error: any) {
+    console.error('❌ Device sessions API error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to process sessions request' });
+  }
+}
+
+export default withAuth({}, handler);
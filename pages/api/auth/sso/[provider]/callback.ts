@@ -0,0 +1,139 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import JWTManager from '../../../../../backend/lib/jwtManager';
+import { standardizeRole } from '../../../../../src/lib/roleStandardization';
+
+const AuditService = require('../../../../../backend/lib/auditService');
+const LoginService = require('../../../../../backend/lib/loginService');
+const OIDCService = require('../../../../../backend/lib/oidcService');
+const TOTPService = require('../../../../../backend/lib/totpService');
+const SecurityPolicyService = require('../../../../../backend/lib/securityPolicyService');
+const { getAppBaseUrl } = require('../../../../../backend/lib/appUrl');
+const { SSO_STATE_COOKIE, clearedSsoStateCookie } = require('../../../../../backend/lib/authCookies');
+
+// OIDCService error codes shown on the login page; anything else is reported as 'failed'
+const LOGIN_ERRORS: Record<string, string> = {
+  SSO_EMAIL_UNVERIFIED: 'email_unverified',
+  SSO_DOMAIN_NOT_ALLOWED: 'domain_not_allowed',
+  SSO_NOT_PROVISIONED: 'not_provisioned',
+  SSO_IDENTITY_MISMATCH: 'identity_mismatch',
+  SSO_LINK_REQUIRED: 'link_required'
+};
+
+const withParam = (path: string, name: string, value: string) =>
+  `${path}${path.includes('?') ? '&' : '?'}${name}=${encodeURIComponent(value)}`;
+
+const appendCookie = (res: NextApiResponse, cookie: string) => {
+  const existing = res.getHeader('Set-Cookie');
+  const cookies = Array.isArray(existing) ? existing : existing ? [String(existing)] : [];
+  res.setHeader('Set-Cookie', [...cookies, cookie]);
+};
+
+/**
+ * GET ?code&state -> the identity provider's redirect back to us. Verifies the
+ * state and ID token, links or provisions the account and signs it in like a
+ * password login (including the second factor when one is required). When a
+ * signed-in user started the flow to link the provider, it only records the
+ * link and returns them to where they started.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const providerId = String(req.query.provider || '');
+  const method = `sso:${providerId}`;
+  const ipAddress = AuditService.getClientIp(req);
+  const userAgent = AuditService.getUserAgent(req);
+  let email = '';
+  // Failed links go back to the page that started them rather than the login page
+  let failurePath = '/login';
+
+  // The state cookie is single-use whatever the outcome
+  res.setHeader('Set-Cookie', clearedSsoStateCookie(req));
+
+  const fail = async (reason: string, detail?: string) => {
+    try {
+      await AuditService.logLogin('', email, false, ipAddress, userAgent, detail || reason, method);
+    } catch (auditError) {
+      console.error('⚠️ Failed to log SSO login failure:', auditError);
+    }
+    return res.redirect(302, withParam(failurePath, 'sso_error', reason));
+  };
+
+  try {
+    if (req.query.error) {
+      return await fail(req.query.error === 'access_denied' ? 'access_denied' : 'failed', `PROVIDER_ERROR: ${req.query.error}`);
+    }
+
+    let loginState;
+    try {
+      loginState = JWTManager.verifySsoStateToken(req.cookies?.[SSO_STATE_COOKIE] || '');
+    } catch (error) {
+      return await fail('expired', 'SSO_STATE_INVALID');
+    }
+
+    if (loginState.linkUserId) {
+      failurePath = loginState.returnTo || '/profile';
+    }
+
+    if (loginState.provider !== providerId || !req.query.state || loginState.state !== req.query.state) {
+      return await fail('expired', 'SSO_STATE_MISMATCH');
+    }
+    if (typeof req.query.code !== 'string' || !req.query.code) {
+      return await fail('failed', 'SSO_CODE_MISSING');
+    }
+
+    const provider = await OIDCService.getProvider(providerId);
+    if (!provider) {
+      return await fail('unknown_provider');
+    }
+
+    const claims = await OIDCService.completeAuthorization(provider, {
+      code: req.query.code,
+      redirectUri: `${getAppBaseUrl(req)}/api/auth/sso/${provider.id}/callback`,
+      codeVerifier: loginState.codeVerifier,
+      nonce: loginState.nonce
+    });
+    email = typeof claims.email === 'string' ? claims.email : '';
+
+    const { userRecord, userRole, userData, provisioned } = await OIDCService.resolveUser(provider, claims, {
+      ipAddress,
+      userAgent,
+      linkUserId: loginState.linkUserId || null
+    });
+
+    // The linking user is already signed in; their session stays as it is
+    if (loginState.linkUserId) {
+      console.log(`🔗 ${userRecord.email} linked ${provider.id}`);
+      return res.redirect(302, withParam(loginState.returnTo || '/profile', 'sso_linked', provider.id));
+    }
+
+    if (userRecord.disabled || userData.suspended === true || userData.is_active === false) {
+      console.log('⛔ SSO login attempt for suspended user:', userRecord.email);
+      return await fail('suspended', 'ACCOUNT_SUSPENDED');
+    }
+
+    // The same second-factor rules as a password login apply
+    const mfaEnabled = await TOTPService.isEnabled(userRecord.uid);
+    const mfaRequired = mfaEnabled || await SecurityPolicyService.isMfaRequiredForRole(standardizeRole(userRole));
+
+    if (mfaRequired) {
+      // Passed in the fragment so the challenge token never reaches server logs or referrers
+      const fragment = new URLSearchParams({
+        mfa_token: JWTManager.createMfaChallengeToken(userRecord.uid, userRecord.email),
+        enroll: mfaEnabled ? '0' : '1'
+      });
+      return res.redirect(302, `/login#${fragment.toString()}`);
+    }
+
+    await LoginService.completeLogin(req, res, { userRecord, userRole, userData, method });
+    appendCookie(res, clearedSsoStateCookie(req));
+
+    console.log(`✅ SSO login successful for: ${userRecord.email} via ${provider.id}${provisioned ? ' (new account)' : ''}`);
+
+    return res.redirect(302, provisioned ? '/onboarding' : loginState.returnTo || '/home');
+  } catch (error: any) {
+    console.error(`❌ SSO callback error for ${providerId}:`, error?.message || error);
+    return await fail(LOGIN_ERRORS[error?.code] || 'failed', error?.code || error?.message);
+  }
+}
@@ -0,0 +1,66 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import JWTManager from '../../../../../backend/lib/jwtManager';
+import { authenticateRequest } from '../../../../../backend/lib/serverAuth';
+
+const OIDCService = require('../../../../../backend/lib/oidcService');
+const { getAppBaseUrl } = require('../../../../../backend/lib/appUrl');
+const { ssoStateCookie } = require('../../../../../backend/lib/authCookies');
+
+// Only same-site paths, so the login cannot be used as an open redirect
+const safeReturnTo = (value: unknown): string =>
+  typeof value === 'string' && value.startsWith('/') && !value.startsWith('//') && !value.startsWith('/\\')
+    ? value
+    : '/home';
+
+/**
+ * GET ?returnTo=/path -> redirect the browser to the provider's authorization
+ * endpoint, keeping state, nonce and the PKCE verifier in a signed cookie
+ * GET ?link=1&returnTo=/profile -> the same for a signed-in user linking the
+ * provider to their account; the cookie carries who asked, since the session
+ * cookies are not sent on the provider's redirect back
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const providerId = String(req.query.provider || '');
+
+  try {
+    const provider = await OIDCService.getProvider(providerId);
+    if (!provider) {
+      return res.redirect(302, '/login?sso_error=unknown_provider');
+    }
+
+    let linkUserId: string | null = null;
+    if (req.query.link === '1') {
+      const caller = await authenticateRequest(req);
+      if (!caller) {
+        return res.redirect(302, '/login?sso_error=expired');
+      }
+      if (caller.impersonator) {
+        return res.redirect(302, '/profile?sso_error=impersonating');
+      }
+      linkUserId = caller.userId;
+    }
+
+    const { state, nonce, codeVerifier, codeChallenge } = OIDCService.createLoginState();
+    const redirectUri = `${getAppBaseUrl(req)}/api/auth/sso/${provider.id}/callback`;
+    const authorizationUrl = await OIDCService.buildAuthorizationUrl(provider, { redirectUri, state, nonce, codeChallenge });
+
+    const stateToken = JWTManager.createSsoStateToken({
+      provider: provider.id,
+      state,
+      nonce,
+      codeVerifier,
+      returnTo: safeReturnTo(req.query.returnTo),
+      linkUserId
+    });
+
+    res.setHeader('Set-Cookie', ssoStateCookie(stateToken, Math.floor(JWTManager.getSsoStateExpiry() / 1000), req));
+    return res.redirect(302, authorizationUrl);
+  } catch (error: any) {
+    console.error(`❌ SSO start error for ${providerId}:`, error?.message || error);
+    return res.redirect(302, '/login?sso_error=provider_unavailable');
+  }
+}
@@ -0,0 +1,31 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { authenticateRequest } from '../../../../backend/lib/serverAuth';
+
+const OIDCService = require('../../../../backend/lib/oidcService');
+const { getFirestore } = require('../../../../backend/lib/firebaseAdmin');
+
+/**
+ * GET -> enabled single sign-on providers for the login page (id and name
+ * only), with whether a signed-in caller has linked each one
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const providers = await OIDCService.listProviders();
+
+    const caller = await authenticateRequest(req);
+    const userDoc = caller ? await getFirestore().collection('users').doc(caller.userId).get() : null;
+    const identities = userDoc?.exists ? userDoc.data()?.sso_identities || {} : {};
+
+    return res.status(200).json({
+      success: true,
+      data: providers.map((provider: any) => ({ id: provider.id, name: provider.name, linked: Boolean(identities[provider.id]) }))
+    });
+  } catch (error: any) {
+    console.error('❌ SSO providers error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to load sign-in options' });
+  }
+}
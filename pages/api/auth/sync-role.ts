@@ -1,5 +1,6 @@
-import { NextApiRequest, NextApiResponse } from 'next';
+import { NextApiResponse } from 'next';
 import admin from 'firebase-admin';
+import { withAuth, AuthenticatedRequest } from '../../../backend/lib/serverAuth';
 
 const initFirebaseAdmin = () => {
   if (!admin.apps.length) {
@@ -24,7 +25,7 @@ const initFirebaseAdmin = () => {
   }
 };
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
@@ -32,51 +33,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   try {
     initFirebaseAdmin();
 
-    // Extract token from authorization header or cookie
-    const token = req.headers.authorization?.split('Bearer ')[1] || 
-                  req.cookies?.app_user;
-
-    if (!token) {
-      return res.status(401).json({ error: 'Unauthorized - no token' });
-    }
-
-    // Verify the JWT token manually (similar to how it's done in the app)
-    const jwtUtils = {
-      base64UrlDecode(str: string): string {
-        let base64 = str.replace(/-/g, '+').replace(/_/g, '/');
-        const paddingNeeded = 4 - (base64.length % 4);
-        if (paddingNeeded && paddingNeeded !== 4) {
-          base64 += '='.repeat(paddingNeeded);
-        }
-        const decoded = Buffer.from(base64, 'base64').toString('utf8');
-        return decoded;
-      },
-
-      parseToken(token: string): any {
-        try {
-          const parts = token.split('.');
-          if (parts.length !== 3) throw new Error('Invalid JWT format');
-          const payload = parts[1];
-          if (!payload) throw new Error('Missing payload');
-          const decoded = jwtUtils.base64UrlDecode(payload);
-          return JSON.parse(decoded);
-        } catch (error) {
-          throw new Error(`Invalid token format: ${(error as any).message}`);
-        }
-      }
-    };
-
-    let tokenPayload;
-    try {
-      tokenPayload = jwtUtils.parseToken(token);
-    } catch (error) {
-      return res.status(401).json({ error: 'Invalid token format' });
-    }
-
-    const userId = tokenPayload.userId;
-    if (!userId) {
-      return res.status(401).json({ error: 'Invalid token - no userId' });
-    }
+    const userId = req.auth.userId;
 
     // Get current Firestore user document (Firestore is the source of truth for roles)
     const db = admin.firestore();
@@ -111,3 +68,5 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     return res.status(500).json({ error: error.message || 'Internal server error' });
   }
 }
+
+export default withAuth({}, handler);
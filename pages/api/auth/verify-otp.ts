@@ -2,6 +2,9 @@ import type { NextApiRequest, NextApiResponse } from 'next';
 import otpService from '../../../backend/lib/otpService';
 import { validateEmail } from '../../../src/utils/validation';
 
+const AuditService = require('../../../backend/lib/auditService');
+const RateLimitService = require('../../../backend/lib/rateLimitService');
+
 interface VerifyOTPRequest {
   email: string;
   otp: string;
@@ -12,6 +15,8 @@ interface VerifyOTPResponse {
   valid?: boolean;
   error?: string;
   attemptsRemaining?: number;
+  code?: string;
+  retryAfter?: number;
 }
 
 export default async function handler(
@@ -38,9 +43,15 @@ export default async function handler(
       return res.status(400).json({ error: 'OTP must be a 6-digit code' });
     }
 
+    const limit = await RateLimitService.consume('otp_verify', { ip: AuditService.getClientIp(req), account: email });
+    if (!limit.allowed) {
+      return RateLimitService.sendRateLimited(res, limit, 'Too many verification attempts. Please try again later.');
+    }
+
     const result = otpService.verifyOTP(email, otp);
 
     if (!result.valid) {
+      await RateLimitService.recordFailure('otp_verify', email);
       const otpStatus = otpService.getOTPStatus(email);
       return res.status(400).json({
         valid: false,
@@ -49,6 +60,8 @@ export default async function handler(
       });
     }
 
+    await RateLimitService.reset('otp_verify', email);
+
     return res.status(200).json({
       valid: true,
       message: result.message,
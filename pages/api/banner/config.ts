@@ -1,7 +1,8 @@
-import { NextApiRequest, NextApiResponse } from 'next';
+import { NextApiResponse } from 'next';
 import fs from 'fs';
 import path from 'path';
 import { promises as fsPromises } from 'fs';
+import { withAuth, AuthenticatedRequest } from '../../../backend/lib/serverAuth';
 
 // Banner configuration file path
 const CONFIG_FILE = path.join(process.cwd(), 'data', 'banner-config.json');
@@ -49,7 +50,7 @@ const saveConfig = async (config: any) => {
   await fsPromises.writeFile(CONFIG_FILE, JSON.stringify(config, null, 2));
 };
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
   try {
     if (req.method === 'GET') {
       // Get banner configuration
@@ -93,4 +94,6 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       details: process.env.NODE_ENV === 'development' ? error : undefined
     });
   }
-}
\ No newline at end of file
+}
+
+export default withAuth({ permissions: { PUT: ['system:configuration'] }, publicMethods: ['GET'] }, handler);
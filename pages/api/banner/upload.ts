@@ -3,6 +3,7 @@ import formidable from 'formidable';
 import fs from 'fs';
 import path from 'path';
 import { promises as fsPromises } from 'fs';
+import { withAuth, AuthenticatedRequest } from '../../../backend/lib/serverAuth';
 
 // Disable the default body parser to handle file uploads
 export const config = {
@@ -86,7 +87,7 @@ const ensureUploadDir = async () => {
   return uploadDir;
 };
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
@@ -224,3 +225,5 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     });
   }
 }
+
+export default withAuth({ permissions: ['system:configuration'] }, handler);
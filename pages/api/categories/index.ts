@@ -1,7 +1,8 @@
-import { NextApiRequest, NextApiResponse } from 'next';
+import { NextApiResponse } from 'next';
 import FirestoreService from '../../../backend/lib/firestoreService';
+import { withAuth, AuthenticatedRequest } from '../../../backend/lib/serverAuth';
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
   try {
     if (req.method === 'GET') {
       const categories = await FirestoreService.getCategories();
@@ -48,3 +49,5 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     });
   }
 }
+
+export default withAuth({ permissions: { POST: ['courses:create'] }, publicMethods: ['GET'] }, handler);
@@ -1,7 +1,13 @@
-import { NextApiRequest, NextApiResponse } from 'next';
+import { NextApiResponse } from 'next';
 import FirestoreService from '../../../backend/lib/firestoreService';
+import { withAuth, AuthenticatedRequest } from '../../../backend/lib/serverAuth';
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+const QuizService = require('../../../backend/lib/quizService');
+const AssignmentService = require('../../../backend/lib/assignmentService');
+const CourseAccessService = require('../../../backend/lib/courseAccessService');
+const ContentWorkflowService = require('../../../backend/lib/contentWorkflowService');
+
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
   const { userId } = req.query;
 
   if (!userId || typeof userId !== 'string') {
@@ -20,23 +26,59 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     }
 
     if (req.method === 'POST') {
-      const certificateData = req.body;
+      const courseId = req.body?.course_id;
 
-      if (!certificateData.course_id || !certificateData.course_title) {
+      if (!courseId || typeof courseId !== 'string') {
         return res.status(400).json({
           success: false,
-          error: 'Missing required fields: course_id, course_title'
+          error: 'Missing required field: course_id'
         });
       }
 
-      const certificateId = await FirestoreService.createCertificate({
-        ...certificateData,
-        user_id: userId
-      });
+      // Only published courses award certificates; isCourseComplete waves through courses nobody can take
+      const course = await FirestoreService.getCourseById(courseId);
+      if (!course || !ContentWorkflowService.isPublished(course)) {
+        return res.status(404).json({
+          success: false,
+          error: 'Course not found'
+        });
+      }
 
-      return res.status(201).json({
+      // Every lesson of the learner's version of the course must have been completed through the progress API
+      if (!(await CourseAccessService.isCourseComplete(userId, courseId))) {
+        return res.status(409).json({
+          success: false,
+          error: 'Complete every lesson of the course first',
+          code: 'COURSE_INCOMPLETE'
+        });
+      }
+
+      // Every required quiz in the course (lesson quizzes and the final quiz) must be passed first
+      const outstandingQuizzes = await QuizService.getCertificateGate(userId, courseId);
+      if (outstandingQuizzes.length > 0) {
+        return res.status(409).json({
+          success: false,
+          error: `Required quizzes not passed yet: ${outstandingQuizzes.map((quiz: { title: string }) => quiz.title).join(', ')}`,
+          code: 'QUIZ_REQUIRED',
+          quizzes: outstandingQuizzes
+        });
+      }
+
+      const outstandingAssignments = await AssignmentService.getCertificateGate(userId, courseId);
+      if (outstandingAssignments.length > 0) {
+        return res.status(409).json({
+          success: false,
+          error: `Required assignments not passed yet: ${outstandingAssignments.map((assignment: { title: string }) => assignment.title).join(', ')}`,
+          code: 'ASSIGNMENT_REQUIRED',
+          assignments: outstandingAssignments
+        });
+      }
+
+      const { id: certificateId, created } = await FirestoreService.issueCourseCertificate(userId, course);
+
+      return res.status(created ? 201 : 200).json({
         success: true,
-        message: 'Certificate created successfully',
+        message: created ? 'Certificate created successfully' : 'Certificate already issued',
         certificateId
       });
     }
@@ -50,3 +92,5 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     });
   }
 }
+
+export default withAuth({ permissions: { GET: ['users:view'], POST: ['courses:edit'] }, selfOnly: 'userId' }, handler);
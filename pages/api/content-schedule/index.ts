@@ -0,0 +1,34 @@
+import { NextApiResponse } from 'next';
+import { withAuth, AuthenticatedRequest } from '../../../backend/lib/serverAuth';
+
+const ContentScheduleService = require('../../../backend/lib/contentScheduleService');
+
+/**
+ * Scheduled releases and expiries for the admin calendar
+ *
+ * GET ?from=&to= (ISO instants, up to 100 days apart) -> events, soonest first
+ */
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  const { from, to } = req.query;
+  if (typeof from !== 'string' || typeof to !== 'string'
+    || Number.isNaN(new Date(from).getTime()) || Number.isNaN(new Date(to).getTime())) {
+    return res.status(400).json({ success: false, error: 'from and to must be valid dates' });
+  }
+
+  try {
+    const events = await ContentScheduleService.listEvents(from, to);
+    return res.status(200).json({ success: true, data: events });
+  } catch (error: any) {
+    if (error?.code === 'INVALID_RANGE') {
+      return res.status(400).json({ success: false, error: error.message, code: error.code });
+    }
+    console.error('❌ Release calendar API error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to load scheduled releases' });
+  }
+}
+
+export default withAuth({ permissions: ['content:workflow'] }, handler);
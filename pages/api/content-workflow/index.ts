@@ -0,0 +1,33 @@
+import { NextApiResponse } from 'next';
+import { withAuth, AuthenticatedRequest } from '../../../backend/lib/serverAuth';
+
+const ContentWorkflowService = require('../../../backend/lib/contentWorkflowService');
+
+/**
+ * Review queue: GET ?status=review&assigned=me -> workflows, most recently changed first
+ */
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  const { status, assigned } = req.query;
+
+  if (status !== undefined && !ContentWorkflowService.WORKFLOW_STATUSES.includes(status)) {
+    return res.status(400).json({ success: false, error: 'Unknown workflow status' });
+  }
+
+  try {
+    const workflows = await ContentWorkflowService.listWorkflows({
+      status: status as string | undefined,
+      reviewerId: assigned === 'me' ? req.auth.userId : undefined
+    });
+
+    return res.status(200).json({ success: true, data: workflows, count: workflows.length });
+  } catch (error: any) {
+    console.error('❌ Content workflow queue API error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to fetch the review queue' });
+  }
+}
+
+export default withAuth({ permissions: ['content:workflow'] }, handler);
@@ -0,0 +1,32 @@
+import { NextApiResponse } from 'next';
+import { withAuth, AuthenticatedRequest } from '../../../backend/lib/serverAuth';
+import FirestoreService from '../../../backend/lib/firestoreService';
+import RoleService from '../../../backend/lib/roleService';
+import { hasPermission } from '../../../src/types';
+
+/**
+ * GET -> staff who can be assigned as reviewers (hold content:review)
+ */
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    const users = await FirestoreService.getUsers();
+    const reviewers = [];
+
+    for (const user of users) {
+      if (user.role === 'user' || user.suspended) continue;
+      if (!hasPermission(await RoleService.getUserPermissions(user), 'content:review')) continue;
+      reviewers.push({ id: user.id, full_name: user.full_name || user.email, email: user.email, role: user.role });
+    }
+
+    return res.status(200).json({ success: true, data: reviewers });
+  } catch (error: any) {
+    console.error('❌ Content reviewers API error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to fetch reviewers' });
+  }
+}
+
+export default withAuth({ permissions: ['content:workflow'] }, handler);
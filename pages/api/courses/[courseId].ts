@@ -1,15 +1,20 @@
-import { NextApiRequest, NextApiResponse } from 'next';
+import { NextApiResponse } from 'next';
 import FirestoreService from '../../../backend/lib/firestoreService';
+import { withAuth, AuthenticatedRequest } from '../../../backend/lib/serverAuth';
+import { resolveContentViewer } from '../../../backend/lib/contentVisibility';
 
 // Import audit service and JWT helper
 const AuditService = require('../../../backend/lib/auditService');
 const JWTHelper = require('../../../backend/lib/jwtHelper');
+const ContentWorkflowService = require('../../../backend/lib/contentWorkflowService');
+const CourseVersionService = require('../../../backend/lib/courseVersionService');
+const CourseAccessService = require('../../../backend/lib/courseAccessService');
 
 export const config = {
   api: { bodyParser: { sizeLimit: '50mb' } }
 };
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
   const { courseId } = req.query;
 
   if (!courseId || typeof courseId !== 'string') {
@@ -18,8 +23,20 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
   try {
     if (req.method === 'GET') {
-      const course = await FirestoreService.getCourseById(courseId);
+      const stored = await FirestoreService.getCourseById(courseId);
+      const viewer = await resolveContentViewer(req);
+
+      // Learners part-way through keep the lesson list of the version they started on
+      if (stored && viewer.userId && !viewer.canViewUnpublished) {
+        const pinned = await CourseVersionService.getPinnedLessons(viewer.userId, stored);
+        if (pinned) {
+          stored.lessons = pinned.lessons;
+          stored.pinned_version = pinned.version;
+        }
+      }
 
+      // Unpublished courses are reported as missing to anyone who cannot edit or review them
+      const [course] = stored ? ContentWorkflowService.filterVisible([stored], viewer.canViewUnpublished) : [];
       if (!course) {
         return res.status(404).json({
           success: false,
@@ -27,19 +44,57 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         });
       }
 
+      // Prerequisite, sequence and drip locks apply to learners and visitors, not staff
+      if (viewer.canViewUnpublished) {
+        return res.status(200).json({
+          success: true,
+          data: course
+        });
+      }
+
+      const access = await CourseAccessService.getAccess(viewer.userId, course);
       return res.status(200).json({
         success: true,
-        data: course
+        data: CourseAccessService.applyLocks(course, access)
       });
     }
 
     if (req.method === 'PUT') {
-      const updateData = req.body;
+      const updateData = { ...req.body };
+
+      // Status and publish dates only change through /api/courses/[courseId]/workflow,
+      // version bookkeeping through the draft and version routes
+      [...ContentWorkflowService.WORKFLOW_FIELDS, ...CourseVersionService.VERSION_FIELDS]
+        .forEach((field: string) => delete updateData[field]);
+
+      try {
+        await CourseAccessService.normalizeSettings(updateData, courseId);
+      } catch (error: any) {
+        if (error.code !== 'INVALID_ACCESS') throw error;
+        return res.status(400).json({ success: false, error: error.message, code: error.code });
+      }
 
       // Get existing course to log what changed
       const existingCourse = await FirestoreService.getCourseById(courseId);
+      if (!existingCourse) {
+        return res.status(404).json({
+          success: false,
+          error: 'Course not found'
+        });
+      }
 
-      await FirestoreService.updateCourse(courseId, updateData);
+      // Learners keep seeing the published course until the draft is published
+      const savedAsDraft = ContentWorkflowService.isPublished(existingCourse);
+      if (savedAsDraft) {
+        const profile = await FirestoreService.getUserData(req.auth.userId);
+        await CourseVersionService.saveDraft(courseId, updateData, {
+          userId: req.auth.userId,
+          email: req.auth.email,
+          name: profile?.full_name || req.auth.email
+        });
+      } else {
+        await FirestoreService.updateCourse(courseId, updateData);
+      }
 
       // Log course update
       try {
@@ -53,7 +108,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
             userInfo.email,
             courseId,
             updateData.title || existingCourse?.title || 'Unknown',
-            { updated_fields: Object.keys(updateData) },
+            { updated_fields: Object.keys(updateData), draft: savedAsDraft },
             ipAddress,
             userAgent
           );
@@ -64,7 +119,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
       return res.status(200).json({
         success: true,
-        message: 'Course updated successfully'
+        draft: savedAsDraft,
+        message: savedAsDraft ? 'Changes saved as a draft' : 'Course updated successfully'
       });
     }
 
@@ -110,3 +166,5 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     });
   }
 }
+
+export default withAuth({ permissions: { PUT: ['courses:edit'], DELETE: ['courses:delete'] }, publicMethods: ['GET'] }, handler);
@@ -0,0 +1,101 @@
+import { NextApiResponse } from 'next';
+import { withAuth, AuthenticatedRequest, authHasPermission } from '../../../../../backend/lib/serverAuth';
+import FirestoreService from '../../../../../backend/lib/firestoreService';
+
+const AuditService = require('../../../../../backend/lib/auditService');
+const AssignmentService = require('../../../../../backend/lib/assignmentService');
+const ContentWorkflowService = require('../../../../../backend/lib/contentWorkflowService');
+
+/**
+ * Assignment on a lesson (?lessonId=)
+ *
+ * GET    -> { assignment, submission } with the caller's own submission, or null without an assignment
+ * PUT    { title, instructions, due_at, allow_late, pass_mark, required, rubric, peer_review_enabled, peer_reviews_required } -> create or replace
+ * DELETE -> remove the assignment
+ */
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  const { courseId, lessonId } = req.query;
+
+  if (!courseId || typeof courseId !== 'string' || !lessonId || typeof lessonId !== 'string') {
+    return res.status(400).json({ success: false, error: 'Course ID and lesson ID are required' });
+  }
+
+  const canEdit = authHasPermission(req.auth, 'courses:edit');
+
+  try {
+    if (req.method === 'GET') {
+      const assignment = await AssignmentService.getAssignment(courseId, lessonId);
+      if (!assignment) {
+        return res.status(200).json({ success: true, data: null });
+      }
+
+      if (!canEdit) {
+        // Learners only reach assignments on lessons they can see
+        const course = await FirestoreService.getCourseById(courseId);
+        const lesson = course?.lessons?.find((item: { id: string }) => item.id === lessonId);
+        if (!course || !lesson || !ContentWorkflowService.isPublished(course) || !ContentWorkflowService.isPublished(lesson)) {
+          return res.status(404).json({ success: false, error: 'Assignment not found' });
+        }
+      }
+
+      const submission = await AssignmentService.getLearnerSubmission(req.auth.userId, assignment);
+      return res.status(200).json({ success: true, data: { assignment, submission } });
+    }
+
+    if (req.method !== 'PUT' && req.method !== 'DELETE') {
+      return res.status(405).json({ success: false, error: 'Method not allowed' });
+    }
+
+    if (!canEdit) {
+      return res.status(403).json({ success: false, error: 'Editing assignments requires the courses:edit permission' });
+    }
+
+    const ipAddress = AuditService.getClientIp(req);
+    const userAgent = AuditService.getUserAgent(req);
+
+    if (req.method === 'DELETE') {
+      const deleted = await AssignmentService.deleteAssignment(courseId, lessonId);
+      if (!deleted) {
+        return res.status(404).json({ success: false, error: 'Assignment not found' });
+      }
+
+      try {
+        await AuditService.logCourseAction('assignment_deleted', req.auth.userId, req.auth.email, courseId, '', { lesson_id: lessonId }, ipAddress, userAgent);
+      } catch (auditError) {
+        console.error('⚠️ Failed to log assignment deletion:', auditError);
+      }
+
+      return res.status(200).json({ success: true, message: 'Assignment deleted' });
+    }
+
+    const assignment = await AssignmentService.saveAssignment(courseId, lessonId, req.body || {}, { userId: req.auth.userId, email: req.auth.email });
+
+    try {
+      await AuditService.logCourseAction(
+        'assignment_saved',
+        req.auth.userId,
+        req.auth.email,
+        courseId,
+        assignment.title,
+        { lesson_id: lessonId, criteria: assignment.rubric.length, required: assignment.required, peer_reviews_required: assignment.peer_reviews_required },
+        ipAddress,
+        userAgent
+      );
+    } catch (auditError) {
+      console.error('⚠️ Failed to log assignment change:', auditError);
+    }
+
+    return res.status(200).json({ success: true, data: assignment });
+  } catch (error: any) {
+    if (error?.code === 'CONTENT_NOT_FOUND') {
+      return res.status(404).json({ success: false, error: error.message });
+    }
+    if (error?.code === 'INVALID_ASSIGNMENT') {
+      return res.status(400).json({ success: false, error: error.message, code: error.code });
+    }
+    console.error('❌ Assignment API error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to process assignment request' });
+  }
+}
+
+export default withAuth({}, handler);
@@ -0,0 +1,53 @@
+import { NextApiResponse } from 'next';
+import { withAuth, AuthenticatedRequest } from '../../../../../../../../backend/lib/serverAuth';
+
+const AssignmentService = require('../../../../../../../../backend/lib/assignmentService');
+
+/**
+ * GET -> download one file of the submission under review. Reviewers never
+ * get the storage URL, which names the author.
+ */
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  const { courseId, reviewId } = req.query;
+  const index = Number(req.query.index);
+
+  if (!courseId || typeof courseId !== 'string' || !reviewId || typeof reviewId !== 'string' || !Number.isInteger(index) || index < 0) {
+    return res.status(400).json({ success: false, error: 'Course ID, review ID and file index are required' });
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    const download = await AssignmentService.getPeerReviewFile(req.auth.userId, courseId, reviewId, index);
+
+    res.setHeader('Content-Type', download.content_type);
+    res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${encodeURIComponent(download.name)}`);
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    res.setHeader('Cache-Control', 'private, no-store');
+
+    await new Promise<void>((resolve, reject) => {
+      download.file.createReadStream()
+        .on('error', reject)
+        .on('end', resolve)
+        .pipe(res);
+    });
+  } catch (error: any) {
+    if (res.headersSent) {
+      console.error('❌ Peer review file stream error:', error);
+      return res.end();
+    }
+    if (error?.code === 'REVIEW_NOT_FOUND' || error?.code === 'FILE_NOT_FOUND' || error?.code === 404) {
+      return res.status(404).json({ success: false, error: error.message || 'File not found' });
+    }
+    console.error('❌ Peer review file API error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to load the file' });
+  }
+}
+
+export const config = {
+  api: { responseLimit: false }
+};
+
+export default withAuth({}, handler);
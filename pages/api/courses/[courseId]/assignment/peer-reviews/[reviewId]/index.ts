@@ -0,0 +1,55 @@
+import { NextApiResponse } from 'next';
+import { withAuth, AuthenticatedRequest } from '../../../../../../../backend/lib/serverAuth';
+
+const AuditService = require('../../../../../../../backend/lib/auditService');
+const AssignmentService = require('../../../../../../../backend/lib/assignmentService');
+
+/**
+ * POST { scores: { [criterionId]: points }, comment } -> hand in a claimed peer review
+ */
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  const { courseId, reviewId } = req.query;
+
+  if (!courseId || typeof courseId !== 'string' || !reviewId || typeof reviewId !== 'string') {
+    return res.status(400).json({ success: false, error: 'Course ID and review ID are required' });
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    const result = await AssignmentService.submitPeerReview(req.auth.userId, courseId, reviewId, req.body || {});
+
+    try {
+      await AuditService.logCourseAction(
+        'peer_review_submitted',
+        req.auth.userId,
+        req.auth.email,
+        courseId,
+        '',
+        { review_id: reviewId },
+        AuditService.getClientIp(req),
+        AuditService.getUserAgent(req)
+      );
+    } catch (auditError) {
+      console.error('⚠️ Failed to log peer review:', auditError);
+    }
+
+    return res.status(200).json({ success: true, data: result });
+  } catch (error: any) {
+    if (error?.code === 'REVIEW_NOT_FOUND' || error?.code === 'ASSIGNMENT_NOT_FOUND') {
+      return res.status(404).json({ success: false, error: error.message });
+    }
+    if (error?.code === 'INVALID_GRADE') {
+      return res.status(400).json({ success: false, error: error.message, code: error.code });
+    }
+    if (error?.code === 'REVIEW_SUBMITTED') {
+      return res.status(409).json({ success: false, error: error.message, code: error.code });
+    }
+    console.error('❌ Peer review submission API error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to submit the review' });
+  }
+}
+
+export default withAuth({}, handler);
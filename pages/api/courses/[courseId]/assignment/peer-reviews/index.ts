@@ -0,0 +1,36 @@
+import { NextApiResponse } from 'next';
+import { withAuth, AuthenticatedRequest } from '../../../../../../backend/lib/serverAuth';
+
+const AssignmentService = require('../../../../../../backend/lib/assignmentService');
+
+/**
+ * POST (?lessonId=) -> the caller's next anonymous peer review: { review_id, rubric, submission },
+ * or null when no submission needs reviewing
+ */
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  const { courseId, lessonId } = req.query;
+
+  if (!courseId || typeof courseId !== 'string' || !lessonId || typeof lessonId !== 'string') {
+    return res.status(400).json({ success: false, error: 'Course ID and lesson ID are required' });
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    const task = await AssignmentService.claimPeerReview(req.auth.userId, courseId, lessonId);
+    return res.status(200).json({ success: true, data: task });
+  } catch (error: any) {
+    if (error?.code === 'ASSIGNMENT_NOT_FOUND') {
+      return res.status(404).json({ success: false, error: error.message });
+    }
+    if (error?.code === 'SUBMISSION_REQUIRED') {
+      return res.status(409).json({ success: false, error: error.message, code: error.code });
+    }
+    console.error('❌ Peer review API error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to find a submission to review' });
+  }
+}
+
+export default withAuth({}, handler);
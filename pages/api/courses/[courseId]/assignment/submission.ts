@@ -0,0 +1,79 @@
+import { NextApiResponse } from 'next';
+import { withAuth, AuthenticatedRequest } from '../../../../../backend/lib/serverAuth';
+import FirestoreService from '../../../../../backend/lib/firestoreService';
+
+const AuditService = require('../../../../../backend/lib/auditService');
+const AssignmentService = require('../../../../../backend/lib/assignmentService');
+const ContentWorkflowService = require('../../../../../backend/lib/contentWorkflowService');
+const CourseAccessService = require('../../../../../backend/lib/courseAccessService');
+
+/**
+ * POST (?lessonId=) { files: [{ name, url, size, content_type }], text } -> hand in or replace the caller's work.
+ * Files are uploaded to Storage first, under submissions/{userId}/.
+ */
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  const { courseId, lessonId } = req.query;
+
+  if (!courseId || typeof courseId !== 'string' || !lessonId || typeof lessonId !== 'string') {
+    return res.status(400).json({ success: false, error: 'Course ID and lesson ID are required' });
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    const course = await FirestoreService.getCourseById(courseId);
+    const lesson = course?.lessons?.find((item: { id: string }) => item.id === lessonId);
+    if (!course || !lesson || !ContentWorkflowService.isPublished(course) || !ContentWorkflowService.isPublished(lesson)) {
+      return res.status(404).json({ success: false, error: 'Assignment not found' });
+    }
+
+    // Completing a lesson through its assignment must not skip the lesson's locks
+    const lock = await CourseAccessService.getLessonLock(req.auth.userId, courseId, lessonId);
+    if (lock) {
+      return res.status(409).json({
+        success: false,
+        error: 'This lesson is locked',
+        code: 'LESSON_LOCKED',
+        lock
+      });
+    }
+
+    const submission = await AssignmentService.submit(req.auth.userId, courseId, lessonId, req.body || {}, {
+      email: req.auth.email,
+      name: req.auth.claims?.displayName || ''
+    });
+
+    try {
+      await AuditService.logCourseAction(
+        'assignment_submitted',
+        req.auth.userId,
+        req.auth.email,
+        courseId,
+        course.title || '',
+        { lesson_id: lessonId, version: submission.version, files: submission.files.length, late: submission.late },
+        AuditService.getClientIp(req),
+        AuditService.getUserAgent(req)
+      );
+    } catch (auditError) {
+      console.error('⚠️ Failed to log assignment submission:', auditError);
+    }
+
+    return res.status(200).json({ success: true, data: submission });
+  } catch (error: any) {
+    if (error?.code === 'ASSIGNMENT_NOT_FOUND' || error?.code === 'LESSON_NOT_FOUND') {
+      return res.status(404).json({ success: false, error: error.message });
+    }
+    if (error?.code === 'INVALID_SUBMISSION') {
+      return res.status(400).json({ success: false, error: error.message, code: error.code });
+    }
+    if (error?.code === 'PAST_DUE' || error?.code === 'ALREADY_PASSED') {
+      return res.status(409).json({ success: false, error: error.message, code: error.code });
+    }
+    console.error('❌ Assignment submission API error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to submit the assignment' });
+  }
+}
+
+export default withAuth({}, handler);
@@ -0,0 +1,94 @@
+import { NextApiResponse } from 'next';
+import { withAuth, AuthenticatedRequest } from '../../../../backend/lib/serverAuth';
+import FirestoreService from '../../../../backend/lib/firestoreService';
+
+const AuditService = require('../../../../backend/lib/auditService');
+const CourseVersionService = require('../../../../backend/lib/courseVersionService');
+
+/**
+ * Draft of a published course; edits through PUT /api/courses/[courseId] land here
+ *
+ * GET    -> { draft, live, diff, current_version } (draft and diff are null without a draft)
+ * POST   { notes? } -> publish the draft as the next version
+ * DELETE -> discard the draft
+ */
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  const { courseId } = req.query;
+
+  if (!courseId || typeof courseId !== 'string') {
+    return res.status(400).json({ success: false, error: 'Course ID is required' });
+  }
+
+  try {
+    if (req.method === 'GET') {
+      const result = await CourseVersionService.getDraft(courseId);
+      if (!result) {
+        return res.status(404).json({ success: false, error: 'Course not found' });
+      }
+      return res.status(200).json({ success: true, data: result });
+    }
+
+    if (req.method !== 'POST' && req.method !== 'DELETE') {
+      return res.status(405).json({ success: false, error: 'Method not allowed' });
+    }
+
+    const ipAddress = AuditService.getClientIp(req);
+    const userAgent = AuditService.getUserAgent(req);
+
+    if (req.method === 'DELETE') {
+      const draft = await CourseVersionService.discardDraft(courseId);
+
+      try {
+        await AuditService.logCourseAction(
+          'draft_discarded',
+          req.auth.userId,
+          req.auth.email,
+          courseId,
+          draft.course?.title || '',
+          { based_on_version: draft.based_on_version || null },
+          ipAddress,
+          userAgent
+        );
+      } catch (auditError) {
+        console.error('⚠️ Failed to log draft discard:', auditError);
+      }
+
+      return res.status(200).json({ success: true, message: 'Draft discarded' });
+    }
+
+    const notes = typeof req.body?.notes === 'string' ? req.body.notes.trim() : '';
+    const profile = await FirestoreService.getUserData(req.auth.userId);
+    const version = await CourseVersionService.publishDraft(courseId, {
+      userId: req.auth.userId,
+      email: req.auth.email,
+      name: profile?.full_name || req.auth.email
+    }, notes);
+
+    try {
+      await AuditService.logCourseAction(
+        'version_published',
+        req.auth.userId,
+        req.auth.email,
+        courseId,
+        version.title,
+        { version: version.version, based_on_version: version.based_on_version, notes },
+        ipAddress,
+        userAgent
+      );
+    } catch (auditError) {
+      console.error('⚠️ Failed to log draft publish:', auditError);
+    }
+
+    return res.status(200).json({ success: true, data: version, message: `Published as version ${version.version}` });
+  } catch (error: any) {
+    if (error?.code === 'COURSE_NOT_FOUND' || error?.code === 'DRAFT_NOT_FOUND') {
+      return res.status(404).json({ success: false, error: error.message, code: error.code });
+    }
+    console.error('❌ Course draft API error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to process course draft' });
+  }
+}
+
+export default withAuth({
+  permissions: { GET: ['courses:edit'], POST: ['courses:publish'], DELETE: ['courses:edit'] }
+}, handler);
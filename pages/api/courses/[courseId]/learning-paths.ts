@@ -0,0 +1,32 @@
+import { NextApiResponse } from 'next';
+import { withAuth, AuthenticatedRequest } from '../../../../backend/lib/serverAuth';
+import { resolveContentViewer } from '../../../../backend/lib/contentVisibility';
+
+const LearningPathService = require('../../../../backend/lib/learningPathService');
+
+/**
+ * GET -> the "up next" course in each learning path that includes this course, for the caller
+ */
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  const { courseId } = req.query;
+
+  if (!courseId || typeof courseId !== 'string') {
+    return res.status(400).json({ success: false, error: 'Course ID is required' });
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    const viewer = await resolveContentViewer(req);
+    const suggestions = await LearningPathService.getUpNext(req.auth.userId, courseId, viewer);
+
+    return res.status(200).json({ success: true, data: suggestions });
+  } catch (error: any) {
+    console.error('❌ Learning path up-next API error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to load learning paths for this course' });
+  }
+}
+
+export default withAuth({}, handler);
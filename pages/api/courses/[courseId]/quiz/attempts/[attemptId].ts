@@ -0,0 +1,52 @@
+import { NextApiResponse } from 'next';
+import { withAuth, AuthenticatedRequest } from '../../../../../../backend/lib/serverAuth';
+
+const AuditService = require('../../../../../../backend/lib/auditService');
+const QuizService = require('../../../../../../backend/lib/quizService');
+
+/**
+ * POST { answers: { [questionId]: optionId | optionId[] | text } } -> grade the attempt
+ */
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  const { courseId, attemptId } = req.query;
+
+  if (!courseId || typeof courseId !== 'string' || !attemptId || typeof attemptId !== 'string') {
+    return res.status(400).json({ success: false, error: 'Course ID and attempt ID are required' });
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    const result = await QuizService.submitAttempt(req.auth.userId, courseId, attemptId, req.body?.answers);
+
+    try {
+      await AuditService.logCourseAction(
+        'quiz_submitted',
+        req.auth.userId,
+        req.auth.email,
+        courseId,
+        '',
+        { attempt_id: attemptId, percentage: result.percentage, passed: result.passed },
+        AuditService.getClientIp(req),
+        AuditService.getUserAgent(req)
+      );
+    } catch (auditError) {
+      console.error('⚠️ Failed to log quiz submission:', auditError);
+    }
+
+    return res.status(200).json({ success: true, data: result });
+  } catch (error: any) {
+    if (error?.code === 'ATTEMPT_NOT_FOUND' || error?.code === 'QUIZ_NOT_FOUND') {
+      return res.status(404).json({ success: false, error: error.message });
+    }
+    if (error?.code === 'ATTEMPT_SUBMITTED') {
+      return res.status(409).json({ success: false, error: error.message, code: error.code });
+    }
+    console.error('❌ Quiz submission API error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to submit the quiz' });
+  }
+}
+
+export default withAuth({}, handler);
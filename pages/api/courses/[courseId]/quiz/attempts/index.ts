@@ -0,0 +1,60 @@
+import { NextApiResponse } from 'next';
+import { withAuth, AuthenticatedRequest } from '../../../../../../backend/lib/serverAuth';
+import FirestoreService from '../../../../../../backend/lib/firestoreService';
+
+const ContentWorkflowService = require('../../../../../../backend/lib/contentWorkflowService');
+const QuizService = require('../../../../../../backend/lib/quizService');
+const CourseAccessService = require('../../../../../../backend/lib/courseAccessService');
+
+/**
+ * POST (?lessonId= for a lesson quiz) -> start an attempt, or resume the open one:
+ * { attempt, quiz } with the questions in this attempt's order and no answer key
+ */
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  const { courseId, lessonId } = req.query;
+
+  if (!courseId || typeof courseId !== 'string') {
+    return res.status(400).json({ success: false, error: 'Course ID is required' });
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  const target = typeof lessonId === 'string' && lessonId ? lessonId : undefined;
+
+  try {
+    const course = await FirestoreService.getCourseById(courseId);
+    const lesson = target ? course?.lessons?.find((item: { id: string }) => item.id === target) : null;
+    if (!course || !ContentWorkflowService.isPublished(course) || (target && (!lesson || !ContentWorkflowService.isPublished(lesson)))) {
+      return res.status(404).json({ success: false, error: 'Quiz not found' });
+    }
+
+    if (target) {
+      // A locked lesson's quiz waits with the lesson
+      const lock = await CourseAccessService.getLessonLock(req.auth.userId, courseId, target);
+      if (lock) {
+        return res.status(409).json({
+          success: false,
+          error: 'This lesson is locked',
+          code: 'LESSON_LOCKED',
+          lock
+        });
+      }
+    }
+
+    const result = await QuizService.startAttempt(req.auth.userId, courseId, target);
+    return res.status(200).json({ success: true, data: result });
+  } catch (error: any) {
+    if (error?.code === 'QUIZ_NOT_FOUND' || error?.code === 'LESSON_NOT_FOUND') {
+      return res.status(404).json({ success: false, error: error.message });
+    }
+    if (error?.code === 'ATTEMPTS_EXHAUSTED') {
+      return res.status(409).json({ success: false, error: error.message, code: error.code });
+    }
+    console.error('❌ Quiz attempt API error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to start the quiz' });
+  }
+}
+
+export default withAuth({}, handler);
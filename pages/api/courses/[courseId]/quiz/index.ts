@@ -0,0 +1,105 @@
+import { NextApiResponse } from 'next';
+import { withAuth, AuthenticatedRequest, authHasPermission } from '../../../../../backend/lib/serverAuth';
+import FirestoreService from '../../../../../backend/lib/firestoreService';
+
+const AuditService = require('../../../../../backend/lib/auditService');
+const ContentWorkflowService = require('../../../../../backend/lib/contentWorkflowService');
+const QuizService = require('../../../../../backend/lib/quizService');
+
+/**
+ * Quiz after a lesson (?lessonId=) or at the end of the course (no lessonId)
+ *
+ * GET    -> { quiz, summary }, or null without a quiz; the answer key is only included for course editors
+ * PUT    { title, pass_mark, max_attempts, shuffle_questions, required, xp_points, questions } -> create or replace
+ * DELETE -> remove the quiz
+ */
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  const { courseId, lessonId } = req.query;
+
+  if (!courseId || typeof courseId !== 'string') {
+    return res.status(400).json({ success: false, error: 'Course ID is required' });
+  }
+
+  const target = typeof lessonId === 'string' && lessonId ? lessonId : undefined;
+  const canEdit = authHasPermission(req.auth, 'courses:edit');
+
+  try {
+    if (req.method === 'GET') {
+      const quiz = await QuizService.getQuiz(courseId, target);
+      if (!quiz) {
+        return res.status(200).json({ success: true, data: null });
+      }
+
+      if (!canEdit) {
+        // Learners only reach quizzes on content they can see
+        const course = await FirestoreService.getCourseById(courseId);
+        const lesson = target ? course?.lessons?.find((item: { id: string }) => item.id === target) : null;
+        if (!course || !ContentWorkflowService.isPublished(course) || (target && (!lesson || !ContentWorkflowService.isPublished(lesson)))) {
+          return res.status(404).json({ success: false, error: 'Quiz not found' });
+        }
+      }
+
+      const summary = await QuizService.getLearnerSummary(req.auth.userId, quiz);
+      return res.status(200).json({
+        success: true,
+        data: { quiz: canEdit ? quiz : QuizService.toLearnerQuiz(quiz), summary }
+      });
+    }
+
+    if (req.method !== 'PUT' && req.method !== 'DELETE') {
+      return res.status(405).json({ success: false, error: 'Method not allowed' });
+    }
+
+    if (!canEdit) {
+      return res.status(403).json({ success: false, error: 'Editing quizzes requires the courses:edit permission' });
+    }
+
+    const ipAddress = AuditService.getClientIp(req);
+    const userAgent = AuditService.getUserAgent(req);
+
+    if (req.method === 'DELETE') {
+      const deleted = await QuizService.deleteQuiz(courseId, target);
+      if (!deleted) {
+        return res.status(404).json({ success: false, error: 'Quiz not found' });
+      }
+
+      try {
+        await AuditService.logCourseAction('quiz_deleted', req.auth.userId, req.auth.email, courseId, '', { lesson_id: target || null }, ipAddress, userAgent);
+      } catch (auditError) {
+        console.error('⚠️ Failed to log quiz deletion:', auditError);
+      }
+
+      return res.status(200).json({ success: true, message: 'Quiz deleted' });
+    }
+
+    const quiz = await QuizService.saveQuiz(courseId, target, req.body || {}, { userId: req.auth.userId, email: req.auth.email });
+
+    try {
+      await AuditService.logCourseAction(
+        'quiz_saved',
+        req.auth.userId,
+        req.auth.email,
+        courseId,
+        quiz.title,
+        { lesson_id: target || null, questions: quiz.questions.length, pass_mark: quiz.pass_mark, required: quiz.required },
+        ipAddress,
+        userAgent
+      );
+    } catch (auditError) {
+      console.error('⚠️ Failed to log quiz change:', auditError);
+    }
+
+    return res.status(200).json({ success: true, data: quiz });
+  } catch (error: any) {
+    if (error?.code === 'CONTENT_NOT_FOUND') {
+      return res.status(404).json({ success: false, error: error.message });
+    }
+    if (error?.code === 'INVALID_QUIZ') {
+      return res.status(400).json({ success: false, error: error.message, code: error.code });
+    }
+    console.error('❌ Quiz API error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to process quiz request' });
+  }
+}
+
+export default withAuth({}, handler);
@@ -0,0 +1,121 @@
+import { NextApiResponse } from 'next';
+import { withAuth, AuthenticatedRequest, authHasPermission } from '../../../../backend/lib/serverAuth';
+import FirestoreService from '../../../../backend/lib/firestoreService';
+
+const AuditService = require('../../../../backend/lib/auditService');
+const ContentScheduleService = require('../../../../backend/lib/contentScheduleService');
+
+/**
+ * Release schedule of a course, or of one of its lessons with ?lessonId=
+ *
+ * GET    -> the schedule, or null
+ * PUT    { publishAt?, expireAt?, expireAction?: 'unpublish' | 'archive', timezone } -> create or replace it;
+ *        times are local to `timezone`, formatted YYYY-MM-DDTHH:mm
+ * DELETE -> cancel it
+ */
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  const { courseId, lessonId } = req.query;
+
+  if (!courseId || typeof courseId !== 'string') {
+    return res.status(400).json({ success: false, error: 'Course ID is required' });
+  }
+
+  const contentType = typeof lessonId === 'string' && lessonId ? 'lesson' : 'course';
+  const target = contentType === 'lesson' ? lessonId as string : undefined;
+
+  try {
+    if (req.method === 'GET') {
+      const schedule = await ContentScheduleService.getSchedule(contentType, courseId, target);
+      return res.status(200).json({ success: true, data: schedule });
+    }
+
+    if (req.method !== 'PUT' && req.method !== 'DELETE') {
+      return res.status(405).json({ success: false, error: 'Method not allowed' });
+    }
+
+    // Scheduling decides when content goes live, so it needs the same permission as publishing it
+    const required = contentType === 'lesson' ? 'content:publish' : 'courses:publish';
+    if (!authHasPermission(req.auth, required)) {
+      return res.status(403).json({ success: false, error: `Scheduling requires the ${required} permission` });
+    }
+
+    const ipAddress = AuditService.getClientIp(req);
+    const userAgent = AuditService.getUserAgent(req);
+
+    if (req.method === 'DELETE') {
+      const cancelled = await ContentScheduleService.cancelSchedule(contentType, courseId, target);
+      if (!cancelled) {
+        return res.status(404).json({ success: false, error: 'Nothing is scheduled' });
+      }
+
+      try {
+        await AuditService.logCourseAction(
+          'schedule_cancelled',
+          req.auth.userId,
+          req.auth.email,
+          courseId,
+          cancelled.course_title,
+          { lesson_id: target || null, publish_at: cancelled.publish_at, expire_at: cancelled.expire_at },
+          ipAddress,
+          userAgent
+        );
+      } catch (auditError) {
+        console.error('⚠️ Failed to log schedule cancellation:', auditError);
+      }
+
+      return res.status(200).json({ success: true, message: 'Schedule cancelled' });
+    }
+
+    const { publishAt, expireAt, expireAction, timezone } = req.body || {};
+    const profile = await FirestoreService.getUserData(req.auth.userId);
+
+    const schedule = await ContentScheduleService.saveSchedule({
+      contentType,
+      courseId,
+      lessonId: target,
+      publishAt: typeof publishAt === 'string' && publishAt ? publishAt : null,
+      expireAt: typeof expireAt === 'string' && expireAt ? expireAt : null,
+      expireAction: expireAction || 'unpublish',
+      timezone: typeof timezone === 'string' ? timezone : '',
+      actor: {
+        userId: req.auth.userId,
+        email: req.auth.email,
+        name: profile?.full_name || profile?.displayName || req.auth.email
+      }
+    });
+
+    try {
+      await AuditService.logCourseAction(
+        'schedule_updated',
+        req.auth.userId,
+        req.auth.email,
+        courseId,
+        schedule.course_title,
+        {
+          lesson_id: target || null,
+          publish_at: schedule.publish_at,
+          expire_at: schedule.expire_at,
+          expire_action: schedule.expire_action,
+          timezone: schedule.timezone
+        },
+        ipAddress,
+        userAgent
+      );
+    } catch (auditError) {
+      console.error('⚠️ Failed to log schedule change:', auditError);
+    }
+
+    return res.status(200).json({ success: true, data: schedule });
+  } catch (error: any) {
+    if (error?.code === 'CONTENT_NOT_FOUND') {
+      return res.status(404).json({ success: false, error: error.message });
+    }
+    if (['INVALID_SCHEDULE', 'INVALID_TIMEZONE'].includes(error?.code)) {
+      return res.status(400).json({ success: false, error: error.message, code: error.code });
+    }
+    console.error('❌ Content schedule API error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to process schedule request' });
+  }
+}
+
+export default withAuth({ permissions: ['content:workflow'] }, handler);
@@ -0,0 +1,75 @@
+import { NextApiResponse } from 'next';
+import { withAuth, AuthenticatedRequest } from '../../../../../backend/lib/serverAuth';
+import FirestoreService from '../../../../../backend/lib/firestoreService';
+
+const AuditService = require('../../../../../backend/lib/auditService');
+const CourseVersionService = require('../../../../../backend/lib/courseVersionService');
+
+/**
+ * One published version of a course
+ *
+ * GET  -> { version, diff } where diff is against the version before it
+ * POST { notes? } -> roll back: publish this version's snapshot again as a new version
+ */
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  const { courseId, version } = req.query;
+  const versionNumber = typeof version === 'string' ? parseInt(version, 10) : NaN;
+
+  if (!courseId || typeof courseId !== 'string') {
+    return res.status(400).json({ success: false, error: 'Course ID is required' });
+  }
+  if (!Number.isInteger(versionNumber) || versionNumber < 1) {
+    return res.status(400).json({ success: false, error: 'Version must be a positive number' });
+  }
+
+  try {
+    if (req.method === 'GET') {
+      const result = await CourseVersionService.getVersion(courseId, versionNumber);
+      if (!result) {
+        return res.status(404).json({ success: false, error: `Version ${versionNumber} does not exist` });
+      }
+      return res.status(200).json({ success: true, data: result });
+    }
+
+    if (req.method !== 'POST') {
+      return res.status(405).json({ success: false, error: 'Method not allowed' });
+    }
+
+    const notes = typeof req.body?.notes === 'string' ? req.body.notes.trim() : '';
+    const profile = await FirestoreService.getUserData(req.auth.userId);
+    const published = await CourseVersionService.rollback(courseId, versionNumber, {
+      userId: req.auth.userId,
+      email: req.auth.email,
+      name: profile?.full_name || req.auth.email
+    }, notes);
+
+    try {
+      await AuditService.logCourseAction(
+        'rolled_back',
+        req.auth.userId,
+        req.auth.email,
+        courseId,
+        published.title,
+        { restored_from: versionNumber, version: published.version, notes },
+        AuditService.getClientIp(req),
+        AuditService.getUserAgent(req)
+      );
+    } catch (auditError) {
+      console.error('⚠️ Failed to log course rollback:', auditError);
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: published,
+      message: `Version ${versionNumber} restored as version ${published.version}`
+    });
+  } catch (error: any) {
+    if (error?.code === 'COURSE_NOT_FOUND' || error?.code === 'VERSION_NOT_FOUND') {
+      return res.status(404).json({ success: false, error: error.message, code: error.code });
+    }
+    console.error('❌ Course version API error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to process course version' });
+  }
+}
+
+export default withAuth({ permissions: { GET: ['courses:edit'], POST: ['courses:publish'] } }, handler);
@@ -0,0 +1,29 @@
+import { NextApiResponse } from 'next';
+import { withAuth, AuthenticatedRequest } from '../../../../../backend/lib/serverAuth';
+
+const CourseVersionService = require('../../../../../backend/lib/courseVersionService');
+
+/**
+ * GET -> published versions of a course, newest first, without their snapshots
+ */
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  const { courseId } = req.query;
+
+  if (!courseId || typeof courseId !== 'string') {
+    return res.status(400).json({ success: false, error: 'Course ID is required' });
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    const versions = await CourseVersionService.listVersions(courseId);
+    return res.status(200).json({ success: true, data: versions, count: versions.length });
+  } catch (error: any) {
+    console.error('❌ Course versions API error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to fetch course versions' });
+  }
+}
+
+export default withAuth({ permissions: ['courses:edit'] }, handler);
@@ -0,0 +1,146 @@
+import { NextApiResponse } from 'next';
+import { withAuth, AuthenticatedRequest, authHasPermission } from '../../../../backend/lib/serverAuth';
+import FirestoreService from '../../../../backend/lib/firestoreService';
+import RoleService from '../../../../backend/lib/roleService';
+import { hasPermission, Permission } from '../../../../src/types';
+
+const AuditService = require('../../../../backend/lib/auditService');
+const ContentWorkflowService = require('../../../../backend/lib/contentWorkflowService');
+const CourseVersionService = require('../../../../backend/lib/courseVersionService');
+
+/**
+ * Review workflow of a course, or of one of its lessons with ?lessonId=
+ *
+ * GET  -> { workflow, history }
+ * POST { action: 'submit' | 'request_changes' | 'approve' | 'publish' | 'unpublish' | 'archive' | 'restore', notes? }
+ * POST { action: 'assign', reviewerId?, deadline?, notes? } -> set or clear the reviewer
+ */
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  const { courseId, lessonId } = req.query;
+
+  if (!courseId || typeof courseId !== 'string') {
+    return res.status(400).json({ success: false, error: 'Course ID is required' });
+  }
+
+  const contentType = typeof lessonId === 'string' && lessonId ? 'lesson' : 'course';
+  const target = { contentType, courseId, lessonId: contentType === 'lesson' ? lessonId as string : undefined };
+
+  try {
+    if (req.method === 'GET') {
+      const result = await ContentWorkflowService.getWorkflow(target.contentType, courseId, target.lessonId);
+      if (!result) {
+        return res.status(404).json({ success: false, error: `${contentType === 'lesson' ? 'Lesson' : 'Course'} not found` });
+      }
+      return res.status(200).json({ success: true, data: result });
+    }
+
+    if (req.method !== 'POST') {
+      return res.status(405).json({ success: false, error: 'Method not allowed' });
+    }
+
+    const { action, notes, reviewerId, deadline } = req.body || {};
+    const required = typeof action === 'string' ? ContentWorkflowService.requiredPermission(action, contentType) : null;
+    if (!required) {
+      return res.status(400).json({ success: false, error: 'Unknown workflow action' });
+    }
+    if (!authHasPermission(req.auth, required as Permission)) {
+      return res.status(403).json({ success: false, error: `This action requires the ${required} permission` });
+    }
+
+    const profile = await FirestoreService.getUserData(req.auth.userId);
+    const actor = {
+      userId: req.auth.userId,
+      email: req.auth.email,
+      name: profile?.full_name || profile?.displayName || req.auth.email,
+      canApproveOwn: req.auth.role === 'Super Admin'
+    };
+    const ipAddress = AuditService.getClientIp(req);
+    const userAgent = AuditService.getUserAgent(req);
+
+    if (action === 'assign') {
+      let reviewer = null;
+      if (reviewerId) {
+        const reviewerData = typeof reviewerId === 'string' ? await FirestoreService.getUserData(reviewerId) : null;
+        if (!reviewerData || !hasPermission(await RoleService.getUserPermissions(reviewerData), 'content:review')) {
+          return res.status(400).json({ success: false, error: 'The reviewer must be able to review content' });
+        }
+        reviewer = { userId: reviewerId as string, name: reviewerData.full_name || reviewerData.email };
+      }
+
+      const workflow = await ContentWorkflowService.assignReviewer({
+        ...target,
+        actor,
+        reviewer,
+        deadline: typeof deadline === 'string' && deadline ? deadline : null,
+        notes: typeof notes === 'string' ? notes : ''
+      });
+
+      try {
+        await AuditService.logCourseAction(
+          'workflow_reviewer_assigned',
+          req.auth.userId,
+          req.auth.email,
+          courseId,
+          workflow.title,
+          { lesson_id: target.lessonId || null, reviewer_id: workflow.current_reviewer_id, review_deadline: workflow.review_deadline },
+          ipAddress,
+          userAgent
+        );
+      } catch (auditError) {
+        console.error('⚠️ Failed to log reviewer assignment:', auditError);
+      }
+
+      return res.status(200).json({ success: true, data: workflow });
+    }
+
+    const { workflow, from, to } = await ContentWorkflowService.transition({
+      ...target,
+      action,
+      actor,
+      notes: typeof notes === 'string' ? notes : ''
+    });
+
+    // Every time a course goes live it gets a numbered version to diff against and roll back to
+    if (contentType === 'course' && to === 'published') {
+      try {
+        await CourseVersionService.recordVersion(courseId, actor, typeof notes === 'string' ? notes.trim() : '');
+      } catch (versionError) {
+        console.error('⚠️ Failed to record course version:', versionError);
+      }
+    }
+
+    try {
+      await AuditService.logCourseAction(
+        `workflow_${action}`,
+        req.auth.userId,
+        req.auth.email,
+        courseId,
+        workflow.title,
+        { lesson_id: target.lessonId || null, from_status: from, to_status: to, notes: workflow.review_notes || '' },
+        ipAddress,
+        userAgent
+      );
+    } catch (auditError) {
+      console.error('⚠️ Failed to log workflow change:', auditError);
+    }
+
+    return res.status(200).json({ success: true, data: workflow });
+  } catch (error: any) {
+    if (error?.code === 'CONTENT_NOT_FOUND') {
+      return res.status(404).json({ success: false, error: error.message });
+    }
+    if (error?.code === 'INVALID_TRANSITION') {
+      return res.status(409).json({ success: false, error: error.message, code: error.code });
+    }
+    if (error?.code === 'SELF_APPROVAL') {
+      return res.status(403).json({ success: false, error: error.message, code: error.code });
+    }
+    if (['INVALID_ACTION', 'NOTES_REQUIRED', 'INVALID_DEADLINE'].includes(error?.code)) {
+      return res.status(400).json({ success: false, error: error.message, code: error.code });
+    }
+    console.error('❌ Content workflow API error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to process workflow request' });
+  }
+}
+
+export default withAuth({ permissions: ['content:workflow'] }, handler);
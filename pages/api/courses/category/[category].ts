@@ -1,7 +1,12 @@
-import { NextApiRequest, NextApiResponse } from 'next';
+import { NextApiResponse } from 'next';
 import FirestoreService from '../../../../backend/lib/firestoreService';
+import { withAuth, AuthenticatedRequest } from '../../../../backend/lib/serverAuth';
+import { resolveContentViewer } from '../../../../backend/lib/contentVisibility';
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+const ContentWorkflowService = require('../../../../backend/lib/contentWorkflowService');
+const CourseAccessService = require('../../../../backend/lib/courseAccessService');
+
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
   const { category } = req.query;
 
   if (!category || typeof category !== 'string') {
@@ -13,7 +18,9 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 
   try {
-    const courses = await FirestoreService.getCoursesByCategory(category);
+    const viewer = await resolveContentViewer(req);
+    const visible = ContentWorkflowService.filterVisible(await FirestoreService.getCoursesByCategory(category), false);
+    const courses = viewer.canViewUnpublished ? visible : await CourseAccessService.applyToCourses(viewer.userId, visible);
 
     return res.status(200).json({
       success: true,
@@ -28,3 +35,5 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     });
   }
 }
+
+export default withAuth({ publicMethods: ['GET'] }, handler);
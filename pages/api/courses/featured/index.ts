@@ -1,7 +1,12 @@
-import { NextApiRequest, NextApiResponse } from 'next';
+import { NextApiResponse } from 'next';
 import FirestoreService from '../../../../backend/lib/firestoreService';
+import { withAuth, AuthenticatedRequest } from '../../../../backend/lib/serverAuth';
+import { resolveContentViewer } from '../../../../backend/lib/contentVisibility';
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+const ContentWorkflowService = require('../../../../backend/lib/contentWorkflowService');
+const CourseAccessService = require('../../../../backend/lib/courseAccessService');
+
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
   if (req.method !== 'GET') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
@@ -10,7 +15,9 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     // Get include_coming_soon query parameter (defaults to true)
     const includeComingSoon = req.query.include_coming_soon === 'true' || req.query.include_coming_soon === undefined;
     
-    const courses = await FirestoreService.getFeaturedCourses(includeComingSoon);
+    const viewer = await resolveContentViewer(req);
+    const visible = ContentWorkflowService.filterVisible(await FirestoreService.getFeaturedCourses(includeComingSoon), false);
+    const courses = viewer.canViewUnpublished ? visible : await CourseAccessService.applyToCourses(viewer.userId, visible);
 
     return res.status(200).json({
       success: true,
@@ -25,3 +32,5 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     });
   }
 }
+
+export default withAuth({ publicMethods: ['GET'] }, handler);
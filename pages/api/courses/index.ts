@@ -1,22 +1,32 @@
-import { NextApiRequest, NextApiResponse } from 'next';
+import { NextApiResponse } from 'next';
 import FirestoreService from '../../../backend/lib/firestoreService';
+import { withAuth, AuthenticatedRequest } from '../../../backend/lib/serverAuth';
+import { resolveContentViewer } from '../../../backend/lib/contentVisibility';
 
 // Import audit service and JWT helper
 const AuditService = require('../../../backend/lib/auditService');
 const JWTHelper = require('../../../backend/lib/jwtHelper');
+const ContentWorkflowService = require('../../../backend/lib/contentWorkflowService');
+const CourseVersionService = require('../../../backend/lib/courseVersionService');
+const CourseAccessService = require('../../../backend/lib/courseAccessService');
 
 export const config = {
   api: { bodyParser: { sizeLimit: '50mb' } }
 };
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
   try {
     if (req.method === 'GET') {
       const { limit = '20', lastDocId } = req.query;
       const limitCount = parseInt(limit as string, 10);
       const lastDocIdValue = typeof lastDocId === 'string' ? lastDocId : undefined;
 
-      const courses = await FirestoreService.getCourses(limitCount, lastDocIdValue as any);
+      const viewer = await resolveContentViewer(req);
+      const visible = ContentWorkflowService.filterVisible(
+        await FirestoreService.getCourses(limitCount, lastDocIdValue as any),
+        viewer.canViewUnpublished
+      );
+      const courses = viewer.canViewUnpublished ? visible : await CourseAccessService.applyToCourses(viewer.userId, visible);
 
       return res.status(200).json({
         success: true,
@@ -26,7 +36,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     }
 
     if (req.method === 'POST') {
-      const courseData = req.body;
+      const courseData = { ...req.body };
 
       if (!courseData.title || !courseData.category) {
         return res.status(400).json({
@@ -35,7 +45,21 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         });
       }
 
-      const courseId = await FirestoreService.createCourse(courseData);
+      // New courses start as drafts; only the review workflow publishes them
+      [...ContentWorkflowService.WORKFLOW_FIELDS, ...CourseVersionService.VERSION_FIELDS]
+        .forEach((field: string) => delete courseData[field]);
+
+      try {
+        await CourseAccessService.normalizeSettings(courseData);
+      } catch (error: any) {
+        if (error.code !== 'INVALID_ACCESS') throw error;
+        return res.status(400).json({ success: false, error: error.message, code: error.code });
+      }
+      const courseId = await FirestoreService.createCourse({
+        ...courseData,
+        workflow_status: 'draft',
+        created_by: req.auth.userId
+      });
 
       // Log course creation
       try {
@@ -60,7 +84,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
       return res.status(201).json({
         success: true,
-        message: 'Course created successfully',
+        message: 'Course saved as a draft',
         courseId
       });
     }
@@ -74,3 +98,5 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     });
   }
 }
+
+export default withAuth({ permissions: { POST: ['courses:create'] }, publicMethods: ['GET'] }, handler);
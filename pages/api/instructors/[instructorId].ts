@@ -1,11 +1,12 @@
-import { NextApiRequest, NextApiResponse } from 'next';
+import { NextApiResponse } from 'next';
 import FirestoreService from '../../../backend/lib/firestoreService';
+import { withAuth, AuthenticatedRequest } from '../../../backend/lib/serverAuth';
 
 // Import audit service and JWT helper
 const AuditService = require('../../../backend/lib/auditService');
 const JWTHelper = require('../../../backend/lib/jwtHelper');
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
   const { instructorId } = req.query;
 
   if (!instructorId || typeof instructorId !== 'string') {
@@ -106,3 +107,5 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     });
   }
 }
+
+export default withAuth({ permissions: { PUT: ['instructors:edit'], DELETE: ['instructors:delete'] }, publicMethods: ['GET'] }, handler);
@@ -1,7 +1,10 @@
-import { NextApiRequest, NextApiResponse } from 'next';
+import { NextApiResponse } from 'next';
 import FirestoreService from '../../../../backend/lib/firestoreService';
+import { withAuth, AuthenticatedRequest } from '../../../../backend/lib/serverAuth';
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+const ContentWorkflowService = require('../../../../backend/lib/contentWorkflowService');
+
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
   const { instructorId } = req.query;
 
   if (!instructorId || typeof instructorId !== 'string') {
@@ -16,7 +19,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     const { include_coming_soon } = req.query;
     const includeComingSoon = include_coming_soon === 'true';
 
-    const courses = await FirestoreService.getCoursesByInstructor(instructorId, includeComingSoon);
+    const courses = ContentWorkflowService.filterVisible(await FirestoreService.getCoursesByInstructor(instructorId, includeComingSoon), false);
 
     return res.status(200).json({
       success: true,
@@ -31,3 +34,5 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     });
   }
 }
+
+export default withAuth({ publicMethods: ['GET'] }, handler);
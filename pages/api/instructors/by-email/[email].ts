@@ -1,7 +1,8 @@
-import { NextApiRequest, NextApiResponse } from 'next';
+import { NextApiResponse } from 'next';
 import FirestoreService from '../../../../backend/lib/firestoreService';
+import { withAuth, AuthenticatedRequest, authHasPermission, sendAuthError } from '../../../../backend/lib/serverAuth';
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
   const { email } = req.query;
 
   if (!email || typeof email !== 'string') {
@@ -12,6 +13,11 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
+  // Instructors may look up their own profile; other lookups need instructors:view
+  if (email.toLowerCase() !== (req.auth.email || '').toLowerCase() && !authHasPermission(req.auth, 'instructors:view')) {
+    return sendAuthError(res, 'FORBIDDEN');
+  }
+
   try {
     const instructor = await FirestoreService.getInstructorByEmail(email);
 
@@ -34,3 +40,5 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     });
   }
 }
+
+export default withAuth({}, handler);
@@ -1,12 +1,12 @@
-import { NextApiRequest, NextApiResponse } from 'next';
+import { NextApiResponse } from 'next';
 import { db } from '../../../lib/firebaseAdmin';
-import JWTManager from '../../../backend/lib/jwtManager';
+import { withAuth, AuthenticatedRequest } from '../../../backend/lib/serverAuth';
 
 // Import audit service
 const AuditService = require('../../../backend/lib/auditService');
 
-export default async function handler(
-  req: NextApiRequest,
+async function handler(
+  req: AuthenticatedRequest,
   res: NextApiResponse
 ) {
   // Only allow POST requests
@@ -15,19 +15,6 @@ export default async function handler(
   }
 
   try {
-    // Verify JWT token from Authorization header
-    const authHeader = req.headers.authorization;
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return res.status(401).json({ error: 'Missing or invalid authorization token' });
-    }
-
-    const token = authHeader.substring(7);
-    const payload = JWTManager.verifyToken(token);
-
-    if (!payload) {
-      return res.status(401).json({ error: 'Invalid token' });
-    }
-
     // Extract instructor data from request body
     const instructorData = req.body;
 
@@ -160,7 +147,7 @@ export default async function handler(
       socialLinks: transformData.sanitizeSocialLinks(instructorData.socialLinks),
       createdAt: new Date(),
       updatedAt: new Date(),
-      createdBy: payload.userId || null
+      createdBy: req.auth.userId || null
     };
 
     // Create instructor document in Firestore using Admin SDK
@@ -173,8 +160,8 @@ export default async function handler(
       const userAgent = AuditService.getUserAgent(req);
       await AuditService.logInstructorAction(
         'create',
-        payload.userId,
-        payload.email,
+        req.auth.userId,
+        req.auth.email,
         docRef.id,
         instructorData.name,
         { email: instructorData.email, title: instructorData.title },
@@ -235,3 +222,5 @@ export default async function handler(
     });
   }
 }
+
+export default withAuth({ permissions: ['instructors:create'] }, handler);
@@ -0,0 +1,34 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { constantTimeEqual } from '../../../src/lib/edgeAuth';
+
+const ContentScheduleService = require('../../../backend/lib/contentScheduleService');
+
+/**
+ * Called by a scheduler (e.g. a cron job every few minutes) with `Authorization: Bearer $CRON_SECRET`.
+ *
+ * POST -> publish and expire the courses and lessons whose scheduled time has passed
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const secret = process.env.CRON_SECRET;
+  const presented = (req.headers.authorization || '').replace(/^Bearer\s+/i, '');
+
+  if (!secret || !constantTimeEqual(presented, secret)) {
+    return res.status(404).json({ error: 'Not found' });
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const result = await ContentScheduleService.processDueSchedules();
+    if (result.failed.length > 0) {
+      console.error('❌ Some scheduled releases failed:', result.failed);
+    }
+
+    return res.status(200).json({ success: true, data: result });
+  } catch (error: any) {
+    console.error('❌ Scheduled release error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to process scheduled releases' });
+  }
+}
@@ -0,0 +1,68 @@
+import { NextApiRequest, NextApiResponse } from 'next';
+import { INTERNAL_SIGNATURE_HEADER, verifyInternalSignature } from '../../../src/lib/internalRequest';
+
+const AuditService = require('../../../backend/lib/auditService');
+const MaintenanceService = require('../../../backend/lib/maintenanceService');
+const SecurityPolicyService = require('../../../backend/lib/securityPolicyService');
+
+/**
+ * Called by middleware.ts only (signed with INTERNAL_SIGNATURE_HEADER).
+ *
+ * GET  -> the parts of the security policy and system config the middleware enforces
+ * POST -> record a request the middleware rejected
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (!(await verifyInternalSignature(req.headers[INTERNAL_SIGNATURE_HEADER]))) {
+    return res.status(404).json({ error: 'Not found' });
+  }
+
+  try {
+    if (req.method === 'GET') {
+      const policy = await SecurityPolicyService.getPolicy();
+      const maintenance = await MaintenanceService.getSettings();
+      return res.status(200).json({
+        success: true,
+        data: { ipWhitelist: policy.ipWhitelist, maintenance }
+      });
+    }
+
+    if (req.method === 'POST') {
+      const { ip, path, method, userAgent, claimedUserId, claimedEmail } = req.body || {};
+
+      await AuditService.createLog({
+        user_id: claimedUserId || '',
+        user_email: claimedEmail || '',
+        action: 'ACCESS_DENIED_IP',
+        resource_type: 'route',
+        resource_id: path || '',
+        details: {
+          method: method || '',
+          reason: 'ip_not_in_allowlist',
+          // Taken from the unverified access token cookie, for attribution only
+          identity_verified: false
+        },
+        ip_address: ip || '',
+        user_agent: userAgent || ''
+      });
+
+      await AuditService.logSecurityEvent(
+        'IP_NOT_ALLOWED',
+        claimedUserId || '',
+        { path, method },
+        ip,
+        userAgent,
+        'MEDIUM'
+      );
+
+      return res.status(200).json({ success: true });
+    }
+
+    return res.status(405).json({ error: 'Method not allowed' });
+  } catch (error: any) {
+    console.error('❌ Internal security policy API error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to process internal security request'
+    });
+  }
+}
@@ -0,0 +1,38 @@
+import { NextApiResponse } from 'next';
+import { withAuth, AuthenticatedRequest } from '../../../../backend/lib/serverAuth';
+
+const LearningPathService = require('../../../../backend/lib/learningPathService');
+
+/**
+ * POST -> issue the caller's certificate for a finished path ({ id, created }; created is false when already issued)
+ */
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  const { pathId } = req.query;
+
+  if (!pathId || typeof pathId !== 'string') {
+    return res.status(400).json({ success: false, error: 'Learning path ID is required' });
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    const certificate = await LearningPathService.issueCertificate(req.auth.userId, pathId, {
+      name: req.auth.claims?.displayName || req.auth.email
+    });
+
+    return res.status(certificate.created ? 201 : 200).json({ success: true, data: certificate });
+  } catch (error: any) {
+    if (error?.code === 'PATH_NOT_FOUND') {
+      return res.status(404).json({ success: false, error: error.message });
+    }
+    if (error?.code === 'PATH_INCOMPLETE') {
+      return res.status(409).json({ success: false, error: error.message, code: error.code });
+    }
+    console.error('❌ Learning path certificate API error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to issue the certificate' });
+  }
+}
+
+export default withAuth({}, handler);
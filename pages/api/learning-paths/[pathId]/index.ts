@@ -0,0 +1,93 @@
+import { NextApiResponse } from 'next';
+import { withAuth, AuthenticatedRequest } from '../../../../backend/lib/serverAuth';
+import { resolveContentViewer } from '../../../../backend/lib/contentVisibility';
+
+const AuditService = require('../../../../backend/lib/auditService');
+const LearningPathService = require('../../../../backend/lib/learningPathService');
+
+/**
+ * GET    -> the path with its courses, estimated duration and the caller's progress
+ * PUT    { title, description, thumbnail, courses, published } -> replace the path
+ * DELETE -> remove the path
+ */
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  const { pathId } = req.query;
+
+  if (!pathId || typeof pathId !== 'string') {
+    return res.status(400).json({ success: false, error: 'Learning path ID is required' });
+  }
+
+  try {
+    if (req.method === 'GET') {
+      const viewer = await resolveContentViewer(req);
+      const path = await LearningPathService.getPath(pathId);
+      // Unpublished paths are reported as missing to anyone who cannot edit them
+      if (!path || (!path.published && !viewer.canViewUnpublished)) {
+        return res.status(404).json({ success: false, error: 'Learning path not found' });
+      }
+
+      const detail = await LearningPathService.getPathDetail(path, viewer);
+      return res.status(200).json({ success: true, data: detail });
+    }
+
+    const ipAddress = AuditService.getClientIp(req);
+    const userAgent = AuditService.getUserAgent(req);
+
+    if (req.method === 'PUT') {
+      const path = await LearningPathService.savePath(pathId, req.body || {}, { userId: req.auth.userId });
+
+      try {
+        await AuditService.logLearningPathAction(
+          'LEARNING_PATH_UPDATED',
+          req.auth.userId,
+          req.auth.email,
+          pathId,
+          { title: path.title, course_ids: path.course_ids, published: path.published },
+          ipAddress,
+          userAgent
+        );
+      } catch (auditError) {
+        console.error('⚠️ Failed to log learning path update:', auditError);
+      }
+
+      return res.status(200).json({ success: true, data: path });
+    }
+
+    if (req.method === 'DELETE') {
+      const path = await LearningPathService.getPath(pathId);
+      const deleted = await LearningPathService.deletePath(pathId);
+      if (!deleted) {
+        return res.status(404).json({ success: false, error: 'Learning path not found' });
+      }
+
+      try {
+        await AuditService.logLearningPathAction(
+          'LEARNING_PATH_DELETED',
+          req.auth.userId,
+          req.auth.email,
+          pathId,
+          { title: path?.title || '' },
+          ipAddress,
+          userAgent
+        );
+      } catch (auditError) {
+        console.error('⚠️ Failed to log learning path deletion:', auditError);
+      }
+
+      return res.status(200).json({ success: true, message: 'Learning path deleted' });
+    }
+
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  } catch (error: any) {
+    if (error?.code === 'PATH_NOT_FOUND') {
+      return res.status(404).json({ success: false, error: error.message });
+    }
+    if (error?.code === 'INVALID_PATH') {
+      return res.status(400).json({ success: false, error: error.message, code: error.code });
+    }
+    console.error('❌ Learning path API error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to process learning path' });
+  }
+}
+
+export default withAuth({ permissions: { PUT: ['courses:edit'], DELETE: ['courses:edit'] }, publicMethods: ['GET'] }, handler);
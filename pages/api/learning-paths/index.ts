@@ -0,0 +1,53 @@
+import { NextApiResponse } from 'next';
+import { withAuth, AuthenticatedRequest } from '../../../backend/lib/serverAuth';
+import { resolveContentViewer } from '../../../backend/lib/contentVisibility';
+
+const AuditService = require('../../../backend/lib/auditService');
+const LearningPathService = require('../../../backend/lib/learningPathService');
+
+/**
+ * GET  -> published learning paths with their courses, estimated duration and the caller's progress
+ *         (editors also get unpublished paths)
+ * POST { title, description, thumbnail, courses: [{ course_id, prerequisite_course_ids }], published } -> create a path
+ */
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  try {
+    if (req.method === 'GET') {
+      const viewer = await resolveContentViewer(req);
+      const paths = await LearningPathService.listPaths({ includeUnpublished: viewer.canViewUnpublished });
+      const data = await Promise.all(paths.map((path: any) => LearningPathService.getPathDetail(path, viewer)));
+
+      return res.status(200).json({ success: true, data, count: data.length });
+    }
+
+    if (req.method !== 'POST') {
+      return res.status(405).json({ success: false, error: 'Method not allowed' });
+    }
+
+    const path = await LearningPathService.savePath(null, req.body || {}, { userId: req.auth.userId });
+
+    try {
+      await AuditService.logLearningPathAction(
+        'LEARNING_PATH_CREATED',
+        req.auth.userId,
+        req.auth.email,
+        path.id,
+        { title: path.title, course_ids: path.course_ids, published: path.published },
+        AuditService.getClientIp(req),
+        AuditService.getUserAgent(req)
+      );
+    } catch (auditError) {
+      console.error('⚠️ Failed to log learning path creation:', auditError);
+    }
+
+    return res.status(201).json({ success: true, data: path });
+  } catch (error: any) {
+    if (error?.code === 'INVALID_PATH') {
+      return res.status(400).json({ success: false, error: error.message, code: error.code });
+    }
+    console.error('❌ Learning paths API error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to process learning paths' });
+  }
+}
+
+export default withAuth({ permissions: { POST: ['courses:edit'] }, publicMethods: ['GET'] }, handler);
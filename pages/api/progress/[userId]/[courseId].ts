@@ -1,7 +1,13 @@
-import { NextApiRequest, NextApiResponse } from 'next';
+import { NextApiResponse } from 'next';
 import FirestoreService from '../../../../backend/lib/firestoreService';
+import { withAuth, AuthenticatedRequest } from '../../../../backend/lib/serverAuth';
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+const CourseVersionService = require('../../../../backend/lib/courseVersionService');
+const QuizService = require('../../../../backend/lib/quizService');
+const AssignmentService = require('../../../../backend/lib/assignmentService');
+const CourseAccessService = require('../../../../backend/lib/courseAccessService');
+
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
   const { userId, courseId } = req.query;
 
   if (!userId || typeof userId !== 'string' || !courseId || typeof courseId !== 'string') {
@@ -29,7 +35,77 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         });
       }
 
-      await FirestoreService.updateUserProgress(userId, courseId, lessonId, progressData);
+      // No progress on a lesson the learner cannot open yet
+      const lock = await CourseAccessService.getLessonLock(userId, courseId, lessonId);
+      if (lock) {
+        return res.status(409).json({
+          success: false,
+          error: 'This lesson is locked',
+          code: 'LESSON_LOCKED',
+          lock
+        });
+      }
+
+      // Quiz and assignment results are only written by grading, and completion only
+      // by markLessonComplete below, after the required quiz and assignment gates
+      const completing = progressData?.completed === true;
+      const update = { ...(progressData || {}) };
+      [
+        ...QuizService.QUIZ_PROGRESS_FIELDS,
+        ...AssignmentService.ASSIGNMENT_PROGRESS_FIELDS,
+        ...FirestoreService.COMPLETION_PROGRESS_FIELDS
+      ].forEach((field: string) => delete update[field]);
+
+      // Watch progress short of completion; 100% is only ever stamped with it
+      if (update.progress_percentage !== undefined) {
+        const percentage = Number(update.progress_percentage);
+        if (Number.isFinite(percentage)) {
+          update.progress_percentage = Math.min(99, Math.max(0, Math.round(percentage)));
+        } else {
+          delete update.progress_percentage;
+        }
+      }
+
+      if (completing) {
+        const quizGate = await QuizService.getLessonGate(userId, courseId, lessonId);
+        if (quizGate) {
+          return res.status(409).json({
+            success: false,
+            error: `Pass "${quizGate.title}" (${quizGate.pass_mark}%) to complete this lesson`,
+            code: 'QUIZ_REQUIRED',
+            quiz: quizGate
+          });
+        }
+
+        const assignmentGate = await AssignmentService.getLessonGate(userId, courseId, lessonId);
+        if (assignmentGate) {
+          return res.status(409).json({
+            success: false,
+            error: `"${assignmentGate.title}" needs a passing grade (${assignmentGate.pass_mark}%) to complete this lesson`,
+            code: 'ASSIGNMENT_REQUIRED',
+            assignment: assignmentGate
+          });
+        }
+      }
+
+      await FirestoreService.updateUserProgress(userId, courseId, lessonId, update);
+      if (completing) {
+        await FirestoreService.markLessonComplete(userId, courseId, lessonId);
+      }
+
+      // Learners stay on the course version they started, whatever is published later
+      try {
+        await CourseVersionService.pinLearner(userId, courseId);
+      } catch (pinError) {
+        console.error('⚠️ Failed to pin course version:', pinError);
+      }
+
+      // Drip lessons count their days from the first progress in the course
+      try {
+        await CourseAccessService.enroll(userId, courseId);
+      } catch (enrolError) {
+        console.error('⚠️ Failed to record course enrolment:', enrolError);
+      }
 
       return res.status(200).json({
         success: true,
@@ -39,6 +115,9 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
     return res.status(405).json({ error: 'Method not allowed' });
   } catch (error: any) {
+    if (error?.code === 'LESSON_NOT_FOUND') {
+      return res.status(404).json({ success: false, error: error.message });
+    }
     console.error('❌ User progress API error:', error);
     return res.status(500).json({
       success: false,
@@ -46,3 +125,5 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     });
   }
 }
+
+export default withAuth({ permissions: { GET: ['users:view'] }, selfOnly: 'userId' }, handler);
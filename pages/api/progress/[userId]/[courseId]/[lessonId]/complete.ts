@@ -1,11 +1,16 @@
-import { NextApiRequest, NextApiResponse } from 'next';
+import { NextApiResponse } from 'next';
 import FirestoreService from '../../../../../../backend/lib/firestoreService';
+import { withAuth, AuthenticatedRequest } from '../../../../../../backend/lib/serverAuth';
 
 // Import audit service and JWT helper
 const AuditService = require('../../../../../../backend/lib/auditService');
 const JWTHelper = require('../../../../../../backend/lib/jwtHelper');
+const CourseVersionService = require('../../../../../../backend/lib/courseVersionService');
+const QuizService = require('../../../../../../backend/lib/quizService');
+const AssignmentService = require('../../../../../../backend/lib/assignmentService');
+const CourseAccessService = require('../../../../../../backend/lib/courseAccessService');
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
   const { userId, courseId, lessonId } = req.query;
 
   if (!userId || typeof userId !== 'string' || !courseId || typeof courseId !== 'string' || !lessonId || typeof lessonId !== 'string') {
@@ -17,25 +22,65 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 
   try {
+    const lock = await CourseAccessService.getLessonLock(userId, courseId, lessonId);
+    if (lock) {
+      return res.status(409).json({
+        success: false,
+        error: 'This lesson is locked',
+        code: 'LESSON_LOCKED',
+        lock
+      });
+    }
+
+    const quizGate = await QuizService.getLessonGate(userId, courseId, lessonId);
+    if (quizGate) {
+      return res.status(409).json({
+        success: false,
+        error: `Pass "${quizGate.title}" (${quizGate.pass_mark}%) to complete this lesson`,
+        code: 'QUIZ_REQUIRED',
+        quiz: quizGate
+      });
+    }
+
+    const assignmentGate = await AssignmentService.getLessonGate(userId, courseId, lessonId);
+    if (assignmentGate) {
+      return res.status(409).json({
+        success: false,
+        error: `"${assignmentGate.title}" needs a passing grade (${assignmentGate.pass_mark}%) to complete this lesson`,
+        code: 'ASSIGNMENT_REQUIRED',
+        assignment: assignmentGate
+      });
+    }
+
     await FirestoreService.markLessonComplete(userId, courseId, lessonId);
 
+    // A first completion also pins the learner to the current course version
+    try {
+      await CourseVersionService.pinLearner(userId, courseId);
+    } catch (pinError) {
+      console.error('⚠️ Failed to pin course version:', pinError);
+    }
+
+    try {
+      await CourseAccessService.enroll(userId, courseId);
+    } catch (enrolError) {
+      console.error('⚠️ Failed to record course enrolment:', enrolError);
+    }
+
     // Log lesson completion
     try {
-      const userInfo = JWTHelper.extractUserFromRequest(req);
-      if (userInfo) {
-        const ipAddress = JWTHelper.getClientIp(req);
-        const userAgent = JWTHelper.getUserAgent(req);
-        await AuditService.logLessonAction(
-          'complete',
-          userId,
-          userInfo.email,
-          lessonId,
-          courseId,
-          {},
-          ipAddress,
-          userAgent
-        );
-      }
+      const ipAddress = JWTHelper.getClientIp(req);
+      const userAgent = JWTHelper.getUserAgent(req);
+      await AuditService.logLessonAction(
+        'complete',
+        userId,
+        req.auth.email,
+        lessonId,
+        courseId,
+        {},
+        ipAddress,
+        userAgent
+      );
     } catch (auditError) {
       console.error('⚠️ Failed to log lesson completion audit event:', auditError);
     }
@@ -45,6 +90,9 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       message: 'Lesson marked as complete'
     });
   } catch (error: any) {
+    if (error?.code === 'LESSON_NOT_FOUND') {
+      return res.status(404).json({ success: false, error: error.message });
+    }
     console.error('❌ Mark lesson complete API error:', error);
     return res.status(500).json({
       success: false,
@@ -52,3 +100,5 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     });
   }
 }
+
+export default withAuth({ selfOnly: 'userId' }, handler);
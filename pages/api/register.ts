@@ -1,6 +1,9 @@
 import type { NextApiRequest, NextApiResponse } from 'next'
 import admin from 'firebase-admin'
 
+const AuditService = require('../../backend/lib/auditService')
+const RateLimitService = require('../../backend/lib/rateLimitService')
+
 const initFirebaseAdmin = () => {
   if (!admin.apps.length) {
     const serviceAccountKey = process.env.FIREBASE_SERVICE_ACCOUNT_KEY;
@@ -49,6 +52,11 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       return res.status(400).json({ error: 'email, password and full_name are required' });
     }
 
+    const limit = await RateLimitService.consume('register', { ip: AuditService.getClientIp(req), account: email });
+    if (!limit.allowed) {
+      return RateLimitService.sendRateLimited(res, limit, 'Too many registration attempts. Please try again later.');
+    }
+
     // Create user in Firebase Auth
     const userRecord = await admin.auth().createUser({
       email: String(email),
@@ -0,0 +1,159 @@
+import { NextApiResponse } from 'next';
+import { withAuth, AuthenticatedRequest, authHasPermission } from '../../../backend/lib/serverAuth';
+import RoleService, { RoleInput } from '../../../backend/lib/roleService';
+import { Permission, RoleDefinition } from '../../../src/types';
+
+const AuditService = require('../../../backend/lib/auditService');
+
+const logRoleChange = async (req: AuthenticatedRequest, action: string, roleName: string, details: Record<string, unknown>) => {
+  try {
+    await AuditService.createLog({
+      user_id: req.auth.userId,
+      user_email: req.auth.email,
+      action,
+      resource_type: 'ROLE',
+      resource_id: roleName,
+      details,
+      ip_address: AuditService.getClientIp(req),
+      user_agent: AuditService.getUserAgent(req)
+    });
+  } catch (auditError) {
+    console.error('⚠️ Failed to log role change:', auditError);
+  }
+};
+
+/**
+ * Reasons the caller may not give a role this level and these permissions, or null.
+ * Super Admins may edit any role below their own; nobody hands out access they lack.
+ */
+const editRestriction = async (req: AuthenticatedRequest, level: number, permissions: Permission[]): Promise<string | null> => {
+  const hierarchy = await RoleService.getHierarchy();
+  if (level >= (hierarchy[req.auth.role] || 0)) {
+    return 'You can only manage roles below your own level';
+  }
+
+  const notHeld = permissions.filter(permission => !authHasPermission(req.auth, permission));
+  if (notHeld.length > 0) {
+    return `You cannot grant permissions you do not hold: ${notHeld.join(', ')}`;
+  }
+  return null;
+};
+
+const readRoleName = (req: AuthenticatedRequest) => (typeof req.query.name === 'string' ? req.query.name : '');
+
+/**
+ * GET    -> every role definition (any signed-in user; PermissionContext reads it)
+ * POST   -> create a custom role { name, description?, permissions, level }
+ * PUT    -> update a role (?name=) { description?, permissions?, level? }
+ * DELETE -> delete a custom role that no user holds (?name=)
+ */
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  try {
+    if (req.method === 'GET') {
+      const roles = await RoleService.listRoles();
+      return res.status(200).json({ success: true, data: roles });
+    }
+
+    if (req.method === 'POST') {
+      const input: RoleInput = req.body || {};
+      const invalid = RoleService.validate(input, { creating: true });
+      if (invalid) {
+        return res.status(400).json({ success: false, error: invalid });
+      }
+
+      const name = (input.name as string).trim();
+      if (await RoleService.getRole(name)) {
+        return res.status(409).json({ success: false, error: `A role named "${name}" already exists` });
+      }
+
+      const restriction = await editRestriction(req, input.level ?? 1, input.permissions || []);
+      if (restriction) {
+        return res.status(403).json({ success: false, error: restriction });
+      }
+
+      const role = await RoleService.createRole(input, req.auth.email);
+      await logRoleChange(req, 'ROLE_CREATED', role.name, {
+        level: role.level,
+        permissions: role.permissions
+      });
+
+      return res.status(201).json({ success: true, data: role });
+    }
+
+    if (req.method === 'PUT' || req.method === 'DELETE') {
+      const name = readRoleName(req);
+      const existing: RoleDefinition | null = name ? await RoleService.getRole(name) : null;
+      if (!existing) {
+        return res.status(404).json({ success: false, error: 'Role not found' });
+      }
+      if (existing.name === 'Super Admin') {
+        return res.status(400).json({ success: false, error: 'The Super Admin role always holds every permission and cannot be changed' });
+      }
+
+      if (req.method === 'DELETE') {
+        if (existing.built_in) {
+          return res.status(400).json({ success: false, error: 'Built-in roles cannot be deleted' });
+        }
+
+        const restriction = await editRestriction(req, existing.level, []);
+        if (restriction) {
+          return res.status(403).json({ success: false, error: restriction });
+        }
+        if (await RoleService.isRoleAssigned(existing.name)) {
+          return res.status(409).json({ success: false, error: 'Move every user off this role before deleting it' });
+        }
+
+        await RoleService.deleteRole(existing.name);
+        await logRoleChange(req, 'ROLE_DELETED', existing.name, {
+          level: existing.level,
+          permissions: existing.permissions
+        });
+
+        return res.status(200).json({ success: true, message: 'Role deleted' });
+      }
+
+      const input: RoleInput = req.body || {};
+      const invalid = RoleService.validate(input, { creating: false });
+      if (invalid) {
+        return res.status(400).json({ success: false, error: invalid });
+      }
+      if (existing.built_in && input.level !== undefined && input.level !== existing.level) {
+        return res.status(400).json({ success: false, error: 'Built-in roles keep their hierarchy level' });
+      }
+
+      // Both the role as it stands and the result must sit below the caller
+      const added = (input.permissions || []).filter(permission => !existing.permissions.includes(permission));
+      const restriction = await editRestriction(req, existing.level, added) ||
+        await editRestriction(req, input.level ?? existing.level, []);
+      if (restriction) {
+        return res.status(403).json({ success: false, error: restriction });
+      }
+
+      const role = await RoleService.updateRole(existing, input, req.auth.email);
+      await logRoleChange(req, 'ROLE_UPDATED', role.name, {
+        old_level: existing.level,
+        new_level: role.level,
+        added_permissions: role.permissions.filter(permission => !existing.permissions.includes(permission)),
+        removed_permissions: existing.permissions.filter(permission => !role.permissions.includes(permission))
+      });
+
+      return res.status(200).json({ success: true, data: role });
+    }
+
+    return res.status(405).json({ error: 'Method not allowed' });
+  } catch (error: any) {
+    console.error('❌ Roles API error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to process roles request'
+    });
+  }
+}
+
+export default withAuth({
+  permissions: {
+    POST: ['system:configuration', 'users:assign_roles'],
+    PUT: ['system:configuration', 'users:assign_roles'],
+    DELETE: ['system:configuration', 'users:assign_roles']
+  }
+}, handler);
@@ -0,0 +1,89 @@
+import { NextApiResponse } from 'next';
+import { withAuth, AuthenticatedRequest } from '../../../backend/lib/serverAuth';
+import { isIpAllowed, isValidAllowlistEntry } from '../../../src/lib/ipAllowlist';
+
+const AuditService = require('../../../backend/lib/auditService');
+const SecurityPolicyService = require('../../../backend/lib/securityPolicyService');
+
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  try {
+    if (req.method === 'GET') {
+      const policy = await SecurityPolicyService.getPolicy();
+
+      return res.status(200).json({
+        success: true,
+        data: policy
+      });
+    }
+
+    if (req.method === 'PUT') {
+      const updatedPolicy = req.body;
+
+      if (!updatedPolicy || typeof updatedPolicy !== 'object') {
+        return res.status(400).json({ success: false, error: 'Invalid security policy' });
+      }
+
+      const ipAddress = AuditService.getClientIp(req);
+      const ipWhitelist: string[] = Array.isArray(updatedPolicy.ipWhitelist) ? updatedPolicy.ipWhitelist : [];
+
+      const invalidEntries = ipWhitelist.filter(entry => typeof entry !== 'string' || !isValidAllowlistEntry(entry));
+      if (invalidEntries.length > 0) {
+        return res.status(400).json({ success: false, error: `Invalid IP address or range: ${invalidEntries.join(', ')}` });
+      }
+
+      // Refuse an allowlist that would lock the caller out of the admin area
+      if (!isIpAllowed(ipAddress, ipWhitelist)) {
+        return res.status(400).json({
+          success: false,
+          error: `The IP allowlist must include your current address (${ipAddress || 'unknown'})`
+        });
+      }
+
+      const sessionTimeout = Number(updatedPolicy.sessionSettings?.sessionTimeout);
+      if (updatedPolicy.sessionSettings && (!Number.isFinite(sessionTimeout) || sessionTimeout < 0)) {
+        return res.status(400).json({ success: false, error: 'Session timeout must be a positive number of minutes, or 0 to disable' });
+      }
+
+      const previous = await SecurityPolicyService.getPolicy();
+      const policy = await SecurityPolicyService.updatePolicy(updatedPolicy, req.auth.email);
+
+      try {
+        await AuditService.createLog({
+          user_id: req.auth.userId,
+          user_email: req.auth.email,
+          action: 'SECURITY_POLICY_UPDATED',
+          resource_type: 'SECURITY_POLICY',
+          resource_id: 'security_policy',
+          details: {
+            mfa_required_roles: policy.twoFactorAuth.requiredRoles,
+            previous_mfa_required_roles: previous.twoFactorAuth.requiredRoles,
+            ip_whitelist: policy.ipWhitelist,
+            previous_ip_whitelist: previous.ipWhitelist,
+            session_timeout: policy.sessionSettings.sessionTimeout,
+            previous_session_timeout: previous.sessionSettings.sessionTimeout
+          },
+          ip_address: ipAddress,
+          user_agent: AuditService.getUserAgent(req)
+        });
+      } catch (auditError) {
+        console.error('⚠️ Failed to log security policy audit event:', auditError);
+      }
+
+      return res.status(200).json({
+        success: true,
+        data: policy,
+        message: 'Security policy updated successfully'
+      });
+    }
+
+    return res.status(405).json({ error: 'Method not allowed' });
+  } catch (error: any) {
+    console.error('❌ Security policy API error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to process security policy request'
+    });
+  }
+}
+
+export default withAuth({ permissions: ['system:configuration'] }, handler);
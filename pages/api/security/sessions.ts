@@ -0,0 +1,71 @@
+import { NextApiResponse } from 'next';
+import { withAuth, AuthenticatedRequest } from '../../../backend/lib/serverAuth';
+
+const SessionService = require('../../../backend/lib/sessionService');
+const FirestoreService = require('../../../backend/lib/firestoreService');
+
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  try {
+    if (req.method === 'GET') {
+      const { user_id } = req.query;
+      const sessions = await SessionService.getActiveSessions(typeof user_id === 'string' ? user_id : null);
+
+      // Attach the account email so admins can tell sessions apart
+      const emails = new Map<string, string>();
+      for (const session of sessions) {
+        if (!emails.has(session.user_id)) {
+          const userData = await FirestoreService.getUserData(session.user_id).catch(() => null);
+          emails.set(session.user_id, userData?.email || '');
+        }
+      }
+
+      const data = sessions.map((session: any) => {
+        // Never expose the token fingerprint
+        const { token: _token, previous_token: _previousToken, ...rest } = session;
+        return {
+          ...rest,
+          user_email: emails.get(session.user_id) || '',
+          is_current: session.id === req.auth.sessionId
+        };
+      });
+
+      return res.status(200).json({
+        success: true,
+        data,
+        count: data.length
+      });
+    }
+
+    if (req.method === 'DELETE') {
+      const sessionId = (req.query.sessionId || req.body?.sessionId) as string | undefined;
+      if (!sessionId) {
+        return res.status(400).json({ success: false, error: 'Session ID is required' });
+      }
+
+      const revoked = await SessionService.revokeSession(sessionId, 'terminated_by_admin');
+      if (!revoked) {
+        return res.status(404).json({ success: false, error: 'Session not found or already ended' });
+      }
+
+      return res.status(200).json({
+        success: true,
+        message: 'Session terminated successfully'
+      });
+    }
+
+    return res.status(405).json({ error: 'Method not allowed' });
+  } catch (error: any) {
+    console.error('❌ Sessions API error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to process sessions request'
+    });
+  }
+}
+
+export default withAuth({
+  permissions: {
+    GET: ['security:view_sessions'],
+    DELETE: ['security:terminate_sessions']
+  }
+}, handler);
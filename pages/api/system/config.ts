@@ -1,67 +1,23 @@
-import { NextApiRequest, NextApiResponse } from 'next';
-import path from 'path';
-import { promises as fsPromises } from 'fs';
-
-// System configuration file path
-const CONFIG_FILE = path.join(process.cwd(), 'data', 'system-config.json');
-
-// Default system configuration
-const DEFAULT_CONFIG = {
-  siteName: 'Forward Africa',
-  siteDescription: 'Empowering African professionals through expert-led courses',
-  maintenanceMode: false,
-  debugMode: false,
-  maxUploadSize: 50,
-  sessionTimeout: 30,
-  emailNotifications: true,
-  autoBackup: true,
-  backupFrequency: 'daily',
-  securityLevel: 'high',
-  rateLimiting: true,
-  maxRequestsPerMinute: 100,
-  databaseConnectionPool: 10,
-  cacheEnabled: true,
-  cacheTTL: 3600,
-  cdnEnabled: false,
-  sslEnabled: true,
-  corsEnabled: true,
-  allowedOrigins: ['https://forwardafrica.com', 'https://www.forwardafrica.com']
-};
-
-// Ensure data directory exists
-const ensureDataDir = async () => {
-  const dataDir = path.dirname(CONFIG_FILE);
-  try {
-    await fsPromises.access(dataDir);
-  } catch {
-    await fsPromises.mkdir(dataDir, { recursive: true });
-  }
-};
+import { NextApiResponse } from 'next';
+import { withAuth, AuthenticatedRequest } from '../../../backend/lib/serverAuth';
+import RoleService from '../../../backend/lib/roleService';
 
-// Load system configuration
-const loadConfig = async () => {
-  try {
-    await ensureDataDir();
-    const configData = await fsPromises.readFile(CONFIG_FILE, 'utf8');
-    return JSON.parse(configData);
-  } catch (error) {
-    // If file doesn't exist or is invalid, return default config
-    console.log('No existing system config found, using defaults');
-    return DEFAULT_CONFIG;
-  }
-};
+const SystemConfigService = require('../../../backend/lib/systemConfigService');
+const SecurityPolicyService = require('../../../backend/lib/securityPolicyService');
+const AuditService = require('../../../backend/lib/auditService');
+const OIDCService = require('../../../backend/lib/oidcService');
 
-// Save system configuration
-const saveConfig = async (config: any) => {
-  await ensureDataDir();
-  await fsPromises.writeFile(CONFIG_FILE, JSON.stringify(config, null, 2));
+// sessionTimeout is owned by the security policy document; this page reads and writes it through there
+const withPolicySessionTimeout = async (config: any) => {
+  const policy = await SecurityPolicyService.getPolicy();
+  return { ...config, sessionTimeout: policy.sessionSettings.sessionTimeout };
 };
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
   try {
     if (req.method === 'GET') {
       // Get system configuration
-      const config = await loadConfig();
+      const config = await withPolicySessionTimeout(await SystemConfigService.getConfig());
       res.status(200).json(config);
     } else if (req.method === 'PUT') {
       // Update system configuration
@@ -72,12 +28,87 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         return res.status(400).json({ error: 'Invalid configuration data' });
       }
 
-      // Merge with existing config to preserve any missing fields
-      const currentConfig = await loadConfig();
-      const mergedConfig = { ...currentConfig, ...updatedConfig };
+      // Scheduled windows are managed through /api/system/maintenance so a stale form cannot drop them
+      const { sessionTimeout, maintenanceWindows, ...configUpdates } = updatedConfig;
+
+      if (configUpdates.maintenanceEndsAt && !Number.isFinite(new Date(configUpdates.maintenanceEndsAt).getTime())) {
+        return res.status(400).json({ error: 'Maintenance end time must be a valid date' });
+      }
+      if (configUpdates.ssoProviders !== undefined) {
+        try {
+          configUpdates.ssoProviders = OIDCService.normalizeProviders(configUpdates.ssoProviders);
+        } catch (validationError: any) {
+          return res.status(400).json({ error: validationError.message });
+        }
+
+        // Just-in-time accounts must never start out with full access
+        for (const provider of configUpdates.ssoProviders) {
+          if (provider.defaultRole === 'Super Admin' || !(await RoleService.getRole(provider.defaultRole))) {
+            return res.status(400).json({ error: `${provider.name}: choose an existing role below Super Admin as the default role` });
+          }
+        }
+      }
+      if (sessionTimeout !== undefined) {
+        const sessionTimeoutMinutes = Number(sessionTimeout);
+        if (!Number.isFinite(sessionTimeoutMinutes) || sessionTimeoutMinutes < 0) {
+          return res.status(400).json({ error: 'Session timeout must be a positive number of minutes' });
+        }
+
+        const policy = await SecurityPolicyService.getPolicy();
+        await SecurityPolicyService.updatePolicy({
+          ...policy,
+          sessionSettings: { ...policy.sessionSettings, sessionTimeout: sessionTimeoutMinutes }
+        }, req.auth.email);
+      }
+
+      const previousConfig = await SystemConfigService.getConfig();
+
+      // Merge with existing config to preserve any missing fields, then save
+      const mergedConfig = await withPolicySessionTimeout(await SystemConfigService.updateConfig(configUpdates));
 
-      // Save the updated configuration
-      await saveConfig(mergedConfig);
+      if (Boolean(previousConfig.maintenanceMode) !== Boolean(mergedConfig.maintenanceMode)) {
+        try {
+          await AuditService.createLog({
+            user_id: req.auth.userId,
+            user_email: req.auth.email,
+            action: mergedConfig.maintenanceMode ? 'MAINTENANCE_ENABLED' : 'MAINTENANCE_DISABLED',
+            resource_type: 'SYSTEM',
+            resource_id: 'system_config',
+            details: {
+              message: mergedConfig.maintenanceMessage || '',
+              ends_at: mergedConfig.maintenanceEndsAt || null
+            },
+            ip_address: AuditService.getClientIp(req),
+            user_agent: AuditService.getUserAgent(req)
+          });
+        } catch (auditError) {
+          console.error('⚠️ Failed to log maintenance audit event:', auditError);
+        }
+      }
+
+      if (JSON.stringify(previousConfig.ssoProviders || []) !== JSON.stringify(mergedConfig.ssoProviders || [])) {
+        try {
+          await AuditService.createLog({
+            user_id: req.auth.userId,
+            user_email: req.auth.email,
+            action: 'SSO_PROVIDERS_UPDATED',
+            resource_type: 'SYSTEM',
+            resource_id: 'system_config',
+            details: {
+              providers: (mergedConfig.ssoProviders || []).map((provider: any) => ({
+                id: provider.id,
+                issuer: provider.issuer,
+                enabled: provider.enabled,
+                default_role: provider.defaultRole
+              }))
+            },
+            ip_address: AuditService.getClientIp(req),
+            user_agent: AuditService.getUserAgent(req)
+          });
+        } catch (auditError) {
+          console.error('⚠️ Failed to log SSO configuration audit event:', auditError);
+        }
+      }
 
       console.log('✅ System configuration updated successfully');
       res.status(200).json({
@@ -103,3 +134,4 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 }
 
+export default withAuth({ permissions: ['system:configuration'] }, handler);
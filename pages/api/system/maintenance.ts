@@ -0,0 +1,144 @@
+import { NextApiResponse } from 'next';
+import { withAuth, AuthenticatedRequest, authenticateRequest, authHasPermission } from '../../../backend/lib/serverAuth';
+import { resolveMaintenance } from '../../../src/lib/maintenance';
+import { MaintenanceWindow } from '../../../src/types';
+
+const AuditService = require('../../../backend/lib/auditService');
+const MaintenanceService = require('../../../backend/lib/maintenanceService');
+
+// Fields of a window that anyone may see
+const publicWindow = ({ id, start, end, message }: MaintenanceWindow) => ({ id, start, end, message });
+
+/**
+ * GET    -> current maintenance status (public; used by the maintenance page and banner).
+ *           Callers with system:configuration also get every stored window.
+ * POST   -> schedule a window { start, end, message?, announce? }
+ * DELETE -> cancel a window (?id=)
+ */
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  try {
+    if (req.method === 'GET') {
+      const settings = await MaintenanceService.getSettings();
+      const status = resolveMaintenance(settings);
+      const caller = await authenticateRequest(req);
+      const canManage = Boolean(caller && authHasPermission({ ...caller, isSelf: false }, 'system:configuration'));
+
+      return res.status(200).json({
+        success: true,
+        data: {
+          ...status,
+          upcoming: status.upcoming.map(publicWindow),
+          ...(canManage ? { windows: settings.maintenanceWindows } : {})
+        }
+      });
+    }
+
+    if (req.method === 'POST') {
+      const { start, end, message, announce = true } = req.body || {};
+      const startTime = new Date(start).getTime();
+      const endTime = new Date(end).getTime();
+
+      if (!Number.isFinite(startTime) || !Number.isFinite(endTime)) {
+        return res.status(400).json({ success: false, error: 'Start and end must be valid dates' });
+      }
+      if (endTime <= startTime) {
+        return res.status(400).json({ success: false, error: 'Maintenance must end after it starts' });
+      }
+      if (endTime <= Date.now()) {
+        return res.status(400).json({ success: false, error: 'Maintenance must end in the future' });
+      }
+      if (message !== undefined && typeof message !== 'string') {
+        return res.status(400).json({ success: false, error: 'Message must be text' });
+      }
+
+      let window = await MaintenanceService.scheduleWindow({ start, end, message: message?.trim() }, req.auth.email);
+      let notified = 0;
+
+      if (announce) {
+        try {
+          notified = await MaintenanceService.announceWindow(window);
+          window = { ...window, announced_at: new Date().toISOString() };
+        } catch (announceError) {
+          // The window still applies; admins can see it was not announced
+          console.error('⚠️ Failed to announce maintenance window:', announceError);
+        }
+      }
+
+      try {
+        await AuditService.createLog({
+          user_id: req.auth.userId,
+          user_email: req.auth.email,
+          action: 'MAINTENANCE_SCHEDULED',
+          resource_type: 'SYSTEM',
+          resource_id: window.id,
+          details: {
+            start: window.start,
+            end: window.end,
+            message: window.message,
+            users_notified: notified
+          },
+          ip_address: AuditService.getClientIp(req),
+          user_agent: AuditService.getUserAgent(req)
+        });
+      } catch (auditError) {
+        console.error('⚠️ Failed to log maintenance audit event:', auditError);
+      }
+
+      return res.status(201).json({
+        success: true,
+        data: window,
+        message: announce && window.announced_at
+          ? `Maintenance scheduled and announced to ${notified} users`
+          : 'Maintenance scheduled'
+      });
+    }
+
+    if (req.method === 'DELETE') {
+      const { id } = req.query;
+      if (typeof id !== 'string' || !id) {
+        return res.status(400).json({ success: false, error: 'Window id is required' });
+      }
+
+      const window = await MaintenanceService.cancelWindow(id);
+      if (!window) {
+        return res.status(404).json({ success: false, error: 'Maintenance window not found' });
+      }
+
+      // Only users who were told about the window need to hear it is off
+      if (window.announced_at && new Date(window.start).getTime() > Date.now()) {
+        try {
+          await MaintenanceService.announceWindow(window, { cancelled: true });
+        } catch (announceError) {
+          console.error('⚠️ Failed to announce maintenance cancellation:', announceError);
+        }
+      }
+
+      try {
+        await AuditService.createLog({
+          user_id: req.auth.userId,
+          user_email: req.auth.email,
+          action: 'MAINTENANCE_CANCELLED',
+          resource_type: 'SYSTEM',
+          resource_id: window.id,
+          details: { start: window.start, end: window.end },
+          ip_address: AuditService.getClientIp(req),
+          user_agent: AuditService.getUserAgent(req)
+        });
+      } catch (auditError) {
+        console.error('⚠️ Failed to log maintenance audit event:', auditError);
+      }
+
+      return res.status(200).json({ success: true, message: 'Maintenance window cancelled' });
+    }
+
+    return res.status(405).json({ error: 'Method not allowed' });
+  } catch (error: any) {
+    console.error('❌ Maintenance API error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error.message || 'Maintenance operation failed'
+    });
+  }
+}
+
+export default withAuth({ publicMethods: ['GET'], permissions: ['system:configuration'] }, handler);
@@ -1,6 +1,14 @@
-import { NextApiRequest, NextApiResponse } from 'next';
+import { NextApiResponse } from 'next';
 import admin from 'firebase-admin';
 import FirestoreService from '../../../backend/lib/firestoreService';
+import { withAuth, AuthenticatedRequest, authHasPermission, sendAuthError } from '../../../backend/lib/serverAuth';
+import RoleService from '../../../backend/lib/roleService';
+import { standardizeRole } from '../../../src/lib/roleStandardization';
+import { pickProfileFields } from '../../../backend/lib/profileFields';
+
+const SessionService = require('../../../backend/lib/sessionService');
+const PermissionOverrideService = require('../../../backend/lib/permissionOverrideService');
+const AccountDataService = require('../../../backend/lib/accountDataService');
 
 // Initialize Firebase Admin
 const initFirebaseAdmin = () => {
@@ -26,7 +34,7 @@ const initFirebaseAdmin = () => {
   }
 };
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
   const { userId } = req.query;
 
   if (!userId || typeof userId !== 'string') {
@@ -53,15 +61,57 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     }
 
     if (req.method === 'PUT') {
-      const { role, suspended, password, passwordHash, ...otherData } = req.body;
+      // Passwords change through /api/auth/change-password, permission overrides through /api/users/[userId]/permissions
+      const { role, suspended, is_active, password, passwordHash } = req.body || {};
+      if (password !== undefined || passwordHash !== undefined) {
+        return res.status(400).json({
+          success: false,
+          error: 'Passwords are changed through /api/auth/change-password'
+        });
+      }
+
+      // Account-control fields need their own permission, even on the caller's own record
+      if (role !== undefined && !authHasPermission(req.auth, 'users:assign_roles')) {
+        return sendAuthError(res, 'FORBIDDEN');
+      }
+      if (suspended !== undefined && !authHasPermission(req.auth, suspended ? 'users:suspend' : 'users:activate')) {
+        return sendAuthError(res, 'FORBIDDEN');
+      }
+      if (is_active !== undefined && !authHasPermission(req.auth, is_active ? 'users:activate' : 'users:suspend')) {
+        return sendAuthError(res, 'FORBIDDEN');
+      }
 
-      // Start with other data updates
+      // Only profile fields are editable here; email, SSO links and deletion state have their own flows
+      const otherData = pickProfileFields(req.body);
+      if (!req.auth.isSelf && Object.keys(otherData).length > 0 && !authHasPermission(req.auth, 'users:edit')) {
+        return sendAuthError(res, 'FORBIDDEN');
+      }
+
+      // Staff only manage accounts below their own role
+      if (!req.auth.isSelf && req.auth.role !== 'Super Admin') {
+        const target = await FirestoreService.getUserData(userId);
+        if (target && !(await RoleService.canManageRole(req.auth.role, standardizeRole(target.role)))) {
+          return res.status(403).json({ success: false, error: 'You can only edit accounts below your own role' });
+        }
+      }
+
+      // Start with profile updates
       const updateData: any = { ...otherData };
 
       // Handle role change
       if (role !== undefined) {
-        updateData.role = role;
-        console.log(`✅ Updating role for user ${userId} to ${role}`);
+        const newRole = standardizeRole(role);
+        if (!(await RoleService.getRole(newRole))) {
+          return res.status(400).json({ success: false, error: `Unknown role: ${newRole}` });
+        }
+
+        // Super Admins may assign any role; everyone else only assigns roles below their own
+        if (req.auth.role !== 'Super Admin' && !(await RoleService.canManageRole(req.auth.role, newRole))) {
+          return res.status(403).json({ success: false, error: 'You can only assign roles below your own' });
+        }
+
+        updateData.role = newRole;
+        console.log(`✅ Updating role for user ${userId} to ${newRole}`);
       }
 
       // Handle suspension status
@@ -70,25 +120,22 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         console.log(`✅ Setting suspended status for user ${userId} to ${suspended}`);
       }
 
-      // Handle password change - update in Firebase Auth
-      if (password) {
-        try {
-          await admin.auth().updateUser(userId, {
-            password: password
-          });
-          console.log(`✅ Password updated for user ${userId}`);
-          // Don't store password in Firestore, it's managed by Firebase Auth
-        } catch (authError: any) {
-          console.error('❌ Error updating password in Firebase Auth:', authError);
-          return res.status(400).json({
-            success: false,
-            error: 'Failed to update password: ' + authError.message
-          });
-        }
+      if (is_active !== undefined) {
+        updateData.is_active = Boolean(is_active);
       }
 
       // Update user data in Firestore
       await FirestoreService.updateUserData(userId, updateData);
+      if (updateData.role !== undefined) {
+        PermissionOverrideService.invalidate(userId);
+      }
+
+      // Suspension and deactivation end every existing session
+      if (suspended === true || updateData.is_active === false) {
+        const reason = suspended === true ? 'suspended' : 'deactivated';
+        const revokedCount = await SessionService.revokeAllUserSessions(userId, reason);
+        console.log(`🔒 Revoked ${revokedCount} session(s) for user ${userId} (${reason})`);
+      }
 
       return res.status(200).json({
         success: true,
@@ -97,17 +144,28 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     }
 
     if (req.method === 'DELETE') {
-      // Delete user from Firebase Auth
+      // Immediate deletion is administrative; owners request theirs through /api/users/[userId]/deletion
+      if (!authHasPermission(req.auth, 'users:delete')) {
+        return sendAuthError(res, 'FORBIDDEN');
+      }
+
+      if (!req.auth.isSelf && req.auth.role !== 'Super Admin') {
+        const target = await FirestoreService.getUserData(userId);
+        if (target && !(await RoleService.canManageRole(req.auth.role, standardizeRole(target.role)))) {
+          return res.status(403).json({ success: false, error: 'You can only delete accounts below your own role' });
+        }
+      }
+
+      // Same cascade as a scheduled deletion, without the grace period
       try {
-        await admin.auth().deleteUser(userId);
+        await AccountDataService.deleteAccount(userId, { userId: req.auth.userId, email: req.auth.email });
       } catch (error: any) {
-        console.warn('⚠️ User not found in Firebase Auth, continuing with Firestore deletion:', error.message);
+        if (error?.code === 'LAST_SUPER_ADMIN') {
+          return res.status(409).json({ success: false, error: error.message, code: error.code });
+        }
+        throw error;
       }
 
-      // Delete user data from Firestore
-      const db = admin.firestore();
-      await db.collection('users').doc(userId).delete();
-
       return res.status(200).json({
         success: true,
         message: 'User deleted successfully'
@@ -123,3 +181,13 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     });
   }
 }
+
+export default withAuth({
+  permissions: {
+    GET: ['users:view'],
+    // Staff with any user-management rights may call PUT; field-level checks happen in the handler
+    PUT: ['users:view'],
+    DELETE: ['users:delete']
+  },
+  selfOnly: 'userId'
+}, handler);
@@ -0,0 +1,108 @@
+import { NextApiResponse } from 'next';
+import { withAuth, AuthenticatedRequest } from '../../../../backend/lib/serverAuth';
+import FirestoreService from '../../../../backend/lib/firestoreService';
+import RoleService from '../../../../backend/lib/roleService';
+import { standardizeRole } from '../../../../src/lib/roleStandardization';
+
+const AuditService = require('../../../../backend/lib/auditService');
+const AccountDataService = require('../../../../backend/lib/accountDataService');
+
+/**
+ * GET    -> the account's deletion request, or null
+ * POST   -> request deletion { reason? }; the account is removed after the grace period
+ * DELETE -> cancel a pending request
+ */
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  const { userId } = req.query;
+
+  if (!userId || typeof userId !== 'string') {
+    return res.status(400).json({ success: false, error: 'User ID is required' });
+  }
+
+  try {
+    if (req.method === 'GET') {
+      const status = await AccountDataService.getDeletionStatus(userId);
+      return res.status(200).json({
+        success: true,
+        data: status,
+        grace_period_days: AccountDataService.DELETION_GRACE_PERIOD_DAYS
+      });
+    }
+
+    if (req.method !== 'POST' && req.method !== 'DELETE') {
+      return res.status(405).json({ success: false, error: 'Method not allowed' });
+    }
+
+    // Staff may only act on accounts below their own role, as with role changes
+    if (!req.auth.isSelf && req.auth.role !== 'Super Admin') {
+      const target = await FirestoreService.getUserData(userId);
+      if (target && !(await RoleService.canManageRole(req.auth.role, standardizeRole(target.role)))) {
+        return res.status(403).json({ success: false, error: 'You can only delete accounts below your own role' });
+      }
+    }
+
+    const ipAddress = AuditService.getClientIp(req);
+    const userAgent = AuditService.getUserAgent(req);
+    const actor = { userId: req.auth.userId, email: req.auth.email };
+
+    if (req.method === 'POST') {
+      const { reason } = req.body || {};
+      const status = await AccountDataService.scheduleDeletion(userId, actor, typeof reason === 'string' ? reason : '');
+
+      try {
+        await AuditService.logAccountDataAction(
+          'ACCOUNT_DELETION_SCHEDULED',
+          req.auth.userId,
+          req.auth.email,
+          userId,
+          { self: req.auth.isSelf, scheduled_for: status.scheduled_for },
+          ipAddress,
+          userAgent
+        );
+      } catch (auditError) {
+        console.error('⚠️ Failed to log account deletion request:', auditError);
+      }
+
+      return res.status(200).json({ success: true, data: status });
+    }
+
+    const status = await AccountDataService.cancelDeletion(userId, actor);
+    if (!status) {
+      return res.status(404).json({ success: false, error: 'No deletion is scheduled for this account' });
+    }
+
+    try {
+      await AuditService.logAccountDataAction(
+        'ACCOUNT_DELETION_CANCELLED',
+        req.auth.userId,
+        req.auth.email,
+        userId,
+        { self: req.auth.isSelf },
+        ipAddress,
+        userAgent
+      );
+    } catch (auditError) {
+      console.error('⚠️ Failed to log account deletion cancellation:', auditError);
+    }
+
+    return res.status(200).json({ success: true, data: status });
+  } catch (error: any) {
+    if (error?.code === 'USER_NOT_FOUND') {
+      return res.status(404).json({ success: false, error: error.message });
+    }
+    if (error?.code === 'LAST_SUPER_ADMIN') {
+      return res.status(409).json({ success: false, error: error.message, code: error.code });
+    }
+    console.error('❌ Account deletion API error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to process account deletion request' });
+  }
+}
+
+export default withAuth({
+  permissions: {
+    GET: ['users:view'],
+    POST: ['users:delete'],
+    DELETE: ['users:delete']
+  },
+  selfOnly: 'userId'
+}, handler);
@@ -0,0 +1,58 @@
+import { NextApiResponse } from 'next';
+import { withAuth, AuthenticatedRequest, sendAuthError } from '../../../../backend/lib/serverAuth';
+
+const AuditService = require('../../../../backend/lib/auditService');
+const AccountDataService = require('../../../../backend/lib/accountDataService');
+
+/**
+ * GET -> everything stored about the user (profile, progress, certificates,
+ * achievements, notifications, favorites, chat messages, sessions, activity)
+ */
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  const { userId } = req.query;
+
+  if (!userId || typeof userId !== 'string') {
+    return res.status(400).json({ success: false, error: 'User ID is required' });
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  // A full copy of someone's data is not part of "viewing as" them
+  if (req.auth.impersonator) {
+    return sendAuthError(res, 'IMPERSONATION_RESTRICTED');
+  }
+
+  try {
+    const data = await AccountDataService.exportUserData(userId);
+    if (!data) {
+      return res.status(404).json({ success: false, error: 'User not found' });
+    }
+
+    try {
+      await AuditService.logAccountDataAction(
+        'ACCOUNT_DATA_EXPORTED',
+        req.auth.userId,
+        req.auth.email,
+        userId,
+        { self: req.auth.isSelf },
+        AuditService.getClientIp(req),
+        AuditService.getUserAgent(req)
+      );
+    } catch (auditError) {
+      console.error('⚠️ Failed to log account data export:', auditError);
+    }
+
+    res.setHeader('Cache-Control', 'no-store');
+    return res.status(200).json({ success: true, data });
+  } catch (error: any) {
+    console.error('❌ Account export error:', error);
+    return res.status(500).json({ success: false, error: 'Failed to export account data' });
+  }
+}
+
+export default withAuth({
+  permissions: { GET: ['users:edit'] },
+  selfOnly: 'userId'
+}, handler);
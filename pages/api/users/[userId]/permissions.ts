@@ -0,0 +1,152 @@
+import { NextApiResponse } from 'next';
+import { withAuth, AuthenticatedRequest, authHasPermission, sendAuthError } from '../../../../backend/lib/serverAuth';
+import { Permission, ROLE_PERMISSIONS, resolveEffectivePermissions } from '../../../../src/types';
+import { standardizeRole } from '../../../../src/lib/roleStandardization';
+import RoleService from '../../../../backend/lib/roleService';
+
+const AuditService = require('../../../../backend/lib/auditService');
+const PermissionOverrideService = require('../../../../backend/lib/permissionOverrideService');
+
+// Super Admin holds every permission, so its list doubles as the catalogue
+const KNOWN_PERMISSIONS = new Set<Permission>(ROLE_PERMISSIONS['Super Admin']);
+
+// Only the Super Admin role carries full access; it cannot be handed out one user at a time
+const UNGRANTABLE_PERMISSIONS: Permission[] = ['system:full_access'];
+
+const describe = async (role: string, overrides: { grant: Permission[]; deny: Permission[] }) => {
+  const standardized = standardizeRole(role);
+  const rolePermissions = await RoleService.getRolePermissions(standardized);
+  const effective = resolveEffectivePermissions(standardized, overrides, rolePermissions);
+  return {
+    role: standardized,
+    role_permissions: rolePermissions,
+    overrides,
+    permissions: effective.permissions,
+    sources: effective.sources,
+    denied: effective.denied
+  };
+};
+
+/**
+ * GET -> the user's role, stored overrides and effective permissions with their source
+ * PUT -> replace the overrides { grant: Permission[], deny: Permission[] }
+ *
+ * Changes reach the user's access token at their next refresh.
+ */
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
+  const { userId } = req.query;
+
+  if (!userId || typeof userId !== 'string') {
+    return res.status(400).json({ success: false, error: 'User ID is required' });
+  }
+
+  try {
+    if (req.method === 'GET') {
+      const stored = await PermissionOverrideService.getOverrides(userId);
+      if (!stored) {
+        return res.status(404).json({ success: false, error: 'User not found' });
+      }
+
+      return res.status(200).json({
+        success: true,
+        data: {
+          ...(await describe(stored.role, stored.overrides)),
+          updated_at: stored.updated_at,
+          updated_by: stored.updated_by
+        }
+      });
+    }
+
+    if (req.method === 'PUT') {
+      // Owners can read their own record through selfOnly, but never widen it
+      if (!authHasPermission(req.auth, 'users:assign_roles')) {
+        return sendAuthError(res, 'FORBIDDEN');
+      }
+      if (req.auth.isSelf) {
+        return res.status(403).json({ success: false, error: 'You cannot change your own permissions' });
+      }
+
+      const { grant, deny } = req.body || {};
+      if ((grant !== undefined && !Array.isArray(grant)) || (deny !== undefined && !Array.isArray(deny))) {
+        return res.status(400).json({ success: false, error: 'grant and deny must be lists of permissions' });
+      }
+
+      const unknown = [...(grant || []), ...(deny || [])].filter((permission: Permission) => !KNOWN_PERMISSIONS.has(permission));
+      if (unknown.length > 0) {
+        return res.status(400).json({ success: false, error: `Unknown permissions: ${unknown.join(', ')}` });
+      }
+
+      const reserved = (grant || []).filter((permission: Permission) => UNGRANTABLE_PERMISSIONS.includes(permission));
+      if (reserved.length > 0) {
+        return res.status(400).json({ success: false, error: `These permissions come only with the Super Admin role: ${reserved.join(', ')}` });
+      }
+
+      // Nobody may hand out access they do not hold themselves
+      const notHeld = (grant || []).filter((permission: Permission) => !authHasPermission(req.auth, permission));
+      if (notHeld.length > 0) {
+        return res.status(403).json({ success: false, error: `You cannot grant permissions you do not hold: ${notHeld.join(', ')}` });
+      }
+
+      const stored = await PermissionOverrideService.getOverrides(userId);
+      if (!stored) {
+        return res.status(404).json({ success: false, error: 'User not found' });
+      }
+
+      const targetRole = standardizeRole(stored.role);
+      if (targetRole === 'Super Admin') {
+        return res.status(400).json({ success: false, error: 'Super Admins always hold every permission' });
+      }
+      if (!(await RoleService.canManageRole(req.auth.role, targetRole))) {
+        return res.status(403).json({ success: false, error: 'You cannot change permissions for a role equal to or above your own' });
+      }
+
+      const before = await describe(stored.role, stored.overrides);
+      const overrides = await PermissionOverrideService.setOverrides(userId, { grant, deny }, req.auth.email);
+      const after = await describe(stored.role, overrides);
+
+      try {
+        await AuditService.logPermissionChange(
+          req.auth.userId,
+          req.auth.email,
+          userId,
+          before.permissions,
+          after.permissions,
+          AuditService.getClientIp(req),
+          AuditService.getUserAgent(req),
+          {
+            role: targetRole,
+            old_overrides: stored.overrides,
+            new_overrides: overrides
+          }
+        );
+      } catch (auditError) {
+        console.error('⚠️ Failed to log permission change:', auditError);
+      }
+
+      return res.status(200).json({
+        success: true,
+        data: {
+          ...after,
+          updated_at: new Date().toISOString(),
+          updated_by: req.auth.email
+        }
+      });
+    }
+
+    return res.status(405).json({ error: 'Method not allowed' });
+  } catch (error: any) {
+    console.error('❌ Permission overrides API error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to process permission overrides'
+    });
+  }
+}
+
+export default withAuth({
+  permissions: {
+    GET: ['users:view'],
+    PUT: ['users:assign_roles']
+  },
+  selfOnly: 'userId'
+}, handler);
@@ -1,13 +1,22 @@
-import { NextApiRequest, NextApiResponse } from 'next';
+import { NextApiResponse } from 'next';
 import FirestoreService from '../../../../backend/lib/firestoreService';
+import { withAuth, AuthenticatedRequest, authHasPermission, sendAuthError } from '../../../../backend/lib/serverAuth';
+import { pickProfileFields } from '../../../../backend/lib/profileFields';
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
   const { userId } = req.query;
 
   if (!userId || typeof userId !== 'string') {
     return res.status(400).json({ error: 'User ID is required' });
   }
 
+  // Elevated roles and suspension are only granted through the user management API
+  const body = req.body || {};
+  const changesAccountControl = (body.role !== undefined && body.role !== 'user') || body.suspended !== undefined;
+  if ((req.method === 'POST' || req.method === 'PUT') && changesAccountControl && !authHasPermission(req.auth, 'users:assign_roles')) {
+    return sendAuthError(res, 'FORBIDDEN');
+  }
+
   try {
     if (req.method === 'GET') {
       const userData = await FirestoreService.getUserData(userId);
@@ -26,7 +35,18 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     }
 
     if (req.method === 'POST') {
-      const userData = req.body;
+      let userData = req.body;
+
+      // Owners only create their missing record, from profile fields and their own sign-in email
+      if (req.auth.isSelf && !authHasPermission(req.auth, 'users:edit')) {
+        if (await FirestoreService.getUserData(userId)) {
+          return res.status(409).json({
+            success: false,
+            error: 'User data already exists'
+          });
+        }
+        userData = { ...pickProfileFields(body), email: req.auth.email, role: 'user' };
+      }
 
       await FirestoreService.createUserData(userId, userData);
 
@@ -37,7 +57,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     }
 
     if (req.method === 'PUT') {
-      const updateData = req.body;
+      // Profile fields only; account control goes through /api/users/[userId]
+      const updateData = pickProfileFields(body);
 
       await FirestoreService.updateUserData(userId, updateData);
 
@@ -56,3 +77,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     });
   }
 }
+
+export default withAuth({
+  permissions: { GET: ['users:view'], POST: ['users:edit'], PUT: ['users:edit'] },
+  selfOnly: 'userId'
+}, handler);
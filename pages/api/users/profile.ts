@@ -1,5 +1,7 @@
-import { NextApiRequest, NextApiResponse } from 'next';
+import { NextApiResponse } from 'next';
 import admin from 'firebase-admin';
+import { withAuth, AuthenticatedRequest } from '../../../backend/lib/serverAuth';
+import { pickProfileFields } from '../../../backend/lib/profileFields';
 
 const initFirebaseAdmin = () => {
   if (!admin.apps.length) {
@@ -24,59 +26,7 @@ const initFirebaseAdmin = () => {
   }
 };
 
-class JWTManager {
-  private static JWT_SECRET = process.env.JWT_SECRET || 'dev-secret-key-change-in-production';
-
-  static base64UrlDecode(str: string): string {
-    str += new Array(5 - str.length % 4).join('=');
-    return Buffer.from(
-      str.replace(/-/g, '+').replace(/_/g, '/'),
-      'base64'
-    ).toString('utf8');
-  }
-
-  static generateSignature(message: string): string {
-    const crypto = require('crypto');
-    return crypto
-      .createHmac('sha256', this.JWT_SECRET)
-      .update(message)
-      .digest('base64')
-      .replace(/\+/g, '-')
-      .replace(/\//g, '_')
-      .replace(/=/g, '');
-  }
-
-  static verifyToken(token: string): any {
-    try {
-      const parts = token.split('.');
-      if (parts.length !== 3) {
-        throw new Error('Invalid token format');
-      }
-
-      const [headerEncoded, payloadEncoded, signature] = parts;
-      const message = `${headerEncoded}.${payloadEncoded}`;
-
-      const expectedSignature = this.generateSignature(message);
-      if (signature !== expectedSignature) {
-        throw new Error('Invalid signature');
-      }
-
-      const payloadJson = this.base64UrlDecode(payloadEncoded);
-      const payload = JSON.parse(payloadJson);
-
-      const currentTime = Math.floor(Date.now() / 1000);
-      if (payload.exp < currentTime) {
-        throw new Error('Token expired');
-      }
-
-      return payload;
-    } catch (error) {
-      throw new Error(`Token verification failed: ${(error as any).message}`);
-    }
-  }
-}
-
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: AuthenticatedRequest, res: NextApiResponse) {
   if (req.method !== 'PUT') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
@@ -84,48 +34,15 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   try {
     initFirebaseAdmin();
 
-    // Get token from cookie or Authorization header
-    let token = req.cookies.app_user;
-
-    if (!token) {
-      const authHeader = req.headers.authorization;
-      if (authHeader && authHeader.startsWith('Bearer ')) {
-        token = authHeader.substring(7);
-      }
-    }
-
-    if (!token) {
-      return res.status(401).json({ error: 'No token provided' });
-    }
-
-    // Verify token
-    let payload;
-    try {
-      payload = JWTManager.verifyToken(token);
-    } catch (error: any) {
-      return res.status(401).json({ error: 'Invalid or expired token' });
-    }
-
-    const userId = payload.userId;
-    const profileData = req.body;
-
-    // Get user record
-    const userRecord = await admin.auth().getUser(userId);
+    const userId = req.auth.userId;
+    // Only profile fields are self-service; passwords go through /api/auth/change-password
+    const profileData = pickProfileFields(req.body);
 
-    // Update Firebase Auth if email or displayName is provided
-    const authUpdateData: any = {};
-    
-    if (profileData.email && profileData.email !== userRecord.email) {
-      authUpdateData.email = profileData.email;
-    }
-
-    if (profileData.full_name || profileData.displayName) {
-      authUpdateData.displayName = profileData.full_name || profileData.displayName;
-    }
-
-    if (Object.keys(authUpdateData).length > 0) {
+    // Keep the Firebase Auth display name in step with the profile
+    const displayName = profileData.full_name || profileData.displayName;
+    if (displayName) {
       try {
-        await admin.auth().updateUser(userId, authUpdateData);
+        await admin.auth().updateUser(userId, { displayName });
       } catch (error) {
         console.warn('Could not update Firebase Auth:', error);
       }
@@ -154,11 +71,6 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       firestoreUpdateData.avatar_url = profileData.photoURL;
     }
 
-    // Remove email from firestore update if it was handled in auth
-    if (authUpdateData.email) {
-      delete firestoreUpdateData.email;
-    }
-
     try {
       const db = admin.firestore();
       await db.collection('users').doc(userId).update(firestoreUpdateData);
@@ -202,6 +114,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 }
 
+export default withAuth({}, handler);
+
 export const config = {
   api: { bodyParser: { sizeLimit: '1mb' } }
 };
@@ -1,12 +1,17 @@
 import React, { useEffect, useState, useRef } from 'react';
 import { useRouter } from 'next/router';
-import { Play, Clock, ChevronLeft, ChevronRight, BookOpen, CheckCircle, Heart } from 'lucide-react';
+import { Play, Clock, ChevronLeft, ChevronRight, BookOpen, CheckCircle, Heart, Lock } from 'lucide-react';
 import VideoPlayer from '../../../../src/components/ui/VideoPlayer';
 import { Course, Lesson } from '../../../../src/types';
 import { useAuth } from '../../../../src/contexts/AuthContext';
 import { validateTokenInCookie } from '../../../../src/lib/validateToken';
 import { courseAPI } from '../../../../src/lib/api';
 import { useLearnLater } from '../../../../src/hooks/useLearnLater';
+import LessonQuiz from '../../../../src/components/ui/LessonQuiz';
+import LessonAssignment from '../../../../src/components/ui/LessonAssignment';
+import LearningPathUpNext from '../../../../src/components/ui/LearningPathUpNext';
+import LockedLessonPanel from '../../../../src/components/ui/LockedLessonPanel';
+import { describeLessonLock } from '../../../../src/utils/contentLocks';
 
 // Debug utility
 const DEBUG = {
@@ -342,7 +347,10 @@ export default function LessonPage() {
           featured: foundCourse.featured || false,
           totalXP: foundCourse.totalXP || 1000,
           comingSoon: foundCourse.comingSoon || false,
-          releaseDate: foundCourse.releaseDate
+          releaseDate: foundCourse.releaseDate,
+          prerequisite_course_ids: foundCourse.prerequisite_course_ids,
+          sequential_lessons: foundCourse.sequential_lessons,
+          access: foundCourse.access
         };
 
         DEBUG.log('🔄 Course data transformed', {
@@ -581,11 +589,16 @@ export default function LessonPage() {
             {/* Video Player */}
           <div className="lg:col-span-2">
                          <div className="bg-black rounded-lg overflow-hidden">
-               <VideoPlayer
-                 lesson={currentLesson}
-                 courseId={courseId as string}
-                 showProgressPanel={true}
-               />
+               {currentLesson.lock ? (
+                 // The server withholds the video of a locked lesson
+                 <LockedLessonPanel lock={currentLesson.lock} courseId={courseId as string} />
+               ) : (
+                 <VideoPlayer
+                   lesson={currentLesson}
+                   courseId={courseId as string}
+                   showProgressPanel={true}
+                 />
+               )}
             </div>
 
              {/* Lesson Info */}
@@ -653,6 +666,22 @@ export default function LessonPage() {
               </p>
             </div>
 
+            {/* Quiz after this lesson; the last lesson adds the final course quiz and what to take next */}
+            {!currentLesson.lock && (
+              <>
+                <LessonQuiz courseId={courseId as string} lessonId={currentLesson.id} />
+                {user && (
+                  <LessonAssignment courseId={courseId as string} lessonId={currentLesson.id} userId={user.id} />
+                )}
+                {course.lessons[course.lessons.length - 1]?.id === currentLesson.id && (
+                  <>
+                    <LessonQuiz courseId={courseId as string} />
+                    {user && <LearningPathUpNext courseId={courseId as string} />}
+                  </>
+                )}
+              </>
+            )}
+
             {/* Instructor Details */}
             <div className="mt-6 mb-6">
               <div className="bg-gray-800 rounded-lg p-6">
@@ -801,7 +830,7 @@ export default function LessonPage() {
 
                 <button
                   onClick={() => navigateToLesson('next')}
-                  disabled={currentLessonIndex === course.lessons.length - 1}
+                  disabled={currentLessonIndex === course.lessons.length - 1 || Boolean(course.lessons[currentLessonIndex + 1]?.lock)}
                   className="flex items-center space-x-2 px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
                 >
                   <span>Next</span>
@@ -814,6 +843,7 @@ export default function LessonPage() {
                 {course.lessons.map((lesson, index) => (
                     <button
                       key={lesson.id}
+                    disabled={Boolean(lesson.lock) && lesson.id !== currentLesson.id}
                     onClick={() => {
                       const targetUrl = `/course/${courseId}/lesson/${lesson.id}`;
 
@@ -834,12 +864,16 @@ export default function LessonPage() {
                     className={`w-full text-left p-3 rounded-lg transition-colors ${
                         lesson.id === currentLesson.id
                           ? 'bg-red-600 text-white'
-                        : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                        : lesson.lock
+                          ? 'bg-gray-700 text-gray-500 cursor-not-allowed'
+                          : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
                     }`}
                   >
                     <div className="flex items-center justify-between">
                       <div className="flex items-center space-x-2">
-                        {index < currentLessonIndex ? (
+                        {lesson.lock ? (
+                          <Lock className="h-4 w-4 text-gray-400" />
+                        ) : index < currentLessonIndex ? (
                           <CheckCircle className="h-4 w-4 text-green-400" />
                         ) : index === currentLessonIndex ? (
                           <Play className="h-4 w-4 text-red-400" />
@@ -857,6 +891,11 @@ export default function LessonPage() {
                     <p className="text-xs mt-1 truncate">
                           {lesson.title}
                         </p>
+                    {lesson.lock && (
+                      <p className="text-xs mt-1 text-gray-400">
+                        {describeLessonLock(lesson.lock)}
+                      </p>
+                    )}
                     </button>
                   ))}
               </div>
@@ -0,0 +1,10 @@
+import React from 'react'
+import dynamic from 'next/dynamic'
+
+const AcceptInvitePage = dynamic(() => import('../src/pages/AcceptInvitePage'), {
+  ssr: false
+})
+
+export default function Invite() {
+  return <AcceptInvitePage />
+}
\ No newline at end of file
@@ -0,0 +1,10 @@
+import React from 'react'
+import dynamic from 'next/dynamic'
+
+const MaintenancePage = dynamic(() => import('../src/pages/MaintenancePage'), {
+  ssr: false
+})
+
+export default function Maintenance() {
+  return <MaintenancePage />
+}
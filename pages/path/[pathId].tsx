@@ -0,0 +1,18 @@
+import dynamic from 'next/dynamic'
+
+// Dynamically import LearningPathPage to avoid SSR issues
+const LearningPathPage = dynamic(() => import('@/pages/LearningPathPage'), {
+  ssr: false,
+  loading: () => (
+    <div className="flex items-center justify-center min-h-screen">
+      <div className="text-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-red-500 mx-auto"></div>
+        <p className="mt-4 text-gray-600">Loading learning path...</p>
+      </div>
+    </div>
+  )
+})
+
+export default function LearningPath() {
+  return <LearningPathPage />
+}
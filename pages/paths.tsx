@@ -0,0 +1,10 @@
+import React from 'react'
+import dynamic from 'next/dynamic'
+
+const LearningPathsPage = dynamic(() => import('../src/pages/LearningPathsPage'), {
+  ssr: false
+})
+
+export default function LearningPaths() {
+  return <LearningPathsPage />
+}
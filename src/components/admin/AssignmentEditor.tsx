@@ -0,0 +1,354 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { AlertTriangle, CheckCircle, FileText, Plus, RefreshCw, Save, Trash2 } from 'lucide-react';
+import Button from '../ui/Button';
+import { usePermissions } from '../../contexts/PermissionContext';
+import { assignmentAPI } from '../../lib/api';
+import { Assignment, AssignmentCriterion } from '../../types';
+
+type AssignmentForm = Omit<Assignment, 'id' | 'course_id' | 'lesson_id'>;
+
+const localId = () => `c_${Math.random().toString(36).slice(2, 10)}`;
+
+const blankAssignment = (): AssignmentForm => ({
+  title: '',
+  instructions: '',
+  due_at: null,
+  allow_late: false,
+  pass_mark: 50,
+  required: true,
+  rubric: [{ id: localId(), title: '', description: '', max_points: 10 }],
+  peer_review_enabled: false,
+  peer_reviews_required: 3
+});
+
+// ISO time as a datetime-local value in the browser's time zone
+const toLocalInput = (iso: string | null) => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+interface AssignmentEditorProps {
+  courseId: string;
+  /** Saved lessons of the course; assignments hang off a lesson */
+  lessons?: { id: string; title: string }[];
+}
+
+/**
+ * Sets up a lesson's assignment: instructions, due date, the rubric it is
+ * graded against and optional anonymous peer review.
+ */
+const AssignmentEditor: React.FC<AssignmentEditorProps> = ({ courseId, lessons = [] }) => {
+  const { hasPermission } = usePermissions();
+  const [lessonId, setLessonId] = useState(lessons[0]?.id || '');
+  const [assignment, setAssignment] = useState<AssignmentForm>(blankAssignment);
+  const [exists, setExists] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const canEdit = hasPermission('courses:edit');
+
+  useEffect(() => {
+    if (!lessonId && lessons.length > 0) {
+      setLessonId(lessons[0].id);
+    }
+  }, [lessonId, lessons]);
+
+  const loadAssignment = useCallback(async () => {
+    if (!lessonId) return;
+
+    setLoading(true);
+    try {
+      const response = await assignmentAPI.getAssignment(courseId, lessonId);
+      const current = response.data?.assignment;
+      setExists(!!current);
+      setAssignment(current
+        ? {
+          title: current.title,
+          instructions: current.instructions,
+          due_at: current.due_at,
+          allow_late: current.allow_late,
+          pass_mark: current.pass_mark,
+          required: current.required,
+          rubric: current.rubric,
+          peer_review_enabled: current.peer_review_enabled,
+          peer_reviews_required: current.peer_reviews_required || 3
+        }
+        : blankAssignment());
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to load the assignment' });
+    } finally {
+      setLoading(false);
+    }
+  }, [courseId, lessonId]);
+
+  useEffect(() => {
+    setMessage(null);
+    loadAssignment();
+  }, [loadAssignment]);
+
+  const updateCriterion = (index: number, changes: Partial<AssignmentCriterion>) => {
+    setAssignment(prev => ({
+      ...prev,
+      rubric: prev.rubric.map((criterion, i) => (i === index ? { ...criterion, ...changes } : criterion))
+    }));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      const response = await assignmentAPI.saveAssignment(courseId, lessonId, assignment);
+      setAssignment(prev => ({ ...prev, rubric: response.data.rubric }));
+      setExists(true);
+      setMessage({ type: 'success', text: 'Assignment saved' });
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to save the assignment' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!confirm('Delete this assignment? Submissions and grades are kept.')) return;
+
+    setSaving(true);
+    setMessage(null);
+    try {
+      await assignmentAPI.deleteAssignment(courseId, lessonId);
+      setExists(false);
+      setAssignment(blankAssignment());
+      setMessage({ type: 'success', text: 'Assignment deleted' });
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to delete the assignment' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:ring-2 focus:ring-red-500 focus:border-transparent disabled:opacity-50';
+  const rubricTotal = assignment.rubric.reduce((sum, criterion) => sum + (criterion.max_points || 0), 0);
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h3 className="text-xl font-semibold text-white flex items-center">
+            <FileText className="h-5 w-5 mr-2" />
+            Assignment
+          </h3>
+          <p className="text-gray-400 text-sm mt-1">
+            Learners hand in files, graded against the rubric in the grading queue or by their peers.
+          </p>
+        </div>
+        {lessons.length > 0 && (
+          <select
+            value={lessonId}
+            onChange={(e) => setLessonId(e.target.value)}
+            className="px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-red-500"
+          >
+            {lessons.map((lesson, index) => (
+              <option key={lesson.id} value={lesson.id}>Lesson {index + 1}: {lesson.title || 'Untitled'}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {message && (
+        <div className={`p-4 rounded-lg flex items-center ${
+          message.type === 'success'
+            ? 'bg-green-600/20 border border-green-500/30 text-green-300'
+            : 'bg-red-600/20 border border-red-500/30 text-red-300'
+        }`}>
+          {message.type === 'success'
+            ? <CheckCircle className="h-5 w-5 mr-2" />
+            : <AlertTriangle className="h-5 w-5 mr-2" />}
+          <span>{message.text}</span>
+        </div>
+      )}
+
+      {lessons.length === 0 ? (
+        <p className="text-sm text-gray-400">Save the course with at least one lesson to add an assignment.</p>
+      ) : loading ? (
+        <p className="text-sm text-gray-400">Loading assignment...</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-300 mb-2">Title</label>
+              <input
+                type="text"
+                value={assignment.title}
+                onChange={(e) => setAssignment(prev => ({ ...prev, title: e.target.value }))}
+                placeholder="Business plan"
+                disabled={!canEdit}
+                className={inputClass}
+              />
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-300 mb-2">Instructions</label>
+              <textarea
+                value={assignment.instructions}
+                onChange={(e) => setAssignment(prev => ({ ...prev, instructions: e.target.value }))}
+                rows={4}
+                disabled={!canEdit}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Due (optional)</label>
+              <input
+                type="datetime-local"
+                value={toLocalInput(assignment.due_at)}
+                onChange={(e) => setAssignment(prev => ({ ...prev, due_at: e.target.value ? new Date(e.target.value).toISOString() : null }))}
+                disabled={!canEdit}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Pass mark (%)</label>
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={assignment.pass_mark}
+                onChange={(e) => setAssignment(prev => ({ ...prev, pass_mark: parseInt(e.target.value) || 0 }))}
+                disabled={!canEdit}
+                className={inputClass}
+              />
+            </div>
+            <div className="md:col-span-2 flex flex-wrap gap-6">
+              <label className="flex items-center text-sm text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={assignment.allow_late}
+                  onChange={(e) => setAssignment(prev => ({ ...prev, allow_late: e.target.checked }))}
+                  disabled={!canEdit}
+                  className="mr-2"
+                />
+                Accept late submissions (marked late)
+              </label>
+              <label className="flex items-center text-sm text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={assignment.required}
+                  onChange={(e) => setAssignment(prev => ({ ...prev, required: e.target.checked }))}
+                  disabled={!canEdit}
+                  className="mr-2"
+                />
+                Required to complete the lesson and for the certificate
+              </label>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h4 className="text-white font-medium">Rubric</h4>
+              <span className="text-sm text-gray-400">{rubricTotal} points in total</span>
+            </div>
+            {assignment.rubric.map((criterion, index) => (
+              <div key={criterion.id} className="grid grid-cols-1 md:grid-cols-12 gap-3 items-start">
+                <input
+                  type="text"
+                  value={criterion.title}
+                  onChange={(e) => updateCriterion(index, { title: e.target.value })}
+                  placeholder="Criterion"
+                  disabled={!canEdit}
+                  className={`${inputClass} md:col-span-4`}
+                />
+                <input
+                  type="text"
+                  value={criterion.description || ''}
+                  onChange={(e) => updateCriterion(index, { description: e.target.value })}
+                  placeholder="What earns full marks (optional)"
+                  disabled={!canEdit}
+                  className={`${inputClass} md:col-span-5`}
+                />
+                <input
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={criterion.max_points}
+                  onChange={(e) => updateCriterion(index, { max_points: parseInt(e.target.value) || 1 })}
+                  disabled={!canEdit}
+                  className={`${inputClass} md:col-span-2`}
+                  title="Points"
+                />
+                {canEdit && assignment.rubric.length > 1 && (
+                  <button
+                    type="button"
+                    onClick={() => setAssignment(prev => ({ ...prev, rubric: prev.rubric.filter((_, i) => i !== index) }))}
+                    className="text-gray-400 hover:text-red-400 md:col-span-1 py-2"
+                    title="Remove criterion"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                )}
+              </div>
+            ))}
+            {canEdit && (
+              <button
+                type="button"
+                onClick={() => setAssignment(prev => ({ ...prev, rubric: [...prev.rubric, { id: localId(), title: '', description: '', max_points: 10 }] }))}
+                className="text-sm text-red-400 hover:text-red-300 flex items-center"
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add criterion
+              </button>
+            )}
+          </div>
+
+          <div className="border border-gray-700 rounded-lg p-4 space-y-3">
+            <label className="flex items-center text-sm text-gray-300">
+              <input
+                type="checkbox"
+                checked={assignment.peer_review_enabled}
+                onChange={(e) => setAssignment(prev => ({ ...prev, peer_review_enabled: e.target.checked }))}
+                disabled={!canEdit}
+                className="mr-2"
+              />
+              Anonymous peer review
+            </label>
+            {assignment.peer_review_enabled && (
+              <div className="flex items-center gap-3 text-sm text-gray-300">
+                <span>Reviews per submission</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={5}
+                  value={assignment.peer_reviews_required}
+                  onChange={(e) => setAssignment(prev => ({ ...prev, peer_reviews_required: parseInt(e.target.value) || 1 }))}
+                  disabled={!canEdit}
+                  className="w-20 px-2 py-1 bg-gray-700 border border-gray-600 rounded-lg text-white"
+                />
+              </div>
+            )}
+            <p className="text-xs text-gray-400">
+              Once a submission has enough reviews, the peer score (adjusted for reviewers who mark harder or softer than instructors) becomes its grade. An instructor grade always takes precedence.
+            </p>
+          </div>
+
+          {canEdit ? (
+            <div className="flex flex-wrap justify-end gap-3">
+              {exists && (
+                <Button type="button" variant="outline" onClick={handleDelete} disabled={saving} className="flex items-center">
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete Assignment
+                </Button>
+              )}
+              <Button type="button" variant="primary" onClick={handleSave} disabled={saving} className="flex items-center">
+                {saving ? <RefreshCw className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                Save Assignment
+              </Button>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-400">You need course editing permission to change assignments.</p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AssignmentEditor;
@@ -0,0 +1,242 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { AlertTriangle, CalendarClock, CheckCircle, RefreshCw, Trash2 } from 'lucide-react';
+import Button from '../ui/Button';
+import { usePermissions } from '../../contexts/PermissionContext';
+import { scheduleAPI } from '../../lib/api';
+import { ContentSchedule, ScheduleExpireAction } from '../../types';
+
+const browserTimeZone = () => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch (error) {
+    return 'UTC';
+  }
+};
+
+const formatInstant = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+interface ContentSchedulePanelProps {
+  courseId: string;
+  /** Saved lessons of the course; each can be scheduled on its own */
+  lessons?: { id: string; title: string }[];
+}
+
+/**
+ * Release and expiry times for a course or one of its lessons. Times are
+ * entered in a named time zone; at release, approved content is published
+ * and learners who saved the course are notified.
+ */
+const ContentSchedulePanel: React.FC<ContentSchedulePanelProps> = ({ courseId, lessons = [] }) => {
+  const { hasPermission } = usePermissions();
+  const [lessonId, setLessonId] = useState('');
+  const [schedule, setSchedule] = useState<ContentSchedule | null>(null);
+  const [form, setForm] = useState({ publishAt: '', expireAt: '', expireAction: 'unpublish' as ScheduleExpireAction, timezone: browserTimeZone() });
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const canSchedule = hasPermission(lessonId ? 'content:publish' : 'courses:publish');
+
+  const loadSchedule = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await scheduleAPI.getSchedule(courseId, lessonId || undefined);
+      const current = response.data;
+      setSchedule(current);
+      // Steps that already ran are not offered for editing again
+      setForm({
+        publishAt: current && !current.publish_done_at ? current.publish_local || '' : '',
+        expireAt: current && !current.expire_done_at ? current.expire_local || '' : '',
+        expireAction: current?.expire_action || 'unpublish',
+        timezone: current?.timezone || browserTimeZone()
+      });
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to load the schedule' });
+    } finally {
+      setLoading(false);
+    }
+  }, [courseId, lessonId]);
+
+  useEffect(() => {
+    setMessage(null);
+    loadSchedule();
+  }, [loadSchedule]);
+
+  const handleSave = async () => {
+    if (!form.publishAt && !form.expireAt) {
+      setMessage({ type: 'error', text: 'Choose a release time, an expiry time or both' });
+      return;
+    }
+
+    setSaving(true);
+    setMessage(null);
+    try {
+      const response = await scheduleAPI.saveSchedule(courseId, {
+        publishAt: form.publishAt || null,
+        expireAt: form.expireAt || null,
+        expireAction: form.expireAction,
+        timezone: form.timezone.trim()
+      }, lessonId || undefined);
+      setSchedule(response.data);
+      setMessage({ type: 'success', text: 'Schedule saved' });
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to save the schedule' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!confirm('Cancel this schedule? Nothing will be published or expired automatically.')) return;
+
+    setSaving(true);
+    setMessage(null);
+    try {
+      await scheduleAPI.cancelSchedule(courseId, lessonId || undefined);
+      await loadSchedule();
+      setMessage({ type: 'success', text: 'Schedule cancelled' });
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to cancel the schedule' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:ring-2 focus:ring-red-500 focus:border-transparent disabled:opacity-50';
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h3 className="text-xl font-semibold text-white flex items-center">
+            <CalendarClock className="h-5 w-5 mr-2" />
+            Release Schedule
+          </h3>
+          <p className="text-gray-400 text-sm mt-1">
+            Only approved content is published on schedule. Coming-soon courses go live at their release time.
+          </p>
+        </div>
+        {lessons.length > 0 && (
+          <select
+            value={lessonId}
+            onChange={(e) => setLessonId(e.target.value)}
+            className="px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-red-500"
+          >
+            <option value="">Whole course</option>
+            {lessons.map((lesson, index) => (
+              <option key={lesson.id} value={lesson.id}>Lesson {index + 1}: {lesson.title || 'Untitled'}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {message && (
+        <div className={`p-4 rounded-lg flex items-center ${
+          message.type === 'success'
+            ? 'bg-green-600/20 border border-green-500/30 text-green-300'
+            : 'bg-red-600/20 border border-red-500/30 text-red-300'
+        }`}>
+          {message.type === 'success'
+            ? <CheckCircle className="h-5 w-5 mr-2" />
+            : <AlertTriangle className="h-5 w-5 mr-2" />}
+          <span>{message.text}</span>
+        </div>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-gray-400">Loading schedule...</p>
+      ) : (
+        <>
+          {schedule && (
+            <div className="border border-gray-700 rounded-lg p-4 text-sm space-y-1">
+              {schedule.publish_at && (
+                <p className="text-gray-300">
+                  Release: {formatInstant(schedule.publish_at)}
+                  {schedule.publish_done_at && <span className="text-green-300"> · published</span>}
+                </p>
+              )}
+              {schedule.expire_at && (
+                <p className="text-gray-300">
+                  Expiry ({schedule.expire_action}): {formatInstant(schedule.expire_at)}
+                  {schedule.expire_done_at && <span className="text-green-300"> · done</span>}
+                </p>
+              )}
+              {schedule.status === 'failed' && schedule.last_error && (
+                <p className="text-red-300">Failed: {schedule.last_error}</p>
+              )}
+              <p className="text-gray-500 text-xs">
+                Times entered in {schedule.timezone} · last changed by {schedule.updated_by_name || schedule.updated_by}
+              </p>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Release at</label>
+              <input
+                type="datetime-local"
+                value={form.publishAt}
+                onChange={(e) => setForm(prev => ({ ...prev, publishAt: e.target.value }))}
+                disabled={!canSchedule}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Expire at (optional)</label>
+              <input
+                type="datetime-local"
+                value={form.expireAt}
+                onChange={(e) => setForm(prev => ({ ...prev, expireAt: e.target.value }))}
+                disabled={!canSchedule}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Time zone</label>
+              <input
+                type="text"
+                value={form.timezone}
+                onChange={(e) => setForm(prev => ({ ...prev, timezone: e.target.value }))}
+                placeholder="Africa/Lagos"
+                disabled={!canSchedule}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">On expiry</label>
+              <select
+                value={form.expireAction}
+                onChange={(e) => setForm(prev => ({ ...prev, expireAction: e.target.value as ScheduleExpireAction }))}
+                disabled={!canSchedule}
+                className={inputClass}
+              >
+                <option value="unpublish">Unpublish (can be published again)</option>
+                <option value="archive">Archive</option>
+              </select>
+            </div>
+          </div>
+
+          {canSchedule ? (
+            <div className="flex flex-wrap justify-end gap-3">
+              {schedule && (
+                <Button type="button" variant="outline" onClick={handleCancel} disabled={saving} className="flex items-center">
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Cancel Schedule
+                </Button>
+              )}
+              <Button type="button" variant="primary" onClick={handleSave} disabled={saving} className="flex items-center">
+                {saving ? <RefreshCw className="h-4 w-4 mr-2 animate-spin" /> : <CalendarClock className="h-4 w-4 mr-2" />}
+                Save Schedule
+              </Button>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-400">You need publishing permission to change the schedule.</p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ContentSchedulePanel;
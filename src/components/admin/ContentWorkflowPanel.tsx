@@ -0,0 +1,268 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { AlertTriangle, CheckCircle, Clock, History, RefreshCw, Send, UserCheck } from 'lucide-react';
+import Button from '../ui/Button';
+import { usePermissions } from '../../contexts/PermissionContext';
+import { workflowAPI, WorkflowReviewer } from '../../lib/api';
+import { Permission, Workflow, WorkflowAction, WorkflowHistory, WorkflowStatus } from '../../types';
+
+// Mirrors TRANSITIONS in backend/lib/contentWorkflowService.js; the server has the final say
+const ACTIONS: { action: WorkflowAction; label: string; from: WorkflowStatus[]; permission: { course: Permission; lesson: Permission } }[] = [
+  { action: 'submit', label: 'Submit for Review', from: ['draft'], permission: { course: 'courses:edit', lesson: 'content:edit' } },
+  { action: 'approve', label: 'Approve', from: ['review'], permission: { course: 'content:review', lesson: 'content:review' } },
+  { action: 'request_changes', label: 'Request Changes', from: ['review', 'approved'], permission: { course: 'content:review', lesson: 'content:review' } },
+  { action: 'publish', label: 'Publish', from: ['approved'], permission: { course: 'courses:publish', lesson: 'content:publish' } },
+  { action: 'unpublish', label: 'Unpublish', from: ['published'], permission: { course: 'courses:publish', lesson: 'content:publish' } },
+  { action: 'archive', label: 'Archive', from: ['draft', 'review', 'approved', 'published'], permission: { course: 'courses:publish', lesson: 'content:publish' } },
+  { action: 'restore', label: 'Restore to Draft', from: ['archived'], permission: { course: 'courses:edit', lesson: 'content:edit' } }
+];
+
+export const WORKFLOW_STATUS_STYLES: Record<WorkflowStatus, string> = {
+  draft: 'bg-gray-600/30 text-gray-300',
+  review: 'bg-yellow-600/20 text-yellow-300',
+  approved: 'bg-blue-600/20 text-blue-300',
+  published: 'bg-green-600/20 text-green-300',
+  archived: 'bg-red-600/20 text-red-300'
+};
+
+const HISTORY_LABELS: Record<WorkflowHistory['action'], string> = {
+  submit: 'Submitted for review',
+  request_changes: 'Requested changes',
+  approve: 'Approved',
+  publish: 'Published',
+  unpublish: 'Unpublished',
+  archive: 'Archived',
+  restore: 'Restored to draft',
+  assign: 'Assigned reviewer'
+};
+
+interface ContentWorkflowPanelProps {
+  courseId: string;
+  lessonId?: string;
+  onStatusChange?: (status: WorkflowStatus) => void;
+}
+
+/**
+ * Review status of a course or lesson: move it through draft -> review ->
+ * approved -> published, assign a reviewer with a deadline and read the history
+ */
+const ContentWorkflowPanel: React.FC<ContentWorkflowPanelProps> = ({ courseId, lessonId, onStatusChange }) => {
+  const { hasPermission } = usePermissions();
+  const [workflow, setWorkflow] = useState<Workflow | null>(null);
+  const [history, setHistory] = useState<WorkflowHistory[]>([]);
+  const [reviewers, setReviewers] = useState<WorkflowReviewer[]>([]);
+  const [notes, setNotes] = useState('');
+  const [reviewerId, setReviewerId] = useState('');
+  const [deadline, setDeadline] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const contentType = lessonId ? 'lesson' : 'course';
+  const canAssign = hasPermission('content:workflow');
+
+  const loadWorkflow = useCallback(async () => {
+    try {
+      const response = await workflowAPI.getWorkflow(courseId, lessonId);
+      setWorkflow(response.data.workflow);
+      setHistory(response.data.history);
+      setReviewerId(response.data.workflow.current_reviewer_id || '');
+      setDeadline(response.data.workflow.review_deadline ? response.data.workflow.review_deadline.slice(0, 10) : '');
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to load the review status' });
+    }
+  }, [courseId, lessonId]);
+
+  useEffect(() => {
+    loadWorkflow();
+  }, [loadWorkflow]);
+
+  useEffect(() => {
+    if (!canAssign) return;
+    workflowAPI.getReviewers()
+      .then(response => setReviewers(response.data))
+      .catch(error => console.error('Failed to load reviewers:', error));
+  }, [canAssign]);
+
+  const handleAction = async (action: WorkflowAction) => {
+    if (action === 'request_changes' && !notes.trim()) {
+      setMessage({ type: 'error', text: 'Add notes describing the changes you need' });
+      return;
+    }
+
+    setBusy(true);
+    setMessage(null);
+    try {
+      const response = await workflowAPI.transition(courseId, action, notes.trim(), lessonId);
+      setNotes('');
+      await loadWorkflow();
+      onStatusChange?.(response.data.status);
+      setMessage({ type: 'success', text: `Status is now ${response.data.status}` });
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to update the review status' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAssign = async () => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      await workflowAPI.assignReviewer(courseId, {
+        reviewerId: reviewerId || null,
+        deadline: deadline ? new Date(`${deadline}T23:59:59`).toISOString() : null,
+        notes: notes.trim()
+      }, lessonId);
+      setNotes('');
+      await loadWorkflow();
+      setMessage({ type: 'success', text: reviewerId ? 'Reviewer assigned' : 'Reviewer cleared' });
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to assign the reviewer' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!workflow) {
+    return (
+      <div className="bg-gray-800 rounded-lg p-6 text-gray-400">
+        {message ? message.text : 'Loading review status...'}
+      </div>
+    );
+  }
+
+  const availableActions = ACTIONS.filter(({ from, permission }) =>
+    from.includes(workflow.status) && hasPermission(permission[contentType])
+  );
+  const overdue = workflow.review_deadline && workflow.status === 'review' && new Date(workflow.review_deadline) < new Date();
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h3 className="text-xl font-semibold text-white">Review Status</h3>
+          <p className="text-gray-400 text-sm mt-1">
+            Learners only see this {contentType} once it is published.
+          </p>
+        </div>
+        <span className={`px-3 py-1 rounded-full text-sm font-medium capitalize ${WORKFLOW_STATUS_STYLES[workflow.status]}`}>
+          {workflow.status}
+        </span>
+      </div>
+
+      {message && (
+        <div className={`p-4 rounded-lg flex items-center ${
+          message.type === 'success'
+            ? 'bg-green-600/20 border border-green-500/30 text-green-300'
+            : 'bg-red-600/20 border border-red-500/30 text-red-300'
+        }`}>
+          {message.type === 'success'
+            ? <CheckCircle className="h-5 w-5 mr-2" />
+            : <AlertTriangle className="h-5 w-5 mr-2" />}
+          <span>{message.text}</span>
+        </div>
+      )}
+
+      {(workflow.current_reviewer_name || workflow.review_deadline) && (
+        <div className="flex flex-wrap gap-6 text-sm text-gray-300">
+          {workflow.current_reviewer_name && (
+            <span className="flex items-center"><UserCheck className="h-4 w-4 mr-2" />{workflow.current_reviewer_name}</span>
+          )}
+          {workflow.review_deadline && (
+            <span className={`flex items-center ${overdue ? 'text-red-400' : ''}`}>
+              <Clock className="h-4 w-4 mr-2" />
+              Due {new Date(workflow.review_deadline).toLocaleDateString()}{overdue ? ' (overdue)' : ''}
+            </span>
+          )}
+        </div>
+      )}
+
+      {workflow.review_notes && (
+        <div className="border border-gray-700 rounded-lg p-4">
+          <p className="text-gray-400 text-sm mb-1">Latest review notes</p>
+          <p className="text-white whitespace-pre-wrap">{workflow.review_notes}</p>
+        </div>
+      )}
+
+      {(availableActions.length > 0 || canAssign) && (
+        <textarea
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          rows={3}
+          placeholder="Notes for the author or reviewer (required when requesting changes)"
+          className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-red-500"
+        />
+      )}
+
+      {availableActions.length > 0 && (
+        <div className="flex flex-wrap gap-3">
+          {availableActions.map(({ action, label }) => (
+            <Button
+              key={action}
+              type="button"
+              variant={action === 'archive' || action === 'unpublish' || action === 'request_changes' ? 'outline' : 'primary'}
+              onClick={() => handleAction(action)}
+              disabled={busy}
+              className="flex items-center"
+            >
+              {busy ? <RefreshCw className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+              {label}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {canAssign && !['published', 'archived'].includes(workflow.status) && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <select
+            value={reviewerId}
+            onChange={(e) => setReviewerId(e.target.value)}
+            className="px-3 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-red-500"
+          >
+            <option value="">No reviewer</option>
+            {reviewers.map(reviewer => (
+              <option key={reviewer.id} value={reviewer.id}>{reviewer.full_name} ({reviewer.role})</option>
+            ))}
+          </select>
+          <input
+            type="date"
+            value={deadline}
+            onChange={(e) => setDeadline(e.target.value)}
+            className="px-3 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-red-500"
+          />
+          <Button type="button" variant="outline" onClick={handleAssign} disabled={busy} className="flex items-center justify-center">
+            <UserCheck className="h-4 w-4 mr-2" />
+            Save Reviewer
+          </Button>
+        </div>
+      )}
+
+      <div>
+        <h4 className="text-white font-medium flex items-center mb-3">
+          <History className="h-4 w-4 mr-2" />
+          History
+        </h4>
+        {history.length === 0 ? (
+          <p className="text-gray-400 text-sm">No review activity yet.</p>
+        ) : (
+          <ul className="space-y-3">
+            {history.map(entry => (
+              <li key={entry.id} className="border-l-2 border-gray-600 pl-4">
+                <p className="text-white text-sm">
+                  {HISTORY_LABELS[entry.action] || entry.action}
+                  <span className="text-gray-400"> by {entry.changed_by_name || entry.changed_by}</span>
+                </p>
+                <p className="text-gray-500 text-xs">
+                  {new Date(entry.created_at).toLocaleString()}
+                  {entry.from_status && entry.from_status !== entry.to_status ? ` · ${entry.from_status} → ${entry.to_status}` : ''}
+                </p>
+                {entry.notes && <p className="text-gray-300 text-sm mt-1 whitespace-pre-wrap">{entry.notes}</p>}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ContentWorkflowPanel;
@@ -0,0 +1,296 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { AlertTriangle, CheckCircle, GitBranch, RefreshCw, RotateCcw, Trash2, Upload } from 'lucide-react';
+import Button from '../ui/Button';
+import { usePermissions } from '../../contexts/PermissionContext';
+import { courseVersionsAPI } from '../../lib/api';
+import { CourseDiff, CourseDraft, CourseVersion, FieldChange } from '../../types';
+
+const SOURCE_LABELS: Record<CourseVersion['source'], string> = {
+  baseline: 'Original',
+  publish: 'Published',
+  draft: 'Draft published',
+  rollback: 'Rollback'
+};
+
+const formatValue = (value: any): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > 160 ? `${text.slice(0, 160)}…` : text;
+};
+
+const FieldChanges: React.FC<{ changes: FieldChange[] }> = ({ changes }) => (
+  <ul className="space-y-1">
+    {changes.map(change => (
+      <li key={change.field} className="text-sm">
+        <span className="text-gray-400">{change.field}: </span>
+        <span className="text-red-300 line-through break-words">{formatValue(change.before)}</span>
+        <span className="text-gray-500"> → </span>
+        <span className="text-green-300 break-words">{formatValue(change.after)}</span>
+      </li>
+    ))}
+  </ul>
+);
+
+/**
+ * Field-level changes between two versions of a course
+ */
+const CourseDiffView: React.FC<{ diff: CourseDiff }> = ({ diff }) => {
+  if (!diff.has_changes) {
+    return <p className="text-gray-400 text-sm">No changes.</p>;
+  }
+
+  const { added, removed, changed, moved } = diff.lessons;
+
+  return (
+    <div className="space-y-4">
+      {diff.fields.length > 0 && (
+        <div>
+          <h5 className="text-white text-sm font-medium mb-2">Course details</h5>
+          <FieldChanges changes={diff.fields} />
+        </div>
+      )}
+      {(added.length > 0 || removed.length > 0 || changed.length > 0 || moved.length > 0) && (
+        <div>
+          <h5 className="text-white text-sm font-medium mb-2">Lessons</h5>
+          <ul className="space-y-2 text-sm">
+            {added.map(lesson => (
+              <li key={`added-${lesson.id}`} className="text-green-300">+ {lesson.title || 'Untitled'} (lesson {lesson.position})</li>
+            ))}
+            {removed.map(lesson => (
+              <li key={`removed-${lesson.id}`} className="text-red-300">− {lesson.title || 'Untitled'} (was lesson {lesson.position})</li>
+            ))}
+            {moved.map(lesson => (
+              <li key={`moved-${lesson.id}`} className="text-yellow-300">↕ {lesson.title || 'Untitled'}: position {lesson.from} → {lesson.to}</li>
+            ))}
+            {changed.map(lesson => (
+              <li key={`changed-${lesson.id}`}>
+                <p className="text-blue-300">✎ {lesson.title || 'Untitled'}</p>
+                <div className="pl-4 mt-1">
+                  <FieldChanges changes={lesson.fields} />
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface CourseVersionsPanelProps {
+  courseId: string;
+}
+
+/**
+ * Unpublished draft and version history of a course. Publishing the draft or
+ * rolling back creates a new numbered version; learners already part-way
+ * through keep the lessons of the version they started on.
+ */
+const CourseVersionsPanel: React.FC<CourseVersionsPanelProps> = ({ courseId }) => {
+  const { hasPermission } = usePermissions();
+  const [draft, setDraft] = useState<CourseDraft | null>(null);
+  const [draftDiff, setDraftDiff] = useState<CourseDiff | null>(null);
+  const [currentVersion, setCurrentVersion] = useState(0);
+  const [versions, setVersions] = useState<CourseVersion[]>([]);
+  const [openVersion, setOpenVersion] = useState<number | null>(null);
+  const [versionDiff, setVersionDiff] = useState<CourseDiff | null>(null);
+  const [notes, setNotes] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const canPublish = hasPermission('courses:publish');
+
+  const load = useCallback(async () => {
+    try {
+      const [draftResponse, versionsResponse] = await Promise.all([
+        courseVersionsAPI.getDraft(courseId),
+        courseVersionsAPI.getVersions(courseId)
+      ]);
+      setDraft(draftResponse.data.draft);
+      setDraftDiff(draftResponse.data.diff);
+      setCurrentVersion(draftResponse.data.current_version);
+      setVersions(versionsResponse.data);
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to load course versions' });
+    }
+  }, [courseId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const run = async (task: () => Promise<string>) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      const text = await task();
+      setNotes('');
+      setOpenVersion(null);
+      await load();
+      setMessage({ type: 'success', text });
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Something went wrong' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handlePublish = () => run(async () => {
+    const response = await courseVersionsAPI.publishDraft(courseId, notes.trim());
+    return `Draft published as version ${response.data.version}`;
+  });
+
+  const handleDiscard = () => {
+    if (!confirm('Discard the unpublished draft? Its changes will be lost.')) return;
+    run(async () => {
+      await courseVersionsAPI.discardDraft(courseId);
+      return 'Draft discarded';
+    });
+  };
+
+  const handleRollback = (version: number) => {
+    if (!confirm(`Make version ${version} live again? It will be published as a new version.`)) return;
+    run(async () => {
+      const response = await courseVersionsAPI.rollback(courseId, version, notes.trim());
+      return `Version ${version} restored as version ${response.data.version}`;
+    });
+  };
+
+  const toggleVersion = async (version: number) => {
+    if (openVersion === version) {
+      setOpenVersion(null);
+      return;
+    }
+
+    setOpenVersion(version);
+    setVersionDiff(null);
+    try {
+      const response = await courseVersionsAPI.getVersion(courseId, version);
+      setVersionDiff(response.data.diff);
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to load version changes' });
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6 space-y-6">
+      <div>
+        <h3 className="text-xl font-semibold text-white flex items-center">
+          <GitBranch className="h-5 w-5 mr-2" />
+          Draft &amp; Versions
+        </h3>
+        <p className="text-gray-400 text-sm mt-1">
+          Once a course is published, saved edits become a draft. Learners see them only after the draft is published.
+        </p>
+      </div>
+
+      {message && (
+        <div className={`p-4 rounded-lg flex items-center ${
+          message.type === 'success'
+            ? 'bg-green-600/20 border border-green-500/30 text-green-300'
+            : 'bg-red-600/20 border border-red-500/30 text-red-300'
+        }`}>
+          {message.type === 'success'
+            ? <CheckCircle className="h-5 w-5 mr-2" />
+            : <AlertTriangle className="h-5 w-5 mr-2" />}
+          <span>{message.text}</span>
+        </div>
+      )}
+
+      {draft ? (
+        <div className="border border-yellow-600/30 rounded-lg p-4 space-y-4">
+          <div>
+            <p className="text-yellow-300 font-medium">Unpublished draft</p>
+            <p className="text-gray-400 text-sm">
+              Last saved {new Date(draft.updated_at).toLocaleString()} by {draft.updated_by_name || draft.updated_by}
+            </p>
+            {currentVersion > 0 && draft.based_on_version !== currentVersion && (
+              <p className="text-red-300 text-sm mt-1">
+                Started from version {draft.based_on_version}; version {currentVersion} is live now. Publishing replaces it.
+              </p>
+            )}
+          </div>
+          {draftDiff && <CourseDiffView diff={draftDiff} />}
+          <div className="flex flex-wrap items-center gap-3">
+            {canPublish && (
+              <>
+                <input
+                  type="text"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  placeholder="What changed (optional)"
+                  className="flex-1 min-w-[200px] px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-red-500"
+                />
+                <Button type="button" variant="primary" onClick={handlePublish} disabled={busy} className="flex items-center">
+                  {busy ? <RefreshCw className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+                  Publish Draft
+                </Button>
+              </>
+            )}
+            <Button type="button" variant="outline" onClick={handleDiscard} disabled={busy} className="flex items-center">
+              <Trash2 className="h-4 w-4 mr-2" />
+              Discard
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <p className="text-gray-400 text-sm">No unpublished changes.</p>
+      )}
+
+      <div>
+        <h4 className="text-white font-medium mb-3">History</h4>
+        {versions.length === 0 ? (
+          <p className="text-gray-400 text-sm">No versions yet. The first one is recorded when the course is published.</p>
+        ) : (
+          <ul className="space-y-3">
+            {versions.map(version => (
+              <li key={version.version} className="border border-gray-700 rounded-lg p-4">
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                  <div>
+                    <p className="text-white">
+                      Version {version.version}
+                      <span className="text-gray-400 text-sm"> · {SOURCE_LABELS[version.source] || version.source}</span>
+                      {version.version === currentVersion && (
+                        <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-green-600/20 text-green-300">Live</span>
+                      )}
+                    </p>
+                    <p className="text-gray-500 text-xs">
+                      {new Date(version.published_at).toLocaleString()} by {version.published_by_name || version.published_by}
+                      {' · '}{version.lesson_count} lessons
+                    </p>
+                    {version.notes && <p className="text-gray-300 text-sm mt-1">{version.notes}</p>}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button type="button" variant="ghost" onClick={() => toggleVersion(version.version)}>
+                      {openVersion === version.version ? 'Hide Changes' : 'Changes'}
+                    </Button>
+                    {canPublish && version.version !== currentVersion && (
+                      <Button
+                        type="button"
+                        variant="outline"
+                        onClick={() => handleRollback(version.version)}
+                        disabled={busy}
+                        className="flex items-center"
+                      >
+                        <RotateCcw className="h-4 w-4 mr-2" />
+                        Roll Back
+                      </Button>
+                    )}
+                  </div>
+                </div>
+                {openVersion === version.version && (
+                  <div className="mt-4 border-t border-gray-700 pt-4">
+                    {versionDiff ? <CourseDiffView diff={versionDiff} /> : <p className="text-gray-400 text-sm">Loading changes...</p>}
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CourseVersionsPanel;
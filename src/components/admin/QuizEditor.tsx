@@ -0,0 +1,475 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { AlertTriangle, CheckCircle, ClipboardCheck, Plus, RefreshCw, Save, Trash2, X } from 'lucide-react';
+import Button from '../ui/Button';
+import { usePermissions } from '../../contexts/PermissionContext';
+import { quizAPI } from '../../lib/api';
+import { Quiz, QuizQuestion, QuizQuestionType } from '../../types';
+
+const QUESTION_TYPE_LABELS: Record<QuizQuestionType, string> = {
+  multiple_choice: 'Multiple choice',
+  multi_select: 'Multi-select',
+  true_false: 'True / false',
+  short_answer: 'Short answer'
+};
+
+// Option ids the server uses for every true/false question
+const TRUE_FALSE_OPTIONS = [{ id: 'true', text: 'True' }, { id: 'false', text: 'False' }];
+
+const localId = (prefix: string) => `${prefix}_${Math.random().toString(36).slice(2, 10)}`;
+
+const blankQuestion = (type: QuizQuestionType = 'multiple_choice'): QuizQuestion => ({
+  id: localId('q'),
+  type,
+  prompt: '',
+  points: 1,
+  options: type === 'true_false'
+    ? TRUE_FALSE_OPTIONS
+    : type === 'short_answer'
+      ? []
+      : [{ id: localId('o'), text: '' }, { id: localId('o'), text: '' }],
+  correct_option_ids: type === 'true_false' ? ['true'] : [],
+  accepted_answers: type === 'short_answer' ? [''] : [],
+  explanation: ''
+});
+
+type QuizForm = Omit<Quiz, 'id' | 'course_id' | 'lesson_id'>;
+
+const blankQuiz = (): QuizForm => ({
+  title: '',
+  description: '',
+  pass_mark: 70,
+  max_attempts: 0,
+  shuffle_questions: true,
+  required: true,
+  xp_points: 0,
+  questions: [blankQuestion()]
+});
+
+interface QuizEditorProps {
+  courseId: string;
+  /** Saved lessons of the course; each can have its own quiz */
+  lessons?: { id: string; title: string }[];
+}
+
+/**
+ * Builds the quiz after a lesson or the course's final quiz. Answers are
+ * graded on the server; a required quiz must be passed to complete the
+ * lesson and to receive the certificate.
+ */
+const QuizEditor: React.FC<QuizEditorProps> = ({ courseId, lessons = [] }) => {
+  const { hasPermission } = usePermissions();
+  const [lessonId, setLessonId] = useState('');
+  const [quiz, setQuiz] = useState<QuizForm>(blankQuiz);
+  const [exists, setExists] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const canEdit = hasPermission('courses:edit');
+
+  const loadQuiz = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await quizAPI.getQuiz(courseId, lessonId || undefined);
+      const current = response.data?.quiz;
+      setExists(!!current);
+      setQuiz(current
+        ? {
+          title: current.title,
+          description: current.description || '',
+          pass_mark: current.pass_mark,
+          max_attempts: current.max_attempts,
+          shuffle_questions: !!current.shuffle_questions,
+          required: current.required,
+          xp_points: current.xp_points,
+          questions: current.questions
+        }
+        : blankQuiz());
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to load the quiz' });
+    } finally {
+      setLoading(false);
+    }
+  }, [courseId, lessonId]);
+
+  useEffect(() => {
+    setMessage(null);
+    loadQuiz();
+  }, [loadQuiz]);
+
+  const updateQuestion = (index: number, changes: Partial<QuizQuestion>) => {
+    setQuiz(prev => ({
+      ...prev,
+      questions: prev.questions.map((question, i) => (i === index ? { ...question, ...changes } : question))
+    }));
+  };
+
+  const changeType = (index: number, type: QuizQuestionType) => {
+    const question = quiz.questions[index];
+    updateQuestion(index, { ...blankQuestion(type), id: question.id, prompt: question.prompt, points: question.points, explanation: question.explanation });
+  };
+
+  const toggleCorrect = (index: number, optionId: string) => {
+    const question = quiz.questions[index];
+    const correct = question.correct_option_ids || [];
+    if (question.type === 'multi_select') {
+      updateQuestion(index, {
+        correct_option_ids: correct.includes(optionId) ? correct.filter(id => id !== optionId) : [...correct, optionId]
+      });
+    } else {
+      updateQuestion(index, { correct_option_ids: [optionId] });
+    }
+  };
+
+  const removeOption = (index: number, optionId: string) => {
+    const question = quiz.questions[index];
+    updateQuestion(index, {
+      options: question.options.filter(option => option.id !== optionId),
+      correct_option_ids: (question.correct_option_ids || []).filter(id => id !== optionId)
+    });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      const response = await quizAPI.saveQuiz(courseId, {
+        ...quiz,
+        questions: quiz.questions.map(question => ({
+          ...question,
+          accepted_answers: (question.accepted_answers || []).filter(answer => answer.trim())
+        }))
+      }, lessonId || undefined);
+      setQuiz(prev => ({ ...prev, questions: response.data.questions }));
+      setExists(true);
+      setMessage({ type: 'success', text: 'Quiz saved' });
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to save the quiz' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!confirm('Delete this quiz? Learners keep the XP they already earned.')) return;
+
+    setSaving(true);
+    setMessage(null);
+    try {
+      await quizAPI.deleteQuiz(courseId, lessonId || undefined);
+      setExists(false);
+      setQuiz(blankQuiz());
+      setMessage({ type: 'success', text: 'Quiz deleted' });
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to delete the quiz' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:ring-2 focus:ring-red-500 focus:border-transparent disabled:opacity-50';
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h3 className="text-xl font-semibold text-white flex items-center">
+            <ClipboardCheck className="h-5 w-5 mr-2" />
+            Quiz
+          </h3>
+          <p className="text-gray-400 text-sm mt-1">
+            Add a quiz after a saved lesson, or a final quiz for the whole course.
+          </p>
+        </div>
+        <select
+          value={lessonId}
+          onChange={(e) => setLessonId(e.target.value)}
+          className="px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-red-500"
+        >
+          <option value="">Final course quiz</option>
+          {lessons.map((lesson, index) => (
+            <option key={lesson.id} value={lesson.id}>After lesson {index + 1}: {lesson.title || 'Untitled'}</option>
+          ))}
+        </select>
+      </div>
+
+      {message && (
+        <div className={`p-4 rounded-lg flex items-center ${
+          message.type === 'success'
+            ? 'bg-green-600/20 border border-green-500/30 text-green-300'
+            : 'bg-red-600/20 border border-red-500/30 text-red-300'
+        }`}>
+          {message.type === 'success'
+            ? <CheckCircle className="h-5 w-5 mr-2" />
+            : <AlertTriangle className="h-5 w-5 mr-2" />}
+          <span>{message.text}</span>
+        </div>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-gray-400">Loading quiz...</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-300 mb-2">Title</label>
+              <input
+                type="text"
+                value={quiz.title}
+                onChange={(e) => setQuiz(prev => ({ ...prev, title: e.target.value }))}
+                placeholder={lessonId ? 'Lesson check' : 'Final assessment'}
+                disabled={!canEdit}
+                className={inputClass}
+              />
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-300 mb-2">Instructions (optional)</label>
+              <textarea
+                value={quiz.description}
+                onChange={(e) => setQuiz(prev => ({ ...prev, description: e.target.value }))}
+                rows={2}
+                disabled={!canEdit}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Pass mark (%)</label>
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={quiz.pass_mark}
+                onChange={(e) => setQuiz(prev => ({ ...prev, pass_mark: parseInt(e.target.value) || 0 }))}
+                disabled={!canEdit}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Attempts (0 = unlimited)</label>
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={quiz.max_attempts}
+                onChange={(e) => setQuiz(prev => ({ ...prev, max_attempts: parseInt(e.target.value) || 0 }))}
+                disabled={!canEdit}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">XP for passing</label>
+              <input
+                type="number"
+                min={0}
+                value={quiz.xp_points}
+                onChange={(e) => setQuiz(prev => ({ ...prev, xp_points: parseInt(e.target.value) || 0 }))}
+                disabled={!canEdit}
+                className={inputClass}
+              />
+            </div>
+            <div className="flex flex-col justify-end space-y-2">
+              <label className="flex items-center text-sm text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={!!quiz.shuffle_questions}
+                  onChange={(e) => setQuiz(prev => ({ ...prev, shuffle_questions: e.target.checked }))}
+                  disabled={!canEdit}
+                  className="mr-2"
+                />
+                Shuffle question order for each attempt
+              </label>
+              <label className="flex items-center text-sm text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={quiz.required}
+                  onChange={(e) => setQuiz(prev => ({ ...prev, required: e.target.checked }))}
+                  disabled={!canEdit}
+                  className="mr-2"
+                />
+                {lessonId ? 'Required to complete the lesson and for the certificate' : 'Required for the certificate'}
+              </label>
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            {quiz.questions.map((question, index) => (
+              <div key={question.id} className="border border-gray-700 rounded-lg p-4 space-y-3">
+                <div className="flex flex-wrap items-center gap-3">
+                  <span className="text-white font-medium">Question {index + 1}</span>
+                  <select
+                    value={question.type}
+                    onChange={(e) => changeType(index, e.target.value as QuizQuestionType)}
+                    disabled={!canEdit}
+                    className="px-3 py-1 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm"
+                  >
+                    {(Object.keys(QUESTION_TYPE_LABELS) as QuizQuestionType[]).map(type => (
+                      <option key={type} value={type}>{QUESTION_TYPE_LABELS[type]}</option>
+                    ))}
+                  </select>
+                  <label className="flex items-center text-sm text-gray-300">
+                    Points
+                    <input
+                      type="number"
+                      min={1}
+                      max={100}
+                      value={question.points}
+                      onChange={(e) => updateQuestion(index, { points: parseInt(e.target.value) || 1 })}
+                      disabled={!canEdit}
+                      className="ml-2 w-20 px-2 py-1 bg-gray-700 border border-gray-600 rounded-lg text-white"
+                    />
+                  </label>
+                  {canEdit && quiz.questions.length > 1 && (
+                    <button
+                      type="button"
+                      onClick={() => setQuiz(prev => ({ ...prev, questions: prev.questions.filter((_, i) => i !== index) }))}
+                      className="ml-auto text-gray-400 hover:text-red-400"
+                      title="Remove question"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  )}
+                </div>
+
+                <textarea
+                  value={question.prompt}
+                  onChange={(e) => updateQuestion(index, { prompt: e.target.value })}
+                  placeholder="Question"
+                  rows={2}
+                  disabled={!canEdit}
+                  className={inputClass}
+                />
+
+                {question.type === 'short_answer' ? (
+                  <div className="space-y-2">
+                    <p className="text-xs text-gray-400">Accepted answers (case and extra spaces are ignored)</p>
+                    {(question.accepted_answers || []).map((answer, answerIndex) => (
+                      <div key={answerIndex} className="flex items-center gap-2">
+                        <input
+                          type="text"
+                          value={answer}
+                          onChange={(e) => updateQuestion(index, {
+                            accepted_answers: (question.accepted_answers || []).map((item, i) => (i === answerIndex ? e.target.value : item))
+                          })}
+                          disabled={!canEdit}
+                          className={inputClass}
+                        />
+                        {canEdit && (question.accepted_answers || []).length > 1 && (
+                          <button
+                            type="button"
+                            onClick={() => updateQuestion(index, {
+                              accepted_answers: (question.accepted_answers || []).filter((_, i) => i !== answerIndex)
+                            })}
+                            className="text-gray-400 hover:text-red-400"
+                          >
+                            <X className="h-4 w-4" />
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                    {canEdit && (
+                      <button
+                        type="button"
+                        onClick={() => updateQuestion(index, { accepted_answers: [...(question.accepted_answers || []), ''] })}
+                        className="text-sm text-red-400 hover:text-red-300"
+                      >
+                        + Add accepted answer
+                      </button>
+                    )}
+                  </div>
+                ) : (
+                  <div className="space-y-2">
+                    <p className="text-xs text-gray-400">
+                      {question.type === 'multi_select' ? 'Tick every correct option' : 'Select the correct option'}
+                    </p>
+                    {question.options.map(option => (
+                      <div key={option.id} className="flex items-center gap-2">
+                        <input
+                          type={question.type === 'multi_select' ? 'checkbox' : 'radio'}
+                          name={`correct_${question.id}`}
+                          checked={(question.correct_option_ids || []).includes(option.id)}
+                          onChange={() => toggleCorrect(index, option.id)}
+                          disabled={!canEdit}
+                        />
+                        {question.type === 'true_false' ? (
+                          <span className="text-gray-300">{option.text}</span>
+                        ) : (
+                          <input
+                            type="text"
+                            value={option.text}
+                            onChange={(e) => updateQuestion(index, {
+                              options: question.options.map(item => (item.id === option.id ? { ...item, text: e.target.value } : item))
+                            })}
+                            placeholder="Option"
+                            disabled={!canEdit}
+                            className={inputClass}
+                          />
+                        )}
+                        {canEdit && question.type !== 'true_false' && question.options.length > 2 && (
+                          <button
+                            type="button"
+                            onClick={() => removeOption(index, option.id)}
+                            className="text-gray-400 hover:text-red-400"
+                          >
+                            <X className="h-4 w-4" />
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                    {canEdit && question.type !== 'true_false' && question.options.length < 10 && (
+                      <button
+                        type="button"
+                        onClick={() => updateQuestion(index, { options: [...question.options, { id: localId('o'), text: '' }] })}
+                        className="text-sm text-red-400 hover:text-red-300"
+                      >
+                        + Add option
+                      </button>
+                    )}
+                  </div>
+                )}
+
+                <input
+                  type="text"
+                  value={question.explanation || ''}
+                  onChange={(e) => updateQuestion(index, { explanation: e.target.value })}
+                  placeholder="Explanation shown after grading (optional)"
+                  disabled={!canEdit}
+                  className={inputClass}
+                />
+              </div>
+            ))}
+          </div>
+
+          {canEdit ? (
+            <div className="flex flex-wrap justify-between gap-3">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setQuiz(prev => ({ ...prev, questions: [...prev.questions, blankQuestion()] }))}
+                className="flex items-center"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Question
+              </Button>
+              <div className="flex gap-3">
+                {exists && (
+                  <Button type="button" variant="outline" onClick={handleDelete} disabled={saving} className="flex items-center">
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Delete Quiz
+                  </Button>
+                )}
+                <Button type="button" variant="primary" onClick={handleSave} disabled={saving} className="flex items-center">
+                  {saving ? <RefreshCw className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                  Save Quiz
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-400">You need course editing permission to change quizzes.</p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default QuizEditor;
@@ -0,0 +1,295 @@
+import React, { useEffect, useState } from 'react';
+import { Shield, Users, Plus, Save, Trash2, AlertTriangle, CheckCircle, RefreshCw, Lock } from 'lucide-react';
+import Button from '../ui/Button';
+import { usePermissions } from '../../contexts/PermissionContext';
+import { rolesAPI } from '../../lib/api';
+import { Permission, RoleDefinition, ROLE_HIERARCHY, ROLE_PERMISSIONS } from '../../types';
+import { canManageRole, getPermissionDisplayName, getRoleHierarchy, groupPermissionsByCategory } from '../../utils/permissions';
+
+// Every permission except full access, which only the Super Admin role carries
+const ASSIGNABLE_PERMISSIONS = ROLE_PERMISSIONS['Super Admin'].filter(permission => permission !== 'system:full_access');
+
+// Custom roles sit between 'user' and Super Admin
+const MAX_CUSTOM_LEVEL = ROLE_HIERARCHY['Super Admin'] - 1;
+
+interface RoleDraft {
+  description: string;
+  permissions: Permission[];
+  level: number;
+}
+
+const toDraft = (role: RoleDefinition): RoleDraft => ({
+  description: role.description,
+  permissions: role.permissions,
+  level: role.level
+});
+
+/**
+ * Edit the stored role definitions: permissions and hierarchy level for each
+ * role, plus custom roles. Built-in roles can be edited but not deleted, and
+ * only roles below the editor's own level can be changed.
+ */
+const RoleDefinitionsEditor: React.FC = () => {
+  const { userRole, roles, refreshRoles, hasPermission } = usePermissions();
+  const [drafts, setDrafts] = useState<Record<string, RoleDraft>>({});
+  const [savingRole, setSavingRole] = useState<string | null>(null);
+  const [newRole, setNewRole] = useState({ name: '', description: '', level: 1 });
+  const [creating, setCreating] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    setDrafts(Object.fromEntries(roles.map(role => [role.name, toDraft(role)])));
+  }, [roles]);
+
+  const hierarchy = getRoleHierarchy(roles);
+  const ownLevel = hierarchy[userRole] || 0;
+  const levelOptions = Array.from({ length: Math.min(MAX_CUSTOM_LEVEL, ownLevel - 1) }, (_, index) => index + 1);
+
+  const canEdit = (role: RoleDefinition) => role.name !== 'Super Admin' && canManageRole(userRole, role.name, hierarchy);
+
+  const isDirty = (role: RoleDefinition) => {
+    const draft = drafts[role.name];
+    if (!draft) return false;
+    return draft.description !== role.description ||
+      draft.level !== role.level ||
+      draft.permissions.length !== role.permissions.length ||
+      draft.permissions.some(permission => !role.permissions.includes(permission));
+  };
+
+  const updateDraft = (roleName: string, changes: Partial<RoleDraft>) => {
+    setDrafts(prev => ({ ...prev, [roleName]: { ...prev[roleName], ...changes } }));
+  };
+
+  const togglePermission = (roleName: string, permission: Permission, enabled: boolean) => {
+    const current = drafts[roleName]?.permissions || [];
+    updateDraft(roleName, {
+      permissions: enabled ? [...current.filter(p => p !== permission), permission] : current.filter(p => p !== permission)
+    });
+  };
+
+  const handleSave = async (role: RoleDefinition) => {
+    const draft = drafts[role.name];
+    setSavingRole(role.name);
+    setMessage(null);
+    try {
+      await rolesAPI.updateRole(role.name, {
+        description: draft.description,
+        permissions: draft.permissions,
+        ...(role.built_in ? {} : { level: draft.level })
+      });
+      await refreshRoles();
+      setMessage({ type: 'success', text: `${role.name} saved. Members pick up the change within a minute.` });
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to save role' });
+    } finally {
+      setSavingRole(null);
+    }
+  };
+
+  const handleDelete = async (role: RoleDefinition) => {
+    if (!confirm(`Delete the ${role.name} role? This cannot be undone.`)) {
+      return;
+    }
+
+    setMessage(null);
+    try {
+      await rolesAPI.deleteRole(role.name);
+      await refreshRoles();
+      setMessage({ type: 'success', text: `${role.name} deleted` });
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to delete role' });
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!newRole.name.trim()) {
+      setMessage({ type: 'error', text: 'Enter a name for the new role' });
+      return;
+    }
+
+    setCreating(true);
+    setMessage(null);
+    try {
+      await rolesAPI.createRole({ ...newRole, name: newRole.name.trim(), permissions: ROLE_PERMISSIONS.user });
+      await refreshRoles();
+      setMessage({ type: 'success', text: `${newRole.name.trim()} created. Choose its permissions below.` });
+      setNewRole({ name: '', description: '', level: 1 });
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to create role' });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      {message && (
+        <div className={`p-4 rounded-lg flex items-center ${
+          message.type === 'success'
+            ? 'bg-green-600/20 border border-green-500/30 text-green-300'
+            : 'bg-red-600/20 border border-red-500/30 text-red-300'
+        }`}>
+          {message.type === 'success'
+            ? <CheckCircle className="h-5 w-5 mr-2" />
+            : <AlertTriangle className="h-5 w-5 mr-2" />}
+          <span>{message.text}</span>
+        </div>
+      )}
+
+      {hasPermission('users:assign_roles') && levelOptions.length > 0 && (
+        <div className="bg-gray-800 rounded-lg p-6">
+          <h3 className="text-xl font-semibold text-white mb-2">New Role</h3>
+          <p className="text-gray-400 text-sm mb-6">
+            A role can manage users and roles with a lower level. New roles start with learner permissions.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <input
+              type="text"
+              value={newRole.name}
+              onChange={(e) => setNewRole(prev => ({ ...prev, name: e.target.value }))}
+              placeholder="Role name, e.g. Regional Moderator"
+              className="px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-red-500"
+            />
+            <input
+              type="text"
+              value={newRole.description}
+              onChange={(e) => setNewRole(prev => ({ ...prev, description: e.target.value }))}
+              placeholder="Description"
+              className="md:col-span-2 px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-red-500"
+            />
+            <div className="flex space-x-3">
+              <select
+                value={newRole.level}
+                onChange={(e) => setNewRole(prev => ({ ...prev, level: parseInt(e.target.value) }))}
+                className="flex-1 px-3 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-red-500"
+              >
+                {levelOptions.map(level => (
+                  <option key={level} value={level}>Level {level}</option>
+                ))}
+              </select>
+              <Button variant="primary" onClick={handleCreate} disabled={creating} className="flex items-center">
+                {creating ? <RefreshCw className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-gray-800 rounded-lg p-6">
+        <h3 className="text-xl font-semibold text-white mb-2">Role-Based Permissions</h3>
+        <p className="text-gray-400 mb-6">
+          Configure permissions for each user role. Changes apply to all users with that role; per-user
+          adjustments are made from Manage Users.
+        </p>
+
+        {roles.length === 0 ? (
+          <p className="text-gray-400">Loading roles...</p>
+        ) : (
+          <div className="space-y-6">
+            {roles.map(role => {
+              const draft = drafts[role.name] || toDraft(role);
+              const editable = canEdit(role);
+
+              return (
+                <div key={role.name} className="border border-gray-700 rounded-lg p-6">
+                  <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+                    <h4 className="text-white font-medium flex items-center">
+                      {role.level >= ROLE_HIERARCHY['Content Manager']
+                        ? <Shield className="h-5 w-5 mr-2 text-purple-500" />
+                        : <Users className="h-5 w-5 mr-2 text-gray-400" />}
+                      {role.name}
+                      <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-gray-700 text-gray-300">Level {role.level}</span>
+                      {role.built_in && (
+                        <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-blue-500/20 text-blue-400">Built-in</span>
+                      )}
+                      {!editable && (
+                        <span className="ml-2 text-xs text-yellow-400 flex items-center">
+                          <Lock className="h-3 w-3 mr-1" />
+                          {role.name === 'Super Admin' ? 'Always holds every permission' : 'Only higher roles can modify this role'}
+                        </span>
+                      )}
+                    </h4>
+
+                    {editable && (
+                      <div className="flex items-center space-x-2">
+                        {!role.built_in && (
+                          <select
+                            value={draft.level}
+                            onChange={(e) => updateDraft(role.name, { level: parseInt(e.target.value) })}
+                            className="px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-red-500"
+                          >
+                            {levelOptions.map(level => (
+                              <option key={level} value={level}>Level {level}</option>
+                            ))}
+                          </select>
+                        )}
+                        <Button
+                          variant="primary"
+                          size="sm"
+                          onClick={() => handleSave(role)}
+                          disabled={!isDirty(role) || savingRole === role.name}
+                          className="flex items-center"
+                        >
+                          {savingRole === role.name
+                            ? <RefreshCw className="h-4 w-4 mr-1 animate-spin" />
+                            : <Save className="h-4 w-4 mr-1" />}
+                          Save
+                        </Button>
+                        {!role.built_in && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleDelete(role)}
+                            className="flex items-center text-red-500 border-red-500 hover:bg-red-500/10"
+                          >
+                            <Trash2 className="h-4 w-4 mr-1" />
+                            Delete
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+
+                  <input
+                    type="text"
+                    value={draft.description}
+                    onChange={(e) => updateDraft(role.name, { description: e.target.value })}
+                    disabled={!editable}
+                    placeholder="Description"
+                    className="w-full mb-4 px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-gray-300 text-sm focus:outline-none focus:ring-2 focus:ring-red-500 disabled:opacity-70"
+                  />
+
+                  {role.name !== 'Super Admin' && (
+                    <div className="space-y-4">
+                      {Object.entries(groupPermissionsByCategory(ASSIGNABLE_PERMISSIONS)).map(([category, permissions]) => (
+                        <div key={category}>
+                          <h5 className="text-sm text-gray-400 mb-2">{category}</h5>
+                          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-2">
+                            {permissions.map(permission => (
+                              <label key={permission} className="flex items-center space-x-2 p-2 bg-gray-700 rounded-lg text-sm text-gray-300">
+                                <input
+                                  type="checkbox"
+                                  checked={draft.permissions.includes(permission)}
+                                  onChange={(e) => togglePermission(role.name, permission, e.target.checked)}
+                                  disabled={!editable}
+                                  className="rounded border-gray-600 bg-gray-600 text-red-600 focus:ring-red-500 disabled:opacity-50"
+                                />
+                                <span>{getPermissionDisplayName(permission)}</span>
+                              </label>
+                            ))}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RoleDefinitionsEditor;
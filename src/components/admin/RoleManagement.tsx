@@ -1,9 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { User, Shield, Edit, Trash2, Plus, X, Check, AlertTriangle } from 'lucide-react';
 import Button from '../ui/Button';
-import { UserRole, Permission, ROLE_PERMISSIONS } from '../../types';
-import { hasPermission, canManageRole, getManageableRoles, getPermissionDisplayName, groupPermissionsByCategory, getRoleDisplayName, getRoleDescription } from '../../utils/permissions';
+import { UserRole, Permission, UserPermissionDetails } from '../../types';
+import { hasPermission, canManageRole, getManageableRoles, getPermissionDisplayName, groupPermissionsByCategory, getRoleDisplayName, getRoleDescription, getRoleHierarchy } from '../../utils/permissions';
 import { userAPI } from '../../lib/api';
+import { usePermissions } from '../../contexts/PermissionContext';
 
 interface User {
   id: string;
@@ -28,6 +29,7 @@ const RoleManagement: React.FC<RoleManagementProps> = ({ currentUserRole, curren
   const [loading, setLoading] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
   const [error, setError] = useState<string | null>(null);
+  const [permissionDetails, setPermissionDetails] = useState<UserPermissionDetails | null>(null);
 
   // Load users from API
   useEffect(() => {
@@ -49,7 +51,10 @@ const RoleManagement: React.FC<RoleManagementProps> = ({ currentUserRole, curren
     loadUsers();
   }, []);
 
-  const manageableRoles = getManageableRoles(currentUserRole);
+  // Stored role definitions, including custom roles, once they have loaded
+  const { roles } = usePermissions();
+  const hierarchy = roles.length > 0 ? getRoleHierarchy(roles) : undefined;
+  const manageableRoles = getManageableRoles(currentUserRole, hierarchy);
   const filteredUsers = users.filter(user =>
     user.full_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
     user.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -62,7 +67,7 @@ const RoleManagement: React.FC<RoleManagementProps> = ({ currentUserRole, curren
       return;
     }
 
-    if (!canManageRole(currentUserRole, newRole)) {
+    if (!canManageRole(currentUserRole, newRole, hierarchy)) {
       alert('You cannot assign a role higher than or equal to your own');
       return;
     }
@@ -70,17 +75,12 @@ const RoleManagement: React.FC<RoleManagementProps> = ({ currentUserRole, curren
     setLoading(true);
     setError(null);
     try {
-      // Update user role via API
-      await userAPI.updateUser(userId, {
-        role: newRole,
-        permissions: ROLE_PERMISSIONS[newRole]
-      });
+      // Update user role via API; effective permissions are derived from the role and overrides server-side
+      await userAPI.updateUser(userId, { role: newRole });
 
       // Update local state
       setUsers(prev => prev.map(user =>
-        user.id === userId
-          ? { ...user, role: newRole, permissions: ROLE_PERMISSIONS[newRole] }
-          : user
+        user.id === userId ? { ...user, role: newRole } : user
       ));
 
       setShowRoleModal(false);
@@ -93,6 +93,21 @@ const RoleManagement: React.FC<RoleManagementProps> = ({ currentUserRole, curren
     }
   };
 
+  const openPermissions = async (user: User) => {
+    setSelectedUser(user);
+    setPermissionDetails(null);
+    setShowPermissionModal(true);
+    try {
+      const response = await userAPI.getPermissions(user.id);
+      setPermissionDetails(response.data);
+    } catch (error) {
+      console.error('Failed to load user permissions:', error);
+      setError('Failed to load user permissions. Please try again.');
+      setShowPermissionModal(false);
+      setSelectedUser(null);
+    }
+  };
+
   const handleUserStatusChange = async (userId: string, isActive: boolean) => {
     const permission = isActive ? 'users:activate' : 'users:suspend';
     if (!hasPermission(currentUserPermissions, permission)) {
@@ -263,7 +278,7 @@ const RoleManagement: React.FC<RoleManagementProps> = ({ currentUserRole, curren
                           setSelectedUser(user);
                           setShowRoleModal(true);
                         }}
-                        disabled={!hasPermission(currentUserPermissions, 'users:assign_roles') || !canManageRole(currentUserRole, user.role)}
+                        disabled={!hasPermission(currentUserPermissions, 'users:assign_roles') || !canManageRole(currentUserRole, user.role, hierarchy)}
                         className="flex items-center"
                       >
                         <Edit className="h-3 w-3 mr-1" />
@@ -272,10 +287,7 @@ const RoleManagement: React.FC<RoleManagementProps> = ({ currentUserRole, curren
                       <Button
                         variant="outline"
                         size="sm"
-                        onClick={() => {
-                          setSelectedUser(user);
-                          setShowPermissionModal(true);
-                        }}
+                        onClick={() => openPermissions(user)}
                         disabled={!hasPermission(currentUserPermissions, 'users:edit')}
                         className="flex items-center"
                       >
@@ -356,7 +368,7 @@ const RoleManagement: React.FC<RoleManagementProps> = ({ currentUserRole, curren
                   <div className="flex items-center justify-between">
                     <div>
                       <h4 className="text-white font-medium">{getRoleDisplayName(role)}</h4>
-                      <p className="text-gray-400 text-sm">{getRoleDescription(role)}</p>
+                      <p className="text-gray-400 text-sm">{roles.find(definition => definition.name === role)?.description || getRoleDescription(role)}</p>
                     </div>
                     <Shield className="h-5 w-5 text-gray-400" />
                   </div>
@@ -413,21 +425,45 @@ const RoleManagement: React.FC<RoleManagementProps> = ({ currentUserRole, curren
               </div>
             </div>
 
-            <div className="space-y-6">
-              {Object.entries(groupPermissionsByCategory(selectedUser.permissions)).map(([category, permissions]) => (
-                <div key={category} className="bg-gray-700 rounded-lg p-4">
-                  <h4 className="text-white font-medium mb-3">{category}</h4>
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
-                    {permissions.map((permission) => (
-                      <div key={permission} className="flex items-center space-x-2">
-                        <Check className="h-4 w-4 text-green-400" />
-                        <span className="text-sm text-gray-300">{getPermissionDisplayName(permission)}</span>
-                      </div>
-                    ))}
+            {!permissionDetails ? (
+              <div className="flex items-center justify-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-red-500"></div>
+                <span className="ml-2 text-gray-400">Loading...</span>
+              </div>
+            ) : (
+              <div className="space-y-6">
+                {Object.entries(groupPermissionsByCategory(permissionDetails.permissions)).map(([category, permissions]) => (
+                  <div key={category} className="bg-gray-700 rounded-lg p-4">
+                    <h4 className="text-white font-medium mb-3">{category}</h4>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                      {permissions.map((permission) => (
+                        <div key={permission} className="flex items-center space-x-2">
+                          <Check className="h-4 w-4 text-green-400" />
+                          <span className="text-sm text-gray-300">{getPermissionDisplayName(permission)}</span>
+                          {permissionDetails.sources[permission] === 'grant' && (
+                            <span className="px-2 py-0.5 text-xs rounded-full bg-green-500/20 text-green-400">Granted</span>
+                          )}
+                        </div>
+                      ))}
+                    </div>
                   </div>
-                </div>
-              ))}
-            </div>
+                ))}
+
+                {permissionDetails.denied.length > 0 && (
+                  <div className="bg-gray-700 rounded-lg p-4">
+                    <h4 className="text-white font-medium mb-3">Denied for this user</h4>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                      {permissionDetails.denied.map((permission: Permission) => (
+                        <div key={permission} className="flex items-center space-x-2">
+                          <X className="h-4 w-4 text-red-400" />
+                          <span className="text-sm text-gray-400 line-through">{getPermissionDisplayName(permission)}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
 
             <div className="flex justify-end space-x-3 mt-6 pt-4 border-t border-gray-700">
               <Button
@@ -0,0 +1,240 @@
+import React, { useEffect, useState } from 'react';
+import { ShieldCheck, KeyRound, AlertTriangle, Copy, Check } from 'lucide-react';
+import Button from '../ui/Button';
+import {
+  authService,
+  AuthError,
+  AuthResponse,
+  MfaChallenge,
+  MfaEnrollment,
+  MfaEnrollmentResult
+} from '../../lib/authService';
+
+interface TwoFactorChallengeProps {
+  /** Challenge returned by the password step of sign-in */
+  challenge: MfaChallenge;
+  /** Called with the final login response once the second factor is accepted */
+  onComplete: (response: AuthResponse) => Promise<void> | void;
+  /** Return to the email/password form */
+  onCancel: () => void;
+}
+
+type Step = 'verify' | 'enroll' | 'recovery-codes';
+
+/**
+ * Second sign-in step. Verifies a TOTP or recovery code, or walks the user
+ * through first-time enrolment when their role requires two-factor auth.
+ */
+const TwoFactorChallenge: React.FC<TwoFactorChallengeProps> = ({ challenge, onComplete, onCancel }) => {
+  const [step, setStep] = useState<Step>(challenge.enrollmentRequired ? 'enroll' : 'verify');
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [enrollment, setEnrollment] = useState<MfaEnrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [pendingResponse, setPendingResponse] = useState<AuthResponse | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (step !== 'enroll' || enrollment) return;
+
+    authService.enrollMfa({ mfaToken: challenge.mfaToken })
+      .then(result => setEnrollment(result as MfaEnrollment))
+      .catch(err => setError(err instanceof AuthError ? err.message : 'Failed to start two-factor setup'));
+  }, [step, enrollment, challenge.mfaToken]);
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+
+    try {
+      const verification = useRecoveryCode ? { recoveryCode: code.trim() } : { code: code.trim() };
+      const response = await authService.verifyMfa(challenge.mfaToken, verification);
+      await onComplete(response);
+    } catch (err) {
+      setError(err instanceof AuthError ? err.message : 'Verification failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleEnroll = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+
+    try {
+      const result = await authService.enrollMfa({ mfaToken: challenge.mfaToken, code: code.trim() }) as MfaEnrollmentResult;
+      setRecoveryCodes(result.recoveryCodes);
+      if (result.user) {
+        setPendingResponse({ message: 'Login successful', user: result.user, token: result.token });
+      }
+      setStep('recovery-codes');
+    } catch (err) {
+      setError(err instanceof AuthError ? err.message : 'Failed to set up two-factor authentication');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCopyCodes = async () => {
+    try {
+      await navigator.clipboard.writeText(recoveryCodes.join('\n'));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.warn('Clipboard unavailable:', err);
+    }
+  };
+
+  const handleContinue = async () => {
+    if (!pendingResponse) return;
+    setLoading(true);
+    try {
+      await onComplete(pendingResponse);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const errorBanner = error && (
+    <div className="bg-red-500/10 border border-red-500/20 text-red-400 p-4 rounded-md text-sm flex items-start">
+      <AlertTriangle className="h-5 w-5 mr-2 mt-0.5 flex-shrink-0" />
+      <span>{error}</span>
+    </div>
+  );
+
+  const codeInput = (
+    <input
+      type="text"
+      inputMode={useRecoveryCode ? 'text' : 'numeric'}
+      autoComplete="one-time-code"
+      autoFocus
+      value={code}
+      onChange={(e) => setCode(e.target.value)}
+      className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-md text-white text-center tracking-widest focus:outline-none focus:ring-2 focus:ring-red-500"
+      placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+      maxLength={useRecoveryCode ? 11 : 6}
+      required
+    />
+  );
+
+  if (step === 'recovery-codes') {
+    return (
+      <div className="space-y-6">
+        <div className="text-center">
+          <ShieldCheck className="h-10 w-10 text-green-500 mx-auto mb-3" />
+          <h3 className="text-xl font-bold text-white mb-2">Two-factor authentication is on</h3>
+          <p className="text-gray-400 text-sm">
+            Save these recovery codes somewhere safe. Each code can be used once if you lose access to your authenticator app. They will not be shown again.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2 bg-gray-900/60 p-4 rounded-lg font-mono text-sm text-gray-200">
+          {recoveryCodes.map(recoveryCode => (
+            <span key={recoveryCode}>{recoveryCode}</span>
+          ))}
+        </div>
+
+        <Button type="button" variant="secondary" className="w-full" onClick={handleCopyCodes}>
+          {copied ? <Check className="h-4 w-4 mr-2" /> : <Copy className="h-4 w-4 mr-2" />}
+          {copied ? 'Copied' : 'Copy codes'}
+        </Button>
+
+        <Button type="button" variant="primary" className="w-full" onClick={handleContinue} disabled={loading}>
+          I have saved my recovery codes
+        </Button>
+      </div>
+    );
+  }
+
+  if (step === 'enroll') {
+    return (
+      <form onSubmit={handleEnroll} className="space-y-6">
+        <div className="text-center">
+          <KeyRound className="h-10 w-10 text-red-500 mx-auto mb-3" />
+          <h3 className="text-xl font-bold text-white mb-2">Set up two-factor authentication</h3>
+          <p className="text-gray-400 text-sm">
+            Your role requires a second sign-in step. Add this account to an authenticator app, then enter the 6-digit code it shows.
+          </p>
+        </div>
+
+        {errorBanner}
+
+        {enrollment ? (
+          <div className="space-y-3 bg-gray-900/60 p-4 rounded-lg">
+            <div>
+              <div className="text-xs text-gray-400 mb-1">Setup key</div>
+              <div className="font-mono text-sm text-white break-all">{enrollment.secret}</div>
+            </div>
+            <a
+              href={enrollment.otpauth_url}
+              className="block text-sm text-red-500 hover:text-red-400 font-medium"
+            >
+              Open in authenticator app
+            </a>
+          </div>
+        ) : (
+          !error && (
+            <div className="flex justify-center py-4">
+              <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-red-500"></div>
+            </div>
+          )
+        )}
+
+        {codeInput}
+
+        <Button type="submit" variant="primary" className="w-full" disabled={loading || !enrollment}>
+          {loading ? 'Verifying...' : 'Turn on two-factor authentication'}
+        </Button>
+
+        <button type="button" onClick={onCancel} className="w-full text-sm text-gray-400 hover:text-white">
+          Back to sign in
+        </button>
+      </form>
+    );
+  }
+
+  return (
+    <form onSubmit={handleVerify} className="space-y-6">
+      <div className="text-center">
+        <ShieldCheck className="h-10 w-10 text-red-500 mx-auto mb-3" />
+        <h3 className="text-xl font-bold text-white mb-2">Two-factor authentication</h3>
+        <p className="text-gray-400 text-sm">
+          {useRecoveryCode
+            ? 'Enter one of your recovery codes.'
+            : 'Enter the 6-digit code from your authenticator app.'}
+        </p>
+      </div>
+
+      {errorBanner}
+
+      {codeInput}
+
+      <Button type="submit" variant="primary" className="w-full" disabled={loading}>
+        {loading ? 'Verifying...' : 'Verify'}
+      </Button>
+
+      <div className="flex justify-between text-sm">
+        <button
+          type="button"
+          onClick={() => {
+            setUseRecoveryCode(!useRecoveryCode);
+            setCode('');
+            setError('');
+          }}
+          className="text-red-500 hover:text-red-400 font-medium"
+        >
+          {useRecoveryCode ? 'Use authenticator code' : 'Use a recovery code'}
+        </button>
+        <button type="button" onClick={onCancel} className="text-gray-400 hover:text-white">
+          Back to sign in
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default TwoFactorChallenge;
@@ -0,0 +1,198 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ShieldCheck, ShieldOff, KeyRound, RefreshCw, AlertTriangle } from 'lucide-react';
+import Button from '../ui/Button';
+import { securityAPI } from '../../lib/api';
+import { authService, MfaEnrollment, MfaEnrollmentResult } from '../../lib/authService';
+import { MfaStatus } from '../../types';
+
+type Action = 'enroll' | 'disable' | 'regenerate' | null;
+
+/**
+ * Self-service two-factor card: enable, disable and regenerate recovery codes.
+ * Every change is confirmed with a current code from the authenticator app.
+ */
+const TwoFactorSettings: React.FC = () => {
+  const [status, setStatus] = useState<MfaStatus | null>(null);
+  const [action, setAction] = useState<Action>(null);
+  const [enrollment, setEnrollment] = useState<MfaEnrollment | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const loadStatus = useCallback(async () => {
+    try {
+      const response = await securityAPI.getMfaStatus();
+      setStatus(response.data);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load two-factor status');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  const resetForm = () => {
+    setAction(null);
+    setEnrollment(null);
+    setCode('');
+    setError('');
+  };
+
+  const startEnrollment = async () => {
+    setError('');
+    setRecoveryCodes([]);
+    setLoading(true);
+    try {
+      setEnrollment(await authService.enrollMfa() as MfaEnrollment);
+      setAction('enroll');
+    } catch (err: any) {
+      setError(err.message || 'Failed to start two-factor setup');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+
+    try {
+      if (action === 'enroll') {
+        const result = await authService.enrollMfa({ code: code.trim() }) as MfaEnrollmentResult;
+        setRecoveryCodes(result.recoveryCodes);
+      } else if (action === 'regenerate') {
+        const response = await securityAPI.regenerateRecoveryCodes(code.trim());
+        setRecoveryCodes(response.data.recoveryCodes);
+      } else if (action === 'disable') {
+        await securityAPI.disableMfa({ code: code.trim() });
+      }
+
+      resetForm();
+      await loadStatus();
+    } catch (err: any) {
+      setError(err.message || 'Verification failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const submitLabels: Record<Exclude<Action, null>, string> = {
+    enroll: 'Turn on',
+    disable: 'Turn off',
+    regenerate: 'Generate new codes'
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h3 className="text-xl font-semibold text-white mb-2 flex items-center">
+            {status?.enabled
+              ? <ShieldCheck className="h-5 w-5 mr-2 text-green-400" />
+              : <ShieldOff className="h-5 w-5 mr-2 text-gray-400" />}
+            Two-Factor Authentication
+          </h3>
+          <p className="text-gray-400">
+            {status?.enabled
+              ? `Enabled${status.enrolled_at ? ` since ${new Date(status.enrolled_at).toLocaleDateString()}` : ''} • ${status.recovery_codes_remaining} recovery codes left`
+              : 'Add a one-time code from an authenticator app to every sign-in.'}
+          </p>
+          {status?.required && (
+            <p className="text-yellow-400 text-sm mt-1">Required for your role</p>
+          )}
+        </div>
+
+        {status && !action && (
+          status.enabled ? (
+            <div className="flex gap-2">
+              <Button variant="secondary" onClick={() => setAction('regenerate')} className="flex items-center">
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Recovery Codes
+              </Button>
+              {!status.required && (
+                <Button variant="outline" onClick={() => setAction('disable')}>
+                  Disable
+                </Button>
+              )}
+            </div>
+          ) : (
+            <Button variant="primary" onClick={startEnrollment} disabled={loading} className="flex items-center">
+              <KeyRound className="h-4 w-4 mr-2" />
+              Enable
+            </Button>
+          )
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/20 text-red-400 p-4 rounded-md text-sm flex items-start mb-4">
+          <AlertTriangle className="h-5 w-5 mr-2 mt-0.5 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {action && (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {action === 'enroll' && enrollment && (
+            <div className="space-y-3 bg-gray-700 p-4 rounded-lg">
+              <p className="text-gray-300 text-sm">
+                Add this account to your authenticator app using the setup key, then enter the 6-digit code it shows.
+              </p>
+              <div className="font-mono text-sm text-white break-all">{enrollment.secret}</div>
+              <a href={enrollment.otpauth_url} className="block text-sm text-red-500 hover:text-red-400 font-medium">
+                Open in authenticator app
+              </a>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              Authenticator code
+            </label>
+            <input
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-md text-white tracking-widest focus:outline-none focus:ring-2 focus:ring-red-500"
+              placeholder="123456"
+              maxLength={6}
+              required
+            />
+          </div>
+
+          <div className="flex gap-3">
+            <Button type="button" variant="secondary" onClick={resetForm} className="flex-1">
+              Cancel
+            </Button>
+            <Button type="submit" variant="primary" disabled={loading} className="flex-1">
+              {loading ? 'Verifying...' : submitLabels[action]}
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {recoveryCodes.length > 0 && (
+        <div className="mt-4 space-y-3">
+          <p className="text-gray-300 text-sm">
+            Save these recovery codes somewhere safe. Each works once and they will not be shown again.
+          </p>
+          <div className="grid grid-cols-2 gap-2 bg-gray-900/60 p-4 rounded-lg font-mono text-sm text-gray-200">
+            {recoveryCodes.map(recoveryCode => (
+              <span key={recoveryCode}>{recoveryCode}</span>
+            ))}
+          </div>
+          <Button variant="secondary" onClick={() => setRecoveryCodes([])}>
+            Done
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TwoFactorSettings;
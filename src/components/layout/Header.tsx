@@ -81,6 +81,12 @@ const Header: React.FC = () => {
             >
               Courses
             </Link>
+            <Link
+              href="/paths"
+              className="text-white hover:text-red-500 px-2 sm:px-3 py-2 text-xs sm:text-sm font-medium rounded-md hover:bg-white/5 transition-colors"
+            >
+              Paths
+            </Link>
 
             {/* Resources Dropdown */}
             <div className="relative">
@@ -275,6 +281,12 @@ const Header: React.FC = () => {
             >
               Courses
             </Link>
+            <Link
+              href="/paths"
+              className="text-white hover:bg-white/5 hover:text-red-500 block px-3 py-2.5 rounded-md text-sm sm:text-base font-medium transition-colors"
+            >
+              Paths
+            </Link>
             <Link
               href="/afri-sage"
               className="text-white hover:bg-white/5 hover:text-red-500 block px-3 py-2.5 rounded-md text-sm sm:text-base font-medium transition-colors"
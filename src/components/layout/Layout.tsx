@@ -1,6 +1,7 @@
 import React, { useEffect } from 'react';
 import Header from './Header';
 import Footer from './Footer';
+import ImpersonationBanner from '../ui/ImpersonationBanner';
 
 interface LayoutProps {
   /** Child components to render in the main content area */
@@ -11,6 +12,7 @@ interface LayoutProps {
  * Layout Component
  *
  * Provides the main application layout structure including:
+ * - "Viewing as user" banner while support staff impersonate a learner
  * - Fixed header with navigation
  * - Main content area with proper spacing
  * - Footer with site information
@@ -36,6 +38,9 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
     <div
       className="flex flex-col min-h-screen bg-brand-background-gradient"
     >
+      {/* Shown only during impersonation */}
+      <ImpersonationBanner />
+
       {/* Fixed header */}
       <Header />
 
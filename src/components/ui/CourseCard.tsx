@@ -20,6 +20,7 @@ import { useRouter } from 'next/router';
 import { useFavorites } from '../../hooks/useFavorites';
 import { useAuth } from '../../contexts/AuthContext';
 import { authService } from '../../lib/authService';
+import { describeCourseAccess } from '../../utils/contentLocks';
 
 interface CourseCardProps {
   /** Course data to display */
@@ -118,6 +119,9 @@ const CourseCard: React.FC<CourseCardProps> = ({ course, showFavoriteButton = tr
   // Check if course is coming soon (only when explicitly marked)
   const isComingSoon = course.comingSoon === true;
 
+  // Prerequisite courses still to finish (the server only reports this for learners)
+  const lockedReason = isComingSoon ? null : describeCourseAccess(course.access);
+
   // Check if course is playable (has lessons and not coming soon)
   const isPlayable = course.lessons && course.lessons.length > 0 && !isComingSoon;
 
@@ -134,8 +138,8 @@ const CourseCard: React.FC<CourseCardProps> = ({ course, showFavoriteButton = tr
       return;
     }
 
-    // Check if course has lessons
-    if (course.lessons && course.lessons.length > 0) {
+    // Check if course has lessons; locked courses open on the course page, which lists their prerequisites
+    if (!lockedReason && course.lessons && course.lessons.length > 0) {
       const firstLessonId = course.lessons[0].id;
       const lessonUrl = `/course/${courseId}/lesson/${firstLessonId}`;
 
@@ -149,7 +153,7 @@ const CourseCard: React.FC<CourseCardProps> = ({ course, showFavoriteButton = tr
       // Use replace to prevent navigation loops
       router.replace(lessonUrl);
     } else {
-      console.log('No lessons found, navigating to course page');
+      console.log(lockedReason ? 'Course is locked, navigating to course page' : 'No lessons found, navigating to course page');
       const courseUrl = `/course/${courseId}`;
 
       // Prevent navigation if already on the target route
@@ -269,6 +273,24 @@ const CourseCard: React.FC<CourseCardProps> = ({ course, showFavoriteButton = tr
             </div>
           )}
 
+          {/* Locked Overlay */}
+          {lockedReason && (
+            <div className="absolute inset-x-0 bottom-0 z-30 bg-black bg-opacity-75 px-3 py-2">
+              <p className="text-white text-xs flex items-start">
+                <Lock className="h-3 w-3 mr-1 mt-0.5 flex-shrink-0" />
+                <span>{lockedReason}</span>
+              </p>
+            </div>
+          )}
+
+          {/* Locked Badge - Top Left */}
+          {lockedReason && (
+            <div className="absolute top-2 left-2 z-20 bg-gray-700 text-white px-2 py-1 rounded-full shadow-md border border-gray-500">
+              <Lock className="h-3 w-3 inline mr-1" />
+              <span className="text-xs font-semibold">LOCKED</span>
+            </div>
+          )}
+
           {/* Action Buttons Container */}
           <div className="absolute top-3 right-3 z-20 flex flex-col gap-2">
             {/* Favorite Button */}
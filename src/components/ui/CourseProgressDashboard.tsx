@@ -1,7 +1,8 @@
 import React, { useState, useEffect } from 'react';
-import { Play, Clock, Award, TrendingUp, BarChart3, Calendar } from 'lucide-react';
+import { Play, Clock, Award, TrendingUp, BarChart3, Calendar, Lock } from 'lucide-react';
 import { Course, UserProgress, VideoAnalytics } from '../../types';
 import videoProgressService from '../../lib/videoProgressService';
+import { describeLessonLock } from '../../utils/contentLocks';
 
 interface CourseProgressDashboardProps {
   course: Course;
@@ -167,11 +168,17 @@ const CourseProgressDashboard: React.FC<CourseProgressDashboardProps> = ({
                       ? 'bg-green-500 text-white'
                       : 'bg-gray-200 text-gray-600'
                   }`}>
-                    {isCompleted ? '✓' : index + 1}
+                    {isCompleted ? '✓' : lesson.lock ? <Lock className="w-4 h-4" /> : index + 1}
                   </div>
                   <div>
-                    <h4 className="font-medium text-gray-900">{lesson.title}</h4>
+                    <h4 className={`font-medium ${lesson.lock ? 'text-gray-500' : 'text-gray-900'}`}>{lesson.title}</h4>
                     <p className="text-sm text-gray-500">{lesson.duration}</p>
+                    {lesson.lock && (
+                      <p className="text-xs text-gray-500 flex items-center mt-1">
+                        <Lock className="w-3 h-3 mr-1" />
+                        {describeLessonLock(lesson.lock)}
+                      </p>
+                    )}
                   </div>
                 </div>
 
@@ -0,0 +1,144 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Monitor, Smartphone, Tablet, MapPin, LogOut, Loader2 } from 'lucide-react';
+import Button from './Button';
+import { securityAPI } from '../../lib/api';
+import { DeviceSession } from '../../types';
+
+const DEVICE_ICONS = {
+  desktop: Monitor,
+  mobile: Smartphone,
+  tablet: Tablet
+};
+
+const formatLocation = (location: DeviceSession['location']) =>
+  location ? [location.city, location.region, location.country].filter(Boolean).join(', ') : '';
+
+/**
+ * Where the signed-in user is signed in, with controls to sign a device out
+ * or every device except this one. Shown in the profile's Security tab.
+ */
+const DeviceSessions: React.FC = () => {
+  const [sessions, setSessions] = useState<DeviceSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSessions = useCallback(async () => {
+    setError(null);
+    try {
+      const response = await securityAPI.getMySessions();
+      setSessions(response.data);
+    } catch (err) {
+      console.error('Failed to load devices:', err);
+      setError('Failed to load your devices. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const handleSignOut = async (sessionId: string) => {
+    setBusy(sessionId);
+    try {
+      await securityAPI.signOutDevice(sessionId);
+      setSessions(prev => prev.filter(session => session.id !== sessionId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign the device out.');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleSignOutOthers = async () => {
+    setBusy('others');
+    try {
+      await securityAPI.signOutOtherDevices();
+      setSessions(prev => prev.filter(session => session.is_current));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign out other devices.');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const otherSessions = sessions.filter(session => !session.is_current);
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h2 className="text-xl font-semibold text-white mb-2">Devices</h2>
+          <p className="text-gray-400 text-sm">
+            Where you&apos;re signed in. We email you when a new device signs in.
+          </p>
+        </div>
+        {otherSessions.length > 0 && (
+          <Button
+            variant="outline"
+            onClick={handleSignOutOthers}
+            disabled={busy !== null}
+            className="flex items-center"
+          >
+            <LogOut className="h-4 w-4 mr-2" />
+            Sign Out All Other Devices
+          </Button>
+        )}
+      </div>
+
+      {error && <p className="text-red-400 text-sm mb-4">{error}</p>}
+
+      {loading ? (
+        <div className="flex items-center text-gray-400">
+          <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+          Loading devices...
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {sessions.map(session => {
+            const Icon = DEVICE_ICONS[session.device.type] || Monitor;
+            const location = formatLocation(session.location);
+            return (
+              <div key={session.id} className="flex items-center justify-between py-3 border-b border-gray-700 last:border-b-0">
+                <div className="flex items-center">
+                  <Icon className="h-6 w-6 text-gray-400 mr-4 flex-shrink-0" />
+                  <div>
+                    <p className="text-white">
+                      {session.device.browser} on {session.device.os}
+                      {session.is_support_session && <span className="ml-2 text-xs text-yellow-400">Support access</span>}
+                    </p>
+                    <p className="text-gray-400 text-sm flex items-center">
+                      {location && (
+                        <>
+                          <MapPin className="h-3 w-3 mr-1" />
+                          {location} •{' '}
+                        </>
+                      )}
+                      IP: {session.ip_address} • Last active {new Date(session.last_activity).toLocaleString()}
+                    </p>
+                  </div>
+                </div>
+                {session.is_current ? (
+                  <span className="text-green-400 text-sm">This device</span>
+                ) : (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleSignOut(session.id)}
+                    disabled={busy !== null}
+                  >
+                    Sign Out
+                  </Button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DeviceSessions;
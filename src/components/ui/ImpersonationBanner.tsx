@@ -0,0 +1,79 @@
+import React, { useEffect, useState } from 'react';
+import { Eye, LogOut, RefreshCw } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+
+const formatRemaining = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+/**
+ * Persistent notice while a support agent views the platform as another user.
+ * Counts down the impersonation's time box and returns the agent to their own
+ * session when they exit or the time runs out.
+ */
+const ImpersonationBanner: React.FC = () => {
+  const { user, endImpersonation } = useAuth();
+  const [now, setNow] = useState(Date.now());
+  const [ending, setEnding] = useState(false);
+
+  const expiresAt = user?.impersonator ? user.impersonation_expires_at || 0 : 0;
+
+  useEffect(() => {
+    if (!expiresAt) return;
+
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [expiresAt]);
+
+  useEffect(() => {
+    if (!expiresAt || ending || now < expiresAt) return;
+
+    setEnding(true);
+    endImpersonation().finally(() => setEnding(false));
+  }, [now, expiresAt, ending, endImpersonation]);
+
+  if (!user?.impersonator) {
+    return null;
+  }
+
+  const handleExit = async () => {
+    setEnding(true);
+    try {
+      await endImpersonation();
+    } finally {
+      setEnding(false);
+    }
+  };
+
+  return (
+    <div className="sticky top-0 z-[60] bg-yellow-500 text-gray-900">
+      <div className="max-w-screen-xl mx-auto px-4 sm:px-6 lg:px-8 py-2 flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center text-sm">
+          <Eye className="h-4 w-4 mr-2 flex-shrink-0" />
+          <span>
+            Viewing as <span className="font-semibold">{user.full_name || user.email}</span> (read-only).
+            Changes are blocked and every request is logged under {user.impersonator.email}.
+          </span>
+        </div>
+        <div className="flex items-center space-x-4 text-sm">
+          <span className="font-mono">Ends in {formatRemaining(expiresAt - now)}</span>
+          <button
+            onClick={handleExit}
+            disabled={ending}
+            className="flex items-center px-3 py-1 rounded-md bg-gray-900 text-yellow-400 hover:bg-gray-800 disabled:opacity-50"
+          >
+            {ending
+              ? <RefreshCw className="h-4 w-4 mr-1 animate-spin" />
+              : <LogOut className="h-4 w-4 mr-1" />}
+            Exit view
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImpersonationBanner;
@@ -0,0 +1,54 @@
+import React from 'react';
+import Link from 'next/link';
+import { Award, BookOpen, Clock, Route } from 'lucide-react';
+import { LearningPathDetail } from '../../types';
+
+export const formatPathDuration = (minutes: number) => {
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest > 0 ? `${hours}h ${rest}m` : `${hours}h`;
+};
+
+interface LearningPathCardProps {
+  path: LearningPathDetail;
+}
+
+const LearningPathCard: React.FC<LearningPathCardProps> = ({ path }) => {
+  const thumbnail = path.thumbnail || path.courses[0]?.thumbnail;
+
+  return (
+    <Link href={`/path/${path.id}`} className="block bg-gray-800 rounded-lg overflow-hidden hover:ring-2 hover:ring-red-500 transition-all">
+      {thumbnail ? (
+        <img src={thumbnail} alt={path.title} className="w-full h-40 object-cover" />
+      ) : (
+        <div className="w-full h-40 bg-gray-700 flex items-center justify-center">
+          <Route className="h-12 w-12 text-gray-500" />
+        </div>
+      )}
+      <div className="p-4">
+        <h3 className="text-white font-semibold text-lg">{path.title}</h3>
+        {path.description && <p className="text-gray-400 text-sm mt-1 line-clamp-2">{path.description}</p>}
+        <p className="text-gray-400 text-sm mt-3 flex items-center">
+          <BookOpen className="h-4 w-4 mr-1" />
+          {path.courses.length} course{path.courses.length === 1 ? '' : 's'}
+          <Clock className="h-4 w-4 ml-3 mr-1" />
+          {formatPathDuration(path.estimated_minutes)}
+        </p>
+        {path.progress && path.progress.percentage > 0 && (
+          <div className="mt-3">
+            <div className="w-full bg-gray-700 rounded-full h-1.5">
+              <div className="bg-red-500 h-1.5 rounded-full" style={{ width: `${path.progress.percentage}%` }} />
+            </div>
+            <p className="text-gray-400 text-xs mt-1 flex items-center">
+              {path.progress.certificate_id && <Award className="h-3 w-3 mr-1 text-green-400" />}
+              {path.progress.completed_courses} of {path.progress.total_courses} courses complete
+            </p>
+          </div>
+        )}
+      </div>
+    </Link>
+  );
+};
+
+export default LearningPathCard;
@@ -0,0 +1,74 @@
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Award, ChevronRight, Lock, Route } from 'lucide-react';
+import { learningPathAPI } from '../../lib/api';
+import { LearningPathUpNext as UpNext } from '../../types';
+
+interface LearningPathUpNextProps {
+  courseId: string;
+}
+
+/**
+ * "Up next" at the end of a course: the next course in every learning path
+ * the course belongs to. Renders nothing when it is not part of a path.
+ */
+const LearningPathUpNext: React.FC<LearningPathUpNextProps> = ({ courseId }) => {
+  const [suggestions, setSuggestions] = useState<UpNext[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    learningPathAPI.getUpNext(courseId)
+      .then(response => {
+        if (!cancelled) setSuggestions(response.data);
+      })
+      .catch(err => console.error('Failed to load learning paths for course:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [courseId]);
+
+  if (suggestions.length === 0) return null;
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6 mb-6 space-y-4">
+      <h2 className="text-xl font-semibold text-white flex items-center">
+        <Route className="h-5 w-5 mr-2" />
+        Up Next
+      </h2>
+      {suggestions.map(suggestion => (
+        <div key={suggestion.path_id} className="border border-gray-700 rounded-lg p-4">
+          <p className="text-gray-400 text-sm">
+            <Link href={`/path/${suggestion.path_id}`} className="text-white hover:text-red-500">
+              {suggestion.path_title}
+            </Link>
+            {' '}• {suggestion.completed_courses} of {suggestion.total_courses} courses done
+          </p>
+          {suggestion.next_course ? (
+            <Link
+              href={suggestion.next_course.locked ? `/path/${suggestion.path_id}` : `/course/${suggestion.next_course.course_id}`}
+              className="mt-3 flex items-center justify-between rounded-lg bg-gray-700/50 hover:bg-gray-700 p-3 transition-colors"
+            >
+              <span className="flex items-center text-white">
+                {suggestion.next_course.locked && <Lock className="h-4 w-4 mr-2 text-gray-400" />}
+                {suggestion.next_course.title}
+              </span>
+              <ChevronRight className="h-5 w-5 text-gray-400" />
+            </Link>
+          ) : (
+            <Link
+              href={`/path/${suggestion.path_id}`}
+              className="mt-3 flex items-center text-green-400 hover:text-green-300 text-sm"
+            >
+              <Award className="h-4 w-4 mr-2" />
+              {suggestion.certificate_id ? 'Path complete - view your certificate' : 'Path complete - claim your certificate'}
+            </Link>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default LearningPathUpNext;
@@ -0,0 +1,370 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { CheckCircle, Clock, FileText, Loader2, Paperclip, Upload, Users, X } from 'lucide-react';
+import Button from './Button';
+import { assignmentAPI } from '../../lib/api';
+import { uploadAssignmentFile } from '../../lib/firebaseStorage';
+import { Assignment, AssignmentFile, AssignmentSubmission, PeerReviewTask } from '../../types';
+
+const MAX_FILES = 5;
+const MAX_FILE_MB = 25;
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+const SubmittedFiles: React.FC<{ files: AssignmentFile[]; onRemove?: (index: number) => void }> = ({ files, onRemove }) => (
+  <ul className="space-y-1">
+    {files.map((file, index) => (
+      <li key={file.url} className="flex items-center text-sm">
+        <Paperclip className="h-4 w-4 text-gray-400 mr-2 flex-shrink-0" />
+        <a href={file.url} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:text-blue-300 truncate">
+          {file.name}
+        </a>
+        <span className="text-gray-500 ml-2">{formatSize(file.size)}</span>
+        {onRemove && (
+          <button type="button" onClick={() => onRemove(index)} className="ml-2 text-gray-400 hover:text-red-400">
+            <X className="h-4 w-4" />
+          </button>
+        )}
+      </li>
+    ))}
+  </ul>
+);
+
+interface LessonAssignmentProps {
+  courseId: string;
+  lessonId: string;
+  userId: string;
+}
+
+/**
+ * The lesson's assignment: instructions and rubric, file hand-in, the grade
+ * and feedback, and anonymous reviews of other learners' work when the
+ * assignment uses peer review. Renders nothing without an assignment.
+ */
+const LessonAssignment: React.FC<LessonAssignmentProps> = ({ courseId, lessonId, userId }) => {
+  const [assignment, setAssignment] = useState<Assignment | null>(null);
+  const [submission, setSubmission] = useState<AssignmentSubmission | null>(null);
+  const [files, setFiles] = useState<AssignmentFile[]>([]);
+  const [text, setText] = useState('');
+  const [editing, setEditing] = useState(false);
+  const [review, setReview] = useState<PeerReviewTask | null>(null);
+  const [reviewScores, setReviewScores] = useState<Record<string, number>>({});
+  const [reviewComment, setReviewComment] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const loadAssignment = useCallback(async () => {
+    try {
+      const response = await assignmentAPI.getAssignment(courseId, lessonId);
+      setAssignment(response.data?.assignment || null);
+      setSubmission(response.data?.submission || null);
+    } catch (err) {
+      console.error('Failed to load assignment:', err);
+      setAssignment(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [courseId, lessonId]);
+
+  useEffect(() => {
+    setFiles([]);
+    setText('');
+    setEditing(false);
+    setReview(null);
+    setError(null);
+    setNotice(null);
+    loadAssignment();
+  }, [loadAssignment]);
+
+  const handleFiles = async (selected: FileList | null) => {
+    if (!selected || selected.length === 0) return;
+
+    const incoming = Array.from(selected);
+    if (files.length + incoming.length > MAX_FILES) {
+      setError(`Attach up to ${MAX_FILES} files.`);
+      return;
+    }
+    const tooLarge = incoming.find(file => file.size > MAX_FILE_MB * 1024 * 1024);
+    if (tooLarge) {
+      setError(`${tooLarge.name} is larger than ${MAX_FILE_MB} MB.`);
+      return;
+    }
+
+    setBusy('upload');
+    setError(null);
+    try {
+      const uploaded: AssignmentFile[] = [];
+      for (const file of incoming) {
+        const url = await uploadAssignmentFile(file, userId, courseId, lessonId);
+        uploaded.push({ name: file.name, url, size: file.size, content_type: file.type });
+      }
+      setFiles(prev => [...prev, ...uploaded]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to upload the file.');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleSubmit = async () => {
+    setBusy('submit');
+    setError(null);
+    try {
+      await assignmentAPI.submit(courseId, lessonId, files, text);
+      setEditing(false);
+      setFiles([]);
+      setText('');
+      setNotice('Your work has been handed in.');
+      await loadAssignment();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to submit the assignment.');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleClaimReview = async () => {
+    setBusy('review');
+    setError(null);
+    setNotice(null);
+    try {
+      const response = await assignmentAPI.claimPeerReview(courseId, lessonId);
+      if (!response.data) {
+        setNotice('No submissions need reviewing right now. Check back later.');
+        return;
+      }
+      setReview(response.data);
+      setReviewScores({});
+      setReviewComment('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to find a submission to review.');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleSubmitReview = async () => {
+    if (!review) return;
+
+    setBusy('review');
+    setError(null);
+    try {
+      await assignmentAPI.submitPeerReview(courseId, review.review_id, reviewScores, reviewComment);
+      setReview(null);
+      setNotice('Thanks, your review has been handed in.');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to submit the review.');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  if (loading || !assignment) return null;
+
+  const rubricTotal = assignment.rubric.reduce((sum, criterion) => sum + criterion.max_points, 0);
+  const pastDue = !!assignment.due_at && new Date(assignment.due_at) < new Date();
+  const canSubmit = !submission?.passed && (!pastDue || assignment.allow_late);
+  const showForm = canSubmit && (!submission || editing);
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6 mb-6 space-y-5">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-semibold text-white flex items-center">
+            <FileText className="h-5 w-5 mr-2" />
+            {assignment.title}
+          </h2>
+          <p className="text-gray-400 text-sm mt-1 flex items-center">
+            {assignment.due_at && (
+              <>
+                <Clock className="h-4 w-4 mr-1" />
+                Due {new Date(assignment.due_at).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })} •{' '}
+              </>
+            )}
+            Pass mark {assignment.pass_mark}%{assignment.required && ' • Required'}
+          </p>
+        </div>
+        {submission?.passed && (
+          <span className="flex items-center text-green-400 text-sm">
+            <CheckCircle className="h-4 w-4 mr-1" />
+            Passed ({submission.final_score}%)
+          </span>
+        )}
+      </div>
+
+      {assignment.instructions && <p className="text-gray-300 whitespace-pre-line">{assignment.instructions}</p>}
+
+      <div>
+        <h3 className="text-white font-medium mb-2">Rubric ({rubricTotal} points)</h3>
+        <ul className="space-y-1 text-sm">
+          {assignment.rubric.map(criterion => (
+            <li key={criterion.id} className="text-gray-300">
+              <span className="text-white">{criterion.title}</span> ({criterion.max_points} pts)
+              {criterion.description && <span className="text-gray-400"> — {criterion.description}</span>}
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      {error && <p className="text-red-400 text-sm">{error}</p>}
+      {notice && <p className="text-green-400 text-sm">{notice}</p>}
+
+      {submission && !editing && (
+        <div className="border border-gray-700 rounded-lg p-4 space-y-3">
+          <p className="text-sm text-gray-400">
+            Version {submission.version} handed in {new Date(submission.submitted_at).toLocaleString()}
+            {submission.late && <span className="text-yellow-400"> • late</span>}
+          </p>
+          <SubmittedFiles files={submission.files} />
+          {submission.text && <p className="text-gray-300 text-sm whitespace-pre-line">{submission.text}</p>}
+
+          {submission.final_score === null ? (
+            <p className="text-sm text-gray-400">
+              Waiting to be graded
+              {assignment.peer_review_enabled && ` • ${submission.peer_reviews.length} of ${assignment.peer_reviews_required} peer reviews in`}
+            </p>
+          ) : (
+            <div className={`p-3 rounded-lg text-sm ${
+              submission.passed
+                ? 'bg-green-600/20 border border-green-500/30 text-green-300'
+                : 'bg-red-600/20 border border-red-500/30 text-red-300'
+            }`}>
+              Grade: {submission.final_score}% ({submission.grade_source === 'instructor' ? 'instructor' : 'peer reviewed'})
+              {!submission.passed && ` • ${assignment.pass_mark}% is needed to pass`}
+            </div>
+          )}
+
+          {submission.instructor_grade?.feedback && (
+            <div>
+              <h4 className="text-white text-sm font-medium mb-1">Instructor feedback</h4>
+              <p className="text-gray-300 text-sm whitespace-pre-line">{submission.instructor_grade.feedback}</p>
+            </div>
+          )}
+          {submission.peer_reviews.filter(peer => peer.comment).map((peer, index) => (
+            <div key={index}>
+              <h4 className="text-white text-sm font-medium mb-1">Peer {index + 1} ({peer.percentage}%)</h4>
+              <p className="text-gray-300 text-sm whitespace-pre-line">{peer.comment}</p>
+            </div>
+          ))}
+
+          {canSubmit && (
+            <Button variant="outline" size="sm" onClick={() => setEditing(true)}>
+              Submit a New Version
+            </Button>
+          )}
+        </div>
+      )}
+
+      {!submission && !canSubmit && (
+        <p className="text-sm text-gray-400">The due date has passed and this assignment no longer accepts submissions.</p>
+      )}
+
+      {showForm && (
+        <div className="border border-gray-700 rounded-lg p-4 space-y-3">
+          <SubmittedFiles files={files} onRemove={(index) => setFiles(prev => prev.filter((_, i) => i !== index))} />
+          <label className={`inline-flex items-center px-4 py-2 border border-gray-600 rounded-lg text-sm text-gray-300 ${
+            busy ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer hover:bg-gray-700'
+          }`}>
+            {busy === 'upload' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+            Attach Files
+            <input
+              type="file"
+              multiple
+              accept=".pdf,.doc,.docx,.ppt,.pptx,.xls,.xlsx,.zip,.txt,image/*"
+              onChange={(e) => {
+                handleFiles(e.target.files);
+                e.target.value = '';
+              }}
+              disabled={busy !== null}
+              className="hidden"
+            />
+          </label>
+          <p className="text-xs text-gray-500">Up to {MAX_FILES} files, {MAX_FILE_MB} MB each (PDF, Office documents, images, ZIP)</p>
+          <textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder="Note for your grader (optional)"
+            rows={3}
+            className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:ring-2 focus:ring-red-500 focus:border-transparent"
+          />
+          <div className="flex gap-3">
+            <Button variant="primary" onClick={handleSubmit} disabled={busy !== null || files.length === 0} className="flex items-center">
+              {busy === 'submit' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Hand In
+            </Button>
+            {editing && (
+              <Button variant="outline" onClick={() => setEditing(false)} disabled={busy !== null}>
+                Cancel
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {assignment.peer_review_enabled && submission && (
+        <div className="border-t border-gray-700 pt-5 space-y-3">
+          <h3 className="text-white font-medium flex items-center">
+            <Users className="h-4 w-4 mr-2" />
+            Peer Review
+          </h3>
+          {!review ? (
+            <>
+              <p className="text-sm text-gray-400">
+                Review other learners&apos; work anonymously. Each submission needs {assignment.peer_reviews_required} reviews.
+              </p>
+              <Button variant="outline" size="sm" onClick={handleClaimReview} disabled={busy !== null} className="flex items-center">
+                {busy === 'review' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Review a Submission
+              </Button>
+            </>
+          ) : (
+            <div className="space-y-3">
+              <SubmittedFiles files={review.submission.files} />
+              {review.submission.text && <p className="text-gray-300 text-sm whitespace-pre-line">{review.submission.text}</p>}
+              {review.rubric.map(criterion => (
+                <div key={criterion.id} className="flex flex-wrap items-center justify-between gap-3">
+                  <div className="text-sm">
+                    <p className="text-white">{criterion.title}</p>
+                    {criterion.description && <p className="text-gray-400">{criterion.description}</p>}
+                  </div>
+                  <label className="flex items-center text-sm text-gray-300">
+                    <input
+                      type="number"
+                      min={0}
+                      max={criterion.max_points}
+                      value={reviewScores[criterion.id] ?? ''}
+                      onChange={(e) => setReviewScores(prev => ({ ...prev, [criterion.id]: Number(e.target.value) }))}
+                      className="w-20 px-2 py-1 bg-gray-700 border border-gray-600 rounded-lg text-white mr-2"
+                    />
+                    / {criterion.max_points}
+                  </label>
+                </div>
+              ))}
+              <textarea
+                value={reviewComment}
+                onChange={(e) => setReviewComment(e.target.value)}
+                placeholder="Constructive feedback for the author"
+                rows={3}
+                className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:ring-2 focus:ring-red-500 focus:border-transparent"
+              />
+              <Button
+                variant="primary"
+                size="sm"
+                onClick={handleSubmitReview}
+                disabled={busy !== null || review.rubric.some(criterion => reviewScores[criterion.id] === undefined)}
+                className="flex items-center"
+              >
+                {busy === 'review' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Submit Review
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LessonAssignment;
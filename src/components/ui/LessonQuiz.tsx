@@ -0,0 +1,232 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { CheckCircle, ClipboardCheck, Loader2, XCircle } from 'lucide-react';
+import Button from './Button';
+import { quizAPI } from '../../lib/api';
+import { useLevel } from '../../hooks/useLevel';
+import { Quiz, QuizAnswer, QuizResult, QuizSummary } from '../../types';
+
+interface LessonQuizProps {
+  courseId: string;
+  /** Leave out for the course's final quiz */
+  lessonId?: string;
+}
+
+/**
+ * The quiz after a lesson, or the final course quiz. Renders nothing when
+ * there is no quiz; answers are graded on the server and passing awards the
+ * quiz's XP.
+ */
+const LessonQuiz: React.FC<LessonQuizProps> = ({ courseId, lessonId }) => {
+  const { addXP } = useLevel();
+  const [quiz, setQuiz] = useState<Quiz | null>(null);
+  const [summary, setSummary] = useState<QuizSummary | null>(null);
+  const [attempt, setAttempt] = useState<{ id: string; quiz: Quiz } | null>(null);
+  const [answers, setAnswers] = useState<Record<string, QuizAnswer>>({});
+  const [result, setResult] = useState<QuizResult | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadQuiz = useCallback(async () => {
+    setError(null);
+    try {
+      const response = await quizAPI.getQuiz(courseId, lessonId);
+      setQuiz(response.data?.quiz || null);
+      setSummary(response.data?.summary || null);
+    } catch (err) {
+      console.error('Failed to load quiz:', err);
+      setQuiz(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [courseId, lessonId]);
+
+  useEffect(() => {
+    setAttempt(null);
+    setResult(null);
+    setAnswers({});
+    loadQuiz();
+  }, [loadQuiz]);
+
+  const handleStart = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await quizAPI.startAttempt(courseId, lessonId);
+      setAttempt({ id: response.data.attempt.id, quiz: response.data.quiz });
+      setAnswers({});
+      setResult(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start the quiz.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!attempt) return;
+
+    const unanswered = attempt.quiz.questions.filter(question => {
+      const answer = answers[question.id];
+      return Array.isArray(answer) ? answer.length === 0 : !answer || !String(answer).trim();
+    });
+    if (unanswered.length > 0 && !confirm(`${unanswered.length} question(s) are unanswered. Submit anyway?`)) return;
+
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await quizAPI.submitAttempt(courseId, attempt.id, answers);
+      setResult(response.data);
+      // The server awards quiz XP once, on the first pass
+      if (response.data.xp_awarded > 0) {
+        addXP(response.data.xp_awarded);
+      }
+      await loadQuiz();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to submit the quiz.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const toggleOption = (questionId: string, optionId: string) => {
+    setAnswers(prev => {
+      const current = Array.isArray(prev[questionId]) ? prev[questionId] as string[] : [];
+      return {
+        ...prev,
+        [questionId]: current.includes(optionId) ? current.filter(id => id !== optionId) : [...current, optionId]
+      };
+    });
+  };
+
+  if (loading || !quiz) return null;
+
+  const outOfAttempts = summary?.attempts_remaining === 0 && !summary.open_attempt_id;
+  const resultsById = new Map((result?.results || []).map(item => [item.question_id, item]));
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6 mb-6">
+      <div className="flex flex-wrap items-start justify-between gap-4 mb-4">
+        <div>
+          <h2 className="text-xl font-semibold text-white flex items-center">
+            <ClipboardCheck className="h-5 w-5 mr-2" />
+            {quiz.title}
+          </h2>
+          {quiz.description && <p className="text-gray-400 text-sm mt-1">{quiz.description}</p>}
+          <p className="text-gray-400 text-sm mt-1">
+            {quiz.question_count ?? quiz.questions.length} questions • Pass mark {quiz.pass_mark}%
+            {quiz.max_attempts > 0 && ` • ${quiz.max_attempts} attempts`}
+            {quiz.xp_points > 0 && ` • ${quiz.xp_points} XP`}
+            {quiz.required && ' • Required'}
+          </p>
+        </div>
+        {summary?.passed && (
+          <span className="flex items-center text-green-400 text-sm">
+            <CheckCircle className="h-4 w-4 mr-1" />
+            Passed{summary.best_score !== null && ` (${summary.best_score}%)`}
+          </span>
+        )}
+      </div>
+
+      {error && <p className="text-red-400 text-sm mb-4">{error}</p>}
+
+      {result && (
+        <div className={`p-4 rounded-lg mb-4 ${
+          result.passed
+            ? 'bg-green-600/20 border border-green-500/30 text-green-300'
+            : 'bg-red-600/20 border border-red-500/30 text-red-300'
+        }`}>
+          <p className="font-medium">
+            {result.passed ? 'You passed!' : 'Not quite.'} You scored {result.percentage}% ({result.score}/{result.max_score}); {result.pass_mark}% is needed to pass.
+          </p>
+          {result.xp_awarded > 0 && <p className="text-sm mt-1">+{result.xp_awarded} XP</p>}
+          {!result.passed && result.attempts_remaining !== null && (
+            <p className="text-sm mt-1">{result.attempts_remaining} attempt(s) left.</p>
+          )}
+        </div>
+      )}
+
+      {attempt && !result && (
+        <div className="space-y-6">
+          {attempt.quiz.questions.map((question, index) => (
+            <div key={question.id}>
+              <p className="text-white mb-3">
+                {index + 1}. {question.prompt}
+                <span className="text-gray-500 text-sm ml-2">({question.points} pt{question.points === 1 ? '' : 's'})</span>
+              </p>
+              {question.type === 'short_answer' ? (
+                <input
+                  type="text"
+                  value={(answers[question.id] as string) || ''}
+                  onChange={(e) => setAnswers(prev => ({ ...prev, [question.id]: e.target.value }))}
+                  className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                />
+              ) : (
+                <div className="space-y-2">
+                  {question.type === 'multi_select' && <p className="text-gray-400 text-xs">Select all that apply</p>}
+                  {question.options.map(option => (
+                    <label key={option.id} className="flex items-center text-gray-300 cursor-pointer">
+                      {question.type === 'multi_select' ? (
+                        <input
+                          type="checkbox"
+                          checked={Array.isArray(answers[question.id]) && (answers[question.id] as string[]).includes(option.id)}
+                          onChange={() => toggleOption(question.id, option.id)}
+                          className="mr-3"
+                        />
+                      ) : (
+                        <input
+                          type="radio"
+                          name={`answer_${question.id}`}
+                          checked={answers[question.id] === option.id}
+                          onChange={() => setAnswers(prev => ({ ...prev, [question.id]: option.id }))}
+                          className="mr-3"
+                        />
+                      )}
+                      {option.text}
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+          <Button variant="primary" onClick={handleSubmit} disabled={busy} className="flex items-center">
+            {busy && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Submit Answers
+          </Button>
+        </div>
+      )}
+
+      {result && attempt && (
+        <div className="space-y-3 mb-4">
+          {attempt.quiz.questions.map((question, index) => {
+            const graded = resultsById.get(question.id);
+            return (
+              <div key={question.id} className="flex items-start">
+                {graded?.correct
+                  ? <CheckCircle className="h-5 w-5 text-green-400 mr-3 flex-shrink-0" />
+                  : <XCircle className="h-5 w-5 text-red-400 mr-3 flex-shrink-0" />}
+                <div>
+                  <p className="text-gray-300">{index + 1}. {question.prompt}</p>
+                  {graded?.explanation && <p className="text-gray-400 text-sm mt-1">{graded.explanation}</p>}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {(!attempt || result) && (
+        outOfAttempts ? (
+          <p className="text-gray-400 text-sm">You have used all your attempts for this quiz.</p>
+        ) : (
+          <Button variant={summary?.passed ? 'outline' : 'primary'} onClick={handleStart} disabled={busy} className="flex items-center">
+            {busy && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {summary?.open_attempt_id ? 'Resume Quiz' : result || summary?.attempts_used ? 'Try Again' : 'Start Quiz'}
+          </Button>
+        )
+      )}
+    </div>
+  );
+};
+
+export default LessonQuiz;
@@ -0,0 +1,41 @@
+import React from 'react';
+import Link from 'next/link';
+import { Lock } from 'lucide-react';
+import { LessonLock } from '../../types';
+import { describeLessonLock } from '../../utils/contentLocks';
+
+interface LockedLessonPanelProps {
+  lock: LessonLock;
+  courseId: string;
+}
+
+/**
+ * Stands in for the video player while a lesson is locked, with links to
+ * whatever has to be finished first
+ */
+const LockedLessonPanel: React.FC<LockedLessonPanelProps> = ({ lock, courseId }) => {
+  const hrefFor = (id: string) => (lock.reason === 'prerequisites' ? `/course/${id}` : `/course/${courseId}/lesson/${id}`);
+
+  return (
+    <div className="flex flex-col items-center justify-center p-8 bg-gray-800 rounded-lg aspect-video text-center">
+      <Lock className="h-12 w-12 text-gray-400 mb-4" />
+      <h2 className="text-white text-xl font-bold mb-2">This lesson is locked</h2>
+      <p className="text-gray-300 mb-4">{describeLessonLock(lock)}</p>
+      {lock.requires.length > 0 && (
+        <div className="flex flex-wrap justify-center gap-2">
+          {lock.requires.map(item => (
+            <Link
+              key={item.id}
+              href={hrefFor(item.id)}
+              className="bg-red-600 text-white px-4 py-2 rounded-md hover:bg-red-700 transition-colors text-sm"
+            >
+              Go to {item.title}
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LockedLessonPanel;
@@ -0,0 +1,193 @@
+import React, { useEffect, useState } from 'react';
+import { Calendar, Trash2, Bell, AlertTriangle, CheckCircle, RefreshCw } from 'lucide-react';
+import Button from './Button';
+import { maintenanceAPI } from '../../lib/api';
+import { fromDateTimeLocalValue } from '../../lib/maintenance';
+import { MaintenanceWindow } from '../../types';
+
+const formatWindowTime = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+/**
+ * Schedule maintenance windows ahead of time. Learners see the maintenance page
+ * while a window is running; announcing a window notifies every user in-app.
+ */
+const MaintenanceScheduler: React.FC = () => {
+  const [windows, setWindows] = useState<MaintenanceWindow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState({ start: '', end: '', message: '', announce: true });
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const loadWindows = async () => {
+    try {
+      const response = await maintenanceAPI.getStatus();
+      setWindows(response.data.windows || []);
+    } catch (error) {
+      console.error('Failed to load maintenance windows:', error);
+      setMessage({ type: 'error', text: 'Failed to load maintenance windows' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadWindows();
+  }, []);
+
+  const handleSchedule = async () => {
+    if (!form.start || !form.end) {
+      setMessage({ type: 'error', text: 'Choose a start and end time' });
+      return;
+    }
+
+    setSaving(true);
+    setMessage(null);
+    try {
+      const response = await maintenanceAPI.scheduleWindow({
+        start: fromDateTimeLocalValue(form.start) as string,
+        end: fromDateTimeLocalValue(form.end) as string,
+        message: form.message,
+        announce: form.announce
+      });
+      setMessage({ type: 'success', text: response.message || 'Maintenance scheduled' });
+      setForm({ start: '', end: '', message: '', announce: true });
+      await loadWindows();
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to schedule maintenance' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCancel = async (windowId: string) => {
+    if (!confirm('Cancel this maintenance window? Users who were notified will be told it is off.')) {
+      return;
+    }
+
+    try {
+      await maintenanceAPI.cancelWindow(windowId);
+      setWindows(prev => prev.filter(window => window.id !== windowId));
+      setMessage({ type: 'success', text: 'Maintenance window cancelled' });
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to cancel maintenance' });
+    }
+  };
+
+  const now = Date.now();
+  const activeWindows = windows
+    .filter(window => new Date(window.end).getTime() > now)
+    .sort((a, b) => new Date(a.start).getTime() - new Date(b.start).getTime());
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6">
+      <h2 className="text-xl font-semibold mb-2 flex items-center">
+        <Calendar className="h-5 w-5 mr-2" />
+        Scheduled Maintenance
+      </h2>
+      <p className="text-sm text-gray-400 mb-6">
+        Learners see the maintenance page while a window is running and API calls return 503.
+        Super Admins and addresses on the IP allowlist keep full access.
+      </p>
+
+      {message && (
+        <div className={`mb-6 p-4 rounded-lg flex items-center ${
+          message.type === 'success'
+            ? 'bg-green-600/20 border border-green-500/30 text-green-300'
+            : 'bg-red-600/20 border border-red-500/30 text-red-300'
+        }`}>
+          {message.type === 'success'
+            ? <CheckCircle className="h-5 w-5 mr-2" />
+            : <AlertTriangle className="h-5 w-5 mr-2" />}
+          <span>{message.text}</span>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">Starts</label>
+          <input
+            type="datetime-local"
+            value={form.start}
+            onChange={(e) => setForm(prev => ({ ...prev, start: e.target.value }))}
+            className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:ring-2 focus:ring-red-500 focus:border-transparent"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">Ends</label>
+          <input
+            type="datetime-local"
+            value={form.end}
+            onChange={(e) => setForm(prev => ({ ...prev, end: e.target.value }))}
+            className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:ring-2 focus:ring-red-500 focus:border-transparent"
+          />
+        </div>
+        <div className="md:col-span-2">
+          <label className="block text-sm font-medium text-gray-300 mb-2">Message for learners (optional)</label>
+          <input
+            type="text"
+            value={form.message}
+            onChange={(e) => setForm(prev => ({ ...prev, message: e.target.value }))}
+            placeholder="We are upgrading our video platform."
+            className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:ring-2 focus:ring-red-500 focus:border-transparent"
+          />
+        </div>
+        <div className="flex items-center">
+          <input
+            type="checkbox"
+            checked={form.announce}
+            onChange={(e) => setForm(prev => ({ ...prev, announce: e.target.checked }))}
+            className="h-4 w-4 text-red-600 focus:ring-red-500 border-gray-300 rounded"
+          />
+          <label className="ml-2 text-sm text-gray-300">
+            Notify all users now
+          </label>
+        </div>
+        <div className="flex justify-end">
+          <Button variant="primary" onClick={handleSchedule} disabled={saving} className="flex items-center">
+            {saving ? <RefreshCw className="h-4 w-4 mr-2 animate-spin" /> : <Calendar className="h-4 w-4 mr-2" />}
+            Schedule Maintenance
+          </Button>
+        </div>
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-gray-400">Loading maintenance windows...</p>
+      ) : activeWindows.length === 0 ? (
+        <p className="text-sm text-gray-400">No maintenance scheduled.</p>
+      ) : (
+        <div className="space-y-3">
+          {activeWindows.map(window => {
+            const running = new Date(window.start).getTime() <= now;
+            return (
+              <div key={window.id} className="flex items-center justify-between p-4 bg-gray-700/50 rounded-lg">
+                <div>
+                  <div className="flex items-center space-x-2">
+                    <span className="text-white font-medium">
+                      {formatWindowTime(window.start)} – {formatWindowTime(window.end)}
+                    </span>
+                    {running && (
+                      <span className="px-2 py-0.5 text-xs rounded-full bg-yellow-500/20 text-yellow-400">In progress</span>
+                    )}
+                  </div>
+                  {window.message && <p className="text-sm text-gray-400 mt-1">{window.message}</p>}
+                  <p className="text-xs text-gray-500 mt-1 flex items-center">
+                    {window.announced_at && <Bell className="h-3 w-3 mr-1" />}
+                    {window.announced_at ? 'Announced' : 'Not announced'}
+                    {window.created_by ? ` · scheduled by ${window.created_by}` : ''}
+                  </p>
+                </div>
+                <Button variant="outline" size="sm" onClick={() => handleCancel(window.id)} className="flex items-center">
+                  <Trash2 className="h-4 w-4 mr-1" />
+                  Cancel
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MaintenanceScheduler;
@@ -0,0 +1,92 @@
+import React, { useEffect, useState } from 'react';
+import { Building2, CheckCircle, Loader2 } from 'lucide-react';
+import Button from './Button';
+import { authService, SsoProvider } from '../../lib/authService';
+
+const LINK_ERRORS: Record<string, string> = {
+  identity_mismatch: 'That identity belongs to a different email address than this account.',
+  domain_not_allowed: 'Your email domain is not allowed to use this sign-in option.',
+  email_unverified: 'Your organisation did not confirm your email address.',
+  access_denied: 'Linking was cancelled at your organisation\'s login page.',
+  impersonating: 'Sign-in options cannot be linked while viewing as another user.'
+};
+
+/**
+ * Single sign-on providers the signed-in user can link to their account.
+ * Accounts above a provider's default role, or with two-factor on, are only
+ * linked from here. Shown in the profile's Security tab.
+ */
+const SsoAccountLinks: React.FC = () => {
+  const [providers, setProviders] = useState<SsoProvider[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    authService.getSsoProviders()
+      .then(setProviders)
+      .catch(err => console.error('Failed to load sign-in options:', err))
+      .finally(() => setLoading(false));
+
+    // The link flow comes back here with its outcome in the query string
+    const params = new URLSearchParams(window.location.search);
+    const linked = params.get('sso_linked');
+    const error = params.get('sso_error');
+    if (linked || error) {
+      setMessage(linked
+        ? { type: 'success', text: 'Sign-in option linked.' }
+        : { type: 'error', text: LINK_ERRORS[error as string] || 'Linking failed. Please try again.' });
+      window.history.replaceState(null, '', window.location.pathname);
+    }
+  }, []);
+
+  if (!loading && providers.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6">
+      <div className="mb-6">
+        <h2 className="text-xl font-semibold text-white mb-2">Sign-in Options</h2>
+        <p className="text-gray-400 text-sm">
+          Link your organisation&apos;s login to sign in without your password.
+        </p>
+      </div>
+
+      {message && (
+        <div className={`mb-4 p-3 rounded-lg text-sm ${message.type === 'success' ? 'bg-green-900/30 text-green-300' : 'bg-red-900/30 text-red-300'}`}>
+          {message.text}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center text-gray-400">
+          <Loader2 className="h-5 w-5 animate-spin mr-2" />
+          Loading sign-in options...
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {providers.map(provider => (
+            <div key={provider.id} className="flex items-center justify-between p-4 rounded-lg bg-gray-700">
+              <div className="flex items-center">
+                <Building2 className="h-5 w-5 text-gray-400 mr-3" />
+                <span className="text-white">{provider.name}</span>
+              </div>
+              {provider.linked ? (
+                <span className="flex items-center text-sm text-green-400">
+                  <CheckCircle className="h-4 w-4 mr-1" />
+                  Linked
+                </span>
+              ) : (
+                <Button variant="outline" size="sm" onClick={() => authService.linkSsoAccount(provider.id)}>
+                  Link
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SsoAccountLinks;
@@ -0,0 +1,196 @@
+import React from 'react';
+import { KeyRound, Plus, Trash2 } from 'lucide-react';
+import Button from './Button';
+import { usePermissions } from '../../contexts/PermissionContext';
+import { SsoProviderConfig } from '../../types';
+import { getRoleDisplayName } from '../../utils/permissions';
+
+interface SsoProviderSettingsProps {
+  providers: SsoProviderConfig[];
+  onChange: (providers: SsoProviderConfig[]) => void;
+}
+
+const inputClassName = 'w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:ring-2 focus:ring-red-500 focus:border-transparent';
+
+const splitList = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+
+const emptyProvider = (): SsoProviderConfig => ({
+  id: '',
+  name: '',
+  enabled: true,
+  issuer: '',
+  clientId: '',
+  clientSecretEnv: '',
+  scopes: ['openid', 'email', 'profile'],
+  allowedDomains: [],
+  autoProvision: true,
+  defaultRole: 'user'
+});
+
+/**
+ * OpenID Connect providers offered as "Continue with ..." on the login page.
+ * Saved with the rest of the system configuration; client secrets stay in the
+ * server environment and are referenced here by variable name only.
+ */
+const SsoProviderSettings: React.FC<SsoProviderSettingsProps> = ({ providers, onChange }) => {
+  const { roles } = usePermissions();
+  const roleOptions = roles.filter(role => role.name !== 'Super Admin').map(role => role.name);
+
+  const updateProvider = (index: number, updates: Partial<SsoProviderConfig>) => {
+    onChange(providers.map((provider, i) => (i === index ? { ...provider, ...updates } : provider)));
+  };
+
+  const callbackUrl = (id: string) =>
+    `${typeof window !== 'undefined' ? window.location.origin : ''}/api/auth/sso/${id || '<id>'}/callback`;
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-xl font-semibold flex items-center">
+          <KeyRound className="h-5 w-5 mr-2" />
+          Single Sign-On (OpenID Connect)
+        </h2>
+        <Button
+          variant="outline"
+          onClick={() => onChange([...providers, emptyProvider()])}
+          className="flex items-center"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Provider
+        </Button>
+      </div>
+
+      {providers.length === 0 ? (
+        <p className="text-gray-400 text-sm">
+          No identity providers configured. Users sign in with email and password only.
+        </p>
+      ) : (
+        <div className="space-y-6">
+          {providers.map((provider, index) => (
+            <div key={index} className="border border-gray-700 rounded-lg p-4 space-y-4">
+              <div className="flex items-center justify-between">
+                <label className="flex items-center text-sm text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={provider.enabled}
+                    onChange={(e) => updateProvider(index, { enabled: e.target.checked })}
+                    className="h-4 w-4 text-red-600 focus:ring-red-500 border-gray-300 rounded mr-2"
+                  />
+                  Enabled
+                </label>
+                <button
+                  onClick={() => onChange(providers.filter((_, i) => i !== index))}
+                  className="text-gray-400 hover:text-red-400"
+                  title="Remove provider"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Provider ID</label>
+                  <input
+                    type="text"
+                    value={provider.id}
+                    onChange={(e) => updateProvider(index, { id: e.target.value.toLowerCase() })}
+                    placeholder="acme"
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Button Label</label>
+                  <input
+                    type="text"
+                    value={provider.name}
+                    onChange={(e) => updateProvider(index, { name: e.target.value })}
+                    placeholder="Acme Corp"
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Issuer URL</label>
+                  <input
+                    type="url"
+                    value={provider.issuer}
+                    onChange={(e) => updateProvider(index, { issuer: e.target.value })}
+                    placeholder="https://login.example.com"
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Client ID</label>
+                  <input
+                    type="text"
+                    value={provider.clientId}
+                    onChange={(e) => updateProvider(index, { clientId: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Client Secret Variable</label>
+                  <input
+                    type="text"
+                    value={provider.clientSecretEnv || ''}
+                    onChange={(e) => updateProvider(index, { clientSecretEnv: e.target.value.toUpperCase() })}
+                    placeholder="OIDC_ACME_SECRET (empty for PKCE-only clients)"
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Scopes</label>
+                  <input
+                    type="text"
+                    value={provider.scopes.join(', ')}
+                    onChange={(e) => updateProvider(index, { scopes: splitList(e.target.value) })}
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Allowed Email Domains</label>
+                  <input
+                    type="text"
+                    value={provider.allowedDomains.join(', ')}
+                    onChange={(e) => updateProvider(index, { allowedDomains: splitList(e.target.value) })}
+                    placeholder="Required, e.g. example.com"
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Role for New Users</label>
+                  <div className="flex items-center space-x-4">
+                    <select
+                      value={provider.defaultRole}
+                      onChange={(e) => updateProvider(index, { defaultRole: e.target.value })}
+                      disabled={!provider.autoProvision}
+                      className={inputClassName}
+                    >
+                      {(roleOptions.length > 0 ? roleOptions : ['user']).map(role => (
+                        <option key={role} value={role}>{getRoleDisplayName(role)}</option>
+                      ))}
+                    </select>
+                    <label className="flex items-center text-sm text-gray-300 whitespace-nowrap">
+                      <input
+                        type="checkbox"
+                        checked={provider.autoProvision}
+                        onChange={(e) => updateProvider(index, { autoProvision: e.target.checked })}
+                        className="h-4 w-4 text-red-600 focus:ring-red-500 border-gray-300 rounded mr-2"
+                      />
+                      Create on first sign-in
+                    </label>
+                  </div>
+                </div>
+              </div>
+
+              <p className="text-xs text-gray-400">
+                Redirect URI to register with the provider: <span className="font-mono text-gray-300">{callbackUrl(provider.id)}</span>
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SsoProviderSettings;
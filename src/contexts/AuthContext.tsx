@@ -1,6 +1,6 @@
 import React, { createContext, useContext, useEffect, useState, useCallback, useRef } from 'react';
 import { useRouter } from 'next/router';
-import { authService, AuthUser, LoginCredentials, RegisterData, AuthError } from '../lib/authService';
+import { authService, AuthUser, AuthResponse, LoginCredentials, RegisterData, AuthError, MfaChallenge, isMfaChallenge } from '../lib/authService';
 import { standardizeRole } from '../lib/roleStandardization';
 
 interface AuthContextType {
@@ -11,11 +11,14 @@ interface AuthContextType {
   isAdmin: boolean;
   isSuperAdmin: boolean;
   error: string | null;
-  signIn: (credentials: LoginCredentials) => Promise<void>;
+  signIn: (credentials: LoginCredentials) => Promise<MfaChallenge | null>;
+  completeSignIn: (response: AuthResponse) => Promise<void>;
   signUp: (data: RegisterData) => Promise<void>;
   signOut: () => Promise<void>;
   updateProfile: (profileData: Partial<AuthUser>) => Promise<AuthUser>;
   refreshToken: () => Promise<void>;
+  startImpersonation: (userId: string, reason: string, durationMinutes: number) => Promise<void>;
+  endImpersonation: () => Promise<void>;
   clearError: () => void;
   checkAuthStatus: () => void;
 }
@@ -131,9 +134,9 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     };
   }, [isClient, initializeUserFromToken]);
 
-  // Auto-refresh token before expiry
+  // Auto-refresh token before expiry (impersonation tokens are never refreshed)
   useEffect(() => {
-    if (!isClient || loading || !user) return;
+    if (!isClient || loading || !user || user.impersonator) return;
 
     let tokenRefreshInterval: NodeJS.Timeout | null = null;
 
@@ -194,7 +197,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     // If no user and not already redirecting
     if (!user && !isRedirectingRef.current) {
       const currentPath = router.pathname;
-      const publicPaths = ['/', '/login', '/register', '/forgot-password', '/reset-password'];
+      const publicPaths = ['/', '/login', '/register', '/forgot-password', '/reset-password', '/invite'];
       const isPublicPath = publicPaths.some(path => currentPath === path || currentPath.startsWith(path));
 
       if (!isPublicPath) {
@@ -222,7 +225,32 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     };
   }, [user, loading, isClient, router]);
 
-  const signIn = async (credentials: LoginCredentials): Promise<void> => {
+  // Shared by the password step and the second-factor step of sign-in
+  const completeSignIn = async (response: AuthResponse): Promise<void> => {
+    // Use user data from response instead of decoding token
+    // The response contains the decoded user object from the server
+    if (!response.user) {
+      throw new AuthError('LOGIN_FAILED', 'No user data in login response');
+    }
+
+    setUser(response.user);
+    setError(null);
+    console.log('✅ User signed in:', response.user.email);
+
+    // Sync role from Firebase Auth to Firestore (non-blocking)
+    authService.syncRole().catch(err => {
+      console.warn('⚠️ Failed to sync role during login:', err);
+    });
+
+    // Set redirect flag to prevent interference
+    isRedirectingRef.current = true;
+    await router.replace('/home');
+    setTimeout(() => {
+      isRedirectingRef.current = false;
+    }, 500);
+  };
+
+  const signIn = async (credentials: LoginCredentials): Promise<MfaChallenge | null> => {
     try {
       setLoading(true);
       setError(null);
@@ -230,26 +258,13 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
       const response = await authService.login(credentials);
 
-      // Use user data from response instead of decoding token
-      // The response contains the decoded user object from the server
-      if (response.user) {
-        setUser(response.user);
-        console.log('✅ User signed in:', response.user.email);
-
-        // Sync role from Firebase Auth to Firestore (non-blocking)
-        authService.syncRole().catch(err => {
-          console.warn('⚠️ Failed to sync role during login:', err);
-        });
-
-        // Set redirect flag to prevent interference
-        isRedirectingRef.current = true;
-        await router.replace('/home');
-        setTimeout(() => {
-          isRedirectingRef.current = false;
-        }, 500);
-      } else {
-        throw new AuthError('LOGIN_FAILED', 'No user data in login response');
+      // The caller collects the second factor and finishes with completeSignIn
+      if (isMfaChallenge(response)) {
+        return response;
       }
+
+      await completeSignIn(response);
+      return null;
     } catch (error) {
       console.error('❌ Sign in error:', error);
 
@@ -365,6 +380,27 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   }, []);
 
+  // Read-only "view as user" for support staff; the banner in Layout ends it
+  const startImpersonation = async (userId: string, reason: string, durationMinutes: number) => {
+    await authService.startImpersonation(userId, reason, durationMinutes);
+    setUser(authService.getUserFromToken());
+    setError(null);
+    await router.push('/home');
+  };
+
+  const endImpersonation = useCallback(async () => {
+    try {
+      const response = await authService.endImpersonation();
+      setUser(response.user);
+      setError(null);
+      await router.push('/admin/manage-users');
+    } catch (error) {
+      console.error('❌ Could not return to your own session:', error);
+      setUser(null);
+      setError('Session expired. Please log in again.');
+    }
+  }, [router]);
+
   const updateProfile = async (profileData: Partial<AuthUser>) => {
     try {
       setError(null);
@@ -405,10 +441,13 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     isSuperAdmin: user ? standardizeRole(user.role) === 'Super Admin' : false,
     error,
     signIn,
+    completeSignIn,
     signUp,
     signOut,
     updateProfile,
     refreshToken,
+    startImpersonation,
+    endImpersonation,
     clearError,
     checkAuthStatus: initializeUserFromToken
   };
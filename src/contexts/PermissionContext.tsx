@@ -1,12 +1,20 @@
-import React, { createContext, useContext, useEffect, useState } from 'react';
-import { Permission, UserRole, ROLE_PERMISSIONS } from '../types';
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { Permission, PermissionOverrides, PermissionSource, RoleDefinition, UserRole, ROLE_PERMISSIONS, resolveEffectivePermissions } from '../types';
 import { hasPermission as checkPermission, hasAnyPermission, hasAllPermissions } from '../types';
 import { useAuth } from './AuthContext';
 import { standardizeRole } from '../lib/roleStandardization';
+import { rolesAPI } from '../lib/api';
 
 interface PermissionContextType {
   userRole: UserRole;
   permissions: Permission[];
+  /** Where each effective permission came from: the role or a per-user grant */
+  permissionSources: Partial<Record<Permission, PermissionSource>>;
+  /** Role permissions removed from this user by a deny override */
+  deniedPermissions: Permission[];
+  /** Stored role definitions (built-in and custom), empty until loaded */
+  roles: RoleDefinition[];
+  refreshRoles: () => Promise<void>;
   hasPermission: (permission: Permission) => boolean;
   hasAnyPermission: (permissions: Permission[]) => boolean;
   hasAllPermissions: (permissions: Permission[]) => boolean;
@@ -27,6 +35,27 @@ export const PermissionProvider: React.FC<{ children: React.ReactNode }> = ({ ch
   const { user } = useAuth();
   const [userRole, setUserRole] = useState<UserRole>('user');
   const [permissions, setPermissions] = useState<Permission[]>(ROLE_PERMISSIONS.user);
+  const [permissionSources, setPermissionSources] = useState<Partial<Record<Permission, PermissionSource>>>({});
+  const [deniedPermissions, setDeniedPermissions] = useState<Permission[]>([]);
+  const [roles, setRoles] = useState<RoleDefinition[]>([]);
+
+  const refreshRoles = useCallback(async () => {
+    try {
+      const response = await rolesAPI.getRoles();
+      setRoles(response.data);
+    } catch (error) {
+      console.error('❌ PermissionContext: Failed to load role definitions:', error);
+    }
+  }, []);
+
+  // Role definitions are data; load them once someone is signed in
+  useEffect(() => {
+    if (user?.id) {
+      refreshRoles();
+    } else {
+      setRoles([]);
+    }
+  }, [user?.id, refreshRoles]);
 
   useEffect(() => {
     // Standardize role to ensure it's in the exact JWT format
@@ -41,17 +70,23 @@ export const PermissionProvider: React.FC<{ children: React.ReactNode }> = ({ ch
 
     setUserRole(standardized);
 
-    // Always derive permissions from the standardized role
-    // Never rely on the permissions array from the JWT
-    const rolePermissions = ROLE_PERMISSIONS[standardized];
-    if (!rolePermissions) {
+    // Always derive permissions from the stored role definition plus the user's overrides,
+    // the same merge the server applies. Never rely on a permissions array from the JWT.
+    // Until the definitions load, built-in roles use the compiled-in matrix
+    const definition = roles.find(role => role.name === standardized);
+    if (!definition && !ROLE_PERMISSIONS[standardized]) {
       console.warn(`⚠️ PermissionContext: No permissions found for role "${standardized}", defaulting to user permissions`);
-      setPermissions(ROLE_PERMISSIONS.user);
-    } else {
-      console.log(`✅ PermissionContext: Permissions loaded for role "${standardized}"`, rolePermissions);
-      setPermissions(rolePermissions);
     }
-  }, [user]);
+    const effective = resolveEffectivePermissions(
+      standardized,
+      user?.permission_overrides as Partial<PermissionOverrides> | undefined,
+      definition?.permissions
+    );
+    console.log(`✅ PermissionContext: Permissions loaded for role "${standardized}"`, effective.permissions);
+    setPermissions(effective.permissions);
+    setPermissionSources(effective.sources);
+    setDeniedPermissions(effective.denied);
+  }, [user, roles]);
 
   const hasPermission = (permission: Permission): boolean => {
     if (userRole === 'Super Admin') return true;
@@ -79,6 +114,10 @@ export const PermissionProvider: React.FC<{ children: React.ReactNode }> = ({ ch
     <PermissionContext.Provider value={{
       userRole,
       permissions,
+      permissionSources,
+      deniedPermissions,
+      roles,
+      refreshRoles,
       hasPermission,
       hasAnyPermission: hasAnyPermissionCheck,
       hasAllPermissions: hasAllPermissionsCheck,
@@ -142,7 +142,10 @@ export const useCourses = () => {
           featured: course.featured || false,
           totalXP: course.total_xp || 1000,
           comingSoon: course.coming_soon === 1 || course.coming_soon === true,
-          releaseDate: course.release_date
+          releaseDate: course.release_date,
+          prerequisite_course_ids: course.prerequisite_course_ids,
+          sequential_lessons: course.sequential_lessons,
+          access: course.access
         };
 
         console.log('✅ useDatabase: Course transformed:', {
@@ -278,7 +281,10 @@ export const useCourses = () => {
           featured: course.featured || false,
           totalXP: course.total_xp || 1000,
           comingSoon: course.coming_soon === 1 || course.coming_soon === true,
-          releaseDate: course.release_date
+          releaseDate: course.release_date,
+          prerequisite_course_ids: course.prerequisite_course_ids,
+          sequential_lessons: course.sequential_lessons,
+          access: course.access
         };
       });
 
@@ -323,9 +329,7 @@ export const useAuditLogs = () => {
       const data = await auditLogsAPI.getAuditLogs(filters);
       console.log('📋 Audit logs received:', data);
 
-      // Handle both array and object responses
-      const logsArray = Array.isArray(data) ? data : (data.logs || data.data || []);
-      setLogs(logsArray);
+      setLogs(data);
     } catch (err) {
       console.error('Failed to fetch audit logs:', err);
       setError('Failed to load audit logs. Please check your authentication and try again.');
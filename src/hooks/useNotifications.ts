@@ -1,5 +1,7 @@
 import { useState, useEffect } from 'react';
 import { Notification } from '../components/ui/NotificationsDropdown';
+import { useAuth } from '../contexts/AuthContext';
+import { FirestoreService } from '../lib/firestoreService';
 
 // Safe localStorage access for SSR and security-restricted contexts
 const getLocalStorage = (key: string) => {
@@ -27,8 +29,14 @@ const setLocalStorage = (key: string, value: string) => {
   }
 };
 
+// Server notifications (e.g. maintenance announcements) use a wider set of types than the dropdown
+const toDropdownType = (type: string): Notification['type'] =>
+  type === 'success' || type === 'warning' ? type : type === 'error' ? 'warning' : 'info';
+
 export const useNotifications = () => {
+  const { user } = useAuth();
   const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [serverNotifications, setServerNotifications] = useState<Notification[]>([]);
 
   // Initialize notifications from localStorage on client side only
   useEffect(() => {
@@ -47,6 +55,29 @@ export const useNotifications = () => {
     }
   }, []);
 
+  // Load notifications stored for this user on the server
+  useEffect(() => {
+    if (!user?.id) {
+      setServerNotifications([]);
+      return;
+    }
+
+    FirestoreService.getUserNotifications(user.id)
+      .then(items => {
+        setServerNotifications(items.map(item => ({
+          id: item.id,
+          title: item.title,
+          message: item.message,
+          timestamp: new Date(item.created_at),
+          read: Boolean(item.read),
+          type: toDropdownType(item.type)
+        })));
+      })
+      .catch(error => {
+        console.warn('Could not load server notifications:', error);
+      });
+  }, [user?.id]);
+
   useEffect(() => {
     if (notifications.length > 0) {
       setLocalStorage('notifications', JSON.stringify(notifications));
@@ -64,6 +95,18 @@ export const useNotifications = () => {
   };
 
   const markAsRead = (id: string) => {
+    if (user?.id && serverNotifications.some(notification => notification.id === id && !notification.read)) {
+      setServerNotifications(prev =>
+        prev.map(notification =>
+          notification.id === id ? { ...notification, read: true } : notification
+        )
+      );
+      FirestoreService.markNotificationAsRead(user.id, id).catch(error => {
+        console.warn('Could not mark server notification as read:', error);
+      });
+      return;
+    }
+
     setNotifications(prev =>
       prev.map(notification =>
         notification.id === id ? { ...notification, read: true } : notification
@@ -72,15 +115,31 @@ export const useNotifications = () => {
   };
 
   const markAllAsRead = () => {
+    if (user?.id) {
+      serverNotifications
+        .filter(notification => !notification.read)
+        .forEach(notification => {
+          FirestoreService.markNotificationAsRead(user.id, notification.id).catch(error => {
+            console.warn('Could not mark server notification as read:', error);
+          });
+        });
+    }
+
+    setServerNotifications(prev =>
+      prev.map(notification => ({ ...notification, read: true }))
+    );
     setNotifications(prev =>
       prev.map(notification => ({ ...notification, read: true }))
     );
   };
 
-  const unreadCount = notifications.filter(n => !n.read).length;
+  const allNotifications = [...serverNotifications, ...notifications]
+    .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+
+  const unreadCount = allNotifications.filter(n => !n.read).length;
 
   return {
-    notifications,
+    notifications: allNotifications,
     addNotification,
     markAsRead,
     markAllAsRead,
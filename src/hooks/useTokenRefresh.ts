@@ -2,7 +2,7 @@
 // Provides token refresh functionality and status monitoring
 
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { authService } from '../lib/auth';
+import { authService } from '../lib/authService';
 import { setupAutomaticRefresh, checkTokenStatus } from '../lib/authInterceptor';
 
 export interface TokenStatus {
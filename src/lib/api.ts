@@ -2,7 +2,7 @@
 // This service handles all HTTP requests to your backend server
 
 import { API_BASE_URL } from './mysql';
-import { Course, Category, Instructor, User, UserProgress, Certificate, Achievement } from '../types';
+import { Course, Category, Instructor, User, UserProgress, Certificate, Achievement, Permission, PermissionOverrides, AccountDeletionRequest, DeviceSession, UserInvitation, Workflow, WorkflowAction, WorkflowHistory, WorkflowStatus, CourseDiff, CourseDraft, CourseSnapshot, CourseVersion, ContentSchedule, ScheduleEvent, ScheduleExpireAction, Quiz, QuizAnswer, QuizResult, QuizSummary, Assignment, AssignmentFile, AssignmentSubmission, PeerReviewTask, GradingQueueItem, GradingDetail, LearningPath, LearningPathDetail, LearningPathEntry, LearningPathUpNext } from '../types';
 import { authService } from './authService';
 import {
   getAllInstructorsFromFirestore,
@@ -15,7 +15,7 @@ import {
 // Generic API request function with authentication
 export const apiRequest = async (endpoint: string, options: RequestInit = {}) => {
   try {
-    const token = typeof window !== 'undefined' ? localStorage.getItem('forward_africa_token') : null;
+    const token = typeof window !== 'undefined' ? authService.getToken() : null;
 
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
@@ -106,6 +106,37 @@ export const userAPI = {
     apiRequest(`/users/${userId}`, {
       method: 'DELETE',
     }),
+
+  // Role, grant/deny overrides and effective permissions with their source
+  getPermissions: (userId: string) =>
+    apiRequest(`/users/${userId}/permissions`),
+
+  // Replace a user's permission overrides
+  updatePermissionOverrides: (userId: string, overrides: PermissionOverrides) =>
+    apiRequest(`/users/${userId}/permissions`, {
+      method: 'PUT',
+      body: JSON.stringify(overrides),
+    }),
+
+  // Everything stored about the user, as JSON
+  exportData: (userId: string) => apiRequest(`/users/${userId}/export`),
+
+  // Pending or past deletion request, with the grace period in days
+  getDeletionStatus: (userId: string): Promise<{ data: AccountDeletionRequest | null; grace_period_days: number }> =>
+    apiRequest(`/users/${userId}/deletion`),
+
+  // Request deletion; the account is removed when the grace period ends
+  scheduleDeletion: (userId: string, reason = ''): Promise<{ data: AccountDeletionRequest }> =>
+    apiRequest(`/users/${userId}/deletion`, {
+      method: 'POST',
+      body: JSON.stringify({ reason }),
+    }),
+
+  // Withdraw a pending deletion request
+  cancelDeletion: (userId: string): Promise<{ data: AccountDeletionRequest }> =>
+    apiRequest(`/users/${userId}/deletion`, {
+      method: 'DELETE',
+    }),
 };
 
 // Course API
@@ -360,67 +391,50 @@ export const analyticsAPI = {
 };
 
 // Audit Logs API
-export const auditLogsAPI = {
-  // Get all audit logs with optional filtering
-  getAuditLogs: async (filters?: {
-    action?: string;
-    resource_type?: string;
-    user_id?: string;
-    start_date?: string;
-    end_date?: string;
-    limit?: number;
-  }) => {
-    const params = new URLSearchParams();
-    if (filters) {
-      Object.entries(filters).forEach(([key, value]) => {
-        if (value !== undefined) {
-          // Map frontend parameter names to backend parameter names
-          if (key === 'user_id') {
-            params.append('userId', value.toString());
-          } else if (key === 'limit') {
-            params.append('limit', value.toString());
-          } else {
-            params.append(key, value.toString());
-          }
-        }
-      });
+// Filters understood by /api/audit-logs and /api/audit-logs/export
+export interface AuditLogFilters {
+  action?: string;
+  resource_type?: string;
+  user_id?: string;
+  start_date?: string;
+  end_date?: string;
+}
+
+const auditLogParams = (filters?: AuditLogFilters & { limit?: number; cursor?: string; format?: string }) => {
+  const params = new URLSearchParams();
+  Object.entries(filters || {}).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') {
+      params.append(key, value.toString());
     }
+  });
+  return params.toString();
+};
 
-    try {
-      const token = authService.getToken();
-      const response = await fetch(`${API_BASE_URL}/audit-logs?${params.toString()}`, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`
-        }
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      const data = await response.json();
-      console.log('📋 Audit logs API response:', data);
-
-      // Handle the secureRoutes response format which includes logs and pagination
-      if (data.logs && Array.isArray(data.logs)) {
-        return data.logs;
-      }
-
-      // Handle direct array response (fallback)
-      if (Array.isArray(data)) {
-        return data;
-      }
+export const auditLogsAPI = {
+  // Get one page of audit logs, newest first; pass the returned nextCursor to get the next page
+  getAuditLogPage: async (filters?: AuditLogFilters & { limit?: number; cursor?: string }): Promise<{
+    logs: any[];
+    nextCursor: string | null;
+  }> => {
+    const data = await apiRequest(`/audit-logs?${auditLogParams(filters)}`);
+    return { logs: data.data || [], nextCursor: data.nextCursor || null };
+  },
 
-      // Handle other response formats
-      return data.logs || data.data || [];
+  // Get the first page of audit logs with optional filtering
+  getAuditLogs: async (filters?: AuditLogFilters & { limit?: number }) => {
+    try {
+      const { logs } = await auditLogsAPI.getAuditLogPage(filters);
+      return logs;
     } catch (error) {
       console.error('📋 Audit logs API error:', error);
       throw error;
     }
   },
 
+  // URL of the streamed export; open it directly so the browser downloads without buffering
+  getExportUrl: (filters?: AuditLogFilters, format: 'csv' | 'ndjson' = 'csv') =>
+    `/api/audit-logs/export?${auditLogParams({ ...filters, format })}`,
+
   // Create audit log
   createAuditLog: async (auditData: {
     action: string;
@@ -451,6 +465,375 @@ export const auditLogsAPI = {
   },
 };
 
+// Security API
+export const securityAPI = {
+  // Get active sessions, optionally for a single user
+  getActiveSessions: (userId?: string) =>
+    apiRequest(`/security/sessions${userId ? `?user_id=${encodeURIComponent(userId)}` : ''}`),
+
+  // Terminate (revoke) a session
+  terminateSession: (sessionId: string) =>
+    apiRequest(`/security/sessions?sessionId=${encodeURIComponent(sessionId)}`, {
+      method: 'DELETE',
+    }),
+
+  // The current user's own signed-in devices
+  getMySessions: (): Promise<{ data: DeviceSession[] }> => apiRequest('/auth/sessions'),
+
+  // Sign one of the current user's devices out
+  signOutDevice: (sessionId: string) =>
+    apiRequest(`/auth/sessions?sessionId=${encodeURIComponent(sessionId)}`, {
+      method: 'DELETE',
+    }),
+
+  // Sign out every device except the current one
+  signOutOtherDevices: (): Promise<{ data: { revoked: number } }> =>
+    apiRequest('/auth/sessions', {
+      method: 'DELETE',
+    }),
+
+  // Get the platform security policy
+  getPolicy: () => apiRequest('/security/policy'),
+
+  // Update the platform security policy
+  updatePolicy: (policy: any) =>
+    apiRequest('/security/policy', {
+      method: 'PUT',
+      body: JSON.stringify(policy),
+    }),
+
+  // Get the current user's two-factor status
+  getMfaStatus: () => apiRequest('/auth/mfa'),
+
+  // Disable two-factor for the current user (code required) or reset it for another user
+  disableMfa: (options: { code?: string; userId?: string }) =>
+    apiRequest(`/auth/mfa${options.userId ? `?userId=${encodeURIComponent(options.userId)}` : ''}`, {
+      method: 'DELETE',
+      body: JSON.stringify({ code: options.code }),
+    }),
+
+  // Replace the current user's recovery codes
+  regenerateRecoveryCodes: (code: string) =>
+    apiRequest('/auth/mfa/recovery-codes', {
+      method: 'POST',
+      body: JSON.stringify({ code }),
+    }),
+};
+
+// Maintenance API
+export const maintenanceAPI = {
+  // Current maintenance status and upcoming windows (public)
+  getStatus: () => apiRequest('/system/maintenance'),
+
+  // Schedule a maintenance window, announcing it to all users by default
+  scheduleWindow: (window: { start: string; end: string; message?: string; announce?: boolean }) =>
+    apiRequest('/system/maintenance', {
+      method: 'POST',
+      body: JSON.stringify(window),
+    }),
+
+  // Cancel a scheduled maintenance window
+  cancelWindow: (windowId: string) =>
+    apiRequest(`/system/maintenance?id=${encodeURIComponent(windowId)}`, {
+      method: 'DELETE',
+    }),
+};
+
+// Role definitions API (built-in and custom roles)
+export const rolesAPI = {
+  // Every role with its permissions and hierarchy level
+  getRoles: () => apiRequest('/roles'),
+
+  // Create a custom role
+  createRole: (role: { name: string; description?: string; permissions: Permission[]; level: number }) =>
+    apiRequest('/roles', {
+      method: 'POST',
+      body: JSON.stringify(role),
+    }),
+
+  // Update a role's description, permissions or level
+  updateRole: (name: string, changes: { description?: string; permissions?: Permission[]; level?: number }) =>
+    apiRequest(`/roles?name=${encodeURIComponent(name)}`, {
+      method: 'PUT',
+      body: JSON.stringify(changes),
+    }),
+
+  // Delete a custom role that no user holds
+  deleteRole: (name: string) =>
+    apiRequest(`/roles?name=${encodeURIComponent(name)}`, {
+      method: 'DELETE',
+    }),
+};
+
+// Staff invitations (emailed sign-up links for admin and instructor roles)
+export const invitationsAPI = {
+  // Invitations, newest first, optionally filtered by status
+  getInvitations: (status?: UserInvitation['status']): Promise<{ data: UserInvitation[] }> =>
+    apiRequest(`/admin/invitations${status ? `?status=${status}` : ''}`),
+
+  // Invite someone to the platform with a role
+  sendInvitation: (invitation: { email: string; role: string; fullName?: string }): Promise<{ data: UserInvitation; emailSent: boolean }> =>
+    apiRequest('/admin/invitations', {
+      method: 'POST',
+      body: JSON.stringify(invitation),
+    }),
+
+  // Email a fresh link; earlier links for the invitation stop working
+  resendInvitation: (invitationId: string): Promise<{ data: UserInvitation; emailSent: boolean }> =>
+    apiRequest(`/admin/invitations/${invitationId}`, {
+      method: 'POST',
+    }),
+
+  // Withdraw a pending invitation
+  revokeInvitation: (invitationId: string): Promise<{ data: UserInvitation }> =>
+    apiRequest(`/admin/invitations/${invitationId}`, {
+      method: 'DELETE',
+    }),
+};
+
+// Content review workflow API functions
+export interface WorkflowReviewer {
+  id: string;
+  full_name: string;
+  email: string;
+  role: string;
+}
+
+const workflowPath = (courseId: string, lessonId?: string) =>
+  `/courses/${courseId}/workflow${lessonId ? `?lessonId=${encodeURIComponent(lessonId)}` : ''}`;
+
+export const workflowAPI = {
+  // Status and history of a course, or of one of its lessons
+  getWorkflow: (courseId: string, lessonId?: string): Promise<{ data: { workflow: Workflow; history: WorkflowHistory[] } }> =>
+    apiRequest(workflowPath(courseId, lessonId)),
+
+  // Move content to its next status; request_changes needs notes
+  transition: (courseId: string, action: WorkflowAction, notes?: string, lessonId?: string): Promise<{ data: Workflow }> =>
+    apiRequest(workflowPath(courseId, lessonId), {
+      method: 'POST',
+      body: JSON.stringify({ action, notes }),
+    }),
+
+  // Set or clear (reviewerId null) the reviewer and review deadline
+  assignReviewer: (
+    courseId: string,
+    assignment: { reviewerId: string | null; deadline?: string | null; notes?: string },
+    lessonId?: string
+  ): Promise<{ data: Workflow }> =>
+    apiRequest(workflowPath(courseId, lessonId), {
+      method: 'POST',
+      body: JSON.stringify({ action: 'assign', ...assignment }),
+    }),
+
+  // Review queue, most recently changed first
+  getQueue: (status?: WorkflowStatus, assignedToMe = false): Promise<{ data: Workflow[] }> => {
+    const params = new URLSearchParams();
+    if (status) params.set('status', status);
+    if (assignedToMe) params.set('assigned', 'me');
+    const query = params.toString();
+    return apiRequest(`/content-workflow${query ? `?${query}` : ''}`);
+  },
+
+  // Staff who can be assigned as reviewers
+  getReviewers: (): Promise<{ data: WorkflowReviewer[] }> =>
+    apiRequest('/content-workflow/reviewers'),
+};
+
+// Course drafts and versions API functions
+export const courseVersionsAPI = {
+  // Draft of a published course and its changes against the live course
+  getDraft: (courseId: string): Promise<{ data: { draft: CourseDraft | null; live: CourseSnapshot; diff: CourseDiff | null; current_version: number } }> =>
+    apiRequest(`/courses/${courseId}/draft`),
+
+  // Make the draft live as the next version
+  publishDraft: (courseId: string, notes?: string): Promise<{ data: CourseVersion }> =>
+    apiRequest(`/courses/${courseId}/draft`, {
+      method: 'POST',
+      body: JSON.stringify({ notes }),
+    }),
+
+  discardDraft: (courseId: string) =>
+    apiRequest(`/courses/${courseId}/draft`, {
+      method: 'DELETE',
+    }),
+
+  // Published versions, newest first
+  getVersions: (courseId: string): Promise<{ data: CourseVersion[] }> =>
+    apiRequest(`/courses/${courseId}/versions`),
+
+  // A version's snapshot and what changed since the version before it
+  getVersion: (courseId: string, version: number): Promise<{ data: { version: CourseVersion & CourseSnapshot; diff: CourseDiff } }> =>
+    apiRequest(`/courses/${courseId}/versions/${version}`),
+
+  // Publish an earlier version again as a new version
+  rollback: (courseId: string, version: number, notes?: string): Promise<{ data: CourseVersion }> =>
+    apiRequest(`/courses/${courseId}/versions/${version}`, {
+      method: 'POST',
+      body: JSON.stringify({ notes }),
+    }),
+};
+
+const schedulePath = (courseId: string, lessonId?: string) =>
+  `/courses/${courseId}/schedule${lessonId ? `?lessonId=${encodeURIComponent(lessonId)}` : ''}`;
+
+export interface ScheduleInput {
+  /** Local to timezone, YYYY-MM-DDTHH:mm */
+  publishAt: string | null;
+  expireAt: string | null;
+  expireAction: ScheduleExpireAction;
+  timezone: string;
+}
+
+export const scheduleAPI = {
+  // Release schedule of a course, or of one of its lessons (null when nothing is scheduled)
+  getSchedule: (courseId: string, lessonId?: string): Promise<{ data: ContentSchedule | null }> =>
+    apiRequest(schedulePath(courseId, lessonId)),
+
+  saveSchedule: (courseId: string, input: ScheduleInput, lessonId?: string): Promise<{ data: ContentSchedule }> =>
+    apiRequest(schedulePath(courseId, lessonId), {
+      method: 'PUT',
+      body: JSON.stringify(input),
+    }),
+
+  cancelSchedule: (courseId: string, lessonId?: string) =>
+    apiRequest(schedulePath(courseId, lessonId), {
+      method: 'DELETE',
+    }),
+
+  // Releases and expiries between two instants, for the release calendar
+  getEvents: (from: Date, to: Date): Promise<{ data: ScheduleEvent[] }> =>
+    apiRequest(`/content-schedule?from=${encodeURIComponent(from.toISOString())}&to=${encodeURIComponent(to.toISOString())}`),
+};
+
+const quizPath = (courseId: string, lessonId?: string, suffix = '') =>
+  `/courses/${courseId}/quiz${suffix}${lessonId ? `?lessonId=${encodeURIComponent(lessonId)}` : ''}`;
+
+export const quizAPI = {
+  // Quiz after a lesson, or the course's final quiz without lessonId, with the caller's attempts so far
+  getQuiz: (courseId: string, lessonId?: string): Promise<{ data: { quiz: Quiz; summary: QuizSummary } | null }> =>
+    apiRequest(quizPath(courseId, lessonId)),
+
+  saveQuiz: (courseId: string, quiz: Omit<Quiz, 'id' | 'course_id' | 'lesson_id'>, lessonId?: string): Promise<{ data: Quiz }> =>
+    apiRequest(quizPath(courseId, lessonId), {
+      method: 'PUT',
+      body: JSON.stringify(quiz),
+    }),
+
+  deleteQuiz: (courseId: string, lessonId?: string) =>
+    apiRequest(quizPath(courseId, lessonId), {
+      method: 'DELETE',
+    }),
+
+  // Start (or resume) an attempt; questions come back in this attempt's order
+  startAttempt: (courseId: string, lessonId?: string): Promise<{ data: { attempt: { id: string; attempt_number: number; started_at: string }; quiz: Quiz } }> =>
+    apiRequest(quizPath(courseId, lessonId, '/attempts'), {
+      method: 'POST',
+    }),
+
+  submitAttempt: (courseId: string, attemptId: string, answers: Record<string, QuizAnswer>): Promise<{ data: QuizResult }> =>
+    apiRequest(`/courses/${courseId}/quiz/attempts/${attemptId}`, {
+      method: 'POST',
+      body: JSON.stringify({ answers }),
+    }),
+};
+
+const assignmentPath = (courseId: string, lessonId: string, suffix = '') =>
+  `/courses/${courseId}/assignment${suffix}?lessonId=${encodeURIComponent(lessonId)}`;
+
+export const assignmentAPI = {
+  // Assignment on a lesson with the caller's own submission, or null without one
+  getAssignment: (courseId: string, lessonId: string): Promise<{ data: { assignment: Assignment; submission: AssignmentSubmission | null } | null }> =>
+    apiRequest(assignmentPath(courseId, lessonId)),
+
+  saveAssignment: (courseId: string, lessonId: string, assignment: Omit<Assignment, 'id' | 'course_id' | 'lesson_id'>): Promise<{ data: Assignment }> =>
+    apiRequest(assignmentPath(courseId, lessonId), {
+      method: 'PUT',
+      body: JSON.stringify(assignment),
+    }),
+
+  deleteAssignment: (courseId: string, lessonId: string) =>
+    apiRequest(assignmentPath(courseId, lessonId), {
+      method: 'DELETE',
+    }),
+
+  // Files are uploaded with uploadAssignmentFile first
+  submit: (courseId: string, lessonId: string, files: AssignmentFile[], text: string) =>
+    apiRequest(assignmentPath(courseId, lessonId, '/submission'), {
+      method: 'POST',
+      body: JSON.stringify({ files, text }),
+    }),
+
+  // Next anonymous submission to review, or null when none needs it
+  claimPeerReview: (courseId: string, lessonId: string): Promise<{ data: PeerReviewTask | null }> =>
+    apiRequest(assignmentPath(courseId, lessonId, '/peer-reviews'), {
+      method: 'POST',
+    }),
+
+  submitPeerReview: (courseId: string, reviewId: string, scores: Record<string, number>, comment: string) =>
+    apiRequest(`/courses/${courseId}/assignment/peer-reviews/${reviewId}`, {
+      method: 'POST',
+      body: JSON.stringify({ scores, comment }),
+    }),
+
+  getGradingQueue: (status: 'pending' | 'graded' = 'pending', courseId?: string): Promise<{ data: GradingQueueItem[] }> => {
+    const params = new URLSearchParams({ status });
+    if (courseId) params.append('courseId', courseId);
+    return apiRequest(`/assignments/grading?${params.toString()}`);
+  },
+
+  getSubmission: (submissionId: string): Promise<{ data: GradingDetail }> =>
+    apiRequest(`/assignments/grading/${submissionId}`),
+
+  gradeSubmission: (submissionId: string, scores: Record<string, number>, feedback: string) =>
+    apiRequest(`/assignments/grading/${submissionId}`, {
+      method: 'POST',
+      body: JSON.stringify({ scores, feedback }),
+    }),
+};
+
+export interface LearningPathInput {
+  title: string;
+  description: string;
+  thumbnail: string;
+  courses: LearningPathEntry[];
+  published: boolean;
+}
+
+export const learningPathAPI = {
+  // Paths with their courses and the caller's progress (editors also get unpublished ones)
+  getPaths: (): Promise<{ data: LearningPathDetail[] }> =>
+    apiRequest('/learning-paths'),
+
+  getPath: (pathId: string): Promise<{ data: LearningPathDetail }> =>
+    apiRequest(`/learning-paths/${pathId}`),
+
+  createPath: (input: LearningPathInput): Promise<{ data: LearningPath }> =>
+    apiRequest('/learning-paths', {
+      method: 'POST',
+      body: JSON.stringify(input),
+    }),
+
+  updatePath: (pathId: string, input: LearningPathInput): Promise<{ data: LearningPath }> =>
+    apiRequest(`/learning-paths/${pathId}`, {
+      method: 'PUT',
+      body: JSON.stringify(input),
+    }),
+
+  deletePath: (pathId: string) =>
+    apiRequest(`/learning-paths/${pathId}`, {
+      method: 'DELETE',
+    }),
+
+  // Next course in each path that includes the course, for the end of a course
+  getUpNext: (courseId: string): Promise<{ data: LearningPathUpNext[] }> =>
+    apiRequest(`/courses/${courseId}/learning-paths`),
+
+  claimCertificate: (pathId: string): Promise<{ data: { id: string; created: boolean } }> =>
+    apiRequest(`/learning-paths/${pathId}/certificate`, {
+      method: 'POST',
+    }),
+};
+
 // Export all APIs
 export const api = {
   user: userAPI,
@@ -462,4 +845,14 @@ export const api = {
   achievement: achievementAPI,
   analytics: analyticsAPI,
   auditLogs: auditLogsAPI,
+  security: securityAPI,
+  maintenance: maintenanceAPI,
+  roles: rolesAPI,
+  invitations: invitationsAPI,
+  workflow: workflowAPI,
+  courseVersions: courseVersionsAPI,
+  schedule: scheduleAPI,
+  quiz: quizAPI,
+  assignment: assignmentAPI,
+  learningPath: learningPathAPI,
 };
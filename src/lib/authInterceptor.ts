@@ -1,7 +1,7 @@
 // Auth Interceptor for automatic token refresh
 // Handles token refresh and request retry logic
 
-import { authService } from './auth';
+import { authService } from './authService';
 import { API_BASE_URL } from './mysql';
 
 export interface ApiResponse<T = any> {
@@ -48,7 +48,7 @@ class AuthInterceptor {
         } catch (error) {
           // If token refresh fails, let AuthContext handle the redirect
           if (retryCount === 0) {
-            authService.clearAuthData();
+            authService.clearTokenFromStorage();
             // Don't redirect here - let AuthContext handle it when it detects user is null
             throw new Error('Session expired. Please login again.');
           }
@@ -97,7 +97,7 @@ class AuthInterceptor {
           this.processQueue(refreshError, null);
 
           // Clear auth data and let AuthContext handle the redirect
-          authService.clearAuthData();
+          authService.clearTokenFromStorage();
           // Don't redirect here - let AuthContext handle it when it detects user is null
           throw new Error('Session expired. Please login again.');
         } finally {
@@ -249,12 +249,12 @@ export const checkTokenStatus = (): {
   expiryTime: number | null;
   timeUntilExpiry: number | null;
 } => {
-  const expiryTime = authService.getTokenExpiry();
+  const expiryTime = authService.getTokenExpiryMs();
   const timeUntilExpiry = expiryTime ? expiryTime - Date.now() : null;
 
   return {
     isAuthenticated: authService.isAuthenticated(),
-    isExpired: authService.isTokenExpired(),
+    isExpired: authService.getTokenStatus().isExpired,
     shouldRefresh: authService.shouldRefreshToken(),
     expiryTime: expiryTime,
     timeUntilExpiry: timeUntilExpiry,
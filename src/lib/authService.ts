@@ -10,6 +10,12 @@ export interface AuthUser {
   role: 'user' | 'Super Admin' | 'Instructor' | 'Content Manager' | 'Community Manager' | 'User Support';
   avatar_url?: string;
   onboarding_completed: boolean;
+  /** Per-user grant/deny adjustments to the role's permissions */
+  permission_overrides?: { grant?: string[]; deny?: string[] };
+  /** Set while a support agent views the platform as this user */
+  impersonator?: { userId: string; email: string };
+  /** When the impersonation ends (ms since epoch) */
+  impersonation_expires_at?: number;
   industry?: string;
   experience_level?: string;
   business_stage?: string;
@@ -45,6 +51,48 @@ export interface AuthResponse {
   token?: string;
 }
 
+// Returned by login instead of a session when a second factor is needed
+export interface MfaChallenge {
+  message: string;
+  mfaRequired: true;
+  enrollmentRequired: boolean;
+  mfaToken: string;
+}
+
+export interface InvitationDetails {
+  email: string;
+  role: string;
+  full_name: string;
+  expires_at: string;
+}
+
+export interface MfaEnrollment {
+  secret: string;
+  otpauth_url: string;
+}
+
+export interface MfaEnrollmentResult {
+  recoveryCodes: string[];
+  user?: AuthUser;
+  token?: string;
+}
+
+// Single sign-on provider offered on the login page
+export interface SsoProvider {
+  id: string;
+  name: string;
+  /** Whether the signed-in user has linked this provider (false when signed out) */
+  linked: boolean;
+}
+
+export interface ImpersonationStart {
+  user: { id: string; email: string; full_name: string; role: string };
+  expires_at: string;
+}
+
+export const isMfaChallenge = (response: AuthResponse | MfaChallenge): response is MfaChallenge =>
+  (response as MfaChallenge).mfaRequired === true;
+
 // Enhanced error handling
 export class AuthError extends Error {
   constructor(
@@ -131,6 +179,11 @@ const jwtUtils = {
   }
 };
 
+// Refresh tokens are single-use, so concurrent refreshes must be coordinated:
+// one in-flight request per tab, and a Web Lock to serialise refreshes across tabs
+const REFRESH_LOCK_NAME = 'forward_africa_token_refresh';
+let refreshInFlight: Promise<AuthResponse> | null = null;
+
 // Main authentication service
 export const authService = {
   // Check if token exists and is valid
@@ -252,7 +305,12 @@ export const authService = {
         photoURL: payload.photoURL || null,
         role: payload.role || 'user',
         avatar_url: payload.photoURL || undefined,
-        onboarding_completed: payload.onboarding_completed || false
+        onboarding_completed: payload.onboarding_completed || false,
+        permission_overrides: payload.permission_overrides,
+        ...(payload.impersonator && {
+          impersonator: { userId: payload.impersonator.userId, email: payload.impersonator.email },
+          impersonation_expires_at: payload.exp * 1000
+        })
       };
 
       console.log('✅ AuthService: User extracted from token:', user);
@@ -264,7 +322,7 @@ export const authService = {
   },
 
   // Login with email and password
-  async login(credentials: LoginCredentials): Promise<AuthResponse> {
+  async login(credentials: LoginCredentials): Promise<AuthResponse | MfaChallenge> {
     try {
       if (!credentials.email || !credentials.password) {
         throw new AuthError('MISSING_CREDENTIALS', 'Email and password are required');
@@ -298,7 +356,11 @@ export const authService = {
         }
       }
 
-      const data: AuthResponse = await response.json();
+      const data: AuthResponse | MfaChallenge = await response.json();
+      if (isMfaChallenge(data)) {
+        console.log('🔐 AuthService: Second factor required');
+        return data;
+      }
       console.log('✅ AuthService: Login successful');
 
       // Token is stored in cookies by the server
@@ -312,6 +374,160 @@ export const authService = {
     }
   },
 
+  // Complete a sign-in with a TOTP code or one of the recovery codes
+  async verifyMfa(mfaToken: string, verification: { code?: string; recoveryCode?: string }): Promise<AuthResponse> {
+    const response = await fetch('/api/auth/mfa/verify', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ mfaToken, ...verification })
+    });
+
+    const data = await response.json().catch(() => ({ error: 'Verification failed' }));
+
+    if (!response.ok) {
+      switch (response.status) {
+        case 401:
+          throw new AuthError(data.code || 'INVALID_MFA_CODE', data.error || 'Invalid verification code');
+        case 429:
+          throw new AuthError('RATE_LIMITED', data.error || 'Too many incorrect codes');
+        default:
+          throw new AuthError('MFA_FAILED', data.error || 'Verification failed');
+      }
+    }
+
+    return data as AuthResponse;
+  },
+
+  // The pending invitation behind an emailed invite link
+  async getInvitation(token: string): Promise<InvitationDetails> {
+    const response = await fetch(`/api/auth/invitations/accept?token=${encodeURIComponent(token)}`, {
+      credentials: 'include'
+    });
+
+    const data = await response.json().catch(() => ({ error: 'Failed to load invitation' }));
+
+    if (!response.ok) {
+      throw new AuthError(data.code || 'INVALID_INVITATION', data.error || 'This invitation link is no longer valid');
+    }
+
+    return data.data as InvitationDetails;
+  },
+
+  // Create the invited account with the invitee's own password; may continue with 2FA enrolment
+  async acceptInvitation(token: string, password: string, fullName?: string): Promise<AuthResponse | MfaChallenge> {
+    const response = await fetch('/api/auth/invitations/accept', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ token, password, fullName })
+    });
+
+    const data = await response.json().catch(() => ({ error: 'Failed to accept invitation' }));
+
+    if (!response.ok) {
+      throw new AuthError(data.code || 'INVITATION_FAILED', data.error || 'Failed to accept invitation');
+    }
+
+    return data as AuthResponse | MfaChallenge;
+  },
+
+  // Identity providers configured for single sign-on
+  async getSsoProviders(): Promise<SsoProvider[]> {
+    const response = await fetch('/api/auth/sso/providers', { credentials: 'include' });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new AuthError('SSO_UNAVAILABLE', data.error || 'Failed to load sign-in options');
+    }
+    return data.data || [];
+  },
+
+  // Full-page redirect into the provider's login; the callback sets the auth cookies
+  startSsoLogin(providerId: string, returnTo = '/home'): void {
+    window.location.href = `/api/auth/sso/${encodeURIComponent(providerId)}/start?returnTo=${encodeURIComponent(returnTo)}`;
+  },
+
+  // Full-page redirect to link a provider to the signed-in account; comes back
+  // to returnTo with ?sso_linked={id} or ?sso_error={reason}
+  linkSsoAccount(providerId: string, returnTo = '/profile'): void {
+    window.location.href = `/api/auth/sso/${encodeURIComponent(providerId)}/start?link=1&returnTo=${encodeURIComponent(returnTo)}`;
+  },
+
+  // True while the access token is a read-only "view as user" token
+  isImpersonating(): boolean {
+    const token = this.getToken();
+    if (!token) return false;
+
+    try {
+      return Boolean(jwtUtils.parseToken(token).impersonator);
+    } catch (error) {
+      return false;
+    }
+  },
+
+  // Swap the access cookie for a time-boxed, read-only token of another user
+  async startImpersonation(userId: string, reason: string, durationMinutes: number): Promise<ImpersonationStart> {
+    const token = await this.getValidToken();
+    const response = await fetch('/api/auth/impersonation', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json'
+      },
+      credentials: 'include',
+      body: JSON.stringify({ userId, reason, duration_minutes: durationMinutes })
+    });
+
+    const data = await response.json().catch(() => ({ error: 'Could not start viewing as this user' }));
+    if (!response.ok) {
+      throw new AuthError(data.code || 'IMPERSONATION_FAILED', data.error || 'Could not start viewing as this user');
+    }
+
+    return data.data as ImpersonationStart;
+  },
+
+  // End the impersonation and return to the agent's own session via the refresh cookie
+  async endImpersonation(): Promise<AuthResponse> {
+    const token = this.getToken();
+    if (token) {
+      await fetch('/api/auth/impersonation', {
+        method: 'DELETE',
+        headers: { 'Authorization': `Bearer ${token}` },
+        credentials: 'include'
+      }).catch(() => {
+        // An expired impersonation token is simply replaced below
+        console.warn('⚠️ Impersonation end request failed');
+      });
+    }
+
+    return this.requestTokenRefresh();
+  },
+
+  // Start (no code) or confirm (with code) TOTP enrolment; mfaToken is used while signing in
+  async enrollMfa(options: { mfaToken?: string; code?: string } = {}): Promise<MfaEnrollment | MfaEnrollmentResult> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    const token = options.mfaToken ? null : this.getToken();
+    if (token) headers.Authorization = `Bearer ${token}`;
+
+    const response = await fetch('/api/auth/mfa/enroll', {
+      method: 'POST',
+      headers,
+      credentials: 'include',
+      body: JSON.stringify(options)
+    });
+
+    const data = await response.json().catch(() => ({ error: 'Failed to set up two-factor authentication' }));
+
+    if (!response.ok) {
+      throw new AuthError(data.code || 'MFA_ENROLL_FAILED', data.error || 'Failed to set up two-factor authentication');
+    }
+
+    if (data.user) {
+      return { ...data.data, user: data.user, token: data.token };
+    }
+    return data.data;
+  },
+
   // Register new user
   async register(userData: RegisterData): Promise<AuthResponse> {
     try {
@@ -388,11 +604,50 @@ export const authService = {
     }
   },
 
-  // Refresh token
+  // Refresh token (deduplicated within the tab and serialised across tabs)
   async refreshToken(): Promise<AuthResponse> {
+    if (refreshInFlight) {
+      console.log('🔄 AuthService: Joining in-flight token refresh');
+      return refreshInFlight;
+    }
+
+    refreshInFlight = this.refreshTokenWithLock().finally(() => {
+      refreshInFlight = null;
+    });
+
+    return refreshInFlight;
+  },
+
+  async refreshTokenWithLock(): Promise<AuthResponse> {
+    const tokenBeforeWait = this.getToken();
+
+    const refresh = async (): Promise<AuthResponse> => {
+      // Another tab may have rotated the pair while we waited for the lock;
+      // its new access cookie is already visible here, so reuse it
+      const currentToken = this.getToken();
+      if (currentToken && currentToken !== tokenBeforeWait && !this.shouldRefreshToken()) {
+        const user = this.getUserFromToken();
+        if (user) {
+          console.log('✅ AuthService: Token already refreshed by another tab');
+          return { message: 'Token refreshed', user, token: currentToken };
+        }
+      }
+
+      return this.requestTokenRefresh();
+    };
+
+    if (typeof navigator !== 'undefined' && navigator.locks) {
+      return navigator.locks.request(REFRESH_LOCK_NAME, refresh);
+    }
+
+    return refresh();
+  },
+
+  async requestTokenRefresh(): Promise<AuthResponse> {
     try {
       console.log('🔄 AuthService: Refreshing token...');
 
+      // The rotating refresh token travels in the HttpOnly app_refresh cookie
       const response = await fetch('/api/auth/refresh', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
@@ -400,21 +655,46 @@ export const authService = {
       });
 
       if (!response.ok) {
-        throw new AuthError('REFRESH_FAILED', 'Token refresh failed');
+        const errorData = await response.json().catch(() => ({}));
+        if (errorData.code === 'REFRESH_TOKEN_REUSED') {
+          throw new AuthError('REFRESH_TOKEN_REUSED', errorData.error || 'Session ended for security reasons. Please log in again.');
+        }
+        if (errorData.code === 'SESSION_IDLE_TIMEOUT') {
+          throw new AuthError('SESSION_IDLE_TIMEOUT', errorData.error || 'Your session expired due to inactivity. Please log in again.');
+        }
+        throw new AuthError('REFRESH_FAILED', errorData.error || 'Token refresh failed');
       }
 
       const data: AuthResponse = await response.json();
       console.log('✅ AuthService: Token refreshed');
 
-      // Token is stored in cookies by the server - no localStorage needed
+      // Both tokens are stored in cookies by the server - no localStorage needed
 
       return data;
     } catch (error) {
       console.error('❌ AuthService: Token refresh error:', error);
+      if (error instanceof AuthError) throw error;
       throw new AuthError('REFRESH_FAILED', 'Token refresh failed');
     }
   },
 
+  // Get a token for API requests, refreshing it first if it is about to expire
+  async getValidToken(): Promise<string> {
+    const token = this.getToken();
+
+    // The access cookie may already have lapsed while the refresh cookie is still valid
+    if (!token || this.shouldRefreshToken()) {
+      const response = await this.refreshToken();
+      const refreshed = response.token || this.getToken();
+      if (!refreshed) {
+        throw new AuthError('NO_TOKEN', 'No authentication token');
+      }
+      return refreshed;
+    }
+
+    return token;
+  },
+
   // Logout user
   async logout(): Promise<void> {
     try {
@@ -453,6 +733,11 @@ export const authService = {
 
   // Check if token should be refreshed
   shouldRefreshToken(): boolean {
+    // Impersonation tokens end with their time box instead of being refreshed
+    if (this.isImpersonating()) {
+      return false;
+    }
+
     const expiry = this.getTokenExpiryMs();
     if (!expiry) {
       console.warn('⚠�� AuthService: Could not determine token expiry');
@@ -507,6 +792,11 @@ export const authService = {
         return;
       }
 
+      // Impersonation sessions are read-only
+      if (this.isImpersonating()) {
+        return;
+      }
+
       console.log('🔄 AuthService: Syncing user role...');
 
       const response = await fetch('/api/auth/sync-role', {
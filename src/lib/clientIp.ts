@@ -0,0 +1,52 @@
+/**
+ * Client IP Resolution
+ * Shared by the edge middleware and the API routes (through
+ * AuditService.getClientIp), so it must not depend on Node built-ins.
+ *
+ * X-Forwarded-For is written by the client except for the entries our own
+ * proxies append on the right, so the left-most entry proves nothing.
+ * - CLIENT_IP_HEADER: a header the hosting platform sets itself (e.g.
+ *   'cf-connecting-ip'); used whenever it is present
+ * - TRUSTED_PROXY_HOPS: how many proxies sit in front of the app (default 1);
+ *   the client is the X-Forwarded-For entry that many places from the right.
+ *   0 ignores X-Forwarded-For and uses the connection address.
+ */
+
+const DEFAULT_TRUSTED_PROXY_HOPS = 1;
+
+type HeaderReader = (name: string) => string | null | undefined;
+
+export const getTrustedProxyHops = (): number => {
+  const configured = process.env.TRUSTED_PROXY_HOPS;
+  if (configured === undefined || configured === '') return DEFAULT_TRUSTED_PROXY_HOPS;
+
+  const hops = Number(configured);
+  return Number.isInteger(hops) && hops >= 0 ? hops : DEFAULT_TRUSTED_PROXY_HOPS;
+};
+
+/**
+ * The client address of a request, or null when nothing trustworthy is known
+ * @param readHeader - looks up a request header by lower-case name
+ * @param connectionIp - the address the request arrived from (socket or platform)
+ */
+export const resolveClientIp = (readHeader: HeaderReader, connectionIp?: string | null): string | null => {
+  const platformHeader = process.env.CLIENT_IP_HEADER?.trim().toLowerCase();
+  if (platformHeader) {
+    const platformIp = readHeader(platformHeader)?.split(',')[0].trim();
+    if (platformIp) return platformIp;
+  }
+
+  const hops = getTrustedProxyHops();
+  if (hops > 0) {
+    const forwarded = (readHeader('x-forwarded-for') || '')
+      .split(',')
+      .map(entry => entry.trim())
+      .filter(Boolean);
+    // Fewer entries than proxies means the request skipped them; trust only the connection
+    if (forwarded.length >= hops) {
+      return forwarded[forwarded.length - hops];
+    }
+  }
+
+  return connectionIp || null;
+};
@@ -0,0 +1,91 @@
+/**
+ * Edge-safe token checks (Web Crypto only) for middleware.ts.
+ *
+ * Verifies the signature and expiry of the app_user access token. The session
+ * store is not consulted here - API routes still do that through withAuth -
+ * so use this only for coarse decisions such as maintenance-mode bypass.
+ */
+
+import { standardizeRole } from './roleStandardization';
+
+const getSecret = (): string => process.env.JWT_SECRET || 'dev-secret-key-change-in-production';
+
+export const hmacSha256 = async (message: string): Promise<Uint8Array> => {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(getSecret()),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  return new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(message)));
+};
+
+const toBase64Url = (bytes: Uint8Array): string =>
+  btoa(String.fromCharCode(...Array.from(bytes)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=/g, '');
+
+const decodeBase64Url = (value: string): string => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+};
+
+export const constantTimeEqual = (a: string, b: string): boolean => {
+  if (a.length !== b.length) return false;
+
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+};
+
+/**
+ * Decode the payload without verifying it - for audit attribution only
+ */
+export const readTokenClaims = (token: string | undefined): Record<string, any> | null => {
+  try {
+    const payload = token?.split('.')[1];
+    return payload ? JSON.parse(decodeBase64Url(payload)) : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Return the access token's claims when its signature and expiry are valid
+ */
+export const verifyAccessToken = async (token: string | undefined): Promise<Record<string, any> | null> => {
+  if (!token) return null;
+
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+
+  const expected = toBase64Url(await hmacSha256(`${parts[0]}.${parts[1]}`));
+  if (!constantTimeEqual(parts[2], expected)) return null;
+
+  const claims = readTokenClaims(token);
+  // Only session access tokens carry a sid; MFA challenge tokens share the secret but must not count
+  if (!claims || !claims.sid || claims.type || claims.exp < Math.floor(Date.now() / 1000)) {
+    return null;
+  }
+
+  return claims;
+};
+
+export const isSuperAdminToken = async (token: string | undefined): Promise<boolean> => {
+  const claims = await verifyAccessToken(token);
+  return Boolean(claims && standardizeRole(claims.role) === 'Super Admin');
+};
+
+/**
+ * True for "view as user" tokens issued to support staff
+ */
+export const isImpersonationToken = async (token: string | undefined): Promise<boolean> => {
+  const claims = await verifyAccessToken(token);
+  return Boolean(claims && claims.impersonator);
+};
@@ -162,6 +162,33 @@ export async function uploadCertificateImage(
   }
 }
 
+/**
+ * Upload a file handed in for a lesson assignment to Firebase Storage
+ */
+export async function uploadAssignmentFile(
+  file: File,
+  userId: string,
+  courseId: string,
+  lessonId: string,
+  options?: UploadOptions
+): Promise<string> {
+  try {
+    const timestamp = Date.now();
+    const random = Math.random().toString(36).substr(2, 5);
+    const safeName = file.name.replace(/[^a-zA-Z0-9._-]/g, '_');
+    const filename = `${timestamp}-${random}-${safeName}`;
+
+    const storageRef = ref(storage, `submissions/${userId}/${courseId}/${lessonId}/${filename}`);
+    const snapshot = await uploadBytes(storageRef, file, { contentType: file.type });
+    const downloadUrl = await getDownloadURL(snapshot.ref);
+
+    return downloadUrl;
+  } catch (error) {
+    console.error('Error uploading assignment file:', error);
+    throw new Error(`Failed to upload file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
 /**
  * Delete image from Firebase Storage
  */
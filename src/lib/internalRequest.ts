@@ -0,0 +1,35 @@
+/**
+ * Internal Request Signing
+ * The edge middleware cannot reach Firestore, so it calls /api/internal/* routes.
+ * Those calls carry an HMAC (keyed by JWT_SECRET) over a timestamp so the routes
+ * can tell them apart from public traffic. Web Crypto only - runs on edge and Node.
+ */
+
+import { constantTimeEqual, hmacSha256 } from './edgeAuth';
+
+export const INTERNAL_SIGNATURE_HEADER = 'x-internal-signature';
+
+// Signatures older than this are rejected
+const MAX_SIGNATURE_AGE_MS = 60 * 1000;
+
+const hmacHex = async (message: string): Promise<string> =>
+  Array.from(await hmacSha256(message))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+
+export const createInternalSignature = async (): Promise<string> => {
+  const timestamp = Date.now().toString();
+  return `${timestamp}.${await hmacHex(timestamp)}`;
+};
+
+export const verifyInternalSignature = async (header: string | string[] | null | undefined): Promise<boolean> => {
+  if (typeof header !== 'string') return false;
+
+  const [timestamp, signature] = header.split('.');
+  if (!timestamp || !signature) return false;
+
+  const age = Date.now() - Number(timestamp);
+  if (!Number.isFinite(age) || Math.abs(age) > MAX_SIGNATURE_AGE_MS) return false;
+
+  return constantTimeEqual(signature, await hmacHex(timestamp));
+};
@@ -0,0 +1,70 @@
+/**
+ * IP Allowlist Matching
+ * Shared by the edge middleware, the security policy API and SecuritySettingsPage,
+ * so it must not depend on Node built-ins.
+ *
+ * Entries are exact addresses (IPv4 or IPv6) or IPv4 CIDR ranges, e.g.
+ * - '203.0.113.7'
+ * - '10.0.0.0/8'
+ * - '2001:db8::1'
+ */
+
+const IPV4_PATTERN = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/;
+const IPV6_PATTERN = /^[0-9a-f:]+$/i;
+
+/**
+ * Strip the IPv4-mapped IPv6 prefix and zone ids so the same client always compares equal
+ */
+export const normalizeIp = (ip: string): string => {
+  const trimmed = ip.trim().toLowerCase().split('%')[0];
+  return trimmed.startsWith('::ffff:') && IPV4_PATTERN.test(trimmed.slice(7)) ? trimmed.slice(7) : trimmed;
+};
+
+const ipv4ToNumber = (ip: string): number | null => {
+  const match = IPV4_PATTERN.exec(ip);
+  if (!match) return null;
+
+  const octets = match.slice(1).map(Number);
+  if (octets.some(octet => octet > 255)) return null;
+
+  return ((octets[0] << 24) >>> 0) + (octets[1] << 16) + (octets[2] << 8) + octets[3];
+};
+
+export const isValidAllowlistEntry = (entry: string): boolean => {
+  const [address, prefix, ...rest] = entry.trim().split('/');
+  if (rest.length > 0 || !address) return false;
+
+  if (prefix !== undefined) {
+    const bits = Number(prefix);
+    return ipv4ToNumber(address) !== null && /^\d{1,2}$/.test(prefix) && bits >= 0 && bits <= 32;
+  }
+
+  return ipv4ToNumber(address) !== null || (address.includes(':') && IPV6_PATTERN.test(address));
+};
+
+const matchesEntry = (ip: string, entry: string): boolean => {
+  const [address, prefix] = entry.trim().toLowerCase().split('/');
+
+  if (prefix === undefined) {
+    return normalizeIp(address) === ip;
+  }
+
+  const ipValue = ipv4ToNumber(ip);
+  const rangeValue = ipv4ToNumber(address);
+  if (ipValue === null || rangeValue === null) return false;
+
+  const bits = Number(prefix);
+  const mask = bits === 0 ? 0 : (~0 << (32 - bits)) >>> 0;
+  return ((ipValue & mask) >>> 0) === ((rangeValue & mask) >>> 0);
+};
+
+/**
+ * An empty allowlist allows everyone; otherwise the address must match an entry
+ */
+export const isIpAllowed = (ip: string | null | undefined, allowlist: string[]): boolean => {
+  if (!allowlist || allowlist.length === 0) return true;
+  if (!ip) return false;
+
+  const normalized = normalizeIp(ip);
+  return allowlist.some(entry => matchesEntry(normalized, entry));
+};
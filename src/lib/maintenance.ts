@@ -0,0 +1,85 @@
+/**
+ * Maintenance Mode Resolution
+ * Works out whether the platform is in maintenance from the system config:
+ * either the manual `maintenanceMode` switch or a scheduled window covering now.
+ * Shared by middleware.ts (edge) and the API routes, so keep it dependency-free.
+ */
+
+import { MaintenanceStatus, MaintenanceWindow } from '../types';
+
+export const DEFAULT_MAINTENANCE_MESSAGE = 'Forward Africa is undergoing scheduled maintenance. We will be back shortly.';
+
+// Retry-After used when the end of maintenance is not known
+const DEFAULT_RETRY_AFTER_SECONDS = 300;
+
+export interface MaintenanceSettings {
+  maintenanceMode?: boolean;
+  maintenanceMessage?: string;
+  maintenanceEndsAt?: string | null;
+  maintenanceWindows?: MaintenanceWindow[];
+}
+
+// Reachable while maintenance is active: the maintenance page, sign-in for admins, and status endpoints
+const EXEMPT_PATH_PREFIXES = ['/maintenance', '/login', '/admin/login', '/api/auth/', '/api/health', '/api/system/maintenance'];
+
+export const isMaintenanceExemptPath = (pathname: string): boolean =>
+  EXEMPT_PATH_PREFIXES.some(prefix => pathname === prefix || pathname.startsWith(prefix.endsWith('/') ? prefix : `${prefix}/`)) ||
+  // Files served from /public (logos, favicons) keep the maintenance page branded
+  /\.[a-z0-9]+$/i.test(pathname);
+
+export const resolveMaintenance = (settings: MaintenanceSettings, now: number = Date.now()): MaintenanceStatus => {
+  const windows = (settings.maintenanceWindows || [])
+    .filter(window => new Date(window.end).getTime() > now)
+    .sort((a, b) => new Date(a.start).getTime() - new Date(b.start).getTime());
+
+  const current = windows.find(window => new Date(window.start).getTime() <= now);
+  const upcoming = windows.filter(window => new Date(window.start).getTime() > now);
+
+  if (settings.maintenanceMode) {
+    return {
+      active: true,
+      source: 'manual',
+      message: settings.maintenanceMessage || DEFAULT_MAINTENANCE_MESSAGE,
+      endsAt: settings.maintenanceEndsAt || current?.end || null,
+      upcoming
+    };
+  }
+
+  if (current) {
+    return {
+      active: true,
+      source: 'scheduled',
+      message: current.message || settings.maintenanceMessage || DEFAULT_MAINTENANCE_MESSAGE,
+      endsAt: current.end,
+      upcoming
+    };
+  }
+
+  return {
+    active: false,
+    source: null,
+    message: '',
+    endsAt: null,
+    upcoming
+  };
+};
+
+export const getRetryAfterSeconds = (status: MaintenanceStatus, now: number = Date.now()): number => {
+  if (!status.endsAt) return DEFAULT_RETRY_AFTER_SECONDS;
+
+  const remaining = Math.ceil((new Date(status.endsAt).getTime() - now) / 1000);
+  return remaining > 0 ? remaining : DEFAULT_RETRY_AFTER_SECONDS;
+};
+
+/**
+ * Convert between stored ISO timestamps and <input type="datetime-local"> values (browser local time)
+ */
+export const toDateTimeLocalValue = (iso: string | null | undefined): string => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) return '';
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60 * 1000).toISOString().slice(0, 16);
+};
+
+export const fromDateTimeLocalValue = (value: string): string | null =>
+  value ? new Date(value).toISOString() : null;
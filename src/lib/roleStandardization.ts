@@ -9,6 +9,9 @@
  * - 'Community Manager'
  * - 'User Support'
  * - 'user'
+ *
+ * Custom roles from the roles collection (e.g. 'Regional Moderator') have no
+ * variants and pass through unchanged.
  */
 
 import { UserRole } from '../types';
@@ -59,7 +62,7 @@ const ROLE_NORMALIZATION_MAP: Record<string, UserRole> = {
 /**
  * Standardize a role string to the canonical JWT format
  * @param role - Any variation of a role string
- * @returns Standardized role in JWT format, or 'user' if unrecognized
+ * @returns Standardized role in JWT format, the custom role name, or 'user' if empty
  */
 export const standardizeRole = (role: string | undefined | null): UserRole => {
   if (!role || typeof role !== 'string') {
@@ -73,15 +76,9 @@ export const standardizeRole = (role: string | undefined | null): UserRole => {
     return standardized;
   }
   
-  // If role doesn't match any variation, return as-is if it's a valid UserRole
-  const validRoles: UserRole[] = ['Super Admin', 'Instructor', 'Content Manager', 'Community Manager', 'User Support', 'user'];
-  if (validRoles.includes(trimmedRole as UserRole)) {
-    return trimmedRole as UserRole;
-  }
-  
-  // Default to user if unrecognized
-  console.warn(`Unknown role: "${role}", defaulting to "user"`);
-  return 'user';
+  // Anything else is a custom role name; permission checks treat names without
+  // a stored definition like 'user'
+  return trimmedRole || 'user';
 };
 
 /**
@@ -9,10 +9,6 @@ const notConfigured = async (name: string) => {
   return { data: null, error };
 };
 
-export const signInWithGoogle = async () => {
-  return await notConfigured('signInWithGoogle');
-};
-
 export const signOut = async () => {
   return await notConfigured('signOut');
 };
@@ -0,0 +1,248 @@
+import React, { useEffect, useState } from 'react';
+import { useRouter } from 'next/router';
+import Button from '../components/ui/Button';
+import ErrorDisplay from '../components/ui/ErrorDisplay';
+import ValidationMessage from '../components/ui/ValidationMessage';
+import TwoFactorChallenge from '../components/auth/TwoFactorChallenge';
+import { useAuth } from '../contexts/AuthContext';
+import { authService, isMfaChallenge, InvitationDetails, MfaChallenge } from '../lib/authService';
+import { validatePassword } from '../utils/validation';
+import { Lock, User, Eye, EyeOff, AlertTriangle } from 'lucide-react';
+
+const AcceptInvitePage: React.FC = () => {
+  const router = useRouter();
+  const { completeSignIn } = useAuth();
+  const token = typeof router.query.token === 'string' ? router.query.token : '';
+  const [invitation, setInvitation] = useState<InvitationDetails | null>(null);
+  const [invitationError, setInvitationError] = useState('');
+  const [fullName, setFullName] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [mfaChallenge, setMfaChallenge] = useState<MfaChallenge | null>(null);
+
+  useEffect(() => {
+    if (!router.isReady) return;
+    if (!token) {
+      setInvitationError('Open the link from your invitation email.');
+      return;
+    }
+
+    authService.getInvitation(token)
+      .then(details => {
+        setInvitation(details);
+        setFullName(details.full_name || '');
+      })
+      .catch(err => setInvitationError(err instanceof Error ? err.message : 'This invitation link is no longer valid'));
+  }, [router.isReady, token]);
+
+  const passwordValidation = validatePassword(password);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!passwordValidation.isValid) {
+      setError(passwordValidation.message);
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const response = await authService.acceptInvitation(token, password, fullName.trim());
+      if (isMfaChallenge(response)) {
+        setMfaChallenge(response);
+        return;
+      }
+      await completeSignIn(response);
+    } catch (err) {
+      console.error('Accept invitation error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to accept invitation');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8 bg-brand-background-gradient">
+      <div className="max-w-md w-full">
+        {/* Header */}
+        <div className="text-center mb-4">
+          <div className="mx-auto w-16 h-16 bg-brand-gradient rounded-2xl flex items-center justify-center mb-2 shadow-brand-glow">
+            <span className="text-white text-2xl font-bold">FA</span>
+          </div>
+          <h2 className="text-3xl font-bold text-white mb-2">
+            Accept Invitation
+          </h2>
+          <p className="text-gray-400">
+            {invitation
+              ? <>You&apos;ve been invited to join as <span className="text-white">{invitation.role}</span></>
+              : 'Set up your Forward Africa account'}
+          </p>
+        </div>
+
+        <div className="bg-gray-800/50 backdrop-blur-sm rounded-2xl p-8 border border-gray-700/50 shadow-2xl">
+          {invitationError ? (
+            <div className="text-center space-y-6">
+              <div className="mx-auto w-16 h-16 bg-yellow-500 rounded-full flex items-center justify-center">
+                <AlertTriangle className="h-8 w-8 text-white" />
+              </div>
+              <div>
+                <h3 className="text-xl font-semibold text-white mb-2">
+                  Invitation Unavailable
+                </h3>
+                <p className="text-gray-400 mb-4">{invitationError}</p>
+              </div>
+              <Button
+                onClick={() => router.push('/login')}
+                variant="primary"
+                size="lg"
+                className="w-full bg-[#ef4444] hover:bg-[#dc2626] text-white font-semibold py-3 rounded-xl transition-all duration-200 transform hover:scale-[1.02] shadow-lg"
+              >
+                Go to Login
+              </Button>
+            </div>
+          ) : !invitation ? (
+            <div className="flex justify-center py-8">
+              <div className="w-8 h-8 border-2 border-red-500 border-t-transparent rounded-full animate-spin"></div>
+            </div>
+          ) : mfaChallenge ? (
+            <TwoFactorChallenge
+              challenge={mfaChallenge}
+              onComplete={completeSignIn}
+              onCancel={() => router.push('/login')}
+            />
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-gray-300">Email Address</label>
+                <p className="px-4 py-3 bg-gray-700/30 border border-gray-600 rounded-xl text-gray-300">{invitation.email}</p>
+              </div>
+
+              {/* Full Name Field */}
+              <div className="space-y-2">
+                <label htmlFor="fullName" className="block text-sm font-medium text-gray-300">
+                  Full Name
+                </label>
+                <div className="relative">
+                  <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                    <User className="h-5 w-5 text-gray-400" />
+                  </div>
+                  <input
+                    id="fullName"
+                    type="text"
+                    required
+                    minLength={2}
+                    className="block w-full pl-10 pr-4 py-3 bg-gray-700/50 border border-gray-600 rounded-xl text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-transparent transition-all duration-200"
+                    placeholder="Your full name"
+                    value={fullName}
+                    onChange={(e) => setFullName(e.target.value)}
+                  />
+                </div>
+              </div>
+
+              {/* Password Field */}
+              <div className="space-y-2">
+                <label htmlFor="password" className="block text-sm font-medium text-gray-300">
+                  Choose a Password
+                </label>
+                <div className="relative">
+                  <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                    <Lock className="h-5 w-5 text-gray-400" />
+                  </div>
+                  <input
+                    id="password"
+                    type={showPassword ? 'text' : 'password'}
+                    required
+                    autoComplete="new-password"
+                    className={`block w-full pl-10 pr-12 py-3 bg-gray-700/50 border rounded-xl text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-transparent transition-all duration-200 ${
+                      password && !passwordValidation.isValid ? 'border-red-500' : 'border-gray-600'
+                    }`}
+                    placeholder="Enter a password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                  />
+                  <button
+                    type="button"
+                    className="absolute inset-y-0 right-0 pr-3 flex items-center"
+                    onClick={() => setShowPassword(!showPassword)}
+                  >
+                    {showPassword ? (
+                      <EyeOff className="h-5 w-5 text-gray-400 hover:text-gray-300" />
+                    ) : (
+                      <Eye className="h-5 w-5 text-gray-400 hover:text-gray-300" />
+                    )}
+                  </button>
+                </div>
+                {password && !passwordValidation.isValid && (
+                  <ValidationMessage message={passwordValidation.message} type="error" className="mt-1" />
+                )}
+              </div>
+
+              {/* Confirm Password Field */}
+              <div className="space-y-2">
+                <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-300">
+                  Confirm Password
+                </label>
+                <div className="relative">
+                  <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                    <Lock className="h-5 w-5 text-gray-400" />
+                  </div>
+                  <input
+                    id="confirmPassword"
+                    type={showPassword ? 'text' : 'password'}
+                    required
+                    autoComplete="new-password"
+                    className="block w-full pl-10 pr-4 py-3 bg-gray-700/50 border border-gray-600 rounded-xl text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-transparent transition-all duration-200"
+                    placeholder="Confirm your password"
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                  />
+                </div>
+                {confirmPassword && (
+                  <ValidationMessage
+                    message={password === confirmPassword ? 'Passwords match' : 'Passwords do not match'}
+                    type={password === confirmPassword ? 'success' : 'error'}
+                    className="mt-1"
+                  />
+                )}
+              </div>
+
+              <ErrorDisplay
+                error={error}
+                type="error"
+                onClose={() => setError('')}
+                className="mb-4"
+              />
+
+              <Button
+                type="submit"
+                variant="primary"
+                size="lg"
+                className="w-full bg-[#ef4444] hover:bg-[#dc2626] text-white font-semibold py-3 rounded-xl transition-all duration-200 transform hover:scale-[1.02] shadow-lg"
+                disabled={loading}
+              >
+                {loading ? (
+                  <div className="flex items-center justify-center space-x-2">
+                    <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                    <span>Creating account...</span>
+                  </div>
+                ) : (
+                  <span>Create Account</span>
+                )}
+              </Button>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AcceptInvitePage;
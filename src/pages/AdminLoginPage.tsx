@@ -4,14 +4,17 @@ import { Lock, Shield, AlertTriangle, UserPlus, Crown } from 'lucide-react';
 import Button from '../components/ui/Button';
 import { useAuth } from '../contexts/AuthContext';
 import Layout from '../components/layout/Layout';
+import TwoFactorChallenge from '../components/auth/TwoFactorChallenge';
+import { AuthResponse, MfaChallenge } from '../lib/authService';
 
 const AdminLoginPage: React.FC = () => {
   const navigate = useNavigate();
-  const { signIn } = useAuth();
+  const { signIn, completeSignIn } = useAuth();
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [mfaChallenge, setMfaChallenge] = useState<MfaChallenge | null>(null);
 
   // Scroll to top on component mount
   useEffect(() => {
@@ -24,7 +27,11 @@ const AdminLoginPage: React.FC = () => {
     setIsLoading(true);
 
     try {
-      await signIn({ email, password });
+      const challenge = await signIn({ email, password });
+      if (challenge) {
+        setMfaChallenge(challenge);
+        return;
+      }
       // On successful login, navigate to admin dashboard
       window.scrollTo({ top: 0, behavior: 'instant' });
       navigate('/admin');
@@ -35,6 +42,12 @@ const AdminLoginPage: React.FC = () => {
     }
   };
 
+  const handleMfaComplete = async (response: AuthResponse) => {
+    await completeSignIn(response);
+    window.scrollTo({ top: 0, behavior: 'instant' });
+    navigate('/admin');
+  };
+
   const getRoleIcon = (role: string) => {
     switch (role) {
       case 'Super Admin': return <Crown className="h-5 w-5 text-purple-500 mr-2" />;
@@ -61,6 +74,16 @@ const AdminLoginPage: React.FC = () => {
             <p className="text-gray-400">Sign in to access the admin dashboard</p>
           </div>
 
+          {mfaChallenge ? (
+            <TwoFactorChallenge
+              challenge={mfaChallenge}
+              onComplete={handleMfaComplete}
+              onCancel={() => {
+                setMfaChallenge(null);
+                setPassword('');
+              }}
+            />
+          ) : (
           <form onSubmit={handleSubmit} className="space-y-6">
             {error && (
               <div className="bg-red-500/10 border border-red-500/20 text-red-400 p-4 rounded-md text-sm flex items-start">
@@ -116,6 +139,7 @@ const AdminLoginPage: React.FC = () => {
               )}
             </Button>
           </form>
+          )}
 
           {/* Demo Credentials */}
           <div className="mt-8 p-4 bg-gray-700/50 rounded-lg">
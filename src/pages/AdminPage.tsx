@@ -33,7 +33,11 @@ import {
   Crown,
   X,
   Grid3X3,
-  List
+  List,
+  ClipboardCheck,
+  CalendarClock,
+  FileCheck,
+  Route
 } from 'lucide-react';
 import { useNavigate } from '../lib/router';
 import Button from '../components/ui/Button';
@@ -696,6 +700,54 @@ const AdminPage: React.FC = () => {
                 </Button>
               </PermissionGuard>
 
+              {/* Content Review - Dark grey button */}
+              <PermissionGuard permission="content:workflow">
+                <Button
+                  variant="outline"
+                  onClick={() => navigate('/admin/content-review')}
+                  className="flex items-center justify-center bg-gray-700 hover:bg-gray-600 text-white px-6 py-3 rounded-lg border-gray-600"
+                >
+                  <ClipboardCheck className="h-4 w-4 mr-2" />
+                  Content Review
+                </Button>
+              </PermissionGuard>
+
+              {/* Release Calendar - Dark grey button */}
+              <PermissionGuard permission="content:workflow">
+                <Button
+                  variant="outline"
+                  onClick={() => navigate('/admin/release-calendar')}
+                  className="flex items-center justify-center bg-gray-700 hover:bg-gray-600 text-white px-6 py-3 rounded-lg border-gray-600"
+                >
+                  <CalendarClock className="h-4 w-4 mr-2" />
+                  Release Calendar
+                </Button>
+              </PermissionGuard>
+
+              {/* Grading Queue - Dark grey button */}
+              <PermissionGuard permission="courses:edit">
+                <Button
+                  variant="outline"
+                  onClick={() => navigate('/admin/grading')}
+                  className="flex items-center justify-center bg-gray-700 hover:bg-gray-600 text-white px-6 py-3 rounded-lg border-gray-600"
+                >
+                  <FileCheck className="h-4 w-4 mr-2" />
+                  Grading Queue
+                </Button>
+              </PermissionGuard>
+
+              {/* Learning Paths - Dark grey button */}
+              <PermissionGuard permission="courses:edit">
+                <Button
+                  variant="outline"
+                  onClick={() => navigate('/admin/learning-paths')}
+                  className="flex items-center justify-center bg-gray-700 hover:bg-gray-600 text-white px-6 py-3 rounded-lg border-gray-600"
+                >
+                  <Route className="h-4 w-4 mr-2" />
+                  Learning Paths
+                </Button>
+              </PermissionGuard>
+
               {/* Add Instructor - Dark grey button */}
               <PermissionGuard permission="instructors:create">
                 <Button
@@ -716,7 +768,7 @@ const AdminPage: React.FC = () => {
                   className="flex items-center justify-center bg-gray-700 hover:bg-gray-600 text-white px-6 py-3 rounded-lg border-gray-600"
                 >
                   <Shield className="h-4 w-4 mr-2" />
-                  Create Admin
+                  Invite Admin
                 </Button>
               </PermissionGuard>
 
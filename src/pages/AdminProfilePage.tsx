@@ -5,6 +5,7 @@ import { useNavigate } from '../lib/router';
 import { useAuth } from '../contexts/AuthContext';
 import { usePermissions } from '../contexts/PermissionContext';
 import Layout from '../components/layout/Layout';
+import TwoFactorSettings from '../components/auth/TwoFactorSettings';
 
 const AdminProfilePage: React.FC = () => {
   const navigate = useNavigate();
@@ -646,6 +647,9 @@ const AdminProfilePage: React.FC = () => {
             </div>
           </div>
 
+          {/* Two-Factor Authentication */}
+          <TwoFactorSettings />
+
           {/* Recent Security Activity */}
           <div className="bg-gray-800 rounded-lg p-6">
             <h3 className="text-xl font-semibold text-white mb-6">Recent Security Activity</h3>
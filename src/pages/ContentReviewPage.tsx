@@ -0,0 +1,189 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ArrowLeft, ClipboardCheck, Clock, Edit, RefreshCw } from 'lucide-react';
+import Button from '../components/ui/Button';
+import ContentWorkflowPanel, { WORKFLOW_STATUS_STYLES } from '../components/admin/ContentWorkflowPanel';
+import Layout from '../components/layout/Layout';
+import { useNavigate } from '../lib/router';
+import { usePermissions } from '../contexts/PermissionContext';
+import { workflowAPI } from '../lib/api';
+import { Workflow, WorkflowStatus } from '../types';
+
+const STATUS_FILTERS: { value: WorkflowStatus | ''; label: string }[] = [
+  { value: 'review', label: 'In Review' },
+  { value: 'approved', label: 'Approved' },
+  { value: 'draft', label: 'Changes Requested' },
+  { value: 'published', label: 'Published' },
+  { value: 'archived', label: 'Archived' },
+  { value: '', label: 'All' }
+];
+
+/**
+ * Review queue: courses and lessons waiting on a reviewer or publisher,
+ * with the workflow controls for each item inline
+ */
+const ContentReviewPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { hasPermission } = usePermissions();
+  const [status, setStatus] = useState<WorkflowStatus | ''>('review');
+  const [assignedToMe, setAssignedToMe] = useState(false);
+  const [workflows, setWorkflows] = useState<Workflow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [openWorkflowId, setOpenWorkflowId] = useState<string | null>(null);
+
+  const canReview = hasPermission('content:workflow');
+
+  const loadQueue = useCallback(async () => {
+    if (!canReview) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await workflowAPI.getQueue(status || undefined, assignedToMe);
+      setWorkflows(response.data);
+    } catch (err) {
+      console.error('Failed to load review queue:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load the review queue');
+    } finally {
+      setLoading(false);
+    }
+  }, [canReview, status, assignedToMe]);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  const isOverdue = (workflow: Workflow) =>
+    workflow.status === 'review' && !!workflow.review_deadline && new Date(workflow.review_deadline) < new Date();
+
+  return (
+    <Layout>
+      <div className="max-w-screen-xl mx-auto py-16 px-4 sm:px-6 lg:px-8">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-8">
+          <div className="flex items-center">
+            <Button variant="ghost" onClick={() => navigate('/admin')} className="mr-4">
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div>
+              <h1 className="text-3xl font-bold text-white">Content Review</h1>
+              <p className="text-gray-400 mt-2">Courses and lessons only reach learners once they are approved and published</p>
+            </div>
+          </div>
+          <Button variant="outline" onClick={loadQueue} disabled={loading} className="flex items-center">
+            <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+
+        {!canReview ? (
+          <div className="bg-gray-800 rounded-lg p-8 text-center text-gray-400">
+            You don&apos;t have permission to manage the content workflow.
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-3 mb-6">
+              {STATUS_FILTERS.map(filter => (
+                <button
+                  key={filter.label}
+                  onClick={() => setStatus(filter.value)}
+                  className={`px-4 py-2 rounded-lg text-sm transition-colors ${
+                    status === filter.value ? 'bg-red-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+                  }`}
+                >
+                  {filter.label}
+                </button>
+              ))}
+              <label className="flex items-center ml-auto text-sm text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={assignedToMe}
+                  onChange={(e) => setAssignedToMe(e.target.checked)}
+                  className="mr-2 rounded border-gray-600 bg-gray-700 text-red-600 focus:ring-red-500"
+                />
+                Assigned to me
+              </label>
+            </div>
+
+            {error && (
+              <div className="mb-6 p-4 bg-red-600/20 border border-red-500/30 rounded-lg">
+                <p className="text-red-300">{error}</p>
+              </div>
+            )}
+
+            {loading ? (
+              <div className="bg-gray-800 rounded-lg p-12 text-center text-gray-400">
+                <RefreshCw className="h-8 w-8 animate-spin mx-auto mb-4" />
+                Loading review queue...
+              </div>
+            ) : workflows.length === 0 ? (
+              <div className="bg-gray-800 rounded-lg p-12 text-center text-gray-400">
+                <ClipboardCheck className="h-8 w-8 mx-auto mb-4" />
+                Nothing here right now.
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {workflows.map(workflow => (
+                  <div key={workflow.id} className="bg-gray-800 rounded-lg">
+                    <div className="p-4 flex flex-wrap items-center justify-between gap-4">
+                      <div>
+                        <div className="flex items-center gap-3">
+                          <h3 className="text-white font-medium">{workflow.title || 'Untitled'}</h3>
+                          <span className="text-xs uppercase text-gray-500">{workflow.content_type}</span>
+                          <span className={`px-2 py-1 rounded-full text-xs font-medium capitalize ${WORKFLOW_STATUS_STYLES[workflow.status]}`}>
+                            {workflow.status}
+                          </span>
+                        </div>
+                        <p className="text-gray-400 text-sm mt-1">
+                          {workflow.current_reviewer_name ? `Reviewer: ${workflow.current_reviewer_name}` : 'No reviewer assigned'}
+                          {workflow.review_deadline && (
+                            <span className={`inline-flex items-center ml-4 ${isOverdue(workflow) ? 'text-red-400' : ''}`}>
+                              <Clock className="h-3 w-3 mr-1" />
+                              Due {new Date(workflow.review_deadline).toLocaleDateString()}
+                            </span>
+                          )}
+                          {workflow.updated_at && (
+                            <span className="ml-4">Updated {new Date(workflow.updated_at).toLocaleString()}</span>
+                          )}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        <Button
+                          variant="ghost"
+                          onClick={() => navigate(`/admin/upload-course?edit=${workflow.course_id}`)}
+                          className="flex items-center"
+                        >
+                          <Edit className="h-4 w-4 mr-2" />
+                          Open Course
+                        </Button>
+                        <Button
+                          variant={openWorkflowId === workflow.id ? 'secondary' : 'primary'}
+                          onClick={() => setOpenWorkflowId(openWorkflowId === workflow.id ? null : workflow.id)}
+                        >
+                          {openWorkflowId === workflow.id ? 'Close' : 'Review'}
+                        </Button>
+                      </div>
+                    </div>
+                    {openWorkflowId === workflow.id && (
+                      <div className="border-t border-gray-700">
+                        <ContentWorkflowPanel
+                          courseId={workflow.course_id}
+                          lessonId={workflow.content_type === 'lesson' ? workflow.content_id : undefined}
+                          onStatusChange={loadQueue}
+                        />
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default ContentReviewPage;
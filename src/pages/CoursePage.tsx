@@ -10,6 +10,7 @@ import { useAuth } from '../contexts/AuthContext';
 import { downloadCertificate } from '../utils/certificateGenerator';
 import Image from 'next/image';
 import CourseProgressDashboard from '../components/ui/CourseProgressDashboard';
+import LockedLessonPanel from '../components/ui/LockedLessonPanel';
 import { useCourses } from '../hooks/useDatabase';
 import { courseAPI } from '../lib/api';
 
@@ -313,7 +314,10 @@ const CoursePage: React.FC = () => {
             featured: foundCourse.featured || false,
             totalXP: foundCourse.total_xp || 1000,
             comingSoon: foundCourse.coming_soon === 1 || foundCourse.coming_soon === true,
-            releaseDate: foundCourse.release_date
+            releaseDate: foundCourse.release_date,
+            prerequisite_course_ids: foundCourse.prerequisite_course_ids,
+            sequential_lessons: foundCourse.sequential_lessons,
+            access: foundCourse.access
           };
 
           console.log('Transformed course data:', transformedCourse);
@@ -729,7 +733,10 @@ const CoursePage: React.FC = () => {
             <div className="flex flex-col md:flex-row md:space-x-8">
                                   {/* Left Column - Video Player */}
                     <div className="md:w-2/3 mb-8 md:mb-0">
-                      {course.lessons.length > 0 && selectedLesson ? (
+                      {currentLesson?.lock ? (
+                        // Locked lessons come without a video; say what unlocks them instead
+                        <LockedLessonPanel lock={currentLesson.lock} courseId={courseId as string} />
+                      ) : course.lessons.length > 0 && selectedLesson ? (
                         // Show VideoPlayer when course has lessons and a lesson is selected
                         <div className="bg-white rounded-lg shadow-lg overflow-hidden">
                           <VideoPlayer
@@ -1,22 +1,20 @@
-import React, { useState, useEffect } from 'react';
-import { ArrowLeft, Save, User, Mail, Shield, Eye, EyeOff, CheckCircle, AlertTriangle, Crown, UserPlus } from 'lucide-react';
+import React, { useState, useEffect, useCallback } from 'react';
+import { ArrowLeft, Send, User, Shield, CheckCircle, Crown, UserPlus, GraduationCap, RefreshCw, XCircle, Clock } from 'lucide-react';
 import Button from '../components/ui/Button';
 import { useNavigate } from '../lib/router';
 import ErrorMessage from '../components/ui/ErrorMessage';
 import { useAuth } from '../contexts/AuthContext';
 import Layout from '../components/layout/Layout';
 import { standardizeRole } from '../lib/roleStandardization';
-import { UserRole } from '../types';
-
-interface AdminUser {
-  id: string;
-  name: string;
-  email: string;
-  role: UserRole;
-  password: string;
-  createdAt: Date;
-  createdBy: string;
-}
+import { invitationsAPI } from '../lib/api';
+import { UserInvitation, UserRole } from '../types';
+
+const STATUS_STYLES: Record<UserInvitation['status'], string> = {
+  pending: 'bg-yellow-500/10 text-yellow-400',
+  expired: 'bg-gray-500/10 text-gray-400',
+  accepted: 'bg-green-500/10 text-green-400',
+  revoked: 'bg-red-500/10 text-red-400'
+};
 
 const CreateAdminUserPage: React.FC = () => {
   const navigate = useNavigate();
@@ -24,203 +22,130 @@ const CreateAdminUserPage: React.FC = () => {
   const [formData, setFormData] = useState({
     name: '',
     email: '',
-    role: 'Content Manager' as UserRole,
-    password: '',
-    confirmPassword: ''
-  });
-  const [showPasswords, setShowPasswords] = useState({
-    password: false,
-    confirm: false
+    role: 'Content Manager' as UserRole
   });
   const [errors, setErrors] = useState<string[]>([]);
-  const [success, setSuccess] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [invitations, setInvitations] = useState<UserInvitation[]>([]);
+  const [loadingInvitations, setLoadingInvitations] = useState(true);
+  const [busyInvitation, setBusyInvitation] = useState<string | null>(null);
 
-  // Check if current user can create admin users
   const currentUserRole = profile?.role || 'user';
-  const currentUserEmail = profile?.email || '';
 
   // Scroll to top on component mount
   useEffect(() => {
     window.scrollTo({ top: 0, behavior: 'instant' });
   }, []);
 
-  const validatePassword = (password: string): string[] => {
-    const errors: string[] = [];
-
-    if (password.length < 8) {
-      errors.push('Password must be at least 8 characters long');
-    }
-    if (!/[A-Z]/.test(password)) {
-      errors.push('Password must contain at least one uppercase letter');
-    }
-    if (!/[a-z]/.test(password)) {
-      errors.push('Password must contain at least one lowercase letter');
-    }
-    if (!/\d/.test(password)) {
-      errors.push('Password must contain at least one number');
-    }
-    if (!/[!@#$%^&*(),.?":{}|<>]/.test(password)) {
-      errors.push('Password must contain at least one special character');
+  const loadInvitations = useCallback(async () => {
+    try {
+      const response = await invitationsAPI.getInvitations();
+      setInvitations(response.data);
+    } catch (error) {
+      console.error('Error loading invitations:', error);
+      setErrors(['Failed to load invitations. Please refresh the page.']);
+    } finally {
+      setLoadingInvitations(false);
     }
+  }, []);
 
-    return errors;
-  };
+  useEffect(() => {
+    loadInvitations();
+  }, [loadInvitations]);
 
   const validateForm = (): string[] => {
     const validationErrors: string[] = [];
 
-    // Name validation
-    if (!formData.name.trim()) {
-      validationErrors.push('Name is required');
+    if (formData.name.trim() && formData.name.trim().length < 2) {
+      validationErrors.push('Name must be at least 2 characters long');
     }
 
-    // Email validation
     if (!formData.email.trim()) {
       validationErrors.push('Email is required');
     } else if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(formData.email)) {
       validationErrors.push('Please enter a valid email address');
     }
 
-    // Password validation
-    const passwordErrors = validatePassword(formData.password);
-    validationErrors.push(...passwordErrors);
-
-    // Confirm password validation
-    if (formData.password !== formData.confirmPassword) {
-      validationErrors.push('Passwords do not match');
-    }
-
-    // Role validation for Super Admin creation
     if (formData.role === 'Super Admin' && standardizeRole(currentUserRole) !== 'Super Admin') {
-      validationErrors.push('Only super admins can create super admin accounts');
+      validationErrors.push('Only super admins can invite super admins');
     }
 
     return validationErrors;
   };
 
-  const logAuditEvent = (action: string, details: string) => {
-    const existingLogs = JSON.parse(localStorage.getItem('auditLogs') || '[]');
-    const newLog = {
-      id: Date.now().toString(),
-      action,
-      details,
-      timestamp: new Date().toISOString(),
-      user: currentUserEmail
-    };
-    existingLogs.unshift(newLog);
-    localStorage.setItem('auditLogs', JSON.stringify(existingLogs.slice(0, 1000)));
-  };
-
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setErrors([]);
-    setSuccess(false);
-    setIsSubmitting(true);
+    setNotice(null);
 
-    // Validate form
     const validationErrors = validateForm();
     if (validationErrors.length > 0) {
       setErrors(validationErrors);
-      setIsSubmitting(false);
       return;
     }
 
+    setIsSubmitting(true);
     try {
-      // Get authentication token from cookie (same way authService does it)
-      let token = null;
-      if (typeof document !== 'undefined') {
-        const cookies = document.cookie.split(';');
-        for (const cookie of cookies) {
-          const [name, value] = cookie.trim().split('=');
-          if (name === 'app_user') {
-            token = value;
-            break;
-          }
-        }
-      }
-
-      if (!token) {
-        throw new Error('Authentication token not found. Please log in again.');
-      }
-
-      // Create user via API
-      const response = await fetch('/api/auth/create-admin-user', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`
-        },
-        body: JSON.stringify({
-          email: formData.email.trim(),
-          full_name: formData.name.trim(),
-          role: formData.role,
-          password: formData.password,
-        }),
+      const response = await invitationsAPI.sendInvitation({
+        email: formData.email.trim(),
+        role: formData.role,
+        fullName: formData.name.trim()
       });
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to create user');
-      }
-
-      const result = await response.json();
-
-      // Log audit event
-      logAuditEvent('admin_user_created', `Created ${formData.role} account: ${formData.email} by ${currentUserEmail}`);
-
-      setSuccess(true);
-
-      // Reset form
-      setFormData({
-        name: '',
-        email: '',
-        role: 'Content Manager',
-        password: '',
-        confirmPassword: ''
-      });
-
-      // Redirect after success
-      setTimeout(() => {
-        navigate('/admin/manage-users');
-      }, 3000);
-
+      setInvitations(prev => [response.data, ...prev]);
+      setNotice(response.emailSent
+        ? `Invitation sent to ${response.data.email}.`
+        : `Invitation created for ${response.data.email}, but the email could not be sent. Try resending it.`);
+      setFormData({ name: '', email: '', role: 'Content Manager' });
     } catch (error: any) {
-      console.error('Error creating admin user:', error);
-
-      // Handle different types of errors
-      if (error.name === 'TypeError' && error.message.includes('fetch')) {
-        setErrors(['Unable to connect to the server. Please try again.']);
-      } else if (error.message.includes('already exists')) {
-        setErrors(['An admin user with this email already exists']);
-      } else if (error.message.includes('JSON')) {
-        setErrors(['Server returned an invalid response. Please try again.']);
-      } else {
-        setErrors([error.message || 'Failed to create admin user. Please try again.']);
-      }
+      console.error('Error sending invitation:', error);
+      setErrors([error.message || 'Failed to send invitation. Please try again.']);
     } finally {
       setIsSubmitting(false);
     }
   };
 
-  const getPasswordStrength = (password: string): { strength: number; label: string; color: string } => {
-    const errors = validatePassword(password);
-    const strength = Math.max(0, 5 - errors.length);
-
-    if (strength === 0) return { strength: 0, label: 'Very Weak', color: 'bg-red-500' };
-    if (strength === 1) return { strength: 20, label: 'Weak', color: 'bg-red-400' };
-    if (strength === 2) return { strength: 40, label: 'Fair', color: 'bg-yellow-500' };
-    if (strength === 3) return { strength: 60, label: 'Good', color: 'bg-yellow-400' };
-    if (strength === 4) return { strength: 80, label: 'Strong', color: 'bg-green-500' };
-    return { strength: 100, label: 'Very Strong', color: 'bg-green-600' };
+  const handleResend = async (invitation: UserInvitation) => {
+    setBusyInvitation(invitation.id);
+    setErrors([]);
+    setNotice(null);
+    try {
+      const response = await invitationsAPI.resendInvitation(invitation.id);
+      setInvitations(prev => prev.map(item => item.id === invitation.id ? response.data : item));
+      setNotice(response.emailSent
+        ? `A new invitation link was sent to ${invitation.email}.`
+        : `The invitation was renewed, but the email to ${invitation.email} could not be sent.`);
+    } catch (error: any) {
+      setErrors([error.message || 'Failed to resend invitation']);
+    } finally {
+      setBusyInvitation(null);
+    }
   };
 
-  const passwordStrength = getPasswordStrength(formData.password);
+  const handleRevoke = async (invitation: UserInvitation) => {
+    if (!window.confirm(`Revoke the invitation for ${invitation.email}? The link they received will stop working.`)) {
+      return;
+    }
+
+    setBusyInvitation(invitation.id);
+    setErrors([]);
+    setNotice(null);
+    try {
+      const response = await invitationsAPI.revokeInvitation(invitation.id);
+      setInvitations(prev => prev.map(item => item.id === invitation.id ? response.data : item));
+      setNotice(`Invitation for ${invitation.email} revoked.`);
+    } catch (error: any) {
+      setErrors([error.message || 'Failed to revoke invitation']);
+    } finally {
+      setBusyInvitation(null);
+    }
+  };
 
   const getRoleIcon = (role: string) => {
     switch (role) {
       case 'Super Admin': return <Crown className="h-5 w-5" />;
-      case 'Instructor': return <Shield className="h-5 w-5" />;
+      case 'Instructor': return <GraduationCap className="h-5 w-5" />;
       case 'Content Manager': return <Shield className="h-5 w-5" />;
       case 'Community Manager': return <UserPlus className="h-5 w-5" />;
       case 'User Support': return <User className="h-5 w-5" />;
@@ -253,20 +178,17 @@ const CreateAdminUserPage: React.FC = () => {
               <ArrowLeft className="h-5 w-5" />
             </Button>
             <div>
-              <h1 className="text-3xl font-bold text-white">Create Admin User</h1>
-              <p className="text-gray-400 mt-2">Add a new administrator to the platform</p>
+              <h1 className="text-3xl font-bold text-white">Invite User</h1>
+              <p className="text-gray-400 mt-2">Invite an administrator or instructor to the platform</p>
             </div>
           </div>
 
           {/* Success Message */}
-          {success && (
+          {notice && (
             <div className="mb-6 p-4 bg-green-500/10 border border-green-500/20 rounded-lg">
               <div className="flex items-center">
                 <CheckCircle className="h-5 w-5 text-green-500 mr-3" />
-                <div>
-                  <h3 className="text-green-500 font-medium">Admin User Created Successfully!</h3>
-                  <p className="text-green-400 text-sm">Redirecting to user management...</p>
-                </div>
+                <p className="text-green-400 text-sm">{notice}</p>
               </div>
             </div>
           )}
@@ -284,22 +206,6 @@ const CreateAdminUserPage: React.FC = () => {
 
           {/* Form */}
           <form onSubmit={handleSubmit} className="space-y-6">
-            {/* Name Field */}
-            <div>
-              <label htmlFor="name" className="block text-sm font-medium text-gray-300 mb-2">
-                Full Name
-              </label>
-              <input
-                type="text"
-                id="name"
-                value={formData.name}
-                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
-                className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-red-500"
-                placeholder="Enter full name"
-                required
-              />
-            </div>
-
             {/* Email Field */}
             <div>
               <label htmlFor="email" className="block text-sm font-medium text-gray-300 mb-2">
@@ -316,13 +222,29 @@ const CreateAdminUserPage: React.FC = () => {
               />
             </div>
 
+            {/* Name Field */}
+            <div>
+              <label htmlFor="name" className="block text-sm font-medium text-gray-300 mb-2">
+                Full Name <span className="text-gray-500">(optional)</span>
+              </label>
+              <input
+                type="text"
+                id="name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-red-500"
+                placeholder="Pre-fills the invitee's name; they can change it"
+              />
+            </div>
+
             {/* Role Selection */}
             <div>
               <label className="block text-sm font-medium text-gray-300 mb-3">
-                Admin Role
+                Role
               </label>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
                 {[
+                  { value: 'Instructor', label: 'Instructor' },
                   { value: 'Content Manager', label: 'Content Manager' },
                   { value: 'Community Manager', label: 'Community Manager' },
                   { value: 'User Support', label: 'User Support' },
@@ -341,7 +263,7 @@ const CreateAdminUserPage: React.FC = () => {
                       name="role"
                       value={role.value}
                       checked={formData.role === role.value}
-                      onChange={(e) => setFormData({ ...formData, role: e.target.value as any })}
+                      onChange={(e) => setFormData({ ...formData, role: e.target.value as UserRole })}
                       className="sr-only"
                     />
                     <div className="flex items-center">
@@ -361,74 +283,6 @@ const CreateAdminUserPage: React.FC = () => {
               </div>
             </div>
 
-            {/* Password Field */}
-            <div>
-              <label htmlFor="password" className="block text-sm font-medium text-gray-300 mb-2">
-                Password
-              </label>
-              <div className="relative">
-                <input
-                  type={showPasswords.password ? 'text' : 'password'}
-                  id="password"
-                  value={formData.password}
-                  onChange={(e) => setFormData({ ...formData, password: e.target.value })}
-                  className="w-full px-4 py-3 pr-12 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-red-500"
-                  placeholder="Enter password"
-                  required
-                />
-                <button
-                  type="button"
-                  onClick={() => setShowPasswords({ ...showPasswords, password: !showPasswords.password })}
-                  className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-white"
-                >
-                  {showPasswords.password ? <EyeOff className="h-5 w-5" /> : <Eye className="h-5 w-5" />}
-                </button>
-              </div>
-
-              {/* Password Strength Indicator */}
-              {formData.password && (
-                <div className="mt-3">
-                  <div className="flex items-center justify-between text-sm mb-2">
-                    <span className="text-gray-400">Password Strength:</span>
-                    <span className={`font-medium ${passwordStrength.color.replace('bg-', 'text-')}`}>
-                      {passwordStrength.label}
-                    </span>
-                  </div>
-                  <div className="w-full bg-gray-700 rounded-full h-2">
-                    <div
-                      className={`h-2 rounded-full transition-all duration-300 ${passwordStrength.color}`}
-                      style={{ width: `${passwordStrength.strength}%` }}
-                    ></div>
-                  </div>
-                </div>
-              )}
-            </div>
-
-            {/* Confirm Password Field */}
-            <div>
-              <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-300 mb-2">
-                Confirm Password
-              </label>
-              <div className="relative">
-                <input
-                  type={showPasswords.confirm ? 'text' : 'password'}
-                  id="confirmPassword"
-                  value={formData.confirmPassword}
-                  onChange={(e) => setFormData({ ...formData, confirmPassword: e.target.value })}
-                  className="w-full px-4 py-3 pr-12 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-red-500"
-                  placeholder="Confirm password"
-                  required
-                />
-                <button
-                  type="button"
-                  onClick={() => setShowPasswords({ ...showPasswords, confirm: !showPasswords.confirm })}
-                  className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-white"
-                >
-                  {showPasswords.confirm ? <EyeOff className="h-5 w-5" /> : <Eye className="h-5 w-5" />}
-                </button>
-              </div>
-            </div>
-
             {/* Submit Button */}
             <div className="flex space-x-4 pt-6">
               <Button
@@ -448,12 +302,12 @@ const CreateAdminUserPage: React.FC = () => {
                 {isSubmitting ? (
                   <>
                     <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
-                    Creating...
+                    Sending...
                   </>
                 ) : (
                   <>
-                    <Save className="h-4 w-4 mr-2" />
-                    Create Admin User
+                    <Send className="h-4 w-4 mr-2" />
+                    Send Invitation
                   </>
                 )}
               </Button>
@@ -465,14 +319,76 @@ const CreateAdminUserPage: React.FC = () => {
             <div className="flex items-start">
               <CheckCircle className="h-5 w-5 text-green-500 mr-3 mt-0.5" />
               <div>
-                <h3 className="text-green-500 font-medium">Ready to Create</h3>
+                <h3 className="text-green-500 font-medium">How invitations work</h3>
                 <p className="text-green-400 text-sm mt-1">
-                  The new admin user will be created with the provided password in Firebase Authentication and stored in Firestore.
-                  They can log in immediately with the provided credentials and will appear in the User Management table.
+                  The invitee receives an email with a link that expires after 7 days. They choose their own password
+                  and, when two-factor authentication is enabled for the platform, set it up before their first sign-in.
+                  Resending an invitation replaces the previous link.
                 </p>
               </div>
             </div>
           </div>
+
+          {/* Invitations */}
+          <div className="mt-12">
+            <h2 className="text-xl font-semibold text-white mb-4">Invitations</h2>
+            {loadingInvitations ? (
+              <div className="flex items-center text-gray-400">
+                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-gray-400 mr-2"></div>
+                Loading invitations...
+              </div>
+            ) : invitations.length === 0 ? (
+              <p className="text-gray-400">No invitations have been sent yet.</p>
+            ) : (
+              <div className="bg-gray-800 rounded-lg divide-y divide-gray-700">
+                {invitations.map(invitation => (
+                  <div key={invitation.id} className="flex items-center justify-between p-4">
+                    <div>
+                      <p className="text-white">
+                        {invitation.full_name ? `${invitation.full_name} · ` : ''}{invitation.email}
+                      </p>
+                      <p className="text-gray-400 text-sm flex items-center">
+                        {invitation.role} • Invited by {invitation.invited_by_email}
+                        {invitation.status === 'pending' && (
+                          <>
+                            {' '}• <Clock className="h-3 w-3 mx-1" />
+                            Expires {new Date(invitation.expires_at).toLocaleDateString()}
+                          </>
+                        )}
+                      </p>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <span className={`px-2 py-1 rounded text-xs capitalize ${STATUS_STYLES[invitation.status]}`}>
+                        {invitation.status}
+                      </span>
+                      {(invitation.status === 'pending' || invitation.status === 'expired') && (
+                        <>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleResend(invitation)}
+                            disabled={busyInvitation !== null}
+                            title="Resend invitation"
+                          >
+                            <RefreshCw className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleRevoke(invitation)}
+                            disabled={busyInvitation !== null}
+                            title="Revoke invitation"
+                          >
+                            <XCircle className="h-4 w-4" />
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
         </div>
       </div>
     </Layout>
@@ -44,7 +44,7 @@ const ForgotPasswordPage: React.FC = () => {
     setLoading(true);
 
     try {
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3002/api'}/auth/forgot-password`, {
+      const response = await fetch('/api/auth/forgot-password', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -55,14 +55,13 @@ const ForgotPasswordPage: React.FC = () => {
       const data = await response.json();
 
       if (!response.ok) {
-        throw new Error(data.error || 'Failed to send reset code');
+        throw new Error(data.error || 'Failed to send reset link');
       }
 
       setSuccess(true);
-      console.log('Reset code sent:', data.resetCode); // Remove this in production
     } catch (error) {
       console.error('Forgot password error:', error);
-      setError(error instanceof Error ? error.message : 'Failed to send reset code');
+      setError(error instanceof Error ? error.message : 'Failed to send reset link');
     } finally {
       setLoading(false);
     }
@@ -87,7 +86,7 @@ const ForgotPasswordPage: React.FC = () => {
             Forgot Password
           </h2>
           <p className="text-gray-400">
-            Enter your email to receive a reset code
+            Enter your email to receive a password reset link
           </p>
         </div>
 
@@ -153,7 +152,7 @@ const ForgotPasswordPage: React.FC = () => {
                     <span>Sending...</span>
                   </div>
                 ) : (
-                  <span>Send Reset Code</span>
+                  <span>Send Reset Link</span>
                 )}
               </Button>
             </form>
@@ -164,29 +163,30 @@ const ForgotPasswordPage: React.FC = () => {
               </div>
               <div>
                 <h3 className="text-xl font-semibold text-white mb-2">
-                  Reset Code Sent!
+                  Check Your Email
                 </h3>
                 <p className="text-gray-400 mb-4">
-                  We've sent a 6-digit reset code to your email address.
+                  If an account exists for {email}, we&apos;ve sent a link to reset your password.
+                  The link expires in 30 minutes and can only be used once.
                 </p>
-                <p className="text-sm text-gray-500 bg-gray-700/50 p-3 rounded-lg">
-                  <strong>Development Note:</strong> Check the console for the reset code.
+                <p className="text-sm text-gray-500">
+                  Didn&apos;t get it? Check your spam folder or try again in a few minutes.
                 </p>
               </div>
               <div className="space-y-3">
                 <Button
-                  onClick={() => router.push('/reset-password')}
+                  onClick={() => router.push('/login')}
                   variant="primary"
                   size="lg"
                   className="w-full bg-[#ef4444] hover:bg-[#dc2626] text-white font-semibold py-3 rounded-xl transition-all duration-200 transform hover:scale-[1.02] shadow-lg"
                 >
-                  Enter Reset Code
+                  Back to Login
                 </Button>
                 <button
-                  onClick={() => router.push('/login')}
+                  onClick={() => setSuccess(false)}
                   className="w-full text-gray-400 hover:text-white transition-colors duration-200"
                 >
-                  Back to Login
+                  Use a different email
                 </button>
               </div>
             </div>
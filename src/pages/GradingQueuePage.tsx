@@ -0,0 +1,260 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { AlertTriangle, ArrowLeft, CheckCircle, FileCheck, Paperclip, RefreshCw } from 'lucide-react';
+import Button from '../components/ui/Button';
+import Layout from '../components/layout/Layout';
+import { useNavigate } from '../lib/router';
+import { usePermissions } from '../contexts/PermissionContext';
+import { assignmentAPI } from '../lib/api';
+import { GradingDetail, GradingQueueItem } from '../types';
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+/**
+ * Instructor grading queue for lesson assignments: submissions waiting for a
+ * grade, oldest first, each graded against its assignment's rubric with the
+ * peer reviews it has had alongside
+ */
+const GradingQueuePage: React.FC = () => {
+  const navigate = useNavigate();
+  const { hasPermission } = usePermissions();
+  const [status, setStatus] = useState<'pending' | 'graded'>('pending');
+  const [queue, setQueue] = useState<GradingQueueItem[]>([]);
+  const [detail, setDetail] = useState<GradingDetail | null>(null);
+  const [scores, setScores] = useState<Record<string, number>>({});
+  const [feedback, setFeedback] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const canGrade = hasPermission('courses:edit');
+
+  const loadQueue = useCallback(async () => {
+    if (!canGrade) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const response = await assignmentAPI.getGradingQueue(status);
+      setQueue(response.data);
+    } catch (err) {
+      console.error('Failed to load grading queue:', err);
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to load the grading queue' });
+    } finally {
+      setLoading(false);
+    }
+  }, [canGrade, status]);
+
+  useEffect(() => {
+    setDetail(null);
+    loadQueue();
+  }, [loadQueue]);
+
+  const openSubmission = async (submissionId: string) => {
+    setMessage(null);
+    try {
+      const response = await assignmentAPI.getSubmission(submissionId);
+      setDetail(response.data);
+      setScores(response.data.submission.instructor_grade?.scores || {});
+      setFeedback(response.data.submission.instructor_grade?.feedback || '');
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to load the submission' });
+    }
+  };
+
+  const handleGrade = async () => {
+    if (!detail) return;
+
+    setSaving(true);
+    setMessage(null);
+    try {
+      await assignmentAPI.gradeSubmission(detail.submission.id, scores, feedback);
+      setMessage({ type: 'success', text: 'Grade saved and the learner notified' });
+      setDetail(null);
+      await loadQueue();
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to save the grade' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const rubric = detail?.assignment?.rubric || [];
+  const total = rubric.reduce((sum, criterion) => sum + (scores[criterion.id] || 0), 0);
+  const max = rubric.reduce((sum, criterion) => sum + criterion.max_points, 0);
+
+  return (
+    <Layout>
+      <div className="max-w-screen-xl mx-auto py-16 px-4 sm:px-6 lg:px-8">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-8">
+          <div className="flex items-center">
+            <Button variant="ghost" onClick={() => navigate('/admin')} className="mr-4">
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div>
+              <h1 className="text-3xl font-bold text-white">Grading Queue</h1>
+              <p className="text-gray-400 mt-2">Assignment submissions waiting for an instructor grade</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <select
+              value={status}
+              onChange={(e) => setStatus(e.target.value as 'pending' | 'graded')}
+              className="px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-red-500"
+            >
+              <option value="pending">Waiting for a grade</option>
+              <option value="graded">Graded</option>
+            </select>
+            <Button variant="outline" onClick={loadQueue} disabled={loading} className="flex items-center">
+              <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            </Button>
+          </div>
+        </div>
+
+        {message && (
+          <div className={`mb-6 p-4 rounded-lg flex items-center ${
+            message.type === 'success'
+              ? 'bg-green-600/20 border border-green-500/30 text-green-300'
+              : 'bg-red-600/20 border border-red-500/30 text-red-300'
+          }`}>
+            {message.type === 'success'
+              ? <CheckCircle className="h-5 w-5 mr-2" />
+              : <AlertTriangle className="h-5 w-5 mr-2" />}
+            <span>{message.text}</span>
+          </div>
+        )}
+
+        {!canGrade ? (
+          <div className="bg-gray-800 rounded-lg p-8 text-center text-gray-400">
+            You don&apos;t have permission to grade assignments.
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="bg-gray-800 rounded-lg p-4 space-y-2 lg:col-span-1">
+              {loading ? (
+                <p className="text-gray-400 text-sm p-2">Loading submissions...</p>
+              ) : queue.length === 0 ? (
+                <p className="text-gray-400 text-sm p-2">Nothing here.</p>
+              ) : queue.map(item => (
+                <button
+                  key={item.id}
+                  type="button"
+                  onClick={() => openSubmission(item.id)}
+                  className={`w-full text-left p-3 rounded-lg transition-colors ${
+                    detail?.submission.id === item.id ? 'bg-gray-700' : 'hover:bg-gray-700/50'
+                  }`}
+                >
+                  <p className="text-white text-sm">{item.user_name || item.user_email || item.user_id}</p>
+                  <p className="text-gray-400 text-xs">
+                    {formatTime(item.submitted_at)} • v{item.version}
+                    {item.late && <span className="text-yellow-400"> • late</span>}
+                  </p>
+                  <p className="text-gray-500 text-xs">
+                    {item.final_score !== null
+                      ? `${item.final_score}% (${item.grade_source})`
+                      : `${item.peer_reviews_completed} peer review${item.peer_reviews_completed === 1 ? '' : 's'}${item.peer_score !== null ? ` • peer ${item.peer_score}%` : ''}`}
+                  </p>
+                </button>
+              ))}
+            </div>
+
+            <div className="bg-gray-800 rounded-lg p-6 lg:col-span-2">
+              {!detail ? (
+                <p className="text-gray-400 text-sm">Choose a submission to grade.</p>
+              ) : (
+                <div className="space-y-5">
+                  <div>
+                    <h2 className="text-xl font-semibold text-white flex items-center">
+                      <FileCheck className="h-5 w-5 mr-2" />
+                      {detail.assignment?.title || 'Deleted assignment'}
+                    </h2>
+                    <p className="text-gray-400 text-sm mt-1">
+                      {detail.submission.user_name || detail.submission.user_email} • handed in {formatTime(detail.submission.submitted_at)}
+                      {detail.assignment?.due_at && ` • due ${formatTime(detail.assignment.due_at)}`}
+                    </p>
+                  </div>
+
+                  <ul className="space-y-1">
+                    {detail.submission.files.map(file => (
+                      <li key={file.url} className="flex items-center text-sm">
+                        <Paperclip className="h-4 w-4 text-gray-400 mr-2" />
+                        <a href={file.url} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:text-blue-300">
+                          {file.name}
+                        </a>
+                      </li>
+                    ))}
+                  </ul>
+                  {detail.submission.text && <p className="text-gray-300 text-sm whitespace-pre-line">{detail.submission.text}</p>}
+
+                  {detail.peer_reviews.length > 0 && (
+                    <div className="border border-gray-700 rounded-lg p-4 space-y-2">
+                      <h3 className="text-white font-medium">
+                        Peer reviews{detail.submission.peer_score !== null && ` • calibrated ${detail.submission.peer_score}%`}
+                      </h3>
+                      {detail.peer_reviews.map((peer, index) => (
+                        <div key={peer.id} className="text-sm">
+                          <p className="text-gray-300">Reviewer {index + 1}: {peer.percentage}%</p>
+                          {peer.comment && <p className="text-gray-400 whitespace-pre-line">{peer.comment}</p>}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {detail.assignment && (
+                    <div className="space-y-3">
+                      <h3 className="text-white font-medium">Rubric</h3>
+                      {rubric.map(criterion => (
+                        <div key={criterion.id} className="flex flex-wrap items-center justify-between gap-3">
+                          <div className="text-sm">
+                            <p className="text-white">{criterion.title}</p>
+                            {criterion.description && <p className="text-gray-400">{criterion.description}</p>}
+                          </div>
+                          <label className="flex items-center text-sm text-gray-300">
+                            <input
+                              type="number"
+                              min={0}
+                              max={criterion.max_points}
+                              value={scores[criterion.id] ?? ''}
+                              onChange={(e) => setScores(prev => ({ ...prev, [criterion.id]: Number(e.target.value) }))}
+                              className="w-20 px-2 py-1 bg-gray-700 border border-gray-600 rounded-lg text-white mr-2"
+                            />
+                            / {criterion.max_points}
+                          </label>
+                        </div>
+                      ))}
+                      <p className="text-sm text-gray-400">
+                        {total} / {max} ({max > 0 ? Math.round((total / max) * 100) : 0}%) • pass mark {detail.assignment.pass_mark}%
+                      </p>
+                      <textarea
+                        value={feedback}
+                        onChange={(e) => setFeedback(e.target.value)}
+                        placeholder="Feedback for the learner"
+                        rows={4}
+                        className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                      />
+                      <div className="flex justify-end">
+                        <Button
+                          variant="primary"
+                          onClick={handleGrade}
+                          disabled={saving || rubric.some(criterion => scores[criterion.id] === undefined)}
+                          className="flex items-center"
+                        >
+                          {saving && <RefreshCw className="h-4 w-4 mr-2 animate-spin" />}
+                          Save Grade
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default GradingQueuePage;
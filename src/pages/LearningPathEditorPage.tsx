@@ -0,0 +1,369 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { AlertTriangle, ArrowDown, ArrowLeft, ArrowUp, CheckCircle, Eye, Plus, RefreshCw, Route, Trash2, X } from 'lucide-react';
+import Button from '../components/ui/Button';
+import Layout from '../components/layout/Layout';
+import { formatPathDuration } from '../components/ui/LearningPathCard';
+import { useNavigate } from '../lib/router';
+import { usePermissions } from '../contexts/PermissionContext';
+import { courseAPI, learningPathAPI, LearningPathInput } from '../lib/api';
+import { Course, LearningPathDetail, LearningPathEntry } from '../types';
+
+const inputClass = 'w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:ring-2 focus:ring-red-500 focus:border-transparent disabled:opacity-50';
+
+const emptyPath = (): LearningPathInput => ({
+  title: '',
+  description: '',
+  thumbnail: '',
+  courses: [],
+  published: false
+});
+
+// A course may only depend on courses placed before it
+const prunePrerequisites = (courses: LearningPathEntry[]): LearningPathEntry[] =>
+  courses.map((entry, index) => {
+    const earlier = new Set(courses.slice(0, index).map(item => item.course_id));
+    return { ...entry, prerequisite_course_ids: entry.prerequisite_course_ids.filter(id => earlier.has(id)) };
+  });
+
+/**
+ * Compose learning paths from existing courses: order them, mark which
+ * earlier courses each one needs, and publish the path to the catalogue
+ */
+const LearningPathEditorPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { hasPermission } = usePermissions();
+  const [paths, setPaths] = useState<LearningPathDetail[]>([]);
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [form, setForm] = useState<LearningPathInput>(emptyPath());
+  const [courseToAdd, setCourseToAdd] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const canEdit = hasPermission('courses:edit');
+
+  const loadData = useCallback(async () => {
+    if (!canEdit) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const [pathsResponse, coursesResponse] = await Promise.all([
+        learningPathAPI.getPaths(),
+        courseAPI.getAllCourses()
+      ]);
+      setPaths(pathsResponse.data);
+      setCourses(Array.isArray(coursesResponse.data) ? coursesResponse.data : []);
+    } catch (err) {
+      console.error('Failed to load learning paths:', err);
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to load learning paths' });
+    } finally {
+      setLoading(false);
+    }
+  }, [canEdit]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const selectPath = (path: LearningPathDetail | null) => {
+    setMessage(null);
+    setSelectedId(path?.id || null);
+    setForm(path
+      ? {
+        title: path.title,
+        description: path.description,
+        thumbnail: path.thumbnail,
+        // Editors get every member course back, published or not; deleted courses drop out
+        courses: path.courses.map(course => ({
+          course_id: course.course_id,
+          prerequisite_course_ids: course.prerequisite_course_ids
+        })),
+        published: path.published
+      }
+      : emptyPath());
+  };
+
+  const titleOf = (courseId: string) => courses.find(course => course.id === courseId)?.title || courseId;
+
+  const updateCourses = (update: (current: LearningPathEntry[]) => LearningPathEntry[]) => {
+    setForm(prev => ({ ...prev, courses: prunePrerequisites(update(prev.courses)) }));
+  };
+
+  const addCourse = () => {
+    if (!courseToAdd) return;
+    updateCourses(current => [...current, { course_id: courseToAdd, prerequisite_course_ids: [] }]);
+    setCourseToAdd('');
+  };
+
+  const moveCourse = (index: number, offset: number) => {
+    updateCourses(current => {
+      const next = [...current];
+      const [entry] = next.splice(index, 1);
+      next.splice(index + offset, 0, entry);
+      return next;
+    });
+  };
+
+  const togglePrerequisite = (index: number, courseId: string) => {
+    updateCourses(current => current.map((entry, position) => {
+      if (position !== index) return entry;
+      const prerequisites = entry.prerequisite_course_ids.includes(courseId)
+        ? entry.prerequisite_course_ids.filter(id => id !== courseId)
+        : [...entry.prerequisite_course_ids, courseId];
+      return { ...entry, prerequisite_course_ids: prerequisites };
+    }));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      const response = selectedId
+        ? await learningPathAPI.updatePath(selectedId, form)
+        : await learningPathAPI.createPath(form);
+      setSelectedId(response.data.id);
+      setMessage({ type: 'success', text: selectedId ? 'Learning path saved' : 'Learning path created' });
+      await loadData();
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to save the learning path' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selectedId || !confirm(`Delete the learning path "${form.title}"? Certificates already earned are kept.`)) return;
+
+    setSaving(true);
+    setMessage(null);
+    try {
+      await learningPathAPI.deletePath(selectedId);
+      selectPath(null);
+      setMessage({ type: 'success', text: 'Learning path deleted' });
+      await loadData();
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to delete the learning path' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const available = courses.filter(course => !form.courses.some(entry => entry.course_id === course.id));
+  const selectedPath = paths.find(path => path.id === selectedId);
+
+  return (
+    <Layout>
+      <div className="max-w-screen-xl mx-auto py-16 px-4 sm:px-6 lg:px-8">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-8">
+          <div className="flex items-center">
+            <Button variant="ghost" onClick={() => navigate('/admin')} className="mr-4">
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div>
+              <h1 className="text-3xl font-bold text-white">Learning Paths</h1>
+              <p className="text-gray-400 mt-2">Bundle existing courses into ordered tracks with a certificate at the end</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={loadData} disabled={loading} className="flex items-center">
+              <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            </Button>
+            {canEdit && (
+              <Button variant="primary" onClick={() => selectPath(null)} className="flex items-center">
+                <Plus className="h-4 w-4 mr-2" />
+                New Path
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {message && (
+          <div className={`mb-6 p-4 rounded-lg flex items-center ${
+            message.type === 'success'
+              ? 'bg-green-600/20 border border-green-500/30 text-green-300'
+              : 'bg-red-600/20 border border-red-500/30 text-red-300'
+          }`}>
+            {message.type === 'success'
+              ? <CheckCircle className="h-5 w-5 mr-2" />
+              : <AlertTriangle className="h-5 w-5 mr-2" />}
+            <span>{message.text}</span>
+          </div>
+        )}
+
+        {!canEdit ? (
+          <div className="bg-gray-800 rounded-lg p-8 text-center text-gray-400">
+            You don&apos;t have permission to manage learning paths.
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="bg-gray-800 rounded-lg p-4 space-y-2 lg:col-span-1">
+              {loading ? (
+                <p className="text-gray-400 text-sm p-2">Loading learning paths...</p>
+              ) : paths.length === 0 ? (
+                <p className="text-gray-400 text-sm p-2">No learning paths yet.</p>
+              ) : paths.map(path => (
+                <button
+                  key={path.id}
+                  type="button"
+                  onClick={() => selectPath(path)}
+                  className={`w-full text-left p-3 rounded-lg transition-colors ${
+                    selectedId === path.id ? 'bg-gray-700' : 'hover:bg-gray-700/50'
+                  }`}
+                >
+                  <p className="text-white text-sm flex items-center">
+                    <Route className="h-4 w-4 mr-2 flex-shrink-0" />
+                    {path.title}
+                  </p>
+                  <p className="text-gray-400 text-xs">
+                    {path.course_ids.length} course{path.course_ids.length === 1 ? '' : 's'} • {formatPathDuration(path.estimated_minutes)}
+                    {!path.published && <span className="text-yellow-400"> • draft</span>}
+                  </p>
+                </button>
+              ))}
+            </div>
+
+            <div className="bg-gray-800 rounded-lg p-6 space-y-5 lg:col-span-2">
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <h2 className="text-xl font-semibold text-white">{selectedId ? 'Edit Path' : 'New Path'}</h2>
+                {selectedPath && (
+                  <Button variant="ghost" onClick={() => navigate(`/path/${selectedPath.id}`)} className="flex items-center text-sm">
+                    <Eye className="h-4 w-4 mr-2" />
+                    View
+                  </Button>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">Title</label>
+                <input
+                  type="text"
+                  value={form.title}
+                  onChange={(e) => setForm(prev => ({ ...prev, title: e.target.value }))}
+                  disabled={saving}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">Description</label>
+                <textarea
+                  value={form.description}
+                  onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+                  disabled={saving}
+                  rows={3}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">Thumbnail URL</label>
+                <input
+                  type="url"
+                  value={form.thumbnail}
+                  onChange={(e) => setForm(prev => ({ ...prev, thumbnail: e.target.value }))}
+                  disabled={saving}
+                  placeholder="Defaults to the first course's thumbnail"
+                  className={inputClass}
+                />
+              </div>
+
+              <div className="space-y-3">
+                <h3 className="text-white font-medium">Courses</h3>
+                {form.courses.length === 0 && <p className="text-gray-400 text-sm">Add the courses in the order learners should take them.</p>}
+                {form.courses.map((entry, index) => (
+                  <div key={entry.course_id} className="border border-gray-700 rounded-lg p-3">
+                    <div className="flex items-center justify-between gap-3">
+                      <p className="text-white text-sm">{index + 1}. {titleOf(entry.course_id)}</p>
+                      <div className="flex items-center gap-1">
+                        <Button variant="ghost" size="sm" onClick={() => moveCourse(index, -1)} disabled={saving || index === 0}>
+                          <ArrowUp className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => moveCourse(index, 1)} disabled={saving || index === form.courses.length - 1}>
+                          <ArrowDown className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => updateCourses(current => current.filter((_, position) => position !== index))}
+                          disabled={saving}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                    {index > 0 && (
+                      <div className="mt-2 flex flex-wrap gap-x-4 gap-y-1">
+                        <span className="text-gray-400 text-xs">Requires:</span>
+                        {form.courses.slice(0, index).map(earlier => (
+                          <label key={earlier.course_id} className="flex items-center text-xs text-gray-300">
+                            <input
+                              type="checkbox"
+                              checked={entry.prerequisite_course_ids.includes(earlier.course_id)}
+                              onChange={() => togglePrerequisite(index, earlier.course_id)}
+                              disabled={saving}
+                              className="mr-1"
+                            />
+                            {titleOf(earlier.course_id)}
+                          </label>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                ))}
+                <div className="flex gap-2">
+                  <select
+                    value={courseToAdd}
+                    onChange={(e) => setCourseToAdd(e.target.value)}
+                    disabled={saving || available.length === 0}
+                    className={inputClass}
+                  >
+                    <option value="">Choose a course to add</option>
+                    {available.map(course => (
+                      <option key={course.id} value={course.id}>{course.title}</option>
+                    ))}
+                  </select>
+                  <Button variant="outline" onClick={addCourse} disabled={saving || !courseToAdd} className="flex items-center">
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+
+              <label className="flex items-center text-sm text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={form.published}
+                  onChange={(e) => setForm(prev => ({ ...prev, published: e.target.checked }))}
+                  disabled={saving}
+                  className="mr-2"
+                />
+                Published (listed in the catalogue and suggested at the end of its courses)
+              </label>
+
+              <div className="flex justify-between">
+                {selectedId ? (
+                  <Button variant="outline" onClick={handleDelete} disabled={saving} className="flex items-center text-red-400">
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Delete
+                  </Button>
+                ) : <span />}
+                <Button
+                  variant="primary"
+                  onClick={handleSave}
+                  disabled={saving || !form.title.trim() || form.courses.length === 0}
+                  className="flex items-center"
+                >
+                  {saving && <RefreshCw className="h-4 w-4 mr-2 animate-spin" />}
+                  Save Path
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default LearningPathEditorPage;
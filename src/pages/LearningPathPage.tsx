@@ -0,0 +1,195 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/router';
+import Link from 'next/link';
+import { AlertTriangle, ArrowLeft, Award, BookOpen, CheckCircle, Clock, Loader2, Lock, Route } from 'lucide-react';
+import Button from '../components/ui/Button';
+import Layout from '../components/layout/Layout';
+import { formatPathDuration } from '../components/ui/LearningPathCard';
+import { useAuth } from '../contexts/AuthContext';
+import { learningPathAPI } from '../lib/api';
+import { LearningPathDetail } from '../types';
+
+/**
+ * A learning path: its courses in order with their prerequisites, the
+ * learner's progress through each, and the path certificate once they are all
+ * done
+ */
+const LearningPathPage: React.FC = () => {
+  const router = useRouter();
+  const { pathId } = router.query;
+  const { user } = useAuth();
+  const [path, setPath] = useState<LearningPathDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [claiming, setClaiming] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const loadPath = useCallback(async () => {
+    if (!pathId || typeof pathId !== 'string') return;
+
+    try {
+      setLoading(true);
+      const response = await learningPathAPI.getPath(pathId);
+      setPath(response.data);
+      setError(null);
+    } catch (err) {
+      console.error('Failed to load learning path:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load the learning path');
+    } finally {
+      setLoading(false);
+    }
+  }, [pathId]);
+
+  useEffect(() => {
+    loadPath();
+  }, [loadPath, user?.id]);
+
+  const handleClaim = async () => {
+    if (!path) return;
+
+    setClaiming(true);
+    setMessage(null);
+    try {
+      await learningPathAPI.claimCertificate(path.id);
+      setMessage({ type: 'success', text: 'Certificate issued - find it on your profile' });
+      await loadPath();
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to issue the certificate' });
+    } finally {
+      setClaiming(false);
+    }
+  };
+
+  const progressFor = (courseId: string) => path?.progress?.courses.find(course => course.course_id === courseId);
+  const titleOf = (courseId: string) => path?.courses.find(course => course.course_id === courseId)?.title || courseId;
+
+  return (
+    <Layout>
+      <div className="max-w-screen-lg mx-auto py-16 px-4 sm:px-6 lg:px-8">
+        <div className="flex items-center mb-8">
+          <Button variant="ghost" onClick={() => router.push('/paths')} className="mr-4">
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold text-white flex items-center">
+              <Route className="h-7 w-7 mr-3" />
+              {path?.title || 'Learning Path'}
+            </h1>
+            {path && (
+              <p className="text-gray-400 mt-2">
+                {path.courses.length} course{path.courses.length === 1 ? '' : 's'} • about {formatPathDuration(path.estimated_minutes)}
+                {!path.published && <span className="text-yellow-400"> • Not published</span>}
+              </p>
+            )}
+          </div>
+        </div>
+
+        {loading && !path ? (
+          <div className="flex justify-center py-16">
+            <Loader2 className="h-8 w-8 text-gray-400 animate-spin" />
+          </div>
+        ) : error || !path ? (
+          <div className="bg-gray-800 rounded-lg p-8 text-center text-gray-400">
+            {error || 'Learning path not found'}
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {path.description && <p className="text-gray-300 whitespace-pre-line">{path.description}</p>}
+
+            {message && (
+              <div className={`p-4 rounded-lg flex items-center ${
+                message.type === 'success'
+                  ? 'bg-green-600/20 border border-green-500/30 text-green-300'
+                  : 'bg-red-600/20 border border-red-500/30 text-red-300'
+              }`}>
+                {message.type === 'success'
+                  ? <CheckCircle className="h-5 w-5 mr-2" />
+                  : <AlertTriangle className="h-5 w-5 mr-2" />}
+                <span>{message.text}</span>
+              </div>
+            )}
+
+            {path.progress ? (
+              <div className="bg-gray-800 rounded-lg p-6">
+                <div className="flex flex-wrap items-center justify-between gap-4 mb-3">
+                  <p className="text-white">
+                    {path.progress.completed_courses} of {path.progress.total_courses} courses complete
+                  </p>
+                  {path.progress.completed && (
+                    path.progress.certificate_id ? (
+                      <span className="flex items-center text-green-400 text-sm">
+                        <Award className="h-4 w-4 mr-1" />
+                        Certificate earned
+                      </span>
+                    ) : (
+                      <Button variant="primary" onClick={handleClaim} disabled={claiming} className="flex items-center">
+                        {claiming ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Award className="h-4 w-4 mr-2" />}
+                        Claim Certificate
+                      </Button>
+                    )
+                  )}
+                </div>
+                <div className="w-full bg-gray-700 rounded-full h-2">
+                  <div className="bg-red-500 h-2 rounded-full" style={{ width: `${path.progress.percentage}%` }} />
+                </div>
+              </div>
+            ) : (
+              <div className="bg-gray-800 rounded-lg p-6 text-gray-400">
+                <Link href="/login" className="text-red-400 hover:text-red-300">Sign in</Link> to track your progress and earn the path certificate.
+              </div>
+            )}
+
+            <ol className="space-y-3">
+              {path.courses.map((course, index) => {
+                const progress = progressFor(course.course_id);
+                return (
+                  <li key={course.course_id} className="bg-gray-800 rounded-lg p-4 flex gap-4">
+                    <div className="flex-shrink-0 w-8 h-8 rounded-full bg-gray-700 flex items-center justify-center text-white">
+                      {progress?.completed ? <CheckCircle className="h-5 w-5 text-green-400" /> : index + 1}
+                    </div>
+                    {course.thumbnail && (
+                      <img src={course.thumbnail} alt={course.title} className="hidden sm:block w-32 h-20 object-cover rounded" />
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <div className="flex flex-wrap items-center justify-between gap-2">
+                        {progress?.locked ? (
+                          <span className="text-gray-400 font-medium flex items-center">
+                            <Lock className="h-4 w-4 mr-2" />
+                            {course.title}
+                          </span>
+                        ) : (
+                          <Link href={`/course/${course.course_id}`} className="text-white font-medium hover:text-red-500">
+                            {course.title}
+                          </Link>
+                        )}
+                        <span className="text-gray-400 text-sm flex items-center">
+                          <BookOpen className="h-4 w-4 mr-1" />
+                          {course.lesson_count} lessons
+                          <Clock className="h-4 w-4 ml-3 mr-1" />
+                          {formatPathDuration(course.duration_minutes)}
+                        </span>
+                      </div>
+                      {course.description && <p className="text-gray-400 text-sm mt-1 line-clamp-2">{course.description}</p>}
+                      {course.prerequisite_course_ids.length > 0 && (
+                        <p className="text-gray-500 text-xs mt-1">
+                          After: {course.prerequisite_course_ids.map(titleOf).join(', ')}
+                        </p>
+                      )}
+                      {progress && progress.completed_lessons > 0 && !progress.completed && (
+                        <div className="w-full bg-gray-700 rounded-full h-1.5 mt-2">
+                          <div className="bg-red-500 h-1.5 rounded-full" style={{ width: `${progress.percentage}%` }} />
+                        </div>
+                      )}
+                    </div>
+                  </li>
+                );
+              })}
+            </ol>
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default LearningPathPage;
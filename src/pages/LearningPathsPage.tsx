@@ -0,0 +1,65 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, Route } from 'lucide-react';
+import Layout from '../components/layout/Layout';
+import LearningPathCard from '../components/ui/LearningPathCard';
+import { useAuth } from '../contexts/AuthContext';
+import { learningPathAPI } from '../lib/api';
+import { LearningPathDetail } from '../types';
+
+/**
+ * Catalogue of learning paths: curated tracks of courses taken in order
+ */
+const LearningPathsPage: React.FC = () => {
+  const { user } = useAuth();
+  const [paths, setPaths] = useState<LearningPathDetail[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadPaths = async () => {
+      try {
+        setLoading(true);
+        const response = await learningPathAPI.getPaths();
+        setPaths(response.data);
+        setError(null);
+      } catch (err) {
+        console.error('Failed to load learning paths:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load learning paths');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadPaths();
+  }, [user?.id]);
+
+  return (
+    <Layout>
+      <div className="max-w-screen-xl mx-auto py-16 px-4 sm:px-6 lg:px-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold text-white flex items-center">
+            <Route className="h-7 w-7 mr-3" />
+            Learning Paths
+          </h1>
+          <p className="text-gray-400 mt-2">Follow a track of courses from start to finish and earn a certificate for the whole path</p>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-16">
+            <Loader2 className="h-8 w-8 text-gray-400 animate-spin" />
+          </div>
+        ) : error ? (
+          <div className="bg-gray-800 rounded-lg p-8 text-center text-red-400">{error}</div>
+        ) : paths.length === 0 ? (
+          <div className="bg-gray-800 rounded-lg p-8 text-center text-gray-400">No learning paths yet.</div>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+            {paths.map(path => <LearningPathCard key={path.id} path={path} />)}
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default LearningPathsPage;
@@ -5,12 +5,29 @@ import { useAuth } from '../contexts/AuthContext';
 import Button from '../components/ui/Button';
 import ErrorDisplay from '../components/ui/ErrorDisplay';
 import ValidationMessage from '../components/ui/ValidationMessage';
+import TwoFactorChallenge from '../components/auth/TwoFactorChallenge';
+import { authService, MfaChallenge, SsoProvider } from '../lib/authService';
 import { validateEmail, getAuthErrorMessage, extractErrorCode } from '../utils/validation';
-import { Eye, EyeOff, Mail, Lock, ArrowRight, HelpCircle, ExternalLink } from 'lucide-react';
+import { Eye, EyeOff, Mail, Lock, ArrowRight, HelpCircle, ExternalLink, Building2 } from 'lucide-react';
+
+// Reasons the single sign-on callback sends back as ?sso_error=
+const SSO_ERROR_MESSAGES: Record<string, string> = {
+  access_denied: 'Sign-in was cancelled at your organisation\'s login page.',
+  expired: 'Your single sign-on attempt expired. Please try again.',
+  email_unverified: 'Your organisation did not confirm your email address, so we could not sign you in.',
+  domain_not_allowed: 'Your email domain is not allowed to use this sign-in option.',
+  not_provisioned: 'There is no account for your email yet. Ask an administrator to invite you.',
+  identity_mismatch: 'This account is linked to a different identity at your organisation.',
+  link_required: 'Sign in with your password first, then link this sign-in option from your profile.',
+  suspended: 'Your account has been suspended. Please contact User Support.',
+  unknown_provider: 'That sign-in option is no longer available.',
+  provider_unavailable: 'Your organisation\'s login page could not be reached. Please try again later.',
+  failed: 'Single sign-on failed. Please try again.'
+};
 
 const LoginPage: React.FC = () => {
   const router = useRouter();
-  const { signIn, error: authError, clearError, user } = useAuth();
+  const { signIn, completeSignIn, error: authError, clearError, user } = useAuth();
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [showPassword, setShowPassword] = useState(false);
@@ -19,6 +36,8 @@ const LoginPage: React.FC = () => {
   const [success, setSuccess] = useState('');
   const [validationErrors, setValidationErrors] = useState<Record<string, string>>({});
   const [showHelp, setShowHelp] = useState(false);
+  const [mfaChallenge, setMfaChallenge] = useState<MfaChallenge | null>(null);
+  const [ssoProviders, setSsoProviders] = useState<SsoProvider[]>([]);
 
   // Use auth error if available, otherwise use local error
   const displayError = authError || error;
@@ -32,6 +51,35 @@ const LoginPage: React.FC = () => {
     }
   }, [displayError]);
 
+  useEffect(() => {
+    authService.getSsoProviders()
+      .then(setSsoProviders)
+      .catch(err => console.warn('⚠️ Could not load single sign-on providers:', err));
+  }, []);
+
+  // Results of a single sign-on round trip: an error code, or a second-factor challenge in the fragment
+  useEffect(() => {
+    if (!router.isReady) return;
+
+    const ssoError = router.query.sso_error;
+    if (typeof ssoError === 'string') {
+      setError(SSO_ERROR_MESSAGES[ssoError] || SSO_ERROR_MESSAGES.failed);
+      router.replace('/login', undefined, { shallow: true });
+    }
+
+    const fragment = new URLSearchParams(window.location.hash.slice(1));
+    const mfaToken = fragment.get('mfa_token');
+    if (mfaToken) {
+      setMfaChallenge({
+        message: 'Two-factor authentication required',
+        mfaRequired: true,
+        enrollmentRequired: fragment.get('enroll') === '1',
+        mfaToken
+      });
+      window.history.replaceState(null, '', window.location.pathname);
+    }
+  }, [router]);
+
   // Clear success message after 3 seconds
   useEffect(() => {
     if (success) {
@@ -75,7 +123,11 @@ const LoginPage: React.FC = () => {
     setLoading(true);
 
     try {
-      await signIn({ email, password });
+      const challenge = await signIn({ email, password });
+      if (challenge) {
+        setMfaChallenge(challenge);
+        return;
+      }
       setSuccess('Login successful! Redirecting...');
       // AuthContext will handle the redirect automatically when user is set
     } catch (error) {
@@ -113,6 +165,16 @@ const LoginPage: React.FC = () => {
 
         {/* Login Form */}
         <div className="bg-brand-surface/80 backdrop-blur-sm rounded-2xl p-8 border border-white/10 shadow-brand-glow -mt-2">
+          {mfaChallenge ? (
+            <TwoFactorChallenge
+              challenge={mfaChallenge}
+              onComplete={completeSignIn}
+              onCancel={() => {
+                setMfaChallenge(null);
+                setPassword('');
+              }}
+            />
+          ) : (
           <form onSubmit={handleSubmit} className="space-y-6">
             {/* Email Field */}
             <div className="space-y-2">
@@ -223,7 +285,30 @@ const LoginPage: React.FC = () => {
                 </div>
               )}
             </Button>
+
+            {/* Single Sign-On */}
+            {ssoProviders.length > 0 && (
+              <div className="space-y-3">
+                <div className="flex items-center">
+                  <div className="flex-1 border-t border-white/10"></div>
+                  <span className="px-3 text-xs uppercase tracking-wide text-gray-400">or</span>
+                  <div className="flex-1 border-t border-white/10"></div>
+                </div>
+                {ssoProviders.map(provider => (
+                  <button
+                    key={provider.id}
+                    type="button"
+                    onClick={() => authService.startSsoLogin(provider.id)}
+                    className="w-full flex items-center justify-center space-x-2 py-3 rounded-xl border border-white/10 bg-brand-surface-muted/70 text-white hover:bg-brand-surface-muted transition-colors duration-200"
+                  >
+                    <Building2 className="h-5 w-5 text-red-500" />
+                    <span>Continue with {provider.name}</span>
+                  </button>
+                ))}
+              </div>
+            )}
           </form>
+          )}
 
           {/* Demo Accounts */}
         <div className="mt-8 p-4 bg-brand-surface-muted/40 rounded-xl border border-white/10">
@@ -0,0 +1,85 @@
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Wrench, Clock, RefreshCw } from 'lucide-react';
+import Button from '../components/ui/Button';
+import { maintenanceAPI } from '../lib/api';
+import { DEFAULT_MAINTENANCE_MESSAGE } from '../lib/maintenance';
+import { MaintenanceStatus } from '../types';
+
+// How often to check whether the platform is back
+const POLL_INTERVAL_MS = 60 * 1000;
+
+const MaintenancePage: React.FC = () => {
+  const [status, setStatus] = useState<MaintenanceStatus | null>(null);
+
+  useEffect(() => {
+    const loadStatus = async () => {
+      try {
+        const response = await maintenanceAPI.getStatus();
+        // Middleware rewrites to this page without changing the URL, so a reload brings the user back
+        if (!response.data.active && window.location.pathname !== '/maintenance') {
+          window.location.reload();
+          return;
+        }
+        setStatus(response.data);
+      } catch (error) {
+        console.error('Failed to load maintenance status:', error);
+      }
+    };
+
+    loadStatus();
+    const interval = setInterval(loadStatus, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const endsAt = status?.endsAt ? new Date(status.endsAt) : null;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8 bg-brand-background-gradient">
+      <div className="max-w-md w-full text-center">
+        <div className="mx-auto w-16 h-16 bg-gradient-to-r from-red-600 to-red-500 rounded-2xl flex items-center justify-center mb-4 shadow-lg">
+          <span className="text-white text-2xl font-bold">FA</span>
+        </div>
+
+        <div className="bg-gray-800/50 backdrop-blur-sm rounded-2xl p-8 border border-gray-700/50 shadow-2xl">
+          <div className="bg-yellow-500/10 p-4 rounded-full inline-block mb-6">
+            <Wrench className="h-10 w-10 text-yellow-500" />
+          </div>
+
+          <h1 className="text-3xl font-bold text-white mb-4">We&apos;ll be right back</h1>
+          <p className="text-gray-400 mb-6">
+            {status?.message || DEFAULT_MAINTENANCE_MESSAGE}
+          </p>
+
+          {endsAt && (
+            <div className="flex items-center justify-center space-x-2 text-sm text-gray-300 bg-gray-700/50 p-3 rounded-lg mb-6">
+              <Clock className="h-4 w-4 text-gray-400" />
+              <span>
+                Expected back by {endsAt.toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}
+              </span>
+            </div>
+          )}
+
+          <Button
+            variant="primary"
+            size="lg"
+            onClick={() => window.location.reload()}
+            className="w-full flex items-center justify-center bg-[#ef4444] hover:bg-[#dc2626] text-white font-semibold py-3 rounded-xl"
+          >
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Try Again
+          </Button>
+
+          <Link
+            href="/admin/login"
+            className="block mt-4 text-sm text-gray-500 hover:text-gray-300 transition-colors"
+          >
+            Staff sign in
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MaintenancePage;
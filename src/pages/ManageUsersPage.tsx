@@ -1,15 +1,18 @@
 import React, { useState, useEffect } from 'react';
-import { ArrowLeft, Search, User, Mail, Activity, Plus, Shield, Ban, CheckCircle, Eye, Settings, Loader2, X, Calendar, BookOpen, Award } from 'lucide-react';
+import { ArrowLeft, Search, User, Mail, Activity, Plus, Shield, Ban, CheckCircle, Eye, EyeOff, Settings, Loader2, X, Calendar, BookOpen, Award } from 'lucide-react';
 import Button from '../components/ui/Button';
 import { useNavigate } from '../lib/router';
 import { usePermissions } from '../contexts/PermissionContext';
+import { useAuth } from '../contexts/AuthContext';
 import PermissionGuard from '../components/ui/PermissionGuard';
 import ErrorMessage from '../components/ui/ErrorMessage';
 import { useUsers } from '../hooks/useDatabase';
 import Image from 'next/image';
 import Layout from '../components/layout/Layout';
 import { standardizeRole } from '../lib/roleStandardization';
-import { UserRole } from '../types';
+import { Permission, PermissionOverrides, ROLE_PERMISSIONS, UserPermissionDetails, UserRole } from '../types';
+import { canManageRole, getPermissionDisplayName, getRoleDisplayName, getRoleHierarchy, groupPermissionsByCategory } from '../utils/permissions';
+import { userAPI } from '../lib/api';
 
 interface UserData {
   id: string;
@@ -24,22 +27,28 @@ interface UserData {
   avatar?: string;
 }
 
-interface Permission {
-  id: string;
-  name: string;
-  description: string;
-  category: string;
-  enabled: boolean;
-}
+// Every permission except full access, which only the Super Admin role carries
+const ASSIGNABLE_PERMISSIONS = ROLE_PERMISSIONS['Super Admin'].filter(permission => permission !== 'system:full_access');
+
+// Time boxes offered for "view as user"; the server caps impersonation at 60 minutes
+const IMPERSONATION_DURATIONS = [15, 30, 60];
+
+// Built-in roles, lowest first, until the stored role definitions load
+const DEFAULT_ROLE_OPTIONS: UserRole[] = ['user', 'Content Manager', 'Community Manager', 'User Support', 'Super Admin'];
 
 const ManageUsersPage: React.FC = () => {
   const navigate = useNavigate();
-  const { userRole, hasPermission } = usePermissions();
+  const { userRole, hasPermission, roles } = usePermissions();
+  const { user: currentUser, startImpersonation } = useAuth();
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<'all' | 'active' | 'suspended' | 'pending'>('all');
-  const [roleFilter, setRoleFilter] = useState<'all' | 'user' | 'Content Manager' | 'Community Manager' | 'User Support' | 'Super Admin'>('all');
+  const [roleFilter, setRoleFilter] = useState<'all' | UserRole>('all');
   const [permissionError, setPermissionError] = useState<string | null>(null);
+  const [actionNotice, setActionNotice] = useState<string | null>(null);
   const [users, setUsers] = useState<UserData[]>([]);
+  const roleOptions: UserRole[] = roles.length > 0
+    ? [...roles].reverse().map(role => role.name)
+    : DEFAULT_ROLE_OPTIONS;
 
   // Modal states
   const [showUserModal, setShowUserModal] = useState(false);
@@ -47,12 +56,20 @@ const ManageUsersPage: React.FC = () => {
   const [showPasswordModal, setShowPasswordModal] = useState(false);
   const [showRoleModal, setShowRoleModal] = useState(false);
   const [selectedUser, setSelectedUser] = useState<UserData | null>(null);
-  const [userPermissions, setUserPermissions] = useState<Permission[]>([]);
+  const [permissionDetails, setPermissionDetails] = useState<UserPermissionDetails | null>(null);
+  const [permissionDraft, setPermissionDraft] = useState<PermissionOverrides>({ grant: [], deny: [] });
+  const [permissionsLoading, setPermissionsLoading] = useState(false);
+  const [permissionsSaving, setPermissionsSaving] = useState(false);
   const [newPassword, setNewPassword] = useState('');
   const [passwordError, setPasswordError] = useState<string | null>(null);
   const [selectedRole, setSelectedRole] = useState<UserRole>('user');
   const [roleChangeLoading, setRoleChangeLoading] = useState(false);
   const [passwordChangeLoading, setPasswordChangeLoading] = useState(false);
+  const [showImpersonateModal, setShowImpersonateModal] = useState(false);
+  const [impersonationReason, setImpersonationReason] = useState('');
+  const [impersonationMinutes, setImpersonationMinutes] = useState(30);
+  const [impersonationError, setImpersonationError] = useState<string | null>(null);
+  const [impersonationLoading, setImpersonationLoading] = useState(false);
 
   // Database hooks
   const {
@@ -133,47 +150,25 @@ const ManageUsersPage: React.FC = () => {
     return matchesSearch && matchesStatus && matchesRole;
   });
 
-  // Initialize permissions for a user
-  const initializeUserPermissions = (user: UserData) => {
-    // Standardize role for permission checks
-    const standardizedRole = standardizeRole(user.role);
-    const isSuperAdmin = standardizedRole === 'Super Admin';
-    const isContentManager = standardizedRole === 'Content Manager';
-    const isCommunityManager = standardizedRole === 'Community Manager';
-
-    const allPermissions: Permission[] = [
-      // User Management
-      { id: 'users:view', name: 'View Users', description: 'Can view user list and details', category: 'User Management', enabled: isSuperAdmin || isContentManager },
-      { id: 'users:create', name: 'Create Users', description: 'Can create new admin users', category: 'User Management', enabled: isSuperAdmin },
-      { id: 'users:edit', name: 'Edit Users', description: 'Can edit user information', category: 'User Management', enabled: isSuperAdmin || isContentManager },
-      { id: 'users:delete', name: 'Delete Users', description: 'Can delete user accounts', category: 'User Management', enabled: isSuperAdmin },
-      { id: 'users:suspend', name: 'Suspend Users', description: 'Can suspend user accounts', category: 'User Management', enabled: isSuperAdmin || isContentManager },
-
-      // Content Management
-      { id: 'content:view', name: 'View Content', description: 'Can view all course content', category: 'Content Management', enabled: true },
-      { id: 'content:create', name: 'Create Content', description: 'Can create new courses and lessons', category: 'Content Management', enabled: isSuperAdmin || isContentManager },
-      { id: 'content:edit', name: 'Edit Content', description: 'Can edit existing content', category: 'Content Management', enabled: isSuperAdmin || isContentManager },
-      { id: 'content:delete', name: 'Delete Content', description: 'Can delete content', category: 'Content Management', enabled: isSuperAdmin },
-      { id: 'content:publish', name: 'Publish Content', description: 'Can publish content to live', category: 'Content Management', enabled: isSuperAdmin || isContentManager },
-
-      // Community Management
-      { id: 'community:view', name: 'View Community', description: 'Can view community features', category: 'Community Management', enabled: true },
-      { id: 'community:moderate', name: 'Moderate Community', description: 'Can moderate community discussions', category: 'Community Management', enabled: isSuperAdmin || isCommunityManager },
-      { id: 'community:ban', name: 'Ban Users', description: 'Can ban users from community', category: 'Community Management', enabled: isSuperAdmin || isCommunityManager },
-
-      // Analytics & Reports
-      { id: 'analytics:view', name: 'View Analytics', description: 'Can view platform analytics', category: 'Analytics', enabled: isSuperAdmin || isContentManager },
-      { id: 'reports:generate', name: 'Generate Reports', description: 'Can generate system reports', category: 'Analytics', enabled: isSuperAdmin },
-
-      // System Settings
-      { id: 'settings:view', name: 'View Settings', description: 'Can view system settings', category: 'System Settings', enabled: isSuperAdmin },
-      { id: 'settings:edit', name: 'Edit Settings', description: 'Can modify system settings', category: 'System Settings', enabled: isSuperAdmin },
-    ];
-
-    setUserPermissions(allPermissions);
+  // Load the user's role, overrides and effective permissions for the permissions modal
+  const loadUserPermissions = async (user: UserData) => {
+    setPermissionDetails(null);
+    setPermissionDraft({ grant: [], deny: [] });
+    setPermissionsLoading(true);
+    try {
+      const response = await userAPI.getPermissions(user.id);
+      setPermissionDetails(response.data);
+      setPermissionDraft(response.data.overrides);
+    } catch (error) {
+      console.error('Failed to load user permissions:', error);
+      setPermissionError('Failed to load user permissions. Please try again.');
+      setShowPermissionsModal(false);
+    } finally {
+      setPermissionsLoading(false);
+    }
   };
 
-  const handleUserAction = (userId: string, action: 'view' | 'suspend' | 'activate' | 'delete' | 'permissions' | 'password' | 'role') => {
+  const handleUserAction = (userId: string, action: 'view' | 'suspend' | 'activate' | 'delete' | 'permissions' | 'password' | 'role' | 'impersonate') => {
     const user = users.find(u => u.id === userId);
     if (!user) return;
 
@@ -193,6 +188,11 @@ const ManageUsersPage: React.FC = () => {
       return;
     }
 
+    if (action === 'impersonate' && !hasPermission('support:impersonate_users')) {
+      setPermissionError('You do not have permission to view the platform as another user.');
+      return;
+    }
+
     switch (action) {
       case 'view':
         setSelectedUser(user);
@@ -213,14 +213,13 @@ const ManageUsersPage: React.FC = () => {
         updateUser(userId, { suspended: false });
         break;
       case 'delete':
-        if (confirm('Are you sure you want to delete this user? This action cannot be undone.')) {
-          setUsers(prev => prev.filter(u => u.id !== userId));
-          // TODO: Implement delete in database
+        if (confirm(`Schedule ${user.name}'s account for deletion? It is permanently removed after the grace period and the deletion can be cancelled until then.`)) {
+          scheduleUserDeletion(user);
         }
         break;
       case 'permissions':
         setSelectedUser(user);
-        initializeUserPermissions(user);
+        loadUserPermissions(user);
         setShowPermissionsModal(true);
         break;
       case 'password':
@@ -234,54 +233,72 @@ const ManageUsersPage: React.FC = () => {
         setSelectedRole(user.role);
         setShowRoleModal(true);
         break;
+      case 'impersonate':
+        setSelectedUser(user);
+        setImpersonationReason('');
+        setImpersonationMinutes(30);
+        setImpersonationError(null);
+        setShowImpersonateModal(true);
+        break;
     }
   };
 
-  const handlePermissionChange = (permissionId: string, enabled: boolean) => {
-    setUserPermissions(prev => prev.map(p =>
-      p.id === permissionId ? { ...p, enabled } : p
+  // Deletion goes through the same grace period as a self-service request
+  const scheduleUserDeletion = async (user: UserData) => {
+    try {
+      const response = await userAPI.scheduleDeletion(user.id, 'Requested by an administrator');
+      setActionNotice(`${user.name}'s account will be deleted on ${new Date(response.data.scheduled_for).toLocaleDateString()}.`);
+    } catch (error) {
+      console.error('Failed to schedule user deletion:', error);
+      setPermissionError(error instanceof Error ? error.message : 'Failed to delete user. Please try again.');
+    }
+  };
+
+  const targetRolePermissions = permissionDetails ? permissionDetails.role_permissions : [];
+
+  // A permission from the role is switched off with a deny; anything else is switched on with a grant
+  const isPermissionEnabled = (permission: Permission) => (
+    targetRolePermissions.includes(permission)
+      ? !permissionDraft.deny.includes(permission)
+      : permissionDraft.grant.includes(permission)
+  );
+
+  const getPermissionSource = (permission: Permission): { label: string; className: string } | null => {
+    if (targetRolePermissions.includes(permission)) {
+      return permissionDraft.deny.includes(permission)
+        ? { label: 'Denied', className: 'bg-red-500/20 text-red-400' }
+        : { label: 'Role', className: 'bg-gray-500/30 text-gray-300' };
+    }
+    return permissionDraft.grant.includes(permission)
+      ? { label: 'Granted', className: 'bg-green-500/20 text-green-400' }
+      : null;
+  };
+
+  const handlePermissionChange = (permission: Permission, enabled: boolean) => {
+    const without = (list: Permission[]) => list.filter(p => p !== permission);
+    setPermissionDraft(prev => (
+      targetRolePermissions.includes(permission)
+        ? { ...prev, deny: enabled ? without(prev.deny) : [...without(prev.deny), permission] }
+        : { ...prev, grant: enabled ? [...without(prev.grant), permission] : without(prev.grant) }
     ));
   };
 
   const handleSavePermissions = async () => {
     if (!selectedUser) return;
 
+    setPermissionsSaving(true);
     try {
-      // Update user role based on permissions
-      const hasAdminPermissions = userPermissions.some(p =>
-        ['users:create', 'users:delete', 'settings:edit'].includes(p.id) && p.enabled
-      );
-
-      const hasContentManagerPermissions = userPermissions.some(p =>
-        ['content:create', 'content:edit', 'content:publish'].includes(p.id) && p.enabled
-      );
-
-      const hasCommunityManagerPermissions = userPermissions.some(p =>
-        ['community:moderate', 'community:ban'].includes(p.id) && p.enabled
-      );
-
-      let newRole: UserRole = 'user';
-      if (hasAdminPermissions) {
-        newRole = 'Super Admin';
-      } else if (hasContentManagerPermissions) {
-        newRole = 'Content Manager';
-      } else if (hasCommunityManagerPermissions) {
-        newRole = 'Community Manager';
-      }
-
-      // Update user in database with standardized role
-      await updateUser(selectedUser.id, { role: newRole });
-
-      // Update local state
-      setUsers(prev => prev.map(u =>
-        u.id === selectedUser.id ? { ...u, role: newRole as any } : u
-      ));
+      // Overrides are stored server-side and audited there; the user's token picks them up at its next refresh
+      const response = await userAPI.updatePermissionOverrides(selectedUser.id, permissionDraft);
+      setPermissionDetails(response.data);
 
       setShowPermissionsModal(false);
       setSelectedUser(null);
     } catch (error) {
       console.error('Failed to update user permissions:', error);
-      setPermissionError('Failed to update user permissions. Please try again.');
+      setPermissionError(error instanceof Error ? error.message : 'Failed to update user permissions. Please try again.');
+    } finally {
+      setPermissionsSaving(false);
     }
   };
 
@@ -329,6 +346,33 @@ const ManageUsersPage: React.FC = () => {
     }
   };
 
+  // Read-only and audited server-side; AuthContext swaps the session and opens the learner home page
+  const handleStartImpersonation = async () => {
+    if (!selectedUser) return;
+
+    setImpersonationLoading(true);
+    setImpersonationError(null);
+
+    try {
+      await startImpersonation(selectedUser.id, impersonationReason.trim(), impersonationMinutes);
+    } catch (error) {
+      console.error('Failed to start impersonation:', error);
+      setImpersonationError(error instanceof Error ? error.message : 'Could not start viewing as this user');
+      setImpersonationLoading(false);
+    }
+  };
+
+  const closeImpersonateModal = () => {
+    setShowImpersonateModal(false);
+    setImpersonationReason('');
+    setImpersonationError(null);
+  };
+
+  const canImpersonate = (user: UserData) =>
+    hasPermission('support:impersonate_users') &&
+    user.id !== currentUser?.id &&
+    canManageRole(userRole, standardizeRole(user.role), roles.length > 0 ? getRoleHierarchy(roles) : undefined);
+
   const handleChangeRole = async () => {
     if (!selectedUser) return;
 
@@ -411,6 +455,18 @@ const ManageUsersPage: React.FC = () => {
             </div>
           )}
 
+          {actionNotice && (
+            <div className="mb-6 bg-green-500/10 border border-green-500/20 rounded-lg p-4 flex items-center justify-between">
+              <div className="flex items-center text-green-400">
+                <CheckCircle className="h-5 w-5 mr-2" />
+                {actionNotice}
+              </div>
+              <button onClick={() => setActionNotice(null)} className="text-gray-400 hover:text-white">
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+          )}
+
           {/* Header */}
           <div className="flex items-center justify-between mb-8">
             <div className="flex items-center">
@@ -434,7 +490,7 @@ const ManageUsersPage: React.FC = () => {
                 className="flex items-center"
               >
                 <Plus className="h-4 w-4 mr-2" />
-                Create Admin User
+                Invite User
               </Button>
             </PermissionGuard>
           </div>
@@ -475,11 +531,9 @@ const ManageUsersPage: React.FC = () => {
                   className="px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-red-500"
                 >
                   <option value="all">All Roles</option>
-                  <option value="user">User</option>
-                  <option value="Content Manager">Content Manager</option>
-                  <option value="Community Manager">Community Manager</option>
-                  <option value="User Support">User Support</option>
-                  <option value="Super Admin">Super Admin</option>
+                  {roleOptions.map(role => (
+                    <option key={role} value={role}>{getRoleDisplayName(role)}</option>
+                  ))}
                 </select>
               </div>
             </div>
@@ -663,6 +717,18 @@ const ManageUsersPage: React.FC = () => {
                               Role
                             </Button>
 
+                            {canImpersonate(user) && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => handleUserAction(user.id, 'impersonate')}
+                                className="text-yellow-500 border-yellow-500 hover:bg-yellow-500/10"
+                              >
+                                <EyeOff className="h-3 w-3 mr-1" />
+                                View as
+                              </Button>
+                            )}
+
                             {user.status === 'active' ? (
                               <Button
                                 variant="outline"
@@ -925,33 +991,63 @@ const ManageUsersPage: React.FC = () => {
                 </Button>
               </div>
 
+              {permissionsLoading || !permissionDetails ? (
+                <div className="flex items-center justify-center py-12">
+                  <Loader2 className="h-8 w-8 text-red-500 animate-spin" />
+                  <span className="ml-3 text-gray-400">Loading permissions...</span>
+                </div>
+              ) : (
               <div className="space-y-6">
+                <div className="bg-gray-700/50 rounded-lg p-4 text-sm text-gray-300">
+                  <p>
+                    Role: <span className="text-white font-medium">{permissionDetails.role}</span>.
+                    Switching off a role permission denies it; switching on anything else grants it to this user only.
+                    Changes apply when the user&apos;s session next refreshes.
+                  </p>
+                  {permissionDetails.updated_by && (
+                    <p className="text-gray-500 mt-1">
+                      Overrides last changed by {permissionDetails.updated_by}
+                      {permissionDetails.updated_at ? ` on ${new Date(permissionDetails.updated_at).toLocaleString()}` : ''}
+                    </p>
+                  )}
+                </div>
+
+                {permissionDetails.role === 'Super Admin' && (
+                  <div className="bg-yellow-500/10 border border-yellow-500/30 rounded-lg p-4 text-sm text-yellow-300">
+                    Super Admins always hold every permission, so overrides do not apply.
+                  </div>
+                )}
+
                 {/* Permission Categories */}
-                {['User Management', 'Content Management', 'Community Management', 'Analytics', 'System Settings'].map(category => (
+                {Object.entries(groupPermissionsByCategory(ASSIGNABLE_PERMISSIONS)).map(([category, permissions]) => (
                   <div key={category} className="bg-gray-700 rounded-lg p-4">
                     <h3 className="text-lg font-semibold text-white mb-4">{category}</h3>
-                    <div className="space-y-3">
-                      {userPermissions
-                        .filter(p => p.category === category)
-                        .map(permission => (
-                          <div key={permission.id} className="flex items-center justify-between p-3 bg-gray-600 rounded-lg">
-                            <div className="flex-1">
-                              <div className="flex items-center space-x-2">
-                                <input
-                                  type="checkbox"
-                                  id={permission.id}
-                                  checked={permission.enabled}
-                                  onChange={(e) => handlePermissionChange(permission.id, e.target.checked)}
-                                  className="rounded border-gray-500 text-red-500 focus:ring-red-500 bg-gray-700"
-                                />
-                                <label htmlFor={permission.id} className="text-white font-medium">
-                                  {permission.name}
-                                </label>
-                              </div>
-                              <p className="text-gray-400 text-sm mt-1">{permission.description}</p>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                      {permissions.map(permission => {
+                        const source = getPermissionSource(permission);
+                        return (
+                          <div key={permission} className="flex items-center justify-between p-3 bg-gray-600 rounded-lg">
+                            <div className="flex items-center space-x-2">
+                              <input
+                                type="checkbox"
+                                id={permission}
+                                checked={permissionDetails.role === 'Super Admin' || isPermissionEnabled(permission)}
+                                onChange={(e) => handlePermissionChange(permission, e.target.checked)}
+                                disabled={permissionDetails.role === 'Super Admin' || !hasPermission('users:assign_roles')}
+                                className="rounded border-gray-500 text-red-500 focus:ring-red-500 bg-gray-700"
+                              />
+                              <label htmlFor={permission} className="text-white font-medium">
+                                {getPermissionDisplayName(permission)}
+                              </label>
                             </div>
+                            {source && (
+                              <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${source.className}`}>
+                                {source.label}
+                              </span>
+                            )}
                           </div>
-                        ))}
+                        );
+                      })}
                     </div>
                   </div>
                 ))}
@@ -968,9 +1064,101 @@ const ManageUsersPage: React.FC = () => {
                   <Button
                     variant="primary"
                     onClick={handleSavePermissions}
+                    disabled={permissionsSaving || permissionDetails.role === 'Super Admin' || !hasPermission('users:assign_roles')}
                     className="flex-1"
                   >
-                    Save Permissions
+                    {permissionsSaving ? 'Saving...' : 'Save Permissions'}
+                  </Button>
+                </div>
+              </div>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* View As User Modal */}
+      {showImpersonateModal && selectedUser && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-gray-800 rounded-lg max-w-md w-full">
+            <div className="p-6">
+              <div className="flex items-center justify-between mb-6">
+                <h2 className="text-2xl font-bold text-white">View As User</h2>
+                <Button
+                  variant="ghost"
+                  onClick={closeImpersonateModal}
+                  className="text-gray-400 hover:text-white"
+                >
+                  <X className="h-6 w-6" />
+                </Button>
+              </div>
+
+              <div className="space-y-4">
+                <p className="text-gray-400">
+                  See the platform as <span className="text-white font-semibold">{selectedUser.name}</span> sees it.
+                  The session is read-only, staff pages are unavailable, and every request is recorded in the audit log under your name.
+                </p>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-200 mb-2">
+                    Reason
+                  </label>
+                  <textarea
+                    value={impersonationReason}
+                    onChange={(e) => {
+                      setImpersonationReason(e.target.value);
+                      setImpersonationError(null);
+                    }}
+                    rows={3}
+                    maxLength={500}
+                    placeholder="e.g. Ticket #1234: course page shows no lessons"
+                    className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-red-500"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-200 mb-2">
+                    Duration
+                  </label>
+                  <select
+                    value={impersonationMinutes}
+                    onChange={(e) => setImpersonationMinutes(parseInt(e.target.value))}
+                    className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-red-500"
+                  >
+                    {IMPERSONATION_DURATIONS.map(minutes => (
+                      <option key={minutes} value={minutes}>{minutes} minutes</option>
+                    ))}
+                  </select>
+                </div>
+
+                {impersonationError && (
+                  <div className="text-sm text-red-400">{impersonationError}</div>
+                )}
+
+                {/* Actions */}
+                <div className="flex space-x-3 pt-4 border-t border-gray-700">
+                  <Button
+                    variant="outline"
+                    onClick={closeImpersonateModal}
+                    className="flex-1"
+                    disabled={impersonationLoading}
+                  >
+                    Cancel
+                  </Button>
+                  <Button
+                    variant="primary"
+                    onClick={handleStartImpersonation}
+                    className="flex-1"
+                    disabled={impersonationLoading || impersonationReason.trim().length < 5}
+                  >
+                    {impersonationLoading ? (
+                      <>
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        Starting...
+                      </>
+                    ) : (
+                      'Start Viewing'
+                    )}
                   </Button>
                 </div>
               </div>
@@ -1093,11 +1281,9 @@ const ManageUsersPage: React.FC = () => {
                     onChange={(e) => setSelectedRole(e.target.value as UserRole)}
                     className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-red-500"
                   >
-                    <option value="user">User</option>
-                    <option value="Content Manager">Content Manager</option>
-                    <option value="Community Manager">Community Manager</option>
-                    <option value="User Support">User Support</option>
-                    <option value="Super Admin">Super Admin</option>
+                    {roleOptions.map(role => (
+                      <option key={role} value={role}>{getRoleDisplayName(role)}</option>
+                    ))}
                   </select>
 
                   <div className="mt-4 p-3 bg-gray-700 rounded-lg">
@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
-import { User, Mail, Lock, Bell, Shield, CreditCard, LogOut, Eye, EyeOff, CheckCircle, AlertTriangle, X, Save, Trash2 } from 'lucide-react';
+import { User, Mail, Lock, Bell, Shield, CreditCard, LogOut, Eye, EyeOff, CheckCircle, AlertTriangle, X, Save, Trash2, Download } from 'lucide-react';
 import Button from '../components/ui/Button';
 import { useNavigate } from '../lib/router';
 import { useAuth } from '../contexts/AuthContext';
@@ -9,6 +9,10 @@ import ProfileCompletionPrompt from '../components/ui/ProfileCompletionPrompt';
 import Layout from '../components/layout/Layout';
 import Image from 'next/image';
 import EditProfileForm from '../components/ui/EditProfileForm';
+import DeviceSessions from '../components/ui/DeviceSessions';
+import SsoAccountLinks from '../components/ui/SsoAccountLinks';
+import { userAPI } from '../lib/api';
+import { AccountDeletionRequest } from '../types';
 
 const ProfilePage: React.FC = () => {
   const navigate = useNavigate();
@@ -58,6 +62,11 @@ const ProfilePage: React.FC = () => {
   });
 
   const [deleteConfirm, setDeleteConfirm] = useState('');
+  const [deletionRequest, setDeletionRequest] = useState<AccountDeletionRequest | null>(null);
+  const [deletionGraceDays, setDeletionGraceDays] = useState(30);
+  const [deletionError, setDeletionError] = useState<string | null>(null);
+  const [deletionSaving, setDeletionSaving] = useState(false);
+  const [exportingData, setExportingData] = useState(false);
   const [showEditProfile, setShowEditProfile] = useState(false);
   const [editProfileForm, setEditProfileForm] = useState({
     full_name: '',
@@ -100,6 +109,18 @@ const ProfilePage: React.FC = () => {
     }
   }, [user?.id, fetchUserProgress, fetchUserCertificates]);
 
+  // Load any pending deletion request so it can be shown and cancelled
+  useEffect(() => {
+    if (!user?.id) return;
+
+    userAPI.getDeletionStatus(user.id)
+      .then(response => {
+        setDeletionRequest(response.data?.status === 'scheduled' ? response.data : null);
+        setDeletionGraceDays(response.grace_period_days);
+      })
+      .catch(error => console.error('Failed to load account deletion status:', error));
+  }, [user?.id]);
+
   // Force refresh user data from database when component mounts or user changes
   useEffect(() => {
     if (user?.id) {
@@ -293,32 +314,60 @@ const ProfilePage: React.FC = () => {
   };
 
   const handleDeleteAccount = async () => {
-    if (deleteConfirm !== 'DELETE') {
+    if (deleteConfirm !== 'DELETE' || !user?.id) {
       return;
     }
 
+    setDeletionSaving(true);
+    setDeletionError(null);
     try {
-      // Make API call to delete account
-      console.log('Deleting account...');
+      // The account stays usable during the grace period so the request can still be cancelled
+      const response = await userAPI.scheduleDeletion(user.id);
+      setDeletionRequest(response.data);
+      setDeleteConfirm('');
+      setShowDeleteAccount(false);
+    } catch (error) {
+      console.error('Failed to request account deletion:', error);
+      setDeletionError(error instanceof Error ? error.message : 'Failed to delete account. Please try again.');
+    } finally {
+      setDeletionSaving(false);
+    }
+  };
 
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3002/api'}/users/${user?.id}`, {
-        method: 'DELETE',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${localStorage.getItem('forward_africa_token')}`
-        }
-      });
+  const handleCancelDeletion = async () => {
+    if (!user?.id) return;
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to delete account');
-      }
+    setDeletionSaving(true);
+    setDeletionError(null);
+    try {
+      await userAPI.cancelDeletion(user.id);
+      setDeletionRequest(null);
+    } catch (error) {
+      console.error('Failed to cancel account deletion:', error);
+      setDeletionError(error instanceof Error ? error.message : 'Failed to cancel account deletion. Please try again.');
+    } finally {
+      setDeletionSaving(false);
+    }
+  };
+
+  const handleExportData = async () => {
+    if (!user?.id) return;
 
-      await signOut();
-      // Redirect to home - AuthContext will handle this
+    setExportingData(true);
+    try {
+      const response = await userAPI.exportData(user.id);
+      const blob = new Blob([JSON.stringify(response.data, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `forward-africa-data-${new Date().toISOString().slice(0, 10)}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
     } catch (error) {
-      console.error('Failed to delete account:', error);
-      alert('Failed to delete account. Please try again.');
+      console.error('Failed to export account data:', error);
+      alert('Failed to download your data. Please try again.');
+    } finally {
+      setExportingData(false);
     }
   };
 
@@ -1113,33 +1162,10 @@ const ProfilePage: React.FC = () => {
                 )}
               </div>
 
-              {/* Recent Security Activity */}
-              <div className="bg-gray-800 rounded-lg p-6">
-                <h2 className="text-xl font-semibold text-white mb-6">Recent Security Activity</h2>
-                <div className="space-y-4">
-                  <div className="flex items-center justify-between py-3 border-b border-gray-700">
-                    <div>
-                      <p className="text-white">Login from Chrome on Windows</p>
-                      <p className="text-gray-400 text-sm">IP: 192.168.1.100 • Today at 2:30 PM</p>
-                    </div>
-                    <span className="text-green-400 text-sm">Current session</span>
-                  </div>
-                  <div className="flex items-center justify-between py-3 border-b border-gray-700">
-                    <div>
-                      <p className="text-white">Login from Safari on iPhone</p>
-                      <p className="text-gray-400 text-sm">IP: 192.168.1.105 • Yesterday at 8:15 AM</p>
-                    </div>
-                    <span className="text-gray-400 text-sm">Successful</span>
-                  </div>
-                  <div className="flex items-center justify-between py-3">
-                    <div>
-                      <p className="text-white">Password changed</p>
-                      <p className="text-gray-400 text-sm">{userData.lastPasswordChange.toLocaleDateString()} at 10:45 AM</p>
-                    </div>
-                    <span className="text-blue-400 text-sm">Security update</span>
-                  </div>
-                </div>
-              </div>
+              {/* Devices */}
+              <DeviceSessions />
+
+              <SsoAccountLinks />
             </div>
           )}
 
@@ -1177,6 +1203,21 @@ const ProfilePage: React.FC = () => {
                     <div className="text-gray-400">›</div>
                   </button>
 
+                  <button
+                    onClick={handleExportData}
+                    disabled={exportingData}
+                    className="w-full flex items-center justify-between text-left p-4 rounded-lg bg-gray-700 hover:bg-gray-600 transition-colors disabled:opacity-50"
+                  >
+                    <div className="flex items-center">
+                      <Download className="h-5 w-5 text-gray-400 mr-3" />
+                      <div>
+                        <div className="text-white">{exportingData ? 'Preparing Download...' : 'Download My Data'}</div>
+                        <div className="text-sm text-gray-400">Profile, progress, certificates and activity as JSON</div>
+                      </div>
+                    </div>
+                    <div className="text-gray-400">›</div>
+                  </button>
+
                   <button
                     onClick={() => setShowBilling(true)}
                     className="w-full flex items-center justify-between text-left p-4 rounded-lg bg-gray-700 hover:bg-gray-600 transition-colors"
@@ -1197,6 +1238,25 @@ const ProfilePage: React.FC = () => {
               <div className="bg-gray-800 rounded-lg p-6">
                 <h2 className="text-xl font-semibold text-white mb-6">Danger Zone</h2>
                 <div className="space-y-4">
+                  {deletionRequest && (
+                    <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-4 flex items-start justify-between">
+                      <div className="flex items-start">
+                        <AlertTriangle className="h-5 w-5 text-red-500 mr-2 mt-0.5 flex-shrink-0" />
+                        <div>
+                          <h4 className="text-red-400 font-medium">Account scheduled for deletion</h4>
+                          <p className="text-red-300 text-sm mt-1">
+                            Your account and data will be permanently deleted on {new Date(deletionRequest.scheduled_for).toLocaleDateString()}.
+                          </p>
+                        </div>
+                      </div>
+                      <Button variant="outline" onClick={handleCancelDeletion} disabled={deletionSaving}>
+                        Cancel Deletion
+                      </Button>
+                    </div>
+                  )}
+                  {deletionError && !showDeleteAccount && (
+                    <p className="text-red-400 text-sm">{deletionError}</p>
+                  )}
                   <Button
                     variant="outline"
                     className="w-full justify-between text-red-500 border-red-500 hover:bg-red-500/10"
@@ -1211,7 +1271,11 @@ const ProfilePage: React.FC = () => {
                   <Button
                     variant="outline"
                     className="w-full justify-between text-red-500 border-red-500 hover:bg-red-500/10"
-                    onClick={() => setShowDeleteAccount(true)}
+                    onClick={() => {
+                      setDeletionError(null);
+                      setShowDeleteAccount(true);
+                    }}
+                    disabled={Boolean(deletionRequest)}
                   >
                     <span className="flex items-center">
                       <Trash2 className="h-5 w-5 mr-2" />
@@ -1516,9 +1580,10 @@ const ProfilePage: React.FC = () => {
                 <div className="flex items-start">
                   <AlertTriangle className="h-5 w-5 text-red-500 mr-2 mt-0.5 flex-shrink-0" />
                   <div>
-                    <h4 className="text-red-400 font-medium">Warning: This action cannot be undone</h4>
+                    <h4 className="text-red-400 font-medium">Warning: After {deletionGraceDays} days this cannot be undone</h4>
                     <p className="text-red-300 text-sm mt-1">
-                      Deleting your account will permanently remove all your data, progress, and certificates.
+                      Your account, progress, certificates, achievements and notifications will be permanently deleted in {deletionGraceDays} days.
+                      Until then you can sign in and cancel the deletion. Download your data first if you want to keep a copy.
                     </p>
                   </div>
                 </div>
@@ -1537,6 +1602,10 @@ const ProfilePage: React.FC = () => {
                 />
               </div>
 
+              {deletionError && (
+                <p className="text-red-400 text-sm">{deletionError}</p>
+              )}
+
               <div className="flex justify-end space-x-3 pt-4 border-t border-gray-700">
                 <Button variant="outline" onClick={() => setShowDeleteAccount(false)}>
                   Cancel
@@ -1545,7 +1614,7 @@ const ProfilePage: React.FC = () => {
                   variant="outline"
                   className="text-red-500 border-red-500 hover:bg-red-500/10"
                   onClick={handleDeleteAccount}
-                  disabled={deleteConfirm !== 'DELETE'}
+                  disabled={deleteConfirm !== 'DELETE' || deletionSaving}
                 >
                   <Trash2 className="h-4 w-4 mr-2" />
                   Delete Account
@@ -0,0 +1,200 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ArrowLeft, CalendarClock, ChevronLeft, ChevronRight, RefreshCw } from 'lucide-react';
+import Button from '../components/ui/Button';
+import Layout from '../components/layout/Layout';
+import { useNavigate } from '../lib/router';
+import { usePermissions } from '../contexts/PermissionContext';
+import { scheduleAPI } from '../lib/api';
+import { ScheduleEvent } from '../types';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const ACTION_STYLES: Record<ScheduleEvent['action'], string> = {
+  publish: 'bg-green-600/20 text-green-300',
+  unpublish: 'bg-yellow-600/20 text-yellow-300',
+  archive: 'bg-red-600/20 text-red-300'
+};
+
+const ACTION_LABELS: Record<ScheduleEvent['action'], string> = {
+  publish: 'Release',
+  unpublish: 'Unpublish',
+  archive: 'Archive'
+};
+
+const dayKey = (date: Date) => `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
+
+const eventTitle = (event: ScheduleEvent) =>
+  event.content_type === 'lesson' ? `${event.course_title}: ${event.title}` : event.title;
+
+/**
+ * Month view of scheduled releases and expiries, shown in the viewer's own
+ * time zone with the time zone each one was scheduled in alongside
+ */
+const ReleaseCalendarPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { hasPermission } = usePermissions();
+  const [month, setMonth] = useState(() => {
+    const today = new Date();
+    return new Date(today.getFullYear(), today.getMonth(), 1);
+  });
+  const [events, setEvents] = useState<ScheduleEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const canView = hasPermission('content:workflow');
+
+  const loadEvents = useCallback(async () => {
+    if (!canView) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+      const nextMonth = new Date(month.getFullYear(), month.getMonth() + 1, 1);
+      const response = await scheduleAPI.getEvents(month, nextMonth);
+      setEvents(response.data);
+    } catch (err) {
+      console.error('Failed to load scheduled releases:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load scheduled releases');
+    } finally {
+      setLoading(false);
+    }
+  }, [canView, month]);
+
+  useEffect(() => {
+    loadEvents();
+  }, [loadEvents]);
+
+  const shiftMonth = (delta: number) => setMonth(new Date(month.getFullYear(), month.getMonth() + delta, 1));
+
+  const eventsByDay = new Map<string, ScheduleEvent[]>();
+  events.forEach(event => {
+    const key = dayKey(new Date(event.at));
+    eventsByDay.set(key, [...(eventsByDay.get(key) || []), event]);
+  });
+
+  const daysInMonth = new Date(month.getFullYear(), month.getMonth() + 1, 0).getDate();
+  const cells: (Date | null)[] = [
+    ...Array.from({ length: month.getDay() }, () => null),
+    ...Array.from({ length: daysInMonth }, (_, index) => new Date(month.getFullYear(), month.getMonth(), index + 1))
+  ];
+  const todayKey = dayKey(new Date());
+
+  return (
+    <Layout>
+      <div className="max-w-screen-xl mx-auto py-16 px-4 sm:px-6 lg:px-8">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-8">
+          <div className="flex items-center">
+            <Button variant="ghost" onClick={() => navigate('/admin')} className="mr-4">
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div>
+              <h1 className="text-3xl font-bold text-white">Release Calendar</h1>
+              <p className="text-gray-400 mt-2">Scheduled course and lesson releases and expiries</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={() => shiftMonth(-1)} disabled={loading}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="text-white font-medium w-40 text-center">
+              {month.toLocaleDateString(undefined, { month: 'long', year: 'numeric' })}
+            </span>
+            <Button variant="outline" onClick={() => shiftMonth(1)} disabled={loading}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" onClick={loadEvents} disabled={loading} className="flex items-center ml-2">
+              <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            </Button>
+          </div>
+        </div>
+
+        {!canView ? (
+          <div className="bg-gray-800 rounded-lg p-8 text-center text-gray-400">
+            You don&apos;t have permission to view scheduled releases.
+          </div>
+        ) : (
+          <>
+            {error && (
+              <div className="mb-6 p-4 bg-red-600/20 border border-red-500/30 rounded-lg">
+                <p className="text-red-300">{error}</p>
+              </div>
+            )}
+
+            <div className="grid grid-cols-7 gap-px bg-gray-700 rounded-lg overflow-hidden mb-8">
+              {WEEKDAYS.map(weekday => (
+                <div key={weekday} className="bg-gray-900 text-gray-400 text-xs font-medium text-center py-2">{weekday}</div>
+              ))}
+              {cells.map((date, index) => (
+                <div key={date ? dayKey(date) : `blank-${index}`} className="bg-gray-800 min-h-[110px] p-2">
+                  {date && (
+                    <>
+                      <p className={`text-xs mb-1 ${dayKey(date) === todayKey ? 'text-red-400 font-bold' : 'text-gray-500'}`}>
+                        {date.getDate()}
+                      </p>
+                      <div className="space-y-1">
+                        {(eventsByDay.get(dayKey(date)) || []).map(event => (
+                          <button
+                            key={event.id}
+                            onClick={() => navigate(`/admin/upload-course?edit=${event.course_id}`)}
+                            title={`${ACTION_LABELS[event.action]} · ${eventTitle(event)}${event.error ? ` · ${event.error}` : ''}`}
+                            className={`block w-full text-left truncate px-2 py-1 rounded text-xs ${ACTION_STYLES[event.action]} ${
+                              event.status === 'done' ? 'opacity-50' : ''
+                            } ${event.status === 'failed' ? 'ring-1 ring-red-500' : ''}`}
+                          >
+                            {new Date(event.at).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })} {eventTitle(event)}
+                          </button>
+                        ))}
+                      </div>
+                    </>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {loading ? (
+              <div className="bg-gray-800 rounded-lg p-12 text-center text-gray-400">
+                <RefreshCw className="h-8 w-8 animate-spin mx-auto mb-4" />
+                Loading scheduled releases...
+              </div>
+            ) : events.length === 0 ? (
+              <div className="bg-gray-800 rounded-lg p-12 text-center text-gray-400">
+                <CalendarClock className="h-8 w-8 mx-auto mb-4" />
+                Nothing is scheduled this month.
+              </div>
+            ) : (
+              <div className="bg-gray-800 rounded-lg divide-y divide-gray-700">
+                {events.map(event => (
+                  <div key={event.id} className="p-4 flex flex-wrap items-center justify-between gap-4">
+                    <div>
+                      <div className="flex items-center gap-3">
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${ACTION_STYLES[event.action]}`}>
+                          {ACTION_LABELS[event.action]}
+                        </span>
+                        <h3 className="text-white font-medium">{eventTitle(event)}</h3>
+                        <span className="text-xs uppercase text-gray-500">{event.content_type}</span>
+                      </div>
+                      <p className="text-gray-400 text-sm mt-1">
+                        {new Date(event.at).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}
+                        <span className="text-gray-500"> ({event.local.replace('T', ' ')} {event.timezone})</span>
+                        {event.status === 'done' && <span className="text-green-300 ml-2">Done</span>}
+                        {event.status === 'failed' && <span className="text-red-300 ml-2">Failed{event.error ? `: ${event.error}` : ''}</span>}
+                      </p>
+                    </div>
+                    <Button variant="ghost" onClick={() => navigate(`/admin/upload-course?edit=${event.course_id}`)}>
+                      Open Course
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default ReleaseCalendarPage;
@@ -3,14 +3,13 @@ import { useRouter } from 'next/router';
 import Button from '../components/ui/Button';
 import ErrorDisplay from '../components/ui/ErrorDisplay';
 import ValidationMessage from '../components/ui/ValidationMessage';
-import { validateEmail, validatePassword } from '../utils/validation';
-import { Mail, Lock, ArrowLeft, Eye, EyeOff, Check } from 'lucide-react';
+import { validatePassword } from '../utils/validation';
+import { Lock, ArrowLeft, Eye, EyeOff, Check, AlertTriangle } from 'lucide-react';
 
 const ResetPasswordPage: React.FC = () => {
   const router = useRouter();
+  const token = typeof router.query.token === 'string' ? router.query.token : '';
   const [formData, setFormData] = useState({
-    email: '',
-    resetCode: '',
     newPassword: '',
     confirmPassword: ''
   });
@@ -25,9 +24,6 @@ const ResetPasswordPage: React.FC = () => {
     let validationResult;
 
     switch (field) {
-      case 'email':
-        validationResult = validateEmail(value);
-        break;
       case 'newPassword':
         validationResult = validatePassword(value);
         break;
@@ -64,7 +60,6 @@ const ResetPasswordPage: React.FC = () => {
     setValidationErrors({});
 
     // Validate all fields
-    validateField('email', formData.email);
     validateField('newPassword', formData.newPassword);
     validateField('confirmPassword', formData.confirmPassword);
 
@@ -75,32 +70,13 @@ const ResetPasswordPage: React.FC = () => {
     setLoading(true);
 
     try {
-      // Step 1: Verify reset code
-      const verifyResponse = await fetch(`${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3002/api'}/auth/verify-reset-code`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          email: formData.email,
-          resetCode: formData.resetCode
-        }),
-      });
-
-      const verifyData = await verifyResponse.json();
-
-      if (!verifyResponse.ok) {
-        throw new Error(verifyData.error || 'Failed to verify reset code');
-      }
-
-      // Step 2: Reset password with token
-      const resetResponse = await fetch(`${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3002/api'}/auth/reset-password`, {
+      const resetResponse = await fetch('/api/auth/reset-password', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          resetToken: verifyData.resetToken,
+          token,
           newPassword: formData.newPassword
         }),
       });
@@ -139,68 +115,36 @@ const ResetPasswordPage: React.FC = () => {
             Reset Password
           </h2>
           <p className="text-gray-400">
-            Enter your reset code and new password
+            Choose a new password for your account
           </p>
         </div>
 
         {/* Form */}
         <div className="bg-gray-800/50 backdrop-blur-sm rounded-2xl p-8 border border-gray-700/50 shadow-2xl">
-          {!success ? (
-            <form onSubmit={handleSubmit} className="space-y-6">
-              {/* Email Field */}
-              <div className="space-y-2">
-                <label htmlFor="email" className="block text-sm font-medium text-gray-300">
-                  Email Address
-                </label>
-                <div className="relative">
-                  <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                    <Mail className="h-5 w-5 text-gray-400" />
-                  </div>
-                  <input
-                    id="email"
-                    name="email"
-                    type="email"
-                    autoComplete="email"
-                    required
-                    className={`block w-full pl-10 pr-4 py-3 bg-gray-700/50 border rounded-xl text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-transparent transition-all duration-200 ${
-                      validationErrors.email ? 'border-red-500' : 'border-gray-600'
-                    }`}
-                    placeholder="Enter your email"
-                    value={formData.email}
-                    onChange={(e) => {
-                      setFormData(prev => ({ ...prev, email: e.target.value }));
-                      validateField('email', e.target.value);
-                    }}
-                    onBlur={(e) => validateField('email', e.target.value)}
-                  />
-                </div>
-                {validationErrors.email && (
-                  <ValidationMessage
-                    message={validationErrors.email}
-                    type="error"
-                    className="mt-1"
-                  />
-                )}
+          {!router.isReady ? null : !token ? (
+            <div className="text-center space-y-6">
+              <div className="mx-auto w-16 h-16 bg-yellow-500 rounded-full flex items-center justify-center">
+                <AlertTriangle className="h-8 w-8 text-white" />
               </div>
-
-              {/* Reset Code Field */}
-              <div className="space-y-2">
-                <label htmlFor="resetCode" className="block text-sm font-medium text-gray-300">
-                  Reset Code
-                </label>
-                <input
-                  id="resetCode"
-                  name="resetCode"
-                  type="text"
-                  required
-                  className="block w-full px-4 py-3 bg-gray-700/50 border border-gray-600 rounded-xl text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-transparent transition-all duration-200"
-                  placeholder="Enter 6-digit code"
-                  value={formData.resetCode}
-                  onChange={(e) => setFormData(prev => ({ ...prev, resetCode: e.target.value }))}
-                  maxLength={6}
-                />
+              <div>
+                <h3 className="text-xl font-semibold text-white mb-2">
+                  Reset Link Missing
+                </h3>
+                <p className="text-gray-400 mb-4">
+                  Open the link from your password reset email, or request a new one.
+                </p>
               </div>
-
+              <Button
+                onClick={() => router.push('/forgot-password')}
+                variant="primary"
+                size="lg"
+                className="w-full bg-[#ef4444] hover:bg-[#dc2626] text-white font-semibold py-3 rounded-xl transition-all duration-200 transform hover:scale-[1.02] shadow-lg"
+              >
+                Request a New Link
+              </Button>
+            </div>
+          ) : !success ? (
+            <form onSubmit={handleSubmit} className="space-y-6">
               {/* New Password Field */}
               <div className="space-y-2">
                 <label htmlFor="newPassword" className="block text-sm font-medium text-gray-300">
@@ -337,7 +281,7 @@ const ResetPasswordPage: React.FC = () => {
                   Password Reset Successfully!
                 </h3>
                 <p className="text-gray-400 mb-4">
-                  Your password has been updated. You can now log in with your new password.
+                  Your password has been updated and you&apos;ve been signed out of all devices. You can now log in with your new password.
                 </p>
               </div>
               <Button
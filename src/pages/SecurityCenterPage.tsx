@@ -1,10 +1,41 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { useNavigate } from '../lib/router';
 import { ArrowLeft, Shield, Lock, Eye, AlertTriangle, CheckCircle, Users, Activity, Settings, RefreshCw, Download, Upload, Key, Database, Network, Server } from 'lucide-react';
 import Button from '../components/ui/Button';
 import { useAuth } from '../contexts/AuthContext';
 import { usePermissions } from '../contexts/PermissionContext';
 import Layout from '../components/layout/Layout';
+import { securityAPI } from '../lib/api';
+import { UserSession } from '../types';
+
+type ActiveSession = Omit<UserSession, 'token'> & { user_email: string; is_current: boolean };
+
+// Short "Browser on OS" label from a user agent string
+const describeUserAgent = (userAgent: string): string => {
+  if (!userAgent || userAgent === 'unknown') return 'Unknown device';
+  const browser = /Edg\//.test(userAgent) ? 'Edge'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : 'Browser';
+  const os = /Windows/.test(userAgent) ? 'Windows'
+    : /Android/.test(userAgent) ? 'Android'
+    : /iPhone|iPad/.test(userAgent) ? 'iOS'
+    : /Mac OS X/.test(userAgent) ? 'Mac'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : 'Unknown OS';
+  return `${browser} on ${os}`;
+};
+
+const formatRelativeTime = (iso: string): string => {
+  const minutes = Math.floor((Date.now() - new Date(iso).getTime()) / 60000);
+  if (minutes < 1) return 'Just now';
+  if (minutes < 60) return `${minutes} minute${minutes === 1 ? '' : 's'} ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} hour${hours === 1 ? '' : 's'} ago`;
+  const days = Math.floor(hours / 24);
+  return `${days} day${days === 1 ? '' : 's'} ago`;
+};
 
 const SecurityCenterPage: React.FC = () => {
   const navigate = useNavigate();
@@ -14,7 +45,7 @@ const SecurityCenterPage: React.FC = () => {
 
   // Security data state
   const [securityData, setSecurityData] = useState({
-    activeSessions: 1247,
+    activeSessions: 0,
     failedLogins: 23,
     blockedIPs: 5,
     securityScore: 92,
@@ -23,6 +54,11 @@ const SecurityCenterPage: React.FC = () => {
     complianceStatus: 'Compliant'
   });
 
+  // Active sessions state
+  const [sessions, setSessions] = useState<ActiveSession[]>([]);
+  const [sessionsLoading, setSessionsLoading] = useState(false);
+  const [sessionsError, setSessionsError] = useState<string | null>(null);
+
   // Check if user is super admin
   const isSuperAdmin = userRole === 'Super Admin';
 
@@ -33,6 +69,40 @@ const SecurityCenterPage: React.FC = () => {
     }
   }, [isSuperAdmin, navigate]);
 
+  const loadSessions = useCallback(async () => {
+    setSessionsLoading(true);
+    setSessionsError(null);
+    try {
+      const response = await securityAPI.getActiveSessions();
+      const data: ActiveSession[] = response.data || [];
+      setSessions(data);
+      setSecurityData(prev => ({ ...prev, activeSessions: data.length }));
+    } catch (error) {
+      console.error('Failed to load active sessions:', error);
+      setSessionsError(error instanceof Error ? error.message : 'Failed to load sessions');
+    } finally {
+      setSessionsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isSuperAdmin) {
+      loadSessions();
+    }
+  }, [isSuperAdmin, loadSessions]);
+
+  const handleTerminateSession = async (sessionId: string) => {
+    if (!confirm('Terminate this session? The user will be signed out on that device.')) return;
+    try {
+      await securityAPI.terminateSession(sessionId);
+      setSessions(prev => prev.filter(session => session.id !== sessionId));
+      setSecurityData(prev => ({ ...prev, activeSessions: Math.max(0, prev.activeSessions - 1) }));
+    } catch (error) {
+      console.error('Failed to terminate session:', error);
+      alert(error instanceof Error ? error.message : 'Failed to terminate session');
+    }
+  };
+
   const getSecurityScoreColor = (score: number) => {
     if (score >= 90) return 'text-green-400';
     if (score >= 70) return 'text-yellow-400';
@@ -276,50 +346,58 @@ const SecurityCenterPage: React.FC = () => {
               <div className="flex items-center justify-between mb-6">
                 <h3 className="text-lg font-semibold">Active User Sessions</h3>
                 <div className="flex items-center space-x-3">
-                  <Button variant="outline" className="flex items-center">
-                    <Download className="h-4 w-4 mr-2" />
-                    Export
-                  </Button>
-                  <Button variant="outline" className="flex items-center">
-                    <RefreshCw className="h-4 w-4 mr-2" />
+                  <Button
+                    variant="outline"
+                    className="flex items-center"
+                    onClick={loadSessions}
+                    disabled={sessionsLoading}
+                  >
+                    <RefreshCw className={`h-4 w-4 mr-2 ${sessionsLoading ? 'animate-spin' : ''}`} />
                     Refresh
                   </Button>
                 </div>
               </div>
 
+              {sessionsError && (
+                <p className="text-red-400 text-sm mb-4">{sessionsError}</p>
+              )}
+
               <div className="overflow-x-auto">
                 <table className="w-full">
                   <thead>
                     <tr className="border-b border-gray-700">
                       <th className="text-left py-3 px-4 text-gray-400 font-medium">User</th>
                       <th className="text-left py-3 px-4 text-gray-400 font-medium">IP Address</th>
-                      <th className="text-left py-3 px-4 text-gray-400 font-medium">Location</th>
+                      <th className="text-left py-3 px-4 text-gray-400 font-medium">Signed In</th>
                       <th className="text-left py-3 px-4 text-gray-400 font-medium">Device</th>
                       <th className="text-left py-3 px-4 text-gray-400 font-medium">Last Activity</th>
                       <th className="text-left py-3 px-4 text-gray-400 font-medium">Actions</th>
                     </tr>
                   </thead>
                   <tbody>
-                    <tr className="border-b border-gray-700">
-                      <td className="py-3 px-4 text-gray-300">john.doe@example.com</td>
-                      <td className="py-3 px-4 text-gray-300">192.168.1.100</td>
-                      <td className="py-3 px-4 text-gray-300">Lagos, Nigeria</td>
-                      <td className="py-3 px-4 text-gray-300">Chrome on Windows</td>
-                      <td className="py-3 px-4 text-gray-300">2 minutes ago</td>
-                      <td className="py-3 px-4">
-                        <Button variant="outline" size="sm">Terminate</Button>
-                      </td>
-                    </tr>
-                    <tr className="border-b border-gray-700">
-                      <td className="py-3 px-4 text-gray-300">jane.smith@example.com</td>
-                      <td className="py-3 px-4 text-gray-300">10.0.0.50</td>
-                      <td className="py-3 px-4 text-gray-300">Nairobi, Kenya</td>
-                      <td className="py-3 px-4 text-gray-300">Safari on Mac</td>
-                      <td className="py-3 px-4 text-gray-300">15 minutes ago</td>
-                      <td className="py-3 px-4">
-                        <Button variant="outline" size="sm">Terminate</Button>
-                      </td>
-                    </tr>
+                    {!sessionsLoading && sessions.length === 0 && (
+                      <tr>
+                        <td colSpan={6} className="py-6 px-4 text-center text-gray-400">No active sessions</td>
+                      </tr>
+                    )}
+                    {sessions.map(session => (
+                      <tr key={session.id} className="border-b border-gray-700">
+                        <td className="py-3 px-4 text-gray-300">{session.user_email || session.user_id}</td>
+                        <td className="py-3 px-4 text-gray-300">{session.ip_address || 'unknown'}</td>
+                        <td className="py-3 px-4 text-gray-300">{new Date(session.created_at).toLocaleString()}</td>
+                        <td className="py-3 px-4 text-gray-300">{describeUserAgent(session.user_agent)}</td>
+                        <td className="py-3 px-4 text-gray-300">{formatRelativeTime(session.last_activity)}</td>
+                        <td className="py-3 px-4">
+                          {session.is_current ? (
+                            <span className="text-sm text-green-400">This session</span>
+                          ) : (
+                            <Button variant="outline" size="sm" onClick={() => handleTerminateSession(session.id)}>
+                              Terminate
+                            </Button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
                   </tbody>
                 </table>
               </div>
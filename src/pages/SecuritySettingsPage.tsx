@@ -4,49 +4,24 @@ import Button from '../components/ui/Button';
 import { useNavigate } from '../lib/router';
 import { usePermissions } from '../contexts/PermissionContext';
 import PermissionGuard from '../components/ui/PermissionGuard';
-import { Permission } from '../types';
+import { Permission, SecurityPolicy, UserRole } from '../types';
 import ErrorMessage from '../components/ui/ErrorMessage';
 import Layout from '../components/layout/Layout';
-import { standardizeRole } from '../lib/roleStandardization';
-
-interface SecuritySettings {
-  passwordPolicy: {
-    minLength: number;
-    requireUppercase: boolean;
-    requireLowercase: boolean;
-    requireNumbers: boolean;
-    requireSpecialChars: boolean;
-  };
-  sessionSettings: {
-    sessionTimeout: number; // minutes
-    maxConcurrentSessions: number;
-    requireReauth: boolean;
-  };
-  ipWhitelist: string[];
-  twoFactorAuth: {
-    enabled: boolean;
-    required: boolean;
-  };
-  auditSettings: {
-    logRetention: number; // days
-    logLevel: 'basic' | 'detailed' | 'verbose';
-  };
-}
+import { securityAPI } from '../lib/api';
+import { isValidAllowlistEntry } from '../lib/ipAllowlist';
+import RoleDefinitionsEditor from '../components/admin/RoleDefinitionsEditor';
 
-interface RolePermissions {
-  [role: string]: {
-    [permission: string]: boolean;
-  };
-}
+// Roles that can be required to sign in with two-factor authentication, until the stored roles load
+const MFA_ROLES: UserRole[] = ['Super Admin', 'Instructor', 'Content Manager', 'Community Manager', 'User Support'];
 
 const SecuritySettingsPage: React.FC = () => {
   const navigate = useNavigate();
-  const { userRole, hasPermission } = usePermissions();
+  const { userRole, hasPermission, roles } = usePermissions();
   const [activeTab, setActiveTab] = useState<'security' | 'roles' | 'audit'>('security');
   const [showPassword, setShowPassword] = useState(false);
   const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
   const [permissionError, setPermissionError] = useState<string | null>(null);
-  const [settings, setSettings] = useState<SecuritySettings>({
+  const [settings, setSettings] = useState<SecurityPolicy>({
     passwordPolicy: {
       minLength: 8,
       requireUppercase: true,
@@ -61,8 +36,8 @@ const SecuritySettingsPage: React.FC = () => {
     },
     ipWhitelist: [],
     twoFactorAuth: {
-      enabled: false,
-      required: false
+      enabled: true,
+      requiredRoles: []
     },
     auditSettings: {
       logRetention: 90,
@@ -70,54 +45,9 @@ const SecuritySettingsPage: React.FC = () => {
     }
   });
 
-  const [rolePermissions, setRolePermissions] = useState<RolePermissions>({
-    user: {
-      view_courses: true,
-      enroll_courses: true,
-      create_courses: false,
-      edit_courses: false,
-      delete_courses: false,
-      manage_users: false,
-      view_analytics: false,
-      manage_settings: false,
-      access_audit_logs: false
-    },
-    'Content Manager': {
-      view_courses: true,
-      enroll_courses: true,
-      create_courses: true,
-      edit_courses: true,
-      delete_courses: false,
-      manage_users: false,
-      view_analytics: false,
-      manage_settings: false,
-      access_audit_logs: false
-    },
-    'Instructor': {
-      view_courses: true,
-      enroll_courses: true,
-      create_courses: true,
-      edit_courses: true,
-      delete_courses: true,
-      manage_users: true,
-      view_analytics: true,
-      manage_settings: true,
-      access_audit_logs: true
-    },
-    'Super Admin': {
-      view_courses: true,
-      enroll_courses: true,
-      create_courses: true,
-      edit_courses: true,
-      delete_courses: true,
-      manage_users: true,
-      view_analytics: true,
-      manage_settings: true,
-      access_audit_logs: true
-    }
-  });
-
   const [newIpAddress, setNewIpAddress] = useState('');
+  const [ipError, setIpError] = useState<string | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
 
   // Scroll to top on component mount
   useEffect(() => {
@@ -140,17 +70,11 @@ const SecuritySettingsPage: React.FC = () => {
     );
   }
 
-  // Load settings from localStorage
+  // Load the security policy from the server
   useEffect(() => {
-    const savedSettings = localStorage.getItem('securitySettings');
-    if (savedSettings) {
-      setSettings(JSON.parse(savedSettings));
-    }
-
-    const savedRolePermissions = localStorage.getItem('rolePermissions');
-    if (savedRolePermissions) {
-      setRolePermissions(JSON.parse(savedRolePermissions));
-    }
+    securityAPI.getPolicy()
+      .then(response => setSettings(response.data))
+      .catch(error => console.error('Failed to load security policy:', error));
   }, []);
 
   // Clear permission error after 5 seconds
@@ -185,25 +109,30 @@ const SecuritySettingsPage: React.FC = () => {
     }
 
     setSaveStatus('saving');
+    setSaveError(null);
 
     try {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 1000));
-
-      localStorage.setItem('securitySettings', JSON.stringify(settings));
-      localStorage.setItem('rolePermissions', JSON.stringify(rolePermissions));
+      const response = await securityAPI.updatePolicy(settings);
+      setSettings(response.data);
 
-      logAuditEvent('security_settings_updated', 'Updated security settings and role permissions');
+      logAuditEvent('security_settings_updated', 'Updated security settings');
 
       setSaveStatus('saved');
       setTimeout(() => setSaveStatus('idle'), 3000);
-    } catch (error) {
+    } catch (error: any) {
+      setSaveError(error.message || 'Failed to save security settings');
       setSaveStatus('error');
       setTimeout(() => setSaveStatus('idle'), 3000);
     }
   };
 
   const handleAddIpAddress = () => {
+    if (newIpAddress && !isValidAllowlistEntry(newIpAddress)) {
+      setIpError('Enter an IPv4/IPv6 address or an IPv4 CIDR range (e.g., 10.0.0.0/8)');
+      return;
+    }
+
+    setIpError(null);
     if (newIpAddress && !settings.ipWhitelist.includes(newIpAddress)) {
       setSettings(prev => ({
         ...prev,
@@ -222,26 +151,11 @@ const SecuritySettingsPage: React.FC = () => {
     logAuditEvent('ip_whitelist_removed', `Removed IP address from whitelist: ${ip}`);
   };
 
-  const handleRolePermissionChange = (role: string, permission: string, value: boolean) => {
-    // Only Super Admin can modify admin and Super Admin permissions
-    const standardizedRole = standardizeRole(role);
-    if ((standardizedRole === 'Instructor' || standardizedRole === 'Super Admin') && standardizeRole(userRole) !== 'Super Admin') {
-      setPermissionError('Only Super Administrators can modify Admin and Super Admin permissions.');
-      return;
-    }
-
-    setRolePermissions(prev => ({
-      ...prev,
-      [role]: {
-        ...prev[role],
-        [permission]: value
-      }
-    }));
-    logAuditEvent('role_permission_changed', `Changed ${role} permission ${permission} to ${value}`);
-  };
-
   const auditLogs = JSON.parse(localStorage.getItem('auditLogs') || '[]');
   const currentUserRole = userRole;
+  const mfaRoles: UserRole[] = roles.length > 0
+    ? roles.filter(role => role.name !== 'user').map(role => role.name)
+    : MFA_ROLES;
 
   return (
     <Layout>
@@ -256,6 +170,16 @@ const SecuritySettingsPage: React.FC = () => {
         </div>
       )}
 
+      {saveError && (
+        <div className="mb-6">
+          <ErrorMessage
+            title="Settings Not Saved"
+            message={saveError}
+            onClose={() => setSaveError(null)}
+          />
+        </div>
+      )}
+
       {/* Header */}
       <div className="flex items-center mb-8">
         <Button
@@ -380,7 +304,7 @@ const SecuritySettingsPage: React.FC = () => {
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <div>
                   <label className="block text-sm font-medium text-gray-300 mb-2">
-                    Session Timeout (minutes)
+                    Idle Session Timeout (minutes)
                   </label>
                   <input
                     type="number"
@@ -443,8 +367,11 @@ const SecuritySettingsPage: React.FC = () => {
                 <input
                   type="text"
                   value={newIpAddress}
-                  onChange={(e) => setNewIpAddress(e.target.value)}
-                  placeholder="Enter IP address (e.g., 192.168.1.1)"
+                  onChange={(e) => {
+                    setNewIpAddress(e.target.value);
+                    setIpError(null);
+                  }}
+                  placeholder="Enter IP address or range (e.g., 192.168.1.1 or 10.0.0.0/8)"
                   className="flex-1 px-4 py-3 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-red-500"
                 />
                 <Button
@@ -456,6 +383,11 @@ const SecuritySettingsPage: React.FC = () => {
                 </Button>
               </div>
 
+              {ipError && <p className="text-red-400 text-sm mb-4">{ipError}</p>}
+              <p className="text-gray-400 text-sm mb-4">
+                When the list is not empty, admin pages and admin APIs are only reachable from these addresses. Your current address must be included.
+              </p>
+
               <div className="space-y-2">
                 {settings.ipWhitelist.length > 0 ? (
                   settings.ipWhitelist.map((ip, index) => (
@@ -501,24 +433,31 @@ const SecuritySettingsPage: React.FC = () => {
                   </label>
                 </div>
 
-                <div className="flex items-center justify-between p-3 bg-gray-700 rounded-lg">
-                  <div>
-                    <span className="text-gray-300">Require Two-Factor Authentication</span>
-                    <p className="text-gray-400 text-sm">Force all users to enable 2FA</p>
+                <div className="p-3 bg-gray-700 rounded-lg">
+                  <span className="text-gray-300">Require Two-Factor Authentication</span>
+                  <p className="text-gray-400 text-sm mb-3">Members of these roles must set up and use 2FA to sign in</p>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                    {mfaRoles.map(role => (
+                      <label key={role} className="flex items-center space-x-2 text-gray-300">
+                        <input
+                          type="checkbox"
+                          checked={settings.twoFactorAuth.requiredRoles.includes(role)}
+                          onChange={(e) => setSettings(prev => ({
+                            ...prev,
+                            twoFactorAuth: {
+                              ...prev.twoFactorAuth,
+                              requiredRoles: e.target.checked
+                                ? [...prev.twoFactorAuth.requiredRoles, role]
+                                : prev.twoFactorAuth.requiredRoles.filter(r => r !== role)
+                            }
+                          }))}
+                          disabled={!settings.twoFactorAuth.enabled}
+                          className="rounded border-gray-600 bg-gray-600 text-red-600 focus:ring-red-500 disabled:opacity-50"
+                        />
+                        <span>{role}</span>
+                      </label>
+                    ))}
                   </div>
-                  <label className="relative inline-flex items-center cursor-pointer">
-                    <input
-                      type="checkbox"
-                      checked={settings.twoFactorAuth.required}
-                      onChange={(e) => setSettings(prev => ({
-                        ...prev,
-                        twoFactorAuth: { ...prev.twoFactorAuth, required: e.target.checked }
-                      }))}
-                      disabled={!settings.twoFactorAuth.enabled}
-                      className="sr-only peer"
-                    />
-                    <div className="w-11 h-6 bg-gray-600 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-red-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-red-600 disabled:opacity-50"></div>
-                  </label>
                 </div>
               </div>
             </div>
@@ -530,63 +469,7 @@ const SecuritySettingsPage: React.FC = () => {
         <PermissionGuard
           permission="system:configuration"
         >
-          <div className="space-y-8">
-            <div className="bg-gray-800 rounded-lg p-6">
-              <h3 className="text-xl font-semibold text-white mb-6">Role-Based Permissions</h3>
-              <p className="text-gray-400 mb-6">Configure permissions for each user role. Changes apply to all users with that role.</p>
-
-              <div className="space-y-6">
-                {Object.entries(rolePermissions).map(([role, permissions]) => (
-                  <div key={role} className="border border-gray-700 rounded-lg p-6">
-                    <h4 className="text-white font-medium mb-4 flex items-center">
-                      {role === 'Super Admin' && <Shield className="h-5 w-5 mr-2 text-purple-500" />}
-                      {role === 'Instructor' && <Shield className="h-5 w-5 mr-2 text-blue-500" />}
-                      {role === 'Content Manager' && <Users className="h-5 w-5 mr-2 text-green-500" />}
-                      {role === 'user' && <Users className="h-5 w-5 mr-2 text-gray-400" />}
-                      {role}
-
-                      {/* Show warning for protected roles */}
-                      {(role === 'Instructor' || role === 'Super Admin') && standardizeRole(userRole) !== 'Super Admin' && (
-                        <span className="ml-2 text-xs text-yellow-400">
-                          (Only Super Admins can modify these permissions)
-                        </span>
-                      )}
-                    </h4>
-
-                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                      {Object.entries(permissions).map(([permission, value]) => {
-                        // Determine if this permission can be modified by current user
-                        const canModify = !(
-                          (role === 'Instructor' || role === 'Super Admin') &&
-                          standardizeRole(userRole) !== 'Super Admin'
-                        );
-
-                        return (
-                          <div key={permission} className="flex items-center justify-between p-3 bg-gray-700 rounded-lg">
-                            <div>
-                              <span className="text-gray-300 text-sm">
-                                {permission.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase())}
-                              </span>
-                            </div>
-                            <label className="relative inline-flex items-center cursor-pointer">
-                              <input
-                                type="checkbox"
-                                checked={value}
-                                onChange={(e) => handleRolePermissionChange(role, permission, e.target.checked)}
-                                disabled={!canModify || role === 'user' && !['view_courses', 'enroll_courses'].includes(permission)}
-                                className="sr-only peer"
-                              />
-                              <div className="w-9 h-5 bg-gray-600 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-red-300 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-4 after:w-4 after:transition-all peer-checked:bg-red-600 disabled:opacity-50"></div>
-                            </label>
-                          </div>
-                        );
-                      })}
-                    </div>
-                  </div>
-                ))}
-              </div>
-            </div>
-          </div>
+          <RoleDefinitionsEditor />
         </PermissionGuard>
       )}
 
@@ -9,6 +9,10 @@ import { apiClient } from '../lib/authInterceptor';
 import { tokenDebugger } from '../utils/tokenDebugger';
 import Layout from '../components/layout/Layout';
 import BannerManagement from '../components/ui/BannerManagement';
+import MaintenanceScheduler from '../components/ui/MaintenanceScheduler';
+import SsoProviderSettings from '../components/ui/SsoProviderSettings';
+import { fromDateTimeLocalValue, toDateTimeLocalValue } from '../lib/maintenance';
+import { SsoProviderConfig } from '../types';
 
 // Helper function to safely access auth token
 const getAuthToken = () => {
@@ -25,6 +29,7 @@ const SystemConfigurationPage: React.FC = () => {
   const [activeTab, setActiveTab] = useState<'general' | 'database' | 'security' | 'performance' | 'backup' | 'monitoring' | 'banner'>('general');
   const [isLoading, setIsLoading] = useState(false);
   const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'success' | 'error'>('idle');
+  const [saveError, setSaveError] = useState('');
   const [systemStatus, setSystemStatus] = useState<any>(null);
   const [backupStatus, setBackupStatus] = useState<'idle' | 'creating' | 'success' | 'error'>('idle');
   const [isClient, setIsClient] = useState(false);
@@ -54,6 +59,8 @@ const SystemConfigurationPage: React.FC = () => {
     siteName: 'Forward Africa',
     siteDescription: 'Empowering African professionals through expert-led courses',
     maintenanceMode: false,
+    maintenanceMessage: '',
+    maintenanceEndsAt: null as string | null,
     debugMode: false,
     maxUploadSize: 50,
     sessionTimeout: 30,
@@ -69,7 +76,8 @@ const SystemConfigurationPage: React.FC = () => {
     cdnEnabled: false,
     sslEnabled: true,
     corsEnabled: true,
-    allowedOrigins: ['https://forwardafrica.com', 'https://www.forwardafrica.com']
+    allowedOrigins: ['https://forwardafrica.com', 'https://www.forwardafrica.com'],
+    ssoProviders: [] as SsoProviderConfig[]
   });
 
   // Check if user is super admin (using enhanced auth)
@@ -221,6 +229,7 @@ const SystemConfigurationPage: React.FC = () => {
     } catch (error) {
       // Just show error, don't cause logout
       console.error('❌ Error saving configuration:', error);
+      setSaveError(error instanceof Error ? error.message : '');
       setSaveStatus('error');
       setTimeout(() => setSaveStatus('idle'), 3000);
     } finally {
@@ -342,7 +351,7 @@ const SystemConfigurationPage: React.FC = () => {
         {saveStatus === 'error' && (
           <div className="mb-6 p-4 bg-red-600/20 border border-red-500/30 rounded-lg flex items-center">
             <AlertTriangle className="h-5 w-5 text-red-400 mr-2" />
-            <span className="text-red-300">Error saving configuration. Please try again.</span>
+            <span className="text-red-300">{saveError || 'Error saving configuration. Please try again.'}</span>
           </div>
         )}
 
@@ -456,6 +465,36 @@ const SystemConfigurationPage: React.FC = () => {
                     Maintenance Mode
                   </label>
                 </div>
+                {systemConfig.maintenanceMode && (
+                  <>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-300 mb-2">
+                        Maintenance Message
+                      </label>
+                      <input
+                        type="text"
+                        value={systemConfig.maintenanceMessage}
+                        onChange={(e) => handleConfigChange('maintenanceMessage', e.target.value)}
+                        placeholder="Shown to learners on the maintenance page"
+                        className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-300 mb-2">
+                        Expected End
+                      </label>
+                      <input
+                        type="datetime-local"
+                        value={toDateTimeLocalValue(systemConfig.maintenanceEndsAt)}
+                        onChange={(e) => handleConfigChange('maintenanceEndsAt', fromDateTimeLocalValue(e.target.value))}
+                        className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                      />
+                    </div>
+                    <p className="md:col-span-2 text-sm text-yellow-400">
+                      While maintenance mode is on, only Super Admins and addresses on the IP allowlist can use the platform.
+                    </p>
+                  </>
+                )}
                 <div className="flex items-center">
                   <input
                     type="checkbox"
@@ -471,6 +510,8 @@ const SystemConfigurationPage: React.FC = () => {
             </div>
           )}
 
+          {activeTab === 'general' && <MaintenanceScheduler />}
+
           {/* Database Settings */}
           {activeTab === 'database' && (
             <div className="bg-gray-800 rounded-lg p-6">
@@ -595,6 +636,13 @@ const SystemConfigurationPage: React.FC = () => {
             </div>
           )}
 
+          {activeTab === 'security' && (
+            <SsoProviderSettings
+              providers={systemConfig.ssoProviders || []}
+              onChange={(providers) => handleConfigChange('ssoProviders', providers)}
+            />
+          )}
+
           {/* Performance Settings */}
           {activeTab === 'performance' && (
             <div className="bg-gray-800 rounded-lg p-6">
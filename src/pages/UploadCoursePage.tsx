@@ -1,18 +1,29 @@
 import React, { useEffect, useState } from 'react';
-import { Upload, ArrowLeft, Plus, X, Star, User, Info, CheckCircle, AlertCircle } from 'lucide-react';
+import { Upload, ArrowLeft, Plus, X, Star, User, Info, CheckCircle, AlertCircle, Lock } from 'lucide-react';
 import Button from '../components/ui/Button';
 import { useNavigate, useSearchParams } from '../lib/router';
-import { categoryAPI } from '../lib/api';
+import { categoryAPI, courseAPI, courseVersionsAPI } from '../lib/api';
 import { Instructor, Category } from '../types';
 import ImageUpload from '../components/ui/ImageUpload';
+import ContentWorkflowPanel from '../components/admin/ContentWorkflowPanel';
+import CourseVersionsPanel from '../components/admin/CourseVersionsPanel';
+import ContentSchedulePanel from '../components/admin/ContentSchedulePanel';
+import QuizEditor from '../components/admin/QuizEditor';
+import AssignmentEditor from '../components/admin/AssignmentEditor';
 import Layout from '../components/layout/Layout';
 import { fileToBase64, validateImageFile } from '../utils/imageConverter';
 
 interface LessonForm {
+  // Kept on edit so the server can match lessons across drafts and versions
+  id?: string;
   title: string;
   description: string;
   thumbnail: string;
   videoUrl: string;
+  duration?: string;
+  xp_points?: number;
+  // Days after enrolment before the lesson unlocks; 0 for straight away
+  drip_days?: number;
 }
 
 interface SuccessMessage {
@@ -51,6 +62,9 @@ const UploadCoursePage: React.FC = () => {
   const [newCategoryName, setNewCategoryName] = useState('');
   const [availableCategories, setAvailableCategories] = useState<Category[]>([]);
   const [instructors, setInstructors] = useState<Instructor[]>([]);
+  const [availableCourses, setAvailableCourses] = useState<{ id: string; title: string }[]>([]);
+  const [prerequisiteIds, setPrerequisiteIds] = useState<string[]>([]);
+  const [sequentialLessons, setSequentialLessons] = useState(false);
   
   // Certificate fields
   const [enableCertificate, setEnableCertificate] = useState(false);
@@ -83,6 +97,11 @@ const UploadCoursePage: React.FC = () => {
         const categoriesData: any = await categoryAPI.getAllCategories();
         const categoriesArr: Category[] = Array.isArray(categoriesData) ? categoriesData : (categoriesData?.data || []);
         setAvailableCategories(categoriesArr);
+
+        // Other courses, offered as prerequisites
+        const coursesData: any = await courseAPI.getAllCourses();
+        const coursesArr: any[] = Array.isArray(coursesData?.data) ? coursesData.data : [];
+        setAvailableCourses(coursesArr.map(course => ({ id: course.id, title: course.title || course.id })));
       } catch (error) {
         console.error('Error loading data:', error);
       }
@@ -98,7 +117,26 @@ const UploadCoursePage: React.FC = () => {
           const response = await fetch(`/api/courses/${editCourseId}`);
           if (response.ok) {
             const courseData = await response.json();
-            const existingCourse = courseData.data || courseData;
+            let existingCourse = courseData.data || courseData;
+
+            // Published courses are edited through their draft, which also carries the lessons
+            try {
+              const versions = await courseVersionsAPI.getDraft(editCourseId);
+              const snapshot = versions.data.draft || versions.data.live;
+              existingCourse = { ...existingCourse, ...snapshot.course };
+              setLessons(snapshot.lessons.map(lesson => ({
+                id: lesson.id,
+                title: lesson.title || '',
+                description: lesson.description || '',
+                thumbnail: lesson.thumbnail || '',
+                videoUrl: lesson.video_url || lesson.videoUrl || '',
+                duration: lesson.duration,
+                xp_points: lesson.xp_points,
+                drip_days: lesson.drip_days
+              })));
+            } catch (draftError) {
+              console.error('Failed to load course draft:', draftError);
+            }
             console.log('Loading existing course for editing:', existingCourse);
 
             setTitle(existingCourse.title || '');
@@ -109,6 +147,8 @@ const UploadCoursePage: React.FC = () => {
             setIsComingSoon(existingCourse.coming_soon === 1 || existingCourse.coming_soon === true);
             setIsFeatured(existingCourse.featured || false);
             setReleaseDate(existingCourse.release_date || '');
+            setPrerequisiteIds(existingCourse.prerequisite_course_ids || []);
+            setSequentialLessons(existingCourse.sequential_lessons === true);
 
             // Check if course has an instructor
             if (existingCourse.instructor_id) {
@@ -203,7 +243,7 @@ const UploadCoursePage: React.FC = () => {
     setLessons(lessons.filter((_, i) => i !== index));
   };
 
-  const updateLesson = (index: number, field: keyof LessonForm, value: string) => {
+  const updateLesson = (index: number, field: keyof LessonForm, value: string | number) => {
     const updatedLessons = [...lessons];
     updatedLessons[index] = {
       ...updatedLessons[index],
@@ -255,6 +295,8 @@ const UploadCoursePage: React.FC = () => {
     setLessons([]);
     setIsComingSoon(false);
     setIsFeatured(false);
+    setPrerequisiteIds([]);
+    setSequentialLessons(false);
     setUseInstructor(false);
     setSelectedInstructorId('');
     setEnableCertificate(false);
@@ -300,14 +342,19 @@ const UploadCoursePage: React.FC = () => {
         featured: isFeatured,
         coming_soon: isComingSoon,
         release_date: isComingSoon ? releaseDate : null,
+        prerequisite_course_ids: prerequisiteIds,
+        sequential_lessons: sequentialLessons,
         total_xp: lessons.length * 100,
         lessons: lessons.map((lesson, index) => ({
+          id: lesson.id,
           title: lesson.title,
           description: lesson.description,
           thumbnail: lesson.thumbnail,
           video_url: lesson.videoUrl,
-          duration: '10:00',
-          xp_points: 100,
+          duration: lesson.duration || '10:00',
+          xp_points: lesson.xp_points || 100,
+          // The first lesson is where learners enrol, so it never waits
+          drip_days: index === 0 ? 0 : lesson.drip_days || 0,
           order_index: index
         })),
         // Certificate fields
@@ -349,7 +396,9 @@ const UploadCoursePage: React.FC = () => {
       setCurrentStep(`Course ${isEditing ? 'updated' : 'created'} successfully!`);
 
       // Show success message
-      const successMsg = isEditing ? 'Course updated successfully!' : 'Course created successfully!';
+      const successMsg = isEditing
+        ? (result.draft ? 'Changes saved as a draft. Publish the draft to make them live.' : 'Course updated successfully!')
+        : 'Course saved as a draft. Submit it for review when it is ready to publish.';
       setSuccessMessage({ show: true, message: successMsg });
 
       // Clear form
@@ -388,6 +437,34 @@ const UploadCoursePage: React.FC = () => {
             </h1>
           </div>
 
+          {/* Review workflow: new courses stay hidden from learners until published */}
+          {isEditing && editCourseId && (
+            <div className="mb-6">
+              <ContentWorkflowPanel courseId={editCourseId} />
+              <div className="mt-6">
+                <CourseVersionsPanel courseId={editCourseId} />
+              </div>
+              <div className="mt-6">
+                <ContentSchedulePanel
+                  courseId={editCourseId}
+                  lessons={lessons.filter(lesson => lesson.id).map(lesson => ({ id: lesson.id as string, title: lesson.title }))}
+                />
+              </div>
+              <div className="mt-6">
+                <QuizEditor
+                  courseId={editCourseId}
+                  lessons={lessons.filter(lesson => lesson.id).map(lesson => ({ id: lesson.id as string, title: lesson.title }))}
+                />
+              </div>
+              <div className="mt-6">
+                <AssignmentEditor
+                  courseId={editCourseId}
+                  lessons={lessons.filter(lesson => lesson.id).map(lesson => ({ id: lesson.id as string, title: lesson.title }))}
+                />
+              </div>
+            </div>
+          )}
+
           {/* Success Message */}
           {successMessage.show && (
             <div className="mb-6 bg-green-900 border border-green-700 rounded-lg p-4 flex items-start">
@@ -661,9 +738,63 @@ const UploadCoursePage: React.FC = () => {
                     className="w-full px-4 py-3 bg-gray-700 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-red-500"
                     required
                   />
+                  <p className="text-gray-400 text-sm mt-2">
+                    Shown to learners. To take the course live automatically, set a release time in the Release Schedule.
+                  </p>
                 </div>
               )}
 
+              {/* Lesson Access: prerequisite courses and sequential lessons; drip days are set per lesson */}
+              <div className="border-t border-gray-700 pt-6 space-y-4">
+                <h2 className="text-xl font-bold text-white flex items-center">
+                  <Lock className="h-5 w-5 mr-2" />
+                  Lesson Access
+                </h2>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">
+                    Prerequisite Courses
+                  </label>
+                  <div className="max-h-48 overflow-y-auto bg-gray-700 rounded-md p-3 space-y-2">
+                    {availableCourses.filter(course => course.id !== editCourseId).length === 0 ? (
+                      <p className="text-gray-400 text-sm">No other courses yet</p>
+                    ) : (
+                      availableCourses
+                        .filter(course => course.id !== editCourseId)
+                        .map(course => (
+                          <label key={course.id} className="flex items-center text-gray-300 text-sm">
+                            <input
+                              type="checkbox"
+                              checked={prerequisiteIds.includes(course.id)}
+                              onChange={(e) => setPrerequisiteIds(e.target.checked
+                                ? [...prerequisiteIds, course.id]
+                                : prerequisiteIds.filter(id => id !== course.id))}
+                              className="h-4 w-4 mr-2 text-red-600 focus:ring-red-500 border-gray-600 rounded bg-gray-600"
+                            />
+                            {course.title}
+                          </label>
+                        ))
+                    )}
+                  </div>
+                  <p className="text-gray-400 text-sm mt-2">
+                    Learners must complete every lesson of these courses before this one opens.
+                  </p>
+                </div>
+
+                <div className="flex items-center">
+                  <input
+                    type="checkbox"
+                    id="sequentialLessons"
+                    checked={sequentialLessons}
+                    onChange={(e) => setSequentialLessons(e.target.checked)}
+                    className="h-4 w-4 text-red-600 focus:ring-red-500 border-gray-600 rounded bg-gray-700"
+                  />
+                  <label htmlFor="sequentialLessons" className="ml-2 text-gray-300">
+                    Unlock lessons in order (each lesson opens once the previous one is complete)
+                  </label>
+                </div>
+              </div>
+
               {/* Certificate Fields Section */}
               <div className="border-t border-gray-700 pt-6">
                 <div className="flex items-center mb-4">
@@ -818,6 +949,25 @@ const UploadCoursePage: React.FC = () => {
                             </p>
                           </div>
                         </div>
+
+                        {index > 0 && (
+                          <div>
+                            <label className="block text-sm font-medium text-gray-300 mb-2">
+                              Unlock After (days from enrolment)
+                            </label>
+                            <input
+                              type="number"
+                              min={0}
+                              max={365}
+                              value={lesson.drip_days || 0}
+                              onChange={(e) => updateLesson(index, 'drip_days', Math.max(0, parseInt(e.target.value, 10) || 0))}
+                              className="w-full md:w-48 px-4 py-3 bg-gray-600 border border-gray-500 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-red-500"
+                            />
+                            <p className="text-xs text-gray-400 mt-1">
+                              0 opens the lesson straight away; enrolment is the learner&apos;s first progress in the course.
+                            </p>
+                          </div>
+                        )}
                       </div>
                     </div>
                   ))}
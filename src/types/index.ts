@@ -18,21 +18,49 @@ export interface User {
 }
 
 // Role Definitions - EXACT strings from database, NO normalization
-export type UserRole = 'Super Admin' | 'Instructor' | 'Content Manager' | 'Community Manager' | 'User Support' | 'user';
+export type BuiltInRole = 'Super Admin' | 'Instructor' | 'Content Manager' | 'Community Manager' | 'User Support' | 'user';
+
+// Built-in roles plus any custom role stored in the roles collection (see RoleDefinition)
+export type UserRole = BuiltInRole | (string & {});
+
+export const BUILT_IN_ROLES: BuiltInRole[] = ['Super Admin', 'Instructor', 'Content Manager', 'Community Manager', 'User Support', 'user'];
+
+// A role stored in the roles collection; built-in roles are seeded from ROLE_PERMISSIONS and ROLE_HIERARCHY
+export interface RoleDefinition {
+  /** Role name as stored on user documents; also the document id */
+  name: UserRole;
+  description: string;
+  permissions: Permission[];
+  /** Hierarchy level: a role can only manage roles with a lower level */
+  level: number;
+  built_in: boolean;
+  created_at?: string | null;
+  updated_at?: string | null;
+  updated_by?: string | null;
+}
 
 // Workflow Types
 export type WorkflowStatus = 'draft' | 'review' | 'approved' | 'published' | 'archived';
 
+export type WorkflowAction = 'submit' | 'request_changes' | 'approve' | 'publish' | 'unpublish' | 'archive' | 'restore';
+
 export interface Workflow {
   id: string;
   content_id: string;
   content_type: 'course' | 'lesson' | 'video';
+  /** Course the content belongs to (the course itself for course workflows) */
+  course_id: string;
+  title: string;
   status: WorkflowStatus;
-  current_reviewer_id: string;
+  /** Who last submitted the content for review */
+  author_id: string | null;
+  current_reviewer_id: string | null;
+  current_reviewer_name?: string | null;
   review_notes: string;
-  review_deadline: string;
-  published_at: string;
-  archived_at: string;
+  review_deadline: string | null;
+  submitted_at?: string | null;
+  published_at: string | null;
+  archived_at: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -40,6 +68,7 @@ export interface Workflow {
 export interface WorkflowHistory {
   id: string;
   workflow_id: string;
+  action: WorkflowAction | 'assign';
   from_status?: WorkflowStatus;
   to_status: WorkflowStatus;
   changed_by: string;
@@ -48,6 +77,322 @@ export interface WorkflowHistory {
   created_at: string;
 }
 
+// Course Version Types
+export interface CourseSnapshot {
+  /** Versioned course fields (title, description, category, ...) */
+  course: Record<string, any>;
+  /** Lessons in order */
+  lessons: Array<{ id: string; title?: string; [key: string]: any }>;
+}
+
+export interface CourseDraft extends CourseSnapshot {
+  /** Live version the draft was started from */
+  based_on_version: number;
+  created_at: string;
+  created_by: string;
+  updated_at: string;
+  updated_by: string;
+  updated_by_name?: string;
+}
+
+export interface CourseVersion {
+  version: number;
+  title: string;
+  lesson_count: number;
+  /** baseline: live course before the first draft; publish: via the review workflow */
+  source: 'baseline' | 'publish' | 'draft' | 'rollback';
+  notes?: string;
+  restored_from?: number;
+  based_on_version?: number | null;
+  published_at: string;
+  published_by: string;
+  published_by_name?: string;
+}
+
+export interface FieldChange {
+  field: string;
+  before: any;
+  after: any;
+}
+
+export interface CourseDiff {
+  fields: FieldChange[];
+  lessons: {
+    added: { id: string; title: string; position: number }[];
+    removed: { id: string; title: string; position: number }[];
+    changed: { id: string; title: string; fields: FieldChange[] }[];
+    moved: { id: string; title: string; from: number; to: number }[];
+  };
+  has_changes: boolean;
+}
+
+// Content Schedule Types
+export type ScheduleExpireAction = 'unpublish' | 'archive';
+
+export interface ContentSchedule {
+  id: string;
+  content_type: 'course' | 'lesson';
+  course_id: string;
+  lesson_id: string | null;
+  title: string;
+  course_title: string;
+  /** IANA time zone the *_local times were entered in */
+  timezone: string;
+  publish_local: string | null;
+  publish_at: string | null;
+  publish_done_at: string | null;
+  expire_local: string | null;
+  expire_at: string | null;
+  expire_action: ScheduleExpireAction;
+  expire_done_at: string | null;
+  status: 'scheduled' | 'running' | 'completed' | 'failed';
+  failed_step: 'publish' | 'expire' | null;
+  last_error: string | null;
+  next_run_at: string | null;
+  updated_by: string;
+  updated_by_name?: string;
+  updated_at: string;
+}
+
+export interface ScheduleEvent {
+  id: string;
+  schedule_id: string;
+  step: 'publish' | 'expire';
+  action: 'publish' | ScheduleExpireAction;
+  /** UTC instant */
+  at: string;
+  local: string;
+  timezone: string;
+  status: 'scheduled' | 'done' | 'failed';
+  error: string | null;
+  content_type: 'course' | 'lesson';
+  course_id: string;
+  lesson_id: string | null;
+  title: string;
+  course_title: string;
+}
+
+// Quiz Types
+export type QuizQuestionType = 'multiple_choice' | 'multi_select' | 'true_false' | 'short_answer';
+
+export interface QuizOption {
+  id: string;
+  text: string;
+}
+
+export interface QuizQuestion {
+  id: string;
+  type: QuizQuestionType;
+  prompt: string;
+  points: number;
+  /** Empty for short answers; fixed to true/false for true_false */
+  options: QuizOption[];
+  /** Answer key, only sent to course editors */
+  correct_option_ids?: string[];
+  /** Accepted short answers (case and spacing are ignored), only sent to course editors */
+  accepted_answers?: string[];
+  explanation?: string;
+}
+
+export interface Quiz {
+  id: string;
+  course_id: string;
+  /** null for the course's final quiz */
+  lesson_id: string | null;
+  title: string;
+  description: string;
+  /** Percentage needed to pass */
+  pass_mark: number;
+  /** 0 for unlimited */
+  max_attempts: number;
+  shuffle_questions?: boolean;
+  /** Passing is needed to complete the lesson (lesson quiz) and to get the certificate */
+  required: boolean;
+  xp_points: number;
+  /** Set on the learner view, which leaves out the answer key */
+  question_count?: number;
+  questions: QuizQuestion[];
+}
+
+export interface QuizSummary {
+  attempts_used: number;
+  /** null when attempts are unlimited */
+  attempts_remaining: number | null;
+  best_score: number | null;
+  passed: boolean;
+  open_attempt_id: string | null;
+}
+
+export type QuizAnswer = string | string[];
+
+export interface QuizResult {
+  attempt_id: string;
+  attempt_number: number;
+  score: number;
+  max_score: number;
+  percentage: number;
+  pass_mark: number;
+  passed: boolean;
+  xp_awarded: number;
+  results: { question_id: string; correct: boolean; points_awarded: number; explanation: string }[];
+  attempts_remaining: number | null;
+}
+
+// Assignment Types
+export interface AssignmentCriterion {
+  id: string;
+  title: string;
+  description?: string;
+  max_points: number;
+}
+
+export interface Assignment {
+  id: string;
+  course_id: string;
+  lesson_id: string;
+  title: string;
+  instructions: string;
+  /** ISO time; late work is refused unless allow_late */
+  due_at: string | null;
+  allow_late: boolean;
+  /** Percentage of the rubric total needed to pass */
+  pass_mark: number;
+  /** Passing is needed to complete the lesson and for the certificate */
+  required: boolean;
+  rubric: AssignmentCriterion[];
+  peer_review_enabled: boolean;
+  /** Peer reviews each submission needs before the peer score counts */
+  peer_reviews_required: number;
+}
+
+export interface AssignmentFile {
+  name: string;
+  url: string;
+  size: number;
+  content_type: string;
+}
+
+export type AssignmentGradeSource = 'instructor' | 'peer';
+
+/** The learner's own submission; peer reviewers stay anonymous */
+export interface AssignmentSubmission {
+  id: string;
+  files: AssignmentFile[];
+  text: string;
+  version: number;
+  submitted_at: string;
+  late: boolean;
+  status: 'submitted' | 'graded';
+  final_score: number | null;
+  grade_source: AssignmentGradeSource | null;
+  passed: boolean;
+  instructor_grade: { scores: Record<string, number>; percentage: number; feedback: string } | null;
+  peer_reviews: { scores: Record<string, number>; percentage: number; comment: string }[];
+}
+
+export interface PeerReviewTask {
+  review_id: string;
+  claimed_at: string;
+  rubric: AssignmentCriterion[];
+  /** Who handed it in is not included */
+  submission: { files: AssignmentFile[]; text: string; submitted_at: string };
+}
+
+export interface GradingQueueItem {
+  id: string;
+  assignment_id: string;
+  course_id: string;
+  lesson_id: string;
+  user_id: string;
+  user_email: string;
+  user_name: string;
+  version: number;
+  submitted_at: string;
+  late: boolean;
+  peer_reviews_completed: number;
+  /** Peer average corrected for each reviewer's bias against instructor grades */
+  peer_score: number | null;
+  final_score: number | null;
+  grade_source: AssignmentGradeSource | null;
+  passed: boolean;
+}
+
+export interface GradingDetail {
+  submission: GradingQueueItem & {
+    files: AssignmentFile[];
+    text: string;
+    instructor_grade: { scores: Record<string, number>; percentage: number; feedback: string; graded_by_email: string; graded_at: string } | null;
+  };
+  assignment: Assignment | null;
+  peer_reviews: { id: string; user_id: string; scores: Record<string, number>; percentage: number; comment: string; completed_at: string }[];
+}
+
+// Learning Path Types
+export interface LearningPathEntry {
+  course_id: string;
+  /** Courses earlier in the path that must be finished first */
+  prerequisite_course_ids: string[];
+}
+
+export interface LearningPath {
+  id: string;
+  title: string;
+  description: string;
+  thumbnail: string;
+  courses: LearningPathEntry[];
+  course_ids: string[];
+  published: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface LearningPathCourse extends LearningPathEntry {
+  title: string;
+  description: string;
+  thumbnail: string;
+  lesson_count: number;
+  duration_minutes: number;
+}
+
+export interface LearningPathCourseProgress {
+  course_id: string;
+  completed_lessons: number;
+  total_lessons: number;
+  percentage: number;
+  completed: boolean;
+  /** A prerequisite is not finished yet */
+  locked: boolean;
+}
+
+export interface LearningPathProgress {
+  courses: LearningPathCourseProgress[];
+  completed_courses: number;
+  total_courses: number;
+  percentage: number;
+  completed: boolean;
+  next_course_id: string | null;
+  certificate_id: string | null;
+}
+
+export interface LearningPathDetail extends Omit<LearningPath, 'courses'> {
+  /** Member courses the viewer can see, in path order */
+  courses: LearningPathCourse[];
+  estimated_minutes: number;
+  /** Null for anonymous visitors */
+  progress: LearningPathProgress | null;
+}
+
+export interface LearningPathUpNext {
+  path_id: string;
+  path_title: string;
+  completed_courses: number;
+  total_courses: number;
+  path_completed: boolean;
+  certificate_id: string | null;
+  /** Null once every course in the path is finished */
+  next_course: { course_id: string; title: string; thumbnail: string; locked: boolean } | null;
+}
+
 // Permission Types
 export type Permission =
   // System Management
@@ -100,6 +445,7 @@ export type Permission =
   | 'support:respond_tickets'
   | 'support:escalate_tickets'
   | 'support:close_tickets'
+  | 'support:impersonate_users'
 
   // Financial & Analytics
   | 'analytics:view'
@@ -172,6 +518,7 @@ export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
     'support:respond_tickets',
     'support:escalate_tickets',
     'support:close_tickets',
+    'support:impersonate_users',
 
     // All analytics and financial
     'analytics:view',
@@ -288,6 +635,7 @@ export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
     'support:respond_tickets',
     'support:escalate_tickets',
     'support:close_tickets',
+    'support:impersonate_users',
 
     // Limited user management
     'users:view',
@@ -306,6 +654,32 @@ export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
   ]
 };
 
+// Per-user adjustments on top of the role's permissions (stored on the users document)
+export interface PermissionOverrides {
+  grant: Permission[];
+  deny: Permission[];
+}
+
+export type PermissionSource = 'role' | 'grant';
+
+export interface EffectivePermissions {
+  permissions: Permission[];
+  /** Where each effective permission came from */
+  sources: Partial<Record<Permission, PermissionSource>>;
+  /** Role permissions removed by a deny override */
+  denied: Permission[];
+}
+
+// Returned by /api/users/[userId]/permissions
+export interface UserPermissionDetails extends EffectivePermissions {
+  role: UserRole;
+  /** Permissions of the user's role before overrides */
+  role_permissions: Permission[];
+  overrides: PermissionOverrides;
+  updated_at: string | null;
+  updated_by: string | null;
+}
+
 // Audit Log Types
 export interface AuditLog {
   id: string;
@@ -318,12 +692,34 @@ export interface AuditLog {
   ip_address: string;
   user_agent: string;
   created_at: string;
+  /** Hash chain shard; absent on entries chained before sharding, which belong to shard 0 */
+  chain_shard?: number;
+  /** Position in the shard's hash chain (absent on entries written before chaining) */
+  sequence?: number;
+  prev_hash?: string;
+  hash?: string;
+}
+
+export interface AuditChainVerification {
+  valid: boolean;
+  checkedEntries: number;
+  /** The newest entry of each chain shard written to so far */
+  heads: { shard: number; sequence: number; hash: string | null }[];
+  firstBrokenLink: {
+    shard: number;
+    sequence: number;
+    logId: string | null;
+    reason: 'missing_entry' | 'duplicate_sequence' | 'prev_hash_mismatch' | 'hash_mismatch' | 'head_mismatch' | 'unconfirmed_anonymization';
+    message: string;
+  } | null;
+  verifiedAt: string;
 }
 
 // Session Management
 export interface UserSession {
   id: string;
   user_id: string;
+  /** SHA-256 fingerprint of the current refresh token for this session */
   token: string;
   ip_address: string;
   user_agent: string;
@@ -331,6 +727,133 @@ export interface UserSession {
   created_at: string;
   last_activity: string;
   expires_at: string;
+  revoked_at?: string | null;
+  revoked_reason?: string | null;
+}
+
+// One of the signed-in user's own sessions, as listed in the profile's Devices section
+export interface DeviceSession {
+  id: string;
+  device: {
+    type: 'desktop' | 'mobile' | 'tablet';
+    browser: string;
+    os: string;
+  };
+  /** Approximate, from the hosting edge's geolocation headers; null when unavailable */
+  location: { city: string; region: string; country: string } | null;
+  ip_address: string;
+  created_at: string;
+  last_activity: string;
+  is_current: boolean;
+  /** Opened by support staff viewing the platform as this user */
+  is_support_session: boolean;
+}
+
+// Platform security policy (single persisted document, edited in SecuritySettingsPage)
+export interface SecurityPolicy {
+  passwordPolicy: {
+    minLength: number;
+    requireUppercase: boolean;
+    requireLowercase: boolean;
+    requireNumbers: boolean;
+    requireSpecialChars: boolean;
+  };
+  sessionSettings: {
+    sessionTimeout: number; // minutes
+    maxConcurrentSessions: number;
+    requireReauth: boolean;
+  };
+  ipWhitelist: string[];
+  twoFactorAuth: {
+    /** Whether users may enrol TOTP two-factor authentication at all */
+    enabled: boolean;
+    /** Roles that must complete TOTP to sign in */
+    requiredRoles: UserRole[];
+  };
+  auditSettings: {
+    logRetention: number; // days
+    logLevel: 'basic' | 'detailed' | 'verbose';
+  };
+  updated_at?: string | null;
+  updated_by?: string | null;
+}
+
+// Two-factor authentication status for the signed-in user
+export interface MfaStatus {
+  enabled: boolean;
+  required: boolean;
+  enrolled_at: string | null;
+  recovery_codes_remaining: number;
+}
+
+// OpenID Connect single sign-on provider (stored in data/system-config.json)
+export interface SsoProviderConfig {
+  id: string;
+  name: string;
+  enabled: boolean;
+  issuer: string;
+  clientId: string;
+  /** Name of the environment variable holding the client secret; empty for public (PKCE-only) clients */
+  clientSecretEnv: string | null;
+  scopes: string[];
+  /** Email domains the provider may sign in; at least one is required */
+  allowedDomains: string[];
+  /** Create accounts on first sign-in instead of requiring an existing one */
+  autoProvision: boolean;
+  defaultRole: string;
+}
+
+// Account deletion request (account_deletions collection); removed after the grace period
+export interface AccountDeletionRequest {
+  id: string;
+  user_id: string;
+  status: 'scheduled' | 'cancelled' | 'completed';
+  requested_by: string;
+  self_requested: boolean;
+  reason: string;
+  requested_at: string;
+  scheduled_for: string;
+  cancelled_at: string | null;
+  completed_at: string | null;
+}
+
+// Staff invitation (user_invitations collection); accepted through the emailed /invite link
+export interface UserInvitation {
+  id: string;
+  email: string;
+  role: UserRole;
+  full_name: string;
+  /** 'expired' is derived: a pending invitation past expires_at */
+  status: 'pending' | 'expired' | 'accepted' | 'revoked';
+  invited_by: string;
+  invited_by_email: string;
+  created_at: string;
+  expires_at: string;
+  last_sent_at: string;
+  send_count: number;
+  accepted_at: string | null;
+  accepted_user_id: string | null;
+  revoked_at: string | null;
+  revoked_by: string | null;
+}
+
+// Scheduled maintenance window (stored in data/system-config.json)
+export interface MaintenanceWindow {
+  id: string;
+  start: string; // ISO date-time
+  end: string; // ISO date-time
+  message?: string;
+  created_by?: string;
+  created_at?: string;
+  announced_at?: string | null;
+}
+
+export interface MaintenanceStatus {
+  active: boolean;
+  source: 'manual' | 'scheduled' | null;
+  message: string;
+  endsAt: string | null;
+  upcoming: MaintenanceWindow[];
 }
 
 // Permission Check Helper
@@ -346,6 +869,41 @@ export const hasAllPermissions = (userPermissions: Permission[], requiredPermiss
   return requiredPermissions.every(permission => hasPermission(userPermissions, permission));
 };
 
+/**
+ * Merge a role's permissions with per-user overrides. Pass the stored role's
+ * permissions when available; the built-in matrix is the fallback. Deny wins
+ * over grant, and Super Admin is never narrowed because it always holds full access.
+ */
+export const resolveEffectivePermissions = (
+  role: UserRole,
+  overrides?: Partial<PermissionOverrides> | null,
+  rolePermissions: Permission[] = ROLE_PERMISSIONS[role] || ROLE_PERMISSIONS.user
+): EffectivePermissions => {
+  if (role === 'Super Admin' || !overrides) {
+    return {
+      permissions: rolePermissions,
+      sources: Object.fromEntries(rolePermissions.map(permission => [permission, 'role'])),
+      denied: []
+    };
+  }
+
+  const deny = new Set(overrides.deny || []);
+  const sources: Partial<Record<Permission, PermissionSource>> = {};
+
+  rolePermissions.forEach(permission => {
+    if (!deny.has(permission)) sources[permission] = 'role';
+  });
+  (overrides.grant || []).forEach(permission => {
+    if (!deny.has(permission) && !sources[permission]) sources[permission] = 'grant';
+  });
+
+  return {
+    permissions: Object.keys(sources) as Permission[],
+    sources,
+    denied: rolePermissions.filter(permission => deny.has(permission))
+  };
+};
+
 // Role Hierarchy - Using EXACT role strings from database
 export const ROLE_HIERARCHY: Record<UserRole, number> = {
   'Super Admin': 5,
@@ -356,8 +914,13 @@ export const ROLE_HIERARCHY: Record<UserRole, number> = {
   user: 1
 };
 
-export const canManageRole = (currentUserRole: UserRole, targetRole: UserRole): boolean => {
-  return ROLE_HIERARCHY[currentUserRole] > ROLE_HIERARCHY[targetRole];
+// Pass the stored hierarchy (role name -> level) to include custom roles; unknown roles rank lowest
+export const canManageRole = (
+  currentUserRole: UserRole,
+  targetRole: UserRole,
+  hierarchy: Record<string, number> = ROLE_HIERARCHY
+): boolean => {
+  return (hierarchy[currentUserRole] || 0) > (hierarchy[targetRole] || 0);
 };
 
 /**
@@ -393,6 +956,34 @@ export interface Instructor {
   createdAt: Date;
 }
 
+/**
+ * Lesson Lock
+ * Why the current learner cannot open a lesson yet
+ */
+export interface LessonLock {
+  /** Unfinished prerequisite courses, the unfinished previous lesson, or the drip delay */
+  reason: 'prerequisites' | 'sequence' | 'drip';
+  /** When a drip lesson unlocks; null until the learner has enrolled */
+  unlocks_at: string | null;
+  /** Days after enrolment a drip lesson unlocks */
+  drip_days?: number;
+  /** Courses or lesson to finish first */
+  requires: { id: string; title: string }[];
+}
+
+/**
+ * Course Access
+ * The current learner's standing against a course's prerequisites
+ */
+export interface CourseAccess {
+  /** Whether prerequisite courses are still unfinished */
+  locked: boolean;
+  /** Prerequisite courses still to finish */
+  missing_prerequisites: { course_id: string; title: string }[];
+  /** When the learner first made progress in the course */
+  enrolled_at: string | null;
+}
+
 /**
  * Course Lesson
  * Individual video lesson within a course
@@ -412,6 +1003,10 @@ export interface Lesson {
   description: string;
   /** XP points earned for completing the lesson */
   xpPoints: number;
+  /** Days after enrolment before the lesson unlocks */
+  drip_days?: number;
+  /** Set when the current learner cannot open the lesson yet; its video is withheld */
+  lock?: LessonLock | null;
 }
 
 /**
@@ -447,6 +1042,12 @@ export interface Course {
   comingSoon?: boolean;
   /** Expected release date for coming soon courses */
   releaseDate?: string;
+  /** Courses to finish before this one opens */
+  prerequisite_course_ids?: string[];
+  /** Whether each lesson opens only once the one before it is complete */
+  sequential_lessons?: boolean;
+  /** The current learner's access, present when the course has access rules */
+  access?: CourseAccess;
 }
 
 /**
@@ -1,4 +1,5 @@
 import { AuditLog } from '../types';
+import { auditLogsAPI, AuditLogFilters } from '../lib/api';
 
 /**
  * Audit Logger Utility
@@ -308,15 +309,24 @@ class AuditLogger {
   }
 
   /**
-   * Export audit logs
+   * Export audit logs from the server (every matching entry, not just those loaded here)
    */
-  async exportLogs(filters?: any, format: 'json' | 'csv' = 'json'): Promise<string> {
-    const logs = await this.getAllLogs(filters, 1000);
+  async exportLogs(filters?: AuditLogFilters, format: 'json' | 'csv' = 'json'): Promise<string> {
+    const response = await fetch(auditLogsAPI.getExportUrl(filters, format === 'csv' ? 'csv' : 'ndjson'), {
+      method: 'GET',
+      credentials: 'include'
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to export audit logs');
+    }
 
+    const body = await response.text();
     if (format === 'csv') {
-      return this.convertToCSV(logs);
+      return body;
     }
 
+    const logs = body.split('\n').filter(Boolean).map(line => JSON.parse(line));
     return JSON.stringify(logs, null, 2);
   }
 
@@ -353,28 +363,6 @@ class AuditLogger {
 
     localStorage.setItem('audit_logs', JSON.stringify(logs));
   }
-
-  private convertToCSV(logs: AuditLog[]): string {
-    const headers = ['ID', 'User ID', 'User Email', 'Action', 'Resource Type', 'Resource ID', 'Details', 'IP Address', 'User Agent', 'Created At'];
-    const rows = logs.map(log => [
-      log.id,
-      log.user_id,
-      log.user_email,
-      log.action,
-      log.resource_type,
-      log.resource_id || '',
-      JSON.stringify(log.details),
-      log.ip_address,
-      log.user_agent,
-      log.created_at
-    ]);
-
-    const csvContent = [headers, ...rows]
-      .map(row => row.map(field => `"${field}"`).join(','))
-      .join('\n');
-
-    return csvContent;
-  }
 }
 
 // Export singleton instance
@@ -0,0 +1,33 @@
+/**
+ * Wording for course and lesson locks
+ *
+ * The server decides what is locked (prerequisite courses, sequential
+ * lessons, drip release) and sends the reason with the course; these helpers
+ * turn it into the "locked until…" text shown on cards and lesson lists.
+ */
+
+import { CourseAccess, LessonLock } from '../types';
+
+const formatUnlockDate = (iso: string) =>
+  new Date(iso).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+
+const listTitles = (titles: string[]) => titles.map(title => `"${title}"`).join(', ');
+
+export const describeLessonLock = (lock: LessonLock): string => {
+  switch (lock.reason) {
+    case 'prerequisites':
+      return `Locked until you finish ${listTitles(lock.requires.map(item => item.title))}`;
+    case 'sequence':
+      return `Locked until you complete ${listTitles(lock.requires.map(item => item.title))}`;
+    case 'drip':
+      if (lock.unlocks_at) return `Locked until ${formatUnlockDate(lock.unlocks_at)}`;
+      return `Unlocks ${lock.drip_days} day${lock.drip_days === 1 ? '' : 's'} after you start the course`;
+    default:
+      return 'Locked';
+  }
+};
+
+export const describeCourseAccess = (access?: CourseAccess): string | null => {
+  if (!access?.locked) return null;
+  return `Locked until you finish ${listTitles(access.missing_prerequisites.map(item => item.title))}`;
+};
@@ -1,4 +1,4 @@
-import { Permission, UserRole, ROLE_PERMISSIONS, ROLE_HIERARCHY } from '../types';
+import { Permission, RoleDefinition, UserRole, ROLE_PERMISSIONS, ROLE_HIERARCHY } from '../types';
 
 /**
  * Permission Management Utilities
@@ -35,18 +35,36 @@ export const getRolePermissions = (role: UserRole): Permission[] => {
 
 /**
  * Check if a user can manage another role
+ * (pass the stored hierarchy from the roles collection to include custom roles)
  */
-export const canManageRole = (currentUserRole: UserRole, targetRole: UserRole): boolean => {
-  return ROLE_HIERARCHY[currentUserRole] > ROLE_HIERARCHY[targetRole];
+export const canManageRole = (
+  currentUserRole: UserRole,
+  targetRole: UserRole,
+  hierarchy: Record<string, number> = ROLE_HIERARCHY
+): boolean => {
+  return (hierarchy[currentUserRole] || 0) > (hierarchy[targetRole] || 0);
 };
 
 /**
  * Get all roles that a user can manage
  */
-export const getManageableRoles = (currentUserRole: UserRole): UserRole[] => {
-  return Object.keys(ROLE_HIERARCHY).filter(role =>
-    canManageRole(currentUserRole, role as UserRole)
-  ) as UserRole[];
+export const getManageableRoles = (
+  currentUserRole: UserRole,
+  hierarchy: Record<string, number> = ROLE_HIERARCHY
+): UserRole[] => {
+  return Object.keys(hierarchy).filter(role =>
+    canManageRole(currentUserRole, role, hierarchy)
+  );
+};
+
+/**
+ * Build a role name -> level map from stored role definitions
+ */
+export const getRoleHierarchy = (roles: RoleDefinition[]): Record<string, number> => {
+  return roles.reduce<Record<string, number>>((hierarchy, role) => {
+    hierarchy[role.name] = role.level;
+    return hierarchy;
+  }, {});
 };
 
 /**
@@ -175,6 +193,7 @@ export const getPermissionDisplayName = (permission: Permission): string => {
     'support:respond_tickets': 'Respond to Tickets',
     'support:escalate_tickets': 'Escalate Tickets',
     'support:close_tickets': 'Close Tickets',
+    'support:impersonate_users': 'View As User',
 
     // Financial & Analytics
     'analytics:view': 'View Analytics',
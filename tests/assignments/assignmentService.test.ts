@@ -0,0 +1,61 @@
+/**
+ * Calibrated peer scores in AssignmentService. The score is computed from
+ * plain review objects, so the services around it are only stubbed out.
+ */
+jest.mock('../../backend/lib/firebaseAdmin', () => ({ getFirestore: () => ({}), getStorage: () => ({}) }));
+jest.mock('../../backend/lib/firestoreService', () => ({}));
+jest.mock('../../backend/lib/notificationService', () => ({}));
+jest.mock('../../backend/lib/quizService', () => ({}));
+
+const AssignmentService = require('../../backend/lib/assignmentService');
+
+const review = (userId: string, submissionId: string, percentage: number) => ({
+  user_id: userId,
+  submission_id: submissionId,
+  percentage
+});
+
+describe('calibratedScore', () => {
+  it('is null without reviews', () => {
+    expect(AssignmentService.calibratedScore([], [], new Map())).toBeNull();
+  });
+
+  it('averages reviewers with no instructor-graded overlap as they are', () => {
+    const reviews = [review('ada', 'target', 70), review('ben', 'target', 85)];
+
+    expect(AssignmentService.calibratedScore(reviews, reviews, new Map())).toBe(78);
+  });
+
+  it('takes out how far each reviewer usually sits from the instructor', () => {
+    const reviews = [review('lenient', 'target', 90), review('harsh', 'target', 50)];
+    const allReviews = [
+      ...reviews,
+      // lenient scored 20 and 10 points above the instructor elsewhere: +15 bias
+      review('lenient', 'graded-1', 80),
+      review('lenient', 'graded-2', 70),
+      // harsh scored 20 points below: -20 bias
+      review('harsh', 'graded-1', 40)
+    ];
+    const instructorScores = new Map([['graded-1', 60], ['graded-2', 60]]);
+
+    // (90 - 15 + 50 + 20) / 2
+    expect(AssignmentService.calibratedScore(reviews, allReviews, instructorScores)).toBe(73);
+  });
+
+  it('ignores submissions the instructor has not graded, and the reviewed one itself', () => {
+    const reviews = [review('ada', 'target', 80)];
+    const allReviews = [...reviews, review('ada', 'ungraded', 20)];
+    const instructorScores = new Map([['target', 40]]);
+
+    expect(AssignmentService.calibratedScore(reviews, allReviews, instructorScores)).toBe(80);
+  });
+
+  it('keeps calibrated scores between 0 and 100', () => {
+    const reviews = [review('harsh', 'target', 95), review('lenient', 'target', 5)];
+    const allReviews = [...reviews, review('harsh', 'graded', 20), review('lenient', 'graded', 90)];
+    const instructorScores = new Map([['graded', 50]]);
+
+    // harsh: 95 + 30 caps at 100; lenient: 5 - 40 floors at 0
+    expect(AssignmentService.calibratedScore(reviews, allReviews, instructorScores)).toBe(50);
+  });
+});
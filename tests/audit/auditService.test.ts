@@ -0,0 +1,247 @@
+/**
+ * The sharded audit hash chain: writing, verifying, tampering and
+ * anonymisation, with Firestore replaced by in-memory collections.
+ */
+import crypto from 'crypto';
+
+const mockCollections = new Map<string, Map<string, Record<string, any>>>();
+
+jest.mock('firebase-admin', () => ({
+  firestore: { FieldValue: { serverTimestamp: () => 'server-timestamp' } }
+}));
+
+jest.mock('../../backend/lib/firebaseAdmin', () => {
+  let autoId = 0;
+
+  const collectionOf = (name: string) => {
+    if (!mockCollections.has(name)) mockCollections.set(name, new Map());
+    return mockCollections.get(name)!;
+  };
+
+  const docRef = (collection: string, id: string): any => ({
+    id,
+    get: async () => snapshotOf(collection, id),
+    update: async (data: Record<string, any>) => {
+      collectionOf(collection).set(id, { ...collectionOf(collection).get(id), ...data });
+    },
+    set: async (data: Record<string, any>) => {
+      collectionOf(collection).set(id, { ...data });
+    }
+  });
+
+  const snapshotOf = (collection: string, id: string) => ({
+    id,
+    ref: docRef(collection, id),
+    exists: collectionOf(collection).has(id),
+    data: () => collectionOf(collection).get(id)
+  });
+
+  const query = (collection: string, filters: [string, any][] = [], order: string | null = null, size = Infinity, after: any = null): any => ({
+    where: (field: string, _op: string, value: any) => query(collection, [...filters, [field, value]], order, size, after),
+    orderBy: (field: string) => query(collection, filters, field, size, after),
+    limit: (limit: number) => query(collection, filters, order, limit, after),
+    startAfter: (doc: any) => query(collection, filters, order, size, doc),
+    get: async () => {
+      let docs = Array.from(collectionOf(collection).keys())
+        .map(id => snapshotOf(collection, id))
+        .filter(doc => filters.every(([field, value]) => doc.data()![field] === value));
+      if (order) {
+        const key = (doc: any) => [doc.data()[order], doc.id];
+        docs = docs
+          .filter(doc => doc.data()![order] !== undefined)
+          .sort((a, b) => (key(a)[0] - key(b)[0]) || key(a)[1].localeCompare(key(b)[1]));
+        if (after) {
+          const [afterValue, afterId] = key(after);
+          docs = docs.filter(doc => doc.data()![order] > afterValue || (doc.data()![order] === afterValue && doc.id > afterId));
+        }
+      }
+      docs = docs.slice(0, size);
+      return { docs, size: docs.length, empty: docs.length === 0, forEach: (fn: (doc: any) => void) => docs.forEach(fn) };
+    }
+  });
+
+  return {
+    getFirestore: () => ({
+      collection: (name: string) => ({
+        ...query(name),
+        doc: (id?: string) => docRef(name, id || `log-${String(++autoId).padStart(6, '0')}`)
+      }),
+      runTransaction: async (update: (transaction: any) => Promise<unknown>) => update({
+        get: (ref: any) => ref.get(),
+        set: (ref: any, data: Record<string, any>) => ref.set(data)
+      }),
+      batch: () => {
+        const updates: (() => Promise<void>)[] = [];
+        return {
+          update: (ref: any, data: Record<string, any>) => updates.push(() => ref.update(data)),
+          commit: async () => {
+            for (const apply of updates) await apply();
+          }
+        };
+      }
+    })
+  };
+});
+
+const AuditService = require('../../backend/lib/auditService');
+
+const logs = () => mockCollections.get('audit_logs')!;
+
+const entriesOf = (shard: number) => Array.from(logs().entries())
+  .filter(([, entry]) => entry.chain_shard === shard)
+  .sort(([, a], [, b]) => a.sequence - b.sequence);
+
+// Shards are picked at random; these tests pick them in turn
+let nextShards: number[] = [];
+
+const writeLogs = async (shards: number[], data: Record<string, any> = {}) => {
+  nextShards = [...shards];
+  for (const shard of shards) {
+    await AuditService.createLog({ action: 'LOGIN', user_id: 'ada', user_email: 'ada@example.com', details: { shard }, ...data });
+  }
+};
+
+beforeEach(() => {
+  mockCollections.clear();
+  nextShards = [];
+  jest.spyOn(crypto, 'randomInt').mockImplementation(() => nextShards.shift() ?? 0);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('createLog', () => {
+  it('chains each shard on its own and keeps a head per shard', async () => {
+    await writeLogs([0, 3, 3, 0, 3]);
+
+    expect(entriesOf(3).map(([, entry]) => entry.sequence)).toEqual([1, 2, 3]);
+    expect(entriesOf(3)[1][1].prev_hash).toBe(entriesOf(3)[0][1].hash);
+    expect(entriesOf(0).map(([, entry]) => entry.sequence)).toEqual([1, 2]);
+
+    const heads = mockCollections.get('system_settings')!;
+    expect(heads.get('audit_chain')).toMatchObject({ shard: 0, sequence: 2, hash: entriesOf(0)[1][1].hash });
+    expect(heads.get('audit_chain_3')).toMatchObject({ shard: 3, sequence: 3, hash: entriesOf(3)[2][1].hash });
+  });
+});
+
+describe('verifyChain', () => {
+  it('accepts an untouched chain', async () => {
+    await writeLogs([0, 1, 2, 1, 0, 2, 2]);
+
+    const result = await AuditService.verifyChain();
+
+    expect(result).toMatchObject({ valid: true, checkedEntries: 7, firstBrokenLink: null });
+    expect(result.heads).toEqual([
+      { shard: 0, sequence: 2, hash: entriesOf(0)[1][1].hash },
+      { shard: 1, sequence: 2, hash: entriesOf(1)[1][1].hash },
+      { shard: 2, sequence: 3, hash: entriesOf(2)[2][1].hash }
+    ]);
+  });
+
+  it('reports an edited entry, even with a recomputed plain hash', async () => {
+    await writeLogs([1, 1, 1]);
+    const [id, entry] = entriesOf(1)[1];
+    const edited = { ...entry, user_email: 'someone@example.com' };
+    logs().set(id, { ...edited, hash: crypto.createHash('sha256').update(JSON.stringify(edited)).digest('hex') });
+
+    const result = await AuditService.verifyChain();
+
+    expect(result.valid).toBe(false);
+    expect(result.firstBrokenLink).toMatchObject({ shard: 1, sequence: 2, logId: id, reason: 'hash_mismatch' });
+  });
+
+  it('reports an entry removed from the middle of a shard', async () => {
+    await writeLogs([2, 2, 2, 0]);
+    logs().delete(entriesOf(2)[1][0]);
+
+    const result = await AuditService.verifyChain();
+
+    expect(result.firstBrokenLink).toMatchObject({ shard: 2, sequence: 2, reason: 'missing_entry' });
+  });
+
+  it('reports entries removed from the end of a shard through its head', async () => {
+    await writeLogs([4, 4, 4]);
+    logs().delete(entriesOf(4)[2][0]);
+
+    const result = await AuditService.verifyChain();
+
+    expect(result.firstBrokenLink).toMatchObject({ shard: 4, sequence: 3, reason: 'missing_entry' });
+  });
+
+  it('reports an entry moved to another shard', async () => {
+    await writeLogs([5, 5, 6]);
+    const [id, entry] = entriesOf(5)[1];
+    logs().set(id, { ...entry, chain_shard: 6 });
+
+    const result = await AuditService.verifyChain();
+
+    expect(result.valid).toBe(false);
+  });
+
+  it('continues the chain written before sharding in shard 0', async () => {
+    const legacy = {
+      source: 'server',
+      user_id: 'ada',
+      user_email: 'ada@example.com',
+      action: 'LOGIN',
+      resource_type: '',
+      resource_id: '',
+      details: {},
+      ip_address: '',
+      user_agent: '',
+      created_at: '2025-01-01T00:00:00.000Z',
+      sequence: 1,
+      prev_hash: '0'.repeat(64)
+    };
+    const legacyHash = AuditService.hashEntry(legacy);
+    mockCollections.set('audit_logs', new Map([['legacy-1', { ...legacy, hash: legacyHash }]]));
+    mockCollections.set('system_settings', new Map([['audit_chain', { sequence: 1, hash: legacyHash, log_id: 'legacy-1' }]]));
+
+    await writeLogs([0, 7]);
+
+    expect(entriesOf(0)[0][1]).toMatchObject({ sequence: 2, prev_hash: legacyHash });
+    await expect(AuditService.verifyChain()).resolves.toMatchObject({ valid: true, checkedEntries: 3 });
+  });
+});
+
+describe('anonymizeUserEntries', () => {
+  it('keeps the chain verifiable after a user is anonymised', async () => {
+    await writeLogs([0, 1, 2]);
+    await writeLogs([1], { user_id: 'ben', user_email: 'ben@example.com' });
+
+    nextShards = [3];
+    await AuditService.anonymizeUserEntries('ada', 'ada@example.com');
+
+    const anonymized = Array.from(logs().values()).filter(entry => entry.anonymized);
+    expect(anonymized).toHaveLength(3);
+    expect(JSON.stringify(anonymized)).not.toContain('ada@example.com');
+    await expect(AuditService.verifyChain()).resolves.toMatchObject({ valid: true, checkedEntries: 5 });
+  });
+
+  it('reports an anonymised entry edited afterwards', async () => {
+    await writeLogs([0, 1]);
+    nextShards = [2];
+    await AuditService.anonymizeUserEntries('ada', 'ada@example.com');
+
+    const [id, entry] = entriesOf(1)[0];
+    logs().set(id, { ...entry, action: 'LOGOUT' });
+
+    await expect(AuditService.verifyChain()).resolves.toMatchObject({
+      valid: false,
+      firstBrokenLink: { shard: 1, sequence: 1, reason: 'hash_mismatch' }
+    });
+  });
+
+  it('does not accept a rewrite that no anonymisation record lists', async () => {
+    await writeLogs([0, 1]);
+    const [id, entry] = entriesOf(1)[0];
+    const scrubbed = { ...entry, user_email: '' };
+    logs().set(id, { ...scrubbed, anonymized: { at: entry.created_at, content_hash: AuditService.hashEntry(scrubbed) } });
+
+    await expect(AuditService.verifyChain()).resolves.toMatchObject({
+      valid: false,
+      firstBrokenLink: { shard: 1, sequence: 1, logId: id, reason: 'unconfirmed_anonymization' }
+    });
+  });
+});
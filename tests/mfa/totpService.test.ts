@@ -0,0 +1,120 @@
+/**
+ * TOTPService codes, replay protection and lockout, with Firestore replaced
+ * by an in-memory user_mfa collection.
+ */
+const mockEnrollments = new Map<string, Record<string, any>>();
+
+jest.mock('../../backend/lib/firebaseAdmin', () => {
+  const docRef = (id: string) => ({
+    id,
+    get: async () => ({ id, exists: mockEnrollments.has(id), data: () => mockEnrollments.get(id) }),
+    set: async (data: Record<string, any>, options?: { merge?: boolean }) => {
+      mockEnrollments.set(id, { ...(options?.merge ? mockEnrollments.get(id) : {}), ...data });
+    },
+    update: async (data: Record<string, any>) => {
+      mockEnrollments.set(id, { ...mockEnrollments.get(id), ...data });
+    }
+  });
+
+  return {
+    getFirestore: () => ({
+      collection: () => ({ doc: docRef }),
+      runTransaction: async (update: (transaction: any) => Promise<unknown>) => update({
+        get: (ref: ReturnType<typeof docRef>) => ref.get(),
+        update: (ref: ReturnType<typeof docRef>, data: Record<string, any>) => ref.update(data)
+      })
+    })
+  };
+});
+
+const TOTPService = require('../../backend/lib/totpService');
+
+const USER_ID = 'admin';
+
+// The RFC 6238 SHA-1 test secret, "12345678901234567890"
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+let secret: string;
+let recoveryCodes: string[];
+let enrolledStep: number;
+
+// Codes relative to the step that confirmed enrolment, so a step boundary mid-test changes nothing
+const codeAt = (offsetSteps: number) => TOTPService.generateCode(secret, enrolledStep + offsetSteps);
+
+// Six digits that no code in the accepted window can equal
+const wrongCode = () => {
+  const valid = [-1, 0, 1, 2].map(codeAt);
+  return ['000000', '111111', '222222', '333333', '444444'].find(code => !valid.includes(code));
+};
+
+beforeEach(async () => {
+  mockEnrollments.clear();
+  ({ secret } = await TOTPService.beginEnrollment(USER_ID, 'admin@example.com'));
+  recoveryCodes = await TOTPService.confirmEnrollment(USER_ID, TOTPService.generateCode(secret, TOTPService.currentStep()));
+  enrolledStep = mockEnrollments.get(USER_ID)!.last_used_step;
+});
+
+describe('codes', () => {
+  it('matches the RFC 6238 test vectors', () => {
+    expect(TOTPService.generateCode(RFC_SECRET, TOTPService.currentStep(59 * 1000))).toBe('287082');
+    expect(TOTPService.generateCode(RFC_SECRET, TOTPService.currentStep(1111111109 * 1000))).toBe('081804');
+  });
+
+  it('accepts one step of clock drift either side and nothing further', () => {
+    const now = 1111111109 * 1000;
+    const step = TOTPService.currentStep(now);
+
+    expect(TOTPService.matchCode(RFC_SECRET, TOTPService.generateCode(RFC_SECRET, step - 1), now)).toBe(step - 1);
+    expect(TOTPService.matchCode(RFC_SECRET, TOTPService.generateCode(RFC_SECRET, step + 1), now)).toBe(step + 1);
+    expect(TOTPService.matchCode(RFC_SECRET, TOTPService.generateCode(RFC_SECRET, step + 2), now)).toBeNull();
+    expect(TOTPService.matchCode(RFC_SECRET, 'abcdef', now)).toBeNull();
+  });
+});
+
+describe('enrolment', () => {
+  it('stores the secret encrypted and the recovery codes hashed', () => {
+    const enrollment = mockEnrollments.get(USER_ID)!;
+
+    expect(enrollment.enabled).toBe(true);
+    expect(enrollment.secret).not.toContain(secret);
+    expect(TOTPService.decryptSecret(enrollment.secret)).toBe(secret);
+    expect(enrollment.recovery_codes).toHaveLength(recoveryCodes.length);
+    expect(enrollment.recovery_codes).not.toContain(recoveryCodes[0]);
+  });
+});
+
+describe('verify', () => {
+  it('rejects the code that confirmed enrolment, and any code replayed after use', async () => {
+    await expect(TOTPService.verify(USER_ID, { code: codeAt(0) })).resolves.toMatchObject({ valid: false });
+
+    await expect(TOTPService.verify(USER_ID, { code: codeAt(1) })).resolves.toEqual({ valid: true, method: 'totp' });
+    await expect(TOTPService.verify(USER_ID, { code: codeAt(1) })).resolves.toMatchObject({ valid: false });
+  });
+
+  it('accepts each recovery code once', async () => {
+    await expect(TOTPService.verify(USER_ID, { recoveryCode: recoveryCodes[0].toUpperCase() }))
+      .resolves.toEqual({ valid: true, method: 'recovery_code' });
+    await expect(TOTPService.verify(USER_ID, { recoveryCode: recoveryCodes[0] })).resolves.toMatchObject({ valid: false });
+    expect(mockEnrollments.get(USER_ID)?.recovery_codes).toHaveLength(recoveryCodes.length - 1);
+  });
+
+  it('locks the user out after five wrong codes, even for a right one', async () => {
+    for (let attempt = 1; attempt < 5; attempt++) {
+      await expect(TOTPService.verify(USER_ID, { code: wrongCode() })).resolves.toEqual({ valid: false, locked: false });
+    }
+    await expect(TOTPService.verify(USER_ID, { code: wrongCode() })).resolves.toEqual({ valid: false, locked: true });
+
+    await expect(TOTPService.verify(USER_ID, { code: codeAt(1) })).resolves.toEqual({ valid: false, locked: true });
+    await expect(TOTPService.verify(USER_ID, { recoveryCode: recoveryCodes[0] })).resolves.toEqual({ valid: false, locked: true });
+  });
+
+  it('lets the user in again once the lockout has passed', async () => {
+    mockEnrollments.set(USER_ID, {
+      ...mockEnrollments.get(USER_ID),
+      locked_until: new Date(Date.now() - 1000).toISOString()
+    });
+
+    await expect(TOTPService.verify(USER_ID, { code: codeAt(1) })).resolves.toEqual({ valid: true, method: 'totp' });
+    expect(mockEnrollments.get(USER_ID)).toMatchObject({ failed_attempts: 0, locked_until: null });
+  });
+});
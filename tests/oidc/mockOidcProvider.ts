@@ -0,0 +1,87 @@
+/**
+ * A minimal OpenID Connect provider on 127.0.0.1 for exercising OIDCService:
+ * discovery, JWKS and a token endpoint that answers any code with an RS256
+ * ID token carrying the claims the test set last.
+ */
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { generateKeyPairSync, KeyObject, sign } from 'crypto';
+
+export interface MockOidcProvider {
+  issuer: string;
+  /** Claims of the next ID token; iss, aud, iat and exp are filled in */
+  setIdTokenClaims: (claims: Record<string, unknown>) => void;
+  /** Sign the next ID tokens with a key the JWKS does not publish */
+  useForeignKey: (foreign: boolean) => void;
+  /** Form bodies posted to the token endpoint */
+  tokenRequests: URLSearchParams[];
+  close: () => Promise<void>;
+}
+
+const KEY_ID = 'mock-key-1';
+
+const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const signIdToken = (claims: Record<string, unknown>, privateKey: KeyObject) => {
+  const signingInput = `${encode({ alg: 'RS256', typ: 'JWT', kid: KEY_ID })}.${encode(claims)}`;
+  return `${signingInput}.${sign('sha256', Buffer.from(signingInput), privateKey).toString('base64url')}`;
+};
+
+export const startMockOidcProvider = async (clientId: string): Promise<MockOidcProvider> => {
+  const { publicKey, privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const foreignKey = generateKeyPairSync('rsa', { modulusLength: 2048 }).privateKey;
+
+  let issuer = '';
+  let idTokenClaims: Record<string, unknown> = {};
+  let foreign = false;
+  const tokenRequests: URLSearchParams[] = [];
+
+  const server: Server = createServer((req, res) => {
+    const send = (status: number, body: object) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+
+    if (req.url === '/.well-known/openid-configuration') {
+      return send(200, {
+        issuer,
+        authorization_endpoint: `${issuer}/authorize`,
+        token_endpoint: `${issuer}/token`,
+        jwks_uri: `${issuer}/jwks`
+      });
+    }
+
+    if (req.url === '/jwks') {
+      return send(200, { keys: [{ ...publicKey.export({ format: 'jwk' }), kid: KEY_ID, use: 'sig', alg: 'RS256' }] });
+    }
+
+    if (req.url === '/token' && req.method === 'POST') {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        tokenRequests.push(new URLSearchParams(body));
+        const now = Math.floor(Date.now() / 1000);
+        const claims = { iss: issuer, aud: clientId, iat: now, exp: now + 300, ...idTokenClaims };
+        send(200, { token_type: 'Bearer', access_token: 'mock-access-token', id_token: signIdToken(claims, foreign ? foreignKey : privateKey) });
+      });
+      return;
+    }
+
+    send(404, { error: 'not_found' });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    issuer,
+    setIdTokenClaims: (claims) => { idTokenClaims = claims; },
+    useForeignKey: (value) => { foreign = value; },
+    tokenRequests,
+    close: () => new Promise<void>((resolve, reject) => {
+      // fetch keeps connections alive, which would hold close() open
+      server.closeAllConnections();
+      server.close(error => (error ? reject(error) : resolve()));
+    })
+  };
+};
@@ -0,0 +1,229 @@
+/**
+ * OIDCService against a local mock provider, with Firebase and the services
+ * around it replaced by in-memory doubles.
+ */
+import { MockOidcProvider, startMockOidcProvider } from './mockOidcProvider';
+
+const mockUsers = new Map<string, Record<string, any>>();
+const mockAuthUsers = new Map<string, { uid: string; email: string }>();
+const mockMfaEnabled = new Set<string>();
+
+jest.mock('firebase-admin', () => ({
+  firestore: { FieldValue: { serverTimestamp: () => 'server-timestamp' } }
+}));
+
+jest.mock('../../backend/lib/firebaseAdmin', () => ({
+  getFirestore: () => ({
+    collection: () => ({
+      doc: (id: string) => ({
+        get: async () => ({ exists: mockUsers.has(id), data: () => mockUsers.get(id) }),
+        set: async (data: Record<string, any>, options?: { merge?: boolean }) => {
+          const current = options?.merge ? mockUsers.get(id) || {} : {};
+          const merged = { ...current, ...data };
+          if (options?.merge && data.sso_identities) {
+            merged.sso_identities = { ...(current.sso_identities || {}), ...data.sso_identities };
+          }
+          mockUsers.set(id, merged);
+        }
+      })
+    })
+  }),
+  getAuth: () => ({
+    getUserByEmail: async (email: string) => {
+      const record = Array.from(mockAuthUsers.values()).find(user => user.email === email);
+      if (!record) throw Object.assign(new Error('not found'), { code: 'auth/user-not-found' });
+      return record;
+    },
+    createUser: async ({ email }: { email: string }) => {
+      const record = { uid: `uid-${mockAuthUsers.size + 1}`, email };
+      mockAuthUsers.set(record.uid, record);
+      return record;
+    },
+    setCustomUserClaims: async () => undefined
+  })
+}));
+
+jest.mock('../../backend/lib/systemConfigService', () => ({ getConfig: async () => ({}) }));
+jest.mock('../../backend/lib/auditService', () => ({ createLog: async () => undefined }));
+jest.mock('../../backend/lib/totpService', () => ({ isEnabled: async (userId: string) => mockMfaEnabled.has(userId) }));
+jest.mock('../../backend/lib/roleService', () => ({
+  __esModule: true,
+  default: {
+    getHierarchy: async () => ({
+      'Super Admin': 5,
+      Instructor: 4,
+      'Content Manager': 4,
+      'Community Manager': 3,
+      'User Support': 2,
+      user: 1
+    })
+  }
+}));
+
+const OIDCService = require('../../backend/lib/oidcService');
+
+const CLIENT_ID = 'forward-africa';
+const REDIRECT_URI = 'http://localhost:3000/api/auth/sso/acme/callback';
+const context = { ipAddress: '127.0.0.1', userAgent: 'jest' };
+
+let mock: MockOidcProvider;
+let provider: Record<string, any>;
+
+const addUser = (uid: string, email: string, role: string) => {
+  mockAuthUsers.set(uid, { uid, email });
+  mockUsers.set(uid, { email, role });
+};
+
+const claimsFor = (email: string, sub = `sub-${email}`) => ({ sub, email, email_verified: true });
+
+beforeAll(async () => {
+  mock = await startMockOidcProvider(CLIENT_ID);
+  [provider] = OIDCService.normalizeProviders([
+    { id: 'acme', name: 'Acme', issuer: mock.issuer, clientId: CLIENT_ID, allowedDomains: ['acme.com'] }
+  ]);
+});
+
+afterAll(async () => {
+  await mock.close();
+});
+
+beforeEach(() => {
+  mockUsers.clear();
+  mockAuthUsers.clear();
+  mockMfaEnabled.clear();
+  mock.useForeignKey(false);
+});
+
+describe('normalizeProviders', () => {
+  const entry = { id: 'acme', name: 'Acme', issuer: 'https://login.acme.com', clientId: CLIENT_ID };
+
+  it('requires the email domains a provider may sign in', () => {
+    expect(() => OIDCService.normalizeProviders([entry])).toThrow(/email domains/);
+    expect(() => OIDCService.normalizeProviders([{ ...entry, allowedDomains: [' '] }])).toThrow(/email domains/);
+    expect(OIDCService.normalizeProviders([{ ...entry, allowedDomains: ['@Acme.com'] }])[0].allowedDomains).toEqual(['acme.com']);
+  });
+
+  it('only accepts plain http issuers on this machine', () => {
+    expect(() => OIDCService.normalizeProviders([{ ...entry, issuer: 'http://login.acme.com', allowedDomains: ['acme.com'] }]))
+      .toThrow(/https/);
+  });
+});
+
+describe('completeAuthorization', () => {
+  it('exchanges the code with the PKCE verifier and returns the verified claims', async () => {
+    mock.setIdTokenClaims({ ...claimsFor('ada@acme.com'), nonce: 'nonce-1' });
+
+    const claims = await OIDCService.completeAuthorization(provider, {
+      code: 'code-1',
+      redirectUri: REDIRECT_URI,
+      codeVerifier: 'verifier-1',
+      nonce: 'nonce-1'
+    });
+
+    expect(claims.email).toBe('ada@acme.com');
+    const request = mock.tokenRequests[mock.tokenRequests.length - 1];
+    expect(request.get('code')).toBe('code-1');
+    expect(request.get('code_verifier')).toBe('verifier-1');
+    expect(request.get('redirect_uri')).toBe(REDIRECT_URI);
+  });
+
+  it('rejects a replayed nonce', async () => {
+    mock.setIdTokenClaims({ ...claimsFor('ada@acme.com'), nonce: 'nonce-1' });
+    await expect(OIDCService.completeAuthorization(provider, {
+      code: 'code-1', redirectUri: REDIRECT_URI, codeVerifier: 'verifier-1', nonce: 'nonce-2'
+    })).rejects.toMatchObject({ code: 'SSO_INVALID_TOKEN' });
+  });
+
+  it('rejects a token signed with a key the provider does not publish', async () => {
+    mock.setIdTokenClaims({ ...claimsFor('ada@acme.com'), nonce: 'nonce-1' });
+    mock.useForeignKey(true);
+    await expect(OIDCService.completeAuthorization(provider, {
+      code: 'code-1', redirectUri: REDIRECT_URI, codeVerifier: 'verifier-1', nonce: 'nonce-1'
+    })).rejects.toMatchObject({ code: 'SSO_INVALID_TOKEN', message: expect.stringMatching(/signature/) });
+  });
+
+  it('rejects a token issued for another client', async () => {
+    mock.setIdTokenClaims({ ...claimsFor('ada@acme.com'), nonce: 'nonce-1', aud: 'someone-else' });
+    await expect(OIDCService.completeAuthorization(provider, {
+      code: 'code-1', redirectUri: REDIRECT_URI, codeVerifier: 'verifier-1', nonce: 'nonce-1'
+    })).rejects.toMatchObject({ code: 'SSO_INVALID_TOKEN' });
+  });
+});
+
+describe('resolveUser', () => {
+  it('refuses emails outside the allowed domains, also for providers saved without any', async () => {
+    await expect(OIDCService.resolveUser(provider, claimsFor('eve@evil.com'), context))
+      .rejects.toMatchObject({ code: 'SSO_DOMAIN_NOT_ALLOWED' });
+    await expect(OIDCService.resolveUser({ ...provider, allowedDomains: [] }, claimsFor('ada@acme.com'), context))
+      .rejects.toMatchObject({ code: 'SSO_DOMAIN_NOT_ALLOWED' });
+  });
+
+  it('refuses unverified emails', async () => {
+    await expect(OIDCService.resolveUser(provider, { ...claimsFor('ada@acme.com'), email_verified: false }, context))
+      .rejects.toMatchObject({ code: 'SSO_EMAIL_UNVERIFIED' });
+  });
+
+  it('links a learner account on sign-in', async () => {
+    addUser('learner', 'ada@acme.com', 'user');
+
+    const result = await OIDCService.resolveUser(provider, claimsFor('ada@acme.com'), context);
+
+    expect(result.userRecord.uid).toBe('learner');
+    expect(mockUsers.get('learner')?.sso_identities.acme.sub).toBe('sub-ada@acme.com');
+  });
+
+  it('does not link staff above the default role without an explicit link', async () => {
+    addUser('admin', 'boss@acme.com', 'Super Admin');
+    addUser('instructor', 'teach@acme.com', 'Instructor');
+
+    await expect(OIDCService.resolveUser(provider, claimsFor('boss@acme.com'), context))
+      .rejects.toMatchObject({ code: 'SSO_LINK_REQUIRED' });
+    await expect(OIDCService.resolveUser(provider, claimsFor('teach@acme.com'), context))
+      .rejects.toMatchObject({ code: 'SSO_LINK_REQUIRED' });
+    expect(mockUsers.get('admin')?.sso_identities).toBeUndefined();
+  });
+
+  it('does not link accounts with two-factor enrolled without an explicit link', async () => {
+    addUser('learner', 'ada@acme.com', 'user');
+    mockMfaEnabled.add('learner');
+
+    await expect(OIDCService.resolveUser(provider, claimsFor('ada@acme.com'), context))
+      .rejects.toMatchObject({ code: 'SSO_LINK_REQUIRED' });
+  });
+
+  it('links any account its signed-in owner asked to link', async () => {
+    addUser('admin', 'boss@acme.com', 'Super Admin');
+    mockMfaEnabled.add('admin');
+
+    const result = await OIDCService.resolveUser(provider, claimsFor('boss@acme.com'), { ...context, linkUserId: 'admin' });
+
+    expect(result.userRole).toBe('Super Admin');
+    expect(mockUsers.get('admin')?.sso_identities.acme.sub).toBe('sub-boss@acme.com');
+
+    // Later sign-ins need no link step, but must present the same subject
+    await expect(OIDCService.resolveUser(provider, claimsFor('boss@acme.com'), context)).resolves.toMatchObject({ provisioned: false });
+    await expect(OIDCService.resolveUser(provider, claimsFor('boss@acme.com', 'someone-else'), context))
+      .rejects.toMatchObject({ code: 'SSO_IDENTITY_MISMATCH' });
+  });
+
+  it('refuses to link an identity whose email belongs to another account', async () => {
+    addUser('admin', 'boss@acme.com', 'Super Admin');
+    addUser('learner', 'ada@acme.com', 'user');
+
+    await expect(OIDCService.resolveUser(provider, claimsFor('boss@acme.com'), { ...context, linkUserId: 'learner' }))
+      .rejects.toMatchObject({ code: 'SSO_IDENTITY_MISMATCH' });
+    expect(mockUsers.get('admin')?.sso_identities).toBeUndefined();
+  });
+
+  it('provisions unknown emails with the default role', async () => {
+    const result = await OIDCService.resolveUser(provider, { ...claimsFor('new@acme.com'), name: 'New Person' }, context);
+
+    expect(result.provisioned).toBe(true);
+    expect(mockUsers.get(result.userRecord.uid)).toMatchObject({ role: 'user', full_name: 'New Person', provisioned_by: 'sso:acme' });
+  });
+
+  it('refuses unknown emails when provisioning is off', async () => {
+    await expect(OIDCService.resolveUser({ ...provider, autoProvision: false }, claimsFor('new@acme.com'), context))
+      .rejects.toMatchObject({ code: 'SSO_NOT_PROVISIONED' });
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Quiz grading and first-pass XP in QuizService.submitAttempt, with Firestore
+ * replaced by an in-memory store keyed by document path.
+ */
+const mockDocs = new Map<string, Record<string, any>>();
+
+jest.mock('../../backend/lib/firebaseAdmin', () => {
+  const docRef = (path: string): any => ({
+    path,
+    get: async () => ({ exists: mockDocs.has(path), data: () => mockDocs.get(path) }),
+    set: async (data: Record<string, any>, options?: { merge?: boolean }) => {
+      mockDocs.set(path, { ...(options?.merge ? mockDocs.get(path) : {}), ...data });
+    },
+    update: async (data: Record<string, any>) => {
+      mockDocs.set(path, { ...mockDocs.get(path), ...data });
+    },
+    collection: (name: string) => collectionRef(`${path}/${name}`)
+  });
+  const collectionRef = (path: string) => ({ doc: (id: string) => docRef(`${path}/${id}`) });
+
+  return {
+    getFirestore: () => ({
+      collection: collectionRef,
+      runTransaction: async (update: (transaction: any) => Promise<unknown>) => update({
+        get: (ref: any) => ref.get(),
+        set: (ref: any, data: Record<string, any>, options?: { merge?: boolean }) => ref.set(data, options),
+        update: (ref: any, data: Record<string, any>) => ref.update(data)
+      })
+    })
+  };
+});
+
+const QuizService = require('../../backend/lib/quizService');
+
+const COURSE_ID = 'course-1';
+const LESSON_ID = 'lesson-1';
+const QUIZ_ID = `lesson_${COURSE_ID}_${LESSON_ID}`;
+const PROGRESS_PATH = `progress/learner/courses/${COURSE_ID}/lessons/${LESSON_ID}`;
+
+const QUESTIONS = [
+  {
+    id: 'capital',
+    type: 'multiple_choice',
+    points: 2,
+    options: [{ id: 'a', text: 'Accra' }, { id: 'b', text: 'Lagos' }],
+    correct_option_ids: ['a'],
+    accepted_answers: []
+  },
+  {
+    id: 'primes',
+    type: 'multi_select',
+    points: 1,
+    options: [{ id: 'two', text: '2' }, { id: 'three', text: '3' }, { id: 'four', text: '4' }],
+    correct_option_ids: ['two', 'three'],
+    accepted_answers: []
+  },
+  {
+    id: 'round',
+    type: 'true_false',
+    points: 1,
+    options: [{ id: 'true', text: 'True' }, { id: 'false', text: 'False' }],
+    correct_option_ids: ['true'],
+    accepted_answers: []
+  },
+  {
+    id: 'river',
+    type: 'short_answer',
+    points: 1,
+    options: [],
+    correct_option_ids: [],
+    accepted_answers: ['The Nile', 'Nile']
+  }
+];
+
+const ALL_RIGHT = { capital: 'a', primes: ['three', 'two'], round: 'true', river: 'nile' };
+
+let attemptCount = 0;
+
+const openAttempt = (userId = 'learner') => {
+  const id = `attempt-${++attemptCount}`;
+  mockDocs.set(`quiz_attempts/${id}`, {
+    user_id: userId,
+    quiz_id: QUIZ_ID,
+    course_id: COURSE_ID,
+    lesson_id: LESSON_ID,
+    attempt_number: attemptCount,
+    question_order: QUESTIONS.map(question => question.id),
+    status: 'in_progress'
+  });
+  return id;
+};
+
+const submit = (answers: Record<string, unknown>, attemptId = openAttempt()) =>
+  QuizService.submitAttempt('learner', COURSE_ID, attemptId, answers);
+
+const correctness = (result: { results: { question_id: string; correct: boolean }[] }) =>
+  Object.fromEntries(result.results.map(({ question_id, correct }) => [question_id, correct]));
+
+beforeEach(() => {
+  mockDocs.clear();
+  attemptCount = 0;
+  mockDocs.set(`quizzes/${QUIZ_ID}`, {
+    id: QUIZ_ID,
+    course_id: COURSE_ID,
+    lesson_id: LESSON_ID,
+    pass_mark: 80,
+    max_attempts: 0,
+    xp_points: 50,
+    required: true,
+    questions: QUESTIONS
+  });
+});
+
+describe('grading', () => {
+  it('accepts the right answers, in any order and ignoring case and spacing for short answers', async () => {
+    const result = await submit({ ...ALL_RIGHT, primes: ['three', 'two', 'two'], river: '  the   NILE ' });
+
+    expect(correctness(result)).toEqual({ capital: true, primes: true, round: true, river: true });
+    expect(result).toMatchObject({ score: 5, max_score: 5, percentage: 100, passed: true });
+  });
+
+  it('needs exactly the correct set for multi-select questions', async () => {
+    const subset = await submit({ ...ALL_RIGHT, primes: ['two'] });
+    const superset = await submit({ ...ALL_RIGHT, primes: ['two', 'three', 'four'] });
+
+    expect(correctness(subset).primes).toBe(false);
+    expect(correctness(superset).primes).toBe(false);
+  });
+
+  it('marks wrong, missing and malformed answers incorrect', async () => {
+    const result = await submit({ capital: 'b', primes: 'two', round: ['true', 'false'], river: '' });
+
+    expect(correctness(result)).toEqual({ capital: false, primes: false, round: false, river: false });
+    expect(result).toMatchObject({ score: 0, percentage: 0, passed: false });
+  });
+
+  it('weights questions by their points against the pass mark', async () => {
+    // Missing the two-point question leaves 3 of 5 points
+    const result = await submit({ ...ALL_RIGHT, capital: 'b' });
+
+    expect(result).toMatchObject({ score: 3, max_score: 5, percentage: 60, pass_mark: 80, passed: false });
+  });
+
+  it('keeps only answers to the quiz questions', async () => {
+    const attemptId = openAttempt();
+    await submit({ ...ALL_RIGHT, injected: 'x' }, attemptId);
+
+    expect(Object.keys(mockDocs.get(`quiz_attempts/${attemptId}`)!.answers).sort()).toEqual(['capital', 'primes', 'river', 'round']);
+  });
+});
+
+describe('XP and progress', () => {
+  it('awards XP on the first pass only', async () => {
+    const failed = await submit({ ...ALL_RIGHT, capital: 'b' });
+    expect(failed.xp_awarded).toBe(0);
+    expect(mockDocs.get(PROGRESS_PATH)).toMatchObject({ quiz_best_score: 60 });
+    expect(mockDocs.get(PROGRESS_PATH)?.quiz_passed).toBeUndefined();
+
+    const firstPass = await submit(ALL_RIGHT);
+    expect(firstPass.xp_awarded).toBe(50);
+    const passedAt = mockDocs.get(PROGRESS_PATH)?.quiz_passed_at;
+    expect(mockDocs.get(PROGRESS_PATH)).toMatchObject({ quiz_passed: true, quiz_xp: 50, quiz_best_score: 100 });
+
+    const secondPass = await submit(ALL_RIGHT);
+    expect(secondPass.xp_awarded).toBe(0);
+    expect(mockDocs.get(PROGRESS_PATH)).toMatchObject({ quiz_xp: 50, quiz_passed_at: passedAt });
+  });
+
+  it('never lowers the best score', async () => {
+    await submit(ALL_RIGHT);
+    await submit({});
+
+    expect(mockDocs.get(PROGRESS_PATH)).toMatchObject({ quiz_best_score: 100, quiz_passed: true });
+  });
+});
+
+describe('attempts', () => {
+  it('grades an attempt once', async () => {
+    const attemptId = openAttempt();
+    await submit(ALL_RIGHT, attemptId);
+
+    await expect(submit(ALL_RIGHT, attemptId)).rejects.toMatchObject({ code: 'ATTEMPT_SUBMITTED' });
+  });
+
+  it('refuses attempts that belong to someone else', async () => {
+    await expect(submit(ALL_RIGHT, openAttempt('someone-else'))).rejects.toMatchObject({ code: 'ATTEMPT_NOT_FOUND' });
+  });
+});
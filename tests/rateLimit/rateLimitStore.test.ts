@@ -0,0 +1,114 @@
+/**
+ * The sliding-window rate limit stores. The Firestore store runs against an
+ * in-memory rate_limits collection.
+ */
+const mockLimits = new Map<string, Record<string, any>>();
+
+jest.mock('../../backend/lib/firebaseAdmin', () => {
+  const docRef = (id: string) => ({
+    id,
+    get: async () => ({ id, exists: mockLimits.has(id), data: () => mockLimits.get(id) }),
+    set: async (data: Record<string, any>, options?: { merge?: boolean }) => {
+      mockLimits.set(id, { ...(options?.merge ? mockLimits.get(id) : {}), ...data });
+    },
+    delete: async () => {
+      mockLimits.delete(id);
+    }
+  });
+
+  return {
+    getFirestore: () => ({
+      collection: () => ({ doc: docRef }),
+      runTransaction: async (update: (transaction: any) => Promise<unknown>) => update({
+        get: (ref: ReturnType<typeof docRef>) => ref.get(),
+        set: (ref: ReturnType<typeof docRef>, data: Record<string, any>, options?: { merge?: boolean }) => ref.set(data, options)
+      })
+    })
+  };
+});
+
+const { MemoryRateLimitStore, FirestoreRateLimitStore } = require('../../backend/lib/rateLimitStore');
+
+const KEY = 'login:ada@example.com';
+const WINDOW_MS = 60 * 1000;
+const START = 1_700_000_000_000;
+
+const limit = (now: number) => ({ max: 3, windowMs: WINDOW_MS, now });
+
+beforeEach(() => {
+  mockLimits.clear();
+});
+
+describe.each([
+  ['memory', () => new MemoryRateLimitStore()],
+  ['firestore', () => new FirestoreRateLimitStore()]
+])('%s store', (_name, createStore) => {
+  let store: any;
+
+  beforeEach(() => {
+    store = createStore();
+  });
+
+  it('allows up to the maximum within the window, then refuses until the oldest hit expires', async () => {
+    await expect(store.hit(KEY, limit(START))).resolves.toEqual({ allowed: true, count: 1, retryAfterMs: 0 });
+    await store.hit(KEY, limit(START + 10_000));
+    await store.hit(KEY, limit(START + 20_000));
+
+    await expect(store.hit(KEY, limit(START + 30_000))).resolves.toEqual({ allowed: false, count: 3, retryAfterMs: 30_000 });
+    await expect(store.hit(KEY, limit(START + WINDOW_MS - 1))).resolves.toMatchObject({ allowed: false, retryAfterMs: 1 });
+
+    // The window slides: the first hit has left it, the other two have not
+    await expect(store.hit(KEY, limit(START + WINDOW_MS))).resolves.toEqual({ allowed: true, count: 3, retryAfterMs: 0 });
+    await expect(store.hit(KEY, limit(START + WINDOW_MS + 1))).resolves.toMatchObject({ allowed: false, retryAfterMs: 9_999 });
+  });
+
+  it('does not count refused attempts', async () => {
+    for (let i = 0; i < 3; i++) {
+      await store.hit(KEY, limit(START));
+    }
+    for (let i = 0; i < 5; i++) {
+      await store.hit(KEY, limit(START + 1_000));
+    }
+
+    await expect(store.hit(KEY, limit(START + WINDOW_MS))).resolves.toEqual({ allowed: true, count: 1, retryAfterMs: 0 });
+  });
+
+  it('peeks without recording a hit', async () => {
+    await store.hit(KEY, limit(START));
+
+    await expect(store.peek(KEY, limit(START + 1))).resolves.toEqual({ allowed: true, count: 1, retryAfterMs: 0 });
+    await expect(store.peek(KEY, limit(START + 2))).resolves.toEqual({ allowed: true, count: 1, retryAfterMs: 0 });
+  });
+
+  it('keeps keys apart and forgets a key on reset', async () => {
+    for (let i = 0; i < 3; i++) {
+      await store.hit(KEY, limit(START));
+    }
+
+    await expect(store.hit('login:someone@example.com', limit(START))).resolves.toMatchObject({ allowed: true });
+
+    await store.reset(KEY);
+    await expect(store.hit(KEY, limit(START + 1))).resolves.toEqual({ allowed: true, count: 1, retryAfterMs: 0 });
+  });
+});
+
+describe('memory store sweep', () => {
+  it('drops keys whose window has passed', async () => {
+    const store = new MemoryRateLimitStore();
+    await store.hit(KEY, limit(START));
+
+    await store.hit('other', limit(START + WINDOW_MS + 60_000));
+
+    expect(store.windows.has(KEY)).toBe(false);
+  });
+});
+
+describe('firestore store documents', () => {
+  it('stores hashed keys, never the raw identifier', async () => {
+    await new FirestoreRateLimitStore().hit(KEY, limit(START), { type: 'login' });
+
+    const [[id, doc]] = Array.from(mockLimits.entries());
+    expect(id).not.toContain('ada@example.com');
+    expect(doc).toMatchObject({ type: 'login', hits: [START], request_count: 1 });
+  });
+});
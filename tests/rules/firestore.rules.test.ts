@@ -0,0 +1,205 @@
+/**
+ * firestore.rules against the Firestore emulator. Run with `npm run test:rules`,
+ * which starts the emulators and sets FIRESTORE_EMULATOR_HOST.
+ */
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  RulesTestEnvironment
+} from '@firebase/rules-unit-testing';
+
+const PROJECT_ID = 'demo-forward-africa';
+
+let testEnv: RulesTestEnvironment;
+
+// Role travels as the custom claim synced by /api/auth/sync-role
+const as = (uid: string, role = 'user') => testEnv.authenticatedContext(uid, { role }).firestore();
+
+const seed = (path: string, data: Record<string, unknown>) =>
+  testEnv.withSecurityRulesDisabled(async context => {
+    await context.firestore().doc(path).set(data);
+  });
+
+beforeAll(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId: PROJECT_ID,
+    firestore: { rules: readFileSync(resolve(__dirname, '../../firestore.rules'), 'utf8') }
+  });
+});
+
+afterAll(async () => {
+  await testEnv.cleanup();
+});
+
+beforeEach(async () => {
+  await testEnv.clearFirestore();
+  await seed('users/learner', { role: 'user', email: 'learner@example.com', full_name: 'Learner' });
+  await seed('users/admin', { role: 'Super Admin', email: 'admin@example.com' });
+  await seed('users/manager', { role: 'Content Manager', email: 'manager@example.com' });
+  await seed('users/instructor', { role: 'Instructor', email: 'instructor@example.com' });
+  await seed('users/community', { role: 'Community Manager', email: 'community@example.com' });
+  await seed('users/support', { role: 'User Support', email: 'support@example.com' });
+});
+
+describe('users', () => {
+  it('lets owners edit their profile but not account control fields', async () => {
+    const learner = as('learner');
+    await assertSucceeds(learner.doc('users/learner').update({ full_name: 'New Name', city: 'Lagos' }));
+    await assertFails(learner.doc('users/learner').update({ role: 'Super Admin' }));
+    await assertFails(learner.doc('users/learner').update({ suspended: false }));
+    await assertFails(learner.doc('users/learner').update({ email: 'other@example.com' }));
+    await assertFails(learner.doc('users/learner').update({ sso_identities: { acme: { subject: 'x' } } }));
+    await assertFails(learner.doc('users/learner').update({ permission_overrides: { grant: ['audit:view_logs'] } }));
+  });
+
+  it('only lets owners create a plain learner record', async () => {
+    await assertSucceeds(as('newcomer').doc('users/newcomer').set({ role: 'user', email: 'new@example.com' }));
+    await assertFails(as('climber').doc('users/climber').set({ role: 'Super Admin' }));
+    await assertFails(as('newcomer').doc('users/other').set({ role: 'user' }));
+  });
+
+  it('lets users:edit holders edit profiles of lower roles only', async () => {
+    const instructor = as('instructor', 'Instructor');
+    await assertSucceeds(instructor.doc('users/learner').update({ full_name: 'Edited' }));
+    await assertFails(instructor.doc('users/admin').update({ full_name: 'Edited' }));
+    await assertFails(instructor.doc('users/manager').update({ full_name: 'Edited' }));
+  });
+
+  it('keeps users:edit holders away from suspension, email and roles', async () => {
+    const instructor = as('instructor', 'Instructor');
+    await assertFails(instructor.doc('users/learner').update({ suspended: true }));
+    await assertFails(instructor.doc('users/learner').update({ status: 'suspended' }));
+    await assertFails(instructor.doc('users/learner').update({ email: 'hijack@example.com' }));
+    await assertFails(instructor.doc('users/learner').update({ role: 'User Support' }));
+
+    const support = as('support', 'User Support');
+    await assertFails(support.doc('users/learner').update({ suspended: true }));
+    await assertFails(support.doc('users/community').update({ full_name: 'Edited' }));
+  });
+
+  it('lets users:suspend holders suspend lower roles and nothing else', async () => {
+    const community = as('community', 'Community Manager');
+    await assertSucceeds(community.doc('users/learner').update({ suspended: true }));
+    await assertFails(community.doc('users/learner').update({ full_name: 'Edited' }));
+    await assertFails(community.doc('users/instructor').update({ suspended: true }));
+    await assertFails(community.doc('users/admin').update({ suspended: true }));
+  });
+
+  it('lets Super Admins manage any account', async () => {
+    const admin = as('admin', 'Super Admin');
+    await assertSucceeds(admin.doc('users/learner').update({ role: 'Instructor', suspended: true }));
+    await assertSucceeds(admin.doc('users/manager').update({ full_name: 'Edited' }));
+  });
+
+  it('honours permission overrides', async () => {
+    await seed('users/learner', { role: 'user', permission_overrides: { grant: ['users:view'] } });
+    await seed('users/support', { role: 'User Support', permission_overrides: { deny: ['users:view'] } });
+
+    await assertSucceeds(as('learner').doc('users/community').get());
+    await assertFails(as('support', 'User Support').doc('users/learner').get());
+  });
+});
+
+describe('progress', () => {
+  const lessonPath = 'progress/learner/courses/course-1/lessons/lesson-1';
+
+  it('is private to its owner', async () => {
+    await seed(lessonPath, { last_position: 10 });
+    await assertSucceeds(as('learner').doc(lessonPath).get());
+    await assertFails(as('other').doc(lessonPath).get());
+    await assertFails(as('admin', 'Super Admin').doc(lessonPath).set({ last_position: 20 }));
+  });
+
+  it('keeps graded results server-only', async () => {
+    await assertFails(as('learner').doc(lessonPath).set({ quiz_passed: true }));
+    await assertFails(as('learner').doc(lessonPath).set({ assignment_passed: true }));
+    await assertFails(as('learner').doc('progress/learner/courses/course-1').set({ enrolled_at: '2020-01-01T00:00:00.000Z' }));
+  });
+
+  it('leaves completion to the progress API, which checks the lesson locks', async () => {
+    const learner = as('learner');
+    await assertSucceeds(learner.doc(lessonPath).set({ last_position: 30, watch_time: 30 }));
+    await assertSucceeds(learner.doc(lessonPath).update({ last_position: 45 }));
+
+    await assertFails(learner.doc(lessonPath).update({ completed: true }));
+    await assertFails(learner.doc(lessonPath).update({ completed_at: '2020-01-01T00:00:00.000Z' }));
+    await assertFails(learner.doc(lessonPath).update({ progress_percentage: 100 }));
+    await assertFails(learner.doc('progress/learner/courses/course-1/lessons/lesson-2').set({ completed: true, progress_percentage: 100 }));
+  });
+
+  it('does not let a learner complete a lesson whose quiz is not passed', async () => {
+    await seed(lessonPath, { last_position: 120, quiz_passed: false });
+    await assertFails(as('learner').doc(lessonPath).update({ completed: true, completed_at: '2020-01-01T00:00:00.000Z' }));
+    await assertFails(as('learner').doc(lessonPath).update({ completed: true, quiz_passed: true }));
+  });
+
+  it('does not let a learner complete an assignment lesson before it is graded', async () => {
+    // Submitted but not graded yet: the lesson has progress and no assignment result
+    await seed(lessonPath, { last_position: 300 });
+    await assertFails(as('learner').doc(lessonPath).update({ completed: true }));
+    await assertFails(as('learner').doc(lessonPath).update({ progress_percentage: 100 }));
+    await assertFails(as('learner').doc(lessonPath).update({ completed: true, assignment_passed: true, assignment_score: 100 }));
+  });
+
+  it('keeps server-stamped completion out of the owner\'s reach', async () => {
+    await seed(lessonPath, { completed: true, progress_percentage: 100, last_position: 10 });
+    await assertSucceeds(as('learner').doc(lessonPath).update({ last_position: 20 }));
+    await assertFails(as('learner').doc(lessonPath).update({ completed: false }));
+  });
+});
+
+describe('courses', () => {
+  beforeEach(async () => {
+    await seed('courses/live', { title: 'Live', workflow_status: 'published' });
+    await seed('courses/draft', { title: 'Draft', workflow_status: 'draft' });
+  });
+
+  it('shows learners published courses only', async () => {
+    await assertSucceeds(as('learner').doc('courses/live').get());
+    await assertFails(as('learner').doc('courses/draft').get());
+    await assertSucceeds(as('instructor', 'Instructor').doc('courses/draft').get());
+  });
+
+  it('serves lesson documents to learners only through the API', async () => {
+    await seed('courses/live/lessons/lesson-1', { title: 'Lesson', video_url: 'https://video.example/1', workflow_status: 'published' });
+    await seed('courses/draft/lessons/lesson-1', { title: 'Lesson', workflow_status: 'published' });
+    await assertFails(as('learner').doc('courses/live/lessons/lesson-1').get());
+    await assertFails(testEnv.unauthenticatedContext().firestore().doc('courses/live/lessons/lesson-1').get());
+    await assertFails(as('learner').doc('courses/draft/lessons/lesson-1').get());
+    await assertSucceeds(as('instructor', 'Instructor').doc('courses/live/lessons/lesson-1').get());
+  });
+
+  it('needs course permissions to write, and never changes workflow state', async () => {
+    await assertFails(as('learner').doc('courses/draft').update({ title: 'Mine' }));
+    await assertSucceeds(as('instructor', 'Instructor').doc('courses/draft').update({ title: 'Edited' }));
+    await assertFails(as('instructor', 'Instructor').doc('courses/draft').update({ workflow_status: 'published' }));
+    await assertFails(as('instructor', 'Instructor').doc('courses/live').update({ title: 'In place' }));
+  });
+});
+
+describe('audit_logs', () => {
+  it('is append-only through the API', async () => {
+    await seed('audit_logs/entry', { action: 'LOGIN', user_id: 'learner' });
+    await assertFails(as('learner').collection('audit_logs').add({ action: 'LOGIN' }));
+    await assertFails(as('admin', 'Super Admin').doc('audit_logs/entry').update({ action: 'EDITED' }));
+    await assertFails(as('admin', 'Super Admin').doc('audit_logs/entry').delete());
+  });
+
+  it('needs audit:view_logs to read', async () => {
+    await seed('audit_logs/entry', { action: 'LOGIN', user_id: 'learner' });
+    await assertSucceeds(as('admin', 'Super Admin').doc('audit_logs/entry').get());
+    await assertFails(as('learner').doc('audit_logs/entry').get());
+  });
+});
+
+describe('server-only collections', () => {
+  it('are closed to every client', async () => {
+    await seed('user_sessions/session', { user_id: 'learner' });
+    await assertFails(as('learner').doc('user_sessions/session').get());
+    await assertFails(as('admin', 'Super Admin').doc('user_mfa/learner').set({ secret: 'x' }));
+    await assertFails(as('admin', 'Super Admin').doc('quizzes/quiz').get());
+  });
+});
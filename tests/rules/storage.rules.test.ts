@@ -0,0 +1,95 @@
+/**
+ * storage.rules against the Storage emulator (with Firestore for role and
+ * override lookups). Run with `npm run test:rules`.
+ */
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  RulesTestEnvironment
+} from '@firebase/rules-unit-testing';
+
+const PROJECT_ID = 'demo-forward-africa';
+
+let testEnv: RulesTestEnvironment;
+
+const as = (uid: string, role = 'user') => testEnv.authenticatedContext(uid, { role }).storage();
+
+const image = new Uint8Array([0x89, 0x50, 0x4e, 0x47]);
+// UploadTask is thenable but not a Promise
+const upload = async (storage: ReturnType<typeof as>, path: string, contentType: string) =>
+  storage.ref(path).put(image, { contentType }).then(snapshot => snapshot);
+
+beforeAll(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId: PROJECT_ID,
+    firestore: { rules: readFileSync(resolve(__dirname, '../../firestore.rules'), 'utf8') },
+    storage: { rules: readFileSync(resolve(__dirname, '../../storage.rules'), 'utf8') }
+  });
+});
+
+afterAll(async () => {
+  await testEnv.cleanup();
+});
+
+beforeEach(async () => {
+  await testEnv.clearStorage();
+  await testEnv.clearFirestore();
+});
+
+describe('avatars', () => {
+  it('are written by their owner, as images only', async () => {
+    await assertSucceeds(upload(as('learner'), 'avatars/learner/photo.png', 'image/png'));
+    await assertFails(upload(as('learner'), 'avatars/learner/script.js', 'text/javascript'));
+    await assertFails(upload(as('other'), 'avatars/learner/photo.png', 'image/png'));
+  });
+});
+
+describe('course media and banners', () => {
+  it('need content:upload', async () => {
+    await assertSucceeds(upload(as('instructor', 'Instructor'), 'courses/course-1/banners/banner.png', 'image/png'));
+    await assertSucceeds(upload(as('manager', 'Content Manager'), 'course-banners/course-1/banner.png', 'image/png'));
+    await assertFails(upload(as('learner'), 'courses/course-1/banners/banner.png', 'image/png'));
+    await assertFails(upload(as('support', 'User Support'), 'course-media/course-1/lesson.mp4', 'video/mp4'));
+  });
+
+  it('take images and video only', async () => {
+    await assertFails(upload(as('instructor', 'Instructor'), 'courses/course-1/lessons/notes.pdf', 'application/pdf'));
+  });
+
+  it('are public to read', async () => {
+    await testEnv.withSecurityRulesDisabled(async context => {
+      await context.storage().ref('courses/course-1/banners/banner.png').put(image, { contentType: 'image/png' });
+    });
+    await assertSucceeds(testEnv.unauthenticatedContext().storage().ref('courses/course-1/banners/banner.png').getMetadata());
+  });
+});
+
+describe('assignment submissions', () => {
+  const path = 'submissions/learner/course-1/lesson-1/essay.pdf';
+
+  it('are uploaded once by their owner and never replaced', async () => {
+    await assertSucceeds(upload(as('learner'), path, 'application/pdf'));
+    await assertFails(upload(as('learner'), path, 'application/pdf'));
+    await assertFails(as('learner').ref(path).delete());
+    await assertFails(upload(as('other'), 'submissions/learner/course-1/lesson-1/other.pdf', 'application/pdf'));
+  });
+
+  it('are readable by their owner and graders only', async () => {
+    await testEnv.withSecurityRulesDisabled(async context => {
+      await context.storage().ref(path).put(image, { contentType: 'application/pdf' });
+    });
+    await assertSucceeds(as('learner').ref(path).getMetadata());
+    await assertSucceeds(as('instructor', 'Instructor').ref(path).getMetadata());
+    await assertFails(as('peer').ref(path).getMetadata());
+  });
+});
+
+describe('admin uploads', () => {
+  it('are Super Admin only', async () => {
+    await assertSucceeds(upload(as('admin', 'Super Admin'), 'admin/export.png', 'image/png'));
+    await assertFails(upload(as('manager', 'Content Manager'), 'admin/export.png', 'image/png'));
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Refresh-token rotation in SessionService, with Firestore replaced by an
+ * in-memory sessions collection.
+ */
+const mockSessions = new Map<string, Record<string, any>>();
+
+jest.mock('../../backend/lib/firebaseAdmin', () => {
+  const docRef = (id: string) => ({
+    id,
+    get: async () => ({ id, exists: mockSessions.has(id), data: () => mockSessions.get(id) }),
+    update: async (data: Record<string, any>) => {
+      mockSessions.set(id, { ...mockSessions.get(id), ...data });
+    }
+  });
+
+  return {
+    getFirestore: () => ({
+      collection: () => ({ doc: docRef }),
+      runTransaction: async (update: (transaction: any) => Promise<unknown>) => update({
+        get: (ref: ReturnType<typeof docRef>) => ref.get(),
+        update: (ref: ReturnType<typeof docRef>, data: Record<string, any>) => ref.update(data)
+      })
+    })
+  };
+});
+
+jest.mock('../../backend/lib/securityPolicyService', () => ({ getIdleTimeoutMs: async () => 30 * 60 * 1000 }));
+jest.mock('../../backend/lib/auditService', () => ({ createLog: async () => undefined }));
+
+const SessionService = require('../../backend/lib/sessionService');
+
+const SESSION_ID = 'session-1';
+
+const secondsAgo = (seconds: number) => new Date(Date.now() - seconds * 1000).toISOString();
+
+const seedSession = (overrides: Record<string, any> = {}) => {
+  mockSessions.set(SESSION_ID, {
+    id: SESSION_ID,
+    user_id: 'learner',
+    token: SessionService.hashToken('refresh-1'),
+    previous_token: null,
+    token_rotated_at: null,
+    is_active: true,
+    last_activity: secondsAgo(60),
+    expires_at: new Date(Date.now() + 3600 * 1000).toISOString(),
+    ...overrides
+  });
+};
+
+beforeEach(() => {
+  mockSessions.clear();
+});
+
+describe('rotateRefreshToken', () => {
+  it('swaps the current token for the new one and never stores raw tokens', async () => {
+    seedSession();
+
+    await expect(SessionService.rotateRefreshToken(SESSION_ID, 'refresh-1', 'refresh-2')).resolves.toBe('rotated');
+
+    const session = mockSessions.get(SESSION_ID)!;
+    expect(session.token).toBe(SessionService.hashToken('refresh-2'));
+    expect(session.previous_token).toBe(SessionService.hashToken('refresh-1'));
+    expect(JSON.stringify(session)).not.toContain('refresh-2');
+  });
+
+  it('honours the token just rotated out within the grace window', async () => {
+    seedSession();
+    await SessionService.rotateRefreshToken(SESSION_ID, 'refresh-1', 'refresh-2');
+
+    await expect(SessionService.rotateRefreshToken(SESSION_ID, 'refresh-1', 'refresh-3')).resolves.toBe('grace');
+
+    const session = mockSessions.get(SESSION_ID)!;
+    expect(session.is_active).toBe(true);
+    expect(session.token).toBe(SessionService.hashToken('refresh-2'));
+  });
+
+  it('revokes the session when the previous token returns after the grace window', async () => {
+    seedSession({
+      token: SessionService.hashToken('refresh-2'),
+      previous_token: SessionService.hashToken('refresh-1'),
+      token_rotated_at: secondsAgo(31)
+    });
+
+    await expect(SessionService.rotateRefreshToken(SESSION_ID, 'refresh-1', 'refresh-3')).resolves.toBe('reuse');
+    expect(mockSessions.get(SESSION_ID)).toMatchObject({ is_active: false, revoked_reason: 'refresh_token_reuse' });
+
+    // The current token of the family is dead too
+    await expect(SessionService.rotateRefreshToken(SESSION_ID, 'refresh-2', 'refresh-3')).resolves.toBe('invalid');
+  });
+
+  it('revokes the session when an older token of the family is replayed', async () => {
+    seedSession();
+    await SessionService.rotateRefreshToken(SESSION_ID, 'refresh-1', 'refresh-2');
+    await SessionService.rotateRefreshToken(SESSION_ID, 'refresh-2', 'refresh-3');
+
+    await expect(SessionService.rotateRefreshToken(SESSION_ID, 'refresh-1', 'refresh-4')).resolves.toBe('reuse');
+    expect(mockSessions.get(SESSION_ID)?.is_active).toBe(false);
+  });
+
+  it('refuses revoked, expired and unknown sessions', async () => {
+    seedSession({ is_active: false });
+    await expect(SessionService.rotateRefreshToken(SESSION_ID, 'refresh-1', 'refresh-2')).resolves.toBe('invalid');
+
+    seedSession({ expires_at: secondsAgo(1) });
+    await expect(SessionService.rotateRefreshToken(SESSION_ID, 'refresh-1', 'refresh-2')).resolves.toBe('invalid');
+
+    await expect(SessionService.rotateRefreshToken('missing', 'refresh-1', 'refresh-2')).resolves.toBe('invalid');
+  });
+
+  it('expires idle sessions instead of rotating them', async () => {
+    seedSession({ last_activity: secondsAgo(31 * 60) });
+
+    await expect(SessionService.rotateRefreshToken(SESSION_ID, 'refresh-1', 'refresh-2')).resolves.toBe('idle');
+    expect(mockSessions.get(SESSION_ID)).toMatchObject({ is_active: false, revoked_reason: 'idle_timeout' });
+  });
+});